@@ -2,6 +2,7 @@ import jwt from 'jsonwebtoken';
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { PrismaClient, UserRole } from '@prisma/client';
 import getEnvConfig from '../config/env.js';
+import { sendForbidden } from './permissions.js';
 
 const env = getEnvConfig();
 const prisma = new PrismaClient();
@@ -13,9 +14,10 @@ export interface AuthUser {
   role: UserRole;
 }
 
-declare module 'fastify' {
-  interface FastifyRequest {
-    user?: AuthUser;
+// @fastify/jwt declares request.user; typing its user as AuthUser covers both authentication paths
+declare module '@fastify/jwt' {
+  interface FastifyJWT {
+    user: AuthUser;
   }
 }
 
@@ -63,11 +65,7 @@ export function requireRole(roles: UserRole | UserRole[]) {
     }
 
     if (!requiredRoles.includes(request.user.role)) {
-      return reply.status(403).send({
-        error: 'Insufficient permissions',
-        required: requiredRoles,
-        current: request.user.role
-      });
+      return sendForbidden(reply, `Your role (${request.user.role}) cannot perform this action`, requiredRoles);
     }
   };
 }
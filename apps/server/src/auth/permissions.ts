@@ -0,0 +1,125 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { Prisma, PrismaClient, ProjectRole, UserRole } from '@prisma/client';
+import { USER_PERMISSIONS } from '@seo-portal/shared';
+import type { AuthUser } from './jwt.js';
+import { ProjectService, ProjectAccess, hasProjectRole } from '../services/projects.js';
+
+const prisma = new PrismaClient();
+const projectService = new ProjectService(prisma);
+
+export type Permission = (typeof USER_PERMISSIONS)[keyof typeof USER_PERMISSIONS][number];
+
+// Global permission check; manage:<resource> covers every action on that resource
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  const granted: readonly string[] = USER_PERMISSIONS[role.toLowerCase() as keyof typeof USER_PERMISSIONS] || [];
+  const resource = permission.split(':')[1];
+
+  return granted.includes(permission) || granted.includes(`manage:${resource}`);
+}
+
+// Every permission failure is reported with the same response shape
+export function sendForbidden(reply: FastifyReply, message: string, required?: Permission | ProjectRole | UserRole[]) {
+  return reply.status(403).send({
+    error: 'Insufficient permissions',
+    message,
+    ...(required && { required })
+  });
+}
+
+export function requirePermission(permission: Permission) {
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    if (!request.user) {
+      return reply.status(401).send({ error: 'Authentication required' });
+    }
+
+    if (!hasPermission(request.user.role, permission)) {
+      return sendForbidden(reply, `Your role (${request.user.role}) does not allow ${permission}`, permission);
+    }
+  };
+}
+
+// The user's effective role on a project; users with manage:projects act as OWNER on every project
+export async function getProjectAccess(user: AuthUser, projectId: string): Promise<ProjectAccess | null> {
+  const access = await projectService.getAccess(projectId, user.id);
+  if (access || !hasPermission(user.role, 'manage:projects')) {
+    return access;
+  }
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { id: true, ownerId: true }
+  });
+
+  return project ? { projectId: project.id, ownerId: project.ownerId, role: ProjectRole.OWNER } : null;
+}
+
+// Prisma filter for the queries a user can read: their own and those in projects they belong to
+export function readableQueriesWhere(user: AuthUser): Prisma.QueryWhereInput {
+  if (hasPermission(user.role, 'manage:queries')) {
+    return {};
+  }
+
+  return {
+    OR: [
+      { createdBy: user.id },
+      { project: { ownerId: user.id } },
+      { project: { members: { some: { userId: user.id } } } }
+    ]
+  };
+}
+
+// Returns why the user may not launch research in the project, or null when they may.
+// Research outside a project only needs the global create:queries permission.
+export async function checkResearchAccess(user: AuthUser, projectId?: string): Promise<string | null> {
+  if (!projectId) {
+    return null;
+  }
+
+  const access = await getProjectAccess(user, projectId);
+  if (!access) {
+    return 'You are not a member of this project';
+  }
+
+  if (!hasProjectRole(access.role, ProjectRole.EDITOR)) {
+    return 'Project viewers cannot run research';
+  }
+
+  return null;
+}
+
+// Returns why the user may not delete a query they can read, or null when they may
+export async function checkQueryDeleteAccess(
+  user: AuthUser,
+  query: { createdBy: string; projectId?: string | null }
+): Promise<string | null> {
+  if (hasPermission(user.role, 'manage:queries')) {
+    return null;
+  }
+
+  if (query.projectId) {
+    const access = await getProjectAccess(user, query.projectId);
+    return access && hasProjectRole(access.role, ProjectRole.EDITOR)
+      ? null
+      : 'Project viewers cannot delete research';
+  }
+
+  return query.createdBy === user.id ? null : 'Only the creator can delete this research';
+}
+
+// Returns why the user may not change a brief they can read, or null when they may.
+// Project editors need update:briefs to change other people's briefs; their own are always editable.
+export async function checkBriefEditAccess(
+  user: AuthUser,
+  brief: { projectId: string; createdBy: string }
+): Promise<string | null> {
+  const access = await getProjectAccess(user, brief.projectId);
+  if (!access || !hasProjectRole(access.role, ProjectRole.EDITOR)) {
+    return 'Project viewers cannot edit briefs';
+  }
+
+  if (brief.createdBy !== user.id && !hasPermission(user.role, 'update:briefs')) {
+    return 'Only the creator can edit this brief';
+  }
+
+  return null;
+}
@@ -21,6 +21,10 @@ const authPlugin: FastifyPluginAsync = async (fastify) => {
       '/health',
       '/docs',
       '/auth',
+      '/api/webhooks',
+      '/api/downloads',
+      '/api/integrations/notion/callback',
+      '/api/integrations/google/callback',
     ];
 
     const isPublicRoute = publicRoutes.some(route =>
@@ -25,10 +25,14 @@ const envSchema = z.object({
   DATAFORSEO_LOGIN: z.string(),
   DATAFORSEO_PASSWORD: z.string(),
   DATAFORSEO_BASE_URL: z.string().default('https://api.dataforseo.com'),
+  DATAFORSEO_CALLBACK_URL: z.string().url().optional(), // Public API URL for pingbacks; polling is used when unset
+  DATAFORSEO_CALLBACK_SECRET: z.string().optional(),
 
   // OpenAI
   OPENAI_API_KEY: z.string(),
   OPENAI_ORGANIZATION: z.string().optional(),
+  EMBEDDINGS_PROVIDER: z.enum(['openai', 'local']).default('openai'), // local: deterministic hashed vectors, no API calls
+  EMBEDDINGS_MODEL: z.string().default('text-embedding-3-small'),
 
   // Rate Limiting
   RATE_LIMIT_MAX: z.string().transform(Number).default(100),
@@ -42,6 +46,28 @@ const envSchema = z.object({
   CACHE_TTL_SERP: z.string().transform(Number).default(3600), // 1 hour
   CACHE_TTL_KEYWORDS: z.string().transform(Number).default(86400), // 24 hours
   CACHE_TTL_BACKLINKS: z.string().transform(Number).default(7200), // 2 hours
+  CACHE_TTL_EMBEDDINGS: z.string().transform(Number).default(7776000), // 90 days
+
+  // Brief exports
+  EXPORT_STORAGE_DIR: z.string().default('./storage/exports'),
+  EXPORT_URL_TTL: z.string().transform(Number).default(3600), // signed download links, in seconds
+  EXPORT_RETENTION_DAYS: z.string().transform(Number).default(7),
+
+  // Notion and Google Docs exports (Google uses the OAuth client above). API URLs can point at a mock server.
+  NOTION_CLIENT_ID: z.string().optional(),
+  NOTION_CLIENT_SECRET: z.string().optional(),
+  NOTION_API_URL: z.string().default('https://api.notion.com'),
+  GOOGLE_OAUTH_URL: z.string().default('https://oauth2.googleapis.com'),
+  GOOGLE_DOCS_API_URL: z.string().default('https://docs.googleapis.com'),
+  EXPORT_CREDENTIALS_KEY: z.string().optional(), // encrypts stored export tokens; derived from JWT_SECRET when unset
+
+  // Rank alert emails; email delivery is skipped when SMTP_HOST is unset
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().transform(Number).default(587),
+  SMTP_SECURE: z.enum(['true', 'false']).transform(value => value === 'true').default('false'), // TLS from the start (port 465)
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  SMTP_FROM: z.string().default('SEO Research Portal <alerts@localhost>'),
 
   // Worker Configuration
   WORKER_POLL_INTERVAL: z.string().transform(Number).default(30000), // 30 seconds
@@ -0,0 +1,261 @@
+import { DATAFORSEO_ENDPOINTS } from '@seo-portal/shared';
+import { DataForSEOClient, TaskGetResponse } from './client.js';
+
+export interface BacklinksTaskData {
+  target: string; // domain, subdomain or URL
+  include_subdomains?: boolean;
+  limit?: number;
+}
+
+export interface NewLostBacklinksTaskData extends BacklinksTaskData {
+  date_from: string; // YYYY-MM-DD
+}
+
+export interface BulkBacklinksTaskData {
+  targets: string[]; // up to 1000 domains, subdomains or URLs
+}
+
+export interface BacklinksSummary {
+  target: string;
+  first_seen: string | null;
+  lost_date: string | null;
+  rank: number;
+  backlinks: number;
+  backlinks_spam_score: number;
+  crawled_pages: number;
+  broken_backlinks: number;
+  referring_domains: number;
+  referring_domains_nofollow: number;
+  referring_main_domains: number;
+  referring_ips: number;
+  referring_subnets: number;
+  referring_pages: number;
+  referring_links_tld: { [tld: string]: number } | null;
+  referring_links_attributes: { [attribute: string]: number } | null;
+}
+
+export interface ReferringDomainItem {
+  type: string;
+  domain: string;
+  rank: number;
+  backlinks: number;
+  first_seen: string | null;
+  lost_date: string | null;
+  backlinks_spam_score: number;
+  broken_backlinks: number;
+  referring_pages: number;
+  referring_links_attributes: { [attribute: string]: number } | null;
+}
+
+export interface AnchorItem {
+  type: string;
+  anchor: string;
+  rank: number;
+  backlinks: number;
+  first_seen: string | null;
+  lost_date: string | null;
+  backlinks_spam_score: number;
+  referring_domains: number;
+  referring_main_domains: number;
+}
+
+export interface BacklinkItem {
+  type: string;
+  domain_from: string;
+  url_from: string;
+  url_to: string;
+  is_new: boolean;
+  is_lost: boolean;
+  rank: number;
+  domain_from_rank: number;
+  first_seen: string;
+  last_seen: string;
+  dofollow: boolean;
+  anchor: string | null;
+  item_type: string;
+  backlink_spam_score: number;
+}
+
+export type AnchorCategory = 'branded' | 'url' | 'generic' | 'empty' | 'keyword';
+
+const GENERIC_ANCHORS = [
+  'click here',
+  'here',
+  'read more',
+  'learn more',
+  'more',
+  'website',
+  'this website',
+  'visit',
+  'visit website',
+  'link',
+  'this',
+  'source',
+  'homepage',
+];
+
+// Backlinks endpoints are live only: results come back in the posting request
+export class BacklinksService {
+  constructor(private client: DataForSEOClient) {}
+
+  // Overall link profile and domain rank for a target
+  async getSummary(data: BacklinksTaskData[]): Promise<TaskGetResponse> {
+    const taskData = data.map(task => ({
+      target: task.target,
+      include_subdomains: task.include_subdomains ?? true,
+      internal_list_limit: 10,
+      backlinks_status_type: 'live',
+    }));
+
+    return this.client.postLive(DATAFORSEO_ENDPOINTS.BACKLINKS_SUMMARY, taskData);
+  }
+
+  // Referring domains, strongest first
+  async getReferringDomains(data: BacklinksTaskData[]): Promise<TaskGetResponse> {
+    const taskData = data.map(task => ({
+      target: task.target,
+      include_subdomains: task.include_subdomains ?? true,
+      limit: task.limit || 500,
+      order_by: ['rank,desc'],
+      exclude_internal_backlinks: true,
+      backlinks_status_type: 'live',
+    }));
+
+    return this.client.postLive(DATAFORSEO_ENDPOINTS.BACKLINKS_DOMAINS, taskData);
+  }
+
+  // Anchor texts, most used first
+  async getAnchors(data: BacklinksTaskData[]): Promise<TaskGetResponse> {
+    const taskData = data.map(task => ({
+      target: task.target,
+      include_subdomains: task.include_subdomains ?? true,
+      limit: task.limit || 500,
+      order_by: ['backlinks,desc'],
+      exclude_internal_backlinks: true,
+      backlinks_status_type: 'live',
+    }));
+
+    return this.client.postLive(DATAFORSEO_ENDPOINTS.BACKLINKS_ANCHORS, taskData);
+  }
+
+  // Links first seen, or lost, since date_from
+  async getNewLostBacklinks(data: NewLostBacklinksTaskData[]): Promise<TaskGetResponse> {
+    const taskData = data.map(task => {
+      const since = `${task.date_from} 00:00:00 +00:00`;
+
+      return {
+        target: task.target,
+        include_subdomains: task.include_subdomains ?? true,
+        limit: task.limit || 1000,
+        mode: 'as_is',
+        backlinks_status_type: 'all',
+        exclude_internal_backlinks: true,
+        filters: [
+          ['first_seen', '>=', since],
+          'or',
+          [['is_lost', '=', true], 'and', ['last_seen', '>=', since]],
+        ],
+        order_by: ['first_seen,desc'],
+      };
+    });
+
+    return this.client.postLive(DATAFORSEO_ENDPOINTS.BACKLINKS_LIST, taskData);
+  }
+
+  // Rank of many targets at once, on a 0-100 scale
+  async getBulkRanks(data: BulkBacklinksTaskData[]): Promise<TaskGetResponse> {
+    const taskData = data.map(task => ({
+      targets: task.targets,
+      rank_scale: 'one_hundred',
+    }));
+
+    return this.client.postLive(DATAFORSEO_ENDPOINTS.BACKLINKS_BULK_RANKS, taskData);
+  }
+
+  // Referring domain counts of many targets at once
+  async getBulkReferringDomains(data: BulkBacklinksTaskData[]): Promise<TaskGetResponse> {
+    const taskData = data.map(task => ({
+      targets: task.targets,
+    }));
+
+    return this.client.postLive(DATAFORSEO_ENDPOINTS.BACKLINKS_BULK_REFERRING_DOMAINS, taskData);
+  }
+
+  // Classify an anchor relative to the target's brand name
+  categorizeAnchor(anchor: string | null, target: string): AnchorCategory {
+    const text = (anchor || '').trim().toLowerCase();
+    if (!text) return 'empty';
+
+    const domain = target.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0];
+    const brand = domain.split('.')[0];
+
+    if (text.includes(domain) || /^(https?:\/\/|www\.)/.test(text)) return 'url';
+    if (brand.length > 2 && text.replace(/[\s-]/g, '').includes(brand.replace(/-/g, ''))) return 'branded';
+    if (GENERIC_ANCHORS.includes(text)) return 'generic';
+    return 'keyword';
+  }
+
+  // Share of backlinks per anchor category, plus the most used anchors
+  analyzeAnchorDistribution(anchors: AnchorItem[], target: string): {
+    totalBacklinks: number;
+    categories: { [category in AnchorCategory]: { backlinks: number; percentage: number } };
+    topAnchors: Array<{
+      anchor: string;
+      category: AnchorCategory;
+      backlinks: number;
+      referringDomains: number;
+      percentage: number;
+    }>;
+  } {
+    const totalBacklinks = anchors.reduce((sum, item) => sum + (item.backlinks || 0), 0);
+    const percentage = (value: number) =>
+      totalBacklinks > 0 ? Math.round((value / totalBacklinks) * 1000) / 10 : 0;
+
+    const counts: { [category in AnchorCategory]: number } = {
+      branded: 0,
+      url: 0,
+      generic: 0,
+      empty: 0,
+      keyword: 0,
+    };
+
+    const topAnchors = anchors.map(item => {
+      const category = this.categorizeAnchor(item.anchor, target);
+      counts[category] += item.backlinks || 0;
+
+      return {
+        anchor: item.anchor,
+        category,
+        backlinks: item.backlinks || 0,
+        referringDomains: item.referring_domains || 0,
+        percentage: percentage(item.backlinks || 0),
+      };
+    });
+
+    const categories = Object.fromEntries(
+      Object.entries(counts).map(([category, backlinks]) => [
+        category,
+        { backlinks, percentage: percentage(backlinks) },
+      ])
+    ) as { [category in AnchorCategory]: { backlinks: number; percentage: number } };
+
+    return {
+      totalBacklinks,
+      categories,
+      topAnchors: topAnchors.slice(0, 50),
+    };
+  }
+
+  // Split a new/lost listing into gained and lost links
+  splitNewLostBacklinks(items: BacklinkItem[], dateFrom: string): {
+    newBacklinks: BacklinkItem[];
+    lostBacklinks: BacklinkItem[];
+  } {
+    const since = new Date(dateFrom).getTime();
+
+    return {
+      newBacklinks: items.filter(item => !item.is_lost && new Date(item.first_seen).getTime() >= since),
+      lostBacklinks: items.filter(item => item.is_lost),
+    };
+  }
+}
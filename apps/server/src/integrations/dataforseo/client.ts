@@ -44,9 +44,16 @@ export interface TaskGetResponse extends TaskPostResponse {
   }>;
 }
 
+export const PINGBACK_PATH = '/api/webhooks/dataforseo/pingback';
+
+// Accepted tasks that haven't produced a result yet: 20100 Task Created, 40601 Task Handed and
+// 40602 Task In Queue. task_get answers with these while a standard task waits for its turn.
+const PENDING_STATUS_CODES = new Set([20100, 40601, 40602]);
+
 export class DataForSEOClient {
   private client: AxiosInstance;
   private credentials: DataForSEOCredentials;
+  private pingbackUrl?: string;
 
   constructor(credentials?: Partial<DataForSEOCredentials>) {
     this.credentials = {
@@ -68,10 +75,24 @@ export class DataForSEOClient {
       timeout: 30000, // 30 seconds
     });
 
+    // DataForSEO substitutes $id and $tag when it calls the pingback URL
+    if (env.DATAFORSEO_CALLBACK_URL) {
+      const url = new URL(PINGBACK_PATH, env.DATAFORSEO_CALLBACK_URL);
+      if (env.DATAFORSEO_CALLBACK_SECRET) {
+        url.searchParams.set('token', env.DATAFORSEO_CALLBACK_SECRET);
+      }
+      this.pingbackUrl = `${url.toString()}${url.search ? '&' : '?'}id=$id&tag=$tag`;
+    }
+
     // Add request/response interceptors for logging and error handling
     this.setupInterceptors();
   }
 
+  // Whether completed tasks are reported via pingback instead of needing to be polled
+  hasCallbacks(): boolean {
+    return Boolean(this.pingbackUrl);
+  }
+
   private setupInterceptors() {
     // Request interceptor
     this.client.interceptors.request.use(
@@ -110,7 +131,10 @@ export class DataForSEOClient {
   // Generic method to post tasks
   async postTask(endpoint: string, data: any[]): Promise<TaskPostResponse> {
     try {
-      const response: AxiosResponse<TaskPostResponse> = await this.client.post(endpoint, data);
+      const payload = this.pingbackUrl
+        ? data.map(item => ({ ...item, pingback_url: this.pingbackUrl }))
+        : data;
+      const response: AxiosResponse<TaskPostResponse> = await this.client.post(endpoint, payload);
       return response.data;
     } catch (error) {
       console.error(`Error posting task to ${endpoint}:`, error);
@@ -118,6 +142,17 @@ export class DataForSEOClient {
     }
   }
 
+  // Generic method for live endpoints, which return results in the same response
+  async postLive(endpoint: string, data: any[]): Promise<TaskGetResponse> {
+    try {
+      const response: AxiosResponse<TaskGetResponse> = await this.client.post(endpoint, data);
+      return response.data;
+    } catch (error) {
+      console.error(`Error posting live request to ${endpoint}:`, error);
+      throw error;
+    }
+  }
+
   // Generic method to get task results
   async getTaskResult(taskId: string, endpoint: string): Promise<TaskGetResponse> {
     try {
@@ -147,9 +182,14 @@ export class DataForSEOClient {
     return task.status_code === 20000; // 20000 means success
   }
 
+  // Utility method to check if a task is accepted but still waiting to run
+  isTaskPending(task: any): boolean {
+    return PENDING_STATUS_CODES.has(task.status_code);
+  }
+
   // Utility method to check if task has error
   hasTaskError(task: any): boolean {
-    return task.status_code >= 40000; // 40000+ means error
+    return task.status_code >= 40000 && !this.isTaskPending(task); // 40000+ means error
   }
 
   // Get account information and remaining credits
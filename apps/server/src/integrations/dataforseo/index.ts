@@ -1,10 +1,35 @@
-import { DataForSEOClient, DataForSEOCredentials } from './client.js';
+import { PrismaClient, TaskStatus as PrismaTaskStatus } from '@prisma/client';
+import { DataForSEOClient, DataForSEOCredentials, TaskPostResponse, TaskGetResponse } from './client.js';
 import { SerpService } from './serp.js';
 import { KeywordsService } from './keywords.js';
 import { LabsService } from './labs.js';
+import { BacklinksService } from './backlinks.js';
+import { OnPageService } from './onpage.js';
+import {
+  TaskStore,
+  StoredTask,
+  DataForSEOTaskType,
+  LIVE_TASK_TYPES,
+  TASK_CACHE_TTL,
+  TASK_COST_ESTIMATES,
+  TASK_TYPE_ENDPOINTS,
+  getTaskTypeForEndpoint,
+} from './task-store.js';
+import { BudgetService } from '../../services/budget.js';
+import { CacheService, buildCacheKey } from '../../services/cache.js';
+import getEnvConfig from '../../config/env.js';
+
+const env = getEnvConfig();
+
+// In-flight tasks not reported ready within this window are polled directly
+const STALE_TASK_MS = 10 * 60 * 1000;
+
+// Monitoring slows down by this factor when completions arrive by pingback
+const CALLBACK_SWEEP_FACTOR = 5;
 
 export interface DataForSEOServiceOptions {
   credentials?: Partial<DataForSEOCredentials>;
+  prisma?: PrismaClient;
   rateLimiting?: {
     requestsPerMinute?: number;
     requestsPerHour?: number;
@@ -18,17 +43,35 @@ export interface TaskStatus {
   error?: string;
   result?: any;
   cost?: number;
+  cached?: boolean;
   createdAt: Date;
   completedAt?: Date;
 }
 
+export interface SubmitTaskOptions {
+  queryId: string;
+  step?: string;
+  priority?: 'high' | 'normal' | 'low';
+  // Budgets are checked and charged for this user when set
+  userId?: string;
+  allowOverage?: boolean;
+  // Skip the shared response cache and post a fresh task
+  forceRefresh?: boolean;
+}
+
 export class DataForSEOService {
   private client: DataForSEOClient;
   public serp: SerpService;
   public keywords: KeywordsService;
   public labs: LabsService;
-
-  private taskQueue: Map<string, TaskStatus> = new Map();
+  public backlinks: BacklinksService;
+  public onpage: OnPageService;
+
+  private store: TaskStore;
+  private budget: BudgetService;
+  private cache: CacheService;
+  private monitorTimer?: NodeJS.Timeout;
+  private isPolling = false;
   private rateLimiter: {
     requestsThisMinute: number;
     requestsThisHour: number;
@@ -41,6 +84,12 @@ export class DataForSEOService {
     this.serp = new SerpService(this.client);
     this.keywords = new KeywordsService(this.client);
     this.labs = new LabsService(this.client);
+    this.backlinks = new BacklinksService(this.client);
+    this.onpage = new OnPageService(this.client);
+    const prisma = options.prisma || new PrismaClient();
+    this.store = new TaskStore(prisma);
+    this.budget = new BudgetService(prisma);
+    this.cache = new CacheService(prisma);
 
     this.rateLimiter = {
       requestsThisMinute: 0,
@@ -48,9 +97,6 @@ export class DataForSEOService {
       lastMinuteReset: new Date(),
       lastHourReset: new Date(),
     };
-
-    // Set up periodic task checking
-    this.startTaskMonitoring();
   }
 
   // Health check and account validation
@@ -109,155 +155,403 @@ export class DataForSEOService {
 
   // Generic task submission with queue management
   async submitTask(
-    taskType: 'serp_organic' | 'serp_maps' | 'keywords_volume' | 'keywords_trends' |
-              'keywords_ideas' | 'competitors' | 'ranked_keywords' | 'keyword_suggestions',
+    taskType: DataForSEOTaskType,
     data: any,
-    options: { priority?: 'high' | 'normal' | 'low' } = {}
+    options: SubmitTaskOptions
   ): Promise<string> {
+    const { queryId, step, userId, allowOverage, forceRefresh } = options;
+
+    // A step that was already posted before a restart is picked up instead of paying for it twice
+    let stored = step ? await this.store.findByStep(queryId, step) : null;
+
+    // A completed step whose result was pruned has nothing left to reuse, so it runs again like a cache miss
+    if (stored?.status === PrismaTaskStatus.COMPLETED && stored.result === null) {
+      stored = await this.store.resetForRetry(stored.id);
+    }
+
+    if (stored?.providerTaskId && stored.status !== PrismaTaskStatus.FAILED) {
+      return stored.providerTaskId;
+    }
+
+    if (stored?.status === PrismaTaskStatus.FAILED) {
+      if (stored.attempts >= env.WORKER_MAX_RETRIES) {
+        throw new Error(`Task ${step} failed after ${stored.attempts} attempts: ${stored.error}`);
+      }
+      stored = await this.store.resetForRetry(stored.id);
+    }
+
+    // An identical request answered within the cache TTL is reused instead of paid for again
+    const cacheKey = buildCacheKey('dataforseo', TASK_TYPE_ENDPOINTS[taskType], data);
+    if (!forceRefresh) {
+      const cached = await this.cache.get(cacheKey);
+      if (cached) {
+        const record = stored || await this.store.createPending({ queryId, step, taskType, payload: data, cacheKey });
+        const hit = await this.store.markCached(record.id, cached);
+        return hit.providerTaskId!;
+      }
+    }
+
+    if (userId) {
+      await this.budget.assertWithinBudget(
+        userId,
+        { usd: TASK_COST_ESTIMATES[taskType], apiCalls: 1, tokens: 0 },
+        { allowOverage }
+      );
+    }
+
     if (!this.checkRateLimit()) {
       throw new Error('Rate limit exceeded. Please try again later.');
     }
 
-    let response;
+    const record = stored || await this.store.createPending({ queryId, step, taskType, payload: data, cacheKey });
 
     try {
-      switch (taskType) {
-        case 'serp_organic':
-          response = await this.serp.postGoogleOrganicTask(data);
-          break;
-        case 'serp_maps':
-          response = await this.serp.postGoogleMapsTask(data);
-          break;
-        case 'keywords_volume':
-          response = await this.keywords.postGoogleAdsKeywordsTask(data);
-          break;
-        case 'keywords_trends':
-          response = await this.keywords.postGoogleTrendsTask(data);
-          break;
-        case 'keywords_ideas':
-          response = await this.keywords.postKeywordIdeasTask(data);
-          break;
-        case 'competitors':
-          response = await this.labs.postDomainCompetitorsTask(data);
-          break;
-        case 'ranked_keywords':
-          response = await this.labs.postRankedKeywordsTask(data);
-          break;
-        case 'keyword_suggestions':
-          response = await this.labs.postKeywordSuggestionsTask(data);
-          break;
-        default:
-          throw new Error(`Unknown task type: ${taskType}`);
-      }
+      const response = await this.postTask(taskType, data);
 
-      // Store task in queue
       if (response.tasks && response.tasks.length > 0) {
         const task = response.tasks[0];
-        const taskStatus: TaskStatus = {
-          id: task.id,
-          status: 'pending',
-          cost: task.cost,
-          createdAt: new Date(),
-        };
-
-        this.taskQueue.set(task.id, taskStatus);
+        const submitted = await this.store.markSubmitted(record.id, task.id, task.cost);
+
+        // Live endpoints have already answered, so there is nothing left to poll for
+        if (LIVE_TASK_TYPES.includes(taskType)) {
+          await this.recordTaskResult(submitted, response);
+        }
+
+        if (userId) {
+          await this.recordSpend(userId, task.cost);
+        }
         return task.id;
       }
 
       throw new Error('No task ID returned from DataForSEO');
     } catch (error) {
-      throw new Error(`Failed to submit ${taskType} task: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.store.markSubmitFailed(record.id, message);
+      throw new Error(`Failed to submit ${taskType} task: ${message}`);
+    }
+  }
+
+  // The task is already paid for, so a failure to record spend is logged rather than thrown
+  private async recordSpend(userId: string, cost: number): Promise<void> {
+    try {
+      await this.budget.recordSpend(userId, { usd: cost || 0, apiCalls: 1, tokens: 0 });
+    } catch (error) {
+      console.error(`Failed to record DataForSEO spend for user ${userId}:`, error);
+    }
+  }
+
+  // Post a task to the endpoint matching its type
+  private async postTask(taskType: DataForSEOTaskType, data: any): Promise<TaskPostResponse> {
+    switch (taskType) {
+      case 'serp_organic':
+        return this.serp.postGoogleOrganicTask(data);
+      case 'serp_maps':
+        return this.serp.postGoogleMapsTask(data);
+      case 'keywords_volume':
+        return this.keywords.postGoogleAdsKeywordsTask(data);
+      case 'keywords_trends':
+        return this.keywords.postGoogleTrendsTask(data);
+      case 'keywords_ideas':
+        return this.keywords.postKeywordIdeasTask(data);
+      case 'competitors':
+        return this.labs.postDomainCompetitorsTask(data);
+      case 'ranked_keywords':
+        return this.labs.postRankedKeywordsTask(data);
+      case 'keyword_suggestions':
+        return this.labs.postKeywordSuggestionsTask(data);
+      case 'historical_serps':
+        return this.labs.postHistoricalSerpTask(data);
+      case 'backlinks_summary':
+        return this.backlinks.getSummary(data);
+      case 'backlinks_referring_domains':
+        return this.backlinks.getReferringDomains(data);
+      case 'backlinks_anchors':
+        return this.backlinks.getAnchors(data);
+      case 'backlinks_new_lost':
+        return this.backlinks.getNewLostBacklinks(data);
+      case 'backlinks_bulk_ranks':
+        return this.backlinks.getBulkRanks(data);
+      case 'backlinks_bulk_referring_domains':
+        return this.backlinks.getBulkReferringDomains(data);
+      case 'onpage_instant':
+        return this.onpage.getInstantPages(data);
+      default:
+        throw new Error(`Unknown task type: ${taskType}`);
     }
   }
 
   // Get task status and results
   async getTaskStatus(taskId: string): Promise<TaskStatus | null> {
-    return this.taskQueue.get(taskId) || null;
+    const stored = await this.store.findByProviderTaskId(taskId);
+    return stored ? this.toTaskStatus(stored) : null;
   }
 
-  // Get task result with automatic type detection
+  // Get task result from the endpoint matching the type recorded at submission
   async getTaskResult(taskId: string): Promise<any> {
-    const taskStatus = this.taskQueue.get(taskId);
-    if (!taskStatus) {
+    const stored = await this.store.findByProviderTaskId(taskId);
+    if (!stored) {
       throw new Error('Task not found');
     }
 
-    if (taskStatus.status === 'completed' && taskStatus.result) {
-      return taskStatus.result;
+    if (stored.status === PrismaTaskStatus.COMPLETED && stored.result) {
+      return stored.result;
     }
 
-    // Try to fetch result from various endpoints
-    const endpoints = [
-      () => this.serp.getGoogleOrganicTaskResult(taskId),
-      () => this.serp.getGoogleMapsTaskResult(taskId),
-      () => this.keywords.getGoogleAdsKeywordsTaskResult(taskId),
-      () => this.keywords.getGoogleTrendsTaskResult(taskId),
-      () => this.keywords.getKeywordIdeasTaskResult(taskId),
-      () => this.labs.getDomainCompetitorsTaskResult(taskId),
-      () => this.labs.getRankedKeywordsTaskResult(taskId),
-      () => this.labs.getKeywordSuggestionsTaskResult(taskId),
-    ];
+    const taskType = getTaskTypeForEndpoint(stored.endpoint);
+    if (!taskType) {
+      throw new Error(`No result endpoint for ${stored.endpoint}`);
+    }
 
-    for (const getResult of endpoints) {
-      try {
-        const result = await getResult();
-        if (result.tasks && result.tasks.length > 0) {
-          const task = result.tasks[0];
-
-          // Update task status
-          if (this.client.isTaskCompleted(task)) {
-            taskStatus.status = 'completed';
-            taskStatus.result = task.result;
-            taskStatus.completedAt = new Date();
-          } else if (this.client.hasTaskError(task)) {
-            taskStatus.status = 'error';
-            taskStatus.error = task.status_message;
-          } else {
-            taskStatus.status = 'in_progress';
-          }
+    // Live results and cache hits are recorded once and cannot be fetched again. A pruned one
+    // is gone; submitting its step again replaces it.
+    if (LIVE_TASK_TYPES.includes(taskType) || stored.cacheHit) {
+      if (stored.status === PrismaTaskStatus.COMPLETED && stored.result === null) {
+        throw new Error(`Result of task ${taskId} was pruned`);
+      }
+      return stored.result;
+    }
 
-          this.taskQueue.set(taskId, taskStatus);
-          return result;
-        }
+    const result = await this.fetchTaskResult(taskType, taskId);
+    if (!result.tasks || result.tasks.length === 0) {
+      throw new Error(`Task ${taskId} returned no data`);
+    }
+
+    await this.recordTaskResult(stored, result);
+    return result;
+  }
+
+  // Collect every in-flight task DataForSEO reports as finished, using one
+  // tasks_ready call per task type instead of polling each task individually
+  async collectReadyTasks(): Promise<number> {
+    const inFlight = await this.store.listInFlight();
+    const byType = new Map<DataForSEOTaskType, StoredTask[]>();
+
+    for (const stored of inFlight) {
+      const taskType = getTaskTypeForEndpoint(stored.endpoint);
+      if (!taskType) continue;
+
+      byType.set(taskType, [...(byType.get(taskType) || []), stored]);
+    }
+
+    let collected = 0;
+
+    for (const [taskType, tasks] of byType) {
+      let readyIds: Set<string>;
+
+      try {
+        readyIds = this.extractReadyTaskIds(await this.fetchTasksReady(taskType));
       } catch (error) {
-        // Continue to next endpoint
+        console.error(`Failed to list ready ${taskType} tasks:`, error);
         continue;
       }
-    }
 
-    throw new Error('Task result not found in any endpoint');
-  }
+      for (const stored of tasks) {
+        const isReady = readyIds.has(stored.providerTaskId!);
 
-  // Monitor tasks and update their status
-  private startTaskMonitoring(): void {
-    setInterval(async () => {
-      const pendingTasks = Array.from(this.taskQueue.entries())
-        .filter(([_, status]) => status.status === 'pending' || status.status === 'in_progress');
+        // Tasks that fail never show up in tasks_ready, so stale ones are checked directly
+        const lastChecked = stored.lastPolledAt || stored.createdAt;
+        const isStale = Date.now() - lastChecked.getTime() > STALE_TASK_MS;
+
+        if (!isReady && !isStale) continue;
 
-      for (const [taskId, status] of pendingTasks) {
         try {
-          await this.getTaskResult(taskId);
+          const result = await this.fetchTaskResult(taskType, stored.providerTaskId!);
+          if (result.tasks && result.tasks.length > 0) {
+            await this.recordTaskResult(stored, result);
+            if (isReady) collected++;
+          }
         } catch (error) {
-          // Task might not be ready yet, continue monitoring
-          continue;
+          console.error(`Failed to collect ${taskType} task ${stored.providerTaskId}:`, error);
         }
       }
-    }, 30000); // Check every 30 seconds
+    }
+
+    return collected;
+  }
+
+  // Handle a pingback for a finished task. Returns null for task IDs we never submitted.
+  async handleTaskCallback(taskId: string): Promise<StoredTask | null> {
+    const stored = await this.store.findByProviderTaskId(taskId);
+    if (!stored) {
+      return null;
+    }
+
+    // DataForSEO may deliver the same pingback more than once
+    if (stored.status === PrismaTaskStatus.COMPLETED || stored.status === PrismaTaskStatus.FAILED) {
+      return stored;
+    }
+
+    const taskType = getTaskTypeForEndpoint(stored.endpoint);
+    if (!taskType) {
+      throw new Error(`No result endpoint for ${stored.endpoint}`);
+    }
+
+    const result = await this.fetchTaskResult(taskType, taskId);
+    if (result.tasks && result.tasks.length > 0) {
+      await this.recordTaskResult(stored, result);
+    }
+
+    return this.store.findByProviderTaskId(taskId);
+  }
+
+  // Fetch a single task result from the getter matching its type
+  private async fetchTaskResult(taskType: DataForSEOTaskType, taskId: string): Promise<TaskGetResponse> {
+    switch (taskType) {
+      case 'serp_organic':
+        return this.serp.getGoogleOrganicTaskResult(taskId);
+      case 'serp_maps':
+        return this.serp.getGoogleMapsTaskResult(taskId);
+      case 'keywords_volume':
+        return this.keywords.getGoogleAdsKeywordsTaskResult(taskId);
+      case 'keywords_trends':
+        return this.keywords.getGoogleTrendsTaskResult(taskId);
+      case 'keywords_ideas':
+        return this.keywords.getKeywordIdeasTaskResult(taskId);
+      case 'competitors':
+        return this.labs.getDomainCompetitorsTaskResult(taskId);
+      case 'ranked_keywords':
+        return this.labs.getRankedKeywordsTaskResult(taskId);
+      case 'keyword_suggestions':
+        return this.labs.getKeywordSuggestionsTaskResult(taskId);
+      case 'historical_serps':
+        return this.labs.getHistoricalSerpTaskResult(taskId);
+      default:
+        throw new Error(`Unknown task type: ${taskType}`);
+    }
+  }
+
+  // List finished-but-uncollected tasks for a task type
+  private async fetchTasksReady(taskType: DataForSEOTaskType): Promise<TaskGetResponse> {
+    switch (taskType) {
+      case 'serp_organic':
+        return this.serp.getGoogleOrganicTasksReady();
+      case 'serp_maps':
+        return this.serp.getGoogleMapsTasksReady();
+      case 'keywords_volume':
+        return this.keywords.getGoogleAdsKeywordsTasksReady();
+      case 'keywords_trends':
+        return this.keywords.getGoogleTrendsTasksReady();
+      case 'keywords_ideas':
+        return this.keywords.getKeywordIdeasTasksReady();
+      case 'competitors':
+        return this.labs.getDomainCompetitorsTasksReady();
+      case 'ranked_keywords':
+        return this.labs.getRankedKeywordsTasksReady();
+      case 'keyword_suggestions':
+        return this.labs.getKeywordSuggestionsTasksReady();
+      case 'historical_serps':
+        return this.labs.getHistoricalSerpTasksReady();
+      default:
+        throw new Error(`Unknown task type: ${taskType}`);
+    }
+  }
+
+  // tasks_ready returns one entry per finished task inside each response task's result
+  private extractReadyTaskIds(response: TaskGetResponse): Set<string> {
+    const ids = new Set<string>();
+
+    for (const task of response.tasks || []) {
+      for (const ready of task.result || []) {
+        if (ready?.id) ids.add(ready.id);
+      }
+    }
+
+    return ids;
+  }
+
+  // Persist the provider-reported state of a task
+  private async recordTaskResult(stored: StoredTask, result: TaskGetResponse): Promise<void> {
+    const task = result.tasks[0];
+
+    if (this.client.isTaskCompleted(task)) {
+      await this.store.markCompleted(stored.id, result, task.cost);
+      await this.cacheResult(stored, result);
+    } else if (this.client.hasTaskError(task)) {
+      await this.store.markFailed(stored.id, task.status_message);
+    } else {
+      // Created, handed or queued: still running at DataForSEO
+      await this.store.markRunning(stored.id);
+    }
+  }
+
+  // Share a completed response with later identical requests; caching is best effort
+  private async cacheResult(stored: StoredTask, result: TaskGetResponse): Promise<void> {
+    const taskType = getTaskTypeForEndpoint(stored.endpoint);
+    if (!stored.cacheKey || !taskType) return;
+
+    try {
+      await this.cache.set(stored.cacheKey, result, TASK_CACHE_TTL[taskType]);
+    } catch (error) {
+      console.error(`Failed to cache result for task ${stored.providerTaskId}:`, error);
+    }
+  }
+
+  // Map a persisted Task row to the status shape used by callers
+  private toTaskStatus(stored: StoredTask): TaskStatus {
+    const statusMap: { [key: string]: TaskStatus['status'] } = {
+      [PrismaTaskStatus.PENDING]: 'pending',
+      [PrismaTaskStatus.SUBMITTED]: 'pending',
+      [PrismaTaskStatus.RUNNING]: 'in_progress',
+      [PrismaTaskStatus.COMPLETED]: 'completed',
+      [PrismaTaskStatus.FAILED]: 'error',
+      [PrismaTaskStatus.CANCELLED]: 'error',
+    };
+
+    return {
+      id: stored.providerTaskId || stored.id,
+      status: statusMap[stored.status] || 'pending',
+      error: stored.error || undefined,
+      result: stored.result || undefined,
+      cost: stored.actualCost ?? stored.costEstimate ?? undefined,
+      cached: stored.cacheHit,
+      createdAt: stored.createdAt,
+      completedAt: stored.completedAt || undefined,
+    };
+  }
+
+  // Collect in-flight tasks recorded in the database, including ones submitted before a restart.
+  // When pingbacks are configured this only sweeps up callbacks that never arrived.
+  startTaskMonitoring(): void {
+    if (this.monitorTimer) return;
+
+    const interval = this.client.hasCallbacks()
+      ? env.WORKER_POLL_INTERVAL * CALLBACK_SWEEP_FACTOR
+      : env.WORKER_POLL_INTERVAL;
+
+    this.monitorTimer = setInterval(async () => {
+      if (this.isPolling) return;
+      this.isPolling = true;
+
+      try {
+        await this.collectReadyTasks();
+      } catch (error) {
+        console.error('DataForSEO task monitoring failed:', error);
+      } finally {
+        this.isPolling = false;
+      }
+    }, interval);
+  }
+
+  stopTaskMonitoring(): void {
+    if (this.monitorTimer) {
+      clearInterval(this.monitorTimer);
+      this.monitorTimer = undefined;
+    }
   }
 
   // Bulk task management
   async submitBulkTasks(
-    tasks: Array<{
-      type: string;
+    tasks: Array<SubmitTaskOptions & {
+      type: DataForSEOTaskType;
       data: any;
-      priority?: 'high' | 'normal' | 'low';
     }>
   ): Promise<string[]> {
     const taskIds: string[] = [];
 
     for (const task of tasks) {
       try {
-        const taskId = await this.submitTask(task.type as any, task.data, { priority: task.priority });
+        const { type, data, ...options } = task;
+        const taskId = await this.submitTask(type, data, options);
         taskIds.push(taskId);
       } catch (error) {
         console.error(`Failed to submit bulk task ${task.type}:`, error);
@@ -289,12 +583,18 @@ export class DataForSEOService {
         if (results[taskId]) continue; // Already completed
 
         try {
-          const result = await this.getTaskResult(taskId);
-          const taskStatus = this.taskQueue.get(taskId);
-
-          if (taskStatus?.status === 'completed') {
-            results[taskId] = result;
-          } else if (taskStatus?.status === 'error') {
+          // With pingbacks the webhook stores results, so only the database needs checking
+          if (!this.client.hasCallbacks()) {
+            await this.getTaskResult(taskId);
+          }
+          const taskStatus = await this.getTaskStatus(taskId);
+
+          if (!taskStatus) {
+            results[taskId] = { error: 'Task not found' };
+          } else if (taskStatus.status === 'completed') {
+            // A pruned result is fetched again from DataForSEO
+            results[taskId] = taskStatus.result ?? await this.fetchPrunedResult(taskId);
+          } else if (taskStatus.status === 'error') {
             results[taskId] = { error: taskStatus.error };
           }
         } catch (error) {
@@ -311,8 +611,17 @@ export class DataForSEOService {
     return results;
   }
 
+  // Fetch a result dropped by pruneResults again; one that cannot be fetched is reported as a task error
+  private async fetchPrunedResult(taskId: string): Promise<any> {
+    try {
+      return await this.getTaskResult(taskId);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
   // Get usage statistics
-  getUsageStats(): {
+  async getUsageStats(): Promise<{
     tasksInQueue: number;
     completedTasks: number;
     erroredTasks: number;
@@ -323,15 +632,16 @@ export class DataForSEOService {
       minuteResetIn: number;
       hourResetIn: number;
     };
-  } {
-    const tasks = Array.from(this.taskQueue.values());
+  }> {
+    const counts = await this.store.countByStatus();
+    const count = (...statuses: string[]) => statuses.reduce((sum, status) => sum + (counts[status] || 0), 0);
     const now = new Date();
 
     return {
-      tasksInQueue: tasks.length,
-      completedTasks: tasks.filter(t => t.status === 'completed').length,
-      erroredTasks: tasks.filter(t => t.status === 'error').length,
-      pendingTasks: tasks.filter(t => t.status === 'pending' || t.status === 'in_progress').length,
+      tasksInQueue: count(...Object.keys(counts)),
+      completedTasks: count(PrismaTaskStatus.COMPLETED),
+      erroredTasks: count(PrismaTaskStatus.FAILED, PrismaTaskStatus.CANCELLED),
+      pendingTasks: count(PrismaTaskStatus.PENDING, PrismaTaskStatus.SUBMITTED, PrismaTaskStatus.RUNNING),
       rateLimitStatus: {
         requestsThisMinute: this.rateLimiter.requestsThisMinute,
         requestsThisHour: this.rateLimiter.requestsThisHour,
@@ -341,21 +651,10 @@ export class DataForSEOService {
     };
   }
 
-  // Clean up completed tasks (memory management)
-  cleanupCompletedTasks(olderThanHours: number = 24): number {
+  // Clear raw results of old completed tasks (storage management)
+  async cleanupCompletedTasks(olderThanHours: number = 24): Promise<number> {
     const cutoff = new Date(Date.now() - olderThanHours * 60 * 60 * 1000);
-    let cleaned = 0;
-
-    for (const [taskId, status] of this.taskQueue.entries()) {
-      if (status.status === 'completed' &&
-          status.completedAt &&
-          status.completedAt < cutoff) {
-        this.taskQueue.delete(taskId);
-        cleaned++;
-      }
-    }
-
-    return cleaned;
+    return this.store.pruneResults(cutoff);
   }
 }
 
@@ -364,4 +663,7 @@ export * from './client.js';
 export * from './serp.js';
 export * from './keywords.js';
 export * from './labs.js';
+export * from './backlinks.js';
+export * from './onpage.js';
+export * from './task-store.js';
 export { DataForSEOService as default };
\ No newline at end of file
@@ -8,6 +8,14 @@ export interface KeywordTaskData {
   language_code?: string;
 }
 
+export interface TrendsTaskData extends KeywordTaskData {
+  // YYYY-MM-DD
+  date_from?: string;
+  date_to?: string;
+  // Defaults to the interest-over-time graph only
+  item_types?: Array<'google_trends_graph' | 'google_trends_map' | 'google_trends_topics_list' | 'google_trends_queries_list'>;
+}
+
 export interface KeywordData {
   keyword: string;
   location_code: number;
@@ -77,16 +85,21 @@ export class KeywordsService {
     return this.client.getTaskResult(taskId, endpoint);
   }
 
-  // Google Trends Keywords Data
-  async postGoogleTrendsTask(data: KeywordTaskData[]): Promise<TaskPostResponse> {
+  // Google Trends Keywords Data (up to 5 keywords per task, compared on one 0-100 scale)
+  async postGoogleTrendsTask(data: TrendsTaskData[]): Promise<TaskPostResponse> {
     const endpoint = '/v3/keywords_data/google_trends/explore/task_post';
 
     const taskData = data.map(task => ({
       keywords: task.keywords,
-      location_code: task.location_code || 2840, // United States
-      language_code: task.language_code || 'en',
-      date_from: '2019-01-01',
-      date_to: new Date().toISOString().split('T')[0], // Today
+      ...(task.location_name
+        ? { location_name: task.location_name }
+        : { location_code: task.location_code || 2840 }), // United States
+      ...(task.language_name
+        ? { language_name: task.language_name }
+        : { language_code: task.language_code || 'en' }),
+      date_from: task.date_from || '2019-01-01',
+      date_to: task.date_to || new Date().toISOString().split('T')[0], // Today
+      ...(task.item_types && { item_types: task.item_types }),
     }));
 
     return this.client.postTask(endpoint, taskData);
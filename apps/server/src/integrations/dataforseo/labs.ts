@@ -1,4 +1,5 @@
 import { DataForSEOClient, TaskPostResponse, TaskGetResponse } from './client.js';
+import { CtrModel, serpLayout } from '../../services/ctr-model.js';
 
 export interface LabsTaskData {
   target: string; // domain or URL
@@ -80,6 +81,11 @@ export interface RankedKeywordItem {
     month: number;
     search_volume: number;
   }>;
+  keyword_data?: {
+    serp_info?: {
+      serp_item_types?: string[];
+    };
+  };
 }
 
 export class LabsService {
@@ -196,16 +202,22 @@ export class LabsService {
     return this.client.getTaskResult(taskId, endpoint);
   }
 
-  // Historical SERP analysis
-  async postHistoricalSerpTask(data: { keyword: string; location_name?: string; language_name?: string }[]): Promise<TaskPostResponse> {
+  // Historical SERP analysis; dates are YYYY-MM-DD
+  async postHistoricalSerpTask(data: {
+    keyword: string;
+    location_name?: string;
+    language_name?: string;
+    date_from?: string;
+    date_to?: string;
+  }[]): Promise<TaskPostResponse> {
     const endpoint = '/v3/dataforseo_labs/google/historical_serps/task_post';
 
     const taskData = data.map(task => ({
       keyword: task.keyword,
       location_name: task.location_name || 'United States',
       language_name: task.language_name || 'English',
-      date_from: '2023-01-01',
-      date_to: new Date().toISOString().split('T')[0],
+      date_from: task.date_from || '2023-01-01',
+      date_to: task.date_to || new Date().toISOString().split('T')[0],
     }));
 
     return this.client.postTask(endpoint, taskData);
@@ -348,7 +360,7 @@ export class LabsService {
   }
 
   // Calculate content opportunity score
-  calculateContentOpportunityScore(keyword: RankedKeywordItem): number {
+  calculateContentOpportunityScore(keyword: RankedKeywordItem, ctrModel: CtrModel = new CtrModel()): number {
     let score = 0;
 
     // Search volume weight (40%)
@@ -357,10 +369,13 @@ export class LabsService {
     else if (keyword.search_volume >= 1000) score += 20;
     else if (keyword.search_volume >= 100) score += 10;
 
-    // Position improvement potential (35%)
-    if (keyword.avg_position > 20) score += 35;
-    else if (keyword.avg_position > 10) score += 25;
-    else if (keyword.avg_position > 5) score += 15;
+    // Position improvement potential (35%): the share of position 1's clicks the page
+    // isn't getting yet, on the keyword's SERP layout
+    const context = { device: 'desktop' as const, layout: serpLayout(keyword.keyword_data?.serp_info?.serp_item_types) };
+    const topCtr = ctrModel.ctr(1, context);
+    if (topCtr > 0) {
+      score += Math.round(35 * (1 - ctrModel.ctr(keyword.avg_position, context) / topCtr));
+    }
 
     // Competition level (15%)
     if (keyword.competition < 0.3) score += 15;
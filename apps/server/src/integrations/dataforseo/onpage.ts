@@ -0,0 +1,248 @@
+import { DATAFORSEO_ENDPOINTS } from '@seo-portal/shared';
+import { DataForSEOClient, TaskGetResponse } from './client.js';
+
+export interface OnPageTaskData {
+  url: string;
+  enable_browser_rendering?: boolean; // needed for Core Web Vitals
+  browser_preset?: 'desktop' | 'mobile' | 'tablet';
+}
+
+export interface OnPageItem {
+  resource_type: string;
+  status_code: number;
+  location: string | null;
+  url: string;
+  meta: {
+    title: string | null;
+    description: string | null;
+    canonical: string | null;
+    htags: { [tag: string]: string[] } | null;
+    title_length: number;
+    description_length: number;
+    internal_links_count: number;
+    external_links_count: number;
+    images_count: number;
+    scripts_count: number;
+    render_blocking_scripts_count: number;
+    render_blocking_stylesheets_count: number;
+    cumulative_layout_shift: number | null;
+    content: {
+      plain_text_word_count: number;
+      plain_text_rate: number;
+    } | null;
+  } | null;
+  page_timing: {
+    time_to_interactive: number;
+    dom_complete: number;
+    largest_contentful_paint: number | null;
+    first_input_delay: number | null;
+    waiting_time: number;
+    download_time: number;
+    duration_time: number;
+  } | null;
+  onpage_score: number;
+  total_dom_size: number;
+  size: number;
+  broken_links: boolean;
+  broken_resources: boolean;
+  duplicate_title: boolean;
+  duplicate_description: boolean;
+  checks: { [check: string]: boolean };
+}
+
+// Normalized page data used for scoring and stored in the ONPAGE dataset
+export interface OnPageData {
+  url: string;
+  statusCode: number;
+  redirectTo: string | null;
+  title: string | null;
+  titleLength: number;
+  metaDescription: string | null;
+  metaDescriptionLength: number;
+  headings: { h1: string[]; h2: string[]; h3: string[] };
+  canonical: string | null;
+  wordCount: number;
+  internalLinks: number;
+  externalLinks: number;
+  images: number;
+  speed: {
+    timeToInteractive: number | null;
+    domComplete: number | null;
+    largestContentfulPaint: number | null;
+    cumulativeLayoutShift: number | null;
+    pageSize: number;
+    renderBlockingResources: number;
+  };
+  schemaMarkup: {
+    present: boolean;
+    hasErrors: boolean;
+  };
+  providerScore: number | null;
+  checks: { [check: string]: boolean };
+}
+
+export type IssueSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export interface OnPageIssue {
+  id: string;
+  label: string;
+  severity: IssueSeverity;
+  category: 'indexing' | 'content' | 'performance' | 'markup';
+}
+
+interface IssueRule extends OnPageIssue {
+  test: (page: OnPageData) => boolean;
+}
+
+// Points taken off a page's 100-point score per issue
+const SEVERITY_WEIGHTS: { [severity in IssueSeverity]: number } = {
+  critical: 25,
+  high: 10,
+  medium: 5,
+  low: 2,
+};
+
+const ISSUE_RULES: IssueRule[] = [
+  { id: 'http_error', label: 'Page returns a 4xx/5xx status', severity: 'critical', category: 'indexing',
+    test: page => page.statusCode >= 400 },
+  { id: 'redirect', label: 'URL redirects', severity: 'medium', category: 'indexing',
+    test: page => page.statusCode >= 300 && page.statusCode < 400 },
+  { id: 'no_title', label: 'Missing title tag', severity: 'high', category: 'content',
+    test: page => !page.title },
+  { id: 'title_length', label: 'Title shorter than 30 or longer than 60 characters', severity: 'low', category: 'content',
+    test: page => Boolean(page.title) && (page.titleLength < 30 || page.titleLength > 60) },
+  { id: 'multiple_titles', label: 'More than one title tag', severity: 'medium', category: 'content',
+    test: page => Boolean(page.checks.duplicate_title_tag) },
+  { id: 'no_description', label: 'Missing meta description', severity: 'medium', category: 'content',
+    test: page => !page.metaDescription },
+  { id: 'description_length', label: 'Meta description shorter than 70 or longer than 160 characters', severity: 'low', category: 'content',
+    test: page => Boolean(page.metaDescription) && (page.metaDescriptionLength < 70 || page.metaDescriptionLength > 160) },
+  { id: 'no_h1', label: 'Missing H1 heading', severity: 'high', category: 'content',
+    test: page => page.headings.h1.length === 0 },
+  { id: 'multiple_h1', label: 'More than one H1 heading', severity: 'low', category: 'content',
+    test: page => page.headings.h1.length > 1 },
+  { id: 'thin_content', label: 'Fewer than 300 words of content', severity: 'medium', category: 'content',
+    test: page => page.statusCode < 300 && page.wordCount < 300 },
+  { id: 'no_canonical', label: 'Missing canonical tag', severity: 'medium', category: 'indexing',
+    test: page => page.statusCode < 300 && !page.canonical },
+  { id: 'canonical_elsewhere', label: 'Canonical points to a different URL', severity: 'low', category: 'indexing',
+    test: page => Boolean(page.canonical) && normalizeUrl(page.canonical!) !== normalizeUrl(page.url) },
+  { id: 'not_https', label: 'Page is not served over HTTPS', severity: 'high', category: 'indexing',
+    test: page => page.url.startsWith('http://') },
+  { id: 'slow_lcp', label: 'Largest Contentful Paint above 2.5s', severity: 'high', category: 'performance',
+    test: page => (page.speed.largestContentfulPaint ?? 0) > 2500 },
+  { id: 'high_cls', label: 'Cumulative Layout Shift above 0.1', severity: 'medium', category: 'performance',
+    test: page => (page.speed.cumulativeLayoutShift ?? 0) > 0.1 },
+  { id: 'slow_interactive', label: 'Time to Interactive above 5s', severity: 'medium', category: 'performance',
+    test: page => (page.speed.timeToInteractive ?? 0) > 5000 },
+  { id: 'render_blocking', label: 'Render-blocking scripts or stylesheets', severity: 'low', category: 'performance',
+    test: page => page.speed.renderBlockingResources > 0 },
+  { id: 'large_page', label: 'Page larger than 3 MB', severity: 'medium', category: 'performance',
+    test: page => page.speed.pageSize > 3 * 1024 * 1024 },
+  { id: 'no_schema', label: 'No structured data markup', severity: 'low', category: 'markup',
+    test: page => page.statusCode < 300 && !page.schemaMarkup.present },
+  { id: 'schema_errors', label: 'Structured data has validation errors', severity: 'medium', category: 'markup',
+    test: page => page.schemaMarkup.hasErrors },
+  { id: 'missing_alt', label: 'Images without alt text', severity: 'low', category: 'content',
+    test: page => Boolean(page.checks.no_image_alt) },
+];
+
+function normalizeUrl(url: string): string {
+  return url.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/$/, '');
+}
+
+// On-page checks use the instant_pages live endpoint: one crawl per URL, answered immediately
+export class OnPageService {
+  constructor(private client: DataForSEOClient) {}
+
+  async getInstantPages(data: OnPageTaskData[]): Promise<TaskGetResponse> {
+    const taskData = data.map(task => ({
+      url: task.url,
+      enable_javascript: true,
+      enable_browser_rendering: task.enable_browser_rendering ?? true,
+      browser_preset: task.browser_preset || 'desktop',
+      load_resources: true,
+      validate_micromarkup: true,
+      check_spell: false,
+    }));
+
+    return this.client.postLive(DATAFORSEO_ENDPOINTS.ONPAGE_INSTANT, taskData);
+  }
+
+  // Pull the fields the audit needs out of an instant_pages item
+  extractPageData(item: OnPageItem): OnPageData {
+    const meta = item.meta;
+    const timing = item.page_timing;
+    const checks = item.checks || {};
+
+    return {
+      url: item.url,
+      statusCode: item.status_code,
+      redirectTo: item.location || null,
+      title: meta?.title || null,
+      titleLength: meta?.title_length || 0,
+      metaDescription: meta?.description || null,
+      metaDescriptionLength: meta?.description_length || 0,
+      headings: {
+        h1: meta?.htags?.h1 || [],
+        h2: meta?.htags?.h2 || [],
+        h3: meta?.htags?.h3 || [],
+      },
+      canonical: meta?.canonical || null,
+      wordCount: meta?.content?.plain_text_word_count || 0,
+      internalLinks: meta?.internal_links_count || 0,
+      externalLinks: meta?.external_links_count || 0,
+      images: meta?.images_count || 0,
+      speed: {
+        timeToInteractive: timing?.time_to_interactive ?? null,
+        domComplete: timing?.dom_complete ?? null,
+        largestContentfulPaint: timing?.largest_contentful_paint ?? null,
+        cumulativeLayoutShift: meta?.cumulative_layout_shift ?? null,
+        pageSize: item.size || 0,
+        renderBlockingResources:
+          (meta?.render_blocking_scripts_count || 0) + (meta?.render_blocking_stylesheets_count || 0),
+      },
+      schemaMarkup: {
+        present: Boolean(checks.has_micromarkup),
+        hasErrors: Boolean(checks.has_micromarkup_errors),
+      },
+      providerScore: item.onpage_score ?? null,
+      checks,
+    };
+  }
+
+  // Run every issue rule against a page and score it out of 100
+  auditPage(page: OnPageData): { score: number; issues: OnPageIssue[] } {
+    const issues = ISSUE_RULES
+      .filter(rule => rule.test(page))
+      .map(({ test, ...issue }) => issue);
+
+    const penalty = issues.reduce((sum, issue) => sum + SEVERITY_WEIGHTS[issue.severity], 0);
+
+    return {
+      score: Math.max(0, 100 - penalty),
+      issues,
+    };
+  }
+
+  // How many audited pages are affected by each issue, most severe first
+  summarizeIssues(pages: Array<{ url: string; issues: OnPageIssue[] }>): Array<OnPageIssue & {
+    affectedPages: number;
+    urls: string[];
+  }> {
+    const byIssue = new Map<string, OnPageIssue & { affectedPages: number; urls: string[] }>();
+
+    for (const page of pages) {
+      for (const issue of page.issues) {
+        const entry = byIssue.get(issue.id) || { ...issue, affectedPages: 0, urls: [] };
+        entry.affectedPages++;
+        entry.urls.push(page.url);
+        byIssue.set(issue.id, entry);
+      }
+    }
+
+    return Array.from(byIssue.values()).sort((a, b) =>
+      SEVERITY_WEIGHTS[b.severity] - SEVERITY_WEIGHTS[a.severity] || b.affectedPages - a.affectedPages
+    );
+  }
+}
@@ -6,6 +6,8 @@ export interface SerpTaskData {
   location_code?: number;
   language_name?: string;
   language_code?: string;
+  // "latitude,longitude,zoom"; replaces location_name for Maps checks from a precise point
+  location_coordinate?: string;
   device?: 'desktop' | 'mobile' | 'tablet';
   os?: string;
 }
@@ -80,7 +82,9 @@ export class SerpService {
 
     const taskData = data.map(task => ({
       keyword: task.keyword,
-      location_name: task.location_name || 'United States',
+      ...(task.location_coordinate
+        ? { location_coordinate: task.location_coordinate }
+        : { location_name: task.location_name || 'United States' }),
       language_name: task.language_name || 'English',
       device: task.device || 'desktop',
     }));
@@ -165,34 +169,4 @@ export class SerpService {
 
     return contentTypes;
   }
-
-  // Calculate keyword difficulty based on SERP analysis
-  calculateKeywordDifficulty(items: SerpItem[]): number {
-    let difficulty = 0;
-    let organicResults = items.filter(item => item.type === 'organic');
-
-    if (organicResults.length === 0) return 0;
-
-    // Factors that increase difficulty
-    organicResults.forEach(item => {
-      // Domain authority proxy (simplified)
-      const domain = item.domain.toLowerCase();
-      if (['wikipedia.org', 'youtube.com', 'amazon.com', 'reddit.com'].includes(domain)) {
-        difficulty += 15;
-      } else if (domain.includes('.gov') || domain.includes('.edu')) {
-        difficulty += 10;
-      }
-
-      // URL depth (shorter URLs often indicate authority pages)
-      const pathDepth = item.url.split('/').length - 3;
-      if (pathDepth <= 1) {
-        difficulty += 5;
-      }
-    });
-
-    // Normalize to 0-100 scale
-    difficulty = Math.min(100, difficulty);
-
-    return Math.round(difficulty);
-  }
 }
\ No newline at end of file
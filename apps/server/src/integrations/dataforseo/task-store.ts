@@ -0,0 +1,289 @@
+import { Prisma, PrismaClient, TaskStatus as PrismaTaskStatus } from '@prisma/client';
+import { CACHE_TTL } from '@seo-portal/shared';
+
+export type DataForSEOTaskType =
+  | 'serp_organic'
+  | 'serp_maps'
+  | 'keywords_volume'
+  | 'keywords_trends'
+  | 'keywords_ideas'
+  | 'competitors'
+  | 'ranked_keywords'
+  | 'keyword_suggestions'
+  | 'historical_serps'
+  | 'backlinks_summary'
+  | 'backlinks_referring_domains'
+  | 'backlinks_anchors'
+  | 'backlinks_new_lost'
+  | 'backlinks_bulk_ranks'
+  | 'backlinks_bulk_referring_domains'
+  | 'onpage_instant';
+
+// Endpoint family recorded on the Task row for each task type
+export const TASK_TYPE_ENDPOINTS: Record<DataForSEOTaskType, string> = {
+  serp_organic: 'serp/google/organic',
+  serp_maps: 'business_data/google/maps',
+  keywords_volume: 'keywords_data/google_ads/search_volume',
+  keywords_trends: 'keywords_data/google_trends/explore',
+  keywords_ideas: 'keywords_data/google_ads/keywords_for_keywords',
+  competitors: 'dataforseo_labs/google/competitors_domain',
+  ranked_keywords: 'dataforseo_labs/google/ranked_keywords',
+  keyword_suggestions: 'dataforseo_labs/google/keyword_suggestions',
+  historical_serps: 'dataforseo_labs/google/historical_serps',
+  backlinks_summary: 'backlinks/summary',
+  backlinks_referring_domains: 'backlinks/referring_domains',
+  backlinks_anchors: 'backlinks/anchors',
+  backlinks_new_lost: 'backlinks/backlinks',
+  backlinks_bulk_ranks: 'backlinks/bulk_ranks',
+  backlinks_bulk_referring_domains: 'backlinks/bulk_referring_domains',
+  onpage_instant: 'on_page/instant_pages',
+};
+
+// Task types served by live endpoints, which answer in the posting request
+export const LIVE_TASK_TYPES: DataForSEOTaskType[] = [
+  'backlinks_summary',
+  'backlinks_referring_domains',
+  'backlinks_anchors',
+  'backlinks_new_lost',
+  'backlinks_bulk_ranks',
+  'backlinks_bulk_referring_domains',
+  'onpage_instant',
+];
+
+// Approximate USD price per task (standard queue, or live for backlinks and on-page), used to check
+// budgets before posting
+export const TASK_COST_ESTIMATES: Record<DataForSEOTaskType, number> = {
+  serp_organic: 0.0006,
+  serp_maps: 0.0006,
+  keywords_volume: 0.05,
+  keywords_trends: 0.009,
+  keywords_ideas: 0.05,
+  competitors: 0.0101,
+  ranked_keywords: 0.0101,
+  keyword_suggestions: 0.0101,
+  historical_serps: 0.0101,
+  backlinks_summary: 0.02,
+  backlinks_referring_domains: 0.035,
+  backlinks_anchors: 0.035,
+  backlinks_new_lost: 0.05,
+  backlinks_bulk_ranks: 0.02,
+  backlinks_bulk_referring_domains: 0.02,
+  onpage_instant: 0.0045,
+};
+
+// How long (seconds) a completed result can be reused for an identical request
+export const TASK_CACHE_TTL: Record<DataForSEOTaskType, number> = {
+  serp_organic: CACHE_TTL.SERP_RESULTS,
+  serp_maps: CACHE_TTL.SERP_RESULTS,
+  keywords_volume: CACHE_TTL.KEYWORD_DATA,
+  keywords_trends: CACHE_TTL.KEYWORD_DATA,
+  keywords_ideas: CACHE_TTL.KEYWORD_DATA,
+  competitors: CACHE_TTL.KEYWORD_DATA,
+  ranked_keywords: CACHE_TTL.KEYWORD_DATA,
+  keyword_suggestions: CACHE_TTL.KEYWORD_DATA,
+  historical_serps: CACHE_TTL.KEYWORD_DATA,
+  backlinks_summary: CACHE_TTL.BACKLINK_DATA,
+  backlinks_referring_domains: CACHE_TTL.BACKLINK_DATA,
+  backlinks_anchors: CACHE_TTL.BACKLINK_DATA,
+  backlinks_new_lost: CACHE_TTL.BACKLINK_DATA,
+  backlinks_bulk_ranks: CACHE_TTL.BACKLINK_DATA,
+  backlinks_bulk_referring_domains: CACHE_TTL.BACKLINK_DATA,
+  onpage_instant: CACHE_TTL.API_RESPONSE,
+};
+
+export function getTaskTypeForEndpoint(endpoint: string): DataForSEOTaskType | undefined {
+  const entry = Object.entries(TASK_TYPE_ENDPOINTS).find(([, value]) => value === endpoint);
+  return entry?.[0] as DataForSEOTaskType | undefined;
+}
+
+export interface StoredTask {
+  id: string;
+  queryId: string;
+  providerTaskId: string | null;
+  endpoint: string;
+  step: string | null;
+  payload: any;
+  status: PrismaTaskStatus;
+  attempts: number;
+  costEstimate: number | null;
+  actualCost: number | null;
+  result: any;
+  error: string | null;
+  lastPolledAt: Date | null;
+  cacheKey: string | null;
+  cacheHit: boolean;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+const PROVIDER = 'dataforseo';
+
+// Persists DataForSEO tasks in the Task table so in-flight work survives restarts
+export class TaskStore {
+  constructor(private prisma: PrismaClient) {}
+
+  // Find the task already recorded for a workflow step, if any
+  async findByStep(queryId: string, step: string): Promise<StoredTask | null> {
+    return this.prisma.task.findUnique({
+      where: { queryId_step: { queryId, step } },
+    });
+  }
+
+  async findByProviderTaskId(providerTaskId: string): Promise<StoredTask | null> {
+    return this.prisma.task.findFirst({
+      where: { provider: PROVIDER, providerTaskId },
+    });
+  }
+
+  // Record a task before it is posted so a crash mid-submit can be retried
+  async createPending(params: {
+    queryId: string;
+    step?: string;
+    taskType: DataForSEOTaskType;
+    payload: any;
+    cacheKey?: string;
+  }): Promise<StoredTask> {
+    return this.prisma.task.create({
+      data: {
+        queryId: params.queryId,
+        provider: PROVIDER,
+        endpoint: TASK_TYPE_ENDPOINTS[params.taskType],
+        step: params.step,
+        payload: params.payload,
+        cacheKey: params.cacheKey,
+        status: PrismaTaskStatus.PENDING,
+      },
+    });
+  }
+
+  // Complete a task from a cached response without posting it. The synthetic
+  // provider ID keeps lookups by task ID unique to this row.
+  async markCached(id: string, result: any): Promise<StoredTask> {
+    return this.prisma.task.update({
+      where: { id },
+      data: {
+        providerTaskId: `cache:${id}`,
+        status: PrismaTaskStatus.COMPLETED,
+        cacheHit: true,
+        result,
+        costEstimate: 0,
+        actualCost: 0,
+        error: null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  async markSubmitted(id: string, providerTaskId: string, cost?: number): Promise<StoredTask> {
+    return this.prisma.task.update({
+      where: { id },
+      data: {
+        providerTaskId,
+        status: PrismaTaskStatus.SUBMITTED,
+        costEstimate: cost,
+        attempts: { increment: 1 },
+      },
+    });
+  }
+
+  async markSubmitFailed(id: string, error: string): Promise<void> {
+    await this.prisma.task.update({
+      where: { id },
+      data: {
+        status: PrismaTaskStatus.FAILED,
+        error,
+        attempts: { increment: 1 },
+      },
+    });
+  }
+
+  async markRunning(id: string): Promise<void> {
+    await this.prisma.task.update({
+      where: { id },
+      data: {
+        status: PrismaTaskStatus.RUNNING,
+        lastPolledAt: new Date(),
+      },
+    });
+  }
+
+  async markCompleted(id: string, result: any, cost?: number): Promise<void> {
+    await this.prisma.task.update({
+      where: { id },
+      data: {
+        status: PrismaTaskStatus.COMPLETED,
+        result,
+        actualCost: cost,
+        error: null,
+        lastPolledAt: new Date(),
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  async markFailed(id: string, error: string): Promise<void> {
+    await this.prisma.task.update({
+      where: { id },
+      data: {
+        status: PrismaTaskStatus.FAILED,
+        error,
+        lastPolledAt: new Date(),
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  // Reset a failed or pruned step so it can be submitted again
+  async resetForRetry(id: string): Promise<StoredTask> {
+    return this.prisma.task.update({
+      where: { id },
+      data: {
+        status: PrismaTaskStatus.PENDING,
+        providerTaskId: null,
+        cacheHit: false,
+        error: null,
+        completedAt: null,
+      },
+    });
+  }
+
+  // Tasks posted to DataForSEO that have not reported a final state yet
+  async listInFlight(): Promise<StoredTask[]> {
+    return this.prisma.task.findMany({
+      where: {
+        provider: PROVIDER,
+        providerTaskId: { not: null },
+        status: { in: [PrismaTaskStatus.SUBMITTED, PrismaTaskStatus.RUNNING] },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async countByStatus(): Promise<{ [status: string]: number }> {
+    const groups = await this.prisma.task.groupBy({
+      by: ['status'],
+      where: { provider: PROVIDER },
+      _count: true,
+    });
+
+    const counts: { [status: string]: number } = {};
+    groups.forEach((group: { status: string; _count: number }) => {
+      counts[group.status] = group._count;
+    });
+    return counts;
+  }
+
+  // Drop raw provider payloads from old completed tasks; processed data lives in datasets
+  async pruneResults(olderThan: Date): Promise<number> {
+    const { count } = await this.prisma.task.updateMany({
+      where: {
+        provider: PROVIDER,
+        status: PrismaTaskStatus.COMPLETED,
+        completedAt: { lt: olderThan },
+        result: { not: Prisma.DbNull },
+      },
+      data: { result: Prisma.DbNull },
+    });
+    return count;
+  }
+}
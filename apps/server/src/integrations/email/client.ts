@@ -0,0 +1,43 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import getEnvConfig from '../../config/env.js';
+
+const env = getEnvConfig();
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+let transporter: Transporter | null = null;
+
+// Email delivery is optional; without SMTP_HOST alerts go to the other channels only
+export function isEmailConfigured(): boolean {
+  return !!env.SMTP_HOST;
+}
+
+function getTransporter(): Transporter {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT,
+      secure: env.SMTP_SECURE,
+      auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD } : undefined,
+      connectionTimeout: 10000, // 10 seconds
+    });
+  }
+  return transporter;
+}
+
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  if (!isEmailConfigured()) {
+    throw new Error('SMTP is not configured');
+  }
+
+  await getTransporter().sendMail({
+    from: env.SMTP_FROM,
+    to: message.to.join(', '),
+    subject: message.subject,
+    text: message.text
+  });
+}
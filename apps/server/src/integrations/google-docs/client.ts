@@ -0,0 +1,105 @@
+import axios, { AxiosInstance } from 'axios';
+import getEnvConfig from '../../config/env.js';
+import type { DocsRequest } from './requests.js';
+
+const env = getEnvConfig();
+
+const AUTHORIZE_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+
+// drive.file only grants access to documents this app creates; openid/email identify the account
+export const GOOGLE_DOCS_SCOPES = ['openid', 'email', 'https://www.googleapis.com/auth/drive.file'];
+
+export interface GoogleDocsClientOptions {
+  accessToken: string;
+  baseUrl?: string;
+}
+
+export interface GoogleTokenResponse {
+  access_token: string;
+  expires_in: number;
+  refresh_token?: string;
+  scope?: string;
+  id_token?: string;
+}
+
+// Authorization URL users are sent to when connecting Google Docs. Offline access with
+// a forced consent prompt so Google always returns a refresh token.
+export function googleAuthorizeUrl(redirectUri: string, state: string): string {
+  const url = new URL(AUTHORIZE_URL);
+  url.searchParams.set('client_id', env.GOOGLE_CLIENT_ID || '');
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('scope', GOOGLE_DOCS_SCOPES.join(' '));
+  url.searchParams.set('access_type', 'offline');
+  url.searchParams.set('prompt', 'consent');
+  url.searchParams.set('state', state);
+  return url.toString();
+}
+
+async function requestToken(params: Record<string, string>, baseUrl: string): Promise<GoogleTokenResponse> {
+  const response = await axios.post<GoogleTokenResponse>(
+    `${baseUrl}/token`,
+    new URLSearchParams({
+      client_id: env.GOOGLE_CLIENT_ID || '',
+      client_secret: env.GOOGLE_CLIENT_SECRET || '',
+      ...params
+    }).toString(),
+    {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: 30000
+    }
+  );
+  return response.data;
+}
+
+export function exchangeGoogleCode(code: string, redirectUri: string, baseUrl: string = env.GOOGLE_OAUTH_URL): Promise<GoogleTokenResponse> {
+  return requestToken({ grant_type: 'authorization_code', code, redirect_uri: redirectUri }, baseUrl);
+}
+
+export function refreshGoogleToken(refreshToken: string, baseUrl: string = env.GOOGLE_OAUTH_URL): Promise<GoogleTokenResponse> {
+  return requestToken({ grant_type: 'refresh_token', refresh_token: refreshToken }, baseUrl);
+}
+
+// Email claim of the ID token returned with the access token. The token comes straight
+// from Google's token endpoint, so it is only decoded here, not verified.
+export function emailFromIdToken(idToken?: string): string | null {
+  const payload = idToken?.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof claims.email === 'string' ? claims.email : null;
+  } catch {
+    return null;
+  }
+}
+
+export function googleDocUrl(documentId: string): string {
+  return `https://docs.google.com/document/d/${documentId}/edit`;
+}
+
+export class GoogleDocsClient {
+  private client: AxiosInstance;
+
+  constructor(options: GoogleDocsClientOptions) {
+    this.client = axios.create({
+      baseURL: options.baseUrl || env.GOOGLE_DOCS_API_URL,
+      headers: {
+        'Authorization': `Bearer ${options.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      timeout: 30000, // 30 seconds
+    });
+  }
+
+  async createDocument(title: string): Promise<{ documentId: string }> {
+    const response = await this.client.post<{ documentId: string }>('/v1/documents', { title });
+    return response.data;
+  }
+
+  async batchUpdate(documentId: string, requests: DocsRequest[]): Promise<void> {
+    await this.client.post(`/v1/documents/${documentId}:batchUpdate`, { requests });
+  }
+}
+
+export default GoogleDocsClient;
@@ -0,0 +1,121 @@
+import type { BriefSection } from '@seo-portal/shared';
+
+// Google Docs batchUpdate requests for a brief.
+//
+// Document indexes shift with every insertion, so blocks are inserted in reverse order,
+// each at index 1 (the start of the body). Every request then only needs indexes
+// relative to the block it just inserted, and the finished document reads top to bottom.
+
+export type DocsRequest = Record<string, unknown>;
+
+type NamedStyle = 'TITLE' | 'HEADING_1' | 'HEADING_2' | 'HEADING_3' | 'NORMAL_TEXT';
+
+type DocBlock =
+  | { kind: 'text'; lines: string[]; style: NamedStyle; bullets?: 'unordered' | 'ordered' }
+  | { kind: 'table'; columns: string[]; rows: string[][] };
+
+const BULLET_PRESETS = {
+  unordered: 'BULLET_DISC_CIRCLE_SQUARE',
+  ordered: 'NUMBERED_DECIMAL_ALPHA_ROMAN'
+};
+
+// Vertical tab and other control characters are rejected by the API; newlines would split paragraphs
+function clean(text: string): string {
+  return text.replace(/[\u0000-\u0008\u000B-\u001F]/g, '').replace(/\n/g, ' ');
+}
+
+function toBlocks(title: string, sections: BriefSection[]): DocBlock[] {
+  const blocks: DocBlock[] = [{ kind: 'text', lines: [title], style: 'TITLE' }];
+
+  for (const section of [...sections].sort((a, b) => a.order - b.order)) {
+    if (section.type === 'heading') {
+      blocks.push({ kind: 'text', lines: [section.content.text], style: `HEADING_${section.content.level}` });
+      continue;
+    }
+
+    if (section.title) {
+      blocks.push({ kind: 'text', lines: [section.title], style: 'HEADING_2' });
+    }
+
+    switch (section.type) {
+      case 'paragraph':
+        blocks.push({ kind: 'text', lines: section.content.text.split('\n'), style: 'NORMAL_TEXT' });
+        break;
+      case 'list':
+        if (section.content.items.length > 0) {
+          blocks.push({
+            kind: 'text',
+            lines: section.content.items,
+            style: 'NORMAL_TEXT',
+            bullets: section.content.ordered ? 'ordered' : 'unordered'
+          });
+        }
+        break;
+      case 'table':
+        blocks.push({ kind: 'table', columns: section.content.columns, rows: section.content.rows });
+        break;
+      case 'chart':
+        blocks.push({
+          kind: 'table',
+          columns: ['Label', 'Value'],
+          rows: section.content.labels.map((label, index) => [label, String(section.content.values[index] ?? '')])
+        });
+        break;
+    }
+  }
+
+  return blocks;
+}
+
+function textRequests(block: Extract<DocBlock, { kind: 'text' }>): DocsRequest[] {
+  const text = block.lines.map(clean).join('\n') + '\n';
+  const range = { startIndex: 1, endIndex: 1 + text.length };
+
+  return [
+    { insertText: { location: { index: 1 }, text } },
+    // New paragraphs inherit the style of the paragraph they were inserted before, so always set it
+    { updateParagraphStyle: { range, paragraphStyle: { namedStyleType: block.style }, fields: 'namedStyleType' } },
+    block.bullets
+      ? { createParagraphBullets: { range, bulletPreset: BULLET_PRESETS[block.bullets] } }
+      : { deleteParagraphBullets: { range } }
+  ];
+}
+
+// A table inserted at index 1 is preceded by a new paragraph, so the table starts at index 2.
+// Each row takes one index plus two per cell (cell start and its empty paragraph), which puts
+// the paragraph of cell (r, c) at 5 + r * (2 * columns + 1) + 2 * c. Cells are filled from
+// the last one back so earlier indexes are unaffected.
+function tableRequests(block: Extract<DocBlock, { kind: 'table' }>): DocsRequest[] {
+  const columns = Math.max(block.columns.length, 1);
+  const rows = [block.columns, ...block.rows];
+  const requests: DocsRequest[] = [
+    { insertTable: { rows: rows.length, columns, location: { index: 1 } } }
+  ];
+
+  for (let r = rows.length - 1; r >= 0; r--) {
+    for (let c = columns - 1; c >= 0; c--) {
+      const text = clean(rows[r][c] || '');
+      if (!text) continue;
+
+      const index = 5 + r * (2 * columns + 1) + 2 * c;
+      requests.push({ insertText: { location: { index }, text } });
+      if (r === 0) {
+        requests.push({
+          updateTextStyle: {
+            range: { startIndex: index, endIndex: index + text.length },
+            textStyle: { bold: true },
+            fields: 'bold'
+          }
+        });
+      }
+    }
+  }
+
+  return requests;
+}
+
+export function briefToDocsRequests(title: string, sections: BriefSection[]): DocsRequest[] {
+  return toBlocks(title, sections)
+    .reverse()
+    .flatMap(block => block.kind === 'text' ? textRequests(block) : tableRequests(block));
+}
@@ -0,0 +1,114 @@
+import type { BriefSection } from '@seo-portal/shared';
+
+// Subset of the Notion block API used for briefs
+
+export interface NotionRichText {
+  type: 'text';
+  text: { content: string };
+  annotations?: { bold?: boolean };
+}
+
+export type NotionBlock = {
+  object: 'block';
+  type: string;
+  [type: string]: unknown;
+};
+
+// Notion limits a single rich text item to 2000 characters
+const MAX_TEXT_LENGTH = 2000;
+// and a table to 100 rows per request, including the header row
+const MAX_TABLE_ROWS = 100;
+
+export function richText(content: string, bold = false): NotionRichText[] {
+  const parts: NotionRichText[] = [];
+  for (let start = 0; start < content.length; start += MAX_TEXT_LENGTH) {
+    parts.push({
+      type: 'text',
+      text: { content: content.slice(start, start + MAX_TEXT_LENGTH) },
+      ...(bold && { annotations: { bold: true } })
+    });
+  }
+  return parts;
+}
+
+function textBlock(type: string, content: string): NotionBlock {
+  return { object: 'block', type, [type]: { rich_text: richText(content) } };
+}
+
+function tableRow(cells: string[], width: number): NotionBlock {
+  return {
+    object: 'block',
+    type: 'table_row',
+    table_row: {
+      cells: Array.from({ length: width }, (_, index) => richText((cells[index] || '').replace(/\n/g, ' ')))
+    }
+  };
+}
+
+// Long tables are split into several tables that each repeat the header
+function tables(columns: string[], rows: string[][]): NotionBlock[] {
+  const width = Math.max(columns.length, 1);
+  const chunkSize = MAX_TABLE_ROWS - 1;
+  const blocks: NotionBlock[] = [];
+
+  for (let start = 0; start === 0 || start < rows.length; start += chunkSize) {
+    blocks.push({
+      object: 'block',
+      type: 'table',
+      table: {
+        table_width: width,
+        has_column_header: true,
+        has_row_header: false,
+        children: [
+          tableRow(columns, width),
+          ...rows.slice(start, start + chunkSize).map(row => tableRow(row, width))
+        ]
+      }
+    });
+  }
+
+  return blocks;
+}
+
+// Map brief sections to Notion blocks. Heading sections keep their level and section
+// titles become heading 2, as in the file exports; charts become label/value tables.
+export function briefToNotionBlocks(sections: BriefSection[]): NotionBlock[] {
+  const blocks: NotionBlock[] = [];
+
+  for (const section of [...sections].sort((a, b) => a.order - b.order)) {
+    if (section.type === 'heading') {
+      blocks.push(textBlock(`heading_${section.content.level}`, section.content.text));
+      continue;
+    }
+
+    if (section.title) {
+      blocks.push(textBlock('heading_2', section.title));
+    }
+
+    switch (section.type) {
+      case 'paragraph':
+        for (const line of section.content.text.split('\n')) {
+          if (line.trim()) {
+            blocks.push(textBlock('paragraph', line));
+          }
+        }
+        break;
+      case 'list':
+        for (const item of section.content.items) {
+          blocks.push(textBlock(section.content.ordered ? 'numbered_list_item' : 'bulleted_list_item', item));
+        }
+        break;
+      case 'table':
+        blocks.push(...tables(section.content.columns, section.content.rows));
+        break;
+      case 'chart':
+        blocks.push(...tables(
+          ['Label', 'Value'],
+          section.content.labels.map((label, index) => [label, String(section.content.values[index] ?? '')])
+        ));
+        break;
+    }
+  }
+
+  return blocks;
+}
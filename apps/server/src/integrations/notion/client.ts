@@ -0,0 +1,93 @@
+import axios, { AxiosInstance } from 'axios';
+import getEnvConfig from '../../config/env.js';
+import type { NotionBlock, NotionRichText } from './blocks.js';
+
+const env = getEnvConfig();
+
+const NOTION_VERSION = '2022-06-28';
+
+// Notion accepts at most 100 children per create or append request
+export const NOTION_MAX_CHILDREN = 100;
+
+export interface NotionClientOptions {
+  accessToken: string;
+  baseUrl?: string;
+}
+
+export interface NotionTokenResponse {
+  access_token: string;
+  workspace_id: string;
+  workspace_name?: string | null;
+  bot_id: string;
+}
+
+export interface NotionPage {
+  id: string;
+  url: string;
+}
+
+// Authorization URL users are sent to when connecting Notion
+export function notionAuthorizeUrl(redirectUri: string, state: string): string {
+  const url = new URL('/v1/oauth/authorize', env.NOTION_API_URL);
+  url.searchParams.set('client_id', env.NOTION_CLIENT_ID || '');
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('owner', 'user');
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('state', state);
+  return url.toString();
+}
+
+// Exchange an OAuth code for a workspace access token. Notion tokens do not expire.
+export async function exchangeNotionCode(code: string, redirectUri: string, baseUrl: string = env.NOTION_API_URL): Promise<NotionTokenResponse> {
+  const response = await axios.post<NotionTokenResponse>(
+    `${baseUrl}/v1/oauth/token`,
+    { grant_type: 'authorization_code', code, redirect_uri: redirectUri },
+    {
+      auth: { username: env.NOTION_CLIENT_ID || '', password: env.NOTION_CLIENT_SECRET || '' },
+      headers: { 'Notion-Version': NOTION_VERSION },
+      timeout: 30000
+    }
+  );
+  return response.data;
+}
+
+export class NotionClient {
+  private client: AxiosInstance;
+
+  constructor(options: NotionClientOptions) {
+    this.client = axios.create({
+      baseURL: options.baseUrl || env.NOTION_API_URL,
+      headers: {
+        'Authorization': `Bearer ${options.accessToken}`,
+        'Content-Type': 'application/json',
+        'Notion-Version': NOTION_VERSION,
+      },
+      timeout: 30000, // 30 seconds
+    });
+  }
+
+  async createPage(parentPageId: string, title: NotionRichText[], children: NotionBlock[]): Promise<NotionPage> {
+    const response = await this.client.post<NotionPage>('/v1/pages', {
+      parent: { page_id: parentPageId },
+      properties: { title: { title } },
+      children
+    });
+    return response.data;
+  }
+
+  async appendChildren(blockId: string, children: NotionBlock[]): Promise<void> {
+    await this.client.patch(`/v1/blocks/${blockId}/children`, { children });
+  }
+
+  // First page shared with the integration, used as the parent when none is given
+  async findFirstPage(): Promise<NotionPage | null> {
+    const response = await this.client.post<{ results: NotionPage[] }>('/v1/search', {
+      filter: { property: 'object', value: 'page' },
+      sort: { direction: 'descending', timestamp: 'last_edited_time' },
+      page_size: 1
+    });
+    return response.data.results[0] || null;
+  }
+}
+
+export default NotionClient;
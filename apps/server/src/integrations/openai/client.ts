@@ -4,7 +4,7 @@ import getEnvConfig from '../../config/env.js';
 const env = getEnvConfig();
 
 export interface AIInsightRequest {
-  type: 'keyword_analysis' | 'competitor_analysis' | 'content_strategy' | 'serp_analysis' | 'trend_analysis';
+  type: 'keyword_analysis' | 'competitor_analysis' | 'content_strategy' | 'serp_analysis' | 'trend_analysis' | 'technical_audit';
   data: any;
   context?: {
     industry?: string;
@@ -38,6 +38,56 @@ export interface AIInsightResponse {
   nextSteps?: string[];
 }
 
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number; // USD
+}
+
+export interface AICompletion<T> {
+  output: T;
+  usage: TokenUsage;
+}
+
+// USD per 1K tokens
+export const MODEL_PRICING: { [model: string]: { input: number; output: number } } = {
+  'gpt-4-turbo-preview': { input: 0.01, output: 0.03 },
+  'gpt-4': { input: 0.03, output: 0.06 },
+  'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 },
+  'text-embedding-3-small': { input: 0.00002, output: 0 },
+  'text-embedding-3-large': { input: 0.00013, output: 0 },
+};
+
+export function calculateTokenCost(model: string, promptTokens: number, completionTokens: number): number {
+  const pricing = MODEL_PRICING[model] || MODEL_PRICING['gpt-4-turbo-preview'];
+  const cost = (promptTokens / 1000) * pricing.input + (completionTokens / 1000) * pricing.output;
+  return Math.round(cost * 10000) / 10000;
+}
+
+// System prompt and instructions wrapped around every request
+const PROMPT_OVERHEAD_TOKENS = 500;
+
+// Pre-flight estimate: roughly 4 characters per prompt token, and the completion is
+// assumed to use its full max_tokens so the estimate errs on the high side
+export function estimateTokenUsage(
+  input: any,
+  maxCompletionTokens: number = 2500,
+  model: string = 'gpt-4-turbo-preview'
+): TokenUsage {
+  const text = typeof input === 'string' ? input : JSON.stringify(input ?? '');
+  const promptTokens = Math.ceil(text.length / 4) + PROMPT_OVERHEAD_TOKENS;
+
+  return {
+    model,
+    promptTokens,
+    completionTokens: maxCompletionTokens,
+    totalTokens: promptTokens + maxCompletionTokens,
+    cost: calculateTokenCost(model, promptTokens, maxCompletionTokens),
+  };
+}
+
 export class OpenAIClient {
   private client: OpenAI;
 
@@ -47,7 +97,7 @@ export class OpenAIClient {
     });
   }
 
-  async generateInsights(request: AIInsightRequest): Promise<AIInsightResponse> {
+  async generateInsights(request: AIInsightRequest): Promise<AICompletion<AIInsightResponse>> {
     try {
       const prompt = this.buildPrompt(request);
 
@@ -73,7 +123,10 @@ export class OpenAIClient {
         throw new Error('No response from OpenAI');
       }
 
-      return JSON.parse(response) as AIInsightResponse;
+      return {
+        output: JSON.parse(response) as AIInsightResponse,
+        usage: this.extractUsage(completion, 'gpt-4-turbo-preview'),
+      };
     } catch (error) {
       console.error('OpenAI API Error:', error);
       throw new Error(`Failed to generate AI insights: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -127,6 +180,10 @@ Analyze SERP features, ranking factors, and opportunities to improve visibility.
       trend_analysis: `${basePrompt}
 
 Identify patterns, seasonal trends, and emerging opportunities. Focus on timing, market changes, and predictive insights for strategic planning.`,
+
+      technical_audit: `${basePrompt}
+
+Review crawl, page speed and markup findings. Prioritize fixes by search impact and effort, and make each recommendation a concrete change to specific pages.`,
     };
 
     return specificPrompts[type] || basePrompt;
@@ -206,6 +263,16 @@ Identify patterns, seasonal trends, and emerging opportunities. Focus on timing,
 - Predictive insights
 - Strategic timing recommendations`;
         break;
+
+      case 'technical_audit':
+        prompt += `Please focus on:
+- Issues that block crawling or indexing
+- Core Web Vitals and page speed
+- Titles, meta descriptions and heading structure
+- Canonical tags and redirects
+- Structured data coverage and errors
+- Fixes that affect the most pages first`;
+        break;
     }
 
     return prompt;
@@ -221,7 +288,7 @@ Identify patterns, seasonal trends, and emerging opportunities. Focus on timing,
       contentType?: 'blog' | 'landing' | 'product' | 'guide';
       targetAudience?: string;
     } = {}
-  ): Promise<{
+  ): Promise<AICompletion<{
     title: string;
     outline: Array<{ heading: string; subpoints: string[] }>;
     wordCount: number;
@@ -230,7 +297,7 @@ Identify patterns, seasonal trends, and emerging opportunities. Focus on timing,
     contentAngle: string;
     userIntent: string;
     competitiveAdvantage: string;
-  }> {
+  }>> {
     const prompt = `Create a comprehensive content brief for the keyword "${keyword}" based on the following data:
 
 SERP Analysis: ${JSON.stringify(serpData, null, 2)}
@@ -273,23 +340,85 @@ Respond in JSON format with the structure I specified.`;
         throw new Error('No response from OpenAI');
       }
 
-      return JSON.parse(response);
+      return {
+        output: JSON.parse(response),
+        usage: this.extractUsage(completion, 'gpt-4-turbo-preview'),
+      };
     } catch (error) {
       console.error('Content brief generation error:', error);
       throw error;
     }
   }
 
+  // Rewrite one section of an existing content brief, keeping its type and content shape
+  async regenerateBriefSection(
+    brief: {
+      title: string;
+      keyword: string;
+      outline: string[];
+      sourceData: any;
+    },
+    section: {
+      type: string;
+      title?: string;
+      content: any;
+    },
+    instructions?: string
+  ): Promise<AICompletion<{ title?: string; content: any }>> {
+    const prompt = `You are revising one section of the content brief "${brief.title}" for the keyword "${brief.keyword}".
+
+Brief outline: ${JSON.stringify(brief.outline)}
+Research data: ${JSON.stringify(brief.sourceData, null, 2)}
+
+Current section (type "${section.type}"):
+${JSON.stringify({ title: section.title, content: section.content }, null, 2)}
+
+${instructions ? `Editor instructions: ${instructions}\n\n` : ''}Rewrite this section so it is more specific, actionable and grounded in the research data.
+Keep the same section type and return JSON of the form {"title": string, "content": ...} where content has exactly the same fields as the current content.`;
+
+    try {
+      const completion = await this.client.chat.completions.create({
+        model: 'gpt-4-turbo-preview',
+        messages: [
+          {
+            role: 'system',
+            content: 'You are an expert content strategist and SEO specialist. You edit individual sections of content briefs without changing their structure.',
+          },
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        temperature: 0.7,
+        max_tokens: 1000,
+        response_format: { type: 'json_object' },
+      });
+
+      const response = completion.choices[0]?.message?.content;
+      if (!response) {
+        throw new Error('No response from OpenAI');
+      }
+
+      return {
+        output: JSON.parse(response),
+        usage: this.extractUsage(completion, 'gpt-4-turbo-preview'),
+      };
+    } catch (error) {
+      console.error('Brief section regeneration error:', error);
+      throw error;
+    }
+  }
+
   // Generate technical SEO recommendations
   async generateTechnicalRecommendations(
     siteData: any,
     performanceData: any
-  ): Promise<{
+  ): Promise<AICompletion<{
     criticalIssues: Array<{ issue: string; impact: string; solution: string }>;
     optimizations: Array<{ area: string; recommendation: string; impact: 'high' | 'medium' | 'low' }>;
     technicalScore: number;
     priorityActions: string[];
-  }> {
+  }>> {
     const prompt = `Analyze the following technical SEO data and provide recommendations:
 
 Site Data: ${JSON.stringify(siteData, null, 2)}
@@ -320,13 +449,52 @@ Please identify critical issues, optimization opportunities, and provide a techn
         throw new Error('No response from OpenAI');
       }
 
-      return JSON.parse(response);
+      return {
+        output: JSON.parse(response),
+        usage: this.extractUsage(completion, 'gpt-4-turbo-preview'),
+      };
     } catch (error) {
       console.error('Technical recommendations error:', error);
       throw error;
     }
   }
 
+  // Embed a batch of texts; vectors come back in input order
+  async embed(texts: string[], model: string = 'text-embedding-3-small'): Promise<AICompletion<number[][]>> {
+    try {
+      const response = await this.client.embeddings.create({ model, input: texts });
+      const promptTokens = response.usage?.prompt_tokens || 0;
+
+      return {
+        output: [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding),
+        usage: {
+          model,
+          promptTokens,
+          completionTokens: 0,
+          totalTokens: response.usage?.total_tokens || promptTokens,
+          cost: calculateTokenCost(model, promptTokens, 0),
+        },
+      };
+    } catch (error) {
+      console.error('Embedding error:', error);
+      throw error;
+    }
+  }
+
+  // Read token usage and cost from a chat completion
+  private extractUsage(completion: OpenAI.Chat.Completions.ChatCompletion, model: string): TokenUsage {
+    const promptTokens = completion.usage?.prompt_tokens || 0;
+    const completionTokens = completion.usage?.completion_tokens || 0;
+
+    return {
+      model,
+      promptTokens,
+      completionTokens,
+      totalTokens: completion.usage?.total_tokens || promptTokens + completionTokens,
+      cost: calculateTokenCost(model, promptTokens, completionTokens),
+    };
+  }
+
   // Test API connection
   async testConnection(): Promise<boolean> {
     try {
@@ -0,0 +1,123 @@
+import { createHash } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { OpenAIClient, TokenUsage, calculateTokenCost } from './client.js';
+import { BudgetService } from '../../services/budget.js';
+import { CacheService, buildCacheKey } from '../../services/cache.js';
+import { localEmbedding, normalizeEmbeddingText, LOCAL_DIMENSIONS } from './vectors.js';
+import getEnvConfig from '../../config/env.js';
+
+const env = getEnvConfig();
+
+// Inputs per embeddings request (the API accepts up to 2048)
+const BATCH_SIZE = 500;
+
+export interface EmbeddingProvider {
+  model: string;
+  // Vectors that cost nothing to recompute aren't worth a cache row
+  cacheable: boolean;
+  embed(texts: string[]): Promise<{ vectors: number[][]; usage?: TokenUsage }>;
+}
+
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  model = `local-hash-${LOCAL_DIMENSIONS}`;
+  cacheable = false;
+
+  async embed(texts: string[]) {
+    return { vectors: texts.map(text => localEmbedding(text)) };
+  }
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  cacheable = true;
+
+  constructor(private client: OpenAIClient, public model: string = env.EMBEDDINGS_MODEL) {}
+
+  async embed(texts: string[]) {
+    const completion = await this.client.embed(texts, this.model);
+    return { vectors: completion.output, usage: completion.usage };
+  }
+}
+
+export interface EmbeddingServiceOptions {
+  prisma?: PrismaClient;
+  apiKey?: string;
+  provider?: EmbeddingProvider;
+}
+
+// Embeds keywords for the user, reusing cached vectors so a keyword is only paid for once
+// per model, whichever query or user first asked for it
+export class EmbeddingService {
+  private provider: EmbeddingProvider;
+  private cache: CacheService;
+  private budget: BudgetService;
+
+  constructor(options: EmbeddingServiceOptions = {}) {
+    const prisma = options.prisma || new PrismaClient();
+    this.provider = options.provider || (env.EMBEDDINGS_PROVIDER === 'local'
+      ? new LocalEmbeddingProvider()
+      : new OpenAIEmbeddingProvider(new OpenAIClient(options.apiKey)));
+    this.cache = new CacheService(prisma);
+    this.budget = new BudgetService(prisma);
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  // Vectors keyed by normalised text (see normalizeEmbeddingText)
+  async embed(userId: string, texts: string[], options: { allowOverage?: boolean } = {}): Promise<Map<string, number[]>> {
+    const unique = Array.from(new Set(texts.map(normalizeEmbeddingText).filter(Boolean)));
+    const vectors = new Map<string, number[]>();
+    if (unique.length === 0) return vectors;
+
+    const cacheKey = (text: string) => buildCacheKey('embedding', this.provider.model, text);
+    if (this.provider.cacheable) {
+      const cached = await this.cache.getMany<number[]>(unique.map(cacheKey));
+      unique.forEach(text => {
+        const vector = cached.get(cacheKey(text));
+        if (vector) vectors.set(text, vector);
+      });
+    }
+
+    const missing = unique.filter(text => !vectors.has(text));
+    if (missing.length === 0) return vectors;
+
+    const batches: string[][] = [];
+    for (let start = 0; start < missing.length; start += BATCH_SIZE) {
+      batches.push(missing.slice(start, start + BATCH_SIZE));
+    }
+
+    if (this.provider.cacheable) {
+      // Roughly 4 characters per token, as for chat prompts
+      const tokens = Math.ceil(missing.reduce((sum, text) => sum + text.length, 0) / 4);
+      await this.budget.assertWithinBudget(userId, {
+        usd: calculateTokenCost(this.provider.model, tokens, 0),
+        apiCalls: batches.length,
+        tokens
+      }, options);
+    }
+
+    for (const batch of batches) {
+      const { vectors: batchVectors, usage } = await this.provider.embed(batch);
+      batch.forEach((text, index) => vectors.set(text, batchVectors[index]));
+
+      if (this.provider.cacheable) {
+        await this.cache.setMany(batch.map((text, index) => ({ key: cacheKey(text), value: batchVectors[index] })), env.CACHE_TTL_EMBEDDINGS);
+      }
+      if (usage) {
+        await this.recordSpend(userId, usage);
+      }
+    }
+
+    return vectors;
+  }
+
+  // The embeddings are already paid for, so a failure to record spend is logged rather than thrown
+  private async recordSpend(userId: string, usage: TokenUsage): Promise<void> {
+    try {
+      await this.budget.recordSpend(userId, { usd: usage.cost, apiCalls: 1, tokens: usage.totalTokens });
+    } catch (error) {
+      console.error(`Failed to record embedding spend for user ${userId}:`, error);
+    }
+  }
+}
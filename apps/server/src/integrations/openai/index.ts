@@ -1,11 +1,17 @@
-import { OpenAIClient, AIInsightRequest, AIInsightResponse } from './client.js';
+import { PrismaClient, TaskStatus as PrismaTaskStatus } from '@prisma/client';
+import { OpenAIClient, AIInsightRequest, AIInsightResponse, AICompletion, TokenUsage, estimateTokenUsage } from './client.js';
 import { PromptTemplateEngine, PROMPT_TEMPLATES } from './templates.js';
+import { AIJobStore, AIJobPayload, AIJobType, StoredAIJob, JOB_HEARTBEAT_MS } from './job-store.js';
+import { BudgetService } from '../../services/budget.js';
+import getEnvConfig from '../../config/env.js';
+
+const env = getEnvConfig();
 
 export interface AIAnalysisJob {
   id: string;
   userId: string;
-  projectId?: string;
-  type: 'insight_generation' | 'content_brief' | 'technical_audit' | 'template_analysis';
+  queryId: string;
+  type: AIJobType;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   input: any;
   output?: any;
@@ -35,41 +41,51 @@ export interface AnalysisRequest {
   };
 }
 
+export interface AIServiceOptions {
+  apiKey?: string;
+  prisma?: PrismaClient;
+}
+
+export interface SubmitJobOptions {
+  // Workflow step key; a job already stored for the same query and step is reused
+  step?: string;
+  // Skip the budget check after the user has confirmed going over
+  allowOverage?: boolean;
+}
+
+const JOB_STATUS: { [status: string]: AIAnalysisJob['status'] } = {
+  [PrismaTaskStatus.PENDING]: 'pending',
+  [PrismaTaskStatus.SUBMITTED]: 'pending',
+  [PrismaTaskStatus.RUNNING]: 'processing',
+  [PrismaTaskStatus.COMPLETED]: 'completed',
+  [PrismaTaskStatus.FAILED]: 'failed',
+  [PrismaTaskStatus.CANCELLED]: 'failed',
+};
+
 export class AIService {
   private client: OpenAIClient;
-  private jobs: Map<string, AIAnalysisJob> = new Map();
-
-  constructor(apiKey?: string) {
-    this.client = new OpenAIClient(apiKey);
+  private store: AIJobStore;
+  private budget: BudgetService;
+
+  constructor(options: AIServiceOptions = {}) {
+    const prisma = options.prisma || new PrismaClient();
+    this.client = new OpenAIClient(options.apiKey);
+    this.store = new AIJobStore(prisma);
+    this.budget = new BudgetService(prisma);
   }
 
   // Generate insights using templates or direct analysis
   async generateAnalysis(
     userId: string,
     request: AnalysisRequest,
-    projectId?: string
+    queryId: string,
+    options: SubmitJobOptions = {}
   ): Promise<string> {
-    const jobId = this.generateJobId();
-
-    const job: AIAnalysisJob = {
-      id: jobId,
+    return this.submitJob(queryId, options, {
+      jobType: request.templateId ? 'template_analysis' : 'insight_generation',
       userId,
-      projectId,
-      type: request.templateId ? 'template_analysis' : 'insight_generation',
-      status: 'pending',
       input: request,
-      createdAt: new Date(),
-    };
-
-    this.jobs.set(jobId, job);
-
-    // Process job asynchronously
-    this.processJob(jobId).catch(error => {
-      console.error(`Job ${jobId} failed:`, error);
-      this.updateJobStatus(jobId, 'failed', undefined, error.message);
     });
-
-    return jobId;
   }
 
   // Generate content brief
@@ -83,28 +99,39 @@ export class AIService {
       contentType?: 'blog' | 'landing' | 'product' | 'guide';
       targetAudience?: string;
     } = {},
-    projectId?: string
+    queryId: string,
+    jobOptions: SubmitJobOptions = {}
   ): Promise<string> {
-    const jobId = this.generateJobId();
-
-    const job: AIAnalysisJob = {
-      id: jobId,
+    return this.submitJob(queryId, jobOptions, {
+      jobType: 'content_brief',
       userId,
-      projectId,
-      type: 'content_brief',
-      status: 'pending',
       input: { keyword, serpData, keywordData, options },
-      createdAt: new Date(),
-    };
-
-    this.jobs.set(jobId, job);
-
-    this.processContentBrief(jobId).catch(error => {
-      console.error(`Content brief job ${jobId} failed:`, error);
-      this.updateJobStatus(jobId, 'failed', undefined, error.message);
     });
+  }
 
-    return jobId;
+  // Regenerate a single section of a content brief
+  async regenerateBriefSection(
+    userId: string,
+    brief: {
+      title: string;
+      keyword: string;
+      outline: string[];
+      sourceData: any;
+    },
+    section: {
+      type: string;
+      title?: string;
+      content: any;
+    },
+    instructions: string | undefined,
+    queryId: string,
+    jobOptions: SubmitJobOptions = {}
+  ): Promise<string> {
+    return this.submitJob(queryId, jobOptions, {
+      jobType: 'brief_section',
+      userId,
+      input: { brief, section, instructions },
+    });
   }
 
   // Generate technical SEO audit
@@ -112,79 +139,171 @@ export class AIService {
     userId: string,
     siteData: any,
     performanceData: any,
-    projectId?: string
+    queryId: string,
+    options: SubmitJobOptions = {}
   ): Promise<string> {
-    const jobId = this.generateJobId();
-
-    const job: AIAnalysisJob = {
-      id: jobId,
+    return this.submitJob(queryId, options, {
+      jobType: 'technical_audit',
       userId,
-      projectId,
-      type: 'technical_audit',
-      status: 'pending',
       input: { siteData, performanceData },
-      createdAt: new Date(),
-    };
-
-    this.jobs.set(jobId, job);
-
-    this.processTechnicalAudit(jobId).catch(error => {
-      console.error(`Technical audit job ${jobId} failed:`, error);
-      this.updateJobStatus(jobId, 'failed', undefined, error.message);
     });
-
-    return jobId;
   }
 
   // Get job status and results
   async getJobStatus(jobId: string, userId: string): Promise<AIAnalysisJob | null> {
-    const job = this.jobs.get(jobId);
-    if (!job || job.userId !== userId) {
+    const job = await this.store.find(jobId);
+    if (!job || job.payload.userId !== userId) {
       return null;
     }
-    return job;
+    return this.toAnalysisJob(job);
   }
 
   // Get all jobs for a user
-  getUserJobs(userId: string, projectId?: string): AIAnalysisJob[] {
-    return Array.from(this.jobs.values())
-      .filter(job => job.userId === userId && (!projectId || job.projectId === projectId))
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  async getUserJobs(userId: string, projectId?: string): Promise<AIAnalysisJob[]> {
+    const jobs = await this.store.listForUser(userId, projectId);
+    return jobs.map(job => this.toAnalysisJob(job));
+  }
+
+  // Pick up jobs that were queued or mid-flight when the server last stopped
+  async resumePendingJobs(): Promise<number> {
+    await this.store.requeueInterrupted();
+    const pending = await this.store.listPending();
+
+    for (const job of pending) {
+      this.enqueueJob(job.id);
+    }
+
+    return pending.length;
+  }
+
+  // Persist a job and start processing it. Jobs submitted with a step are reused
+  // so a resumed workflow does not pay for the same analysis twice.
+  private async submitJob(queryId: string, options: SubmitJobOptions, payload: AIJobPayload): Promise<string> {
+    const { step, allowOverage } = options;
+
+    if (step) {
+      const existing = await this.store.findByStep(queryId, step);
+
+      if (existing) {
+        if (existing.status === PrismaTaskStatus.FAILED || existing.status === PrismaTaskStatus.CANCELLED) {
+          await this.assertWithinBudget(payload, allowOverage);
+          await this.store.requeue(existing.id);
+          this.enqueueJob(existing.id);
+        } else if (existing.status === PrismaTaskStatus.PENDING) {
+          this.enqueueJob(existing.id);
+        } else if (existing.status === PrismaTaskStatus.RUNNING && (await this.store.requeueInterrupted(existing.id)) > 0) {
+          // The process running it stopped without finishing
+          this.enqueueJob(existing.id);
+        }
+        return existing.id;
+      }
+    }
+
+    await this.assertWithinBudget(payload, allowOverage);
+    const job = await this.store.create({ queryId, step, payload });
+    this.enqueueJob(job.id);
+
+    return job.id;
+  }
+
+  // Process job asynchronously
+  private enqueueJob(jobId: string): void {
+    this.processJob(jobId).catch(error => {
+      console.error(`Job ${jobId} failed:`, error);
+    });
   }
 
-  // Process insight generation job
+  // Claim and run a stored job, retrying with backoff up to WORKER_MAX_RETRIES attempts
   private async processJob(jobId: string): Promise<void> {
-    const job = this.jobs.get(jobId);
+    // Another caller is already running this job
+    if (!(await this.store.claim(jobId))) return;
+
+    const job = await this.store.find(jobId);
     if (!job) throw new Error('Job not found');
 
-    this.updateJobStatus(jobId, 'processing');
+    // Keep the lease while the completion runs so other instances leave the job alone
+    const heartbeat = setInterval(() => {
+      this.store.heartbeat(jobId).catch(error => console.error(`Failed to renew lease on job ${jobId}:`, error));
+    }, JOB_HEARTBEAT_MS);
 
     try {
-      const request = job.input as AnalysisRequest;
-      let result: AIInsightResponse;
+      const completion = await this.runJob(job.payload);
+      await this.store.markCompleted(jobId, completion.output, completion.usage.totalTokens, completion.usage.cost);
+      await this.recordSpend(job.payload.userId, completion.usage);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
 
-      if (request.templateId) {
-        // Use template-based analysis
-        result = await this.processTemplateAnalysis(request);
+      if (job.attempts < env.WORKER_MAX_RETRIES) {
+        await this.store.requeue(jobId, message);
+        setTimeout(() => this.enqueueJob(jobId), Math.pow(2, job.attempts) * 1000);
       } else {
-        // Use direct insight generation
+        await this.store.markFailed(jobId, message);
+      }
+
+      throw error;
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  // Reject a job up front when its estimated token cost would exceed the user's budgets
+  private async assertWithinBudget(payload: AIJobPayload, allowOverage?: boolean): Promise<void> {
+    const estimate = estimateTokenUsage(payload.input);
+    await this.budget.assertWithinBudget(
+      payload.userId,
+      { usd: estimate.cost, apiCalls: 1, tokens: estimate.totalTokens },
+      { allowOverage }
+    );
+  }
+
+  // The completion is already paid for, so a failure to record spend is logged rather than thrown
+  private async recordSpend(userId: string, usage: TokenUsage): Promise<void> {
+    try {
+      await this.budget.recordSpend(userId, { usd: usage.cost, apiCalls: 1, tokens: usage.totalTokens });
+    } catch (error) {
+      console.error(`Failed to record OpenAI spend for user ${userId}:`, error);
+    }
+  }
+
+  // Dispatch a job payload to the matching OpenAI call
+  private async runJob(payload: AIJobPayload): Promise<AICompletion<any>> {
+    switch (payload.jobType) {
+      case 'insight_generation': {
+        const request = payload.input as AnalysisRequest;
         const aiRequest: AIInsightRequest = {
           type: request.type,
           data: request.data,
           context: request.context,
           options: request.options,
         };
-        result = await this.client.generateInsights(aiRequest);
+        return await this.client.generateInsights(aiRequest);
       }
 
-      this.updateJobStatus(jobId, 'completed', result);
-    } catch (error) {
-      throw error;
+      case 'template_analysis':
+        return await this.processTemplateAnalysis(payload.input as AnalysisRequest);
+
+      case 'content_brief': {
+        const { keyword, serpData, keywordData, options } = payload.input;
+        return await this.client.generateContentBrief(keyword, serpData, keywordData, options);
+      }
+
+      case 'brief_section': {
+        const { brief, section, instructions } = payload.input;
+        return await this.client.regenerateBriefSection(brief, section, instructions);
+      }
+
+      case 'technical_audit': {
+        const { siteData, performanceData } = payload.input;
+        return await this.client.generateTechnicalRecommendations(siteData, performanceData);
+      }
+
+      default:
+        throw new Error(`Unsupported AI job type: ${payload.jobType}`);
     }
   }
 
   // Process template-based analysis
-  private async processTemplateAnalysis(request: AnalysisRequest): Promise<AIInsightResponse> {
+  private async processTemplateAnalysis(request: AnalysisRequest): Promise<AICompletion<AIInsightResponse>> {
     if (!request.templateId) {
       throw new Error('Template ID required for template analysis');
     }
@@ -214,74 +333,35 @@ export class AIService {
     return await this.client.generateInsights(aiRequest);
   }
 
-  // Process content brief job
-  private async processContentBrief(jobId: string): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (!job) throw new Error('Job not found');
-
-    this.updateJobStatus(jobId, 'processing');
-
-    try {
-      const { keyword, serpData, keywordData, options } = job.input;
-      const result = await this.client.generateContentBrief(keyword, serpData, keywordData, options);
-      this.updateJobStatus(jobId, 'completed', result);
-    } catch (error) {
-      throw error;
-    }
-  }
-
-  // Process technical audit job
-  private async processTechnicalAudit(jobId: string): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (!job) throw new Error('Job not found');
-
-    this.updateJobStatus(jobId, 'processing');
-
-    try {
-      const { siteData, performanceData } = job.input;
-      const result = await this.client.generateTechnicalRecommendations(siteData, performanceData);
-      this.updateJobStatus(jobId, 'completed', result);
-    } catch (error) {
-      throw error;
-    }
-  }
-
-  // Update job status
-  private updateJobStatus(
-    jobId: string,
-    status: AIAnalysisJob['status'],
-    output?: any,
-    error?: string
-  ): void {
-    const job = this.jobs.get(jobId);
-    if (!job) return;
-
-    job.status = status;
-    if (output) job.output = output;
-    if (error) job.error = error;
-    if (status === 'completed' || status === 'failed') {
-      job.completedAt = new Date();
-    }
-
-    this.jobs.set(jobId, job);
-  }
-
-  // Generate unique job ID
-  private generateJobId(): string {
-    return `ai_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  // Map a stored Task row onto the public job shape
+  private toAnalysisJob(job: StoredAIJob): AIAnalysisJob {
+    return {
+      id: job.id,
+      userId: job.payload.userId,
+      queryId: job.queryId,
+      type: job.payload.jobType,
+      status: JOB_STATUS[job.status],
+      input: job.payload.input,
+      output: job.result ?? undefined,
+      error: job.error ?? undefined,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt ?? undefined,
+      tokensUsed: job.tokensUsed ?? undefined,
+      cost: job.actualCost ?? undefined,
+    };
   }
 
   // Batch analysis for multiple keywords/competitors
   async generateBatchAnalysis(
     userId: string,
     requests: AnalysisRequest[],
-    projectId?: string
+    queryId: string
   ): Promise<string[]> {
     const jobIds: string[] = [];
 
     for (const request of requests) {
       try {
-        const jobId = await this.generateAnalysis(userId, request, projectId);
+        const jobId = await this.generateAnalysis(userId, request, queryId);
         jobIds.push(jobId);
       } catch (error) {
         console.error('Failed to create batch analysis job:', error);
@@ -343,7 +423,7 @@ export class AIService {
   }
 
   // Get usage statistics
-  getUsageStats(): {
+  async getUsageStats(): Promise<{
     totalJobs: number;
     completedJobs: number;
     failedJobs: number;
@@ -351,11 +431,11 @@ export class AIService {
     averageProcessingTime: number;
     totalTokensUsed: number;
     estimatedCost: number;
-  } {
-    const jobs = Array.from(this.jobs.values());
-    const completed = jobs.filter(j => j.status === 'completed');
-    const failed = jobs.filter(j => j.status === 'failed');
-    const processing = jobs.filter(j => j.status === 'processing');
+  }> {
+    const jobs = await this.store.listAll();
+    const completed = jobs.filter(j => j.status === PrismaTaskStatus.COMPLETED);
+    const failed = jobs.filter(j => j.status === PrismaTaskStatus.FAILED);
+    const processing = jobs.filter(j => j.status === PrismaTaskStatus.RUNNING);
 
     const processingTimes = completed
       .filter(j => j.completedAt && j.createdAt)
@@ -366,7 +446,7 @@ export class AIService {
       : 0;
 
     const totalTokens = jobs.reduce((sum, j) => sum + (j.tokensUsed || 0), 0);
-    const estimatedCost = jobs.reduce((sum, j) => sum + (j.cost || 0), 0);
+    const estimatedCost = jobs.reduce((sum, j) => sum + (j.actualCost || 0), 0);
 
     return {
       totalJobs: jobs.length,
@@ -379,25 +459,15 @@ export class AIService {
     };
   }
 
-  // Clean up old completed jobs
-  cleanupCompletedJobs(olderThanHours: number = 48): number {
+  // Clear the stored inputs of old completed jobs; usage and output are kept for reporting
+  async cleanupCompletedJobs(olderThanHours: number = 48): Promise<number> {
     const cutoff = new Date(Date.now() - olderThanHours * 60 * 60 * 1000);
-    let cleaned = 0;
-
-    for (const [jobId, job] of this.jobs.entries()) {
-      if ((job.status === 'completed' || job.status === 'failed') &&
-          job.completedAt &&
-          job.completedAt < cutoff) {
-        this.jobs.delete(jobId);
-        cleaned++;
-      }
-    }
-
-    return cleaned;
+    return this.store.pruneInputs(cutoff);
   }
 }
 
 // Export types and main service
 export * from './client.js';
 export * from './templates.js';
+export * from './job-store.js';
 export { AIService as default };
\ No newline at end of file
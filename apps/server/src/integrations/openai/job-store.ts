@@ -0,0 +1,205 @@
+import type { PrismaClient } from '@prisma/client';
+import { Prisma, TaskStatus as PrismaTaskStatus } from '@prisma/client';
+
+export type AIJobType = 'insight_generation' | 'content_brief' | 'brief_section' | 'technical_audit' | 'template_analysis';
+
+export interface AIJobPayload {
+  jobType: AIJobType;
+  userId: string;
+  input: any;
+}
+
+type TaskRow = Prisma.TaskGetPayload<{}>;
+
+export type StoredAIJob = Omit<TaskRow, 'payload'> & { payload: AIJobPayload };
+
+const PROVIDER = 'openai';
+const ENDPOINT = 'chat/completions';
+
+// A running job renews its lease this often; one not renewed for JOB_LEASE_MS is
+// treated as abandoned by a process that stopped
+export const JOB_HEARTBEAT_MS = 60 * 1000;
+const JOB_LEASE_MS = 5 * 60 * 1000;
+
+// The payload column is untyped JSON; anything that is not a job payload is a corrupt row
+function parsePayload(id: string, value: Prisma.JsonValue): AIJobPayload {
+  const payload = value as Partial<AIJobPayload> | null;
+  if (!payload || typeof payload !== 'object' || typeof payload.jobType !== 'string' || typeof payload.userId !== 'string') {
+    throw new Error(`AI job ${id} has an invalid payload`);
+  }
+  return payload as AIJobPayload;
+}
+
+function toStoredJob(task: TaskRow): StoredAIJob {
+  return { ...task, payload: parsePayload(task.id, task.payload) };
+}
+
+// Persists AI analysis jobs as openai Task rows attached to the owning query
+export class AIJobStore {
+  constructor(private prisma: PrismaClient) {}
+
+  async find(id: string): Promise<StoredAIJob | null> {
+    const task = await this.prisma.task.findFirst({
+      where: { id, provider: PROVIDER },
+    });
+    return task && toStoredJob(task);
+  }
+
+  async findByStep(queryId: string, step: string): Promise<StoredAIJob | null> {
+    const task = await this.prisma.task.findFirst({
+      where: { queryId, step, provider: PROVIDER },
+    });
+    return task && toStoredJob(task);
+  }
+
+  async create(params: { queryId: string; step?: string; payload: AIJobPayload }): Promise<StoredAIJob> {
+    const task = await this.prisma.task.create({
+      data: {
+        queryId: params.queryId,
+        provider: PROVIDER,
+        endpoint: ENDPOINT,
+        step: params.step,
+        payload: params.payload as unknown as Prisma.InputJsonValue,
+        status: PrismaTaskStatus.PENDING,
+      },
+    });
+    return toStoredJob(task);
+  }
+
+  // Atomically move a pending job to RUNNING and take its lease; false if another worker got there first
+  async claim(id: string): Promise<boolean> {
+    const { count } = await this.prisma.task.updateMany({
+      where: { id, provider: PROVIDER, status: PrismaTaskStatus.PENDING },
+      data: {
+        status: PrismaTaskStatus.RUNNING,
+        attempts: { increment: 1 },
+        lastPolledAt: new Date(),
+      },
+    });
+    return count === 1;
+  }
+
+  // Renew the lease on a job this process is running
+  async heartbeat(id: string): Promise<void> {
+    await this.prisma.task.updateMany({
+      where: { id, provider: PROVIDER, status: PrismaTaskStatus.RUNNING },
+      data: { lastPolledAt: new Date() },
+    });
+  }
+
+  async markCompleted(id: string, output: any, tokensUsed: number, cost: number): Promise<void> {
+    await this.prisma.task.update({
+      where: { id },
+      data: {
+        status: PrismaTaskStatus.COMPLETED,
+        result: output as Prisma.InputJsonValue,
+        tokensUsed,
+        actualCost: cost,
+        error: null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  async markFailed(id: string, error: string): Promise<void> {
+    await this.prisma.task.update({
+      where: { id },
+      data: {
+        status: PrismaTaskStatus.FAILED,
+        error,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  // Put a job back in the queue so it is picked up again
+  async requeue(id: string, error?: string): Promise<void> {
+    await this.prisma.task.update({
+      where: { id },
+      data: {
+        status: PrismaTaskStatus.PENDING,
+        error: error || null,
+        completedAt: null,
+      },
+    });
+  }
+
+  // Jobs left RUNNING by a process that stopped can never finish; hand them back to the queue.
+  // Only jobs whose lease has lapsed are taken, so other live instances keep their own work.
+  async requeueInterrupted(id?: string): Promise<number> {
+    const leaseExpiry = new Date(Date.now() - JOB_LEASE_MS);
+    const { count } = await this.prisma.task.updateMany({
+      where: {
+        ...(id && { id }),
+        provider: PROVIDER,
+        status: PrismaTaskStatus.RUNNING,
+        OR: [
+          { lastPolledAt: { lt: leaseExpiry } },
+          { lastPolledAt: null, updatedAt: { lt: leaseExpiry } },
+        ],
+      },
+      data: { status: PrismaTaskStatus.PENDING },
+    });
+    return count;
+  }
+
+  async listPending(): Promise<StoredAIJob[]> {
+    const tasks = await this.prisma.task.findMany({
+      where: { provider: PROVIDER, status: PrismaTaskStatus.PENDING },
+      orderBy: { createdAt: 'asc' },
+    });
+    return tasks.map(toStoredJob);
+  }
+
+  async listForUser(userId: string, projectId?: string): Promise<StoredAIJob[]> {
+    const tasks = await this.prisma.task.findMany({
+      where: {
+        provider: PROVIDER,
+        payload: { path: ['userId'], equals: userId },
+        ...(projectId && { query: { projectId } }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    return tasks.map(toStoredJob);
+  }
+
+  async listAll(): Promise<Pick<StoredAIJob, 'id' | 'status' | 'tokensUsed' | 'actualCost' | 'createdAt' | 'completedAt'>[]> {
+    return this.prisma.task.findMany({
+      where: { provider: PROVIDER },
+      select: {
+        id: true,
+        status: true,
+        tokensUsed: true,
+        actualCost: true,
+        createdAt: true,
+        completedAt: true,
+      },
+    });
+  }
+
+  // Drop the (often large) inputs of completed jobs while keeping usage and output.
+  // Failed jobs keep theirs so they can still be retried.
+  async pruneInputs(olderThan: Date): Promise<number> {
+    const tasks = await this.prisma.task.findMany({
+      where: {
+        provider: PROVIDER,
+        status: PrismaTaskStatus.COMPLETED,
+        completedAt: { lt: olderThan },
+      },
+    });
+    const jobs = tasks.map(toStoredJob);
+
+    let pruned = 0;
+    for (const job of jobs) {
+      if (job.payload.input === null) continue;
+
+      await this.prisma.task.update({
+        where: { id: job.id },
+        data: { payload: { ...job.payload, input: null } as Prisma.InputJsonValue },
+      });
+      pruned++;
+    }
+
+    return pruned;
+  }
+}
@@ -17,6 +17,7 @@ export const PROMPT_TEMPLATES: PromptTemplate[] = [
     prompt: `Analyze the following keyword data and identify the best opportunities:
 
 Keywords Data: {{keywordData}}
+Keyword Clusters: {{keywordClusters}}
 Current Rankings: {{currentRankings}}
 Competitor Keywords: {{competitorKeywords}}
 
@@ -30,10 +31,10 @@ Please provide:
 2. Long-tail keyword strategies
 3. Seasonal opportunities
 4. Content gaps to fill
-5. Keyword clustering recommendations
+5. Which of the keyword clusters to build pages for first, and whether the suggested pillar keyword should lead each page
 
 Focus on actionable insights that can drive traffic and conversions within 3-6 months.`,
-    variables: ['keywordData', 'currentRankings', 'competitorKeywords', 'industry', 'targetAudience', 'businessGoals'],
+    variables: ['keywordData', 'keywordClusters', 'currentRankings', 'competitorKeywords', 'industry', 'targetAudience', 'businessGoals'],
     outputFormat: 'json'
   },
 
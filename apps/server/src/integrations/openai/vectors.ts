@@ -0,0 +1,47 @@
+import { createHash } from 'crypto';
+import { stemWord } from '../../services/keyword-metrics.js';
+
+// Vector helpers shared by the embedding providers and the code comparing their output
+
+export const LOCAL_DIMENSIONS = 256;
+
+// Same normalisation as cache keys, so "SEO Tools " and "seo tools" share one vector
+export function normalizeEmbeddingText(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Deterministic stand-in for a real embedding: stemmed words and character trigrams hashed
+// into a fixed-size vector. Word order and plurals barely move it, so it catches the same
+// near-duplicates ("seo tools" / "tools for seo") without any API calls.
+export function localEmbedding(text: string, dimensions: number = LOCAL_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const add = (feature: string, weight: number) => {
+    const hash = createHash('md5').update(feature).digest();
+    const index = hash.readUInt32BE(0) % dimensions;
+    vector[index] += (hash[4] & 1 ? 1 : -1) * weight;
+  };
+
+  const words = normalizeEmbeddingText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean).map(stemWord);
+  words.forEach(word => {
+    add(`w:${word}`, 1);
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`t:${padded.slice(i, i + 3)}`, 0.3);
+    }
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map(value => value / norm) : vector;
+}
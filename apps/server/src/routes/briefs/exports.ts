@@ -0,0 +1,133 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient, Export, ExportFormat } from '@prisma/client';
+import { createBriefExportSchema } from '@seo-portal/shared';
+import type { AuthUser } from '../../auth/jwt.js';
+import { requirePermission, getProjectAccess } from '../../auth/permissions.js';
+import { ExportService } from '../../services/exports/index.js';
+import { IntegrationNotConnectedError } from '../../services/export-credentials.js';
+
+const prisma = new PrismaClient();
+const exportService = new ExportService(prisma);
+
+const HISTORY_LIMIT = 50;
+
+export default async function briefExportRoutes(fastify: FastifyInstance) {
+  // Export the brief's current version
+  fastify.post('/:briefId/exports', { preHandler: requirePermission('read:briefs') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { briefId } = request.params as { briefId: string };
+
+      if (!(await canReadBrief(request.user!, briefId))) {
+        return reply.status(404).send({ error: 'Brief not found' });
+      }
+
+      const parsed = createBriefExportSchema.safeParse(request.body || {});
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid export request', details: parsed.error.issues });
+      }
+
+      const { format, destination } = parsed.data;
+      const record = await exportService.requestExport(briefId, userId, format as ExportFormat, destination?.trim() || undefined);
+
+      return reply.status(202).send({ export: serializeExport(record) });
+
+    } catch (error) {
+      if (error instanceof IntegrationNotConnectedError) {
+        return reply.status(error.statusCode).send({ error: error.message, provider: error.provider });
+      }
+      console.error('Create brief export error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Export history, newest first
+  fastify.get('/:briefId/exports', { preHandler: requirePermission('read:briefs') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { briefId } = request.params as { briefId: string };
+
+      if (!(await canReadBrief(request.user!, briefId))) {
+        return reply.status(404).send({ error: 'Brief not found' });
+      }
+
+      const exports = await prisma.export.findMany({
+        where: { briefId },
+        include: {
+          creator: {
+            select: { id: true, name: true, email: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        take: HISTORY_LIMIT
+      });
+
+      return reply.send({
+        exports: exports.map(record => ({ ...serializeExport(record), creator: record.creator }))
+      });
+
+    } catch (error) {
+      console.error('List brief exports error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Status of one export, with a fresh download link once it has completed
+  fastify.get('/:briefId/exports/:exportId', { preHandler: requirePermission('read:briefs') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { briefId, exportId } = request.params as { briefId: string; exportId: string };
+
+      if (!(await canReadBrief(request.user!, briefId))) {
+        return reply.status(404).send({ error: 'Brief not found' });
+      }
+
+      const record = await prisma.export.findFirst({ where: { id: exportId, briefId } });
+      if (!record) {
+        return reply.status(404).send({ error: 'Export not found' });
+      }
+
+      return reply.send({ export: serializeExport(record) });
+
+    } catch (error) {
+      console.error('Get brief export error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
+
+async function canReadBrief(user: AuthUser, briefId: string): Promise<boolean> {
+  const brief = await prisma.brief.findUnique({ where: { id: briefId }, select: { projectId: true } });
+  return !!brief && !!(await getProjectAccess(user, brief.projectId));
+}
+
+function serializeExport(record: Export) {
+  return {
+    id: record.id,
+    briefId: record.briefId,
+    briefVersion: record.briefVersion,
+    format: record.format,
+    status: record.status,
+    fileName: record.fileName,
+    size: record.size,
+    error: record.error,
+    url: record.url,
+    destination: record.destination,
+    downloadUrl: exportService.downloadUrl(record),
+    expiresAt: record.expiresAt,
+    createdBy: record.createdBy,
+    createdAt: record.createdAt
+  };
+}
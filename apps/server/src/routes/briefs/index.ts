@@ -0,0 +1,950 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient, Prisma, Query, QueryType, QueryStatus, DatasetKind, ProjectRole } from '@prisma/client';
+import {
+  generateBriefSchema,
+  updateBriefSchema,
+  regenerateBriefSectionSchema,
+  briefSectionSchema
+} from '@seo-portal/shared';
+import type { BriefSection } from '@seo-portal/shared';
+import type { AuthUser } from '../../auth/jwt.js';
+import AIService from '../../integrations/openai/index.js';
+import { BudgetService } from '../../services/budget.js';
+import { BriefService, BriefVersionConflictError, newSectionId } from '../../services/briefs.js';
+import { estimateContentBrief } from '../../services/cost-estimate.js';
+import { hasProjectRole } from '../../services/projects.js';
+import {
+  requirePermission,
+  sendForbidden,
+  getProjectAccess,
+  readableQueriesWhere,
+  checkBriefEditAccess
+} from '../../auth/permissions.js';
+import briefExportRoutes from './exports.js';
+
+const prisma = new PrismaClient();
+const aiService = new AIService({ prisma });
+const budgetService = new BudgetService(prisma);
+const briefService = new BriefService(prisma);
+
+// Datasets a brief can be generated from
+const SOURCE_KINDS: DatasetKind[] = [DatasetKind.KEYWORDS, DatasetKind.SERP];
+
+// Keywords and SERP results sent to the model; larger sources are trimmed to the strongest entries
+const MAX_SOURCE_KEYWORDS = 50;
+const MAX_SOURCE_RESULTS = 10;
+
+interface GenerateBriefParameters {
+  action: 'generate';
+  datasetId: string;
+  keyword: string;
+  keywords?: string[];
+  title?: string;
+  options?: {
+    wordCount?: number;
+    contentType?: 'blog' | 'landing' | 'product' | 'guide';
+    targetAudience?: string;
+  };
+  confirmOverBudget?: boolean;
+  briefId?: string;
+}
+
+interface RegenerateSectionParameters {
+  action: 'regenerate_section';
+  briefId: string;
+  sectionId: string;
+  instructions?: string;
+  confirmOverBudget?: boolean;
+  savedVersion?: number;
+}
+
+type ContentBriefParameters = GenerateBriefParameters | RegenerateSectionParameters;
+
+interface SourceKeyword {
+  keyword: string;
+  searchVolume: number;
+  cpc?: number;
+  competition?: number;
+}
+
+export default async function briefRoutes(fastify: FastifyInstance) {
+  // Register exports under /api/briefs/:briefId/exports
+  await fastify.register(briefExportRoutes);
+
+  // Keywords a brief can target from a KEYWORDS or SERP dataset, for picking the keyword and cluster
+  fastify.get('/sources/:datasetId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { datasetId } = request.params as { datasetId: string };
+
+      const dataset = await prisma.dataset.findUnique({ where: { id: datasetId } });
+      if (!dataset?.projectId || !(await getProjectAccess(request.user!, dataset.projectId))) {
+        return reply.status(404).send({ error: 'Dataset not found' });
+      }
+
+      if (!SOURCE_KINDS.includes(dataset.kind)) {
+        return reply.status(400).send({ error: `Briefs can only be generated from ${SOURCE_KINDS.join(' or ')} datasets` });
+      }
+
+      return reply.send({
+        dataset: {
+          id: dataset.id,
+          projectId: dataset.projectId,
+          name: dataset.name,
+          kind: dataset.kind
+        },
+        keywords: extractSourceKeywords(dataset.kind, dataset.data)
+      });
+
+    } catch (error) {
+      console.error('Get brief source error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Generate a brief from a dataset; the brief is created when the AI job finishes
+  fastify.post('/', { preHandler: requirePermission('create:briefs') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const parsed = generateBriefSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid brief request', details: parsed.error.issues });
+      }
+
+      const body = parsed.data;
+
+      const dataset = await prisma.dataset.findUnique({ where: { id: body.datasetId } });
+      // Briefs belong to a project, so datasets from research outside a project cannot be used
+      const access = dataset?.projectId && await getProjectAccess(request.user!, dataset.projectId);
+      if (!dataset?.projectId || !access) {
+        return reply.status(404).send({ error: 'Dataset not found' });
+      }
+
+      if (!hasProjectRole(access.role, ProjectRole.EDITOR)) {
+        return sendForbidden(reply, 'Project viewers cannot create briefs', ProjectRole.EDITOR);
+      }
+
+      if (!SOURCE_KINDS.includes(dataset.kind)) {
+        return reply.status(400).send({ error: `Briefs can only be generated from ${SOURCE_KINDS.join(' or ')} datasets` });
+      }
+
+      const keywords = extractSourceKeywords(dataset.kind, dataset.data);
+      const keyword = body.keyword || body.keywords?.[0] || keywords[0]?.keyword;
+      if (!keyword) {
+        return reply.status(400).send({ error: 'The dataset has no keywords to build a brief from' });
+      }
+
+      // Check budgets before the AI job is queued
+      const estimate = estimateContentBrief({ action: 'generate' });
+      const budgetReview = await budgetService.reviewRequest(userId, {
+        estimatedUsd: estimate.totals.usd,
+        confirmed: body.confirmOverBudget
+      });
+      if (budgetReview.decision === 'reject') {
+        return reply.status(402).send({ error: 'Budget exceeded', overruns: budgetReview.overruns });
+      }
+
+      if (budgetReview.decision === 'confirm') {
+        return reply.status(409).send({
+          error: 'This request may exceed your budget',
+          requiresConfirmation: true,
+          estimate,
+          overruns: budgetReview.overruns,
+          perQueryLimit: budgetReview.perQueryLimit
+        });
+      }
+
+      const parameters: GenerateBriefParameters = {
+        action: 'generate',
+        datasetId: dataset.id,
+        keyword,
+        ...(body.keywords?.length && { keywords: body.keywords }),
+        ...(body.title && { title: body.title }),
+        ...(body.options && { options: body.options }),
+        confirmOverBudget: body.confirmOverBudget || false
+      };
+
+      const query = await prisma.query.create({
+        data: {
+          createdBy: userId,
+          projectId: dataset.projectId,
+          type: QueryType.CONTENT_BRIEF,
+          payload: parameters as unknown as Prisma.InputJsonValue,
+          status: QueryStatus.PENDING,
+        }
+      });
+
+      processContentBrief(query.id).catch(error => {
+        console.error(`Brief generation failed for query ${query.id}:`, error);
+        updateQueryStatus(query.id, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
+      });
+
+      return reply.send({
+        queryId: query.id,
+        status: 'started',
+        message: 'Brief generation has been started'
+      });
+
+    } catch (error) {
+      console.error('Generate brief error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Status of a generation or section regeneration job; briefId is set once the brief exists
+  fastify.get('/jobs/:queryId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { queryId } = request.params as { queryId: string };
+
+      const query = await prisma.query.findFirst({
+        where: {
+          id: queryId,
+          type: QueryType.CONTENT_BRIEF,
+          ...readableQueriesWhere(request.user!)
+        },
+        select: {
+          id: true,
+          status: true,
+          progress: true,
+          error: true,
+          payload: true
+        }
+      });
+
+      if (!query) {
+        return reply.status(404).send({ error: 'Job not found' });
+      }
+
+      const params = query.payload as unknown as ContentBriefParameters;
+
+      return reply.send({
+        id: query.id,
+        action: params.action,
+        status: query.status,
+        progress: query.progress,
+        error: query.error,
+        briefId: params.briefId || null
+      });
+
+    } catch (error) {
+      console.error('Get brief job error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get a brief with the caller's edit rights
+  fastify.get('/:briefId', { preHandler: requirePermission('read:briefs') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { briefId } = request.params as { briefId: string };
+
+      const brief = await findReadableBrief(request.user!, briefId);
+      if (!brief) {
+        return reply.status(404).send({ error: 'Brief not found' });
+      }
+
+      const editError = await checkBriefEditAccess(request.user!, brief);
+
+      return reply.send({
+        brief: {
+          id: brief.id,
+          projectId: brief.projectId,
+          title: brief.title,
+          sections: brief.sections,
+          version: brief.version,
+          createdBy: brief.createdBy,
+          createdAt: brief.createdAt,
+          updatedAt: brief.updatedAt
+        },
+        project: brief.project,
+        sourceDataset: brief.sourceDataset,
+        canEdit: !editError
+      });
+
+    } catch (error) {
+      console.error('Get brief error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Save edits (title, section content, order, additions and removals) as a new version
+  fastify.patch('/:briefId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { briefId } = request.params as { briefId: string };
+
+      const brief = await findReadableBrief(request.user!, briefId);
+      if (!brief) {
+        return reply.status(404).send({ error: 'Brief not found' });
+      }
+
+      const editError = await checkBriefEditAccess(request.user!, brief);
+      if (editError) {
+        return sendForbidden(reply, editError, ProjectRole.EDITOR);
+      }
+
+      const parsed = updateBriefSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid brief', details: parsed.error.issues });
+      }
+
+      const { baseVersion, title, sections, change } = parsed.data;
+      if (title === undefined && sections === undefined) {
+        return reply.status(400).send({ error: 'Nothing to save' });
+      }
+
+      const duplicateId = findDuplicateSectionId(sections || []);
+      if (duplicateId) {
+        return reply.status(400).send({ error: `Duplicate section id: ${duplicateId}` });
+      }
+
+      const updated = await briefService.saveVersion(briefId, userId, baseVersion, {
+        title,
+        sections: sections as BriefSection[] | undefined
+      }, change || (sections ? 'Edited sections' : 'Renamed brief'));
+
+      return reply.send({ brief: updated });
+
+    } catch (error) {
+      if (error instanceof BriefVersionConflictError) {
+        return reply.status(409).send({ error: error.message, currentVersion: error.currentVersion });
+      }
+      console.error('Update brief error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Rewrite one section with AI; the result is saved as a new version when the job finishes
+  fastify.post('/:briefId/sections/:sectionId/regenerate', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { briefId, sectionId } = request.params as { briefId: string; sectionId: string };
+
+      const brief = await findReadableBrief(request.user!, briefId);
+      if (!brief) {
+        return reply.status(404).send({ error: 'Brief not found' });
+      }
+
+      const editError = await checkBriefEditAccess(request.user!, brief);
+      if (editError) {
+        return sendForbidden(reply, editError, ProjectRole.EDITOR);
+      }
+
+      const parsed = regenerateBriefSectionSchema.safeParse(request.body || {});
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid regenerate request', details: parsed.error.issues });
+      }
+
+      const sections = brief.sections as unknown as BriefSection[];
+      if (!sections.some(section => section.id === sectionId)) {
+        return reply.status(404).send({ error: 'Section not found' });
+      }
+
+      const estimate = estimateContentBrief({ action: 'regenerate_section' });
+      const budgetReview = await budgetService.reviewRequest(userId, {
+        estimatedUsd: estimate.totals.usd,
+        confirmed: parsed.data.confirmOverBudget
+      });
+      if (budgetReview.decision === 'reject') {
+        return reply.status(402).send({ error: 'Budget exceeded', overruns: budgetReview.overruns });
+      }
+
+      if (budgetReview.decision === 'confirm') {
+        return reply.status(409).send({
+          error: 'This request may exceed your budget',
+          requiresConfirmation: true,
+          estimate,
+          overruns: budgetReview.overruns,
+          perQueryLimit: budgetReview.perQueryLimit
+        });
+      }
+
+      const parameters: RegenerateSectionParameters = {
+        action: 'regenerate_section',
+        briefId,
+        sectionId,
+        ...(parsed.data.instructions && { instructions: parsed.data.instructions }),
+        confirmOverBudget: parsed.data.confirmOverBudget || false
+      };
+
+      const query = await prisma.query.create({
+        data: {
+          createdBy: userId,
+          projectId: brief.projectId,
+          type: QueryType.CONTENT_BRIEF,
+          payload: parameters as unknown as Prisma.InputJsonValue,
+          status: QueryStatus.PENDING,
+        }
+      });
+
+      processContentBrief(query.id).catch(error => {
+        console.error(`Section regeneration failed for query ${query.id}:`, error);
+        updateQueryStatus(query.id, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
+      });
+
+      return reply.send({
+        queryId: query.id,
+        status: 'started',
+        message: 'Section regeneration has been started'
+      });
+
+    } catch (error) {
+      console.error('Regenerate brief section error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Version history, newest first
+  fastify.get('/:briefId/versions', { preHandler: requirePermission('read:briefs') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { briefId } = request.params as { briefId: string };
+
+      const brief = await findReadableBrief(request.user!, briefId);
+      if (!brief) {
+        return reply.status(404).send({ error: 'Brief not found' });
+      }
+
+      const versions = await briefService.listVersions(briefId);
+
+      return reply.send({
+        currentVersion: brief.version,
+        versions
+      });
+
+    } catch (error) {
+      console.error('List brief versions error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // A single version snapshot
+  fastify.get('/:briefId/versions/:version', { preHandler: requirePermission('read:briefs') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { briefId, version } = request.params as { briefId: string; version: string };
+
+      const brief = await findReadableBrief(request.user!, briefId);
+      if (!brief) {
+        return reply.status(404).send({ error: 'Brief not found' });
+      }
+
+      const snapshot = await briefService.getVersion(briefId, Number(version));
+      if (!snapshot) {
+        return reply.status(404).send({ error: 'Version not found' });
+      }
+
+      return reply.send({ version: snapshot });
+
+    } catch (error) {
+      console.error('Get brief version error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Compare two versions; defaults to the current version against the one before it
+  fastify.get('/:briefId/diff', { preHandler: requirePermission('read:briefs') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { briefId } = request.params as { briefId: string };
+      const { from, to } = request.query as { from?: string; to?: string };
+
+      const brief = await findReadableBrief(request.user!, briefId);
+      if (!brief) {
+        return reply.status(404).send({ error: 'Brief not found' });
+      }
+
+      const toVersion = to ? Number(to) : brief.version;
+      const fromVersion = from ? Number(from) : Math.max(1, toVersion - 1);
+
+      if (!Number.isInteger(fromVersion) || !Number.isInteger(toVersion)) {
+        return reply.status(400).send({ error: 'Versions must be integers' });
+      }
+
+      const diff = await briefService.diffVersions(briefId, fromVersion, toVersion);
+      if (!diff) {
+        return reply.status(404).send({ error: 'Version not found' });
+      }
+
+      return reply.send({ diff });
+
+    } catch (error) {
+      console.error('Diff brief versions error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Restore an older version by saving a copy of it as the newest version
+  fastify.post('/:briefId/versions/:version/restore', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { briefId, version } = request.params as { briefId: string; version: string };
+      const { baseVersion } = (request.body || {}) as { baseVersion?: number };
+
+      const brief = await findReadableBrief(request.user!, briefId);
+      if (!brief) {
+        return reply.status(404).send({ error: 'Brief not found' });
+      }
+
+      const editError = await checkBriefEditAccess(request.user!, brief);
+      if (editError) {
+        return sendForbidden(reply, editError, ProjectRole.EDITOR);
+      }
+
+      if (typeof baseVersion !== 'number') {
+        return reply.status(400).send({ error: 'baseVersion is required' });
+      }
+
+      const restored = await briefService.restoreVersion(briefId, userId, baseVersion, Number(version));
+      if (!restored) {
+        return reply.status(404).send({ error: 'Version not found' });
+      }
+
+      return reply.send({ brief: restored });
+
+    } catch (error) {
+      if (error instanceof BriefVersionConflictError) {
+        return reply.status(409).send({ error: error.message, currentVersion: error.currentVersion });
+      }
+      console.error('Restore brief version error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Delete a brief and its history
+  fastify.delete('/:briefId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { briefId } = request.params as { briefId: string };
+
+      const brief = await findReadableBrief(request.user!, briefId);
+      if (!brief) {
+        return reply.status(404).send({ error: 'Brief not found' });
+      }
+
+      const editError = await checkBriefEditAccess(request.user!, brief);
+      if (editError) {
+        return sendForbidden(reply, editError, ProjectRole.EDITOR);
+      }
+
+      // Versions and exports cascade with the brief
+      await prisma.brief.delete({ where: { id: briefId } });
+
+      return reply.send({ message: 'Brief deleted successfully' });
+
+    } catch (error) {
+      console.error('Delete brief error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
+
+// Process a CONTENT_BRIEF query: generate a new brief or regenerate one section
+// (re-entrant: the AI job is reused on resume and the result is only saved once)
+export async function processContentBrief(queryId: string) {
+  try {
+    const query = await prisma.query.findUnique({
+      where: { id: queryId }
+    });
+
+    if (!query) {
+      throw new Error('Query not found');
+    }
+
+    const params = query.payload as unknown as ContentBriefParameters;
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 10);
+
+    if (params.action === 'generate') {
+      await generateBrief(query, params);
+    } else {
+      await regenerateSection(query, params);
+    }
+
+    await updateQueryStatus(queryId, QueryStatus.COMPLETED, null, 100);
+
+  } catch (error) {
+    console.error(`Content brief processing error for query ${queryId}:`, error);
+    await updateQueryStatus(queryId, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+async function generateBrief(query: Query, params: GenerateBriefParameters) {
+  if (params.briefId) {
+    return;
+  }
+
+  const dataset = await prisma.dataset.findUnique({ where: { id: params.datasetId } });
+  if (!dataset?.projectId) {
+    throw new Error('Source dataset no longer exists');
+  }
+  const projectId = dataset.projectId;
+
+  const source = summarizeSource(dataset.kind, dataset.data, params.keyword, params.keywords);
+
+  const aiJobId = await aiService.generateContentBrief(
+    query.createdBy,
+    params.keyword,
+    source.serpResults,
+    source.keywords,
+    params.options || {},
+    query.id,
+    { step: 'AI_BRIEF', allowOverage: params.confirmOverBudget }
+  );
+
+  await updateQueryStatus(query.id, QueryStatus.RUNNING, null, 30);
+
+  const aiResult = await aiService.waitForJobs([aiJobId], query.createdBy, {
+    timeout: 180000 // 3 minutes
+  });
+
+  const job = aiResult[aiJobId];
+  if (!job || job.status !== 'completed') {
+    throw new Error(job?.error || 'Brief generation did not complete');
+  }
+
+  await updateQueryStatus(query.id, QueryStatus.RUNNING, null, 80);
+
+  // The brief is recorded on the query in the same transaction, so a resumed job never creates it twice
+  await prisma.$transaction(async tx => {
+    const brief = await briefService.createBrief({
+      projectId,
+      sourceDatasetId: dataset.id,
+      title: params.title || job.output.title || params.keyword,
+      sections: buildBriefSections(job.output, params, source),
+      userId: query.createdBy,
+      change: `Generated from ${dataset.name}`
+    }, tx);
+
+    await tx.query.update({
+      where: { id: query.id },
+      data: { payload: { ...params, briefId: brief.id } as unknown as Prisma.InputJsonValue }
+    });
+  });
+}
+
+async function regenerateSection(query: Query, params: RegenerateSectionParameters) {
+  if (params.savedVersion) {
+    return;
+  }
+
+  const brief = await prisma.brief.findUnique({
+    where: { id: params.briefId },
+    include: { sourceDataset: true }
+  });
+
+  if (!brief) {
+    throw new Error('Brief no longer exists');
+  }
+
+  const sections = brief.sections as unknown as BriefSection[];
+  const section = sections.find(item => item.id === params.sectionId);
+  if (!section) {
+    throw new Error('Section was removed from the brief');
+  }
+
+  const keyword = await findBriefKeyword(brief.id) || brief.title;
+  const source = brief.sourceDataset
+    ? summarizeSource(brief.sourceDataset.kind, brief.sourceDataset.data, keyword)
+    : { keywords: [], serpResults: [] };
+
+  const aiJobId = await aiService.regenerateBriefSection(
+    query.createdBy,
+    {
+      title: brief.title,
+      keyword,
+      outline: sections.map(item => item.title || (item.type === 'heading' ? item.content.text : item.type)),
+      sourceData: source
+    },
+    { type: section.type, title: section.title, content: section.content },
+    params.instructions,
+    query.id,
+    { step: 'AI_SECTION', allowOverage: params.confirmOverBudget }
+  );
+
+  await updateQueryStatus(query.id, QueryStatus.RUNNING, null, 30);
+
+  const aiResult = await aiService.waitForJobs([aiJobId], query.createdBy, {
+    timeout: 120000 // 2 minutes
+  });
+
+  const job = aiResult[aiJobId];
+  if (!job || job.status !== 'completed') {
+    throw new Error(job?.error || 'Section regeneration did not complete');
+  }
+
+  // The model must keep the section's type and content shape
+  const regenerated = briefSectionSchema.safeParse({
+    id: section.id,
+    type: section.type,
+    title: job.output?.title ?? section.title,
+    order: section.order,
+    content: job.output?.content
+  });
+
+  if (!regenerated.success) {
+    throw new Error('Regenerated section did not match the section format');
+  }
+
+  await updateQueryStatus(query.id, QueryStatus.RUNNING, null, 80);
+
+  // Apply to whatever version is current now; other sections may have been edited meanwhile
+  const label = section.title || section.type;
+  for (let attempt = 0; ; attempt++) {
+    const current = await prisma.brief.findUnique({ where: { id: brief.id } });
+    if (!current) {
+      throw new Error('Brief no longer exists');
+    }
+
+    const currentSections = current.sections as unknown as BriefSection[];
+    if (!currentSections.some(item => item.id === section.id)) {
+      throw new Error('Section was removed from the brief');
+    }
+
+    try {
+      const saved = await briefService.saveVersion(brief.id, query.createdBy, current.version, {
+        sections: currentSections.map(item => item.id === section.id
+          ? { ...(regenerated.data as BriefSection), order: item.order }
+          : item)
+      }, `Regenerated section "${label}"`);
+
+      await prisma.query.update({
+        where: { id: query.id },
+        data: { payload: { ...params, savedVersion: saved!.version } as unknown as Prisma.InputJsonValue }
+      });
+      return;
+    } catch (error) {
+      if (!(error instanceof BriefVersionConflictError) || attempt >= 2) {
+        throw error;
+      }
+    }
+  }
+}
+
+// The keyword a brief was generated for, from its generation query
+async function findBriefKeyword(briefId: string): Promise<string | null> {
+  const query = await prisma.query.findFirst({
+    where: {
+      type: QueryType.CONTENT_BRIEF,
+      payload: { path: ['briefId'], equals: briefId }
+    },
+    select: { payload: true }
+  });
+
+  return (query?.payload as unknown as GenerateBriefParameters | undefined)?.keyword || null;
+}
+
+// Keyword list from a KEYWORDS dataset or the analyzed keywords of a SERP dataset, by volume
+function extractSourceKeywords(kind: DatasetKind, data: any): SourceKeyword[] {
+  const rows: any[] = Array.isArray(data) ? data : data?.keywords || [];
+
+  if (kind === DatasetKind.SERP) {
+    return Array.from(new Set(rows.map(result => result.keyword).filter(Boolean)))
+      .map(keyword => ({ keyword: keyword as string, searchVolume: 0 }));
+  }
+
+  return rows
+    .filter(row => row?.keyword)
+    .map(row => ({
+      keyword: row.keyword,
+      searchVolume: row.searchVolume || 0,
+      cpc: row.cpc,
+      competition: row.competition
+    }))
+    .sort((a, b) => b.searchVolume - a.searchVolume);
+}
+
+// Trimmed view of the source dataset for the model: the selected cluster (or top keywords)
+// and the top organic results for the target keyword
+function summarizeSource(kind: DatasetKind, data: any, keyword: string, cluster?: string[]) {
+  const keywords = extractSourceKeywords(kind, data);
+  const selected = cluster?.length
+    ? keywords.filter(item => cluster.includes(item.keyword))
+    : keywords;
+
+  const serpRows: any[] = kind === DatasetKind.SERP ? (Array.isArray(data) ? data : []) : [];
+  const serp = serpRows.find(result => result.keyword === keyword && result.type !== 'local')
+    || serpRows.find(result => result.type !== 'local');
+
+  return {
+    keywords: selected.slice(0, MAX_SOURCE_KEYWORDS),
+    serpResults: (serp?.items || [])
+      .filter((item: any) => item.type === 'organic')
+      .slice(0, MAX_SOURCE_RESULTS)
+      .map((item: any) => ({
+        position: item.position,
+        title: item.title,
+        domain: item.domain,
+        url: item.url,
+        description: item.description
+      }))
+  };
+}
+
+// Turn the content brief completion into editable sections. The competitor table and the
+// keyword volume chart come straight from the source data rather than from the model.
+function buildBriefSections(
+  output: any,
+  params: GenerateBriefParameters,
+  source: ReturnType<typeof summarizeSource>
+): BriefSection[] {
+  const sections: BriefSection[] = [];
+  const add = (section: Omit<BriefSection, 'id' | 'order'>) => {
+    sections.push({ ...section, id: newSectionId(), order: sections.length } as BriefSection);
+  };
+  const strings = (value: any): string[] => Array.isArray(value) ? value.map(String) : [];
+
+  add({ type: 'heading', content: { text: params.title || output.title || params.keyword, level: 1 } });
+
+  add({
+    type: 'paragraph',
+    title: 'Target',
+    content: {
+      text: [
+        `Primary keyword: ${params.keyword}`,
+        `Content type: ${params.options?.contentType || 'blog'}`,
+        `Target length: ${output.wordCount || params.options?.wordCount || 1500} words`,
+        ...(params.options?.targetAudience ? [`Audience: ${params.options.targetAudience}`] : [])
+      ].join('\n')
+    }
+  });
+
+  if (output.userIntent) {
+    add({ type: 'paragraph', title: 'User intent', content: { text: String(output.userIntent) } });
+  }
+
+  if (output.contentAngle) {
+    add({ type: 'paragraph', title: 'Content angle', content: { text: String(output.contentAngle) } });
+  }
+
+  for (const entry of Array.isArray(output.outline) ? output.outline : []) {
+    if (!entry?.heading) continue;
+    add({ type: 'list', title: String(entry.heading), content: { items: strings(entry.subpoints) } });
+  }
+
+  if (strings(output.primaryKeywords).length > 0) {
+    add({ type: 'list', title: 'Primary keywords', content: { items: strings(output.primaryKeywords) } });
+  }
+
+  if (strings(output.semanticKeywords).length > 0) {
+    add({ type: 'list', title: 'Semantic keywords', content: { items: strings(output.semanticKeywords) } });
+  }
+
+  if (output.competitiveAdvantage) {
+    add({ type: 'paragraph', title: 'How to outrank competitors', content: { text: String(output.competitiveAdvantage) } });
+  }
+
+  if (source.serpResults.length > 0) {
+    add({
+      type: 'table',
+      title: 'Current top results',
+      content: {
+        columns: ['Position', 'Title', 'Domain'],
+        rows: source.serpResults.map((item: any) => [String(item.position ?? ''), item.title || '', item.domain || ''])
+      }
+    });
+  }
+
+  const volumes = source.keywords.filter(item => item.searchVolume > 0).slice(0, 15);
+  if (volumes.length > 0) {
+    add({
+      type: 'chart',
+      title: 'Search volume',
+      content: {
+        chartType: 'bar',
+        labels: volumes.map(item => item.keyword),
+        values: volumes.map(item => item.searchVolume)
+      }
+    });
+  }
+
+  return sections;
+}
+
+function findDuplicateSectionId(sections: Array<{ id: string }>): string | null {
+  const seen = new Set<string>();
+  for (const section of sections) {
+    if (seen.has(section.id)) return section.id;
+    seen.add(section.id);
+  }
+  return null;
+}
+
+// Readable when the user can access the brief's project
+async function findReadableBrief(user: AuthUser, briefId: string) {
+  const brief = await prisma.brief.findUnique({
+    where: { id: briefId },
+    include: {
+      project: {
+        select: { id: true, name: true }
+      },
+      sourceDataset: {
+        select: { id: true, name: true, kind: true, queryId: true }
+      }
+    }
+  });
+
+  if (!brief || !(await getProjectAccess(user, brief.projectId))) {
+    return null;
+  }
+
+  return brief;
+}
+
+// Update query status
+async function updateQueryStatus(queryId: string, status: QueryStatus, error?: string | null, progress?: number) {
+  await prisma.query.update({
+    where: { id: queryId },
+    data: {
+      status,
+      progress,
+      error,
+      completedAt: status === QueryStatus.COMPLETED || status === QueryStatus.FAILED ? new Date() : undefined
+    }
+  });
+}
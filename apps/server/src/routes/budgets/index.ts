@@ -0,0 +1,189 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient, BudgetPeriod, BudgetUnit, UserRole } from '@prisma/client';
+import { BudgetService, nextResetAt } from '../../services/budget.js';
+import { requirePermission } from '../../auth/permissions.js';
+
+const prisma = new PrismaClient();
+const budgetService = new BudgetService(prisma);
+
+interface BudgetRequest {
+  userId?: string;
+  role?: UserRole;
+  unit: BudgetUnit;
+  limit: number;
+  period: BudgetPeriod;
+}
+
+export default async function budgetRoutes(fastify: FastifyInstance) {
+  // Budgets that apply to the current user (their own and their role's)
+  fastify.get('/me', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const budgets = await budgetService.getActiveBudgets(userId);
+      const perQueryLimit = await budgetService.getPerQueryLimit(userId);
+
+      return reply.send({
+        budgets: budgets.map(budget => ({
+          ...budget,
+          scope: budget.userId ? 'user' : 'role'
+        })),
+        perQueryLimit
+      });
+
+    } catch (error) {
+      console.error('Get my budgets error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // List every budget (admins)
+  fastify.get('/', { preHandler: requirePermission('manage:budgets') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { userId, role } = request.query as { userId?: string; role?: UserRole };
+
+      const budgets = await prisma.budget.findMany({
+        where: {
+          ...(userId && { userId }),
+          ...(role && { role })
+        },
+        include: {
+          user: {
+            select: { id: true, email: true, name: true, role: true }
+          }
+        },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      return reply.send({ budgets });
+
+    } catch (error) {
+      console.error('List budgets error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Create a budget for one user or for everyone with a role (admins)
+  fastify.post('/', { preHandler: requirePermission('manage:budgets') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = request.body as BudgetRequest;
+
+      const validationError = validateBudgetRequest(body);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      if (body.userId) {
+        const user = await prisma.user.findUnique({ where: { id: body.userId }, select: { id: true } });
+        if (!user) {
+          return reply.status(404).send({ error: 'User not found' });
+        }
+      }
+
+      const budget = await prisma.budget.create({
+        data: {
+          userId: body.userId || null,
+          role: body.userId ? null : body.role,
+          unit: body.unit,
+          limit: body.limit,
+          period: body.period,
+          resetAt: nextResetAt(body.period)
+        }
+      });
+
+      return reply.status(201).send({ budget });
+
+    } catch (error) {
+      console.error('Create budget error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Change a budget's limit or period (admins); a new period starts counting now
+  fastify.patch('/:budgetId', { preHandler: requirePermission('manage:budgets') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { budgetId } = request.params as { budgetId: string };
+      const { limit, period, resetSpent } = request.body as { limit?: number; period?: BudgetPeriod; resetSpent?: boolean };
+
+      if (limit !== undefined && (typeof limit !== 'number' || limit < 0)) {
+        return reply.status(400).send({ error: 'Limit must be a non-negative number' });
+      }
+
+      if (period !== undefined && !Object.values(BudgetPeriod).includes(period)) {
+        return reply.status(400).send({ error: `Period must be one of ${Object.values(BudgetPeriod).join(', ')}` });
+      }
+
+      const existing = await prisma.budget.findUnique({ where: { id: budgetId } });
+      if (!existing) {
+        return reply.status(404).send({ error: 'Budget not found' });
+      }
+
+      const periodChanged = period !== undefined && period !== existing.period;
+
+      const budget = await prisma.budget.update({
+        where: { id: budgetId },
+        data: {
+          ...(limit !== undefined && { limit }),
+          ...(periodChanged && { period, resetAt: nextResetAt(period!) }),
+          ...((periodChanged || resetSpent) && { spent: 0 })
+        }
+      });
+
+      return reply.send({ budget });
+
+    } catch (error) {
+      console.error('Update budget error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Delete a budget (admins); users fall back to their role budget or the seeded default
+  fastify.delete('/:budgetId', { preHandler: requirePermission('manage:budgets') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { budgetId } = request.params as { budgetId: string };
+
+      const deleted = await prisma.budget.deleteMany({ where: { id: budgetId } });
+      if (deleted.count === 0) {
+        return reply.status(404).send({ error: 'Budget not found' });
+      }
+
+      return reply.send({ message: 'Budget deleted successfully' });
+
+    } catch (error) {
+      console.error('Delete budget error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
+
+// Returns an error message for an invalid request, or null
+function validateBudgetRequest(body: BudgetRequest): string | null {
+  if (!body.userId && !body.role) {
+    return 'Either userId or role is required';
+  }
+
+  if (body.userId && body.role) {
+    return 'A budget applies to a user or a role, not both';
+  }
+
+  if (body.role && !Object.values(UserRole).includes(body.role)) {
+    return `Role must be one of ${Object.values(UserRole).join(', ')}`;
+  }
+
+  if (!Object.values(BudgetUnit).includes(body.unit)) {
+    return `Unit must be one of ${Object.values(BudgetUnit).join(', ')}`;
+  }
+
+  if (!Object.values(BudgetPeriod).includes(body.period)) {
+    return `Period must be one of ${Object.values(BudgetPeriod).join(', ')}`;
+  }
+
+  if (typeof body.limit !== 'number' || body.limit < 0) {
+    return 'Limit must be a non-negative number';
+  }
+
+  return null;
+}
@@ -0,0 +1,117 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import {
+  CtrCurveService,
+  CtrDevice,
+  SerpLayout,
+  CTR_DEVICES,
+  SERP_LAYOUTS,
+  isCtrDevice,
+  isSerpLayout,
+  parseCtrCurveCsv,
+  validateCtrCurve
+} from '../../services/ctr-model.js';
+import { requirePermission } from '../../auth/permissions.js';
+
+const prisma = new PrismaClient();
+const ctrCurveService = new CtrCurveService(prisma);
+
+interface CurveParams {
+  device: string;
+  layout: string;
+}
+
+// Either the CTRs as 0-1 shares, or a CSV upload with one "position,ctr" row per line
+interface CurveUploadRequest {
+  positions?: number[];
+  tail?: number;
+  csv?: string;
+}
+
+export default async function ctrCurveRoutes(fastify: FastifyInstance) {
+  // Every device/layout curve used for traffic estimates, custom or built in
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      if (!request.user?.id) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const curves = await ctrCurveService.listCurves();
+
+      return reply.send({ curves, devices: CTR_DEVICES, layouts: SERP_LAYOUTS });
+
+    } catch (error) {
+      console.error('List CTR curves error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Replace the curve for a device and SERP layout (admins)
+  fastify.put('/:device/:layout', { preHandler: requirePermission('manage:settings') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { device, layout } = request.params as CurveParams;
+      const paramsError = validateCurveParams(device, layout);
+      if (paramsError) {
+        return reply.status(400).send({ error: paramsError });
+      }
+
+      const body = (request.body || {}) as CurveUploadRequest;
+      const curve = typeof body.csv === 'string'
+        ? parseCtrCurveCsv(body.csv)
+        : { positions: body.positions, tail: body.tail };
+
+      const validationError = validateCtrCurve(curve);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      const saved = await ctrCurveService.saveCurve(
+        device as CtrDevice,
+        layout as SerpLayout,
+        { positions: curve.positions!, tail: curve.tail },
+        request.user!.id
+      );
+
+      return reply.send({ curve: saved });
+
+    } catch (error) {
+      console.error('Save CTR curve error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Go back to the built-in curve for a device and SERP layout (admins)
+  fastify.delete('/:device/:layout', { preHandler: requirePermission('manage:settings') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { device, layout } = request.params as CurveParams;
+      const paramsError = validateCurveParams(device, layout);
+      if (paramsError) {
+        return reply.status(400).send({ error: paramsError });
+      }
+
+      const deleted = await ctrCurveService.deleteCurve(device as CtrDevice, layout as SerpLayout);
+      if (!deleted) {
+        return reply.status(404).send({ error: 'No custom curve for this device and layout' });
+      }
+
+      return reply.send({ message: 'Custom curve removed; the built-in curve applies again' });
+
+    } catch (error) {
+      console.error('Delete CTR curve error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
+
+// Returns an error message for an unknown device or layout, or null
+function validateCurveParams(device: string, layout: string): string | null {
+  if (!isCtrDevice(device)) {
+    return `Device must be one of ${CTR_DEVICES.join(', ')}`;
+  }
+
+  if (!isSerpLayout(layout)) {
+    return `Layout must be one of ${SERP_LAYOUTS.join(', ')}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,197 @@
+import { Readable } from 'stream';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient, DatasetKind } from '@prisma/client';
+import { keywordRowsQuerySchema, keywordRowFiltersSchema, exportDatasetSchema } from '@seo-portal/shared';
+import type { AuthUser } from '../../auth/jwt.js';
+import { requirePermission, getProjectAccess, readableQueriesWhere } from '../../auth/permissions.js';
+import { normalizeKeywordRows, queryKeywordRows, InvalidCursorError } from '../../services/dataset-rows.js';
+import { datasetColumns, exportDataset, DatasetExportError } from '../../services/dataset-export.js';
+import { groupKeywordRows, type KeywordCluster } from '../../services/keyword-clustering.js';
+
+const prisma = new PrismaClient();
+
+export default async function datasetRoutes(fastify: FastifyInstance) {
+  // One page of a keyword dataset's rows, filtered and sorted on the server.
+  // Pass the returned nextCursor back with the same sort to get the following page.
+  fastify.get('/:datasetId/rows', { preHandler: requirePermission('read:datasets') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { datasetId } = request.params as { datasetId: string };
+
+      const parsed = keywordRowsQuerySchema.safeParse(request.query || {});
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid row query', details: parsed.error.issues });
+      }
+
+      const dataset = await findReadableDataset(request.user!, datasetId);
+      if (!dataset) {
+        return reply.status(404).send({ error: 'Dataset not found' });
+      }
+
+      if (dataset.kind !== DatasetKind.KEYWORDS) {
+        return reply.status(400).send({ error: `Row queries are only supported for ${DatasetKind.KEYWORDS} datasets` });
+      }
+
+      const rows = normalizeKeywordRows(dataset.data);
+      const page = queryKeywordRows(rows, parsed.data);
+
+      return reply.send({
+        dataset: {
+          id: dataset.id,
+          projectId: dataset.projectId,
+          name: dataset.name,
+          kind: dataset.kind,
+          totalRows: rows.length
+        },
+        ...page
+      });
+
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return reply.status(error.statusCode).send({ error: error.message });
+      }
+      console.error('Get dataset rows error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // A cluster dataset's clusters with their keyword rows, for grouped views. Takes the rows
+  // endpoint's filters and sort (no paging); clusters without a matching keyword are left out.
+  fastify.get('/:datasetId/clusters', { preHandler: requirePermission('read:datasets') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { datasetId } = request.params as { datasetId: string };
+
+      const parsed = keywordRowFiltersSchema.safeParse(request.query || {});
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid row query', details: parsed.error.issues });
+      }
+
+      const dataset = await findReadableDataset(request.user!, datasetId);
+      if (!dataset) {
+        return reply.status(404).send({ error: 'Dataset not found' });
+      }
+
+      if (dataset.kind !== DatasetKind.KEYWORD_CLUSTERS) {
+        return reply.status(400).send({ error: `Clusters are only available for ${DatasetKind.KEYWORD_CLUSTERS} datasets` });
+      }
+
+      const keywordDatasetId = (dataset.meta as any)?.keywordDatasetId;
+      const keywordDataset = keywordDatasetId && await prisma.dataset.findUnique({ where: { id: keywordDatasetId } });
+      if (!keywordDataset) {
+        return reply.status(404).send({ error: 'The clustered keyword dataset no longer exists' });
+      }
+
+      const clusters = dataset.data as unknown as KeywordCluster[];
+      const groups = groupKeywordRows(clusters, normalizeKeywordRows(keywordDataset.data), parsed.data);
+
+      return reply.send({
+        dataset: {
+          id: dataset.id,
+          projectId: dataset.projectId,
+          name: dataset.name,
+          kind: dataset.kind,
+          keywordDatasetId: keywordDataset.id,
+          totalClusters: clusters.length
+        },
+        clusters: groups,
+        total: groups.length
+      });
+
+    } catch (error) {
+      console.error('Get dataset clusters error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Columns available to the export, in their default order
+  fastify.get('/:datasetId/columns', { preHandler: requirePermission('read:datasets') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { datasetId } = request.params as { datasetId: string };
+
+      const dataset = await findReadableDataset(request.user!, datasetId);
+      if (!dataset) {
+        return reply.status(404).send({ error: 'Dataset not found' });
+      }
+
+      return reply.send({ columns: datasetColumns(dataset.kind, dataset.data) });
+
+    } catch (error) {
+      if (error instanceof DatasetExportError) {
+        return reply.status(error.statusCode).send({ error: error.message });
+      }
+      console.error('Get dataset columns error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Download the dataset as CSV or XLSX, streamed as it is written. Takes the columns to
+  // include, the table's current filters and optionally just the selected keywords.
+  fastify.post('/:datasetId/export', { preHandler: requirePermission('export:datasets') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { datasetId } = request.params as { datasetId: string };
+
+      const parsed = exportDatasetSchema.safeParse(request.body || {});
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid export request', details: parsed.error.issues });
+      }
+
+      const dataset = await findReadableDataset(request.user!, datasetId);
+      if (!dataset) {
+        return reply.status(404).send({ error: 'Dataset not found' });
+      }
+
+      const file = exportDataset(dataset, parsed.data);
+
+      return reply
+        .header('Content-Type', file.contentType)
+        .header('Content-Disposition', `attachment; filename="${file.fileName.replace(/"/g, '')}"`)
+        .header('Cache-Control', 'private, no-store')
+        .header('X-Row-Count', String(file.rowCount))
+        .send(Readable.from(file.body));
+
+    } catch (error) {
+      if (error instanceof DatasetExportError) {
+        return reply.status(error.statusCode).send({ error: error.message });
+      }
+      console.error('Export dataset error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
+
+async function findReadableDataset(user: AuthUser, datasetId: string) {
+  const dataset = await prisma.dataset.findUnique({ where: { id: datasetId } });
+  if (!dataset) {
+    return null;
+  }
+
+  // Research run outside a project is readable by whoever can read its query
+  if (!dataset.projectId) {
+    const query = dataset.queryId && await prisma.query.findFirst({
+      where: { id: dataset.queryId, ...readableQueriesWhere(user) },
+      select: { id: true }
+    });
+    return query ? dataset : null;
+  }
+
+  return (await getProjectAccess(user, dataset.projectId)) ? dataset : null;
+}
@@ -0,0 +1,47 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient, ExportStatus } from '@prisma/client';
+import { ExportService, FILE_RENDERERS, verifyDownloadSignature } from '../../services/exports/index.js';
+
+const prisma = new PrismaClient();
+const exportService = new ExportService(prisma);
+
+// Content types by format, so the header doesn't depend on re-rendering the file
+const CONTENT_TYPES: Record<string, string> = {
+  MARKDOWN: 'text/markdown; charset=utf-8',
+  CSV: 'text/csv; charset=utf-8',
+  PDF: 'application/pdf',
+  DOCX: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+export default async function downloadRoutes(fastify: FastifyInstance) {
+  // Signed, expiring export downloads. These are public so links work in a plain browser
+  // tab; the signature from ExportService.downloadUrl() is the authorization.
+  fastify.get('/exports/:exportId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { exportId } = request.params as { exportId: string };
+      const { expires, signature } = request.query as { expires?: string; signature?: string };
+
+      if (!expires || !signature || !verifyDownloadSignature(exportId, Number(expires), signature)) {
+        return reply.status(403).send({ error: 'Download link is invalid or has expired' });
+      }
+
+      const record = await prisma.export.findUnique({ where: { id: exportId } });
+      if (!record || record.status !== ExportStatus.COMPLETED || !record.storageKey || !FILE_RENDERERS[record.format]) {
+        return reply.status(404).send({ error: 'Export file not found' });
+      }
+
+      const data = await exportService.readFile(record.storageKey);
+      const fileName = record.fileName || `export-${record.id}`;
+
+      return reply
+        .header('Content-Type', CONTENT_TYPES[record.format] || 'application/octet-stream')
+        .header('Content-Disposition', `attachment; filename="${fileName.replace(/"/g, '')}"`)
+        .header('Cache-Control', 'private, no-store')
+        .send(data);
+
+    } catch (error) {
+      console.error('Export download error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
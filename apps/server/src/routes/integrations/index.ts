@@ -0,0 +1,170 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import getEnvConfig from '../../config/env.js';
+import {
+  ExportCredentialService,
+  PROVIDER_SLUGS,
+  providerFromSlug,
+  providerLabel,
+  isProviderConfigured,
+  webReturnPath,
+  OAUTH_STATE_TTL
+} from '../../services/export-credentials.js';
+
+const env = getEnvConfig();
+const prisma = new PrismaClient();
+const credentialService = new ExportCredentialService(prisma);
+
+// Ties a connect flow to the browser that started it; scoped to the provider's callback
+function nonceCookie(slug: string) {
+  return {
+    name: `oauth_nonce_${slug}`,
+    options: {
+      path: `/api/integrations/${slug}/callback`,
+      httpOnly: true,
+      // Lax, so the cookie comes along on the provider's top-level redirect back to us
+      sameSite: 'lax' as const,
+      secure: env.NODE_ENV === 'production'
+    }
+  };
+}
+
+function webRedirect(returnTo: string, params: Record<string, string>): string {
+  const url = new URL(webReturnPath(returnTo), env.WEB_BASE_URL);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+export default async function integrationRoutes(fastify: FastifyInstance) {
+  // Export integrations and whether the current user has connected them
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const connected = await credentialService.list(userId);
+
+      return reply.send({
+        integrations: Object.entries(PROVIDER_SLUGS).map(([slug, provider]) => {
+          const credential = connected.find(item => item.provider === provider);
+          return {
+            provider: slug,
+            label: providerLabel(provider),
+            configured: isProviderConfigured(provider),
+            connected: !!credential,
+            accountName: credential?.accountName || null,
+            connectedAt: credential?.createdAt || null
+          };
+        })
+      });
+
+    } catch (error) {
+      console.error('List integrations error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Authorization URL to send the browser to; returnTo is the web path to come back to
+  fastify.get('/:provider/connect', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const slug = (request.params as { provider: string }).provider;
+      const provider = providerFromSlug(slug);
+      if (!provider) {
+        return reply.status(404).send({ error: 'Unknown integration' });
+      }
+
+      if (!isProviderConfigured(provider)) {
+        return reply.status(400).send({ error: `${providerLabel(provider)} exports are not configured on this server` });
+      }
+
+      const { returnTo } = request.query as { returnTo?: string };
+      const { state, nonce } = await credentialService.createOAuthState(userId, provider, returnTo);
+
+      const cookie = nonceCookie(slug);
+      reply.setCookie(cookie.name, nonce, { ...cookie.options, maxAge: OAUTH_STATE_TTL / 1000 });
+
+      return reply.send({ url: credentialService.authorizeUrl(provider, state) });
+
+    } catch (error) {
+      console.error('Connect integration error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // OAuth redirect target: store the user's tokens and send them back to the web app.
+  // Public (see auth/plugin.ts) because the provider redirects the browser here without our token.
+  fastify.get('/:provider/callback', async (request: FastifyRequest, reply: FastifyReply) => {
+    const slug = (request.params as { provider: string }).provider;
+    const provider = providerFromSlug(slug);
+    const { code, state, error } = request.query as { code?: string; state?: string; error?: string };
+
+    if (!provider || !state) {
+      return reply.status(400).send({ error: 'Invalid or expired authorization request' });
+    }
+
+    // The nonce is good for this one attempt, whatever its outcome
+    const cookie = nonceCookie(slug);
+    const nonce = request.cookies[cookie.name];
+    reply.clearCookie(cookie.name, cookie.options);
+
+    let oauthState;
+    try {
+      oauthState = await credentialService.consumeOAuthState(state, provider, nonce);
+    } catch (error) {
+      console.error(`${providerLabel(provider)} OAuth state error:`, error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+
+    if (!oauthState) {
+      return reply.status(400).send({ error: 'Invalid or expired authorization request' });
+    }
+
+    if (error || !code) {
+      return reply.redirect(webRedirect(oauthState.returnTo, { integration: slug, status: 'denied' }));
+    }
+
+    try {
+      await credentialService.completeOAuth(oauthState.userId, provider, code);
+      return reply.redirect(webRedirect(oauthState.returnTo, { integration: slug, status: 'connected' }));
+
+    } catch (error) {
+      console.error(`${providerLabel(provider)} OAuth callback error:`, error);
+      return reply.redirect(webRedirect(oauthState.returnTo, { integration: slug, status: 'error' }));
+    }
+  });
+
+  // Disconnect; stored tokens are deleted
+  fastify.delete('/:provider', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const provider = providerFromSlug((request.params as { provider: string }).provider);
+      if (!provider) {
+        return reply.status(404).send({ error: 'Unknown integration' });
+      }
+
+      const removed = await credentialService.remove(userId, provider);
+      if (!removed) {
+        return reply.status(404).send({ error: `${providerLabel(provider)} is not connected` });
+      }
+
+      return reply.send({ message: `${providerLabel(provider)} disconnected` });
+
+    } catch (error) {
+      console.error('Disconnect integration error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
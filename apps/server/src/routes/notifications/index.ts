@@ -0,0 +1,102 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { notificationsQuerySchema } from '@seo-portal/shared';
+
+const prisma = new PrismaClient();
+
+export default async function notificationRoutes(fastify: FastifyInstance) {
+  // The user's in-app notifications, newest first. Pass nextCursor back to get older ones.
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const parsed = notificationsQuerySchema.safeParse(request.query || {});
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid query parameters', details: parsed.error.issues });
+      }
+
+      const { unreadOnly, limit, cursor } = parsed.data;
+      const where = { userId, ...(unreadOnly && { readAt: null }) };
+
+      const [notifications, unreadCount] = await Promise.all([
+        prisma.notification.findMany({
+          where,
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          take: limit + 1,
+          ...(cursor && { cursor: { id: cursor }, skip: 1 })
+        }),
+        prisma.notification.count({ where: { userId, readAt: null } })
+      ]);
+
+      const page = notifications.slice(0, limit);
+
+      return reply.send({
+        notifications: page.map(notification => ({
+          id: notification.id,
+          projectId: notification.projectId,
+          title: notification.title,
+          message: notification.message,
+          link: notification.link,
+          read: notification.readAt !== null,
+          createdAt: notification.createdAt
+        })),
+        unreadCount,
+        nextCursor: notifications.length > limit ? page[page.length - 1].id : null
+      });
+
+    } catch (error) {
+      console.error('List notifications error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Mark one notification read
+  fastify.post('/:notificationId/read', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { notificationId } = request.params as { notificationId: string };
+
+      const updated = await prisma.notification.updateMany({
+        where: { id: notificationId, userId, readAt: null },
+        data: { readAt: new Date() }
+      });
+      if (updated.count === 0 && !(await prisma.notification.findFirst({ where: { id: notificationId, userId } }))) {
+        return reply.status(404).send({ error: 'Notification not found' });
+      }
+
+      return reply.status(204).send();
+
+    } catch (error) {
+      console.error('Read notification error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Mark all of the user's notifications read
+  fastify.post('/read-all', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const updated = await prisma.notification.updateMany({
+        where: { userId, readAt: null },
+        data: { readAt: new Date() }
+      });
+
+      return reply.send({ updated: updated.count });
+
+    } catch (error) {
+      console.error('Read all notifications error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
@@ -0,0 +1,404 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient, ProjectRole } from '@prisma/client';
+import { createProjectSchema, updateProjectSchema } from '@seo-portal/shared';
+import { ProjectService, hasProjectRole } from '../../services/projects.js';
+import { requirePermission, hasPermission, sendForbidden, getProjectAccess } from '../../auth/permissions.js';
+import projectMemberRoutes from './members.js';
+import rankTrackingRoutes from './rank-tracking.js';
+import rankAlertRoutes from './rank-alerts.js';
+
+const prisma = new PrismaClient();
+const projectService = new ProjectService(prisma);
+
+export default async function projectRoutes(fastify: FastifyInstance) {
+  // Register member management under /api/projects/:projectId/members
+  await fastify.register(projectMemberRoutes);
+
+  // Register rank tracking under /api/projects/:projectId/rank-trackers
+  await fastify.register(rankTrackingRoutes);
+
+  // Register alert rules under /api/projects/:projectId/rank-trackers/:trackerId/alerts
+  await fastify.register(rankAlertRoutes);
+
+  // List projects the user belongs to
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      // Admins see every project and act as its owner
+      const manageAll = hasPermission(request.user!.role, 'manage:projects');
+
+      const projects = await prisma.project.findMany({
+        where: manageAll ? {} : {
+          OR: [
+            { ownerId: userId },
+            { members: { some: { userId } } }
+          ]
+        },
+        include: {
+          members: {
+            where: { userId },
+            select: { role: true }
+          },
+          _count: {
+            select: {
+              members: true,
+              queries: true,
+              datasets: true,
+              briefs: true
+            }
+          }
+        },
+        orderBy: {
+          updatedAt: 'desc'
+        }
+      });
+
+      return reply.send({
+        projects: projects.map(project => ({
+          id: project.id,
+          name: project.name,
+          description: project.description,
+          ownerId: project.ownerId,
+          role: project.ownerId === userId || manageAll ? ProjectRole.OWNER : project.members[0]?.role,
+          createdAt: project.createdAt,
+          updatedAt: project.updatedAt,
+          counts: project._count
+        }))
+      });
+
+    } catch (error) {
+      console.error('List projects error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Create a project owned by the current user
+  fastify.post('/', { preHandler: requirePermission('create:projects') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const parsed = createProjectSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid project', details: parsed.error.issues });
+      }
+
+      const project = await projectService.createProject(userId, parsed.data);
+
+      return reply.status(201).send({ project });
+
+    } catch (error) {
+      console.error('Create project error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get a project with its members
+  fastify.get('/:projectId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId } = request.params as { projectId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        include: {
+          members: {
+            include: {
+              user: {
+                select: { id: true, email: true, name: true }
+              }
+            },
+            orderBy: { createdAt: 'asc' }
+          },
+          _count: {
+            select: {
+              queries: true,
+              datasets: true,
+              briefs: true
+            }
+          }
+        }
+      });
+
+      if (!project) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      return reply.send({
+        project: {
+          id: project.id,
+          name: project.name,
+          description: project.description,
+          ownerId: project.ownerId,
+          createdAt: project.createdAt,
+          updatedAt: project.updatedAt,
+          counts: project._count
+        },
+        role: access.role,
+        members: project.members.map(member => ({
+          userId: member.userId,
+          email: member.user.email,
+          name: member.user.name,
+          role: member.role,
+          createdAt: member.createdAt
+        }))
+      });
+
+    } catch (error) {
+      console.error('Get project error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Rename or re-describe a project (owner and editors)
+  fastify.patch('/:projectId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId } = request.params as { projectId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      if (!hasProjectRole(access.role, ProjectRole.EDITOR)) {
+        return sendForbidden(reply, 'Only project owners and editors can update a project');
+      }
+
+      const parsed = updateProjectSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid project', details: parsed.error.issues });
+      }
+
+      const project = await prisma.project.update({
+        where: { id: projectId },
+        data: parsed.data
+      });
+
+      return reply.send({ project });
+
+    } catch (error) {
+      console.error('Update project error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Delete a project and everything in it (owner only)
+  fastify.delete('/:projectId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId } = request.params as { projectId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      if (access.role !== ProjectRole.OWNER) {
+        return sendForbidden(reply, 'Only the project owner can delete a project');
+      }
+
+      // Members, queries, datasets and briefs cascade with the project
+      await prisma.project.delete({ where: { id: projectId } });
+
+      return reply.send({ message: 'Project deleted successfully' });
+
+    } catch (error) {
+      console.error('Delete project error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Research queries run inside the project, by any member
+  fastify.get('/:projectId/queries', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId } = request.params as { projectId: string };
+      const { status, type, limit = 50, offset = 0 } = request.query as any;
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      const where = {
+        projectId,
+        ...(status && { status }),
+        ...(type && { type })
+      };
+
+      const [queries, total] = await Promise.all([
+        prisma.query.findMany({
+          where,
+          include: {
+            _count: {
+              select: {
+                tasks: true,
+                datasets: true
+              }
+            }
+          },
+          orderBy: {
+            createdAt: 'desc'
+          },
+          take: Number(limit),
+          skip: Number(offset)
+        }),
+        prisma.query.count({ where })
+      ]);
+
+      return reply.send({
+        queries: queries.map(query => ({
+          id: query.id,
+          type: query.type,
+          status: query.status,
+          progress: query.progress,
+          createdBy: query.createdBy,
+          createdAt: query.createdAt,
+          completedAt: query.completedAt,
+          tasksCount: query._count.tasks,
+          datasetsCount: query._count.datasets,
+          parameters: query.payload
+        })),
+        total,
+        hasMore: Number(offset) + queries.length < total
+      });
+
+    } catch (error) {
+      console.error('List project queries error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Datasets produced in the project (metadata only; rows are fetched per dataset)
+  fastify.get('/:projectId/datasets', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId } = request.params as { projectId: string };
+      const { kind, limit = 50, offset = 0 } = request.query as any;
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      const where = {
+        projectId,
+        ...(kind && { kind })
+      };
+
+      const [datasets, total] = await Promise.all([
+        prisma.dataset.findMany({
+          where,
+          select: {
+            id: true,
+            queryId: true,
+            name: true,
+            kind: true,
+            meta: true,
+            createdAt: true,
+            updatedAt: true
+          },
+          orderBy: {
+            createdAt: 'desc'
+          },
+          take: Number(limit),
+          skip: Number(offset)
+        }),
+        prisma.dataset.count({ where })
+      ]);
+
+      return reply.send({
+        datasets,
+        total,
+        hasMore: Number(offset) + datasets.length < total
+      });
+
+    } catch (error) {
+      console.error('List project datasets error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Content briefs in the project
+  fastify.get('/:projectId/briefs', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId } = request.params as { projectId: string };
+      const { limit = 50, offset = 0 } = request.query as any;
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      const [briefs, total] = await Promise.all([
+        prisma.brief.findMany({
+          where: { projectId },
+          select: {
+            id: true,
+            title: true,
+            version: true,
+            sourceDatasetId: true,
+            createdAt: true,
+            updatedAt: true,
+            creator: {
+              select: { id: true, name: true, email: true }
+            }
+          },
+          orderBy: {
+            updatedAt: 'desc'
+          },
+          take: Number(limit),
+          skip: Number(offset)
+        }),
+        prisma.brief.count({ where: { projectId } })
+      ]);
+
+      return reply.send({
+        briefs,
+        total,
+        hasMore: Number(offset) + briefs.length < total
+      });
+
+    } catch (error) {
+      console.error('List project briefs error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
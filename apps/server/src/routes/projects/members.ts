@@ -0,0 +1,219 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient, ProjectRole } from '@prisma/client';
+import { sendForbidden, getProjectAccess } from '../../auth/permissions.js';
+
+const prisma = new PrismaClient();
+
+// Roles that can be granted through the members API; ownership stays with Project.ownerId
+const ASSIGNABLE_ROLES: ProjectRole[] = [ProjectRole.EDITOR, ProjectRole.VIEWER];
+
+interface AddMemberRequest {
+  email: string;
+  role: ProjectRole;
+}
+
+export default async function projectMemberRoutes(fastify: FastifyInstance) {
+  // List project members
+  fastify.get('/:projectId/members', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId } = request.params as { projectId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      const members = await prisma.projectMember.findMany({
+        where: { projectId },
+        include: {
+          user: {
+            select: { id: true, email: true, name: true }
+          }
+        },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      return reply.send({
+        members: members.map(member => ({
+          userId: member.userId,
+          email: member.user.email,
+          name: member.user.name,
+          role: member.role,
+          createdAt: member.createdAt
+        }))
+      });
+
+    } catch (error) {
+      console.error('List project members error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Invite an existing user to the project by email (owner only)
+  fastify.post('/:projectId/members', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId } = request.params as { projectId: string };
+      const { email, role = ProjectRole.VIEWER } = request.body as AddMemberRequest;
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      if (access.role !== ProjectRole.OWNER) {
+        return sendForbidden(reply, 'Only the project owner can invite members');
+      }
+
+      if (!email || typeof email !== 'string') {
+        return reply.status(400).send({ error: 'Email is required' });
+      }
+
+      if (!ASSIGNABLE_ROLES.includes(role)) {
+        return reply.status(400).send({ error: `Role must be one of ${ASSIGNABLE_ROLES.join(', ')}` });
+      }
+
+      // Accounts are created on first SSO sign-in, so only existing users can be invited
+      const invitee = await prisma.user.findUnique({
+        where: { email: email.trim() },
+        select: { id: true, email: true, name: true }
+      });
+
+      if (!invitee) {
+        return reply.status(404).send({ error: 'No user with that email. They need to sign in once before they can be invited.' });
+      }
+
+      const existing = await prisma.projectMember.findUnique({
+        where: { projectId_userId: { projectId, userId: invitee.id } }
+      });
+
+      if (existing) {
+        return reply.status(409).send({ error: 'User is already a member of this project' });
+      }
+
+      const member = await prisma.projectMember.create({
+        data: {
+          projectId,
+          userId: invitee.id,
+          role
+        }
+      });
+
+      return reply.status(201).send({
+        member: {
+          userId: invitee.id,
+          email: invitee.email,
+          name: invitee.name,
+          role: member.role,
+          createdAt: member.createdAt
+        }
+      });
+
+    } catch (error) {
+      console.error('Add project member error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Change a member's role (owner only)
+  fastify.patch('/:projectId/members/:memberId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId, memberId } = request.params as { projectId: string; memberId: string };
+      const { role } = request.body as { role: ProjectRole };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      if (access.role !== ProjectRole.OWNER) {
+        return sendForbidden(reply, 'Only the project owner can change member roles');
+      }
+
+      if (!ASSIGNABLE_ROLES.includes(role)) {
+        return reply.status(400).send({ error: `Role must be one of ${ASSIGNABLE_ROLES.join(', ')}` });
+      }
+
+      if (memberId === access.ownerId) {
+        return reply.status(400).send({ error: "The project owner's role cannot be changed" });
+      }
+
+      const member = await prisma.projectMember.findUnique({
+        where: { projectId_userId: { projectId, userId: memberId } }
+      });
+
+      if (!member) {
+        return reply.status(404).send({ error: 'Member not found' });
+      }
+
+      const updated = await prisma.projectMember.update({
+        where: { id: member.id },
+        data: { role }
+      });
+
+      return reply.send({
+        member: {
+          userId: updated.userId,
+          role: updated.role
+        }
+      });
+
+    } catch (error) {
+      console.error('Update project member error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Remove a member (owner), or leave the project (any member)
+  fastify.delete('/:projectId/members/:memberId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId, memberId } = request.params as { projectId: string; memberId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      if (access.role !== ProjectRole.OWNER && memberId !== userId) {
+        return sendForbidden(reply, 'Only the project owner can remove other members');
+      }
+
+      if (memberId === access.ownerId) {
+        return reply.status(400).send({ error: 'The project owner cannot be removed' });
+      }
+
+      const deleted = await prisma.projectMember.deleteMany({
+        where: { projectId, userId: memberId }
+      });
+
+      if (deleted.count === 0) {
+        return reply.status(404).send({ error: 'Member not found' });
+      }
+
+      return reply.send({ message: 'Member removed successfully' });
+
+    } catch (error) {
+      console.error('Remove project member error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
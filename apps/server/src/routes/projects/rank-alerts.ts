@@ -0,0 +1,278 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient, ProjectRole, RankAlertType, AlertChannel } from '@prisma/client';
+import { createRankAlertRuleSchema, updateRankAlertRuleSchema } from '@seo-portal/shared';
+import { AlertService } from '../../services/alerts.js';
+import { hasProjectRole } from '../../services/projects.js';
+import { normalizeDomain } from '../../services/rank-tracking.js';
+import { getProjectAccess, sendForbidden } from '../../auth/permissions.js';
+
+const prisma = new PrismaClient();
+const alertService = new AlertService(prisma);
+
+// Alert events shown with a tracker's rules
+const RECENT_EVENTS = 20;
+
+interface RuleSettings {
+  type: RankAlertType;
+  competitorDomain?: string | null;
+  channels: AlertChannel[];
+  webhookUrl?: string | null;
+}
+
+// Settings the schema can't check on its own, since they depend on the rule type and channels
+function ruleProblem(rule: RuleSettings): string | null {
+  if (rule.type === RankAlertType.COMPETITOR_OVERTAKE && !rule.competitorDomain) {
+    return 'Competitor alerts need a competitor domain';
+  }
+  if (rule.channels.includes(AlertChannel.WEBHOOK) && !rule.webhookUrl) {
+    return 'Webhook delivery needs a webhook URL';
+  }
+  return null;
+}
+
+function serializeRule(rule: any) {
+  return {
+    id: rule.id,
+    trackerId: rule.trackerId,
+    name: rule.name,
+    type: rule.type,
+    threshold: rule.threshold,
+    competitorDomain: rule.competitorDomain,
+    serpFeature: rule.serpFeature,
+    channels: rule.channels,
+    emailRecipients: rule.emailRecipients,
+    webhookUrl: rule.webhookUrl,
+    active: rule.active,
+    lastTriggeredAt: rule.events?.[0]?.createdAt ?? null,
+    createdAt: rule.createdAt
+  };
+}
+
+export default async function rankAlertRoutes(fastify: FastifyInstance) {
+  // A tracker's alert rules and the alerts they sent recently
+  fastify.get('/:projectId/rank-trackers/:trackerId/alerts', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId, trackerId } = request.params as { projectId: string; trackerId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      const tracker = await prisma.rankTracker.findFirst({ where: { id: trackerId, projectId }, select: { id: true } });
+      if (!tracker) {
+        return reply.status(404).send({ error: 'Rank tracker not found' });
+      }
+
+      const [rules, events] = await Promise.all([
+        prisma.rankAlertRule.findMany({
+          where: { trackerId },
+          include: { events: { orderBy: { createdAt: 'desc' }, take: 1, select: { createdAt: true } } },
+          orderBy: { createdAt: 'asc' }
+        }),
+        prisma.rankAlertEvent.findMany({
+          where: { rule: { trackerId } },
+          include: { rule: { select: { name: true, type: true } } },
+          orderBy: { createdAt: 'desc' },
+          take: RECENT_EVENTS
+        })
+      ]);
+
+      return reply.send({
+        rules: rules.map(serializeRule),
+        events: events.map(event => ({
+          id: event.id,
+          ruleId: event.ruleId,
+          ruleName: event.rule.name,
+          type: event.rule.type,
+          checkId: event.checkId,
+          triggers: event.triggers,
+          deliveries: event.deliveries,
+          createdAt: event.createdAt
+        }))
+      });
+
+    } catch (error) {
+      console.error('List rank alerts error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Add an alert rule (owner and editors)
+  fastify.post('/:projectId/rank-trackers/:trackerId/alerts', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId, trackerId } = request.params as { projectId: string; trackerId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      if (!hasProjectRole(access.role, ProjectRole.EDITOR)) {
+        return sendForbidden(reply, 'Only project owners and editors can manage rank alerts', ProjectRole.EDITOR);
+      }
+
+      const parsed = createRankAlertRuleSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid alert rule', details: parsed.error.issues });
+      }
+
+      const data = {
+        ...parsed.data,
+        type: parsed.data.type as RankAlertType,
+        channels: Array.from(new Set(parsed.data.channels)) as AlertChannel[],
+        competitorDomain: parsed.data.competitorDomain ? normalizeDomain(parsed.data.competitorDomain) : null
+      };
+      const problem = ruleProblem(data);
+      if (problem) {
+        return reply.status(400).send({ error: problem });
+      }
+
+      const tracker = await prisma.rankTracker.findFirst({ where: { id: trackerId, projectId }, select: { id: true } });
+      if (!tracker) {
+        return reply.status(404).send({ error: 'Rank tracker not found' });
+      }
+
+      const rule = await prisma.rankAlertRule.create({
+        data: { ...data, trackerId, createdBy: userId }
+      });
+
+      return reply.status(201).send({ rule: serializeRule(rule) });
+
+    } catch (error) {
+      console.error('Create rank alert error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Change an alert rule's settings, or pause it (owner and editors)
+  fastify.patch('/:projectId/rank-trackers/:trackerId/alerts/:ruleId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId, trackerId, ruleId } = request.params as { projectId: string; trackerId: string; ruleId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      if (!hasProjectRole(access.role, ProjectRole.EDITOR)) {
+        return sendForbidden(reply, 'Only project owners and editors can manage rank alerts', ProjectRole.EDITOR);
+      }
+
+      const parsed = updateRankAlertRuleSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid alert rule', details: parsed.error.issues });
+      }
+
+      const rule = await prisma.rankAlertRule.findFirst({ where: { id: ruleId, trackerId, tracker: { projectId } } });
+      if (!rule) {
+        return reply.status(404).send({ error: 'Alert rule not found' });
+      }
+
+      const changes = {
+        ...parsed.data,
+        ...(parsed.data.channels && { channels: Array.from(new Set(parsed.data.channels)) as AlertChannel[] }),
+        ...(parsed.data.competitorDomain && { competitorDomain: normalizeDomain(parsed.data.competitorDomain) })
+      };
+      const problem = ruleProblem({ ...rule, ...changes });
+      if (problem) {
+        return reply.status(400).send({ error: problem });
+      }
+
+      const updated = await prisma.rankAlertRule.update({
+        where: { id: ruleId },
+        data: changes
+      });
+
+      return reply.send({ rule: serializeRule(updated) });
+
+    } catch (error) {
+      console.error('Update rank alert error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Delete an alert rule and its history (owner and editors)
+  fastify.delete('/:projectId/rank-trackers/:trackerId/alerts/:ruleId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId, trackerId, ruleId } = request.params as { projectId: string; trackerId: string; ruleId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      if (!hasProjectRole(access.role, ProjectRole.EDITOR)) {
+        return sendForbidden(reply, 'Only project owners and editors can manage rank alerts', ProjectRole.EDITOR);
+      }
+
+      const deleted = await prisma.rankAlertRule.deleteMany({ where: { id: ruleId, trackerId, tracker: { projectId } } });
+      if (deleted.count === 0) {
+        return reply.status(404).send({ error: 'Alert rule not found' });
+      }
+
+      return reply.status(204).send();
+
+    } catch (error) {
+      console.error('Delete rank alert error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Send a sample alert through the rule's channels, to check email and webhook settings
+  fastify.post('/:projectId/rank-trackers/:trackerId/alerts/:ruleId/test', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId, trackerId, ruleId } = request.params as { projectId: string; trackerId: string; ruleId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      if (!hasProjectRole(access.role, ProjectRole.EDITOR)) {
+        return sendForbidden(reply, 'Only project owners and editors can manage rank alerts', ProjectRole.EDITOR);
+      }
+
+      const rule = await prisma.rankAlertRule.findFirst({
+        where: { id: ruleId, trackerId, tracker: { projectId } },
+        include: { tracker: { select: { id: true, name: true, projectId: true } } }
+      });
+      if (!rule) {
+        return reply.status(404).send({ error: 'Alert rule not found' });
+      }
+
+      const deliveries = await alertService.sendTest(rule, { id: userId, email: request.user!.email });
+
+      return reply.send({ deliveries });
+
+    } catch (error) {
+      console.error('Test rank alert error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
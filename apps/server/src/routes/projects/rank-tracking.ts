@@ -0,0 +1,603 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient, ProjectRole, RankCheckFrequency } from '@prisma/client';
+import {
+  createRankTrackerSchema,
+  updateRankTrackerSchema,
+  addTrackedKeywordsSchema,
+  runRankCheckSchema,
+  rankTrackerQuerySchema
+} from '@seo-portal/shared';
+import { BudgetService } from '../../services/budget.js';
+import { estimateRankCheck } from '../../services/cost-estimate.js';
+import { hasProjectRole } from '../../services/projects.js';
+import {
+  MAX_TRACKED_KEYWORDS,
+  normalizeDomain,
+  normalizeTrackedKeywords,
+  compareRanks,
+  rankMovers,
+  nextCheckAfter,
+  activeCheckWhere,
+  startRankCheck,
+  RankCheckInProgressError,
+  type RankChange
+} from '../../services/rank-tracking.js';
+import { requirePermission, sendForbidden, getProjectAccess } from '../../auth/permissions.js';
+
+const prisma = new PrismaClient();
+const budgetService = new BudgetService(prisma);
+
+// Sends the 402/409 budget response and returns true when a check costing this much may not start
+async function rejectOverBudget(
+  reply: FastifyReply,
+  userId: string,
+  plan: { keywords: number; newKeywords: number },
+  confirmed?: boolean
+): Promise<boolean> {
+  const estimate = estimateRankCheck(plan);
+  const budgetReview = await budgetService.reviewRequest(userId, {
+    estimatedUsd: estimate.totals.usd,
+    confirmed
+  });
+
+  if (budgetReview.decision === 'reject') {
+    reply.status(402).send({ error: 'Budget exceeded', overruns: budgetReview.overruns });
+    return true;
+  }
+
+  if (budgetReview.decision === 'confirm') {
+    reply.status(409).send({
+      error: 'This check may exceed your budget',
+      requiresConfirmation: true,
+      estimate,
+      overruns: budgetReview.overruns,
+      perQueryLimit: budgetReview.perQueryLimit
+    });
+    return true;
+  }
+
+  return false;
+}
+
+function serializeTracker(tracker: any) {
+  return {
+    id: tracker.id,
+    projectId: tracker.projectId,
+    name: tracker.name,
+    targetDomain: tracker.targetDomain,
+    location: tracker.location,
+    language: tracker.language,
+    device: tracker.device,
+    frequency: tracker.frequency,
+    active: tracker.active,
+    nextCheckAt: tracker.nextCheckAt,
+    lastCheckedAt: tracker.lastCheckedAt,
+    createdBy: tracker.createdBy,
+    createdAt: tracker.createdAt
+  };
+}
+
+function serializeCheck(check: any) {
+  return {
+    id: check.id,
+    checkedAt: check.checkedAt,
+    keywordCount: check.keywordCount,
+    rankedKeywords: check.rankedKeywords,
+    top3: check.top3,
+    top10: check.top10,
+    averagePosition: check.averagePosition,
+    visibility: check.visibility,
+    estimatedTraffic: check.estimatedTraffic
+  };
+}
+
+export default async function rankTrackingRoutes(fastify: FastifyInstance) {
+  // List the project's rank trackers with their latest check
+  fastify.get('/:projectId/rank-trackers', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId } = request.params as { projectId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      const trackers = await prisma.rankTracker.findMany({
+        where: { projectId },
+        include: {
+          checks: {
+            orderBy: { checkedAt: 'desc' },
+            take: 1
+          },
+          _count: {
+            select: { keywords: true }
+          }
+        },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      return reply.send({
+        trackers: trackers.map(tracker => ({
+          ...serializeTracker(tracker),
+          keywordCount: tracker._count.keywords,
+          latestCheck: tracker.checks[0] ? serializeCheck(tracker.checks[0]) : null
+        }))
+      });
+
+    } catch (error) {
+      console.error('List rank trackers error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Start tracking keywords for a domain; the first check runs straight away
+  fastify.post('/:projectId/rank-trackers', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId } = request.params as { projectId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      if (!hasProjectRole(access.role, ProjectRole.EDITOR)) {
+        return sendForbidden(reply, 'Project viewers cannot track keywords', ProjectRole.EDITOR);
+      }
+
+      const parsed = createRankTrackerSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid rank tracker', details: parsed.error.issues });
+      }
+
+      const targetDomain = normalizeDomain(parsed.data.targetDomain);
+      if (!targetDomain.includes('.')) {
+        return reply.status(400).send({ error: 'Target domain must be a domain such as example.com' });
+      }
+
+      const keywords = normalizeTrackedKeywords(parsed.data.keywords);
+      if (await rejectOverBudget(reply, userId, { keywords: keywords.length, newKeywords: keywords.length }, parsed.data.confirmOverBudget)) {
+        return;
+      }
+
+      const now = new Date();
+      const tracker = await prisma.rankTracker.create({
+        data: {
+          projectId,
+          name: parsed.data.name,
+          targetDomain,
+          location: parsed.data.location,
+          language: parsed.data.language,
+          device: parsed.data.device,
+          frequency: parsed.data.frequency,
+          nextCheckAt: nextCheckAfter(parsed.data.frequency, now, now),
+          createdBy: userId,
+          keywords: {
+            create: keywords.map(keyword => ({ keyword }))
+          }
+        }
+      });
+
+      const query = await startRankCheck(tracker.id, userId, { confirmOverBudget: parsed.data.confirmOverBudget });
+
+      return reply.status(201).send({
+        tracker: { ...serializeTracker(tracker), keywordCount: keywords.length },
+        queryId: query.id
+      });
+
+    } catch (error) {
+      console.error('Create rank tracker error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Tracker dashboard: latest positions with their change, trend series and biggest movers
+  fastify.get('/:projectId/rank-trackers/:trackerId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId, trackerId } = request.params as { projectId: string; trackerId: string };
+
+      const parsed = rankTrackerQuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid query parameters', details: parsed.error.issues });
+      }
+      const { compareDays, days } = parsed.data;
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      const tracker = await prisma.rankTracker.findFirst({
+        where: { id: trackerId, projectId },
+        include: {
+          keywords: { orderBy: { keyword: 'asc' } }
+        }
+      });
+
+      if (!tracker) {
+        return reply.status(404).send({ error: 'Rank tracker not found' });
+      }
+
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const [trend, latest, activeCheck] = await Promise.all([
+        prisma.rankCheck.findMany({
+          where: { trackerId, checkedAt: { gte: since } },
+          orderBy: { checkedAt: 'asc' }
+        }),
+        prisma.rankCheck.findFirst({
+          where: { trackerId },
+          orderBy: { checkedAt: 'desc' }
+        }),
+        prisma.query.findFirst({
+          where: activeCheckWhere(trackerId),
+          select: { id: true, status: true, progress: true }
+        })
+      ]);
+
+      // The last check at least compareDays before the latest, or the first check when the
+      // tracker is younger than that
+      const comparison = latest && (
+        await prisma.rankCheck.findFirst({
+          where: { trackerId, checkedAt: { lte: new Date(latest.checkedAt.getTime() - compareDays * 24 * 60 * 60 * 1000) } },
+          orderBy: { checkedAt: 'desc' }
+        }) ||
+        await prisma.rankCheck.findFirst({
+          where: { trackerId, id: { not: latest.id } },
+          orderBy: { checkedAt: 'asc' }
+        })
+      );
+
+      const positions = latest ? await prisma.rankPosition.findMany({
+        where: { checkId: { in: comparison ? [latest.id, comparison.id] : [latest.id] } },
+        select: { checkId: true, trackedKeywordId: true, position: true, url: true, serpFeatures: true }
+      }) : [];
+      const positionsOf = (checkId: string) => new Map<string, { position: number | null; url: string | null; serpFeatures: unknown }>(positions
+        .filter(position => position.checkId === checkId)
+        .map(position => [position.trackedKeywordId, position]));
+
+      const best = await prisma.rankPosition.groupBy({
+        by: ['trackedKeywordId'],
+        where: { check: { trackerId } },
+        _min: { position: true }
+      });
+      const bestPositions = new Map(best.map(row => [row.trackedKeywordId, row._min.position]));
+
+      const changes = latest
+        ? compareRanks(tracker.keywords, positionsOf(latest.id), comparison ? positionsOf(comparison.id) : undefined)
+        : [];
+      const changeOf = new Map(changes.map(change => [change.trackedKeywordId, change]));
+      const latestPositions = latest ? positionsOf(latest.id) : new Map();
+
+      return reply.send({
+        tracker: { ...serializeTracker(tracker), keywordCount: tracker.keywords.length },
+        role: access.role,
+        latestCheck: latest ? serializeCheck(latest) : null,
+        comparisonCheck: comparison ? serializeCheck(comparison) : null,
+        activeCheck: activeCheck ? { queryId: activeCheck.id, status: activeCheck.status, progress: activeCheck.progress } : null,
+        trend: trend.map(serializeCheck),
+        // Keywords added since the latest check have no position yet (checked: false)
+        keywords: tracker.keywords.map(keyword => {
+          const change: RankChange = changeOf.get(keyword.id) || {
+            trackedKeywordId: keyword.id,
+            keyword: keyword.keyword,
+            searchVolume: keyword.searchVolume,
+            position: null,
+            previousPosition: null,
+            change: null,
+            url: null
+          };
+
+          return {
+            ...change,
+            checked: changeOf.has(keyword.id),
+            bestPosition: bestPositions.get(keyword.id) ?? null,
+            serpFeatures: latestPositions.get(keyword.id)?.serpFeatures || []
+          };
+        }),
+        movers: rankMovers(changes)
+      });
+
+    } catch (error) {
+      console.error('Get rank tracker error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Rename, pause/resume or change how often a tracker is checked (owner and editors)
+  fastify.patch('/:projectId/rank-trackers/:trackerId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId, trackerId } = request.params as { projectId: string; trackerId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      if (!hasProjectRole(access.role, ProjectRole.EDITOR)) {
+        return sendForbidden(reply, 'Only project owners and editors can change rank trackers', ProjectRole.EDITOR);
+      }
+
+      const parsed = updateRankTrackerSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid rank tracker', details: parsed.error.issues });
+      }
+
+      const tracker = await prisma.rankTracker.findFirst({ where: { id: trackerId, projectId } });
+      if (!tracker) {
+        return reply.status(404).send({ error: 'Rank tracker not found' });
+      }
+
+      // A new cadence counts from the last check, so switching to daily checks soon
+      const frequency = parsed.data.frequency as RankCheckFrequency | undefined;
+      const rescheduled = frequency && frequency !== tracker.frequency;
+      const from = tracker.lastCheckedAt || new Date();
+
+      const updated = await prisma.rankTracker.update({
+        where: { id: trackerId },
+        data: {
+          ...parsed.data,
+          ...(rescheduled && { nextCheckAt: nextCheckAfter(frequency, from, from) })
+        }
+      });
+
+      return reply.send({ tracker: serializeTracker(updated) });
+
+    } catch (error) {
+      console.error('Update rank tracker error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Stop tracking and delete the tracker's history (owner and editors)
+  fastify.delete('/:projectId/rank-trackers/:trackerId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId, trackerId } = request.params as { projectId: string; trackerId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      if (!hasProjectRole(access.role, ProjectRole.EDITOR)) {
+        return sendForbidden(reply, 'Only project owners and editors can delete rank trackers', ProjectRole.EDITOR);
+      }
+
+      const deleted = await prisma.rankTracker.deleteMany({ where: { id: trackerId, projectId } });
+      if (deleted.count === 0) {
+        return reply.status(404).send({ error: 'Rank tracker not found' });
+      }
+
+      return reply.status(204).send();
+
+    } catch (error) {
+      console.error('Delete rank tracker error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Add keywords to a tracker; they are picked up by the next check
+  fastify.post('/:projectId/rank-trackers/:trackerId/keywords', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId, trackerId } = request.params as { projectId: string; trackerId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      if (!hasProjectRole(access.role, ProjectRole.EDITOR)) {
+        return sendForbidden(reply, 'Project viewers cannot track keywords', ProjectRole.EDITOR);
+      }
+
+      const parsed = addTrackedKeywordsSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid keywords', details: parsed.error.issues });
+      }
+
+      const tracker = await prisma.rankTracker.findFirst({
+        where: { id: trackerId, projectId },
+        include: { keywords: { select: { keyword: true } } }
+      });
+      if (!tracker) {
+        return reply.status(404).send({ error: 'Rank tracker not found' });
+      }
+
+      const tracked = new Set(tracker.keywords.map(keyword => keyword.keyword));
+      const keywords = normalizeTrackedKeywords(parsed.data.keywords).filter(keyword => !tracked.has(keyword));
+      if (tracked.size + keywords.length > MAX_TRACKED_KEYWORDS) {
+        return reply.status(400).send({ error: `A tracker can follow at most ${MAX_TRACKED_KEYWORDS} keywords` });
+      }
+
+      await prisma.trackedKeyword.createMany({
+        data: keywords.map(keyword => ({ trackerId, keyword })),
+        skipDuplicates: true
+      });
+
+      return reply.status(201).send({
+        added: keywords.length,
+        keywordCount: tracked.size + keywords.length,
+        nextCheckAt: tracker.nextCheckAt
+      });
+
+    } catch (error) {
+      console.error('Add tracked keywords error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Stop tracking one keyword; its history is deleted with it
+  fastify.delete('/:projectId/rank-trackers/:trackerId/keywords/:keywordId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId, trackerId, keywordId } = request.params as { projectId: string; trackerId: string; keywordId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      if (!hasProjectRole(access.role, ProjectRole.EDITOR)) {
+        return sendForbidden(reply, 'Project viewers cannot change tracked keywords', ProjectRole.EDITOR);
+      }
+
+      const deleted = await prisma.trackedKeyword.deleteMany({
+        where: { id: keywordId, trackerId, tracker: { projectId } }
+      });
+      if (deleted.count === 0) {
+        return reply.status(404).send({ error: 'Tracked keyword not found' });
+      }
+
+      return reply.status(204).send();
+
+    } catch (error) {
+      console.error('Delete tracked keyword error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Position history of one keyword, with the ranking URL at each check
+  fastify.get('/:projectId/rank-trackers/:trackerId/keywords/:keywordId/history', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId, trackerId, keywordId } = request.params as { projectId: string; trackerId: string; keywordId: string };
+
+      const parsed = rankTrackerQuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid query parameters', details: parsed.error.issues });
+      }
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      const keyword = await prisma.trackedKeyword.findFirst({
+        where: { id: keywordId, trackerId, tracker: { projectId } }
+      });
+      if (!keyword) {
+        return reply.status(404).send({ error: 'Tracked keyword not found' });
+      }
+
+      const positions = await prisma.rankPosition.findMany({
+        where: {
+          trackedKeywordId: keywordId,
+          checkedAt: { gte: new Date(Date.now() - parsed.data.days * 24 * 60 * 60 * 1000) }
+        },
+        orderBy: { checkedAt: 'asc' }
+      });
+
+      return reply.send({
+        keyword: {
+          id: keyword.id,
+          keyword: keyword.keyword,
+          searchVolume: keyword.searchVolume
+        },
+        history: positions.map(position => ({
+          checkedAt: position.checkedAt,
+          position: position.position,
+          url: position.url,
+          serpFeatures: position.serpFeatures,
+          topResults: position.topResults
+        }))
+      });
+
+    } catch (error) {
+      console.error('Get keyword rank history error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Check the tracker now instead of waiting for its schedule
+  fastify.post('/:projectId/rank-trackers/:trackerId/check', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { projectId, trackerId } = request.params as { projectId: string; trackerId: string };
+
+      const access = await getProjectAccess(request.user!, projectId);
+      if (!access) {
+        return reply.status(404).send({ error: 'Project not found' });
+      }
+
+      if (!hasProjectRole(access.role, ProjectRole.EDITOR)) {
+        return sendForbidden(reply, 'Project viewers cannot run rank checks', ProjectRole.EDITOR);
+      }
+
+      const parsed = runRankCheckSchema.safeParse(request.body || {});
+      if (!parsed.success) {
+        return reply.status(400).send({ error: 'Invalid request', details: parsed.error.issues });
+      }
+
+      const tracker = await prisma.rankTracker.findFirst({
+        where: { id: trackerId, projectId },
+        include: { keywords: { select: { searchVolume: true } } }
+      });
+      if (!tracker) {
+        return reply.status(404).send({ error: 'Rank tracker not found' });
+      }
+
+      if (tracker.keywords.length === 0) {
+        return reply.status(400).send({ error: 'The tracker has no keywords' });
+      }
+
+      const plan = {
+        keywords: tracker.keywords.length,
+        newKeywords: tracker.keywords.filter(keyword => keyword.searchVolume === null).length
+      };
+      if (await rejectOverBudget(reply, userId, plan, parsed.data.confirmOverBudget)) {
+        return;
+      }
+
+      const query = await startRankCheck(trackerId, userId, { confirmOverBudget: parsed.data.confirmOverBudget });
+
+      return reply.status(202).send({ queryId: query.id, status: 'started' });
+
+    } catch (error) {
+      if (error instanceof RankCheckInProgressError) {
+        return reply.status(error.statusCode).send({ error: error.message });
+      }
+      console.error('Run rank check error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
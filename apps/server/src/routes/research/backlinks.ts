@@ -0,0 +1,504 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient, QueryType, QueryStatus, DatasetKind, ProjectRole } from '@prisma/client';
+import DataForSEOService from '../../integrations/dataforseo/index.js';
+import type { AnchorItem, BacklinkItem, ReferringDomainItem } from '../../integrations/dataforseo/index.js';
+import { BudgetService } from '../../services/budget.js';
+import { estimateBacklinkCheck } from '../../services/cost-estimate.js';
+import { requirePermission, sendForbidden, checkResearchAccess, readableQueriesWhere } from '../../auth/permissions.js';
+
+const prisma = new PrismaClient();
+const dataForSEOService = new DataForSEOService({ prisma });
+const budgetService = new BudgetService(prisma);
+
+interface BacklinkCheckRequest {
+  target: string;
+  includeSubdomains: boolean;
+  includeNewLost: boolean;
+  newLostDays: 7 | 30 | 90;
+  projectId?: string;
+  confirmOverBudget?: boolean;
+  forceRefresh?: boolean;
+}
+
+interface BacklinkCheckBody {
+  Body: BacklinkCheckRequest;
+}
+
+export default async function backlinksRoutes(fastify: FastifyInstance) {
+  // Start backlink research process
+  fastify.post<BacklinkCheckBody>('/backlinks', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const {
+        target,
+        includeSubdomains,
+        includeNewLost,
+        newLostDays,
+        projectId,
+        confirmOverBudget,
+        forceRefresh
+      } = request.body as BacklinkCheckRequest;
+
+      // Viewers can read a project's research but not launch it
+      const accessError = await checkResearchAccess(request.user!, projectId);
+      if (accessError) {
+        return sendForbidden(reply, accessError, ProjectRole.EDITOR);
+      }
+
+      // Validate input
+      const validationError = validateBacklinkCheckRequest(request.body as BacklinkCheckRequest);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      // Check budgets before any paid work is queued
+      const estimate = estimateBacklinkCheck({ includeNewLost });
+      const budgetReview = await budgetService.reviewRequest(userId, {
+        estimatedUsd: estimate.totals.usd,
+        confirmed: confirmOverBudget
+      });
+      if (budgetReview.decision === 'reject') {
+        return reply.status(402).send({ error: 'Budget exceeded', overruns: budgetReview.overruns });
+      }
+
+      if (budgetReview.decision === 'confirm') {
+        return reply.status(409).send({
+          error: 'This request may exceed your budget',
+          requiresConfirmation: true,
+          estimate,
+          overruns: budgetReview.overruns,
+          perQueryLimit: budgetReview.perQueryLimit
+        });
+      }
+
+      // Create query record
+      const query = await prisma.query.create({
+        data: {
+          createdBy: userId,
+          projectId,
+          type: QueryType.BACKLINK_CHECK,
+          payload: {
+            target: normalizeTarget(target),
+            includeSubdomains: includeSubdomains ?? true,
+            includeNewLost: includeNewLost ?? true,
+            newLostDays: newLostDays || 30,
+            confirmOverBudget: confirmOverBudget || false,
+            forceRefresh: forceRefresh || false
+          },
+          status: QueryStatus.PENDING,
+        }
+      });
+
+      // Start the backlink research process asynchronously
+      processBacklinkCheck(query.id).catch(error => {
+        console.error(`Backlink research failed for query ${query.id}:`, error);
+        updateQueryStatus(query.id, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
+      });
+
+      return reply.send({
+        queryId: query.id,
+        status: 'started',
+        message: 'Backlink research process has been started'
+      });
+
+    } catch (error) {
+      console.error('Backlink research request error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Estimate the cost of a backlink research request without creating a query
+  fastify.post<BacklinkCheckBody>('/backlinks/estimate', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const body = request.body as BacklinkCheckRequest;
+      const validationError = validateBacklinkCheckRequest(body);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      const estimate = estimateBacklinkCheck({ includeNewLost: body.includeNewLost ?? true });
+      const budgetReview = await budgetService.reviewRequest(userId, { estimatedUsd: estimate.totals.usd });
+
+      return reply.send({
+        estimate,
+        budget: budgetReview
+      });
+
+    } catch (error) {
+      console.error('Backlink research estimate error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get backlink research results
+  fastify.get('/backlinks/:queryId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { queryId } = request.params as { queryId: string };
+
+      const query = await prisma.query.findFirst({
+        where: {
+          id: queryId,
+          type: QueryType.BACKLINK_CHECK,
+          ...readableQueriesWhere(request.user!)
+        },
+        include: {
+          tasks: true,
+          datasets: true
+        }
+      });
+
+      if (!query) {
+        return reply.status(404).send({ error: 'Query not found' });
+      }
+
+      return reply.send({
+        query: {
+          id: query.id,
+          status: query.status,
+          parameters: query.payload,
+          createdAt: query.createdAt,
+          completedAt: query.completedAt,
+          error: query.error
+        },
+        tasks: query.tasks.map(task => ({
+          id: task.id,
+          step: task.step,
+          status: task.status,
+          cost: task.actualCost,
+          cacheHit: task.cacheHit
+        })),
+        datasets: query.datasets.map(dataset => ({
+          id: dataset.id,
+          name: dataset.name,
+          kind: dataset.kind,
+          meta: dataset.meta,
+          data: dataset.data
+        }))
+      });
+
+    } catch (error) {
+      console.error('Get backlink research error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get backlink research status
+  fastify.get('/backlinks/:queryId/status', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { queryId } = request.params as { queryId: string };
+
+      const query = await prisma.query.findFirst({
+        where: {
+          id: queryId,
+          type: QueryType.BACKLINK_CHECK,
+          ...readableQueriesWhere(request.user!)
+        },
+        select: {
+          id: true,
+          status: true,
+          progress: true,
+          error: true,
+          tasks: {
+            select: {
+              step: true,
+              status: true
+            }
+          }
+        }
+      });
+
+      if (!query) {
+        return reply.status(404).send({ error: 'Query not found' });
+      }
+
+      return reply.send(query);
+
+    } catch (error) {
+      console.error('Get backlink research status error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
+
+// Process backlink research workflow (re-entrant: completed steps are reused on resume)
+export async function processBacklinkCheck(queryId: string) {
+  try {
+    const query = await prisma.query.findUnique({
+      where: { id: queryId }
+    });
+
+    if (!query) {
+      throw new Error('Query not found');
+    }
+
+    const params = query.payload as unknown as BacklinkCheckRequest;
+
+    // Paid work is charged to the requesting user; a confirmed request may go over budget,
+    // and forceRefresh bypasses cached DataForSEO responses
+    const taskOptions = {
+      userId: query.createdBy,
+      allowOverage: params.confirmOverBudget,
+      forceRefresh: params.forceRefresh
+    };
+
+    const taskData = {
+      target: params.target,
+      include_subdomains: params.includeSubdomains
+    };
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 10);
+
+    // Step 1: Link profile summary and domain rank
+    const summaryTaskId = await dataForSEOService.submitTask('backlinks_summary', [taskData], {
+      queryId, step: 'BACKLINKS_SUMMARY', ...taskOptions
+    });
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 25);
+
+    // Step 2: Referring domains
+    const domainsTaskId = await dataForSEOService.submitTask('backlinks_referring_domains', [{
+      ...taskData,
+      limit: 500
+    }], { queryId, step: 'REFERRING_DOMAINS', ...taskOptions });
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 40);
+
+    // Step 3: Anchor texts
+    const anchorsTaskId = await dataForSEOService.submitTask('backlinks_anchors', [{
+      ...taskData,
+      limit: 500
+    }], { queryId, step: 'ANCHORS', ...taskOptions });
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 55);
+
+    // Step 4: New and lost links. The window is anchored to the query's creation date
+    // so a resumed workflow posts the same request.
+    const dateFrom = getNewLostDateFrom(query.createdAt, params.newLostDays);
+    let newLostTaskId: string | null = null;
+
+    if (params.includeNewLost) {
+      newLostTaskId = await dataForSEOService.submitTask('backlinks_new_lost', [{
+        ...taskData,
+        date_from: dateFrom,
+        limit: 1000
+      }], { queryId, step: 'NEW_LOST_BACKLINKS', ...taskOptions });
+    }
+
+    // Live endpoints have normally answered already; this also covers cached and resumed steps
+    const allTaskIds = [summaryTaskId, domainsTaskId, anchorsTaskId, newLostTaskId].filter(Boolean) as string[];
+    const dataForSEOResults = await dataForSEOService.waitForTasks(allTaskIds, {
+      timeout: 120000, // 2 minutes
+      checkInterval: 2000 // 2 seconds
+    });
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 75);
+
+    // Step 5: Process results
+    const analysisResults = processBacklinkResults(
+      dataForSEOResults,
+      { summaryTaskId, domainsTaskId, anchorsTaskId, newLostTaskId },
+      params,
+      dateFrom
+    );
+
+    // Store the backlink dataset (skipped when resuming after it was already written)
+    const existingDataset = await prisma.dataset.findFirst({
+      where: { queryId, kind: DatasetKind.BACKLINKS }
+    });
+
+    if (!existingDataset) {
+      await prisma.dataset.create({
+        data: {
+          projectId: query.projectId,
+          queryId,
+          name: `Backlinks: ${params.target}`,
+          kind: DatasetKind.BACKLINKS,
+          meta: {
+            target: params.target,
+            includeSubdomains: params.includeSubdomains,
+            newLostDays: params.includeNewLost ? params.newLostDays : null,
+            dateFrom: params.includeNewLost ? dateFrom : null
+          },
+          data: analysisResults
+        }
+      });
+    }
+
+    // Complete the query
+    await updateQueryStatus(queryId, QueryStatus.COMPLETED, null, 100);
+
+  } catch (error) {
+    console.error(`Backlink research processing error for query ${queryId}:`, error);
+    await updateQueryStatus(queryId, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// Process backlink results into the BACKLINKS dataset shape
+function processBacklinkResults(
+  dataForSEOResults: any,
+  taskIds: {
+    summaryTaskId: string;
+    domainsTaskId: string;
+    anchorsTaskId: string;
+    newLostTaskId: string | null;
+  },
+  params: BacklinkCheckRequest,
+  dateFrom: string
+) {
+  const analysisResults = {
+    target: params.target,
+    domainRank: 0,
+    summary: null as any,
+    referringDomains: [] as any[],
+    referringDomainTiers: {} as { [tier: string]: number },
+    anchorDistribution: null as any,
+    newLost: null as any
+  };
+
+  // Link profile summary
+  const summary = getFirstResult(dataForSEOResults[taskIds.summaryTaskId]);
+  if (summary) {
+    analysisResults.domainRank = summary.rank || 0;
+    analysisResults.summary = {
+      backlinks: summary.backlinks || 0,
+      referringDomains: summary.referring_domains || 0,
+      referringMainDomains: summary.referring_main_domains || 0,
+      referringDomainsNofollow: summary.referring_domains_nofollow || 0,
+      referringIps: summary.referring_ips || 0,
+      brokenBacklinks: summary.broken_backlinks || 0,
+      spamScore: summary.backlinks_spam_score || 0,
+      firstSeen: summary.first_seen,
+      linkAttributes: summary.referring_links_attributes || {},
+      topLevelDomains: summary.referring_links_tld || {}
+    };
+  }
+
+  // Referring domains
+  const domains = getFirstResult(dataForSEOResults[taskIds.domainsTaskId]);
+  if (domains?.items) {
+    analysisResults.referringDomains = domains.items.map((item: ReferringDomainItem) => ({
+      domain: item.domain,
+      rank: item.rank,
+      backlinks: item.backlinks,
+      firstSeen: item.first_seen,
+      spamScore: item.backlinks_spam_score,
+      nofollowLinks: item.referring_links_attributes?.nofollow || 0,
+      tier: categorizeDomainRank(item.rank)
+    }));
+
+    analysisResults.referringDomainTiers = analysisResults.referringDomains.reduce((tiers, domain) => {
+      tiers[domain.tier] = (tiers[domain.tier] || 0) + 1;
+      return tiers;
+    }, {} as { [tier: string]: number });
+  }
+
+  // Anchor text distribution
+  const anchors = getFirstResult(dataForSEOResults[taskIds.anchorsTaskId]);
+  if (anchors?.items) {
+    analysisResults.anchorDistribution = dataForSEOService.backlinks.analyzeAnchorDistribution(
+      anchors.items as AnchorItem[],
+      params.target
+    );
+  }
+
+  // New and lost links
+  if (taskIds.newLostTaskId) {
+    const newLost = getFirstResult(dataForSEOResults[taskIds.newLostTaskId]);
+    const { newBacklinks, lostBacklinks } = dataForSEOService.backlinks.splitNewLostBacklinks(
+      (newLost?.items || []) as BacklinkItem[],
+      dateFrom
+    );
+
+    analysisResults.newLost = {
+      dateFrom,
+      newCount: newBacklinks.length,
+      lostCount: lostBacklinks.length,
+      newBacklinks: newBacklinks.slice(0, 200).map(formatBacklink),
+      lostBacklinks: lostBacklinks.slice(0, 200).map(formatBacklink)
+    };
+  }
+
+  return analysisResults;
+}
+
+// Helper functions
+function getFirstResult(taskResult: any) {
+  return taskResult?.tasks?.[0]?.result?.[0] || null;
+}
+
+function formatBacklink(item: BacklinkItem) {
+  return {
+    urlFrom: item.url_from,
+    urlTo: item.url_to,
+    domainFrom: item.domain_from,
+    domainFromRank: item.domain_from_rank,
+    anchor: item.anchor,
+    dofollow: item.dofollow,
+    firstSeen: item.first_seen,
+    lastSeen: item.last_seen
+  };
+}
+
+// DataForSEO ranks run from 0 to 1000
+function categorizeDomainRank(rank: number): string {
+  if (rank >= 500) return 'High';
+  if (rank >= 200) return 'Medium';
+  return 'Low';
+}
+
+function getNewLostDateFrom(createdAt: Date, days: number): string {
+  const from = new Date(createdAt.getTime() - days * 24 * 60 * 60 * 1000);
+  return from.toISOString().split('T')[0];
+}
+
+// Strip protocol and www so equivalent targets share cached results
+function normalizeTarget(target: string): string {
+  return target.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/$/, '');
+}
+
+// Returns an error message for an invalid request, or null
+function validateBacklinkCheckRequest(body: BacklinkCheckRequest): string | null {
+  const { target, newLostDays } = body;
+
+  if (!target || !normalizeTarget(target)) {
+    return 'Target domain or URL is required';
+  }
+
+  if (newLostDays && ![7, 30, 90].includes(newLostDays)) {
+    return 'New/lost period must be 7, 30 or 90 days';
+  }
+
+  return null;
+}
+
+// Update query status
+async function updateQueryStatus(queryId: string, status: QueryStatus, error?: string | null, progress?: number) {
+  await prisma.query.update({
+    where: { id: queryId },
+    data: {
+      status,
+      progress,
+      error,
+      completedAt: status === QueryStatus.COMPLETED || status === QueryStatus.FAILED ? new Date() : undefined
+    }
+  });
+}
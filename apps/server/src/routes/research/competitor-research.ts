@@ -1,11 +1,17 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { PrismaClient, QueryType, TaskStatus } from '@prisma/client';
+import { PrismaClient, QueryType, QueryStatus, ProjectRole, DatasetKind } from '@prisma/client';
 import DataForSEOService from '../../integrations/dataforseo/index.js';
 import AIService from '../../integrations/openai/index.js';
+import { BudgetService } from '../../services/budget.js';
+import { estimateCompetitorResearch } from '../../services/cost-estimate.js';
+import { requirePermission, sendForbidden, checkResearchAccess, readableQueriesWhere } from '../../auth/permissions.js';
+import { CtrCurveService, CtrModel, serpLayout } from '../../services/ctr-model.js';
 
 const prisma = new PrismaClient();
-const dataForSEOService = new DataForSEOService();
-const aiService = new AIService();
+const dataForSEOService = new DataForSEOService({ prisma });
+const aiService = new AIService({ prisma });
+const budgetService = new BudgetService(prisma);
+const ctrCurveService = new CtrCurveService(prisma);
 
 interface CompetitorResearchRequest {
   targetDomain: string;
@@ -26,6 +32,8 @@ interface CompetitorResearchRequest {
   };
   reportDepth: 'overview' | 'detailed' | 'comprehensive';
   projectId?: string;
+  confirmOverBudget?: boolean;
+  forceRefresh?: boolean;
 }
 
 interface CompetitorResearchBody {
@@ -34,7 +42,7 @@ interface CompetitorResearchBody {
 
 export default async function competitorResearchRoutes(fastify: FastifyInstance) {
   // Start competitor research process
-  fastify.post<CompetitorResearchBody>('/competitor-research', async (request: FastifyRequest, reply: FastifyReply) => {
+  fastify.post<CompetitorResearchBody>('/competitor-research', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const userId = request.user?.id;
       if (!userId) {
@@ -50,29 +58,50 @@ export default async function competitorResearchRoutes(fastify: FastifyInstance)
         keywordFilters,
         contentFilters,
         reportDepth,
-        projectId
+        projectId,
+        confirmOverBudget,
+        forceRefresh
       } = request.body as CompetitorResearchRequest;
 
+      // Viewers can read a project's research but not launch it
+      const accessError = await checkResearchAccess(request.user!, projectId);
+      if (accessError) {
+        return sendForbidden(reply, accessError, ProjectRole.EDITOR);
+      }
+
       // Validate input
-      if (!targetDomain) {
-        return reply.status(400).send({ error: 'Target domain is required' });
+      const validationError = validateCompetitorResearchRequest(request.body as CompetitorResearchRequest);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
       }
 
-      if (!competitorDomains || competitorDomains.length === 0) {
-        return reply.status(400).send({ error: 'At least one competitor domain is required' });
+      // Check budgets before any paid work is queued
+      const estimate = estimateCompetitorResearch({ competitorDomains, reportDepth });
+      const budgetReview = await budgetService.reviewRequest(userId, {
+        estimatedUsd: estimate.totals.usd,
+        confirmed: confirmOverBudget
+      });
+      if (budgetReview.decision === 'reject') {
+        return reply.status(402).send({ error: 'Budget exceeded', overruns: budgetReview.overruns });
       }
 
-      if (competitorDomains.length > 10) {
-        return reply.status(400).send({ error: 'Maximum 10 competitor domains allowed' });
+      if (budgetReview.decision === 'confirm') {
+        return reply.status(409).send({
+          error: 'This request may exceed your budget',
+          requiresConfirmation: true,
+          estimate,
+          overruns: budgetReview.overruns,
+          perQueryLimit: budgetReview.perQueryLimit
+        });
       }
 
       // Create query record
       const query = await prisma.query.create({
         data: {
-          userId,
+          createdBy: userId,
           projectId,
-          type: QueryType.COMPETITOR_RESEARCH,
-          parameters: {
+          type: QueryType.COMPETITOR_OVERVIEW,
+          payload: {
             targetDomain,
             competitorDomains,
             location,
@@ -80,16 +109,18 @@ export default async function competitorResearchRoutes(fastify: FastifyInstance)
             analysisType,
             keywordFilters,
             contentFilters,
-            reportDepth
+            reportDepth,
+            confirmOverBudget: confirmOverBudget || false,
+            forceRefresh: forceRefresh || false
           },
-          status: TaskStatus.PENDING,
+          status: QueryStatus.PENDING,
         }
       });
 
       // Start the competitor research process asynchronously
       processCompetitorResearch(query.id).catch(error => {
         console.error(`Competitor research failed for query ${query.id}:`, error);
-        updateQueryStatus(query.id, TaskStatus.FAILED, { error: error.message });
+        updateQueryStatus(query.id, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
       });
 
       return reply.send({
@@ -104,6 +135,34 @@ export default async function competitorResearchRoutes(fastify: FastifyInstance)
     }
   });
 
+  // Estimate the cost of a competitor research request without creating a query
+  fastify.post<CompetitorResearchBody>('/competitor-research/estimate', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const body = request.body as CompetitorResearchRequest;
+      const validationError = validateCompetitorResearchRequest(body);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      const estimate = estimateCompetitorResearch(body);
+      const budgetReview = await budgetService.reviewRequest(userId, { estimatedUsd: estimate.totals.usd });
+
+      return reply.send({
+        estimate,
+        budget: budgetReview
+      });
+
+    } catch (error) {
+      console.error('Competitor research estimate error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
   // Get competitor research results
   fastify.get('/competitor-research/:queryId', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
@@ -117,16 +176,12 @@ export default async function competitorResearchRoutes(fastify: FastifyInstance)
       const query = await prisma.query.findFirst({
         where: {
           id: queryId,
-          userId,
-          type: QueryType.COMPETITOR_RESEARCH
+          type: QueryType.COMPETITOR_OVERVIEW,
+          ...readableQueriesWhere(request.user!)
         },
         include: {
-          tasks: {
-            include: {
-              datasets: true
-            }
-          },
-          briefs: true
+          tasks: true,
+          datasets: true
         }
       });
 
@@ -134,24 +189,39 @@ export default async function competitorResearchRoutes(fastify: FastifyInstance)
         return reply.status(404).send({ error: 'Query not found' });
       }
 
+      const insights = await prisma.dataset.findMany({
+        where: { queryId, kind: DatasetKind.AI_INSIGHTS }
+      });
+
       return reply.send({
         query: {
           id: query.id,
           status: query.status,
-          parameters: query.parameters,
+          parameters: query.payload,
           createdAt: query.createdAt,
           completedAt: query.completedAt,
           error: query.error
         },
         tasks: query.tasks.map(task => ({
           id: task.id,
-          type: task.type,
+          step: task.step,
           status: task.status,
-          progress: task.progress,
           result: task.result,
-          datasets: task.datasets
+          cacheHit: task.cacheHit
+        })),
+        datasets: query.datasets.map(dataset => ({
+          id: dataset.id,
+          name: dataset.name,
+          kind: dataset.kind,
+          meta: dataset.meta,
+          data: dataset.data
         })),
-        insights: query.briefs
+        insights: insights.map(dataset => ({
+          id: dataset.id,
+          type: dataset.kind,
+          content: dataset.data,
+          metadata: dataset.meta
+        }))
       });
 
     } catch (error) {
@@ -173,8 +243,8 @@ export default async function competitorResearchRoutes(fastify: FastifyInstance)
       const query = await prisma.query.findFirst({
         where: {
           id: queryId,
-          userId,
-          type: QueryType.COMPETITOR_RESEARCH
+          type: QueryType.COMPETITOR_OVERVIEW,
+          ...readableQueriesWhere(request.user!)
         },
         select: {
           id: true,
@@ -183,9 +253,8 @@ export default async function competitorResearchRoutes(fastify: FastifyInstance)
           error: true,
           tasks: {
             select: {
-              type: true,
-              status: true,
-              progress: true
+              step: true,
+              status: true
             }
           }
         }
@@ -204,101 +273,63 @@ export default async function competitorResearchRoutes(fastify: FastifyInstance)
   });
 }
 
-// Process competitor research workflow
-async function processCompetitorResearch(queryId: string) {
+// Process competitor research workflow (re-entrant: completed steps are reused on resume)
+export async function processCompetitorResearch(queryId: string) {
   try {
     const query = await prisma.query.findUnique({
-      where: { id: queryId },
-      include: { user: true }
+      where: { id: queryId }
     });
 
     if (!query) {
       throw new Error('Query not found');
     }
 
-    const params = query.parameters as CompetitorResearchRequest;
-    await updateQueryStatus(queryId, TaskStatus.IN_PROGRESS, null, 10);
+    const params = query.payload as unknown as CompetitorResearchRequest;
 
-    // Step 1: Get target domain ranking keywords
-    const targetKeywordsTask = await prisma.task.create({
-      data: {
-        queryId,
-        type: 'TARGET_KEYWORDS',
-        status: TaskStatus.PENDING,
-        parameters: {
-          domain: params.targetDomain,
-          location: params.location,
-          language: params.language
-        }
-      }
-    });
+    // Paid work is charged to the requesting user; a confirmed request may go over budget,
+    // and forceRefresh bypasses cached DataForSEO responses
+    const taskOptions = {
+      userId: query.createdBy,
+      allowOverage: params.confirmOverBudget,
+      forceRefresh: params.forceRefresh
+    };
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 10);
 
+    // Step 1: Get target domain ranking keywords
     const targetTaskId = await dataForSEOService.submitTask('ranked_keywords', [{
       target: params.targetDomain,
       location_name: params.location,
       language_name: params.language,
       limit: 5000
-    }]);
+    }], { queryId, step: 'TARGET_KEYWORDS', ...taskOptions });
 
-    await updateTaskStatus(targetKeywordsTask.id, TaskStatus.IN_PROGRESS, { dataForSEOTaskId: targetTaskId });
-    await updateQueryStatus(queryId, TaskStatus.IN_PROGRESS, null, 25);
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 25);
 
     // Step 2: Get competitor domain data
-    const competitorTasks = [];
     const competitorTaskIds = [];
 
     for (const competitorDomain of params.competitorDomains) {
       // Get competitor ranking keywords
-      const competitorTask = await prisma.task.create({
-        data: {
-          queryId,
-          type: 'COMPETITOR_KEYWORDS',
-          status: TaskStatus.PENDING,
-          parameters: {
-            domain: competitorDomain,
-            location: params.location,
-            language: params.language
-          }
-        }
-      });
-
       const competitorTaskId = await dataForSEOService.submitTask('ranked_keywords', [{
         target: competitorDomain,
         location_name: params.location,
         language_name: params.language,
         limit: 5000
-      }]);
+      }], { queryId, step: `COMPETITOR_KEYWORDS:${competitorDomain}`, ...taskOptions });
 
-      competitorTasks.push(competitorTask);
       competitorTaskIds.push(competitorTaskId);
-
-      await updateTaskStatus(competitorTask.id, TaskStatus.IN_PROGRESS, { dataForSEOTaskId: competitorTaskId });
     }
 
-    await updateQueryStatus(queryId, TaskStatus.IN_PROGRESS, null, 50);
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 50);
 
     // Step 3: Get domain competitors analysis
-    const competitorsAnalysisTask = await prisma.task.create({
-      data: {
-        queryId,
-        type: 'COMPETITORS_ANALYSIS',
-        status: TaskStatus.PENDING,
-        parameters: {
-          target: params.targetDomain,
-          location: params.location,
-          language: params.language
-        }
-      }
-    });
-
     const competitorsTaskId = await dataForSEOService.submitTask('competitors', [{
       target: params.targetDomain,
       location_name: params.location,
       language_name: params.language,
       limit: 100
-    }]);
-
-    await updateTaskStatus(competitorsAnalysisTask.id, TaskStatus.IN_PROGRESS, { dataForSEOTaskId: competitorsTaskId });
+    }], { queryId, step: 'COMPETITORS_ANALYSIS', ...taskOptions });
 
     // Step 4: Wait for all DataForSEO tasks to complete
     const allTaskIds = [targetTaskId, ...competitorTaskIds, competitorsTaskId];
@@ -307,7 +338,7 @@ async function processCompetitorResearch(queryId: string) {
       checkInterval: 15000 // 15 seconds
     });
 
-    await updateQueryStatus(queryId, TaskStatus.IN_PROGRESS, null, 75);
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 75);
 
     // Step 5: Process and analyze results
     const analysisResults = await processCompetitorAnalysis(
@@ -315,37 +346,38 @@ async function processCompetitorResearch(queryId: string) {
       targetTaskId,
       competitorTaskIds,
       competitorsTaskId,
-      params
+      params,
+      await ctrCurveService.getModel()
     );
 
-    // Store analysis results
-    const analysisDataset = await prisma.dataset.create({
-      data: {
-        taskId: targetKeywordsTask.id,
-        type: 'COMPETITOR_ANALYSIS',
-        data: analysisResults,
-        metadata: {
-          targetDomain: params.targetDomain,
-          competitorDomains: params.competitorDomains,
-          analysisType: params.analysisType,
-          keywordFilters: params.keywordFilters
-        }
-      }
+    // Store analysis results (skipped when resuming after the dataset was already written)
+    const existingDataset = await prisma.dataset.findFirst({
+      where: { queryId, kind: DatasetKind.COMPETITORS }
     });
 
-    // Update task statuses
-    await updateTaskStatus(targetKeywordsTask.id, TaskStatus.COMPLETED, { datasetId: analysisDataset.id });
-    await updateTaskStatus(competitorsAnalysisTask.id, TaskStatus.COMPLETED);
-
-    for (const task of competitorTasks) {
-      await updateTaskStatus(task.id, TaskStatus.COMPLETED);
+    if (!existingDataset) {
+      await prisma.dataset.create({
+        data: {
+          projectId: query.projectId,
+          queryId,
+          name: `Competitors: ${params.targetDomain}`,
+          kind: DatasetKind.COMPETITORS,
+          meta: {
+            targetDomain: params.targetDomain,
+            competitorDomains: params.competitorDomains,
+            analysisType: params.analysisType,
+            keywordFilters: params.keywordFilters
+          },
+          data: analysisResults
+        }
+      });
     }
 
-    await updateQueryStatus(queryId, TaskStatus.IN_PROGRESS, null, 85);
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 85);
 
     // Step 6: Generate AI insights
     if (params.reportDepth === 'detailed' || params.reportDepth === 'comprehensive') {
-      const aiJobId = await aiService.generateAnalysis(query.userId, {
+      const aiJobId = await aiService.generateAnalysis(query.createdBy, {
         type: 'competitor_analysis',
         templateId: 'competitor_gap_analysis',
         data: {
@@ -367,35 +399,43 @@ async function processCompetitorResearch(queryId: string) {
           length: params.reportDepth === 'comprehensive' ? 'comprehensive' : 'detailed',
           focus: ['keyword gaps', 'content opportunities', 'competitive advantages']
         }
-      }, queryId);
+      }, queryId, { step: 'AI_INSIGHTS', allowOverage: taskOptions.allowOverage });
 
       // Wait for AI analysis to complete
-      const aiResult = await aiService.waitForJobs([aiJobId], query.userId, {
+      const aiResult = await aiService.waitForJobs([aiJobId], query.createdBy, {
         timeout: 180000 // 3 minutes
       });
 
       if (aiResult[aiJobId] && aiResult[aiJobId].status === 'completed') {
-        await prisma.brief.create({
-          data: {
-            queryId,
-            type: 'AI_INSIGHTS',
-            content: aiResult[aiJobId].output,
-            metadata: {
-              analysisType: 'competitor_research',
-              aiModel: 'gpt-4-turbo-preview',
-              templateUsed: 'competitor_gap_analysis'
-            }
-          }
+        const existingInsights = await prisma.dataset.findFirst({
+          where: { queryId, kind: DatasetKind.AI_INSIGHTS }
         });
+
+        if (!existingInsights) {
+          await prisma.dataset.create({
+            data: {
+              projectId: query.projectId,
+              queryId,
+              name: `Competitor insights: ${params.targetDomain}`,
+              kind: DatasetKind.AI_INSIGHTS,
+              meta: {
+                analysisType: 'competitor_research',
+                aiModel: 'gpt-4-turbo-preview',
+                templateUsed: 'competitor_gap_analysis'
+              },
+              data: aiResult[aiJobId].output
+            }
+          });
+        }
       }
     }
 
     // Complete the query
-    await updateQueryStatus(queryId, TaskStatus.COMPLETED, null, 100);
+    await updateQueryStatus(queryId, QueryStatus.COMPLETED, null, 100);
 
   } catch (error) {
     console.error(`Competitor research processing error for query ${queryId}:`, error);
-    await updateQueryStatus(queryId, TaskStatus.FAILED, { error: error.message });
+    await updateQueryStatus(queryId, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
   }
 }
 
@@ -405,7 +445,8 @@ async function processCompetitorAnalysis(
   targetTaskId: string,
   competitorTaskIds: string[],
   competitorsTaskId: string,
-  params: CompetitorResearchRequest
+  params: CompetitorResearchRequest,
+  ctrModel: CtrModel
 ) {
   const analysisResults = {
     targetDomainData: null as any,
@@ -432,10 +473,10 @@ async function processCompetitorAnalysis(
     analysisResults.targetDomainData = {
       domain: params.targetDomain,
       totalKeywords: targetData.total_count,
-      rankedKeywords: processRankedKeywords(targetData.items, params.keywordFilters),
-      organicTraffic: calculateOrganicTraffic(targetData.items),
+      rankedKeywords: processRankedKeywords(targetData.items, params.keywordFilters, ctrModel),
+      organicTraffic: calculateOrganicTraffic(targetData.items, ctrModel),
       averagePosition: calculateAveragePosition(targetData.items),
-      topKeywords: getTopKeywords(targetData.items, 50)
+      topKeywords: getTopKeywords(targetData.items, 50, ctrModel)
     };
   }
 
@@ -449,11 +490,11 @@ async function processCompetitorAnalysis(
       const processedCompetitor = {
         domain: params.competitorDomains[i],
         totalKeywords: competitorData.total_count,
-        rankedKeywords: processRankedKeywords(competitorData.items, params.keywordFilters),
-        organicTraffic: calculateOrganicTraffic(competitorData.items),
+        rankedKeywords: processRankedKeywords(competitorData.items, params.keywordFilters, ctrModel),
+        organicTraffic: calculateOrganicTraffic(competitorData.items, ctrModel),
         averagePosition: calculateAveragePosition(competitorData.items),
-        topKeywords: getTopKeywords(competitorData.items, 50),
-        competitiveStrength: calculateCompetitiveStrength(competitorData.items)
+        topKeywords: getTopKeywords(competitorData.items, 50, ctrModel),
+        competitiveStrength: calculateCompetitiveStrength(competitorData.items, ctrModel)
       };
 
       analysisResults.competitorData.push(processedCompetitor);
@@ -478,7 +519,8 @@ async function processCompetitorAnalysis(
   analysisResults.gapAnalysis = performGapAnalysis(
     analysisResults.targetDomainData,
     analysisResults.competitorData,
-    params.keywordFilters
+    params.keywordFilters,
+    ctrModel
   );
 
   // Calculate market overview
@@ -491,7 +533,7 @@ async function processCompetitorAnalysis(
 }
 
 // Process ranked keywords with filters
-function processRankedKeywords(items: any[], filters: any) {
+function processRankedKeywords(items: any[], filters: any, ctrModel: CtrModel) {
   return items?.filter(item => {
     // Apply search volume filter
     if (item.search_volume < filters.minSearchVolume) return false;
@@ -514,27 +556,30 @@ function processRankedKeywords(items: any[], filters: any) {
     competition: item.competition,
     url: item.ranked_serp_element?.url,
     title: item.ranked_serp_element?.title,
-    traffic: calculateKeywordTraffic(item.search_volume, item.avg_position)
+    serpLayout: serpLayout(serpFeaturesOf(item)),
+    traffic: calculateKeywordTraffic(item, ctrModel),
+    opportunityScore: dataForSEOService.labs.calculateContentOpportunityScore(item, ctrModel)
   })) || [];
 }
 
 // Calculate organic traffic estimate
-function calculateOrganicTraffic(items: any[]): number {
+function calculateOrganicTraffic(items: any[], ctrModel: CtrModel): number {
   return items?.reduce((total, item) => {
-    return total + calculateKeywordTraffic(item.search_volume, item.avg_position);
+    return total + calculateKeywordTraffic(item, ctrModel);
   }, 0) || 0;
 }
 
-// Calculate keyword traffic based on position
-function calculateKeywordTraffic(searchVolume: number, position: number): number {
-  // CTR estimates by position
-  const ctrByPosition: { [key: number]: number } = {
-    1: 0.28, 2: 0.15, 3: 0.11, 4: 0.08, 5: 0.07,
-    6: 0.05, 7: 0.04, 8: 0.03, 9: 0.03, 10: 0.02
-  };
+// Result types on the keyword's SERP, when Labs reports them
+function serpFeaturesOf(item: any): string[] {
+  return item.keyword_data?.serp_info?.serp_item_types || item.serp_item_types || [];
+}
 
-  const ctr = ctrByPosition[Math.ceil(position)] || (position <= 20 ? 0.01 : 0.005);
-  return Math.round(searchVolume * ctr);
+// Labs positions come from desktop SERPs
+function calculateKeywordTraffic(item: any, ctrModel: CtrModel): number {
+  return ctrModel.traffic(item.search_volume, item.avg_position, {
+    device: 'desktop',
+    layout: serpLayout(serpFeaturesOf(item))
+  });
 }
 
 // Calculate average position
@@ -545,22 +590,22 @@ function calculateAveragePosition(items: any[]): number {
 }
 
 // Get top keywords by traffic potential
-function getTopKeywords(items: any[], limit: number) {
+function getTopKeywords(items: any[], limit: number, ctrModel: CtrModel) {
   return items?.sort((a, b) => {
-    const trafficA = calculateKeywordTraffic(a.search_volume, a.avg_position);
-    const trafficB = calculateKeywordTraffic(b.search_volume, b.avg_position);
+    const trafficA = calculateKeywordTraffic(a, ctrModel);
+    const trafficB = calculateKeywordTraffic(b, ctrModel);
     return trafficB - trafficA;
   }).slice(0, limit).map(item => ({
     keyword: item.keyword,
     position: item.avg_position,
     searchVolume: item.search_volume,
-    traffic: calculateKeywordTraffic(item.search_volume, item.avg_position)
+    traffic: calculateKeywordTraffic(item, ctrModel)
   })) || [];
 }
 
 // Calculate competitive strength
-function calculateCompetitiveStrength(items: any[]): string {
-  const totalTraffic = calculateOrganicTraffic(items);
+function calculateCompetitiveStrength(items: any[], ctrModel: CtrModel): string {
+  const totalTraffic = calculateOrganicTraffic(items, ctrModel);
   const avgPosition = calculateAveragePosition(items);
   const totalKeywords = items?.length || 0;
 
@@ -579,7 +624,7 @@ function categorizeCompetitiveStrength(intersections: number, avgPosition: numbe
 }
 
 // Perform gap analysis
-function performGapAnalysis(targetData: any, competitorData: any[], filters: any) {
+function performGapAnalysis(targetData: any, competitorData: any[], filters: any, ctrModel: CtrModel) {
   const targetKeywords = new Set(targetData?.rankedKeywords?.map((k: any) => k.keyword) || []);
   const keywordGaps: any[] = [];
   const opportunityKeywords: any[] = [];
@@ -600,6 +645,8 @@ function performGapAnalysis(targetData: any, competitorData: any[], filters: any
           competitorPosition: keyword.position,
           competitorDomain: competitor.domain,
           competitorsRanking,
+          // Clicks the target would get ranking where the competitor does
+          trafficPotential: ctrModel.traffic(keyword.searchVolume, keyword.position, { device: 'desktop', layout: keyword.serpLayout }),
           opportunity: categorizeOpportunity(keyword, competitorsRanking)
         };
 
@@ -620,7 +667,7 @@ function performGapAnalysis(targetData: any, competitorData: any[], filters: any
 
   return {
     keywordGaps: uniqueKeywordGaps.slice(0, 500),
-    opportunityKeywords: opportunityKeywords.slice(0, 100),
+    opportunityKeywords: opportunityKeywords.sort((a, b) => b.trafficPotential - a.trafficPotential).slice(0, 100),
     contentGaps, // This would be expanded with content analysis
     competitiveAdvantages: findCompetitiveAdvantages(targetData, competitorData)
   };
@@ -718,28 +765,34 @@ function isBrandedKeyword(keyword: string): boolean {
   return brandTerms.some(term => keyword.toLowerCase().includes(term));
 }
 
+// Returns an error message for an invalid request, or null
+function validateCompetitorResearchRequest(body: CompetitorResearchRequest): string | null {
+  const { targetDomain, competitorDomains } = body;
+
+  if (!targetDomain) {
+    return 'Target domain is required';
+  }
+
+  if (!competitorDomains || competitorDomains.length === 0) {
+    return 'At least one competitor domain is required';
+  }
+
+  if (competitorDomains.length > 10) {
+    return 'Maximum 10 competitor domains allowed';
+  }
+
+  return null;
+}
+
 // Update query status
-async function updateQueryStatus(queryId: string, status: TaskStatus, error?: any, progress?: number) {
+async function updateQueryStatus(queryId: string, status: QueryStatus, error?: string | null, progress?: number) {
   await prisma.query.update({
     where: { id: queryId },
     data: {
       status,
       progress,
       error,
-      completedAt: status === TaskStatus.COMPLETED || status === TaskStatus.FAILED ? new Date() : undefined
+      completedAt: status === QueryStatus.COMPLETED || status === QueryStatus.FAILED ? new Date() : undefined
     }
   });
 }
-
-// Update task status
-async function updateTaskStatus(taskId: string, status: TaskStatus, result?: any, progress?: number) {
-  await prisma.task.update({
-    where: { id: taskId },
-    data: {
-      status,
-      progress,
-      result,
-      completedAt: status === TaskStatus.COMPLETED || status === TaskStatus.FAILED ? new Date() : undefined
-    }
-  });
-}
\ No newline at end of file
@@ -1,13 +1,23 @@
 import { FastifyInstance } from 'fastify';
+import { DatasetKind, Prisma, QueryType } from '@prisma/client';
 import keywordDiscoveryRoutes from './keyword-discovery.js';
 import serpAnalysisRoutes from './serp-analysis.js';
 import competitorResearchRoutes from './competitor-research.js';
+import backlinksRoutes from './backlinks.js';
+import onPageAuditRoutes from './onpage-audit.js';
+import trendAnalysisRoutes from './trend-analysis.js';
+import localSeoRoutes from './local-seo.js';
+import { sendForbidden, readableQueriesWhere, checkQueryDeleteAccess } from '../../auth/permissions.js';
 
 export default async function researchRoutes(fastify: FastifyInstance) {
   // Register all research routes under /api/research
   await fastify.register(keywordDiscoveryRoutes);
   await fastify.register(serpAnalysisRoutes);
   await fastify.register(competitorResearchRoutes);
+  await fastify.register(backlinksRoutes);
+  await fastify.register(onPageAuditRoutes);
+  await fastify.register(trendAnalysisRoutes);
+  await fastify.register(localSeoRoutes);
 
   // Get all user queries (dashboard endpoint)
   fastify.get('/queries', async (request, reply) => {
@@ -19,13 +29,16 @@ export default async function researchRoutes(fastify: FastifyInstance) {
 
       const { projectId, status, type, limit = 50, offset = 0 } = request.query as any;
 
+      // Brief generation jobs belong to their briefs and are not listed as research
+      const where: Prisma.QueryWhereInput = {
+        ...readableQueriesWhere(request.user!),
+        ...(projectId && { projectId }),
+        ...(status && { status }),
+        type: type || { not: QueryType.CONTENT_BRIEF }
+      };
+
       const queries = await fastify.prisma.query.findMany({
-        where: {
-          userId,
-          ...(projectId && { projectId }),
-          ...(status && { status }),
-          ...(type && { type })
-        },
+        where,
         include: {
           project: {
             select: {
@@ -36,7 +49,7 @@ export default async function researchRoutes(fastify: FastifyInstance) {
           _count: {
             select: {
               tasks: true,
-              briefs: true
+              datasets: { where: { kind: DatasetKind.AI_INSIGHTS } }
             }
           }
         },
@@ -47,14 +60,7 @@ export default async function researchRoutes(fastify: FastifyInstance) {
         skip: Number(offset)
       });
 
-      const total = await fastify.prisma.query.count({
-        where: {
-          userId,
-          ...(projectId && { projectId }),
-          ...(status && { status }),
-          ...(type && { type })
-        }
-      });
+      const total = await fastify.prisma.query.count({ where });
 
       return reply.send({
         queries: queries.map(query => ({
@@ -66,18 +72,34 @@ export default async function researchRoutes(fastify: FastifyInstance) {
           completedAt: query.completedAt,
           project: query.project,
           tasksCount: query._count.tasks,
-          briefsCount: query._count.briefs,
+          insightsCount: query._count.datasets,
           parameters: {
             // Only include summary parameters for list view
-            ...(query.type === 'KEYWORD_DISCOVERY' && {
-              seedKeywords: (query.parameters as any)?.seedKeywords?.slice(0, 3)
+            ...(query.type === QueryType.KEYWORD_DISCOVERY && {
+              seedKeywords: (query.payload as any)?.seedKeywords?.slice(0, 3)
             }),
-            ...(query.type === 'SERP_ANALYSIS' && {
-              keywords: (query.parameters as any)?.keywords?.slice(0, 3)
+            ...(query.type === QueryType.SERP_SNAPSHOT && {
+              keywords: (query.payload as any)?.keywords?.slice(0, 3)
             }),
-            ...(query.type === 'COMPETITOR_RESEARCH' && {
-              targetDomain: (query.parameters as any)?.targetDomain,
-              competitorCount: (query.parameters as any)?.competitorDomains?.length
+            ...(query.type === QueryType.COMPETITOR_OVERVIEW && {
+              targetDomain: (query.payload as any)?.targetDomain,
+              competitorCount: (query.payload as any)?.competitorDomains?.length
+            }),
+            ...(query.type === QueryType.BACKLINK_CHECK && {
+              target: (query.payload as any)?.target
+            }),
+            ...(query.type === QueryType.ONPAGE_AUDIT && {
+              urls: (query.payload as any)?.urls?.slice(0, 3),
+              urlCount: (query.payload as any)?.urls?.length
+            }),
+            ...(query.type === QueryType.TREND_ANALYSIS && {
+              keywords: (query.payload as any)?.keywords?.slice(0, 3),
+              keywordCount: (query.payload as any)?.keywords?.length
+            }),
+            ...(query.type === QueryType.LOCAL_SEO && {
+              businessName: (query.payload as any)?.businessName,
+              keywords: (query.payload as any)?.keywords?.slice(0, 3),
+              pointCount: (query.payload as any)?.points?.length
             })
           }
         })),
@@ -101,11 +123,10 @@ export default async function researchRoutes(fastify: FastifyInstance) {
 
       const { queryId } = request.params as { queryId: string };
 
-      // Verify ownership
       const query = await fastify.prisma.query.findFirst({
         where: {
           id: queryId,
-          userId
+          ...readableQueriesWhere(request.user!)
         }
       });
 
@@ -113,11 +134,16 @@ export default async function researchRoutes(fastify: FastifyInstance) {
         return reply.status(404).send({ error: 'Query not found' });
       }
 
+      // Project viewers can see the query but not delete it
+      const accessError = await checkQueryDeleteAccess(request.user!, query);
+      if (accessError) {
+        return sendForbidden(reply, accessError);
+      }
+
       // Delete related data (cascading delete should handle this, but being explicit)
       await fastify.prisma.$transaction([
-        fastify.prisma.dataset.deleteMany({ where: { task: { queryId } } }),
+        fastify.prisma.dataset.deleteMany({ where: { queryId } }),
         fastify.prisma.task.deleteMany({ where: { queryId } }),
-        fastify.prisma.brief.deleteMany({ where: { queryId } }),
         fastify.prisma.query.delete({ where: { id: queryId } })
       ]);
 
@@ -139,13 +165,15 @@ export default async function researchRoutes(fastify: FastifyInstance) {
 
       const { projectId } = request.query as { projectId?: string };
 
+      const queryWhere: Prisma.QueryWhereInput = {
+        ...readableQueriesWhere(request.user!),
+        ...(projectId && { projectId })
+      };
+
       // Get query counts by type and status
       const queryStats = await fastify.prisma.query.groupBy({
         by: ['type', 'status'],
-        where: {
-          userId,
-          ...(projectId && { projectId })
-        },
+        where: queryWhere,
         _count: true
       });
 
@@ -155,34 +183,23 @@ export default async function researchRoutes(fastify: FastifyInstance) {
 
       const recentQueries = await fastify.prisma.query.count({
         where: {
-          userId,
+          ...queryWhere,
           createdAt: {
             gte: thirtyDaysAgo
-          },
-          ...(projectId && { projectId })
+          }
         }
       });
 
       // Get total datasets created
       const totalDatasets = await fastify.prisma.dataset.count({
-        where: {
-          task: {
-            query: {
-              userId,
-              ...(projectId && { projectId })
-            }
-          }
-        }
+        where: { query: queryWhere }
       });
 
       // Get AI insights generated
-      const totalInsights = await fastify.prisma.brief.count({
+      const totalInsights = await fastify.prisma.dataset.count({
         where: {
-          query: {
-            userId,
-            ...(projectId && { projectId })
-          },
-          type: 'AI_INSIGHTS'
+          query: queryWhere,
+          kind: DatasetKind.AI_INSIGHTS
         }
       });
 
@@ -227,7 +244,7 @@ export default async function researchRoutes(fastify: FastifyInstance) {
   fastify.get('/health', async (request, reply) => {
     try {
       // Check DataForSEO connection
-      const dataForSEOHealth = await fastify.dataForSEO?.healthCheck() || false;
+      const dataForSEOHealth = (await fastify.dataForSEO?.validateConnection())?.isValid || false;
 
       // Check OpenAI connection
       const openAIHealth = await fastify.openAI?.testConnection() || false;
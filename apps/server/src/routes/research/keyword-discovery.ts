@@ -1,11 +1,25 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { PrismaClient, QueryType, TaskStatus } from '@prisma/client';
+import { PrismaClient, Prisma, QueryType, QueryStatus, ProjectRole, DatasetKind } from '@prisma/client';
 import DataForSEOService from '../../integrations/dataforseo/index.js';
 import AIService from '../../integrations/openai/index.js';
+import { EmbeddingService, LocalEmbeddingProvider } from '../../integrations/openai/embeddings.js';
+import { normalizeEmbeddingText } from '../../integrations/openai/vectors.js';
+import { BudgetService, BudgetExceededError } from '../../services/budget.js';
+import { estimateKeywordDiscovery } from '../../services/cost-estimate.js';
+import { requirePermission, sendForbidden, checkResearchAccess, readableQueriesWhere } from '../../auth/permissions.js';
+import { detectIntent, calculateTrend, calculateOpportunityScore } from '../../services/keyword-metrics.js';
+import { normalizeKeywordRows } from '../../services/dataset-rows.js';
+import { dedupeKeywords, type SemanticRow } from '../../services/keyword-semantics.js';
+import { clusterKeywords, rankingUrls, CLUSTER_SERP_KEYWORDS, type KeywordCluster } from '../../services/keyword-clustering.js';
 
 const prisma = new PrismaClient();
-const dataForSEOService = new DataForSEOService();
-const aiService = new AIService();
+const dataForSEOService = new DataForSEOService({ prisma });
+const aiService = new AIService({ prisma });
+const budgetService = new BudgetService(prisma);
+const embeddingService = new EmbeddingService({ prisma });
+
+// Keywords listed per cluster in the AI prompt
+const CLUSTER_KEYWORDS_FOR_AI = 10;
 
 interface KeywordDiscoveryRequest {
   seedKeywords: string[];
@@ -17,6 +31,8 @@ interface KeywordDiscoveryRequest {
   maxKeywordDifficulty: number;
   analysisDepth: 'quick' | 'standard' | 'comprehensive';
   projectId?: string;
+  confirmOverBudget?: boolean;
+  forceRefresh?: boolean;
 }
 
 interface KeywordDiscoveryBody {
@@ -25,7 +41,7 @@ interface KeywordDiscoveryBody {
 
 export default async function keywordDiscoveryRoutes(fastify: FastifyInstance) {
   // Start keyword discovery process
-  fastify.post<KeywordDiscoveryBody>('/keyword-discovery', async (request: FastifyRequest, reply: FastifyReply) => {
+  fastify.post<KeywordDiscoveryBody>('/keyword-discovery', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const userId = request.user?.id;
       if (!userId) {
@@ -41,25 +57,50 @@ export default async function keywordDiscoveryRoutes(fastify: FastifyInstance) {
         minSearchVolume,
         maxKeywordDifficulty,
         analysisDepth,
-        projectId
+        projectId,
+        confirmOverBudget,
+        forceRefresh
       } = request.body as KeywordDiscoveryRequest;
 
+      // Viewers can read a project's research but not launch it
+      const accessError = await checkResearchAccess(request.user!, projectId);
+      if (accessError) {
+        return sendForbidden(reply, accessError, ProjectRole.EDITOR);
+      }
+
       // Validate input
-      if (!seedKeywords || seedKeywords.length === 0) {
-        return reply.status(400).send({ error: 'At least one seed keyword is required' });
+      const validationError = validateKeywordDiscoveryRequest(request.body as KeywordDiscoveryRequest);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
       }
 
-      if (seedKeywords.length > 5) {
-        return reply.status(400).send({ error: 'Maximum 5 seed keywords allowed' });
+      // Check budgets before any paid work is queued
+      const estimate = estimateKeywordDiscovery({ analysisDepth });
+      const budgetReview = await budgetService.reviewRequest(userId, {
+        estimatedUsd: estimate.totals.usd,
+        confirmed: confirmOverBudget
+      });
+      if (budgetReview.decision === 'reject') {
+        return reply.status(402).send({ error: 'Budget exceeded', overruns: budgetReview.overruns });
+      }
+
+      if (budgetReview.decision === 'confirm') {
+        return reply.status(409).send({
+          error: 'This request may exceed your budget',
+          requiresConfirmation: true,
+          estimate,
+          overruns: budgetReview.overruns,
+          perQueryLimit: budgetReview.perQueryLimit
+        });
       }
 
       // Create query record
       const query = await prisma.query.create({
         data: {
-          userId,
+          createdBy: userId,
           projectId,
           type: QueryType.KEYWORD_DISCOVERY,
-          parameters: {
+          payload: {
             seedKeywords,
             location,
             language,
@@ -67,16 +108,18 @@ export default async function keywordDiscoveryRoutes(fastify: FastifyInstance) {
             includeLongTail,
             minSearchVolume,
             maxKeywordDifficulty,
-            analysisDepth
+            analysisDepth,
+            confirmOverBudget: confirmOverBudget || false,
+            forceRefresh: forceRefresh || false
           },
-          status: TaskStatus.PENDING,
+          status: QueryStatus.PENDING,
         }
       });
 
       // Start the keyword discovery process asynchronously
       processKeywordDiscovery(query.id).catch(error => {
         console.error(`Keyword discovery failed for query ${query.id}:`, error);
-        updateQueryStatus(query.id, TaskStatus.FAILED, { error: error.message });
+        updateQueryStatus(query.id, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
       });
 
       return reply.send({
@@ -91,6 +134,34 @@ export default async function keywordDiscoveryRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Estimate the cost of a keyword discovery request without creating a query
+  fastify.post<KeywordDiscoveryBody>('/keyword-discovery/estimate', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const body = request.body as KeywordDiscoveryRequest;
+      const validationError = validateKeywordDiscoveryRequest(body);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      const estimate = estimateKeywordDiscovery(body);
+      const budgetReview = await budgetService.reviewRequest(userId, { estimatedUsd: estimate.totals.usd });
+
+      return reply.send({
+        estimate,
+        budget: budgetReview
+      });
+
+    } catch (error) {
+      console.error('Keyword discovery estimate error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
   // Get keyword discovery results
   fastify.get('/keyword-discovery/:queryId', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
@@ -104,16 +175,15 @@ export default async function keywordDiscoveryRoutes(fastify: FastifyInstance) {
       const query = await prisma.query.findFirst({
         where: {
           id: queryId,
-          userId,
-          type: QueryType.KEYWORD_DISCOVERY
+          type: QueryType.KEYWORD_DISCOVERY,
+          ...readableQueriesWhere(request.user!)
         },
         include: {
-          tasks: {
-            include: {
-              datasets: true
-            }
-          },
-          briefs: true
+          tasks: true,
+          // Rows are paged through /api/datasets/:datasetId/rows rather than sent here
+          datasets: {
+            select: { id: true, name: true, kind: true, meta: true, createdAt: true }
+          }
         }
       });
 
@@ -121,24 +191,33 @@ export default async function keywordDiscoveryRoutes(fastify: FastifyInstance) {
         return reply.status(404).send({ error: 'Query not found' });
       }
 
+      const insights = await prisma.dataset.findMany({
+        where: { queryId, kind: DatasetKind.AI_INSIGHTS }
+      });
+
       return reply.send({
         query: {
           id: query.id,
           status: query.status,
-          parameters: query.parameters,
+          parameters: query.payload,
           createdAt: query.createdAt,
           completedAt: query.completedAt,
           error: query.error
         },
         tasks: query.tasks.map(task => ({
           id: task.id,
-          type: task.type,
+          step: task.step,
           status: task.status,
-          progress: task.progress,
           result: task.result,
-          datasets: task.datasets
+          cacheHit: task.cacheHit
         })),
-        insights: query.briefs
+        datasets: query.datasets,
+        insights: insights.map(dataset => ({
+          id: dataset.id,
+          type: dataset.kind,
+          content: dataset.data,
+          metadata: dataset.meta
+        }))
       });
 
     } catch (error) {
@@ -160,8 +239,8 @@ export default async function keywordDiscoveryRoutes(fastify: FastifyInstance) {
       const query = await prisma.query.findFirst({
         where: {
           id: queryId,
-          userId,
-          type: QueryType.KEYWORD_DISCOVERY
+          type: QueryType.KEYWORD_DISCOVERY,
+          ...readableQueriesWhere(request.user!)
         },
         select: {
           id: true,
@@ -170,9 +249,8 @@ export default async function keywordDiscoveryRoutes(fastify: FastifyInstance) {
           error: true,
           tasks: {
             select: {
-              type: true,
-              status: true,
-              progress: true
+              step: true,
+              status: true
             }
           }
         }
@@ -191,67 +269,46 @@ export default async function keywordDiscoveryRoutes(fastify: FastifyInstance) {
   });
 }
 
-// Process keyword discovery workflow
-async function processKeywordDiscovery(queryId: string) {
+// Process keyword discovery workflow (re-entrant: completed steps are reused on resume)
+export async function processKeywordDiscovery(queryId: string) {
   try {
     const query = await prisma.query.findUnique({
-      where: { id: queryId },
-      include: { user: true }
+      where: { id: queryId }
     });
 
     if (!query) {
       throw new Error('Query not found');
     }
 
-    const params = query.parameters as KeywordDiscoveryRequest;
-    await updateQueryStatus(queryId, TaskStatus.IN_PROGRESS, null, 10);
+    const params = query.payload as unknown as KeywordDiscoveryRequest;
 
-    // Step 1: Get keyword suggestions from DataForSEO
-    const keywordIdeasTask = await prisma.task.create({
-      data: {
-        queryId,
-        type: 'KEYWORD_IDEAS',
-        status: TaskStatus.PENDING,
-        parameters: {
-          keywords: params.seedKeywords,
-          location: params.location,
-          language: params.language
-        }
-      }
-    });
+    // Paid work is charged to the requesting user; a confirmed request may go over budget,
+    // and forceRefresh bypasses cached DataForSEO responses
+    const taskOptions = {
+      userId: query.createdBy,
+      allowOverage: params.confirmOverBudget,
+      forceRefresh: params.forceRefresh
+    };
 
-    // Submit keyword ideas task
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 10);
+
+    // Step 1: Get keyword suggestions from DataForSEO
     const keywordTaskId = await dataForSEOService.submitTask('keywords_ideas', [{
       seed_keywords: params.seedKeywords,
       location_name: params.location,
       language_name: params.language
-    }]);
+    }], { queryId, step: 'KEYWORD_IDEAS', ...taskOptions });
 
-    await updateTaskStatus(keywordIdeasTask.id, TaskStatus.IN_PROGRESS, { dataForSEOTaskId: keywordTaskId });
-    await updateQueryStatus(queryId, TaskStatus.IN_PROGRESS, null, 30);
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 30);
 
     // Step 2: Get search volumes for seed keywords
-    const volumeTask = await prisma.task.create({
-      data: {
-        queryId,
-        type: 'SEARCH_VOLUME',
-        status: TaskStatus.PENDING,
-        parameters: {
-          keywords: params.seedKeywords,
-          location: params.location,
-          language: params.language
-        }
-      }
-    });
-
     const volumeTaskId = await dataForSEOService.submitTask('keywords_volume', [{
       keywords: params.seedKeywords,
       location_name: params.location,
       language_name: params.language
-    }]);
+    }], { queryId, step: 'SEARCH_VOLUME', ...taskOptions });
 
-    await updateTaskStatus(volumeTask.id, TaskStatus.IN_PROGRESS, { dataForSEOTaskId: volumeTaskId });
-    await updateQueryStatus(queryId, TaskStatus.IN_PROGRESS, null, 50);
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 50);
 
     // Step 3: Wait for DataForSEO tasks to complete
     const dataForSEOResults = await dataForSEOService.waitForTasks([keywordTaskId, volumeTaskId], {
@@ -271,7 +328,7 @@ async function processKeywordDiscovery(queryId: string) {
       throw new Error(`Search volume task failed: ${volumeResult.error}`);
     }
 
-    await updateQueryStatus(queryId, TaskStatus.IN_PROGRESS, null, 70);
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 70);
 
     // Step 4: Process and filter results
     const processedKeywords = await processKeywordResults(
@@ -280,35 +337,64 @@ async function processKeywordDiscovery(queryId: string) {
       params
     );
 
-    // Store processed results
-    const dataset = await prisma.dataset.create({
-      data: {
-        taskId: keywordIdeasTask.id,
-        type: 'KEYWORD_LIST',
-        data: processedKeywords,
-        metadata: {
-          totalKeywords: processedKeywords.length,
-          filters: {
-            minSearchVolume: params.minSearchVolume,
-            maxKeywordDifficulty: params.maxKeywordDifficulty,
-            includeQuestions: params.includeQuestions,
-            includeLongTail: params.includeLongTail
-          }
-        }
-      }
+    // Store processed results (skipped when resuming after the dataset was already written)
+    const existingDataset = await prisma.dataset.findFirst({
+      where: { queryId, kind: DatasetKind.KEYWORDS }
     });
 
-    await updateTaskStatus(keywordIdeasTask.id, TaskStatus.COMPLETED, { datasetId: dataset.id });
-    await updateTaskStatus(volumeTask.id, TaskStatus.COMPLETED);
-    await updateQueryStatus(queryId, TaskStatus.IN_PROGRESS, null, 85);
+    let keywordDataset = existingDataset;
+    if (!keywordDataset) {
+      // Merge near-duplicate ideas and label semantically related keywords
+      const semantics = await dedupeDiscoveredKeywords(processedKeywords, taskOptions);
+      const rows = semantics.rows;
+
+      keywordDataset = await prisma.dataset.create({
+        data: {
+          projectId: query.projectId,
+          queryId,
+          name: `Keywords: ${params.seedKeywords.join(', ')}`,
+          kind: DatasetKind.KEYWORDS,
+          meta: {
+            totalKeywords: rows.length,
+            averageSearchVolume: rows.length
+              ? Math.round(rows.reduce((sum, keyword) => sum + keyword.searchVolume, 0) / rows.length)
+              : 0,
+            lowCompetition: rows.filter(keyword => keyword.competitionLevel === 'LOW').length,
+            commercialIntent: rows.filter(keyword => keyword.intent === 'commercial' || keyword.intent === 'transactional').length,
+            mergedDuplicates: semantics.merged,
+            semanticGroups: semantics.groups,
+            embeddingModel: semantics.model,
+            filters: {
+              minSearchVolume: params.minSearchVolume,
+              maxKeywordDifficulty: params.maxKeywordDifficulty,
+              includeQuestions: params.includeQuestions,
+              includeLongTail: params.includeLongTail
+            }
+          },
+          data: rows as unknown as Prisma.InputJsonValue
+        }
+      });
+    }
+    const discoveredKeywords = keywordDataset.data as unknown as Array<SemanticRow<typeof processedKeywords[number]>>;
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 75);
+
+    // Step 5: Cluster the keywords, by SERP overlap for the highest volume keywords
+    const keywordClusters = await clusterDiscoveredKeywords(query, keywordDataset, params, taskOptions);
 
-    // Step 5: Generate AI insights if requested
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 85);
+
+    // Step 6: Generate AI insights if requested
     if (params.analysisDepth === 'standard' || params.analysisDepth === 'comprehensive') {
-      const aiJobId = await aiService.generateAnalysis(query.userId, {
+      const aiJobId = await aiService.generateAnalysis(query.createdBy, {
         type: 'keyword_analysis',
         templateId: 'keyword_opportunity_analysis',
         data: {
-          keywordData: processedKeywords,
+          keywordData: discoveredKeywords,
+          keywordClusters: keywordClusters.map(({ keywords, ...cluster }) => ({
+            ...cluster,
+            keywords: keywords.slice(0, CLUSTER_KEYWORDS_FOR_AI)
+          })),
           seedKeywords: params.seedKeywords,
           filters: {
             minSearchVolume: params.minSearchVolume,
@@ -323,35 +409,43 @@ async function processKeywordDiscovery(queryId: string) {
           length: params.analysisDepth === 'comprehensive' ? 'comprehensive' : 'detailed',
           focus: ['quick wins', 'long-tail opportunities', 'content gaps']
         }
-      }, queryId);
+      }, queryId, { step: 'AI_INSIGHTS', allowOverage: taskOptions.allowOverage });
 
       // Wait for AI analysis to complete
-      const aiResult = await aiService.waitForJobs([aiJobId], query.userId, {
+      const aiResult = await aiService.waitForJobs([aiJobId], query.createdBy, {
         timeout: 120000 // 2 minutes
       });
 
       if (aiResult[aiJobId] && aiResult[aiJobId].status === 'completed') {
-        await prisma.brief.create({
-          data: {
-            queryId,
-            type: 'AI_INSIGHTS',
-            content: aiResult[aiJobId].output,
-            metadata: {
-              analysisType: 'keyword_discovery',
-              aiModel: 'gpt-4-turbo-preview',
-              templateUsed: 'keyword_opportunity_analysis'
-            }
-          }
+        const existingInsights = await prisma.dataset.findFirst({
+          where: { queryId, kind: DatasetKind.AI_INSIGHTS }
         });
+
+        if (!existingInsights) {
+          await prisma.dataset.create({
+            data: {
+              projectId: query.projectId,
+              queryId,
+              name: `Keyword insights: ${params.seedKeywords.join(', ')}`,
+              kind: DatasetKind.AI_INSIGHTS,
+              meta: {
+                analysisType: 'keyword_discovery',
+                aiModel: 'gpt-4-turbo-preview',
+                templateUsed: 'keyword_opportunity_analysis'
+              },
+              data: aiResult[aiJobId].output
+            }
+          });
+        }
       }
     }
 
     // Complete the query
-    await updateQueryStatus(queryId, TaskStatus.COMPLETED, null, 100);
+    await updateQueryStatus(queryId, QueryStatus.COMPLETED, null, 100);
 
   } catch (error) {
     console.error(`Keyword discovery processing error for query ${queryId}:`, error);
-    await updateQueryStatus(queryId, TaskStatus.FAILED, { error: error.message });
+    await updateQueryStatus(queryId, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
   }
 }
 
@@ -426,102 +520,147 @@ async function processKeywordResults(
   });
 
   // Add analysis metadata
-  return filteredKeywords.map(keyword => ({
-    ...keyword,
-    intent: detectIntent(keyword.keyword),
-    trend: calculateTrend(keyword.monthlySearches),
-    opportunity: calculateOpportunityScore(keyword, params)
-  }));
+  return filteredKeywords.map(keyword => {
+    const intent = detectIntent(keyword.keyword);
+    const trend = calculateTrend(keyword.monthlySearches);
+    return {
+      ...keyword,
+      intent,
+      trend,
+      opportunity: calculateOpportunityScore({ ...keyword, intent, trend })
+    };
+  });
 }
 
-// Helper functions
-function isQuestionKeyword(keyword: string): boolean {
-  const questionWords = ['what', 'how', 'why', 'when', 'where', 'who', 'which', 'can', 'do', 'does', 'is', 'are'];
-  return questionWords.some(word => keyword.toLowerCase().startsWith(word + ' '));
-}
+// Embeds the keywords and merges near-duplicates. Only running out of budget stops the query;
+// if the embeddings API fails the keywords are compared with local vectors instead.
+async function dedupeDiscoveredKeywords<T extends { keyword: string; searchVolume: number; isSeedKeyword?: boolean }>(
+  keywords: T[],
+  taskOptions: { userId: string; allowOverage?: boolean }
+) {
+  let model = embeddingService.model;
+  let vectors: Map<string, number[]>;
 
-function isLongTailKeyword(keyword: string): boolean {
-  return keyword.split(' ').length >= 3;
-}
+  try {
+    vectors = await embeddingService.embed(taskOptions.userId, keywords.map(keyword => keyword.keyword), {
+      allowOverage: taskOptions.allowOverage
+    });
+  } catch (error) {
+    if (error instanceof BudgetExceededError) throw error;
+    console.error('Keyword embedding failed, falling back to local vectors:', error);
+    const local = new LocalEmbeddingProvider();
+    const texts = keywords.map(keyword => normalizeEmbeddingText(keyword.keyword));
+    const { vectors: localVectors } = await local.embed(texts);
+    model = local.model;
+    vectors = new Map(texts.map((text, index) => [text, localVectors[index]]));
+  }
 
-function detectIntent(keyword: string): string {
-  const commercial = ['buy', 'purchase', 'price', 'cost', 'cheap', 'discount', 'deal'];
-  const transactional = ['order', 'shop', 'store', 'cart', 'checkout', 'payment'];
-  const navigational = ['login', 'account', 'dashboard', 'website', 'official'];
+  return { ...dedupeKeywords(keywords, vectors), model };
+}
 
-  const lowerKeyword = keyword.toLowerCase();
+// Cluster the stored keywords and save the clusters as their own dataset (reused on resume).
+// A SERP task that fails only means its keyword is clustered by wording instead.
+async function clusterDiscoveredKeywords(
+  query: { id: string; projectId: string | null },
+  keywordDataset: { id: string; data: unknown },
+  params: KeywordDiscoveryRequest,
+  taskOptions: { userId: string; allowOverage?: boolean; forceRefresh?: boolean }
+): Promise<KeywordCluster[]> {
+  const existingDataset = await prisma.dataset.findFirst({
+    where: { queryId: query.id, kind: DatasetKind.KEYWORD_CLUSTERS }
+  });
+  if (existingDataset) {
+    return existingDataset.data as unknown as KeywordCluster[];
+  }
 
-  if (commercial.some(word => lowerKeyword.includes(word))) return 'commercial';
-  if (transactional.some(word => lowerKeyword.includes(word))) return 'transactional';
-  if (navigational.some(word => lowerKeyword.includes(word))) return 'navigational';
+  const rows = normalizeKeywordRows(keywordDataset.data);
+  const serpKeywords = [...rows]
+    .sort((a, b) => b.searchVolume - a.searchVolume)
+    .slice(0, CLUSTER_SERP_KEYWORDS[params.analysisDepth] ?? 0)
+    .map(row => row.keyword);
 
-  return 'informational';
-}
+  const serpTaskIds = new Map<string, string>();
+  for (const keyword of serpKeywords) {
+    const taskId = await dataForSEOService.submitTask('serp_organic', [{
+      keyword,
+      location_name: params.location,
+      language_name: params.language
+    }], { queryId: query.id, step: `CLUSTER_SERP:${keyword}`, ...taskOptions });
+    serpTaskIds.set(keyword, taskId);
+  }
 
-function calculateTrend(monthlySearches?: Array<{ month: number; volume: number }>): string {
-  if (!monthlySearches || monthlySearches.length < 2) return 'stable';
+  const serps = new Map<string, string[]>();
+  if (serpTaskIds.size > 0) {
+    const serpResults = await dataForSEOService.waitForTasks(Array.from(serpTaskIds.values()), {
+      timeout: 600000, // 10 minutes
+      checkInterval: 10000 // 10 seconds
+    });
 
-  const recent = monthlySearches.slice(-3);
-  const earlier = monthlySearches.slice(0, 3);
+    serpTaskIds.forEach((taskId, keyword) => {
+      const items = serpResults[taskId]?.tasks?.[0]?.result?.[0]?.items;
+      if (items) {
+        serps.set(keyword, rankingUrls(items));
+      }
+    });
+  }
 
-  const recentAvg = recent.reduce((sum, m) => sum + m.volume, 0) / recent.length;
-  const earlierAvg = earlier.reduce((sum, m) => sum + m.volume, 0) / earlier.length;
+  const clusters = clusterKeywords(rows, serps);
 
-  const changePercent = (recentAvg - earlierAvg) / earlierAvg;
+  await prisma.dataset.create({
+    data: {
+      projectId: query.projectId,
+      queryId: query.id,
+      name: `Keyword clusters: ${params.seedKeywords.join(', ')}`,
+      kind: DatasetKind.KEYWORD_CLUSTERS,
+      meta: {
+        keywordDatasetId: keywordDataset.id,
+        totalClusters: clusters.length,
+        serpClusters: clusters.filter(cluster => cluster.method === 'serp').length,
+        lexicalClusters: clusters.filter(cluster => cluster.method === 'lexical').length,
+        singleKeywordClusters: clusters.filter(cluster => cluster.keywordCount === 1).length,
+        serpKeywords: serps.size
+      },
+      data: clusters as unknown as Prisma.InputJsonValue
+    }
+  });
 
-  if (changePercent > 0.1) return 'up';
-  if (changePercent < -0.1) return 'down';
-  return 'stable';
+  return clusters;
 }
 
-function calculateOpportunityScore(keyword: any, params: KeywordDiscoveryRequest): number {
-  let score = 0;
+// Helper functions
+function isQuestionKeyword(keyword: string): boolean {
+  const questionWords = ['what', 'how', 'why', 'when', 'where', 'who', 'which', 'can', 'do', 'does', 'is', 'are'];
+  return questionWords.some(word => keyword.toLowerCase().startsWith(word + ' '));
+}
 
-  // Search volume score (0-40 points)
-  if (keyword.searchVolume >= 10000) score += 40;
-  else if (keyword.searchVolume >= 5000) score += 30;
-  else if (keyword.searchVolume >= 1000) score += 20;
-  else if (keyword.searchVolume >= 100) score += 10;
+function isLongTailKeyword(keyword: string): boolean {
+  return keyword.split(' ').length >= 3;
+}
 
-  // Competition score (0-30 points) - lower is better
-  if (keyword.competitionLevel === 'LOW') score += 30;
-  else if (keyword.competitionLevel === 'MEDIUM') score += 15;
-  else if (keyword.competitionLevel === 'HIGH') score += 5;
+// Returns an error message for an invalid request, or null
+function validateKeywordDiscoveryRequest(body: KeywordDiscoveryRequest): string | null {
+  const { seedKeywords } = body;
 
-  // Intent score (0-20 points)
-  if (keyword.intent === 'transactional') score += 20;
-  else if (keyword.intent === 'commercial') score += 15;
-  else if (keyword.intent === 'informational') score += 10;
+  if (!seedKeywords || seedKeywords.length === 0) {
+    return 'At least one seed keyword is required';
+  }
 
-  // Trend score (0-10 points)
-  if (keyword.trend === 'up') score += 10;
-  else if (keyword.trend === 'stable') score += 5;
+  if (seedKeywords.length > 5) {
+    return 'Maximum 5 seed keywords allowed';
+  }
 
-  return Math.min(100, score);
+  return null;
 }
 
 // Update query status
-async function updateQueryStatus(queryId: string, status: TaskStatus, error?: any, progress?: number) {
+async function updateQueryStatus(queryId: string, status: QueryStatus, error?: string | null, progress?: number) {
   await prisma.query.update({
     where: { id: queryId },
     data: {
       status,
       progress,
       error,
-      completedAt: status === TaskStatus.COMPLETED || status === TaskStatus.FAILED ? new Date() : undefined
+      completedAt: status === QueryStatus.COMPLETED || status === QueryStatus.FAILED ? new Date() : undefined
     }
   });
 }
-
-// Update task status
-async function updateTaskStatus(taskId: string, status: TaskStatus, result?: any, progress?: number) {
-  await prisma.task.update({
-    where: { id: taskId },
-    data: {
-      status,
-      progress,
-      result,
-      completedAt: status === TaskStatus.COMPLETED || status === TaskStatus.FAILED ? new Date() : undefined
-    }
-  });
-}
\ No newline at end of file
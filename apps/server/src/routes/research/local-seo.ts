@@ -0,0 +1,528 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient, Prisma, QueryType, QueryStatus, DatasetKind, ProjectRole } from '@prisma/client';
+import DataForSEOService from '../../integrations/dataforseo/index.js';
+import AIService from '../../integrations/openai/index.js';
+import { BudgetService } from '../../services/budget.js';
+import { estimateLocalSeo } from '../../services/cost-estimate.js';
+import {
+  buildGeoGrid,
+  pointCoordinate,
+  readMapsListings,
+  analyzeLocalResults,
+  type CheckPoint,
+  type LocalSeoResults
+} from '../../services/local-seo.js';
+import { requirePermission, sendForbidden, checkResearchAccess, readableQueriesWhere } from '../../auth/permissions.js';
+
+const prisma = new PrismaClient();
+const dataForSEOService = new DataForSEOService({ prisma });
+const aiService = new AIService({ prisma });
+const budgetService = new BudgetService(prisma);
+
+const MAX_KEYWORDS = 5;
+const MAX_LOCATIONS = 10;
+const GRID_SIZES = [3, 5, 7];
+// Maps checks (keywords x check points) allowed in one query
+const MAX_CHECKS = 150;
+
+interface LocalSeoRequest {
+  businessName: string;
+  domain?: string;
+  phone?: string;
+  address?: string;
+  businessType?: string;
+  keywords: string[];
+  // Named locations (cities, neighbourhoods) to check from
+  locations?: string[];
+  // A grid of coordinates around the business, size x size points spacingKm apart
+  grid?: {
+    latitude: number;
+    longitude: number;
+    size: number;
+    spacingKm: number;
+  };
+  language: string;
+  device?: 'desktop' | 'mobile';
+  projectId?: string;
+  confirmOverBudget?: boolean;
+  forceRefresh?: boolean;
+}
+
+// Stored parameters carry the resolved check points so a resumed query checks the same places
+interface LocalSeoParameters extends LocalSeoRequest {
+  points: CheckPoint[];
+}
+
+interface LocalSeoBody {
+  Body: LocalSeoRequest;
+}
+
+export default async function localSeoRoutes(fastify: FastifyInstance) {
+  // Start local SEO process
+  fastify.post<LocalSeoBody>('/local-seo', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const body = request.body as LocalSeoRequest;
+
+      // Viewers can read a project's research but not launch it
+      const accessError = await checkResearchAccess(request.user!, body.projectId);
+      if (accessError) {
+        return sendForbidden(reply, accessError, ProjectRole.EDITOR);
+      }
+
+      // Validate input
+      const validationError = validateLocalSeoRequest(body);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      const keywords = normalizeList(body.keywords);
+      const points = buildCheckPoints(body);
+
+      // Check budgets before any paid work is queued
+      const estimate = estimateLocalSeo({ keywords, points: points.length });
+      const budgetReview = await budgetService.reviewRequest(userId, {
+        estimatedUsd: estimate.totals.usd,
+        confirmed: body.confirmOverBudget
+      });
+      if (budgetReview.decision === 'reject') {
+        return reply.status(402).send({ error: 'Budget exceeded', overruns: budgetReview.overruns });
+      }
+
+      if (budgetReview.decision === 'confirm') {
+        return reply.status(409).send({
+          error: 'This request may exceed your budget',
+          requiresConfirmation: true,
+          estimate,
+          overruns: budgetReview.overruns,
+          perQueryLimit: budgetReview.perQueryLimit
+        });
+      }
+
+      // Create query record
+      const query = await prisma.query.create({
+        data: {
+          createdBy: userId,
+          projectId: body.projectId,
+          type: QueryType.LOCAL_SEO,
+          payload: {
+            businessName: body.businessName.trim(),
+            domain: body.domain?.trim() || null,
+            phone: body.phone?.trim() || null,
+            address: body.address?.trim() || null,
+            businessType: body.businessType?.trim() || null,
+            keywords,
+            locations: normalizeList(body.locations || []),
+            grid: body.grid || null,
+            points,
+            language: body.language,
+            device: body.device || 'mobile',
+            confirmOverBudget: body.confirmOverBudget || false,
+            forceRefresh: body.forceRefresh || false
+          } as unknown as Prisma.InputJsonValue,
+          status: QueryStatus.PENDING,
+        }
+      });
+
+      // Start the local SEO process asynchronously
+      processLocalSeo(query.id).catch(error => {
+        console.error(`Local SEO analysis failed for query ${query.id}:`, error);
+        updateQueryStatus(query.id, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
+      });
+
+      return reply.send({
+        queryId: query.id,
+        status: 'started',
+        message: 'Local SEO analysis process has been started'
+      });
+
+    } catch (error) {
+      console.error('Local SEO request error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Estimate the cost of a local SEO request without creating a query
+  fastify.post<LocalSeoBody>('/local-seo/estimate', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const body = request.body as LocalSeoRequest;
+      const validationError = validateLocalSeoRequest(body);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      const estimate = estimateLocalSeo({ keywords: normalizeList(body.keywords), points: buildCheckPoints(body).length });
+      const budgetReview = await budgetService.reviewRequest(userId, { estimatedUsd: estimate.totals.usd });
+
+      return reply.send({
+        estimate,
+        budget: budgetReview
+      });
+
+    } catch (error) {
+      console.error('Local SEO estimate error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get local SEO results
+  fastify.get('/local-seo/:queryId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { queryId } = request.params as { queryId: string };
+
+      const query = await prisma.query.findFirst({
+        where: {
+          id: queryId,
+          type: QueryType.LOCAL_SEO,
+          ...readableQueriesWhere(request.user!)
+        },
+        include: {
+          tasks: true,
+          datasets: true
+        }
+      });
+
+      if (!query) {
+        return reply.status(404).send({ error: 'Query not found' });
+      }
+
+      return reply.send({
+        query: {
+          id: query.id,
+          status: query.status,
+          parameters: query.payload,
+          createdAt: query.createdAt,
+          completedAt: query.completedAt,
+          error: query.error
+        },
+        tasks: query.tasks.map(task => ({
+          id: task.id,
+          step: task.step,
+          status: task.status,
+          cost: task.actualCost,
+          cacheHit: task.cacheHit
+        })),
+        datasets: query.datasets.map(dataset => ({
+          id: dataset.id,
+          name: dataset.name,
+          kind: dataset.kind,
+          meta: dataset.meta,
+          data: dataset.data
+        }))
+      });
+
+    } catch (error) {
+      console.error('Get local SEO error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get local SEO status
+  fastify.get('/local-seo/:queryId/status', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { queryId } = request.params as { queryId: string };
+
+      const query = await prisma.query.findFirst({
+        where: {
+          id: queryId,
+          type: QueryType.LOCAL_SEO,
+          ...readableQueriesWhere(request.user!)
+        },
+        select: {
+          id: true,
+          status: true,
+          progress: true,
+          error: true,
+          tasks: {
+            select: {
+              step: true,
+              status: true
+            }
+          }
+        }
+      });
+
+      if (!query) {
+        return reply.status(404).send({ error: 'Query not found' });
+      }
+
+      return reply.send(query);
+
+    } catch (error) {
+      console.error('Get local SEO status error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
+
+// Process local SEO workflow (re-entrant: completed steps are reused on resume)
+export async function processLocalSeo(queryId: string) {
+  try {
+    const query = await prisma.query.findUnique({
+      where: { id: queryId }
+    });
+
+    if (!query) {
+      throw new Error('Query not found');
+    }
+
+    const params = query.payload as unknown as LocalSeoParameters;
+
+    // Paid work is charged to the requesting user; a confirmed request may go over budget,
+    // and forceRefresh bypasses cached DataForSEO responses
+    const taskOptions = {
+      userId: query.createdBy,
+      allowOverage: params.confirmOverBudget,
+      forceRefresh: params.forceRefresh
+    };
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 10);
+
+    // Step 1: Check Google Maps for every keyword from every check point
+    const checkTasks: Array<{ keyword: string; point: string; taskId: string }> = [];
+    for (const keyword of params.keywords) {
+      for (const point of params.points) {
+        const coordinate = pointCoordinate(point);
+        const taskId = await dataForSEOService.submitTask('serp_maps', [{
+          keyword,
+          ...(coordinate ? { location_coordinate: coordinate } : { location_name: point.locationName }),
+          language_name: params.language,
+          device: params.device
+        }], { queryId, step: `MAPS:${keyword}@${point.label}`, ...taskOptions });
+        checkTasks.push({ keyword, point: point.label, taskId });
+      }
+    }
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 30);
+
+    // Step 2: Wait for DataForSEO tasks to complete
+    const dataForSEOResults = await dataForSEOService.waitForTasks(checkTasks.map(check => check.taskId), {
+      timeout: 900000, // 15 minutes
+      checkInterval: 10000 // 10 seconds
+    });
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 60);
+
+    // Step 3: Find the business in each result list and compare it with the local pack
+    const localResults = analyzeLocalResults(
+      {
+        name: params.businessName,
+        domain: params.domain || undefined,
+        phone: params.phone || undefined,
+        address: params.address || undefined
+      },
+      params.points,
+      checkTasks.map(check => ({
+        keyword: check.keyword,
+        point: check.point,
+        listings: readMapsListings(dataForSEOResults[check.taskId]?.tasks?.[0]?.result?.[0]?.items || [])
+      }))
+    );
+
+    // Store local results (skipped when resuming after the dataset was already written)
+    const existingDataset = await prisma.dataset.findFirst({
+      where: { queryId, kind: DatasetKind.LOCAL_SEO }
+    });
+
+    if (!existingDataset) {
+      await prisma.dataset.create({
+        data: {
+          projectId: query.projectId,
+          queryId,
+          name: `Local SEO: ${params.businessName}`,
+          kind: DatasetKind.LOCAL_SEO,
+          meta: {
+            businessName: params.businessName,
+            keywords: params.keywords,
+            points: params.points.length,
+            localPackRate: localResults.overview.localPackRate,
+            shareOfVoice: localResults.overview.shareOfVoice
+          },
+          data: localResults as unknown as Prisma.InputJsonValue
+        }
+      });
+    }
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 70);
+
+    // Step 4: Local SEO report from the local strategy template
+    const aiJobId = await aiService.generateAnalysis(query.createdBy, {
+      type: 'competitor_analysis',
+      templateId: 'local_seo_strategy',
+      data: buildLocalTemplateData(localResults, params)
+    }, queryId, { step: 'AI_INSIGHTS', allowOverage: taskOptions.allowOverage });
+
+    const aiResult = await aiService.waitForJobs([aiJobId], query.createdBy, {
+      timeout: 180000 // 3 minutes
+    });
+
+    if (aiResult[aiJobId] && aiResult[aiJobId].status === 'completed') {
+      const existingInsights = await prisma.dataset.findFirst({
+        where: { queryId, kind: DatasetKind.AI_INSIGHTS }
+      });
+
+      if (!existingInsights) {
+        await prisma.dataset.create({
+          data: {
+            projectId: query.projectId,
+            queryId,
+            name: `Local SEO strategy: ${params.businessName}`,
+            kind: DatasetKind.AI_INSIGHTS,
+            meta: {
+              analysisType: 'local_seo',
+              aiModel: 'gpt-4-turbo-preview',
+              templateUsed: 'local_seo_strategy'
+            },
+            data: aiResult[aiJobId].output
+          }
+        });
+      }
+    }
+
+    // Complete the query
+    await updateQueryStatus(queryId, QueryStatus.COMPLETED, null, 100);
+
+  } catch (error) {
+    console.error(`Local SEO processing error for query ${queryId}:`, error);
+    await updateQueryStatus(queryId, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// Map local results onto the local_seo_strategy template variables
+function buildLocalTemplateData(results: LocalSeoResults, params: LocalSeoParameters) {
+  const gridDescription = params.grid
+    ? `${params.grid.size}x${params.grid.size} grid, ${params.grid.spacingKm} km apart, around ${params.grid.latitude},${params.grid.longitude}`
+    : null;
+
+  return {
+    localSearchData: {
+      overview: results.overview,
+      byKeyword: results.keywords,
+      // Positions per keyword at each check point; null means the business isn't listed there
+      byLocation: params.points.map(point => ({
+        location: point.label,
+        positions: Object.fromEntries(results.checks
+          .filter(check => check.point === point.label)
+          .map(check => [check.keyword, check.position]))
+      }))
+    },
+    gmbData: results.listings.map(listing => ({
+      title: listing.title,
+      category: listing.category,
+      rating: listing.rating,
+      reviews: listing.reviews,
+      address: listing.address,
+      phone: listing.phone,
+      website: listing.domain,
+      claimed: listing.isClaimed
+    })),
+    localCompetitors: {
+      shareOfVoice: results.shareOfVoice.slice(0, 10),
+      ratingComparison: results.ratingComparison
+    },
+    // Only Maps listings are checked, not third-party citation sites
+    citationData: {
+      source: 'Google Maps listings found during the checks',
+      napHints: results.napHints
+    },
+    businessType: params.businessType || results.listings[0]?.category || 'Not specified',
+    serviceArea: [gridDescription, ...(params.locations || [])].filter(Boolean).join('; '),
+    locations: params.points.map(point => point.label),
+    localKeywords: params.keywords
+  };
+}
+
+// Named locations first, then the grid, as Maps check points
+function buildCheckPoints(body: LocalSeoRequest): CheckPoint[] {
+  const named = normalizeList(body.locations || []).map(location => ({ label: location, locationName: location }));
+  const grid = body.grid ? buildGeoGrid(body.grid, body.grid.size, body.grid.spacingKm) : [];
+  return [...named, ...grid];
+}
+
+// Trim and de-duplicate submitted values, case-insensitively
+function normalizeList(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.map(value => value.trim()).filter(value => {
+    const key = value.toLowerCase();
+    if (!value || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Returns an error message for an invalid request, or null
+function validateLocalSeoRequest(body: LocalSeoRequest): string | null {
+  if (!body.businessName?.trim()) {
+    return 'Business name is required';
+  }
+
+  const keywords = normalizeList(body.keywords || []);
+  if (keywords.length === 0) {
+    return 'At least one keyword is required';
+  }
+
+  if (keywords.length > MAX_KEYWORDS) {
+    return `Maximum ${MAX_KEYWORDS} keywords allowed`;
+  }
+
+  const locations = normalizeList(body.locations || []);
+  if (locations.length > MAX_LOCATIONS) {
+    return `Maximum ${MAX_LOCATIONS} locations allowed`;
+  }
+
+  if (body.grid) {
+    const { latitude, longitude, size, spacingKm } = body.grid;
+    if (typeof latitude !== 'number' || typeof longitude !== 'number' || Math.abs(latitude) > 85 || Math.abs(longitude) > 180) {
+      return 'Grid center must be a valid latitude and longitude';
+    }
+    if (!GRID_SIZES.includes(size)) {
+      return `Grid size must be one of ${GRID_SIZES.join(', ')}`;
+    }
+    if (typeof spacingKm !== 'number' || spacingKm < 0.5 || spacingKm > 10) {
+      return 'Grid spacing must be between 0.5 and 10 km';
+    }
+  }
+
+  if (locations.length === 0 && !body.grid) {
+    return 'Add at least one location or a grid to check from';
+  }
+
+  const checks = keywords.length * (locations.length + (body.grid ? body.grid.size * body.grid.size : 0));
+  if (checks > MAX_CHECKS) {
+    return `This request needs ${checks} Maps checks; reduce keywords, locations or grid size to stay within ${MAX_CHECKS}`;
+  }
+
+  return null;
+}
+
+// Update query status
+async function updateQueryStatus(queryId: string, status: QueryStatus, error?: string | null, progress?: number) {
+  await prisma.query.update({
+    where: { id: queryId },
+    data: {
+      status,
+      progress,
+      error,
+      completedAt: status === QueryStatus.COMPLETED || status === QueryStatus.FAILED ? new Date() : undefined
+    }
+  });
+}
@@ -0,0 +1,503 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient, Prisma, QueryType, QueryStatus, DatasetKind, ProjectRole } from '@prisma/client';
+import { QUERY_LIMITS, QUERY_TYPES } from '@seo-portal/shared';
+import DataForSEOService from '../../integrations/dataforseo/index.js';
+import type { OnPageData, OnPageIssue, OnPageItem } from '../../integrations/dataforseo/index.js';
+import AIService from '../../integrations/openai/index.js';
+import { BudgetService } from '../../services/budget.js';
+import { estimateOnPageAudit } from '../../services/cost-estimate.js';
+import { requirePermission, sendForbidden, checkResearchAccess, readableQueriesWhere } from '../../auth/permissions.js';
+
+const prisma = new PrismaClient();
+const dataForSEOService = new DataForSEOService({ prisma });
+const aiService = new AIService({ prisma });
+const budgetService = new BudgetService(prisma);
+
+const MAX_URLS = QUERY_LIMITS[QUERY_TYPES.ONPAGE_CHECK].max_urls;
+
+interface OnPageAuditRequest {
+  urls: string[];
+  device: 'desktop' | 'mobile';
+  projectId?: string;
+  confirmOverBudget?: boolean;
+  forceRefresh?: boolean;
+}
+
+interface OnPageAuditBody {
+  Body: OnPageAuditRequest;
+}
+
+interface AuditedPage extends OnPageData {
+  score: number;
+  issues: OnPageIssue[];
+}
+
+export default async function onPageAuditRoutes(fastify: FastifyInstance) {
+  // Start on-page audit process
+  fastify.post<OnPageAuditBody>('/onpage-audit', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const {
+        urls,
+        device,
+        projectId,
+        confirmOverBudget,
+        forceRefresh
+      } = request.body as OnPageAuditRequest;
+
+      // Viewers can read a project's research but not launch it
+      const accessError = await checkResearchAccess(request.user!, projectId);
+      if (accessError) {
+        return sendForbidden(reply, accessError, ProjectRole.EDITOR);
+      }
+
+      // Validate input
+      const validationError = validateOnPageAuditRequest(request.body as OnPageAuditRequest);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      const uniqueUrls = normalizeUrls(urls);
+
+      // Check budgets before any paid work is queued
+      const estimate = estimateOnPageAudit({ urls: uniqueUrls });
+      const budgetReview = await budgetService.reviewRequest(userId, {
+        estimatedUsd: estimate.totals.usd,
+        confirmed: confirmOverBudget
+      });
+      if (budgetReview.decision === 'reject') {
+        return reply.status(402).send({ error: 'Budget exceeded', overruns: budgetReview.overruns });
+      }
+
+      if (budgetReview.decision === 'confirm') {
+        return reply.status(409).send({
+          error: 'This request may exceed your budget',
+          requiresConfirmation: true,
+          estimate,
+          overruns: budgetReview.overruns,
+          perQueryLimit: budgetReview.perQueryLimit
+        });
+      }
+
+      // Create query record
+      const query = await prisma.query.create({
+        data: {
+          createdBy: userId,
+          projectId,
+          type: QueryType.ONPAGE_AUDIT,
+          payload: {
+            urls: uniqueUrls,
+            device: device || 'desktop',
+            confirmOverBudget: confirmOverBudget || false,
+            forceRefresh: forceRefresh || false
+          },
+          status: QueryStatus.PENDING,
+        }
+      });
+
+      // Start the on-page audit process asynchronously
+      processOnPageAudit(query.id).catch(error => {
+        console.error(`On-page audit failed for query ${query.id}:`, error);
+        updateQueryStatus(query.id, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
+      });
+
+      return reply.send({
+        queryId: query.id,
+        status: 'started',
+        message: 'On-page audit process has been started'
+      });
+
+    } catch (error) {
+      console.error('On-page audit request error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Estimate the cost of an on-page audit request without creating a query
+  fastify.post<OnPageAuditBody>('/onpage-audit/estimate', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const body = request.body as OnPageAuditRequest;
+      const validationError = validateOnPageAuditRequest(body);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      const estimate = estimateOnPageAudit({ urls: normalizeUrls(body.urls) });
+      const budgetReview = await budgetService.reviewRequest(userId, { estimatedUsd: estimate.totals.usd });
+
+      return reply.send({
+        estimate,
+        budget: budgetReview
+      });
+
+    } catch (error) {
+      console.error('On-page audit estimate error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get on-page audit results
+  fastify.get('/onpage-audit/:queryId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { queryId } = request.params as { queryId: string };
+
+      const query = await prisma.query.findFirst({
+        where: {
+          id: queryId,
+          type: QueryType.ONPAGE_AUDIT,
+          ...readableQueriesWhere(request.user!)
+        },
+        include: {
+          tasks: true,
+          datasets: true
+        }
+      });
+
+      if (!query) {
+        return reply.status(404).send({ error: 'Query not found' });
+      }
+
+      return reply.send({
+        query: {
+          id: query.id,
+          status: query.status,
+          parameters: query.payload,
+          createdAt: query.createdAt,
+          completedAt: query.completedAt,
+          error: query.error
+        },
+        tasks: query.tasks.map(task => ({
+          id: task.id,
+          step: task.step,
+          status: task.status,
+          cost: task.actualCost,
+          cacheHit: task.cacheHit
+        })),
+        datasets: query.datasets.map(dataset => ({
+          id: dataset.id,
+          name: dataset.name,
+          kind: dataset.kind,
+          meta: dataset.meta,
+          data: dataset.data
+        }))
+      });
+
+    } catch (error) {
+      console.error('Get on-page audit error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get on-page audit status
+  fastify.get('/onpage-audit/:queryId/status', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { queryId } = request.params as { queryId: string };
+
+      const query = await prisma.query.findFirst({
+        where: {
+          id: queryId,
+          type: QueryType.ONPAGE_AUDIT,
+          ...readableQueriesWhere(request.user!)
+        },
+        select: {
+          id: true,
+          status: true,
+          progress: true,
+          error: true,
+          tasks: {
+            select: {
+              step: true,
+              status: true
+            }
+          }
+        }
+      });
+
+      if (!query) {
+        return reply.status(404).send({ error: 'Query not found' });
+      }
+
+      return reply.send(query);
+
+    } catch (error) {
+      console.error('Get on-page audit status error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
+
+// Process on-page audit workflow (re-entrant: completed steps are reused on resume)
+export async function processOnPageAudit(queryId: string) {
+  try {
+    const query = await prisma.query.findUnique({
+      where: { id: queryId }
+    });
+
+    if (!query) {
+      throw new Error('Query not found');
+    }
+
+    const params = query.payload as unknown as OnPageAuditRequest;
+
+    // Paid work is charged to the requesting user; a confirmed request may go over budget,
+    // and forceRefresh bypasses cached DataForSEO responses
+    const taskOptions = {
+      userId: query.createdBy,
+      allowOverage: params.confirmOverBudget,
+      forceRefresh: params.forceRefresh
+    };
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 10);
+
+    // Step 1: Crawl each URL
+    const pageTaskIds: { [url: string]: string } = {};
+
+    for (const [index, url] of params.urls.entries()) {
+      pageTaskIds[url] = await dataForSEOService.submitTask('onpage_instant', [{
+        url,
+        browser_preset: params.device
+      }], { queryId, step: `ONPAGE:${url}`, ...taskOptions });
+
+      await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 10 + Math.round(((index + 1) / params.urls.length) * 40));
+    }
+
+    // Step 2: Collect page results (live tasks have normally answered already)
+    const dataForSEOResults = await dataForSEOService.waitForTasks(Object.values(pageTaskIds), {
+      timeout: 300000, // 5 minutes
+      checkInterval: 2000 // 2 seconds
+    });
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 60);
+
+    // Step 3: Extract page data and score issues
+    const auditResults = processAuditResults(dataForSEOResults, pageTaskIds, params);
+
+    // Store audit results (skipped when resuming after the dataset was already written)
+    const existingDataset = await prisma.dataset.findFirst({
+      where: { queryId, kind: DatasetKind.ONPAGE }
+    });
+
+    if (!existingDataset) {
+      await prisma.dataset.create({
+        data: {
+          projectId: query.projectId,
+          queryId,
+          name: `On-page audit: ${params.urls.length} URL${params.urls.length === 1 ? '' : 's'}`,
+          kind: DatasetKind.ONPAGE,
+          meta: {
+            urls: params.urls,
+            device: params.device,
+            averageScore: auditResults.overview.averageScore
+          },
+          data: auditResults as unknown as Prisma.InputJsonValue
+        }
+      });
+    }
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 70);
+
+    // Step 4: Prioritized fixes from the technical audit template
+    const aiJobId = await aiService.generateAnalysis(query.createdBy, {
+      type: 'technical_audit',
+      templateId: 'technical_seo_audit',
+      data: buildTechnicalAuditData(auditResults, params.device)
+    }, queryId, { step: 'AI_INSIGHTS', allowOverage: taskOptions.allowOverage });
+
+    const aiResult = await aiService.waitForJobs([aiJobId], query.createdBy, {
+      timeout: 180000 // 3 minutes
+    });
+
+    if (aiResult[aiJobId] && aiResult[aiJobId].status === 'completed') {
+      const existingInsights = await prisma.dataset.findFirst({
+        where: { queryId, kind: DatasetKind.AI_INSIGHTS }
+      });
+
+      if (!existingInsights) {
+        await prisma.dataset.create({
+          data: {
+            projectId: query.projectId,
+            queryId,
+            name: 'Technical SEO recommendations',
+            kind: DatasetKind.AI_INSIGHTS,
+            meta: {
+              analysisType: 'onpage_audit',
+              aiModel: 'gpt-4-turbo-preview',
+              templateUsed: 'technical_seo_audit'
+            },
+            data: aiResult[aiJobId].output
+          }
+        });
+      }
+    }
+
+    // Complete the query
+    await updateQueryStatus(queryId, QueryStatus.COMPLETED, null, 100);
+
+  } catch (error) {
+    console.error(`On-page audit processing error for query ${queryId}:`, error);
+    await updateQueryStatus(queryId, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// Process crawl results into the ONPAGE dataset shape
+function processAuditResults(
+  dataForSEOResults: any,
+  pageTaskIds: { [url: string]: string },
+  params: OnPageAuditRequest
+) {
+  const pages: AuditedPage[] = [];
+  const failedUrls: Array<{ url: string; error: string }> = [];
+
+  for (const url of params.urls) {
+    const result = dataForSEOResults[pageTaskIds[url]];
+    const item: OnPageItem | undefined = result?.tasks?.[0]?.result?.[0]?.items?.[0];
+
+    if (!item) {
+      failedUrls.push({ url, error: result?.error || result?.tasks?.[0]?.status_message || 'No page data returned' });
+      continue;
+    }
+
+    const page = dataForSEOService.onpage.extractPageData(item);
+    pages.push({ ...page, ...dataForSEOService.onpage.auditPage(page) });
+  }
+
+  const issueSummary = dataForSEOService.onpage.summarizeIssues(pages);
+  const countBySeverity = (severity: string) =>
+    pages.reduce((sum, page) => sum + page.issues.filter(issue => issue.severity === severity).length, 0);
+
+  return {
+    overview: {
+      pagesAudited: pages.length,
+      pagesFailed: failedUrls.length,
+      averageScore: pages.length > 0
+        ? Math.round(pages.reduce((sum, page) => sum + page.score, 0) / pages.length)
+        : 0,
+      issues: {
+        critical: countBySeverity('critical'),
+        high: countBySeverity('high'),
+        medium: countBySeverity('medium'),
+        low: countBySeverity('low')
+      }
+    },
+    pages: pages.sort((a, b) => a.score - b.score),
+    issueSummary,
+    failedUrls
+  };
+}
+
+// Map audit results onto the technical_seo_audit template variables
+function buildTechnicalAuditData(auditResults: ReturnType<typeof processAuditResults>, device: string) {
+  const pages = auditResults.pages;
+
+  return {
+    performanceData: {
+      averageScore: auditResults.overview.averageScore,
+      pages: pages.map(page => ({
+        url: page.url,
+        score: page.score,
+        pageSize: page.speed.pageSize,
+        renderBlockingResources: page.speed.renderBlockingResources
+      }))
+    },
+    crawlData: {
+      issueSummary: auditResults.issueSummary.map(issue => ({
+        issue: issue.label,
+        severity: issue.severity,
+        affectedPages: issue.affectedPages,
+        urls: issue.urls.slice(0, 10)
+      })),
+      pages: pages.map(page => ({
+        url: page.url,
+        title: page.title,
+        metaDescription: page.metaDescription,
+        h1: page.headings.h1,
+        wordCount: page.wordCount,
+        schemaMarkup: page.schemaMarkup
+      }))
+    },
+    coreWebVitals: pages.map(page => ({
+      url: page.url,
+      largestContentfulPaint: page.speed.largestContentfulPaint,
+      cumulativeLayoutShift: page.speed.cumulativeLayoutShift,
+      timeToInteractive: page.speed.timeToInteractive
+    })),
+    mobileUsability: device === 'mobile'
+      ? 'Pages were rendered with a mobile browser; the speed figures above are mobile measurements.'
+      : 'Not measured: pages were rendered with a desktop browser.',
+    indexingStatus: {
+      failedUrls: auditResults.failedUrls,
+      pages: pages.map(page => ({
+        url: page.url,
+        statusCode: page.statusCode,
+        redirectTo: page.redirectTo,
+        canonical: page.canonical
+      }))
+    }
+  };
+}
+
+// Trim and de-duplicate the submitted URLs
+function normalizeUrls(urls: string[]): string[] {
+  return Array.from(new Set(urls.map(url => url.trim()).filter(Boolean)));
+}
+
+function isValidUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Returns an error message for an invalid request, or null
+function validateOnPageAuditRequest(body: OnPageAuditRequest): string | null {
+  const urls = normalizeUrls(body.urls || []);
+
+  if (urls.length === 0) {
+    return 'At least one URL is required';
+  }
+
+  if (urls.length > MAX_URLS) {
+    return `Maximum ${MAX_URLS} URLs allowed`;
+  }
+
+  const invalid = urls.find(url => !isValidUrl(url));
+  if (invalid) {
+    return `Invalid URL: ${invalid}`;
+  }
+
+  return null;
+}
+
+// Update query status
+async function updateQueryStatus(queryId: string, status: QueryStatus, error?: string | null, progress?: number) {
+  await prisma.query.update({
+    where: { id: queryId },
+    data: {
+      status,
+      progress,
+      error,
+      completedAt: status === QueryStatus.COMPLETED || status === QueryStatus.FAILED ? new Date() : undefined
+    }
+  });
+}
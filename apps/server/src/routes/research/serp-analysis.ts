@@ -1,11 +1,23 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { PrismaClient, QueryType, TaskStatus } from '@prisma/client';
+import { PrismaClient, Prisma, QueryType, QueryStatus, ProjectRole, DatasetKind } from '@prisma/client';
 import DataForSEOService from '../../integrations/dataforseo/index.js';
 import AIService from '../../integrations/openai/index.js';
+import { BudgetService, BudgetExceededError } from '../../services/budget.js';
+import { estimateSerpAnalysis } from '../../services/cost-estimate.js';
+import { buildSerpHistory } from '../../services/serp-history.js';
+import {
+  calculateKeywordDifficulty,
+  difficultyTargets,
+  readBulkRanks,
+  readBulkReferringDomains,
+  type DifficultySignals
+} from '../../services/keyword-difficulty.js';
+import { requirePermission, sendForbidden, checkResearchAccess, readableQueriesWhere } from '../../auth/permissions.js';
 
 const prisma = new PrismaClient();
-const dataForSEOService = new DataForSEOService();
-const aiService = new AIService();
+const dataForSEOService = new DataForSEOService({ prisma });
+const aiService = new AIService({ prisma });
+const budgetService = new BudgetService(prisma);
 
 interface SerpAnalysisRequest {
   keywords: string[];
@@ -15,9 +27,15 @@ interface SerpAnalysisRequest {
   includeAds: boolean;
   includeLocal: boolean;
   includeFeatured: boolean;
-  analysisType: 'snapshot' | 'competitor' | 'features' | 'comprehensive';
+  analysisType: 'snapshot' | 'competitor' | 'features' | 'comprehensive' | 'history';
   competitorDomains?: string[];
+  // SERP history only: the domain to follow through the snapshots and the date range (YYYY-MM-DD)
+  targetDomain?: string;
+  dateFrom?: string;
+  dateTo?: string;
   projectId?: string;
+  confirmOverBudget?: boolean;
+  forceRefresh?: boolean;
 }
 
 interface SerpAnalysisBody {
@@ -26,7 +44,7 @@ interface SerpAnalysisBody {
 
 export default async function serpAnalysisRoutes(fastify: FastifyInstance) {
   // Start SERP analysis process
-  fastify.post<SerpAnalysisBody>('/serp-analysis', async (request: FastifyRequest, reply: FastifyReply) => {
+  fastify.post<SerpAnalysisBody>('/serp-analysis', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const userId = request.user?.id;
       if (!userId) {
@@ -43,29 +61,56 @@ export default async function serpAnalysisRoutes(fastify: FastifyInstance) {
         includeFeatured,
         analysisType,
         competitorDomains,
-        projectId
+        targetDomain,
+        dateFrom,
+        dateTo,
+        projectId,
+        confirmOverBudget,
+        forceRefresh
       } = request.body as SerpAnalysisRequest;
 
+      // Viewers can read a project's research but not launch it
+      const accessError = await checkResearchAccess(request.user!, projectId);
+      if (accessError) {
+        return sendForbidden(reply, accessError, ProjectRole.EDITOR);
+      }
+
       // Validate input
-      if (!keywords || keywords.length === 0) {
-        return reply.status(400).send({ error: 'At least one keyword is required' });
+      const validationError = validateSerpAnalysisRequest(request.body as SerpAnalysisRequest);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
       }
 
-      if (keywords.length > 10) {
-        return reply.status(400).send({ error: 'Maximum 10 keywords allowed' });
+      // Check budgets before any paid work is queued
+      const estimate = estimateSerpAnalysis(
+        { keywords, includeLocal, analysisType },
+        keyword => dataForSEOService.serp.detectLocalIntent(keyword)
+      );
+      const budgetReview = await budgetService.reviewRequest(userId, {
+        estimatedUsd: estimate.totals.usd,
+        confirmed: confirmOverBudget
+      });
+      if (budgetReview.decision === 'reject') {
+        return reply.status(402).send({ error: 'Budget exceeded', overruns: budgetReview.overruns });
       }
 
-      if (analysisType === 'competitor' && (!competitorDomains || competitorDomains.length === 0)) {
-        return reply.status(400).send({ error: 'Competitor domains required for competitor analysis' });
+      if (budgetReview.decision === 'confirm') {
+        return reply.status(409).send({
+          error: 'This request may exceed your budget',
+          requiresConfirmation: true,
+          estimate,
+          overruns: budgetReview.overruns,
+          perQueryLimit: budgetReview.perQueryLimit
+        });
       }
 
       // Create query record
       const query = await prisma.query.create({
         data: {
-          userId,
+          createdBy: userId,
           projectId,
-          type: QueryType.SERP_ANALYSIS,
-          parameters: {
+          type: QueryType.SERP_SNAPSHOT,
+          payload: {
             keywords,
             location,
             language,
@@ -74,16 +119,21 @@ export default async function serpAnalysisRoutes(fastify: FastifyInstance) {
             includeLocal,
             includeFeatured,
             analysisType,
-            competitorDomains: competitorDomains || []
+            competitorDomains: competitorDomains || [],
+            targetDomain: targetDomain || null,
+            dateFrom: dateFrom || null,
+            dateTo: dateTo || null,
+            confirmOverBudget: confirmOverBudget || false,
+            forceRefresh: forceRefresh || false
           },
-          status: TaskStatus.PENDING,
+          status: QueryStatus.PENDING,
         }
       });
 
       // Start the SERP analysis process asynchronously
       processSerpAnalysis(query.id).catch(error => {
         console.error(`SERP analysis failed for query ${query.id}:`, error);
-        updateQueryStatus(query.id, TaskStatus.FAILED, { error: error.message });
+        updateQueryStatus(query.id, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
       });
 
       return reply.send({
@@ -98,6 +148,34 @@ export default async function serpAnalysisRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Estimate the cost of a SERP analysis request without creating a query
+  fastify.post<SerpAnalysisBody>('/serp-analysis/estimate', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const body = request.body as SerpAnalysisRequest;
+      const validationError = validateSerpAnalysisRequest(body);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      const estimate = estimateSerpAnalysis(body, keyword => dataForSEOService.serp.detectLocalIntent(keyword));
+      const budgetReview = await budgetService.reviewRequest(userId, { estimatedUsd: estimate.totals.usd });
+
+      return reply.send({
+        estimate,
+        budget: budgetReview
+      });
+
+    } catch (error) {
+      console.error('SERP analysis estimate error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
   // Get SERP analysis results
   fastify.get('/serp-analysis/:queryId', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
@@ -111,16 +189,12 @@ export default async function serpAnalysisRoutes(fastify: FastifyInstance) {
       const query = await prisma.query.findFirst({
         where: {
           id: queryId,
-          userId,
-          type: QueryType.SERP_ANALYSIS
+          type: QueryType.SERP_SNAPSHOT,
+          ...readableQueriesWhere(request.user!)
         },
         include: {
-          tasks: {
-            include: {
-              datasets: true
-            }
-          },
-          briefs: true
+          tasks: true,
+          datasets: true
         }
       });
 
@@ -128,24 +202,39 @@ export default async function serpAnalysisRoutes(fastify: FastifyInstance) {
         return reply.status(404).send({ error: 'Query not found' });
       }
 
+      const insights = await prisma.dataset.findMany({
+        where: { queryId, kind: DatasetKind.AI_INSIGHTS }
+      });
+
       return reply.send({
         query: {
           id: query.id,
           status: query.status,
-          parameters: query.parameters,
+          parameters: query.payload,
           createdAt: query.createdAt,
           completedAt: query.completedAt,
           error: query.error
         },
         tasks: query.tasks.map(task => ({
           id: task.id,
-          type: task.type,
+          step: task.step,
           status: task.status,
-          progress: task.progress,
           result: task.result,
-          datasets: task.datasets
+          cacheHit: task.cacheHit
         })),
-        insights: query.briefs
+        datasets: query.datasets.map(dataset => ({
+          id: dataset.id,
+          name: dataset.name,
+          kind: dataset.kind,
+          meta: dataset.meta,
+          data: dataset.data
+        })),
+        insights: insights.map(dataset => ({
+          id: dataset.id,
+          type: dataset.kind,
+          content: dataset.data,
+          metadata: dataset.meta
+        }))
       });
 
     } catch (error) {
@@ -167,8 +256,8 @@ export default async function serpAnalysisRoutes(fastify: FastifyInstance) {
       const query = await prisma.query.findFirst({
         where: {
           id: queryId,
-          userId,
-          type: QueryType.SERP_ANALYSIS
+          type: QueryType.SERP_SNAPSHOT,
+          ...readableQueriesWhere(request.user!)
         },
         select: {
           id: true,
@@ -177,9 +266,8 @@ export default async function serpAnalysisRoutes(fastify: FastifyInstance) {
           error: true,
           tasks: {
             select: {
-              type: true,
-              status: true,
-              progress: true
+              step: true,
+              status: true
             }
           }
         }
@@ -198,37 +286,36 @@ export default async function serpAnalysisRoutes(fastify: FastifyInstance) {
   });
 }
 
-// Process SERP analysis workflow
-async function processSerpAnalysis(queryId: string) {
+// Process SERP analysis workflow (re-entrant: completed steps are reused on resume)
+export async function processSerpAnalysis(queryId: string) {
   try {
     const query = await prisma.query.findUnique({
-      where: { id: queryId },
-      include: { user: true }
+      where: { id: queryId }
     });
 
     if (!query) {
       throw new Error('Query not found');
     }
 
-    const params = query.parameters as SerpAnalysisRequest;
-    await updateQueryStatus(queryId, TaskStatus.IN_PROGRESS, null, 10);
+    const params = query.payload as unknown as SerpAnalysisRequest;
 
-    // Step 1: Get SERP data for organic results
-    const organicTask = await prisma.task.create({
-      data: {
-        queryId,
-        type: 'SERP_ORGANIC',
-        status: TaskStatus.PENDING,
-        parameters: {
-          keywords: params.keywords,
-          location: params.location,
-          language: params.language,
-          device: params.device
-        }
-      }
-    });
+    // Paid work is charged to the requesting user; a confirmed request may go over budget,
+    // and forceRefresh bypasses cached DataForSEO responses
+    const taskOptions = {
+      userId: query.createdBy,
+      allowOverage: params.confirmOverBudget,
+      forceRefresh: params.forceRefresh
+    };
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 10);
+
+    if (params.analysisType === 'history') {
+      await processSerpHistory(queryId, query.projectId, params, taskOptions);
+      await updateQueryStatus(queryId, QueryStatus.COMPLETED, null, 100);
+      return;
+    }
 
-    // Submit organic SERP tasks
+    // Step 1: Get SERP data for organic results
     const organicTaskIds = [];
     for (const keyword of params.keywords) {
       const taskId = await dataForSEOService.submitTask('serp_organic', [{
@@ -237,31 +324,15 @@ async function processSerpAnalysis(queryId: string) {
         language_name: params.language,
         device: params.device,
         os: params.device === 'mobile' ? 'android' : 'windows'
-      }]);
+      }], { queryId, step: `SERP_ORGANIC:${keyword}`, ...taskOptions });
       organicTaskIds.push(taskId);
     }
 
-    await updateTaskStatus(organicTask.id, TaskStatus.IN_PROGRESS, { dataForSEOTaskIds: organicTaskIds });
-    await updateQueryStatus(queryId, TaskStatus.IN_PROGRESS, null, 30);
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 30);
 
     // Step 2: Get local SERP data if requested
-    let localTask;
-    let localTaskIds = [];
+    const localTaskIds = [];
     if (params.includeLocal) {
-      localTask = await prisma.task.create({
-        data: {
-          queryId,
-          type: 'SERP_LOCAL',
-          status: TaskStatus.PENDING,
-          parameters: {
-            keywords: params.keywords,
-            location: params.location,
-            language: params.language,
-            device: params.device
-          }
-        }
-      });
-
       for (const keyword of params.keywords) {
         // Check if keyword has local intent before submitting
         if (dataForSEOService.serp.detectLocalIntent(keyword)) {
@@ -270,19 +341,13 @@ async function processSerpAnalysis(queryId: string) {
             location_name: params.location,
             language_name: params.language,
             device: params.device
-          }]);
+          }], { queryId, step: `SERP_LOCAL:${keyword}`, ...taskOptions });
           localTaskIds.push(taskId);
         }
       }
-
-      if (localTaskIds.length > 0) {
-        await updateTaskStatus(localTask.id, TaskStatus.IN_PROGRESS, { dataForSEOTaskIds: localTaskIds });
-      } else {
-        await updateTaskStatus(localTask.id, TaskStatus.COMPLETED, { message: 'No keywords with local intent found' });
-      }
     }
 
-    await updateQueryStatus(queryId, TaskStatus.IN_PROGRESS, null, 50);
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 50);
 
     // Step 3: Wait for DataForSEO tasks to complete
     const allTaskIds = [...organicTaskIds, ...localTaskIds];
@@ -291,44 +356,54 @@ async function processSerpAnalysis(queryId: string) {
       checkInterval: 10000 // 10 seconds
     });
 
-    await updateQueryStatus(queryId, TaskStatus.IN_PROGRESS, null, 70);
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 65);
 
-    // Step 4: Process SERP results
+    // Step 4: Link strength of the ranking domains and pages, for keyword difficulty
+    const difficultySignals = await fetchDifficultySignals(queryId, dataForSEOResults, organicTaskIds, taskOptions);
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 70);
+
+    // Step 5: Process SERP results
     const serpData = await processSerpResults(
       dataForSEOResults,
       organicTaskIds,
       localTaskIds,
-      params
+      params,
+      difficultySignals
     );
 
-    // Store processed SERP results
-    const serpDataset = await prisma.dataset.create({
-      data: {
-        taskId: organicTask.id,
-        type: 'SERP_DATA',
-        data: serpData,
-        metadata: {
-          keywordsAnalyzed: params.keywords.length,
-          totalResults: serpData.reduce((sum: number, result: any) => sum + result.items?.length || 0, 0),
-          serpFeatures: extractSerpFeatures(serpData),
-          analysisType: params.analysisType
-        }
-      }
+    // Store processed SERP results (skipped when resuming after the dataset was already written)
+    const existingDataset = await prisma.dataset.findFirst({
+      where: { queryId, kind: DatasetKind.SERP }
     });
 
-    await updateTaskStatus(organicTask.id, TaskStatus.COMPLETED, { datasetId: serpDataset.id });
-    if (localTask) {
-      await updateTaskStatus(localTask.id, TaskStatus.COMPLETED);
+    if (!existingDataset) {
+      await prisma.dataset.create({
+        data: {
+          projectId: query.projectId,
+          queryId,
+          name: `SERP: ${params.keywords.join(', ')}`,
+          kind: DatasetKind.SERP,
+          meta: {
+            keywordsAnalyzed: params.keywords.length,
+            totalResults: serpData.reduce((sum: number, result: any) => sum + result.items?.length || 0, 0),
+            serpFeatures: extractSerpFeatures(serpData),
+            analysisType: params.analysisType
+          },
+          data: serpData
+        }
+      });
     }
-    await updateQueryStatus(queryId, TaskStatus.IN_PROGRESS, null, 85);
 
-    // Step 5: Generate AI insights based on analysis type
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 85);
+
+    // Step 6: Generate AI insights based on analysis type
     if (params.analysisType === 'features' || params.analysisType === 'comprehensive') {
       const templateId = params.analysisType === 'features'
         ? 'serp_feature_optimization'
         : 'comprehensive'; // Use a generic template for comprehensive
 
-      const aiJobId = await aiService.generateAnalysis(query.userId, {
+      const aiJobId = await aiService.generateAnalysis(query.createdBy, {
         type: 'serp_analysis',
         templateId: params.analysisType === 'features' ? templateId : undefined,
         data: {
@@ -347,52 +422,166 @@ async function processSerpAnalysis(queryId: string) {
             ? ['featured snippets', 'SERP features', 'optimization opportunities']
             : ['ranking opportunities', 'competitor analysis', 'content strategy']
         }
-      }, queryId);
+      }, queryId, { step: 'AI_INSIGHTS', allowOverage: taskOptions.allowOverage });
 
       // Wait for AI analysis to complete
-      const aiResult = await aiService.waitForJobs([aiJobId], query.userId, {
+      const aiResult = await aiService.waitForJobs([aiJobId], query.createdBy, {
         timeout: 120000 // 2 minutes
       });
 
       if (aiResult[aiJobId] && aiResult[aiJobId].status === 'completed') {
-        await prisma.brief.create({
-          data: {
-            queryId,
-            type: 'AI_INSIGHTS',
-            content: aiResult[aiJobId].output,
-            metadata: {
-              analysisType: 'serp_analysis',
-              aiModel: 'gpt-4-turbo-preview',
-              templateUsed: templateId || 'generic'
-            }
-          }
+        const existingInsights = await prisma.dataset.findFirst({
+          where: { queryId, kind: DatasetKind.AI_INSIGHTS }
         });
+
+        if (!existingInsights) {
+          await prisma.dataset.create({
+            data: {
+              projectId: query.projectId,
+              queryId,
+              name: `SERP insights: ${params.keywords.join(', ')}`,
+              kind: DatasetKind.AI_INSIGHTS,
+              meta: {
+                analysisType: 'serp_analysis',
+                aiModel: 'gpt-4-turbo-preview',
+                templateUsed: templateId || 'generic'
+              },
+              data: aiResult[aiJobId].output
+            }
+          });
+        }
       }
     }
 
     // Step 6: Generate competitor analysis if requested
-    if (params.analysisType === 'competitor' || params.analysisType === 'comprehensive') {
+    const existingCompetitorDataset = await prisma.dataset.findFirst({
+      where: { queryId, kind: DatasetKind.COMPETITORS }
+    });
+
+    if ((params.analysisType === 'competitor' || params.analysisType === 'comprehensive') && !existingCompetitorDataset) {
       const competitorAnalysis = analyzeCompetitorPerformance(serpData, params.competitorDomains || []);
 
       await prisma.dataset.create({
         data: {
-          taskId: organicTask.id,
-          type: 'COMPETITOR_ANALYSIS',
-          data: competitorAnalysis,
-          metadata: {
+          projectId: query.projectId,
+          queryId,
+          name: `SERP competitors: ${(params.competitorDomains || []).join(', ')}`,
+          kind: DatasetKind.COMPETITORS,
+          meta: {
             competitorDomains: params.competitorDomains,
             analysisType: 'serp_competitor'
-          }
+          },
+          data: competitorAnalysis
         }
       });
     }
 
     // Complete the query
-    await updateQueryStatus(queryId, TaskStatus.COMPLETED, null, 100);
+    await updateQueryStatus(queryId, QueryStatus.COMPLETED, null, 100);
 
   } catch (error) {
     console.error(`SERP analysis processing error for query ${queryId}:`, error);
-    await updateQueryStatus(queryId, TaskStatus.FAILED, { error: error.message });
+    await updateQueryStatus(queryId, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// SERP history workflow: archived SERPs per keyword, each snapshot diffed against the one before it
+async function processSerpHistory(
+  queryId: string,
+  projectId: string | null,
+  params: SerpAnalysisRequest,
+  taskOptions: { userId: string; allowOverage?: boolean; forceRefresh?: boolean }
+) {
+  // Step 1: Request historical SERPs for each keyword
+  const historyTaskIds: Record<string, string> = {};
+  for (const keyword of params.keywords) {
+    historyTaskIds[keyword] = await dataForSEOService.submitTask('historical_serps', [{
+      keyword,
+      location_name: params.location,
+      language_name: params.language,
+      date_from: params.dateFrom || undefined,
+      date_to: params.dateTo || undefined
+    }], { queryId, step: `SERP_HISTORY:${keyword}`, ...taskOptions });
+  }
+
+  await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 40);
+
+  // Step 2: Wait for DataForSEO tasks to complete
+  const dataForSEOResults = await dataForSEOService.waitForTasks(Object.values(historyTaskIds), {
+    timeout: 600000, // 10 minutes
+    checkInterval: 10000 // 10 seconds
+  });
+
+  await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 80);
+
+  // Step 3: Diff the snapshots and store the timelines (skipped when resuming after the dataset was already written)
+  const existingDataset = await prisma.dataset.findFirst({
+    where: { queryId, kind: DatasetKind.SERP_HISTORY }
+  });
+  if (existingDataset) {
+    return;
+  }
+
+  const histories = params.keywords.map(keyword => {
+    const snapshots = dataForSEOResults[historyTaskIds[keyword]]?.tasks?.[0]?.result?.[0]?.items || [];
+    return buildSerpHistory(keyword, snapshots, params.targetDomain || null);
+  });
+
+  await prisma.dataset.create({
+    data: {
+      projectId,
+      queryId,
+      name: `SERP history: ${params.keywords.join(', ')}`,
+      kind: DatasetKind.SERP_HISTORY,
+      meta: {
+        keywordsAnalyzed: params.keywords.length,
+        snapshots: histories.reduce((sum, history) => sum + history.summary.snapshotCount, 0),
+        targetDomain: params.targetDomain || null,
+        dateFrom: params.dateFrom || null,
+        dateTo: params.dateTo || null,
+        analysisType: params.analysisType
+      },
+      data: histories as unknown as Prisma.InputJsonValue
+    }
+  });
+}
+
+// Domain ranks and page referring domains for every page in the top 10 of the organic SERPs,
+// in one bulk request each. Only running out of budget stops the query; if the backlinks API
+// fails, difficulty is scored from the SERPs alone.
+async function fetchDifficultySignals(
+  queryId: string,
+  dataForSEOResults: any,
+  organicTaskIds: string[],
+  taskOptions: { userId: string; allowOverage?: boolean; forceRefresh?: boolean }
+): Promise<DifficultySignals> {
+  const serps = organicTaskIds.map(taskId => dataForSEOResults[taskId]?.tasks?.[0]?.result?.[0]?.items || []);
+  const { domains, urls } = difficultyTargets(serps);
+  if (domains.length === 0) {
+    return {};
+  }
+
+  try {
+    const ranksTaskId = await dataForSEOService.submitTask('backlinks_bulk_ranks', [{ targets: domains }], {
+      queryId, step: 'DIFFICULTY:DOMAIN_RANKS', ...taskOptions
+    });
+    const pagesTaskId = await dataForSEOService.submitTask('backlinks_bulk_referring_domains', [{ targets: urls }], {
+      queryId, step: 'DIFFICULTY:PAGE_REFERRING_DOMAINS', ...taskOptions
+    });
+
+    const results = await dataForSEOService.waitForTasks([ranksTaskId, pagesTaskId], {
+      timeout: 60000, // live endpoints, already answered
+      checkInterval: 2000
+    });
+
+    return {
+      domainRanks: readBulkRanks(results[ranksTaskId]?.tasks?.[0]?.result?.[0]?.items || []),
+      pageReferringDomains: readBulkReferringDomains(results[pagesTaskId]?.tasks?.[0]?.result?.[0]?.items || [])
+    };
+  } catch (error) {
+    if (error instanceof BudgetExceededError) throw error;
+    console.error(`Backlink data for keyword difficulty failed for query ${queryId}, scoring from SERPs only:`, error);
+    return {};
   }
 }
 
@@ -401,7 +590,8 @@ async function processSerpResults(
   dataForSEOResults: any,
   organicTaskIds: string[],
   localTaskIds: string[],
-  params: SerpAnalysisRequest
+  params: SerpAnalysisRequest,
+  difficultySignals: DifficultySignals
 ) {
   const serpData = [];
 
@@ -412,6 +602,7 @@ async function processSerpResults(
       const task = result.tasks[0];
       if (task.result && task.result.length > 0) {
         const serpResult = task.result[0];
+        const difficulty = calculateKeywordDifficulty(serpResult.items || [], difficultySignals);
 
         // Extract and process SERP data
         const processedResult = {
@@ -433,7 +624,8 @@ async function processSerpResults(
           })) || [],
           serpFeatures: dataForSEOService.serp.extractSerpFeatures(serpResult.items || []),
           contentTypes: dataForSEOService.serp.analyzeContentTypes(serpResult.items || []),
-          keywordDifficulty: dataForSEOService.serp.calculateKeywordDifficulty(serpResult.items || [])
+          keywordDifficulty: difficulty.score,
+          difficulty
         };
 
         serpData.push(processedResult);
@@ -601,28 +793,50 @@ function analyzeCompetitorPerformance(serpData: any[], competitorDomains: string
   return competitorAnalysis;
 }
 
+// Returns an error message for an invalid request, or null
+function validateSerpAnalysisRequest(body: SerpAnalysisRequest): string | null {
+  const { keywords, analysisType, competitorDomains, dateFrom, dateTo } = body;
+
+  if (!keywords || keywords.length === 0) {
+    return 'At least one keyword is required';
+  }
+
+  if (keywords.length > 10) {
+    return 'Maximum 10 keywords allowed';
+  }
+
+  if (analysisType === 'competitor' && (!competitorDomains || competitorDomains.length === 0)) {
+    return 'Competitor domains required for competitor analysis';
+  }
+
+  if (analysisType === 'history') {
+    // Every keyword's history is a separate paid task with months of snapshots
+    if (keywords.length > 5) {
+      return 'Maximum 5 keywords allowed for SERP history';
+    }
+
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if ((dateFrom && !datePattern.test(dateFrom)) || (dateTo && !datePattern.test(dateTo))) {
+      return 'Dates must be in YYYY-MM-DD format';
+    }
+
+    if (dateFrom && dateTo && dateFrom > dateTo) {
+      return 'dateFrom must be before dateTo';
+    }
+  }
+
+  return null;
+}
+
 // Update query status
-async function updateQueryStatus(queryId: string, status: TaskStatus, error?: any, progress?: number) {
+async function updateQueryStatus(queryId: string, status: QueryStatus, error?: string | null, progress?: number) {
   await prisma.query.update({
     where: { id: queryId },
     data: {
       status,
       progress,
       error,
-      completedAt: status === TaskStatus.COMPLETED || status === TaskStatus.FAILED ? new Date() : undefined
+      completedAt: status === QueryStatus.COMPLETED || status === QueryStatus.FAILED ? new Date() : undefined
     }
   });
 }
-
-// Update task status
-async function updateTaskStatus(taskId: string, status: TaskStatus, result?: any, progress?: number) {
-  await prisma.task.update({
-    where: { id: taskId },
-    data: {
-      status,
-      progress,
-      result,
-      completedAt: status === TaskStatus.COMPLETED || status === TaskStatus.FAILED ? new Date() : undefined
-    }
-  });
-}
\ No newline at end of file
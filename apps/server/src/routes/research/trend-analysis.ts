@@ -0,0 +1,522 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PrismaClient, Prisma, QueryType, QueryStatus, DatasetKind, ProjectRole } from '@prisma/client';
+import DataForSEOService from '../../integrations/dataforseo/index.js';
+import AIService from '../../integrations/openai/index.js';
+import { BudgetService } from '../../services/budget.js';
+import { estimateTrendAnalysis } from '../../services/cost-estimate.js';
+import {
+  readTrendSeries,
+  readBreakoutTerms,
+  analyzeKeywordTrend,
+  buildContentCalendar,
+  monthName,
+  TRENDS_KEYWORDS_PER_TASK,
+  type KeywordTrend,
+  type BreakoutTerm,
+  type CalendarEntry
+} from '../../services/seasonality.js';
+import { requirePermission, sendForbidden, checkResearchAccess, readableQueriesWhere } from '../../auth/permissions.js';
+
+const prisma = new PrismaClient();
+const dataForSEOService = new DataForSEOService({ prisma });
+const aiService = new AIService({ prisma });
+const budgetService = new BudgetService(prisma);
+
+const MAX_KEYWORDS = 20;
+const DEFAULT_LEAD_TIME_WEEKS = 8;
+// Enough years for calendar-month averages and year-over-year growth to smooth out one-off spikes
+const HISTORY_YEARS = 5;
+
+interface TrendAnalysisRequest {
+  keywords: string[];
+  location: string;
+  language: string;
+  // Weeks between publishing and the start of a seasonal peak
+  leadTimeWeeks?: number;
+  industry?: string;
+  projectId?: string;
+  confirmOverBudget?: boolean;
+  forceRefresh?: boolean;
+}
+
+interface TrendAnalysisBody {
+  Body: TrendAnalysisRequest;
+}
+
+interface TrendAnalysisResults {
+  overview: {
+    keywordsAnalyzed: number;
+    seasonalKeywords: number;
+    risingKeywords: number;
+    breakoutKeywords: number;
+    firstMonth: string | null;
+    lastMonth: string | null;
+    leadTimeWeeks: number;
+  };
+  keywords: KeywordTrend[];
+  breakoutTerms: BreakoutTerm[];
+  calendar: CalendarEntry[];
+}
+
+export default async function trendAnalysisRoutes(fastify: FastifyInstance) {
+  // Start trend analysis process
+  fastify.post<TrendAnalysisBody>('/trend-analysis', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const {
+        keywords,
+        location,
+        language,
+        leadTimeWeeks,
+        industry,
+        projectId,
+        confirmOverBudget,
+        forceRefresh
+      } = request.body as TrendAnalysisRequest;
+
+      // Viewers can read a project's research but not launch it
+      const accessError = await checkResearchAccess(request.user!, projectId);
+      if (accessError) {
+        return sendForbidden(reply, accessError, ProjectRole.EDITOR);
+      }
+
+      // Validate input
+      const validationError = validateTrendAnalysisRequest(request.body as TrendAnalysisRequest);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      const uniqueKeywords = normalizeKeywords(keywords);
+
+      // Check budgets before any paid work is queued
+      const estimate = estimateTrendAnalysis({ keywords: uniqueKeywords });
+      const budgetReview = await budgetService.reviewRequest(userId, {
+        estimatedUsd: estimate.totals.usd,
+        confirmed: confirmOverBudget
+      });
+      if (budgetReview.decision === 'reject') {
+        return reply.status(402).send({ error: 'Budget exceeded', overruns: budgetReview.overruns });
+      }
+
+      if (budgetReview.decision === 'confirm') {
+        return reply.status(409).send({
+          error: 'This request may exceed your budget',
+          requiresConfirmation: true,
+          estimate,
+          overruns: budgetReview.overruns,
+          perQueryLimit: budgetReview.perQueryLimit
+        });
+      }
+
+      // Create query record
+      const query = await prisma.query.create({
+        data: {
+          createdBy: userId,
+          projectId,
+          type: QueryType.TREND_ANALYSIS,
+          payload: {
+            keywords: uniqueKeywords,
+            location,
+            language,
+            leadTimeWeeks: leadTimeWeeks || DEFAULT_LEAD_TIME_WEEKS,
+            industry: industry || null,
+            confirmOverBudget: confirmOverBudget || false,
+            forceRefresh: forceRefresh || false
+          },
+          status: QueryStatus.PENDING,
+        }
+      });
+
+      // Start the trend analysis process asynchronously
+      processTrendAnalysis(query.id).catch(error => {
+        console.error(`Trend analysis failed for query ${query.id}:`, error);
+        updateQueryStatus(query.id, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
+      });
+
+      return reply.send({
+        queryId: query.id,
+        status: 'started',
+        message: 'Trend analysis process has been started'
+      });
+
+    } catch (error) {
+      console.error('Trend analysis request error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Estimate the cost of a trend analysis request without creating a query
+  fastify.post<TrendAnalysisBody>('/trend-analysis/estimate', { preHandler: requirePermission('create:queries') }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const body = request.body as TrendAnalysisRequest;
+      const validationError = validateTrendAnalysisRequest(body);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      const estimate = estimateTrendAnalysis({ keywords: normalizeKeywords(body.keywords) });
+      const budgetReview = await budgetService.reviewRequest(userId, { estimatedUsd: estimate.totals.usd });
+
+      return reply.send({
+        estimate,
+        budget: budgetReview
+      });
+
+    } catch (error) {
+      console.error('Trend analysis estimate error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get trend analysis results
+  fastify.get('/trend-analysis/:queryId', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { queryId } = request.params as { queryId: string };
+
+      const query = await prisma.query.findFirst({
+        where: {
+          id: queryId,
+          type: QueryType.TREND_ANALYSIS,
+          ...readableQueriesWhere(request.user!)
+        },
+        include: {
+          tasks: true,
+          datasets: true
+        }
+      });
+
+      if (!query) {
+        return reply.status(404).send({ error: 'Query not found' });
+      }
+
+      return reply.send({
+        query: {
+          id: query.id,
+          status: query.status,
+          parameters: query.payload,
+          createdAt: query.createdAt,
+          completedAt: query.completedAt,
+          error: query.error
+        },
+        tasks: query.tasks.map(task => ({
+          id: task.id,
+          step: task.step,
+          status: task.status,
+          cost: task.actualCost,
+          cacheHit: task.cacheHit
+        })),
+        datasets: query.datasets.map(dataset => ({
+          id: dataset.id,
+          name: dataset.name,
+          kind: dataset.kind,
+          meta: dataset.meta,
+          data: dataset.data
+        }))
+      });
+
+    } catch (error) {
+      console.error('Get trend analysis error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get trend analysis status
+  fastify.get('/trend-analysis/:queryId/status', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user?.id;
+      if (!userId) {
+        return reply.status(401).send({ error: 'Authentication required' });
+      }
+
+      const { queryId } = request.params as { queryId: string };
+
+      const query = await prisma.query.findFirst({
+        where: {
+          id: queryId,
+          type: QueryType.TREND_ANALYSIS,
+          ...readableQueriesWhere(request.user!)
+        },
+        select: {
+          id: true,
+          status: true,
+          progress: true,
+          error: true,
+          tasks: {
+            select: {
+              step: true,
+              status: true
+            }
+          }
+        }
+      });
+
+      if (!query) {
+        return reply.status(404).send({ error: 'Query not found' });
+      }
+
+      return reply.send(query);
+
+    } catch (error) {
+      console.error('Get trend analysis status error:', error);
+      return reply.status(500).send({ error: 'Internal server error' });
+    }
+  });
+}
+
+// Process trend analysis workflow (re-entrant: completed steps are reused on resume)
+export async function processTrendAnalysis(queryId: string) {
+  try {
+    const query = await prisma.query.findUnique({
+      where: { id: queryId }
+    });
+
+    if (!query) {
+      throw new Error('Query not found');
+    }
+
+    const params = query.payload as unknown as TrendAnalysisRequest;
+
+    // Paid work is charged to the requesting user; a confirmed request may go over budget,
+    // and forceRefresh bypasses cached DataForSEO responses
+    const taskOptions = {
+      userId: query.createdBy,
+      allowOverage: params.confirmOverBudget,
+      forceRefresh: params.forceRefresh
+    };
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 10);
+
+    // Step 1: Request Google Trends interest over time and rising queries, in batches of
+    // keywords Google Trends can compare at once
+    const dateFrom = new Date();
+    dateFrom.setUTCFullYear(dateFrom.getUTCFullYear() - HISTORY_YEARS);
+
+    const batchTaskIds: string[] = [];
+    for (let start = 0; start < params.keywords.length; start += TRENDS_KEYWORDS_PER_TASK) {
+      const batch = params.keywords.slice(start, start + TRENDS_KEYWORDS_PER_TASK);
+      batchTaskIds.push(await dataForSEOService.submitTask('keywords_trends', [{
+        keywords: batch,
+        location_name: params.location,
+        language_name: params.language,
+        date_from: dateFrom.toISOString().split('T')[0],
+        item_types: ['google_trends_graph', 'google_trends_queries_list']
+      }], { queryId, step: `TRENDS:${batch.join(',')}`, ...taskOptions }));
+    }
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 30);
+
+    // Step 2: Wait for DataForSEO tasks to complete
+    const dataForSEOResults = await dataForSEOService.waitForTasks(batchTaskIds, {
+      timeout: 600000, // 10 minutes
+      checkInterval: 10000 // 10 seconds
+    });
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 60);
+
+    // Step 3: Detect seasonality, growth and breakouts, and plan publish-by dates
+    const trendResults = processTrendResults(dataForSEOResults, batchTaskIds, params);
+
+    // Store trend results (skipped when resuming after the dataset was already written)
+    const existingDataset = await prisma.dataset.findFirst({
+      where: { queryId, kind: DatasetKind.TRENDS }
+    });
+
+    if (!existingDataset) {
+      await prisma.dataset.create({
+        data: {
+          projectId: query.projectId,
+          queryId,
+          name: `Trends: ${params.keywords.slice(0, 3).join(', ')}${params.keywords.length > 3 ? ` +${params.keywords.length - 3}` : ''}`,
+          kind: DatasetKind.TRENDS,
+          meta: {
+            keywords: params.keywords,
+            location: params.location,
+            seasonalKeywords: trendResults.overview.seasonalKeywords,
+            leadTimeWeeks: trendResults.overview.leadTimeWeeks
+          },
+          data: trendResults as unknown as Prisma.InputJsonValue
+        }
+      });
+    }
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 70);
+
+    // Step 4: Content calendar from the seasonal trend template
+    const aiJobId = await aiService.generateAnalysis(query.createdBy, {
+      type: 'trend_analysis',
+      templateId: 'seasonal_trend_analysis',
+      data: buildSeasonalTemplateData(trendResults, params)
+    }, queryId, { step: 'AI_INSIGHTS', allowOverage: taskOptions.allowOverage });
+
+    const aiResult = await aiService.waitForJobs([aiJobId], query.createdBy, {
+      timeout: 180000 // 3 minutes
+    });
+
+    if (aiResult[aiJobId] && aiResult[aiJobId].status === 'completed') {
+      const existingInsights = await prisma.dataset.findFirst({
+        where: { queryId, kind: DatasetKind.AI_INSIGHTS }
+      });
+
+      if (!existingInsights) {
+        await prisma.dataset.create({
+          data: {
+            projectId: query.projectId,
+            queryId,
+            name: 'Seasonal content calendar',
+            kind: DatasetKind.AI_INSIGHTS,
+            meta: {
+              analysisType: 'trend_analysis',
+              aiModel: 'gpt-4-turbo-preview',
+              templateUsed: 'seasonal_trend_analysis'
+            },
+            data: aiResult[aiJobId].output
+          }
+        });
+      }
+    }
+
+    // Complete the query
+    await updateQueryStatus(queryId, QueryStatus.COMPLETED, null, 100);
+
+  } catch (error) {
+    console.error(`Trend analysis processing error for query ${queryId}:`, error);
+    await updateQueryStatus(queryId, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// Process Google Trends results into the TRENDS dataset shape
+function processTrendResults(
+  dataForSEOResults: any,
+  batchTaskIds: string[],
+  params: TrendAnalysisRequest
+): TrendAnalysisResults {
+  const keywords: KeywordTrend[] = [];
+  const breakoutTerms: BreakoutTerm[] = [];
+
+  for (const [index, taskId] of batchTaskIds.entries()) {
+    const items = dataForSEOResults[taskId]?.tasks?.[0]?.result?.[0]?.items || [];
+    const batch = params.keywords.slice(index * TRENDS_KEYWORDS_PER_TASK, (index + 1) * TRENDS_KEYWORDS_PER_TASK);
+
+    for (const keyword of batch) {
+      keywords.push(analyzeKeywordTrend(keyword, readTrendSeries(items, keyword)));
+    }
+    breakoutTerms.push(...readBreakoutTerms(items));
+  }
+
+  const leadTimeWeeks = params.leadTimeWeeks || DEFAULT_LEAD_TIME_WEEKS;
+  const calendar = buildContentCalendar(keywords, leadTimeWeeks);
+  const months = keywords.flatMap(trend => trend.series.map(point => point.month)).sort();
+
+  return {
+    overview: {
+      keywordsAnalyzed: keywords.length,
+      seasonalKeywords: keywords.filter(trend => trend.seasonality !== 'low').length,
+      risingKeywords: keywords.filter(trend => trend.yoyGrowth !== null && trend.yoyGrowth > 0).length,
+      breakoutKeywords: keywords.filter(trend => trend.breakout).length,
+      firstMonth: months[0] ?? null,
+      lastMonth: months[months.length - 1] ?? null,
+      leadTimeWeeks
+    },
+    keywords,
+    breakoutTerms: breakoutTerms.sort((a, b) => b.growth - a.growth),
+    calendar
+  };
+}
+
+// Map trend results onto the seasonal_trend_analysis template variables
+function buildSeasonalTemplateData(results: TrendAnalysisResults, params: TrendAnalysisRequest) {
+  const peakCounts = Array.from({ length: 12 }, (_, month) => ({
+    month: monthName(month + 1),
+    keywordsPeaking: results.keywords.filter(trend => trend.peakMonths.includes(month + 1)).length
+  }));
+
+  return {
+    trendData: results.keywords.map(trend => ({
+      keyword: trend.keyword,
+      seasonality: trend.seasonality,
+      peakMonths: trend.peakMonths.map(monthName),
+      monthlyIndex: Object.fromEntries(trend.monthlyProfile.map((value, month) => [monthName(month + 1), value])),
+      yearOverYearGrowthPercent: trend.yoyGrowth,
+      lastThreeMonthsChangePercent: trend.recentChange,
+      breakout: trend.breakout
+    })),
+    historicalData: results.keywords.map(trend => ({
+      keyword: trend.keyword,
+      // The last two years month by month; older data is summarized by the monthly index
+      interestByMonth: trend.series.slice(-24).map(point => `${point.month.slice(0, 7)}: ${point.value}`)
+    })),
+    industryPatterns: {
+      keywordsPeakingByMonth: peakCounts,
+      breakoutRelatedQueries: results.breakoutTerms.slice(0, 20)
+    },
+    industry: params.industry || 'Not specified',
+    seasonality: `${results.overview.seasonalKeywords} of ${results.overview.keywordsAnalyzed} keywords are seasonal; ` +
+      `${results.overview.breakoutKeywords} are breaking out. Interest is relative Google Trends data (0-100) for ${params.location}.`,
+    marketingCalendar: {
+      leadTimeWeeks: results.overview.leadTimeWeeks,
+      publishByDates: results.calendar.map(entry => ({
+        keyword: entry.keyword,
+        season: entry.season ?? 'rising interest, no seasonal peak',
+        seasonStart: entry.seasonStart,
+        publishBy: entry.publishBy
+      }))
+    }
+  };
+}
+
+// Trim and de-duplicate the submitted keywords, case-insensitively
+function normalizeKeywords(keywords: string[]): string[] {
+  const seen = new Set<string>();
+  return keywords.map(keyword => keyword.trim()).filter(keyword => {
+    const key = keyword.toLowerCase();
+    if (!keyword || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Returns an error message for an invalid request, or null
+function validateTrendAnalysisRequest(body: TrendAnalysisRequest): string | null {
+  const keywords = normalizeKeywords(body.keywords || []);
+
+  if (keywords.length === 0) {
+    return 'At least one keyword is required';
+  }
+
+  if (keywords.length > MAX_KEYWORDS) {
+    return `Maximum ${MAX_KEYWORDS} keywords allowed`;
+  }
+
+  if (body.leadTimeWeeks !== undefined && (!Number.isInteger(body.leadTimeWeeks) || body.leadTimeWeeks < 1 || body.leadTimeWeeks > 26)) {
+    return 'Lead time must be between 1 and 26 weeks';
+  }
+
+  return null;
+}
+
+// Update query status
+async function updateQueryStatus(queryId: string, status: QueryStatus, error?: string | null, progress?: number) {
+  await prisma.query.update({
+    where: { id: queryId },
+    data: {
+      status,
+      progress,
+      error,
+      completedAt: status === QueryStatus.COMPLETED || status === QueryStatus.FAILED ? new Date() : undefined
+    }
+  });
+}
@@ -0,0 +1,49 @@
+import { timingSafeEqual } from 'crypto';
+import { FastifyInstance } from 'fastify';
+import getEnvConfig from '../../config/env.js';
+
+const env = getEnvConfig();
+
+interface PingbackQuery {
+  id?: string;
+  tag?: string;
+  token?: string;
+}
+
+function isValidToken(token?: string): boolean {
+  if (!env.DATAFORSEO_CALLBACK_SECRET) return true;
+  if (!token) return false;
+
+  const expected = Buffer.from(env.DATAFORSEO_CALLBACK_SECRET);
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export default async function dataForSEOWebhookRoutes(fastify: FastifyInstance) {
+  // DataForSEO calls this when a task posted with a pingback_url has finished
+  fastify.get<{ Querystring: PingbackQuery }>('/dataforseo/pingback', async (request, reply) => {
+    const { id, token } = request.query;
+
+    if (!isValidToken(token)) {
+      return reply.status(401).send({ error: 'Invalid callback token' });
+    }
+
+    if (!id) {
+      return reply.status(400).send({ error: 'Task ID is required' });
+    }
+
+    try {
+      // Only tasks we submitted are accepted; the result is fetched from DataForSEO, not trusted from the caller
+      const task = await fastify.dataForSEO.handleTaskCallback(id);
+      if (!task) {
+        return reply.status(404).send({ error: 'Unknown task' });
+      }
+
+      // The workflow waiting on this task picks up the stored result on its next check
+      return reply.send({ received: true, status: task.status });
+    } catch (error) {
+      request.log.error(`DataForSEO pingback for task ${id} failed: ${error instanceof Error ? error.message : error}`);
+      return reply.status(500).send({ error: 'Failed to process callback' });
+    }
+  });
+}
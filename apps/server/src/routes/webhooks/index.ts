@@ -0,0 +1,7 @@
+import { FastifyInstance } from 'fastify';
+import dataForSEOWebhookRoutes from './dataforseo.js';
+
+export default async function webhookRoutes(fastify: FastifyInstance) {
+  // Register provider callbacks under /api/webhooks; these are public and verify themselves
+  await fastify.register(dataForSEOWebhookRoutes);
+}
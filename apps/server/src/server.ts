@@ -3,16 +3,30 @@ import cors from '@fastify/cors';
 import { PrismaClient } from '@prisma/client';
 import authPlugin from './auth/plugin.js';
 import researchRoutes from './routes/research/index.js';
+import projectRoutes from './routes/projects/index.js';
+import budgetRoutes from './routes/budgets/index.js';
+import briefRoutes from './routes/briefs/index.js';
+import webhookRoutes from './routes/webhooks/index.js';
+import downloadRoutes from './routes/downloads/index.js';
+import integrationRoutes from './routes/integrations/index.js';
+import datasetRoutes from './routes/datasets/index.js';
+import notificationRoutes from './routes/notifications/index.js';
+import ctrCurveRoutes from './routes/ctr-curves/index.js';
 import DataForSEOService from './integrations/dataforseo/index.js';
 import AIService from './integrations/openai/index.js';
 import getEnvConfig from './config/env.js';
+import { resumeInterruptedQueries } from './workers/query-recovery.js';
+import { ExportService } from './services/exports/index.js';
+import { RankCheckScheduler } from './workers/rank-scheduler.js';
 
 const env = getEnvConfig();
 
 // Initialize services
 const prisma = new PrismaClient();
-const dataForSEOService = new DataForSEOService();
-const aiService = new AIService();
+const dataForSEOService = new DataForSEOService({ prisma });
+const aiService = new AIService({ prisma });
+const exportService = new ExportService(prisma);
+const rankCheckScheduler = new RankCheckScheduler(prisma);
 
 // Create Fastify instance
 const fastify = Fastify({
@@ -63,6 +77,15 @@ async function setupServer() {
 
     // Register API routes
     await fastify.register(researchRoutes, { prefix: '/api/research' });
+    await fastify.register(projectRoutes, { prefix: '/api/projects' });
+    await fastify.register(datasetRoutes, { prefix: '/api/datasets' });
+    await fastify.register(budgetRoutes, { prefix: '/api/budgets' });
+    await fastify.register(briefRoutes, { prefix: '/api/briefs' });
+    await fastify.register(webhookRoutes, { prefix: '/api/webhooks' });
+    await fastify.register(downloadRoutes, { prefix: '/api/downloads' });
+    await fastify.register(integrationRoutes, { prefix: '/api/integrations' });
+    await fastify.register(notificationRoutes, { prefix: '/api/notifications' });
+    await fastify.register(ctrCurveRoutes, { prefix: '/api/ctr-curves' });
 
     // Health check endpoint
     fastify.get('/health', async (request, reply) => {
@@ -102,6 +125,15 @@ async function setupServer() {
         endpoints: {
           health: '/health',
           research: '/api/research',
+          projects: '/api/projects',
+          datasets: '/api/datasets',
+          budgets: '/api/budgets',
+          briefs: '/api/briefs',
+          downloads: '/api/downloads',
+          integrations: '/api/integrations',
+          notifications: '/api/notifications',
+          ctrCurves: '/api/ctr-curves',
+          webhooks: '/api/webhooks',
           auth: '/auth'
         }
       });
@@ -147,6 +179,9 @@ async function setupServer() {
     // Graceful shutdown
     process.on('SIGTERM', async () => {
       fastify.log.info('Received SIGTERM, shutting down gracefully');
+      dataForSEOService.stopTaskMonitoring();
+      exportService.stopCleanup();
+      rankCheckScheduler.stop();
       await fastify.close();
       await prisma.$disconnect();
       process.exit(0);
@@ -154,6 +189,9 @@ async function setupServer() {
 
     process.on('SIGINT', async () => {
       fastify.log.info('Received SIGINT, shutting down gracefully');
+      dataForSEOService.stopTaskMonitoring();
+      exportService.stopCleanup();
+      rankCheckScheduler.stop();
       await fastify.close();
       await prisma.$disconnect();
       process.exit(0);
@@ -188,6 +226,25 @@ async function start() {
     server.log.info(`🔍 DataForSEO: ${dataForSEOStatus.isValid ? 'Connected' : 'Disconnected'}`);
     server.log.info(`🤖 OpenAI: ${openAIStatus ? 'Connected' : 'Disconnected'}`);
 
+    // Pick up DataForSEO tasks, AI jobs, research workflows and exports left in flight by the previous process
+    dataForSEOService.startTaskMonitoring();
+    const resumedJobs = await aiService.resumePendingJobs();
+    if (resumedJobs > 0) {
+      server.log.info(`♻️ Requeued ${resumedJobs} pending AI analysis jobs`);
+    }
+    const resumed = await resumeInterruptedQueries(prisma, server.log);
+    if (resumed > 0) {
+      server.log.info(`♻️ Resumed ${resumed} interrupted research queries`);
+    }
+    const resumedExports = await exportService.resumePending();
+    if (resumedExports > 0) {
+      server.log.info(`♻️ Resumed ${resumedExports} pending brief exports`);
+    }
+    exportService.startCleanup();
+
+    // Start scheduled rank checks once interrupted ones have been resumed
+    rankCheckScheduler.start();
+
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
@@ -0,0 +1,271 @@
+import dns from 'node:dns';
+import https from 'node:https';
+import net from 'node:net';
+import axios from 'axios';
+import { PrismaClient, Prisma, AlertChannel } from '@prisma/client';
+import getEnvConfig from '../config/env.js';
+import { sendEmail, isEmailConfigured } from '../integrations/email/client.js';
+import { evaluateAlertRule, formatAlertMessage, type AlertMessage, type KeywordSnapshot } from './rank-alerts.js';
+import type { RankedResult } from './rank-tracking.js';
+
+const env = getEnvConfig();
+
+export interface AlertDelivery {
+  channel: AlertChannel;
+  status: 'sent' | 'failed' | 'skipped';
+  recipients?: number;
+  error?: string;
+}
+
+interface AlertRecipients {
+  userIds: string[];
+  emails: string[];
+}
+
+interface DeliverableRule {
+  channels: AlertChannel[];
+  webhookUrl: string | null;
+}
+
+// Webhooks are posted from inside our network, so they may only reach public addresses
+const PRIVATE_NETWORKS = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_NETWORKS.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+// Checks the addresses a webhook host resolves to when connecting, so a DNS answer
+// can't change between the check and the request
+const publicLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(new Error(`Webhook host ${hostname} resolves to a private address`));
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as net.LookupFunction;
+
+const webhookAgent = new https.Agent({ lookup: publicLookup });
+
+async function postWebhook(webhookUrl: string, body: unknown): Promise<void> {
+  const target = new URL(webhookUrl);
+  if (target.protocol !== 'https:') {
+    throw new Error('Webhook URLs must use https');
+  }
+
+  // IP literals are connected to without a lookup
+  const host = target.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isPrivateAddress(host)) {
+    throw new Error('Webhook URLs cannot point to a private address');
+  }
+
+  // A redirect could lead anywhere, including back into our network
+  await axios.post(target.toString(), body, { timeout: 10000, maxRedirects: 0, httpsAgent: webhookAgent });
+}
+
+// Web app path of a tracker's rankings page, linked from every alert
+export function rankingsPath(projectId: string, trackerId: string): string {
+  return `/projects/${projectId}/rankings?tracker=${trackerId}`;
+}
+
+function snapshotOf(position: {
+  trackedKeywordId: string;
+  position: number | null;
+  url: string | null;
+  serpFeatures: unknown;
+  topResults: unknown;
+  trackedKeyword: { keyword: string };
+}): KeywordSnapshot {
+  return {
+    trackedKeywordId: position.trackedKeywordId,
+    keyword: position.trackedKeyword.keyword,
+    position: position.position,
+    url: position.url,
+    serpFeatures: (position.serpFeatures as string[]) || [],
+    topResults: (position.topResults as RankedResult[]) || []
+  };
+}
+
+function emailText(message: AlertMessage, url: string): string {
+  return [message.summary, '', ...message.lines.map(line => `- ${line}`), '', `View rankings: ${url}`].join('\n');
+}
+
+// Slack mrkdwn; Mattermost and other Slack-compatible webhooks accept the same { text } payload
+function webhookText(message: AlertMessage, url: string): string {
+  return [`*${message.title}*: ${message.summary}`, ...message.lines.map(line => `• ${line}`), `<${url}|View rankings>`].join('\n');
+}
+
+export class AlertService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Evaluate the tracker's active rules against a completed check and deliver what matched.
+  // Safe to call again for the same check: a rule alerts at most once per check.
+  async evaluateCheck(checkId: string): Promise<number> {
+    const check = await this.prisma.rankCheck.findUnique({
+      where: { id: checkId },
+      include: {
+        tracker: { include: { alertRules: { where: { active: true } } } },
+        positions: { include: { trackedKeyword: { select: { keyword: true } } } }
+      }
+    });
+    if (!check || check.tracker.alertRules.length === 0) {
+      return 0;
+    }
+
+    const previousCheck = await this.prisma.rankCheck.findFirst({
+      where: { trackerId: check.trackerId, checkedAt: { lt: check.checkedAt } },
+      orderBy: { checkedAt: 'desc' },
+      include: { positions: { include: { trackedKeyword: { select: { keyword: true } } } } }
+    });
+    if (!previousCheck) {
+      return 0;
+    }
+
+    const { tracker } = check;
+    const current = check.positions.map(snapshotOf);
+    const previous = new Map<string, KeywordSnapshot>(previousCheck.positions.map(position => [position.trackedKeywordId, snapshotOf(position)]));
+    let fired = 0;
+
+    for (const rule of tracker.alertRules) {
+      const triggers = evaluateAlertRule(rule, tracker.targetDomain, current, previous);
+      if (triggers.length === 0) continue;
+
+      // Claim the rule for this check before delivering, so a resumed check doesn't alert twice
+      const claimed = await this.prisma.rankAlertEvent.createMany({
+        data: [{ ruleId: rule.id, checkId, triggers: triggers as unknown as Prisma.InputJsonValue, deliveries: [] }],
+        skipDuplicates: true
+      });
+      if (claimed.count === 0) continue;
+
+      const event = await this.prisma.rankAlertEvent.findUniqueOrThrow({
+        where: { ruleId_checkId: { ruleId: rule.id, checkId } }
+      });
+      const message = formatAlertMessage(rule, tracker, triggers);
+      const recipients = await this.projectRecipients(tracker.projectId, rule.emailRecipients);
+      const deliveries = await this.deliver(rule, message, {
+        projectId: tracker.projectId,
+        link: rankingsPath(tracker.projectId, tracker.id),
+        eventId: event.id,
+        recipients
+      });
+
+      await this.prisma.rankAlertEvent.update({
+        where: { id: event.id },
+        data: { deliveries: deliveries as unknown as Prisma.InputJsonValue }
+      });
+      fired++;
+    }
+
+    return fired;
+  }
+
+  // Send a sample alert through a rule's channels; in-app and default email go to the requesting user only
+  async sendTest(
+    rule: DeliverableRule & { name: string; emailRecipients: string[]; tracker: { id: string; name: string; projectId: string } },
+    user: { id: string; email: string }
+  ): Promise<AlertDelivery[]> {
+    return this.deliver(rule, {
+      title: `${rule.tracker.name}: ${rule.name}`,
+      summary: 'Test alert: this is how alerts for this rule are delivered',
+      lines: []
+    }, {
+      projectId: rule.tracker.projectId,
+      link: rankingsPath(rule.tracker.projectId, rule.tracker.id),
+      recipients: {
+        userIds: [user.id],
+        emails: rule.emailRecipients.length > 0 ? rule.emailRecipients : [user.email]
+      }
+    });
+  }
+
+  // Project owner and members, with the rule's own email list when it has one
+  private async projectRecipients(projectId: string, emailRecipients: string[]): Promise<AlertRecipients> {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: {
+        owner: { select: { id: true, email: true } },
+        members: { select: { user: { select: { id: true, email: true } } } }
+      }
+    });
+    const users = project ? [project.owner, ...project.members.map(member => member.user)] : [];
+    const userIds = Array.from(new Set(users.map(user => user.id)));
+
+    return {
+      userIds,
+      emails: emailRecipients.length > 0 ? emailRecipients : Array.from(new Set(users.map(user => user.email)))
+    };
+  }
+
+  // One channel failing doesn't stop the others; the outcome of each is returned for the event log
+  private async deliver(
+    rule: DeliverableRule,
+    message: AlertMessage,
+    options: { projectId: string; link: string; eventId?: string; recipients: AlertRecipients }
+  ): Promise<AlertDelivery[]> {
+    const url = `${env.WEB_BASE_URL}${options.link}`;
+    const deliveries: AlertDelivery[] = [];
+
+    for (const channel of rule.channels) {
+      try {
+        switch (channel) {
+          case AlertChannel.IN_APP: {
+            const created = await this.prisma.notification.createMany({
+              data: options.recipients.userIds.map(userId => ({
+                userId,
+                projectId: options.projectId,
+                eventId: options.eventId,
+                title: message.title,
+                message: [message.summary, ...message.lines].join('\n'),
+                link: options.link
+              }))
+            });
+            deliveries.push({ channel, status: 'sent', recipients: created.count });
+            break;
+          }
+
+          case AlertChannel.EMAIL:
+            if (!isEmailConfigured()) {
+              deliveries.push({ channel, status: 'skipped', error: 'SMTP is not configured' });
+              break;
+            }
+            await sendEmail({
+              to: options.recipients.emails,
+              subject: `${message.title}: ${message.summary}`,
+              text: emailText(message, url)
+            });
+            deliveries.push({ channel, status: 'sent', recipients: options.recipients.emails.length });
+            break;
+
+          case AlertChannel.WEBHOOK:
+            if (!rule.webhookUrl) {
+              deliveries.push({ channel, status: 'skipped', error: 'No webhook URL' });
+              break;
+            }
+            await postWebhook(rule.webhookUrl, { text: webhookText(message, url) });
+            deliveries.push({ channel, status: 'sent' });
+            break;
+        }
+      } catch (error) {
+        console.error(`Alert delivery error (${channel}):`, error);
+        deliveries.push({ channel, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return deliveries;
+  }
+}
@@ -0,0 +1,271 @@
+import { randomUUID } from 'crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { BriefSection, BriefDiff, BriefDiffLine, BriefSectionDiff } from '@seo-portal/shared';
+
+export class BriefVersionConflictError extends Error {
+  statusCode = 409;
+
+  constructor(public currentVersion: number) {
+    super(`Brief has changed since version was loaded (now at version ${currentVersion})`);
+    this.name = 'BriefVersionConflictError';
+  }
+}
+
+export interface BriefContent {
+  title?: string;
+  sections?: BriefSection[];
+}
+
+export function newSectionId(): string {
+  return randomUUID();
+}
+
+// Sort sections by their order and renumber them 0..n-1 so gaps and duplicates from edits disappear
+export function normalizeSections(sections: BriefSection[]): BriefSection[] {
+  return [...sections]
+    .sort((a, b) => a.order - b.order)
+    .map((section, index) => ({ ...section, order: index }));
+}
+
+export class BriefService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Create a brief at version 1 together with its first snapshot. Pass a transaction
+  // client to create it together with the caller's other writes.
+  async createBrief(data: {
+    projectId: string;
+    sourceDatasetId?: string;
+    title: string;
+    sections: BriefSection[];
+    userId: string;
+    change: string;
+  }, tx: Prisma.TransactionClient = this.prisma) {
+    const sections = normalizeSections(data.sections);
+
+    return tx.brief.create({
+      data: {
+        projectId: data.projectId,
+        sourceDatasetId: data.sourceDatasetId,
+        title: data.title,
+        sections: sections as unknown as Prisma.InputJsonValue,
+        version: 1,
+        createdBy: data.userId,
+        versions: {
+          create: {
+            version: 1,
+            title: data.title,
+            sections: sections as unknown as Prisma.InputJsonValue,
+            change: data.change,
+            createdBy: data.userId
+          }
+        }
+      }
+    });
+  }
+
+  // Save a change as the next version. baseVersion is the version the change was made
+  // against; if someone saved in between, BriefVersionConflictError is thrown instead.
+  async saveVersion(briefId: string, userId: string, baseVersion: number, content: BriefContent, change: string) {
+    return this.prisma.$transaction(async tx => {
+      const current = await tx.brief.findUnique({ where: { id: briefId } });
+      if (!current) {
+        throw new Error('Brief not found');
+      }
+
+      const title = content.title ?? current.title;
+      const sections = normalizeSections(content.sections ?? (current.sections as unknown as BriefSection[]));
+      const version = baseVersion + 1;
+
+      // Only advances when nobody else has saved since baseVersion
+      const updated = await tx.brief.updateMany({
+        where: { id: briefId, version: baseVersion },
+        data: {
+          title,
+          sections: sections as unknown as Prisma.InputJsonValue,
+          version
+        }
+      });
+
+      if (updated.count === 0) {
+        throw new BriefVersionConflictError(current.version);
+      }
+
+      await tx.briefVersion.create({
+        data: {
+          briefId,
+          version,
+          title,
+          sections: sections as unknown as Prisma.InputJsonValue,
+          change,
+          createdBy: userId
+        }
+      });
+
+      return tx.brief.findUnique({ where: { id: briefId } });
+    });
+  }
+
+  // Restoring copies an old snapshot forward as a new version; history is never rewritten
+  async restoreVersion(briefId: string, userId: string, baseVersion: number, version: number) {
+    const snapshot = await this.getVersion(briefId, version);
+    if (!snapshot) {
+      return null;
+    }
+
+    return this.saveVersion(briefId, userId, baseVersion, {
+      title: snapshot.title,
+      sections: snapshot.sections as unknown as BriefSection[]
+    }, `Restored version ${version}`);
+  }
+
+  async getVersion(briefId: string, version: number) {
+    return this.prisma.briefVersion.findUnique({
+      where: { briefId_version: { briefId, version } }
+    });
+  }
+
+  async listVersions(briefId: string) {
+    return this.prisma.briefVersion.findMany({
+      where: { briefId },
+      select: {
+        version: true,
+        title: true,
+        change: true,
+        createdBy: true,
+        createdAt: true,
+        creator: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+      orderBy: { version: 'desc' }
+    });
+  }
+
+  async diffVersions(briefId: string, fromVersion: number, toVersion: number): Promise<BriefDiff | null> {
+    const [from, to] = await Promise.all([
+      this.getVersion(briefId, fromVersion),
+      this.getVersion(briefId, toVersion)
+    ]);
+
+    if (!from || !to) {
+      return null;
+    }
+
+    return diffBriefs(
+      { version: from.version, title: from.title, sections: from.sections as unknown as BriefSection[] },
+      { version: to.version, title: to.title, sections: to.sections as unknown as BriefSection[] }
+    );
+  }
+}
+
+// Compare two versions section by section (matched by id), in the order of the newer version
+// with removed sections placed where they used to be
+export function diffBriefs(
+  from: { version: number; title: string; sections: BriefSection[] },
+  to: { version: number; title: string; sections: BriefSection[] }
+): BriefDiff {
+  const before = normalizeSections(from.sections);
+  const after = normalizeSections(to.sections);
+  const beforeById = new Map(before.map(section => [section.id, section]));
+  const afterIds = new Set(after.map(section => section.id));
+
+  // Relative order of the sections present in both versions, to tell moves from shifts
+  const keptBefore = before.filter(section => afterIds.has(section.id)).map(section => section.id);
+  const keptAfter = after.filter(section => beforeById.has(section.id)).map(section => section.id);
+
+  const sections: BriefSectionDiff[] = [];
+
+  const pushRemovedBefore = (order: number) => {
+    for (const section of before) {
+      if (section.order < order && !afterIds.has(section.id) && !sections.some(diff => diff.sectionId === section.id)) {
+        sections.push({ sectionId: section.id, status: 'removed', before: section, lines: markLines(sectionLines(section), 'removed') });
+      }
+    }
+  };
+
+  for (const section of after) {
+    const previous = beforeById.get(section.id);
+
+    if (!previous) {
+      sections.push({ sectionId: section.id, status: 'added', after: section, lines: markLines(sectionLines(section), 'added') });
+      continue;
+    }
+
+    pushRemovedBefore(previous.order);
+
+    const beforeLines = sectionLines(previous);
+    const afterLines = sectionLines(section);
+    const changed = previous.type !== section.type || beforeLines.join('\n') !== afterLines.join('\n');
+
+    if (changed) {
+      sections.push({ sectionId: section.id, status: 'modified', before: previous, after: section, lines: diffLines(beforeLines, afterLines) });
+    } else if (keptBefore.indexOf(section.id) !== keptAfter.indexOf(section.id)) {
+      sections.push({ sectionId: section.id, status: 'moved', before: previous, after: section });
+    } else {
+      sections.push({ sectionId: section.id, status: 'unchanged', before: previous, after: section });
+    }
+  }
+
+  pushRemovedBefore(Infinity);
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    titleChanged: from.title !== to.title,
+    sections
+  };
+}
+
+// Plain-text rendering of a section, one entry per line, used for diffing
+export function sectionLines(section: BriefSection): string[] {
+  const lines = section.title ? [section.title] : [];
+
+  switch (section.type) {
+    case 'heading':
+      return [...lines, `${'#'.repeat(section.content.level)} ${section.content.text}`];
+    case 'paragraph':
+      return [...lines, ...section.content.text.split('\n')];
+    case 'list':
+      return [...lines, ...section.content.items.map((item, index) => section.content.ordered ? `${index + 1}. ${item}` : `- ${item}`)];
+    case 'table':
+      return [...lines, section.content.columns.join(' | '), ...section.content.rows.map(row => row.join(' | '))];
+    case 'chart':
+      return [...lines, ...section.content.labels.map((label, index) => `${label}: ${section.content.values[index] ?? ''}`)];
+  }
+}
+
+function markLines(lines: string[], kind: BriefDiffLine['kind']): BriefDiffLine[] {
+  return lines.map(text => ({ kind, text }));
+}
+
+// Line diff from the longest common subsequence; sections are short so the quadratic table is fine
+function diffLines(before: string[], after: string[]): BriefDiffLine[] {
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: BriefDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ kind: 'unchanged', text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ kind: 'removed', text: before[i++] });
+    } else {
+      lines.push({ kind: 'added', text: after[j++] });
+    }
+  }
+
+  while (i < before.length) lines.push({ kind: 'removed', text: before[i++] });
+  while (j < after.length) lines.push({ kind: 'added', text: after[j++] });
+
+  return lines;
+}
@@ -0,0 +1,254 @@
+import { PrismaClient, BudgetPeriod, BudgetUnit } from '@prisma/client';
+import { BUDGET_LIMITS } from '@seo-portal/shared';
+
+// Amount of paid work, in every unit a budget can be expressed in
+export interface BudgetCharge {
+  usd: number;
+  apiCalls: number;
+  tokens: number;
+}
+
+export interface BudgetOverrun {
+  budgetId: string;
+  scope: 'user' | 'role';
+  unit: BudgetUnit;
+  period: BudgetPeriod;
+  limit: number;
+  spent: number;
+  requested: number;
+  resetAt: Date;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  overruns: BudgetOverrun[];
+}
+
+export interface BudgetReview {
+  decision: 'allow' | 'confirm' | 'reject';
+  overruns: BudgetOverrun[];
+  perQueryLimit: number | null;
+}
+
+interface BudgetRecord {
+  id: string;
+  userId: string | null;
+  unit: BudgetUnit;
+  limit: number;
+  period: BudgetPeriod;
+  spent: number;
+  resetAt: Date;
+}
+
+export class BudgetExceededError extends Error {
+  statusCode = 402;
+
+  constructor(public overruns: BudgetOverrun[]) {
+    super(
+      `Budget exceeded: ${overruns
+        .map(o => `${o.scope} ${o.period.toLowerCase()} ${o.unit} budget (${o.spent}/${o.limit}, needs ${o.requested})`)
+        .join('; ')}`
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export function emptyCharge(): BudgetCharge {
+  return { usd: 0, apiCalls: 0, tokens: 0 };
+}
+
+// Next reset boundary for a budget period, counted from the start of the current one
+export function nextResetAt(period: BudgetPeriod, from: Date = new Date()): Date {
+  const next = new Date(from);
+  next.setUTCHours(0, 0, 0, 0);
+
+  switch (period) {
+    case BudgetPeriod.DAILY:
+      next.setUTCDate(next.getUTCDate() + 1);
+      break;
+    case BudgetPeriod.WEEKLY:
+      // Weeks start on Monday
+      next.setUTCDate(next.getUTCDate() + (7 - ((next.getUTCDay() + 6) % 7)));
+      break;
+    case BudgetPeriod.MONTHLY:
+      next.setUTCDate(1);
+      next.setUTCMonth(next.getUTCMonth() + 1);
+      break;
+    case BudgetPeriod.YEARLY:
+      next.setUTCMonth(0, 1);
+      next.setUTCFullYear(next.getUTCFullYear() + 1);
+      break;
+  }
+
+  return next;
+}
+
+function chargeFor(unit: BudgetUnit, charge: BudgetCharge): number {
+  switch (unit) {
+    case BudgetUnit.USD:
+      return charge.usd;
+    case BudgetUnit.API_CALLS:
+      return charge.apiCalls;
+    case BudgetUnit.TOKENS:
+      return charge.tokens;
+    default:
+      return 0;
+  }
+}
+
+// Checks and records paid API usage against the user's own budgets and the
+// budgets shared by their role. Users without any USD budget get a monthly one
+// seeded from BUDGET_LIMITS.
+export class BudgetService {
+  constructor(private prisma: PrismaClient) {}
+
+  async checkBudget(userId: string, charge: BudgetCharge): Promise<BudgetCheck> {
+    const budgets = await this.getActiveBudgets(userId);
+    const overruns: BudgetOverrun[] = [];
+
+    for (const budget of budgets) {
+      const requested = chargeFor(budget.unit, charge);
+      if (requested > 0 && budget.spent + requested > budget.limit) {
+        overruns.push(this.toOverrun(budget, requested));
+      }
+    }
+
+    return { allowed: overruns.length === 0, overruns };
+  }
+
+  // Throw unless the charge fits every applicable budget. allowOverage is set once
+  // the user has confirmed they want to go over.
+  async assertWithinBudget(
+    userId: string,
+    charge: BudgetCharge,
+    options: { allowOverage?: boolean } = {}
+  ): Promise<void> {
+    if (options.allowOverage) return;
+
+    const check = await this.checkBudget(userId, charge);
+    if (!check.allowed) {
+      throw new BudgetExceededError(check.overruns);
+    }
+  }
+
+  // Decide whether a new research request may start. Requests are rejected once a
+  // budget is used up, and need confirmation when their estimated cost is above the
+  // role's per-query cap or could push a budget over its limit.
+  async reviewRequest(
+    userId: string,
+    options: { estimatedUsd: number; confirmed?: boolean }
+  ): Promise<BudgetReview> {
+    const budgets = await this.getActiveBudgets(userId);
+    const perQueryLimit = await this.getPerQueryLimit(userId);
+    const exhausted = budgets.filter(budget => budget.spent >= budget.limit);
+
+    if (exhausted.length > 0) {
+      return {
+        decision: 'reject',
+        overruns: exhausted.map(budget => this.toOverrun(budget, 0)),
+        perQueryLimit,
+      };
+    }
+
+    const check = await this.checkBudget(userId, { ...emptyCharge(), usd: options.estimatedUsd });
+    const overPerQueryLimit = perQueryLimit !== null && options.estimatedUsd > perQueryLimit;
+
+    if ((!check.allowed || overPerQueryLimit) && !options.confirmed) {
+      return { decision: 'confirm', overruns: check.overruns, perQueryLimit };
+    }
+
+    return { decision: 'allow', overruns: check.overruns, perQueryLimit };
+  }
+
+  // Add the actual cost reported by the provider to every applicable budget
+  async recordSpend(userId: string, charge: BudgetCharge): Promise<void> {
+    const budgets = await this.getActiveBudgets(userId);
+
+    for (const budget of budgets) {
+      const amount = chargeFor(budget.unit, charge);
+      if (amount <= 0) continue;
+
+      await this.prisma.budget.update({
+        where: { id: budget.id },
+        data: { spent: { increment: amount } },
+      });
+    }
+  }
+
+  // Per-query cap for the user's role; larger requests need explicit confirmation
+  async getPerQueryLimit(userId: string): Promise<number | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+    if (!user) return null;
+
+    const limits = BUDGET_LIMITS[user.role.toLowerCase() as keyof typeof BUDGET_LIMITS];
+    return limits?.per_query ?? null;
+  }
+
+  async getActiveBudgets(userId: string): Promise<BudgetRecord[]> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true },
+    });
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    let budgets: BudgetRecord[] = await this.prisma.budget.findMany({
+      where: {
+        OR: [{ userId }, { userId: null, role: user.role }],
+      },
+    });
+
+    if (!budgets.some(budget => budget.unit === BudgetUnit.USD)) {
+      const created = await this.createDefaultBudget(userId, user.role);
+      if (created) budgets = [...budgets, created];
+    }
+
+    return Promise.all(budgets.map(budget => this.resetIfExpired(budget)));
+  }
+
+  private async createDefaultBudget(userId: string, role: string): Promise<BudgetRecord | null> {
+    const limits = BUDGET_LIMITS[role.toLowerCase() as keyof typeof BUDGET_LIMITS];
+    if (!limits) return null;
+
+    return this.prisma.budget.create({
+      data: {
+        userId,
+        unit: BudgetUnit.USD,
+        limit: limits.monthly,
+        period: BudgetPeriod.MONTHLY,
+        resetAt: nextResetAt(BudgetPeriod.MONTHLY),
+      },
+    });
+  }
+
+  private toOverrun(budget: BudgetRecord, requested: number): BudgetOverrun {
+    return {
+      budgetId: budget.id,
+      scope: budget.userId ? 'user' : 'role',
+      unit: budget.unit,
+      period: budget.period,
+      limit: budget.limit,
+      spent: budget.spent,
+      requested,
+      resetAt: budget.resetAt,
+    };
+  }
+
+  // Start a new period once resetAt has passed
+  private async resetIfExpired(budget: BudgetRecord): Promise<BudgetRecord> {
+    const now = new Date();
+    if (budget.resetAt > now) return budget;
+
+    // Guard on resetAt so concurrent requests only reset the counter once
+    await this.prisma.budget.updateMany({
+      where: { id: budget.id, resetAt: budget.resetAt },
+      data: { spent: 0, resetAt: nextResetAt(budget.period, now) },
+    });
+
+    return this.prisma.budget.findUniqueOrThrow({ where: { id: budget.id } });
+  }
+}
@@ -0,0 +1,84 @@
+import { createHash } from 'crypto';
+import type { PrismaClient } from '@prisma/client';
+
+// Recursively sort object keys and normalise strings so equivalent payloads
+// ("Best CRM " vs "best crm") produce the same cache key
+function normalize(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce((result: { [key: string]: any }, key) => {
+        if (value[key] !== undefined && value[key] !== null) {
+          result[key] = normalize(value[key]);
+        }
+        return result;
+      }, {});
+  }
+
+  if (typeof value === 'string') {
+    return value.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  return value;
+}
+
+export function buildCacheKey(namespace: string, endpoint: string, payload: any): string {
+  const hash = createHash('sha256').update(JSON.stringify(normalize(payload))).digest('hex');
+  return `${namespace}:${endpoint}:${hash}`;
+}
+
+// Shared response cache backed by the CacheEntry table
+export class CacheService {
+  constructor(private prisma: PrismaClient) {}
+
+  // Returns the cached value, or null when missing or expired
+  async get<T = any>(key: string): Promise<T | null> {
+    const entry = await this.prisma.cacheEntry.findUnique({ where: { key } });
+    if (!entry) return null;
+
+    if (entry.ttl <= new Date()) {
+      await this.prisma.cacheEntry.deleteMany({ where: { key, ttl: entry.ttl } });
+      return null;
+    }
+
+    return entry.value as T;
+  }
+
+  // Unexpired values for any of the keys, by key
+  async getMany<T = any>(keys: string[]): Promise<Map<string, T>> {
+    const entries = await this.prisma.cacheEntry.findMany({
+      where: { key: { in: keys }, ttl: { gt: new Date() } }
+    });
+    return new Map(entries.map(entry => [entry.key, entry.value as T]));
+  }
+
+  async set(key: string, value: any, ttlSeconds: number): Promise<void> {
+    const ttl = new Date(Date.now() + ttlSeconds * 1000);
+
+    await this.prisma.cacheEntry.upsert({
+      where: { key },
+      create: { key, value, ttl },
+      update: { value, ttl, createdAt: new Date() },
+    });
+  }
+
+  async setMany(entries: Array<{ key: string; value: any }>, ttlSeconds: number): Promise<void> {
+    const ttl = new Date(Date.now() + ttlSeconds * 1000);
+
+    await this.prisma.$transaction(entries.map(({ key, value }) =>
+      this.prisma.cacheEntry.upsert({
+        where: { key },
+        create: { key, value, ttl },
+        update: { value, ttl, createdAt: new Date() },
+      })
+    ));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.prisma.cacheEntry.deleteMany({ where: { key } });
+  }
+}
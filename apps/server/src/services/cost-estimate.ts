@@ -0,0 +1,261 @@
+import { TASK_COST_ESTIMATES, TASK_TYPE_ENDPOINTS } from '../integrations/dataforseo/task-store.js';
+import type { DataForSEOTaskType } from '../integrations/dataforseo/task-store.js';
+import { calculateTokenCost } from '../integrations/openai/client.js';
+import { CLUSTER_SERP_KEYWORDS } from './keyword-clustering.js';
+import { TRENDS_KEYWORDS_PER_TASK } from './seasonality.js';
+import getEnvConfig from '../config/env.js';
+
+const env = getEnvConfig();
+
+const AI_MODEL = 'gpt-4-turbo-preview';
+const AI_MAX_COMPLETION_TOKENS = 2500;
+
+// Typical prompt sizes, since the data sent to the model only exists once the
+// DataForSEO tasks have finished
+const AI_PROMPT_TOKENS = {
+  keywordDiscovery: 6000, // processed keyword list plus filters
+  serpPerKeyword: 1500, // top results and features for one keyword
+  competitorPerDomain: 2000, // ranked keyword sample for one domain
+  onPagePerUrl: 600, // extracted page data and issues for one URL
+  trendsPerKeyword: 400, // monthly profile, growth and calendar entries for one keyword
+  localSeo: 3000, // coverage per keyword and location, share of voice, ratings and NAP hints
+  contentBrief: 3000, // source dataset summary sent with the brief request
+  briefSection: 2500, // brief outline, source summary and the section being rewritten
+  base: 500, // system prompt and instructions
+};
+
+// A typical keyword discovery result before deduplication, at a few tokens per keyword
+const EMBEDDING_TOKENS_KEYWORD_DISCOVERY = 4000;
+
+export interface DataForSEOCostItem {
+  provider: 'dataforseo';
+  taskType: DataForSEOTaskType;
+  endpoint: string;
+  count: number;
+  unitCost: number;
+  cost: number;
+}
+
+export interface OpenAICostItem {
+  provider: 'openai';
+  model: string;
+  count: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface CostEstimate {
+  items: Array<DataForSEOCostItem | OpenAICostItem>;
+  totals: {
+    usd: number;
+    dataForSEOTasks: number;
+    openAITokens: number;
+  };
+  currency: 'USD';
+}
+
+class CostEstimateBuilder {
+  private items: Array<DataForSEOCostItem | OpenAICostItem> = [];
+
+  addTasks(taskType: DataForSEOTaskType, count: number): this {
+    if (count > 0) {
+      const unitCost = TASK_COST_ESTIMATES[taskType];
+      this.items.push({
+        provider: 'dataforseo',
+        taskType,
+        endpoint: TASK_TYPE_ENDPOINTS[taskType],
+        count,
+        unitCost,
+        cost: round(unitCost * count),
+      });
+    }
+    return this;
+  }
+
+  addCompletion(promptTokens: number): this {
+    const prompt = promptTokens + AI_PROMPT_TOKENS.base;
+    this.items.push({
+      provider: 'openai',
+      model: AI_MODEL,
+      count: 1,
+      promptTokens: prompt,
+      completionTokens: AI_MAX_COMPLETION_TOKENS,
+      cost: calculateTokenCost(AI_MODEL, prompt, AI_MAX_COMPLETION_TOKENS),
+    });
+    return this;
+  }
+
+  // Cached vectors aren't charged again, so this is the cost of a first run
+  addEmbeddings(tokens: number): this {
+    if (env.EMBEDDINGS_PROVIDER === 'openai') {
+      this.items.push({
+        provider: 'openai',
+        model: env.EMBEDDINGS_MODEL,
+        count: 1,
+        promptTokens: tokens,
+        completionTokens: 0,
+        cost: calculateTokenCost(env.EMBEDDINGS_MODEL, tokens, 0),
+      });
+    }
+    return this;
+  }
+
+  build(): CostEstimate {
+    let usd = 0;
+    let dataForSEOTasks = 0;
+    let openAITokens = 0;
+
+    for (const item of this.items) {
+      usd += item.cost;
+      if (item.provider === 'dataforseo') {
+        dataForSEOTasks += item.count;
+      } else {
+        openAITokens += item.promptTokens + item.completionTokens;
+      }
+    }
+
+    return {
+      items: this.items,
+      totals: { usd: round(usd), dataForSEOTasks, openAITokens },
+      currency: 'USD',
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// Mirrors the task plan in processKeywordDiscovery. Clustering SERPs are counted at their
+// maximum; fewer are fetched when discovery finds fewer keywords.
+export function estimateKeywordDiscovery(params: {
+  analysisDepth: 'quick' | 'standard' | 'comprehensive';
+}): CostEstimate {
+  const estimate = new CostEstimateBuilder()
+    .addTasks('keywords_ideas', 1)
+    .addTasks('keywords_volume', 1)
+    .addEmbeddings(EMBEDDING_TOKENS_KEYWORD_DISCOVERY)
+    .addTasks('serp_organic', CLUSTER_SERP_KEYWORDS[params.analysisDepth] ?? 0);
+
+  if (params.analysisDepth === 'standard' || params.analysisDepth === 'comprehensive') {
+    estimate.addCompletion(AI_PROMPT_TOKENS.keywordDiscovery);
+  }
+
+  return estimate.build();
+}
+
+// Mirrors the task plan in processSerpAnalysis; local packs are only fetched for
+// keywords with local intent
+export function estimateSerpAnalysis(
+  params: {
+    keywords: string[];
+    includeLocal: boolean;
+    analysisType: 'snapshot' | 'competitor' | 'features' | 'comprehensive' | 'history';
+  },
+  hasLocalIntent: (keyword: string) => boolean
+): CostEstimate {
+  // SERP history fetches archived snapshots instead of live SERPs
+  if (params.analysisType === 'history') {
+    return new CostEstimateBuilder()
+      .addTasks('historical_serps', params.keywords.length)
+      .build();
+  }
+
+  const localKeywords = params.includeLocal ? params.keywords.filter(hasLocalIntent) : [];
+
+  // Difficulty looks up the ranking domains and pages of every keyword in one bulk request each
+  const estimate = new CostEstimateBuilder()
+    .addTasks('serp_organic', params.keywords.length)
+    .addTasks('serp_maps', localKeywords.length)
+    .addTasks('backlinks_bulk_ranks', 1)
+    .addTasks('backlinks_bulk_referring_domains', 1);
+
+  if (params.analysisType === 'features' || params.analysisType === 'comprehensive') {
+    estimate.addCompletion(AI_PROMPT_TOKENS.serpPerKeyword * params.keywords.length);
+  }
+
+  return estimate.build();
+}
+
+// Mirrors the task plan in processCompetitorResearch
+export function estimateCompetitorResearch(params: {
+  competitorDomains: string[];
+  reportDepth: 'overview' | 'detailed' | 'comprehensive';
+}): CostEstimate {
+  const domains = params.competitorDomains.length + 1; // competitors plus the target
+
+  const estimate = new CostEstimateBuilder()
+    .addTasks('ranked_keywords', domains)
+    .addTasks('competitors', 1);
+
+  if (params.reportDepth === 'detailed' || params.reportDepth === 'comprehensive') {
+    estimate.addCompletion(AI_PROMPT_TOKENS.competitorPerDomain * domains);
+  }
+
+  return estimate.build();
+}
+
+// Mirrors the task plan in processBacklinkCheck
+export function estimateBacklinkCheck(params: {
+  includeNewLost: boolean;
+}): CostEstimate {
+  return new CostEstimateBuilder()
+    .addTasks('backlinks_summary', 1)
+    .addTasks('backlinks_referring_domains', 1)
+    .addTasks('backlinks_anchors', 1)
+    .addTasks('backlinks_new_lost', params.includeNewLost ? 1 : 0)
+    .build();
+}
+
+// Mirrors the task plan in processOnPageAudit
+export function estimateOnPageAudit(params: {
+  urls: string[];
+}): CostEstimate {
+  return new CostEstimateBuilder()
+    .addTasks('onpage_instant', params.urls.length)
+    .addCompletion(AI_PROMPT_TOKENS.onPagePerUrl * params.urls.length)
+    .build();
+}
+
+// Mirrors the task plan in processTrendAnalysis
+export function estimateTrendAnalysis(params: {
+  keywords: string[];
+}): CostEstimate {
+  return new CostEstimateBuilder()
+    .addTasks('keywords_trends', Math.ceil(params.keywords.length / TRENDS_KEYWORDS_PER_TASK))
+    .addCompletion(AI_PROMPT_TOKENS.trendsPerKeyword * params.keywords.length)
+    .build();
+}
+
+// Mirrors the task plan in processLocalSeo: one Maps check per keyword per check point
+export function estimateLocalSeo(params: {
+  keywords: string[];
+  points: number;
+}): CostEstimate {
+  return new CostEstimateBuilder()
+    .addTasks('serp_maps', params.keywords.length * params.points)
+    .addCompletion(AI_PROMPT_TOKENS.localSeo)
+    .build();
+}
+
+// Mirrors the single AI job in processContentBrief
+export function estimateContentBrief(params: {
+  action: 'generate' | 'regenerate_section';
+}): CostEstimate {
+  return new CostEstimateBuilder()
+    .addCompletion(params.action === 'generate' ? AI_PROMPT_TOKENS.contentBrief : AI_PROMPT_TOKENS.briefSection)
+    .build();
+}
+
+// Mirrors the task plan in processRankCheck; volumes are only looked up for keywords
+// that no earlier check has seen
+export function estimateRankCheck(params: {
+  keywords: number;
+  newKeywords: number;
+}): CostEstimate {
+  return new CostEstimateBuilder()
+    .addTasks('keywords_volume', params.newKeywords > 0 ? 1 : 0)
+    .addTasks('serp_organic', params.keywords)
+    .build();
+}
@@ -0,0 +1,229 @@
+import { PrismaClient } from '@prisma/client';
+
+// Click-through rate by organic position, used for every traffic estimate. Features above the
+// organic results (an AI overview, a local pack, a featured snippet, shopping results, ads)
+// take clicks from every position and most from the top three, so each device has a curve per
+// SERP layout. Admins can replace any device/layout curve with their own.
+
+export type CtrDevice = 'desktop' | 'mobile';
+
+export type SerpLayout = 'standard' | 'ai_overview' | 'local_pack' | 'featured_snippet' | 'shopping' | 'ads';
+
+export const CTR_DEVICES: CtrDevice[] = ['desktop', 'mobile'];
+
+// In priority order: a SERP with several features is treated as the layout listed first
+export const SERP_LAYOUTS: SerpLayout[] = ['ai_overview', 'local_pack', 'featured_snippet', 'shopping', 'ads', 'standard'];
+
+// Positions a curve can list; results further down get the curve's tail CTR
+export const MAX_CURVE_POSITIONS = 20;
+
+export interface CtrCurve {
+  // Share of searches, 0-1, that click the result at positions 1, 2, 3...
+  positions: number[];
+  // Share of searches that click any result past the end of the list
+  tail: number;
+}
+
+export interface CtrContext {
+  device?: CtrDevice;
+  layout?: SerpLayout;
+}
+
+export interface CtrCurveEntry extends CtrCurve {
+  device: CtrDevice;
+  layout: SerpLayout;
+  // False when the built-in curve applies
+  custom: boolean;
+  updatedAt: Date | null;
+}
+
+// SERP result types that make up each layout
+const LAYOUT_FEATURES: Record<Exclude<SerpLayout, 'standard'>, string[]> = {
+  ai_overview: ['ai_overview'],
+  local_pack: ['local_pack', 'map'],
+  featured_snippet: ['featured_snippet', 'answer_box'],
+  shopping: ['shopping', 'popular_products'],
+  ads: ['paid']
+};
+
+const DEFAULT_CURVES: Record<CtrDevice, CtrCurve> = {
+  desktop: {
+    positions: [0.28, 0.15, 0.11, 0.08, 0.07, 0.05, 0.04, 0.03, 0.03, 0.02, ...Array(10).fill(0.01)],
+    tail: 0.005
+  },
+  // Fewer results fit on a phone screen, so clicks fall off faster below the top result
+  mobile: {
+    positions: [0.27, 0.13, 0.09, 0.07, 0.05, 0.04, 0.03, 0.025, 0.02, 0.015, ...Array(10).fill(0.008)],
+    tail: 0.004
+  }
+};
+
+// Built-in layout curves scale the standard curve: `top` applies to positions 1-3, `rest` below
+const LAYOUT_FACTORS: Record<SerpLayout, { top: number; rest: number }> = {
+  standard: { top: 1, rest: 1 },
+  ai_overview: { top: 0.6, rest: 0.85 },
+  local_pack: { top: 0.65, rest: 0.85 },
+  featured_snippet: { top: 0.7, rest: 0.9 },
+  shopping: { top: 0.75, rest: 0.9 },
+  ads: { top: 0.8, rest: 0.95 }
+};
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+export function isCtrDevice(value: unknown): value is CtrDevice {
+  return CTR_DEVICES.includes(value as CtrDevice);
+}
+
+export function isSerpLayout(value: unknown): value is SerpLayout {
+  return SERP_LAYOUTS.includes(value as SerpLayout);
+}
+
+// Rank trackers and SERP requests store the device as a plain string
+export function ctrDevice(device?: string | null): CtrDevice {
+  return device === 'mobile' ? 'mobile' : 'desktop';
+}
+
+export function serpLayout(features: string[] = []): SerpLayout {
+  const present = new Set(features);
+  return SERP_LAYOUTS.find(layout =>
+    layout !== 'standard' && LAYOUT_FEATURES[layout].some(type => present.has(type))
+  ) ?? 'standard';
+}
+
+export function defaultCtrCurve(device: CtrDevice, layout: SerpLayout): CtrCurve {
+  const base = DEFAULT_CURVES[device];
+  const factors = LAYOUT_FACTORS[layout];
+  // Position 4 never gets more clicks than position 3, however hard the top is hit
+  const positions: number[] = [];
+  base.positions.forEach((ctr, index) => {
+    const scaled = round(ctr * (index < 3 ? factors.top : factors.rest));
+    positions.push(index > 0 ? Math.min(scaled, positions[index - 1]) : scaled);
+  });
+  return { positions, tail: round(base.tail * factors.rest) };
+}
+
+// Returns an error message for an invalid curve, or null
+export function validateCtrCurve(curve: Partial<CtrCurve>): string | null {
+  const { positions, tail } = curve;
+
+  if (!Array.isArray(positions) || positions.length === 0 || positions.length > MAX_CURVE_POSITIONS) {
+    return `A curve needs a CTR for 1 to ${MAX_CURVE_POSITIONS} positions`;
+  }
+
+  const isShare = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+  if (!positions.every(isShare)) {
+    return 'Each CTR must be a share between 0 and 1';
+  }
+
+  if (positions.some((ctr, index) => index > 0 && ctr > positions[index - 1])) {
+    return 'CTR cannot increase further down the results';
+  }
+
+  if (positions.reduce((sum, ctr) => sum + ctr, 0) > 1) {
+    return 'The CTRs of all positions add up to more than 100% of searches';
+  }
+
+  if (tail !== undefined && (!isShare(tail) || tail > positions[positions.length - 1])) {
+    return 'The tail CTR must be a share no higher than the last position';
+  }
+
+  return null;
+}
+
+// Reads an uploaded curve with one "position,ctr" row per line. CTRs above 1 are read as
+// percentages; a "tail" row sets the CTR past the last position, and header rows are skipped.
+export function parseCtrCurveCsv(csv: string): Partial<CtrCurve> {
+  const positions: number[] = [];
+  let tail: number | undefined;
+
+  for (const line of csv.split(/\r?\n/)) {
+    const [label, value] = line.split(/[,;\t]/).map(cell => cell.trim().replace(/%$/, ''));
+    const ctr = parseFloat(value);
+    if (!label || isNaN(ctr)) continue;
+
+    const share = ctr > 1 ? ctr / 100 : ctr;
+    if (label.toLowerCase() === 'tail') {
+      tail = share;
+    } else if (/^\d+$/.test(label)) {
+      positions[parseInt(label) - 1] = share;
+    }
+  }
+
+  // Missing positions leave holes, which validation reports as an invalid CTR
+  return { positions: Array.from(positions, ctr => ctr ?? NaN), ...(tail !== undefined && { tail }) };
+}
+
+export class CtrModel {
+  private curves: Map<string, CtrCurve>;
+
+  // Custom curves keyed by "device:layout"; anything missing uses the built-in curve
+  constructor(custom: Array<{ device: CtrDevice; layout: SerpLayout } & CtrCurve> = []) {
+    this.curves = new Map(custom.map(curve => [`${curve.device}:${curve.layout}`, curve]));
+  }
+
+  curve(context: CtrContext = {}): CtrCurve {
+    const device = context.device ?? 'desktop';
+    const layout = context.layout ?? 'standard';
+    return this.curves.get(`${device}:${layout}`) ?? defaultCtrCurve(device, layout);
+  }
+
+  // Share of searches that click the organic result at this position; Labs reports
+  // average positions, which round up to the next slot
+  ctr(position: number, context: CtrContext = {}): number {
+    const curve = this.curve(context);
+    const slot = Math.max(1, Math.ceil(position));
+    return slot <= curve.positions.length ? curve.positions[slot - 1] : curve.tail;
+  }
+
+  // Monthly clicks a result at this position gets from the keyword
+  traffic(searchVolume: number, position: number, context: CtrContext = {}): number {
+    return Math.round((searchVolume || 0) * this.ctr(position, context));
+  }
+}
+
+export class CtrCurveService {
+  constructor(private prisma: PrismaClient) {}
+
+  async getModel(): Promise<CtrModel> {
+    const curves = await this.prisma.ctrCurve.findMany();
+    return new CtrModel(curves
+      .filter(curve => isCtrDevice(curve.device) && isSerpLayout(curve.layout))
+      .map(curve => ({
+        device: curve.device as CtrDevice,
+        layout: curve.layout as SerpLayout,
+        positions: curve.positions as number[],
+        tail: curve.tail
+      })));
+  }
+
+  // Every device/layout curve in effect, custom or built in
+  async listCurves(): Promise<CtrCurveEntry[]> {
+    const custom = await this.prisma.ctrCurve.findMany();
+    const byKey = new Map<string, (typeof custom)[number]>(custom.map(curve => [`${curve.device}:${curve.layout}`, curve]));
+
+    return CTR_DEVICES.flatMap(device => SERP_LAYOUTS.map(layout => {
+      const stored = byKey.get(`${device}:${layout}`);
+      return stored
+        ? { device, layout, positions: stored.positions as number[], tail: stored.tail, custom: true, updatedAt: stored.updatedAt }
+        : { device, layout, ...defaultCtrCurve(device, layout), custom: false, updatedAt: null };
+    }));
+  }
+
+  // The curve is expected to be validated; a missing tail carries on from the built-in one
+  async saveCurve(device: CtrDevice, layout: SerpLayout, curve: Partial<CtrCurve> & { positions: number[] }, userId: string) {
+    const tail = curve.tail ?? Math.min(defaultCtrCurve(device, layout).tail, curve.positions[curve.positions.length - 1]);
+
+    return this.prisma.ctrCurve.upsert({
+      where: { device_layout: { device, layout } },
+      create: { device, layout, positions: curve.positions, tail, updatedBy: userId },
+      update: { positions: curve.positions, tail, updatedBy: userId }
+    });
+  }
+
+  // Reverts to the built-in curve; false when no custom curve was stored
+  async deleteCurve(device: CtrDevice, layout: SerpLayout): Promise<boolean> {
+    const deleted = await this.prisma.ctrCurve.deleteMany({ where: { device, layout } });
+    return deleted.count > 0;
+  }
+}
@@ -0,0 +1,339 @@
+import { DatasetKind } from '@prisma/client';
+import { csvCell } from './exports/csv.js';
+import { streamXlsx, type XlsxCell } from './exports/xlsx.js';
+import { normalizeKeywordRows, filterKeywordRows, type KeywordRowFilters, type KeywordRowSort } from './dataset-rows.js';
+
+export type DatasetExportFormat = 'CSV' | 'XLSX';
+
+export interface DatasetColumn {
+  key: string;
+  label: string;
+  value: (row: any) => XlsxCell;
+}
+
+// The rows of a dataset as one flat table. Datasets without a natural table (AI insights)
+// can't be exported this way.
+interface DatasetTable {
+  columns: DatasetColumn[];
+  rows: any[];
+}
+
+export interface DatasetExportRequest {
+  format: DatasetExportFormat;
+  columns?: string[];
+  keywords?: string[];
+  filters?: KeywordRowFilters & { sort?: KeywordRowSort[] };
+}
+
+export class DatasetExportError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatasetExportError';
+  }
+}
+
+const CSV_ROWS_PER_CHUNK = 500;
+
+const column = (key: string, label: string, value: (row: any) => XlsxCell = row => row[key] ?? null): DatasetColumn =>
+  ({ key, label, value });
+
+const list = (values: unknown) => Array.isArray(values) ? values.join('; ') : null;
+
+const KEYWORD_COLUMNS = [
+  column('keyword', 'Keyword'),
+  column('searchVolume', 'Search volume'),
+  column('cpc', 'CPC'),
+  column('competition', 'Competition'),
+  column('competitionLevel', 'Competition level'),
+  column('keywordDifficulty', 'Keyword difficulty'),
+  column('intent', 'Intent'),
+  column('trend', 'Trend'),
+  column('opportunity', 'Opportunity'),
+  column('isSeedKeyword', 'Seed keyword', row => Boolean(row.isSeedKeyword)),
+  column('variants', 'Merged variants', row => list(row.variants)),
+  column('semanticGroup', 'Semantic group')
+];
+
+// One row per result on each SERP; local pack fields are empty for organic results
+const SERP_COLUMNS = [
+  column('keyword', 'Keyword'),
+  column('serpType', 'SERP'),
+  column('position', 'Position'),
+  column('type', 'Result type'),
+  column('title', 'Title'),
+  column('url', 'URL'),
+  column('domain', 'Domain'),
+  column('description', 'Description'),
+  column('serpFeatures', 'Features', row => list(row.serpFeatures)),
+  column('keywordDifficulty', 'Keyword difficulty'),
+  column('difficultyAuthority', 'Difficulty: authority', row => row.difficulty?.components.authority.score ?? null),
+  column('difficultyBacklinks', 'Difficulty: backlinks', row => row.difficulty?.components.backlinks.score ?? null),
+  column('difficultySerpCrowding', 'Difficulty: SERP crowding', row => row.difficulty?.components.serpCrowding.score ?? null),
+  column('difficultyContentMix', 'Difficulty: content mix', row => row.difficulty?.components.contentMix.score ?? null),
+  column('address', 'Address'),
+  column('phone', 'Phone'),
+  column('rating', 'Rating', row => typeof row.rating === 'object' ? row.rating?.value ?? null : row.rating ?? null),
+  column('reviews', 'Reviews')
+];
+
+const KEYWORD_GAP_COLUMNS = [
+  column('keyword', 'Keyword'),
+  column('searchVolume', 'Search volume'),
+  column('competitorDomain', 'Competitor domain'),
+  column('competitorPosition', 'Competitor position'),
+  column('competitorsRanking', 'Competitors ranking'),
+  column('trafficPotential', 'Traffic potential'),
+  column('opportunity', 'Opportunity')
+];
+
+const SERP_OPPORTUNITY_COLUMNS = [
+  column('keyword', 'Keyword'),
+  column('difficulty', 'Keyword difficulty'),
+  column('serpFeatures', 'SERP features', row => list(row.serpFeatures))
+];
+
+const REFERRING_DOMAIN_COLUMNS = [
+  column('domain', 'Domain'),
+  column('rank', 'Rank'),
+  column('tier', 'Tier'),
+  column('backlinks', 'Backlinks'),
+  column('nofollowLinks', 'Nofollow links'),
+  column('spamScore', 'Spam score'),
+  column('firstSeen', 'First seen')
+];
+
+const ONPAGE_COLUMNS = [
+  column('url', 'URL'),
+  column('statusCode', 'Status code'),
+  column('score', 'Score'),
+  column('title', 'Title'),
+  column('titleLength', 'Title length'),
+  column('metaDescriptionLength', 'Meta description length'),
+  column('h1', 'H1', row => list(row.headings?.h1)),
+  column('wordCount', 'Word count'),
+  column('internalLinks', 'Internal links'),
+  column('externalLinks', 'External links'),
+  column('images', 'Images'),
+  column('largestContentfulPaint', 'LCP (ms)', row => row.speed?.largestContentfulPaint ?? null),
+  column('pageSize', 'Page size (bytes)', row => row.speed?.pageSize ?? null),
+  column('issueCount', 'Issues', row => row.issues?.length ?? 0),
+  column('issues', 'Issue list', row => list(row.issues?.map((issue: any) => `${issue.label} (${issue.severity})`)))
+];
+
+const KEYWORD_CLUSTER_COLUMNS = [
+  column('name', 'Cluster'),
+  column('pillarKeyword', 'Pillar keyword'),
+  column('keywordCount', 'Keywords'),
+  column('totalVolume', 'Total volume'),
+  column('dominantIntent', 'Dominant intent'),
+  column('method', 'Clustered by'),
+  column('keywords', 'Keyword list', row => list(row.keywords))
+];
+
+// One row per keyword per snapshot, each compared with the snapshot before it
+const SERP_HISTORY_COLUMNS = [
+  column('date', 'Date'),
+  column('keyword', 'Keyword'),
+  column('targetPosition', 'Target position'),
+  column('targetChange', 'Target change', row => row.diff?.targetChange ?? null),
+  column('turnover', 'Turnover %', row => row.diff?.turnover ?? null),
+  column('entered', 'Entered', row => list(row.diff?.entered?.map((result: any) => result.url))),
+  column('exited', 'Exited', row => list(row.diff?.exited?.map((result: any) => result.url))),
+  column('featuresAppeared', 'Features appeared', row => list(row.diff?.featuresAppeared)),
+  column('featuresDisappeared', 'Features disappeared', row => list(row.diff?.featuresDisappeared)),
+  column('features', 'Features', row => list(row.features)),
+  column('topResult', 'Top result', row => row.results?.[0]?.url ?? null)
+];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// One row per keyword, with its next publish-by date from the content calendar
+const TRENDS_COLUMNS = [
+  column('keyword', 'Keyword'),
+  column('seasonality', 'Seasonality'),
+  column('peakMonths', 'Peak months', row => list(row.peakMonths?.map((month: number) => MONTHS[month - 1]))),
+  column('yoyGrowth', 'YoY growth %'),
+  column('recentChange', 'Last 3 months change %'),
+  column('breakout', 'Breakout', row => Boolean(row.breakout)),
+  column('averageInterest', 'Average interest'),
+  column('currentInterest', 'Current interest'),
+  column('publishBy', 'Publish by'),
+  column('seasonStart', 'Season starts')
+];
+
+// One row per keyword per check point
+const LOCAL_SEO_COLUMNS = [
+  column('keyword', 'Keyword'),
+  column('point', 'Location'),
+  column('position', 'Maps position'),
+  column('inLocalPack', 'In local pack', row => row.position !== null && row.position <= 3),
+  column('localPack', 'Local pack', row => list(row.localPack?.map((listing: any) => listing.title)))
+];
+
+function keywordRows(data: unknown, filters?: DatasetExportRequest['filters']) {
+  const rows = normalizeKeywordRows(data);
+  return filters ? filterKeywordRows(rows, filters) : rows;
+}
+
+function serpRows(data: any): any[] {
+  const results: any[] = Array.isArray(data) ? data : [];
+  return results.flatMap(result => (result.items || []).map((item: any) => ({
+    ...item,
+    keyword: result.keyword,
+    serpType: result.type,
+    keywordDifficulty: result.keywordDifficulty ?? null,
+    difficulty: result.difficulty ?? null
+  })));
+}
+
+function serpHistoryRows(data: any): any[] {
+  const histories: any[] = Array.isArray(data) ? data : [];
+  return histories.flatMap(history => (history.snapshots || []).map((snapshot: any) => ({
+    ...snapshot,
+    keyword: history.keyword
+  })));
+}
+
+function trendRows(data: any): any[] {
+  const calendar: any[] = data?.calendar || [];
+  return (data?.keywords || []).map((trend: any) => {
+    const next = calendar.find(entry => entry.keyword === trend.keyword);
+    return { ...trend, publishBy: next?.publishBy ?? null, seasonStart: next?.season ? next.seasonStart : null };
+  });
+}
+
+function datasetTable(kind: DatasetKind, data: any, filters?: DatasetExportRequest['filters']): DatasetTable {
+  switch (kind) {
+    case DatasetKind.KEYWORDS:
+      return { columns: KEYWORD_COLUMNS, rows: keywordRows(data, filters) };
+    case DatasetKind.SERP:
+      return { columns: SERP_COLUMNS, rows: serpRows(data) };
+    case DatasetKind.COMPETITORS:
+      // Competitor research stores a keyword gap analysis; SERP competitor analysis stores
+      // the keywords where none of the competitors reach the top 10
+      return data?.gapAnalysis
+        ? { columns: KEYWORD_GAP_COLUMNS, rows: data.gapAnalysis.keywordGaps || [] }
+        : { columns: SERP_OPPORTUNITY_COLUMNS, rows: data?.keywordOpportunities || [] };
+    case DatasetKind.BACKLINKS:
+      return { columns: REFERRING_DOMAIN_COLUMNS, rows: data?.referringDomains || [] };
+    case DatasetKind.ONPAGE:
+      return { columns: ONPAGE_COLUMNS, rows: data?.pages || [] };
+    case DatasetKind.KEYWORD_CLUSTERS:
+      return { columns: KEYWORD_CLUSTER_COLUMNS, rows: Array.isArray(data) ? data : [] };
+    case DatasetKind.SERP_HISTORY:
+      return { columns: SERP_HISTORY_COLUMNS, rows: serpHistoryRows(data) };
+    case DatasetKind.TRENDS:
+      return { columns: TRENDS_COLUMNS, rows: trendRows(data) };
+    case DatasetKind.LOCAL_SEO:
+      return { columns: LOCAL_SEO_COLUMNS, rows: data?.checks || [] };
+    default:
+      throw new DatasetExportError(`${kind} datasets can't be exported as a table`);
+  }
+}
+
+// The exportable columns of a dataset, for column pickers
+export function datasetColumns(kind: DatasetKind, data: unknown): Array<{ key: string; label: string }> {
+  return datasetTable(kind, data).columns.map(({ key, label }) => ({ key, label }));
+}
+
+// Keyword datasets apply the rows endpoint's filters and sort; other kinds keep their
+// stored order and only use search, matched against every text column
+function applyFilters(table: DatasetTable, kind: DatasetKind, request: DatasetExportRequest): any[] {
+  let rows = table.rows;
+
+  const search = request.filters?.search?.toLowerCase();
+  if (search && kind !== DatasetKind.KEYWORDS) {
+    rows = rows.filter(row => table.columns.some(item => {
+      const value = item.value(row);
+      return typeof value === 'string' && value.toLowerCase().includes(search);
+    }));
+  }
+
+  if (request.keywords) {
+    if (!table.columns.some(item => item.key === 'keyword')) {
+      throw new DatasetExportError('This dataset has no keyword column to select rows by');
+    }
+    const selected = new Set(request.keywords.map(keyword => keyword.toLowerCase()));
+    rows = rows.filter(row => typeof row.keyword === 'string' && selected.has(row.keyword.toLowerCase()));
+  }
+
+  return rows;
+}
+
+function selectColumns(table: DatasetTable, keys?: string[]): DatasetColumn[] {
+  if (!keys) {
+    return table.columns;
+  }
+
+  const unknown = keys.filter(key => !table.columns.some(item => item.key === key));
+  if (unknown.length > 0) {
+    throw new DatasetExportError(`Unknown columns: ${unknown.join(', ')}`);
+  }
+
+  return keys.map(key => table.columns.find(item => item.key === key)!);
+}
+
+function* csvLines(columns: DatasetColumn[], rows: any[]): Generator<Buffer> {
+  // BOM so spreadsheet apps detect UTF-8
+  yield Buffer.from('\uFEFF' + columns.map(item => csvCell(item.label)).join(',') + '\r\n', 'utf8');
+
+  for (let start = 0; start < rows.length; start += CSV_ROWS_PER_CHUNK) {
+    const lines = rows.slice(start, start + CSV_ROWS_PER_CHUNK).map(row =>
+      columns.map(item => {
+        const value = item.value(row);
+        // Numbers are written as they are; only text can smuggle in a formula
+        if (typeof value === 'number') return String(value);
+        return csvCell(value === null ? '' : String(value));
+      }).join(',') + '\r\n'
+    );
+    yield Buffer.from(lines.join(''), 'utf8');
+  }
+}
+
+function* cellRows(columns: DatasetColumn[], rows: any[]): Generator<XlsxCell[]> {
+  for (const row of rows) {
+    yield columns.map(item => item.value(row));
+  }
+}
+
+// File-system and header safe name derived from the dataset name
+export function datasetFileName(name: string, extension: string, date: Date = new Date()): string {
+  const base = name
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .toLowerCase()
+    .slice(0, 80) || 'dataset';
+
+  return `${base}-${date.toISOString().slice(0, 10)}.${extension}`;
+}
+
+// Validates the request up front (so errors can still be sent as JSON) and returns the file
+// as a stream of chunks
+export function exportDataset(
+  dataset: { name: string; kind: DatasetKind; data: unknown },
+  request: DatasetExportRequest
+): { fileName: string; contentType: string; rowCount: number; body: Iterable<Buffer> | AsyncIterable<Buffer> } {
+  const table = datasetTable(dataset.kind, dataset.data, request.filters);
+  const columns = selectColumns(table, request.columns);
+  const rows = applyFilters(table, dataset.kind, request);
+
+  if (request.format === 'XLSX') {
+    return {
+      fileName: datasetFileName(dataset.name, 'xlsx'),
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      rowCount: rows.length,
+      body: streamXlsx(dataset.name, columns.map(item => item.label), cellRows(columns, rows))
+    };
+  }
+
+  return {
+    fileName: datasetFileName(dataset.name, 'csv'),
+    contentType: 'text/csv; charset=utf-8',
+    rowCount: rows.length,
+    body: csvLines(columns, rows)
+  };
+}
@@ -0,0 +1,209 @@
+import { detectIntent, calculateTrend, calculateOpportunityScore } from './keyword-metrics.js';
+
+// One row of a KEYWORDS dataset as served by the dataset explorer
+export interface KeywordRow {
+  keyword: string;
+  searchVolume: number;
+  cpc: number;
+  competition: number;
+  competitionLevel: string;
+  keywordDifficulty?: number;
+  intent: string;
+  trend: string;
+  opportunity: number;
+  categories: number[];
+  monthlySearches: Array<{ month: number; volume: number }>;
+  isSeedKeyword?: boolean;
+  // Near-duplicate keywords merged into this one
+  variants?: string[];
+  // Head keyword of the semantic group this keyword belongs to
+  semanticGroup?: string;
+}
+
+export type KeywordSortField = 'keyword' | 'searchVolume' | 'cpc' | 'competition' | 'keywordDifficulty' | 'opportunity';
+
+export interface KeywordRowSort {
+  field: KeywordSortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface KeywordRowFilters {
+  search?: string;
+  minVolume?: number;
+  maxVolume?: number;
+  competition?: string[];
+  intent?: string[];
+  trend?: string[];
+  minOpportunity?: number;
+  maxOpportunity?: number;
+}
+
+export interface KeywordRowsPage {
+  rows: KeywordRow[];
+  total: number;
+  nextCursor: string | null;
+}
+
+const DEFAULT_SORT: KeywordRowSort[] = [{ field: 'searchVolume', direction: 'desc' }];
+
+export class InvalidCursorError extends Error {
+  statusCode = 400;
+
+  constructor() {
+    super('Invalid cursor; request the first page again');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+function competitionLevelFor(competition: number): string {
+  if (competition < 0.33) return 'LOW';
+  if (competition < 0.66) return 'MEDIUM';
+  return 'HIGH';
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+// Rows are stored by keyword discovery (camelCase, with intent/trend/opportunity already derived)
+// or imported from DataForSEO responses (snake_case); fill in whatever is missing
+export function normalizeKeywordRows(data: unknown): KeywordRow[] {
+  const items: any[] = Array.isArray(data) ? data : (data as any)?.keywords || [];
+
+  return items
+    .filter(item => item && typeof item.keyword === 'string' && item.keyword)
+    .map(item => {
+      const searchVolume = toNumber(item.searchVolume ?? item.search_volume) ?? 0;
+      const competition = toNumber(item.competition) ?? 0;
+      const monthlySearches = item.monthlySearches ?? item.monthly_searches ?? [];
+      const competitionLevel = item.competitionLevel ?? item.competition_level
+        ?? (item.competition !== undefined ? competitionLevelFor(competition) : 'UNKNOWN');
+      const intent = item.intent || detectIntent(item.keyword);
+      const trend = item.trend || calculateTrend(monthlySearches);
+      const keywordDifficulty = toNumber(item.keywordDifficulty ?? item.keyword_difficulty ?? item.difficulty);
+
+      return {
+        keyword: item.keyword,
+        searchVolume,
+        cpc: toNumber(item.cpc) ?? 0,
+        competition,
+        competitionLevel,
+        ...(keywordDifficulty !== undefined && { keywordDifficulty }),
+        intent,
+        trend,
+        opportunity: toNumber(item.opportunity) ?? calculateOpportunityScore({ searchVolume, competitionLevel, intent, trend }),
+        categories: item.categories || [],
+        monthlySearches,
+        ...(item.isSeedKeyword && { isSeedKeyword: true }),
+        ...(Array.isArray(item.variants) && item.variants.length > 0 && { variants: item.variants }),
+        ...(item.semanticGroup && { semanticGroup: item.semanticGroup })
+      };
+    });
+}
+
+// A search also matches the merged variants, so "seo tools" still finds the "seo tool" row
+function matchesSearch(row: KeywordRow, search: string): boolean {
+  const term = search.toLowerCase();
+  return [row.keyword, ...(row.variants || [])].some(keyword => keyword.toLowerCase().includes(term));
+}
+
+function matchesFilters(row: KeywordRow, filters: KeywordRowFilters): boolean {
+  if (filters.search && !matchesSearch(row, filters.search)) return false;
+  if (filters.minVolume !== undefined && row.searchVolume < filters.minVolume) return false;
+  if (filters.maxVolume !== undefined && row.searchVolume > filters.maxVolume) return false;
+  if (filters.competition && !filters.competition.includes(row.competitionLevel)) return false;
+  if (filters.intent && !filters.intent.includes(row.intent)) return false;
+  if (filters.trend && !filters.trend.includes(row.trend)) return false;
+  if (filters.minOpportunity !== undefined && row.opportunity < filters.minOpportunity) return false;
+  if (filters.maxOpportunity !== undefined && row.opportunity > filters.maxOpportunity) return false;
+  return true;
+}
+
+type SortValue = string | number | null;
+
+function sortValue(row: KeywordRow, field: KeywordSortField): SortValue {
+  const value = row[field];
+  if (value === undefined) return null;
+  return typeof value === 'string' ? value.toLowerCase() : value;
+}
+
+// Missing values (rows without a difficulty) sort last in either direction
+function compareValues(a: SortValue, b: SortValue, direction: 'asc' | 'desc'): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  const order = a < b ? -1 : 1;
+  return direction === 'asc' ? order : -order;
+}
+
+// A row's position in the sort order: its sort values, then its index in the dataset as a
+// tie-break, so every row has a unique position and a page boundary never splits ties
+interface SortKey {
+  values: SortValue[];
+  index: number;
+}
+
+function compareKeys(a: SortKey, b: SortKey, sort: KeywordRowSort[]): number {
+  for (let i = 0; i < sort.length; i++) {
+    const order = compareValues(a.values[i], b.values[i], sort[i].direction);
+    if (order !== 0) return order;
+  }
+  return a.index - b.index;
+}
+
+function sortSignature(sort: KeywordRowSort[]): string {
+  return sort.map(item => `${item.field}:${item.direction}`).join(',');
+}
+
+// The cursor is the position of the last row served (keyset pagination), so pages stay
+// consistent however the filters change, and it only makes sense under the same sort
+function encodeCursor(key: SortKey, sort: KeywordRowSort[]): string {
+  return Buffer.from(JSON.stringify({ s: sortSignature(sort), v: key.values, i: key.index })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: KeywordRowSort[]): SortKey {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (parsed.s !== sortSignature(sort) || !Array.isArray(parsed.v) || parsed.v.length !== sort.length || !Number.isInteger(parsed.i)) {
+      throw new InvalidCursorError();
+    }
+    return { values: parsed.v, index: parsed.i };
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+function sortedMatches(rows: KeywordRow[], filters: KeywordRowFilters, sort: KeywordRowSort[]) {
+  return rows
+    .map((row, index) => ({ row, key: { values: sort.map(item => sortValue(row, item.field)), index } }))
+    .filter(({ row }) => matchesFilters(row, filters))
+    .sort((a, b) => compareKeys(a.key, b.key, sort));
+}
+
+// Every row matching the filters, in sort order
+export function filterKeywordRows(rows: KeywordRow[], query: KeywordRowFilters & { sort?: KeywordRowSort[] }): KeywordRow[] {
+  const sort = query.sort?.length ? query.sort : DEFAULT_SORT;
+  return sortedMatches(rows, query, sort).map(item => item.row);
+}
+
+// Filter, sort and page a dataset's rows in memory
+export function queryKeywordRows(rows: KeywordRow[], query: KeywordRowFilters & {
+  sort?: KeywordRowSort[];
+  limit: number;
+  cursor?: string;
+}): KeywordRowsPage {
+  const sort = query.sort?.length ? query.sort : DEFAULT_SORT;
+  const after = query.cursor ? decodeCursor(query.cursor, sort) : null;
+  const matching = sortedMatches(rows, query, sort);
+
+  const start = after ? matching.findIndex(item => compareKeys(item.key, after, sort) > 0) : 0;
+  const page = start === -1 ? [] : matching.slice(start, start + query.limit);
+  const hasMore = start !== -1 && start + query.limit < matching.length;
+
+  return {
+    rows: page.map(item => item.row),
+    total: matching.length,
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1].key, sort) : null
+  };
+}
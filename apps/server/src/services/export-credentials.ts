@@ -0,0 +1,281 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { PrismaClient, ExportProvider } from '@prisma/client';
+import getEnvConfig from '../config/env.js';
+import { notionAuthorizeUrl, exchangeNotionCode } from '../integrations/notion/client.js';
+import {
+  googleAuthorizeUrl,
+  exchangeGoogleCode,
+  refreshGoogleToken,
+  emailFromIdToken
+} from '../integrations/google-docs/client.js';
+
+const env = getEnvConfig();
+
+const PROVIDER_LABELS: Record<ExportProvider, string> = {
+  [ExportProvider.NOTION]: 'Notion',
+  [ExportProvider.GOOGLE]: 'Google Docs'
+};
+
+// Path segment used in the OAuth connect and callback URLs
+export const PROVIDER_SLUGS: Record<string, ExportProvider> = {
+  notion: ExportProvider.NOTION,
+  google: ExportProvider.GOOGLE
+};
+
+export function providerFromSlug(slug: string): ExportProvider | undefined {
+  return Object.prototype.hasOwnProperty.call(PROVIDER_SLUGS, slug) ? PROVIDER_SLUGS[slug] : undefined;
+}
+
+export const OAUTH_STATE_TTL = 10 * 60 * 1000; // 10 minutes to finish the provider's consent screen
+const REFRESH_MARGIN = 60 * 1000; // refresh Google tokens a minute before they expire
+
+export class IntegrationNotConnectedError extends Error {
+  statusCode = 400;
+
+  constructor(public provider: ExportProvider) {
+    super(`Connect ${PROVIDER_LABELS[provider]} before exporting to it`);
+    this.name = 'IntegrationNotConnectedError';
+  }
+}
+
+export function providerLabel(provider: ExportProvider): string {
+  return PROVIDER_LABELS[provider];
+}
+
+export function isProviderConfigured(provider: ExportProvider): boolean {
+  return provider === ExportProvider.NOTION
+    ? Boolean(env.NOTION_CLIENT_ID && env.NOTION_CLIENT_SECRET)
+    : Boolean(env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET);
+}
+
+export function redirectUri(provider: ExportProvider): string {
+  const slug = Object.keys(PROVIDER_SLUGS).find(key => PROVIDER_SLUGS[key] === provider);
+  return `${env.API_BASE_URL}/api/integrations/${slug}/callback`;
+}
+
+// AES-256-GCM for tokens at rest; stored as iv.tag.ciphertext in base64
+const encryptionKey = createHash('sha256')
+  .update(env.EXPORT_CREDENTIALS_KEY || `export-credentials:${env.JWT_SECRET}`)
+  .digest();
+
+function encrypt(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey, iv);
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data].map(part => part.toString('base64')).join('.');
+}
+
+function decrypt(value: string): string {
+  const [iv, tag, data] = value.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+}
+
+interface OAuthState {
+  // The pending OAuthState row, deleted when a callback uses the state
+  id: string;
+  userId: string;
+  provider: ExportProvider;
+  returnTo: string;
+  // Hash of the nonce set as a cookie on the browser that started the flow
+  nonceHash: string;
+  expires: number;
+}
+
+function signState(payload: string): string {
+  return createHmac('sha256', env.JWT_SECRET).update(`oauth-state:${payload}`).digest('base64url');
+}
+
+// Reduces a return address to a path on the web app, or '/'. Browsers read a backslash
+// as a slash, so "/\evil.com" would leave the site; resolving against WEB_BASE_URL and
+// comparing origins catches that and any other way of naming another host.
+export function webReturnPath(returnTo?: string): string {
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.includes('\\')) {
+    return '/';
+  }
+
+  try {
+    const base = new URL(env.WEB_BASE_URL);
+    const url = new URL(returnTo, base);
+    return url.origin === base.origin ? `${url.pathname}${url.search}${url.hash}` : '/';
+  } catch {
+    return '/';
+  }
+}
+
+function hashNonce(nonce: string): string {
+  return createHash('sha256').update(`oauth-nonce:${nonce}`).digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function encodeState(state: OAuthState): string {
+  const payload = Buffer.from(JSON.stringify(state)).toString('base64url');
+  return `${payload}.${signState(payload)}`;
+}
+
+// The signed state, when it is for this provider, unexpired, and presented by the browser
+// holding its nonce. Whether it was already used is checked by consumeOAuthState.
+export function verifyOAuthState(value: string, provider: ExportProvider, nonce?: string): OAuthState | null {
+  const [payload, signature] = value.split('.');
+  if (!payload || !signature || !nonce) return null;
+
+  if (!safeEqual(signature, signState(payload))) {
+    return null;
+  }
+
+  try {
+    const state = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as OAuthState;
+    return state.provider === provider && state.expires > Date.now() && safeEqual(hashNonce(nonce), state.nonceHash)
+      ? state
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export class ExportCredentialService {
+  constructor(private prisma: PrismaClient) {}
+
+  // The OAuth callback is a browser redirect without our bearer token, so the state parameter
+  // carries the user, signed, and where to send them afterwards. The nonce is set as a cookie
+  // so only the browser that started the flow can finish it, and the pending row makes the
+  // state single-use.
+  async createOAuthState(userId: string, provider: ExportProvider, returnTo?: string): Promise<{ state: string; nonce: string }> {
+    await this.prisma.oAuthState.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+
+    const expires = Date.now() + OAUTH_STATE_TTL;
+    const pending = await this.prisma.oAuthState.create({
+      data: { userId, provider, expiresAt: new Date(expires) }
+    });
+    const nonce = randomBytes(32).toString('base64url');
+
+    const state = encodeState({
+      id: pending.id,
+      userId,
+      provider,
+      // Only paths on the web app, so the callback can't be used as an open redirect
+      returnTo: webReturnPath(returnTo),
+      nonceHash: hashNonce(nonce),
+      expires
+    });
+
+    return { state, nonce };
+  }
+
+  // Null unless the state is valid for this browser and hasn't been used; using it deletes it
+  async consumeOAuthState(value: string, provider: ExportProvider, nonce?: string): Promise<OAuthState | null> {
+    const state = verifyOAuthState(value, provider, nonce);
+    if (!state) return null;
+
+    const { count } = await this.prisma.oAuthState.deleteMany({
+      where: { id: state.id, userId: state.userId, provider, expiresAt: { gt: new Date() } }
+    });
+    return count === 1 ? state : null;
+  }
+
+  authorizeUrl(provider: ExportProvider, state: string): string {
+    return provider === ExportProvider.NOTION
+      ? notionAuthorizeUrl(redirectUri(provider), state)
+      : googleAuthorizeUrl(redirectUri(provider), state);
+  }
+
+  // Exchange the callback code for tokens and store them for the user
+  async completeOAuth(userId: string, provider: ExportProvider, code: string): Promise<void> {
+    if (provider === ExportProvider.NOTION) {
+      const token = await exchangeNotionCode(code, redirectUri(provider));
+      await this.save(userId, provider, {
+        accessToken: token.access_token,
+        accountName: token.workspace_name || null
+      });
+      return;
+    }
+
+    const token = await exchangeGoogleCode(code, redirectUri(provider));
+    await this.save(userId, provider, {
+      accessToken: token.access_token,
+      refreshToken: token.refresh_token,
+      expiresAt: new Date(Date.now() + token.expires_in * 1000),
+      scope: token.scope,
+      accountName: emailFromIdToken(token.id_token)
+    });
+  }
+
+  async save(userId: string, provider: ExportProvider, credential: {
+    accessToken: string;
+    refreshToken?: string | null;
+    expiresAt?: Date | null;
+    scope?: string | null;
+    accountName?: string | null;
+  }) {
+    const data = {
+      accessToken: encrypt(credential.accessToken),
+      // Google only returns a refresh token on consent; keep the stored one otherwise
+      ...(credential.refreshToken && { refreshToken: encrypt(credential.refreshToken) }),
+      expiresAt: credential.expiresAt ?? null,
+      scope: credential.scope ?? null,
+      ...(credential.accountName !== undefined && { accountName: credential.accountName })
+    };
+
+    return this.prisma.exportCredential.upsert({
+      where: { userId_provider: { userId, provider } },
+      create: { userId, provider, ...data },
+      update: data
+    });
+  }
+
+  // Connected providers, without the tokens
+  async list(userId: string) {
+    return this.prisma.exportCredential.findMany({
+      where: { userId },
+      select: { provider: true, accountName: true, createdAt: true, updatedAt: true },
+      orderBy: { provider: 'asc' }
+    });
+  }
+
+  async isConnected(userId: string, provider: ExportProvider): Promise<boolean> {
+    const count = await this.prisma.exportCredential.count({ where: { userId, provider } });
+    return count > 0;
+  }
+
+  async remove(userId: string, provider: ExportProvider): Promise<boolean> {
+    const { count } = await this.prisma.exportCredential.deleteMany({ where: { userId, provider } });
+    return count > 0;
+  }
+
+  // A usable access token, refreshing an expiring Google token first
+  async getAccessToken(userId: string, provider: ExportProvider): Promise<string> {
+    const credential = await this.prisma.exportCredential.findUnique({
+      where: { userId_provider: { userId, provider } }
+    });
+    if (!credential) {
+      throw new IntegrationNotConnectedError(provider);
+    }
+
+    const expiring = credential.expiresAt && credential.expiresAt.getTime() - REFRESH_MARGIN < Date.now();
+    if (!expiring) {
+      return decrypt(credential.accessToken);
+    }
+
+    if (!credential.refreshToken) {
+      throw new IntegrationNotConnectedError(provider);
+    }
+
+    const token = await refreshGoogleToken(decrypt(credential.refreshToken));
+    await this.save(userId, provider, {
+      accessToken: token.access_token,
+      refreshToken: token.refresh_token,
+      expiresAt: new Date(Date.now() + token.expires_in * 1000),
+      scope: token.scope ?? credential.scope
+    });
+
+    return token.access_token;
+  }
+}
+
+export default ExportCredentialService;
@@ -0,0 +1,30 @@
+import type { Renderer } from './types.js';
+import { sectionBodyLines, sortedSections } from './types.js';
+
+// Quote per RFC 4180, and neutralise values a spreadsheet would evaluate as a formula
+export function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// One row per section, with the section body flattened to text
+export const renderCsv: Renderer = (document) => {
+  const rows = [
+    ['Order', 'Type', 'Title', 'Content'],
+    ...sortedSections(document).map((section, index) => [
+      String(index + 1),
+      section.type,
+      section.title || '',
+      sectionBodyLines(section).join('\n')
+    ])
+  ];
+
+  // BOM so spreadsheet apps detect UTF-8
+  const csv = '\uFEFF' + rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+  return {
+    data: Buffer.from(csv, 'utf8'),
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv'
+  };
+};
@@ -0,0 +1,143 @@
+import type { Renderer } from './types.js';
+import { chartAsTable, sortedSections } from './types.js';
+import { createZip } from './zip.js';
+
+// WordprocessingML package with a title, heading styles, lists as indented paragraphs
+// and bordered tables. Heading sections map to Heading 1-3 and section titles to Heading 2,
+// matching the Markdown export one level below the document title.
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+export function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function paragraph(text: string, options: { style?: string; bold?: boolean } = {}): string {
+  const properties = options.style ? `<w:pPr><w:pStyle w:val="${options.style}"/></w:pPr>` : '';
+  const runProperties = options.bold ? '<w:rPr><w:b/></w:rPr>' : '';
+  return `<w:p>${properties}<w:r>${runProperties}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`;
+}
+
+function table(columns: string[], rows: string[][]): string {
+  const cell = (text: string, bold: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${paragraph(text, { bold })}</w:tc>`;
+
+  return [
+    '<w:tbl>',
+    '<w:tblPr><w:tblStyle w:val="BriefTable"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>',
+    `<w:tblGrid>${columns.map(() => '<w:gridCol/>').join('')}</w:tblGrid>`,
+    `<w:tr><w:trPr><w:tblHeader/></w:trPr>${columns.map(column => cell(column, true)).join('')}</w:tr>`,
+    ...rows.map(row => `<w:tr>${columns.map((_, index) => cell(row[index] || '', false)).join('')}</w:tr>`),
+    '</w:tbl>',
+    // Word requires a paragraph between consecutive tables; it also gives the table some space
+    '<w:p/>'
+  ].join('');
+}
+
+const STYLES = `${XML_HEADER}
+<w:styles xmlns:w="${W_NS}">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="44"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="200" w:after="60"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="24"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="ListItem"><w:name w:val="List Item"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="40"/><w:ind w:left="360" w:hanging="360"/></w:pPr></w:style>
+  <w:style w:type="table" w:styleId="BriefTable"><w:name w:val="Brief Table"/><w:tblPr><w:tblBorders>
+    <w:top w:val="single" w:sz="4" w:color="BFBFBF"/><w:left w:val="single" w:sz="4" w:color="BFBFBF"/>
+    <w:bottom w:val="single" w:sz="4" w:color="BFBFBF"/><w:right w:val="single" w:sz="4" w:color="BFBFBF"/>
+    <w:insideH w:val="single" w:sz="4" w:color="BFBFBF"/><w:insideV w:val="single" w:sz="4" w:color="BFBFBF"/>
+  </w:tblBorders><w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+
+const CONTENT_TYPES = `${XML_HEADER}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+function coreProperties(title: string, created: Date): string {
+  return `${XML_HEADER}
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(title)}</dc:title>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${created.toISOString()}</dcterms:created>
+</cp:coreProperties>`;
+}
+
+export const renderDocx: Renderer = (document) => {
+  const body: string[] = [paragraph(document.title, { style: 'Title' })];
+
+  for (const section of sortedSections(document)) {
+    if (section.type === 'heading') {
+      body.push(paragraph(section.content.text, { style: `Heading${section.content.level}` }));
+      continue;
+    }
+
+    if (section.title) {
+      body.push(paragraph(section.title, { style: 'Heading2' }));
+    }
+
+    switch (section.type) {
+      case 'paragraph':
+        for (const line of section.content.text.split('\n')) {
+          body.push(paragraph(line));
+        }
+        break;
+      case 'list':
+        section.content.items.forEach((item, index) => {
+          body.push(paragraph(`${section.content.ordered ? `${index + 1}.` : '•'}\t${item}`, { style: 'ListItem' }));
+        });
+        break;
+      case 'table':
+        body.push(table(section.content.columns, section.content.rows));
+        break;
+      case 'chart': {
+        const { columns, rows } = chartAsTable(section);
+        body.push(table(columns, rows));
+        break;
+      }
+    }
+  }
+
+  const documentXml = `${XML_HEADER}
+<w:document xmlns:w="${W_NS}"><w:body>${body.join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const created = new Date();
+
+  return {
+    data: createZip([
+      { name: '[Content_Types].xml', data: Buffer.from(CONTENT_TYPES, 'utf8') },
+      { name: '_rels/.rels', data: Buffer.from(PACKAGE_RELS, 'utf8') },
+      { name: 'docProps/core.xml', data: Buffer.from(coreProperties(document.title, created), 'utf8') },
+      { name: 'word/_rels/document.xml.rels', data: Buffer.from(DOCUMENT_RELS, 'utf8') },
+      { name: 'word/styles.xml', data: Buffer.from(STYLES, 'utf8') },
+      { name: 'word/document.xml', data: Buffer.from(documentXml, 'utf8') }
+    ], created),
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extension: 'docx'
+  };
+};
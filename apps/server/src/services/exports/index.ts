@@ -0,0 +1,247 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PrismaClient, ExportFormat, ExportStatus, ExportProvider } from '@prisma/client';
+import type { BriefSection } from '@seo-portal/shared';
+import getEnvConfig from '../../config/env.js';
+import type { Renderer, Exporter } from './types.js';
+import { exportFileName, fileExporter } from './types.js';
+import { renderMarkdown } from './markdown.js';
+import { renderCsv } from './csv.js';
+import { renderPdf } from './pdf.js';
+import { renderDocx } from './docx.js';
+import { NotionExporter, GoogleDocsExporter } from './remote.js';
+import { LocalExportStorage, type ExportStorage } from './storage.js';
+import { ExportCredentialService, IntegrationNotConnectedError } from '../export-credentials.js';
+
+const env = getEnvConfig();
+
+const CLEANUP_INTERVAL = 60 * 60 * 1000; // hourly
+
+// Formats rendered to a file on this server. NOTION and GOOGLE_DOCS push to an external service instead.
+export const FILE_RENDERERS: Partial<Record<ExportFormat, Renderer>> = {
+  [ExportFormat.MARKDOWN]: renderMarkdown,
+  [ExportFormat.CSV]: renderCsv,
+  [ExportFormat.PDF]: renderPdf,
+  [ExportFormat.DOCX]: renderDocx
+};
+
+export function isFileFormat(format: ExportFormat): boolean {
+  return FILE_RENDERERS[format] !== undefined;
+}
+
+// Formats exported to a user's connected account, by the provider they need
+export const REMOTE_PROVIDERS: Partial<Record<ExportFormat, ExportProvider>> = {
+  [ExportFormat.NOTION]: ExportProvider.NOTION,
+  [ExportFormat.GOOGLE_DOCS]: ExportProvider.GOOGLE
+};
+
+export function createExporters(credentials: ExportCredentialService): Record<ExportFormat, Exporter> {
+  return {
+    [ExportFormat.MARKDOWN]: fileExporter(renderMarkdown),
+    [ExportFormat.CSV]: fileExporter(renderCsv),
+    [ExportFormat.PDF]: fileExporter(renderPdf),
+    [ExportFormat.DOCX]: fileExporter(renderDocx),
+    [ExportFormat.NOTION]: new NotionExporter(credentials),
+    [ExportFormat.GOOGLE_DOCS]: new GoogleDocsExporter(credentials)
+  };
+}
+
+function sign(exportId: string, expires: number): string {
+  return createHmac('sha256', env.JWT_SECRET).update(`export:${exportId}:${expires}`).digest('hex');
+}
+
+// Check a download link produced by downloadUrl(); false when tampered with or expired
+export function verifyDownloadSignature(exportId: string, expires: number, signature: string): boolean {
+  if (!Number.isFinite(expires) || expires * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(exportId, expires), 'hex');
+  const provided = Buffer.from(signature, 'hex');
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+export class ExportService {
+  private cleanupTimer?: NodeJS.Timeout;
+  private credentials: ExportCredentialService;
+  private exporters: Record<ExportFormat, Exporter>;
+
+  constructor(
+    private prisma: PrismaClient,
+    private storage: ExportStorage = new LocalExportStorage(env.EXPORT_STORAGE_DIR),
+    exporters?: Record<ExportFormat, Exporter>
+  ) {
+    this.credentials = new ExportCredentialService(prisma);
+    this.exporters = exporters || createExporters(this.credentials);
+  }
+
+  // Queue an export of the brief's current version; the work happens in the background.
+  // destination is where remote formats put the document, e.g. a Notion parent page.
+  async requestExport(briefId: string, userId: string, format: ExportFormat, destination?: string) {
+    const brief = await this.prisma.brief.findUnique({ where: { id: briefId }, select: { version: true } });
+    if (!brief) {
+      throw new Error('Brief not found');
+    }
+
+    const provider = REMOTE_PROVIDERS[format];
+    if (provider && !(await this.credentials.isConnected(userId, provider))) {
+      throw new IntegrationNotConnectedError(provider);
+    }
+
+    const record = await this.prisma.export.create({
+      data: {
+        briefId,
+        briefVersion: brief.version,
+        format,
+        destination,
+        createdBy: userId,
+        status: ExportStatus.PENDING
+      }
+    });
+
+    this.processExport(record.id).catch(error => {
+      console.error(`Export ${record.id} failed:`, error);
+    });
+
+    return record;
+  }
+
+  // Export the snapshot of the requested version so later edits don't change the result
+  async processExport(exportId: string): Promise<void> {
+    const record = await this.prisma.export.findUnique({ where: { id: exportId } });
+    if (!record || record.status === ExportStatus.COMPLETED || record.status === ExportStatus.FAILED) {
+      return;
+    }
+
+    const exporter = this.exporters[record.format];
+
+    await this.prisma.export.update({
+      where: { id: exportId },
+      data: { status: ExportStatus.PROCESSING, error: null }
+    });
+
+    try {
+      const snapshot = await this.prisma.briefVersion.findUnique({
+        where: { briefId_version: { briefId: record.briefId, version: record.briefVersion } }
+      });
+      if (!snapshot) {
+        throw new Error(`Brief version ${record.briefVersion} not found`);
+      }
+
+      const output = await exporter.export({
+        title: snapshot.title,
+        version: snapshot.version,
+        sections: snapshot.sections as unknown as BriefSection[]
+      }, {
+        exportId: record.id,
+        userId: record.createdBy,
+        destination: record.destination
+      });
+
+      if ('url' in output) {
+        await this.prisma.export.update({
+          where: { id: exportId },
+          data: { status: ExportStatus.COMPLETED, url: output.url }
+        });
+        return;
+      }
+
+      const { file } = output;
+      const fileName = exportFileName(snapshot.title, snapshot.version, file.extension);
+      const storageKey = `${record.briefId}/${record.id}.${file.extension}`;
+
+      await this.storage.save(storageKey, file.data);
+
+      await this.prisma.export.update({
+        where: { id: exportId },
+        data: {
+          status: ExportStatus.COMPLETED,
+          storageKey,
+          fileName,
+          size: file.data.length,
+          expiresAt: new Date(Date.now() + env.EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+        }
+      });
+    } catch (error) {
+      await this.prisma.export.update({
+        where: { id: exportId },
+        data: {
+          status: ExportStatus.FAILED,
+          error: error instanceof Error ? error.message : 'Export failed'
+        }
+      });
+    }
+  }
+
+  // Re-run exports left PENDING or PROCESSING by a previous process. A remote export that was
+  // interrupted mid-request may already exist in the other service and be created again.
+  async resumePending(): Promise<number> {
+    const pending = await this.prisma.export.findMany({
+      where: { status: { in: [ExportStatus.PENDING, ExportStatus.PROCESSING] } },
+      select: { id: true }
+    });
+
+    for (const { id } of pending) {
+      this.processExport(id).catch(error => {
+        console.error(`Export ${id} failed:`, error);
+      });
+    }
+
+    return pending.length;
+  }
+
+  // Short-lived link to the rendered file, never outliving the file itself
+  downloadUrl(record: { id: string; status: ExportStatus; storageKey: string | null; expiresAt: Date | null }): string | null {
+    if (record.status !== ExportStatus.COMPLETED || !record.storageKey || !record.expiresAt) {
+      return null;
+    }
+
+    const expires = Math.floor(Math.min(Date.now() + env.EXPORT_URL_TTL * 1000, record.expiresAt.getTime()) / 1000);
+    if (expires * 1000 <= Date.now()) {
+      return null;
+    }
+
+    return `/api/downloads/exports/${record.id}?expires=${expires}&signature=${sign(record.id, expires)}`;
+  }
+
+  async readFile(storageKey: string): Promise<Buffer> {
+    return this.storage.read(storageKey);
+  }
+
+  // Delete files past their retention; the export rows stay as history
+  async cleanupExpired(): Promise<number> {
+    const expired = await this.prisma.export.findMany({
+      where: { storageKey: { not: null }, expiresAt: { lt: new Date() } },
+      select: { id: true, storageKey: true }
+    });
+
+    for (const record of expired) {
+      try {
+        await this.storage.remove(record.storageKey!);
+        await this.prisma.export.update({ where: { id: record.id }, data: { storageKey: null } });
+      } catch (error) {
+        console.error(`Failed to remove expired export ${record.id}:`, error);
+      }
+    }
+
+    return expired.length;
+  }
+
+  startCleanup(): void {
+    if (this.cleanupTimer) return;
+
+    this.cleanupTimer = setInterval(() => {
+      this.cleanupExpired().catch(error => {
+        console.error('Export cleanup failed:', error);
+      });
+    }, CLEANUP_INTERVAL);
+  }
+
+  stopCleanup(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = undefined;
+    }
+  }
+}
+
+export default ExportService;
@@ -0,0 +1,58 @@
+import type { Renderer } from './types.js';
+import { chartAsTable, sortedSections } from './types.js';
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function table(columns: string[], rows: string[][]): string[] {
+  return [
+    `| ${columns.map(escapeCell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${columns.map((_, index) => escapeCell(row[index] || '')).join(' | ')} |`)
+  ];
+}
+
+export const renderMarkdown: Renderer = (document) => {
+  const blocks: string[][] = [[`# ${document.title}`]];
+
+  for (const section of sortedSections(document)) {
+    const lines: string[] = [];
+
+    if (section.type === 'heading') {
+      // The brief title is already the document's H1, so section headings start one level down
+      lines.push(`${'#'.repeat(Math.min(section.content.level + 1, 6))} ${section.content.text}`);
+      blocks.push(lines);
+      continue;
+    }
+
+    if (section.title) {
+      lines.push(`### ${section.title}`, '');
+    }
+
+    switch (section.type) {
+      case 'paragraph':
+        lines.push(section.content.text);
+        break;
+      case 'list':
+        lines.push(...section.content.items.map((item, index) => section.content.ordered ? `${index + 1}. ${item}` : `- ${item}`));
+        break;
+      case 'table':
+        lines.push(...table(section.content.columns, section.content.rows));
+        break;
+      case 'chart': {
+        const { columns, rows } = chartAsTable(section);
+        lines.push(...table(columns, rows));
+        break;
+      }
+    }
+
+    blocks.push(lines);
+  }
+
+  return {
+    data: Buffer.from(blocks.map(lines => lines.join('\n')).join('\n\n') + '\n', 'utf8'),
+    contentType: 'text/markdown; charset=utf-8',
+    extension: 'md'
+  };
+};
@@ -0,0 +1,351 @@
+import type { BriefSection } from '@seo-portal/shared';
+import type { Renderer } from './types.js';
+import { sortedSections } from './types.js';
+
+// PDF 1.4 writer using the standard Helvetica fonts, so no font files need embedding.
+// Text is encoded as WinAnsi; characters outside it are replaced with '?'.
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_SIZE = 8;
+const LINE_HEIGHT = 1.4;
+
+const SIZES = {
+  title: 20,
+  heading: { 1: 16, 2: 14, 3: 12.5 } as Record<number, number>,
+  sectionTitle: 14,
+  body: 11,
+  table: 9.5
+};
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+// Helvetica-Bold is slightly wider on average; close enough for line breaking
+const BOLD_FACTOR = 1.08;
+
+// Unicode punctuation that WinAnsi places in the 0x80-0x9F range
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+function toWinAnsi(text: string): string {
+  let result = '';
+  for (const char of text.replace(/\t/g, '    ')) {
+    const code = char.codePointAt(0) ?? 63;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+      result += char;
+    } else if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      result += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    } else if (code >= 0x20) {
+      result += '?';
+    }
+  }
+  return result;
+}
+
+function textWidth(text: string, size: number, bold: boolean): number {
+  let units = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units / 1000) * size * (bold ? BOLD_FACTOR : 1);
+}
+
+// Greedy word wrap; words wider than the line are broken by character
+function wrap(text: string, size: number, bold: boolean, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of toWinAnsi(text).split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+
+      line = '';
+      for (const char of word) {
+        if (line && textWidth(line + char, size, bold) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function pdfString(text: string): string {
+  return `(${text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)')})`;
+}
+
+class PdfLayout {
+  pages: string[][] = [];
+  private ops: string[] = [];
+  private y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  newPage(): void {
+    this.ops = [];
+    this.pages.push(this.ops);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // Starts a new page when the next block would run into the bottom margin
+  ensureSpace(height: number): void {
+    if (this.y - height < MARGIN && this.y < PAGE_HEIGHT - MARGIN) {
+      this.newPage();
+    }
+  }
+
+  space(height: number): void {
+    this.y -= height;
+  }
+
+  text(x: number, baseline: number, size: number, bold: boolean, text: string): void {
+    this.ops.push(`BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(x)} ${num(baseline)} Td ${pdfString(text)} Tj ET`);
+  }
+
+  textBlock(text: string, options: { size: number; bold?: boolean; indent?: number; marker?: string }): void {
+    const bold = options.bold ?? false;
+    const indent = options.indent ?? 0;
+    const leading = options.size * LINE_HEIGHT;
+    const lines = wrap(text, options.size, bold, CONTENT_WIDTH - indent);
+
+    lines.forEach((line, index) => {
+      this.ensureSpace(leading);
+      const baseline = this.y - options.size;
+      if (index === 0 && options.marker) {
+        this.text(MARGIN, baseline, options.size, false, toWinAnsi(options.marker));
+      }
+      this.text(MARGIN + indent, baseline, options.size, bold, line);
+      this.y -= leading;
+    });
+  }
+
+  table(columns: string[], rows: string[][]): void {
+    const size = SIZES.table;
+    const leading = size * LINE_HEIGHT;
+    const padding = 4;
+    const columnWidth = CONTENT_WIDTH / Math.max(columns.length, 1);
+
+    const layoutRow = (cells: string[], bold: boolean) => {
+      const wrapped = columns.map((_, index) => wrap(cells[index] || '', size, bold, columnWidth - padding * 2));
+      const height = Math.max(...wrapped.map(lines => lines.length), 1) * leading + padding * 2;
+      return { wrapped, height, bold };
+    };
+
+    const drawRow = (row: ReturnType<typeof layoutRow>) => {
+      const top = this.y;
+      if (row.bold) {
+        this.ops.push(`0.93 g ${num(MARGIN)} ${num(top - row.height)} ${num(CONTENT_WIDTH)} ${num(row.height)} re f 0 g`);
+      }
+      row.wrapped.forEach((lines, column) => {
+        const x = MARGIN + column * columnWidth;
+        this.ops.push(`0.75 G 0.5 w ${num(x)} ${num(top - row.height)} ${num(columnWidth)} ${num(row.height)} re S 0 G`);
+        lines.forEach((line, index) => {
+          this.text(x + padding, top - padding - size - index * leading, size, row.bold, line);
+        });
+      });
+      this.y -= row.height;
+    };
+
+    const header = layoutRow(columns, true);
+    this.ensureSpace(header.height * 2);
+    drawRow(header);
+
+    for (const cells of rows) {
+      const row = layoutRow(cells, false);
+      if (this.y - row.height < MARGIN) {
+        // Repeat the header on continuation pages
+        this.newPage();
+        drawRow(header);
+      }
+      drawRow(row);
+    }
+  }
+
+  barChart(labels: string[], values: number[]): void {
+    const size = SIZES.table;
+    const rowHeight = 16;
+    const labelWidth = 140;
+    const valueWidth = 50;
+    const barArea = CONTENT_WIDTH - labelWidth - valueWidth;
+    const max = Math.max(...values.map(value => Math.abs(value)), 1);
+
+    labels.forEach((label, index) => {
+      this.ensureSpace(rowHeight);
+      const value = values[index] ?? 0;
+      const baseline = this.y - rowHeight + (rowHeight - size) / 2 + 2;
+      const barLength = Math.max((Math.abs(value) / max) * barArea, 1);
+
+      const [shortLabel] = wrap(label, size, false, labelWidth - 8);
+      this.text(MARGIN, baseline, size, false, shortLabel + (shortLabel.length < toWinAnsi(label).length ? '...' : ''));
+      this.ops.push(`0.23 0.51 0.96 rg ${num(MARGIN + labelWidth)} ${num(this.y - rowHeight + 3)} ${num(barLength)} ${num(rowHeight - 6)} re f 0 g`);
+      this.text(MARGIN + labelWidth + barLength + 4, baseline, size, false, toWinAnsi(value.toLocaleString('en-US')));
+      this.y -= rowHeight;
+    });
+  }
+
+  lineChart(labels: string[], values: number[]): void {
+    const size = SIZES.table;
+    const plotHeight = 140;
+    const axisWidth = 50;
+    const plotWidth = CONTENT_WIDTH - axisWidth;
+    const min = Math.min(...values, 0);
+    const max = Math.max(...values, 1);
+    const range = max - min || 1;
+
+    this.ensureSpace(plotHeight + size * 2 + 8);
+    const bottom = this.y - plotHeight;
+    const left = MARGIN + axisWidth;
+    const step = labels.length > 1 ? plotWidth / (labels.length - 1) : 0;
+    const pointY = (value: number) => bottom + ((value - min) / range) * plotHeight;
+
+    this.ops.push(`0.75 G 0.5 w ${num(left)} ${num(this.y)} m ${num(left)} ${num(bottom)} l ${num(left + plotWidth)} ${num(bottom)} l S 0 G`);
+    this.text(MARGIN, this.y - size, size, false, toWinAnsi(max.toLocaleString('en-US')));
+    this.text(MARGIN, bottom, size, false, toWinAnsi(min.toLocaleString('en-US')));
+
+    if (values.length > 0) {
+      const path = values.map((value, index) => `${num(left + index * step)} ${num(pointY(value))} ${index === 0 ? 'm' : 'l'}`);
+      this.ops.push(`0.23 0.51 0.96 RG 1.5 w ${path.join(' ')} S 0 G`);
+    }
+
+    // Label every nth point so they don't overlap
+    const every = Math.max(1, Math.ceil(labels.length / Math.max(Math.floor(plotWidth / 60), 1)));
+    labels.forEach((label, index) => {
+      if (index % every !== 0) return;
+      const [shortLabel] = wrap(label, size, false, 56);
+      this.text(left + index * step - textWidth(shortLabel, size, false) / 2, bottom - size - 4, size, false, shortLabel);
+    });
+
+    this.y = bottom - size * 2 - 8;
+  }
+}
+
+function renderSection(layout: PdfLayout, section: BriefSection): void {
+  if (section.type === 'heading') {
+    const size = SIZES.heading[section.content.level] ?? SIZES.body;
+    layout.space(size * 0.8);
+    // Keep the heading on the same page as at least a couple of body lines
+    layout.ensureSpace(size * LINE_HEIGHT + SIZES.body * LINE_HEIGHT * 2);
+    layout.textBlock(section.content.text, { size, bold: true });
+    return;
+  }
+
+  if (section.title) {
+    layout.space(SIZES.sectionTitle * 0.6);
+    layout.ensureSpace(SIZES.sectionTitle * LINE_HEIGHT + SIZES.body * LINE_HEIGHT * 2);
+    layout.textBlock(section.title, { size: SIZES.sectionTitle, bold: true });
+    layout.space(2);
+  }
+
+  switch (section.type) {
+    case 'paragraph':
+      layout.textBlock(section.content.text, { size: SIZES.body });
+      break;
+    case 'list':
+      section.content.items.forEach((item, index) => {
+        layout.textBlock(item, {
+          size: SIZES.body,
+          indent: 18,
+          marker: section.content.ordered ? `${index + 1}.` : '•'
+        });
+        layout.space(2);
+      });
+      break;
+    case 'table':
+      layout.table(section.content.columns, section.content.rows);
+      break;
+    case 'chart':
+      if (section.content.chartType === 'line') {
+        layout.lineChart(section.content.labels, section.content.values);
+      } else {
+        layout.barChart(section.content.labels, section.content.values);
+      }
+      break;
+  }
+
+  layout.space(SIZES.body * 0.6);
+}
+
+export const renderPdf: Renderer = (document) => {
+  const layout = new PdfLayout();
+  layout.textBlock(document.title, { size: SIZES.title, bold: true });
+  layout.space(SIZES.title * 0.5);
+
+  for (const section of sortedSections(document)) {
+    renderSection(layout, section);
+  }
+
+  const footerTitle = wrap(document.title, FOOTER_SIZE, false, CONTENT_WIDTH - 80)[0] || '';
+  const pageCount = layout.pages.length;
+  const streams = layout.pages.map((ops, index) => {
+    const footer = `Page ${index + 1} of ${pageCount}`;
+    return [
+      ...ops,
+      `0.45 g BT /F1 ${FOOTER_SIZE} Tf ${MARGIN} ${MARGIN / 2} Td ${pdfString(footerTitle)} Tj ET`,
+      `BT /F1 ${FOOTER_SIZE} Tf ${num(PAGE_WIDTH - MARGIN - textWidth(footer, FOOTER_SIZE, false))} ${MARGIN / 2} Td ${pdfString(footer)} Tj ET 0 g`
+    ].join('\n');
+  });
+
+  // Object layout: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and content stream per page
+  const objects: string[] = [];
+  const pageIds = streams.map((_, index) => 6 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Title ${pdfString(toWinAnsi(document.title))} /Producer (SEO Portal) >>`;
+
+  streams.forEach((stream, index) => {
+    const pageId = pageIds[index];
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  // All strings are single-byte latin1, so string length equals byte offset
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return {
+    data: Buffer.from(output, 'latin1'),
+    contentType: 'application/pdf',
+    extension: 'pdf'
+  };
+};
@@ -0,0 +1,87 @@
+import axios from 'axios';
+import { ExportProvider } from '@prisma/client';
+import type { Exporter, ExportDocument, ExportContext, ExportOutput } from './types.js';
+import { ExportCredentialService } from '../export-credentials.js';
+import { NotionClient, NOTION_MAX_CHILDREN } from '../../integrations/notion/client.js';
+import { briefToNotionBlocks, richText } from '../../integrations/notion/blocks.js';
+import { GoogleDocsClient, googleDocUrl } from '../../integrations/google-docs/client.js';
+import { briefToDocsRequests } from '../../integrations/google-docs/requests.js';
+
+// Turn provider API failures into messages worth showing in the export history
+function apiError(error: unknown, service: string): Error {
+  if (axios.isAxiosError(error) && error.response) {
+    const { status, data } = error.response;
+    if (status === 401 || status === 403) {
+      return new Error(`${service} rejected the stored credentials; reconnect ${service} and try again`);
+    }
+    const message = data?.message || data?.error?.message;
+    return new Error(`${service} API error (${status})${message ? `: ${message}` : ''}`);
+  }
+  return error instanceof Error ? error : new Error(`${service} export failed`);
+}
+
+// Accepts a Notion page ID with or without dashes, or a page URL
+export function parseNotionPageId(value: string): string | null {
+  const compact = value.trim().split(/[?#]/)[0].replace(/-/g, '');
+  const match = compact.match(/([0-9a-f]{32})$/i);
+  if (!match) return null;
+
+  const id = match[1].toLowerCase();
+  return `${id.slice(0, 8)}-${id.slice(8, 12)}-${id.slice(12, 16)}-${id.slice(16, 20)}-${id.slice(20)}`;
+}
+
+// Creates a page under the destination page, or under the most recently edited page
+// shared with the integration when no destination is given
+export class NotionExporter implements Exporter {
+  constructor(private credentials: ExportCredentialService, private baseUrl?: string) {}
+
+  async export(document: ExportDocument, context: ExportContext): Promise<ExportOutput> {
+    try {
+      const accessToken = await this.credentials.getAccessToken(context.userId, ExportProvider.NOTION);
+      const client = new NotionClient({ accessToken, baseUrl: this.baseUrl });
+
+      let parentId: string | null;
+      if (context.destination) {
+        parentId = parseNotionPageId(context.destination);
+        if (!parentId) {
+          throw new Error('Destination is not a Notion page link or ID');
+        }
+      } else {
+        parentId = (await client.findFirstPage())?.id || null;
+        if (!parentId) {
+          throw new Error('No Notion pages are shared with the integration; share a page or choose a destination');
+        }
+      }
+
+      const blocks = briefToNotionBlocks(document.sections);
+      const page = await client.createPage(parentId, richText(document.title), blocks.slice(0, NOTION_MAX_CHILDREN));
+
+      for (let start = NOTION_MAX_CHILDREN; start < blocks.length; start += NOTION_MAX_CHILDREN) {
+        await client.appendChildren(page.id, blocks.slice(start, start + NOTION_MAX_CHILDREN));
+      }
+
+      return { url: page.url };
+    } catch (error) {
+      throw apiError(error, 'Notion');
+    }
+  }
+}
+
+// Creates a new document in the user's Drive and fills it with a single batchUpdate
+export class GoogleDocsExporter implements Exporter {
+  constructor(private credentials: ExportCredentialService, private baseUrl?: string) {}
+
+  async export(document: ExportDocument, context: ExportContext): Promise<ExportOutput> {
+    try {
+      const accessToken = await this.credentials.getAccessToken(context.userId, ExportProvider.GOOGLE);
+      const client = new GoogleDocsClient({ accessToken, baseUrl: this.baseUrl });
+
+      const { documentId } = await client.createDocument(document.title);
+      await client.batchUpdate(documentId, briefToDocsRequests(document.title, document.sections));
+
+      return { url: googleDocUrl(documentId) };
+    } catch (error) {
+      throw apiError(error, 'Google Docs');
+    }
+  }
+}
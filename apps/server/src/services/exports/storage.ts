@@ -0,0 +1,41 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Where rendered export files live. Keys are relative paths; the local implementation
+// keeps them under EXPORT_STORAGE_DIR, and an object store could implement the same contract.
+export interface ExportStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+}
+
+export class LocalExportStorage implements ExportStorage {
+  private root: string;
+
+  constructor(directory: string) {
+    this.root = path.resolve(directory);
+  }
+
+  // Keys are generated server-side, but never let one escape the storage root
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid export storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
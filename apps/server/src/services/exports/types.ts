@@ -0,0 +1,78 @@
+import type { BriefSection } from '@seo-portal/shared';
+
+// The brief content handed to a renderer: one saved version of a brief
+export interface ExportDocument {
+  title: string;
+  version: number;
+  sections: BriefSection[];
+}
+
+export interface RenderedFile {
+  data: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+export type Renderer = (document: ExportDocument) => RenderedFile;
+
+export interface ExportContext {
+  exportId: string;
+  userId: string;
+  destination?: string | null;
+}
+
+// A file to keep in export storage, or the URL of a document created in another service
+export type ExportOutput = { file: RenderedFile } | { url: string };
+
+// One export format. File formats wrap a Renderer; Notion and Google Docs push the brief
+// to the user's connected account.
+export interface Exporter {
+  export(document: ExportDocument, context: ExportContext): Promise<ExportOutput>;
+}
+
+export function fileExporter(renderer: Renderer): Exporter {
+  return {
+    export: async (document) => ({ file: renderer(document) })
+  };
+}
+
+// Plain-text lines of a section's body (without its title), shared by the text-based renderers
+export function sectionBodyLines(section: BriefSection): string[] {
+  switch (section.type) {
+    case 'heading':
+      return [section.content.text];
+    case 'paragraph':
+      return section.content.text.split('\n');
+    case 'list':
+      return section.content.items.map((item, index) => section.content.ordered ? `${index + 1}. ${item}` : `- ${item}`);
+    case 'table':
+      return [section.content.columns.join(' | '), ...section.content.rows.map(row => row.join(' | '))];
+    case 'chart':
+      return section.content.labels.map((label, index) => `${label}: ${section.content.values[index] ?? ''}`);
+  }
+}
+
+// Charts have no native form in the text formats, so they are exported as a label/value table
+export function chartAsTable(section: Extract<BriefSection, { type: 'chart' }>): { columns: string[]; rows: string[][] } {
+  return {
+    columns: ['Label', 'Value'],
+    rows: section.content.labels.map((label, index) => [label, String(section.content.values[index] ?? '')])
+  };
+}
+
+export function sortedSections(document: ExportDocument): BriefSection[] {
+  return [...document.sections].sort((a, b) => a.order - b.order);
+}
+
+// File-system and header safe name derived from the brief title
+export function exportFileName(title: string, version: number, extension: string): string {
+  const base = title
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .toLowerCase()
+    .slice(0, 80) || 'brief';
+
+  return `${base}-v${version}.${extension}`;
+}
@@ -0,0 +1,112 @@
+import { escapeXml } from './docx.js';
+import { streamZip } from './zip.js';
+
+// SpreadsheetML workbook with a single sheet, written row by row so large datasets never
+// have to be held as one document. Strings are inline (no shared string table, which would
+// need every row up front) and the header row is bold and frozen.
+
+export type XlsxCell = string | number | boolean | null;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const ROWS_PER_CHUNK = 500;
+
+const CONTENT_TYPES = `${XML_HEADER}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+  <Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+  <Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Style 0 is the default; style 1 is the bold header
+const STYLES = `${XML_HEADER}
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+  <fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+  <borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+  <cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+  <cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>
+</styleSheet>`;
+
+function workbook(sheetName: string): string {
+  return `${XML_HEADER}
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+}
+
+// Excel sheet names: at most 31 characters, none of : \ / ? * [ ]
+function safeSheetName(name: string): string {
+  return name.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, 31) || 'Sheet1';
+}
+
+// A, B, ... Z, AA, AB, ...
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cell(value: XlsxCell, ref: string, style?: number): string {
+  const styleAttribute = style ? ` s="${style}"` : '';
+
+  if (value === null || value === '') {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}"${styleAttribute}><v>${value}</v></c>` : '';
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}"${styleAttribute} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}"${styleAttribute} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function row(values: XlsxCell[], rowNumber: number, style?: number): string {
+  return `<row r="${rowNumber}">${values.map((value, index) => cell(value, `${columnName(index)}${rowNumber}`, style)).join('')}</row>`;
+}
+
+async function* sheet(header: string[], rows: Iterable<XlsxCell[]>): AsyncGenerator<Buffer> {
+  yield Buffer.from(`${XML_HEADER}
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<sheetData>${row(header, 1, 1)}`, 'utf8');
+
+  let chunk: string[] = [];
+  let rowNumber = 2;
+  for (const values of rows) {
+    chunk.push(row(values, rowNumber++));
+    if (chunk.length === ROWS_PER_CHUNK) {
+      yield Buffer.from(chunk.join(''), 'utf8');
+      chunk = [];
+    }
+  }
+
+  yield Buffer.from(`${chunk.join('')}</sheetData>
+</worksheet>`, 'utf8');
+}
+
+export function streamXlsx(sheetName: string, header: string[], rows: Iterable<XlsxCell[]>): AsyncGenerator<Buffer> {
+  return streamZip([
+    { name: '[Content_Types].xml', content: Buffer.from(CONTENT_TYPES, 'utf8') },
+    { name: '_rels/.rels', content: Buffer.from(PACKAGE_RELS, 'utf8') },
+    { name: 'xl/workbook.xml', content: Buffer.from(workbook(safeSheetName(sheetName)), 'utf8') },
+    { name: 'xl/_rels/workbook.xml.rels', content: Buffer.from(WORKBOOK_RELS, 'utf8') },
+    { name: 'xl/styles.xml', content: Buffer.from(STYLES, 'utf8') },
+    { name: 'xl/worksheets/sheet1.xml', content: sheet(header, rows) }
+  ]);
+}
@@ -0,0 +1,234 @@
+import { stemWord } from './keyword-metrics.js';
+import { filterKeywordRows, type KeywordRow, type KeywordRowFilters, type KeywordRowSort } from './dataset-rows.js';
+
+// Groups a keyword dataset into topics. Keywords whose SERPs share enough ranking URLs
+// belong on the same page; keywords without SERP data (or whose SERP matched nothing)
+// are grouped by the words they share instead. The result only depends on the input.
+
+export type ClusterMethod = 'serp' | 'lexical';
+
+export interface KeywordCluster {
+  id: string;
+  name: string;
+  pillarKeyword: string;
+  keywords: string[];
+  keywordCount: number;
+  totalVolume: number;
+  dominantIntent: string;
+  method: ClusterMethod;
+}
+
+export interface ClusterOptions {
+  // Ranking URLs two keywords must share to be clustered by SERP
+  minSharedUrls?: number;
+  // Word overlap (Jaccard) with the cluster's first keyword for a lexical match
+  minLexicalSimilarity?: number;
+}
+
+// Keywords per keyword discovery depth whose SERPs are fetched for clustering, highest
+// volume first; the rest are clustered by wording
+export const CLUSTER_SERP_KEYWORDS = { quick: 0, standard: 20, comprehensive: 50 } as const;
+
+const DEFAULT_MIN_SHARED_URLS = 3;
+const DEFAULT_MIN_LEXICAL_SIMILARITY = 0.5;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'at', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'in', 'is',
+  'it', 'my', 'of', 'on', 'or', 'the', 'to', 'vs', 'what', 'when', 'where', 'which', 'who', 'why', 'with'
+]);
+
+// Top organic URLs of a SERP, without protocol, www, query string or trailing slash
+export function rankingUrls(items: Array<{ type?: string; url?: string }>, limit = 10): string[] {
+  return items
+    .filter(item => item.type === 'organic' && item.url)
+    .slice(0, limit)
+    .map(item => item.url!
+      .toLowerCase()
+      .replace(/^https?:\/\/(www\.)?/, '')
+      .replace(/[?#].*$/, '')
+      .replace(/\/$/, ''));
+}
+
+function tokens(keyword: string): string[] {
+  const words = keyword.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const meaningful = words.filter(word => !STOP_WORDS.has(word));
+  return Array.from(new Set((meaningful.length > 0 ? meaningful : words).map(stemWord)));
+}
+
+function sharedCount(a: Set<string>, b: Set<string>): number {
+  let count = 0;
+  a.forEach(item => { if (b.has(item)) count++; });
+  return count;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  const shared = sharedCount(a, b);
+  return shared / (a.size + b.size - shared || 1);
+}
+
+// Highest volume first, then alphabetical, so ties never depend on the dataset order
+function byVolume(a: KeywordRow, b: KeywordRow): number {
+  return b.searchVolume - a.searchVolume || a.keyword.localeCompare(b.keyword);
+}
+
+function dominantIntent(rows: KeywordRow[]): string {
+  const volumes = new Map<string, number>();
+  rows.forEach(row => volumes.set(row.intent, (volumes.get(row.intent) || 0) + row.searchVolume + 1));
+  return Array.from(volumes.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0];
+}
+
+// The words every keyword in the cluster shares, in the order they appear in the pillar
+function clusterName(pillar: KeywordRow, rows: KeywordRow[]): string {
+  const words = pillar.keyword.toLowerCase().split(/\s+/).filter(word => !STOP_WORDS.has(word));
+  const memberTokens = rows.map(row => new Set(tokens(row.keyword)));
+  const shared = words.filter(word => memberTokens.every(set => set.has(stemWord(word.replace(/[^\p{L}\p{N}]/gu, '')))));
+  return shared.length > 0 ? shared.join(' ') : pillar.keyword;
+}
+
+interface Group {
+  rows: KeywordRow[];
+  pillar: KeywordRow;
+  method: ClusterMethod;
+}
+
+// Seeds are taken in volume order; every unassigned keyword sharing enough URLs with the
+// seed joins it. The pillar is the member whose SERP overlaps most with the rest.
+function serpGroups(rows: KeywordRow[], serps: Map<string, Set<string>>, minSharedUrls: number): Group[] {
+  const assigned = new Set<string>();
+  const groups: Group[] = [];
+
+  for (const seed of rows) {
+    if (assigned.has(seed.keyword)) continue;
+    const seedUrls = serps.get(seed.keyword)!;
+    const members = rows.filter(row =>
+      !assigned.has(row.keyword) && (row === seed || sharedCount(seedUrls, serps.get(row.keyword)!) >= minSharedUrls)
+    );
+    if (members.length < 2) continue;
+
+    members.forEach(row => assigned.add(row.keyword));
+    const overlap = (row: KeywordRow) => members.reduce((sum, other) =>
+      other === row ? sum : sum + sharedCount(serps.get(row.keyword)!, serps.get(other.keyword)!), 0);
+    const pillar = members.reduce((best, row) => overlap(row) > overlap(best) ? row : best);
+    groups.push({ rows: members, pillar, method: 'serp' });
+  }
+
+  return groups;
+}
+
+// Broad keywords (fewest words) seed first so long-tail variants gather under the head term;
+// a keyword joins when it contains all of the seed's words or overlaps enough with them.
+// Two keywords whose SERPs were compared and didn't match are never put together.
+function lexicalGroups(rows: KeywordRow[], hasSerp: (row: KeywordRow) => boolean, minSimilarity: number): Group[] {
+  const wordSets = new Map(rows.map(row => [row.keyword, new Set(tokens(row.keyword))]));
+  const seeds = [...rows].sort((a, b) => wordSets.get(a.keyword)!.size - wordSets.get(b.keyword)!.size || byVolume(a, b));
+  const assigned = new Set<string>();
+  const groups: Group[] = [];
+
+  for (const seed of seeds) {
+    if (assigned.has(seed.keyword)) continue;
+    const seedWords = wordSets.get(seed.keyword)!;
+    const members = rows.filter(row => {
+      if (row === seed) return true;
+      if (assigned.has(row.keyword) || (hasSerp(seed) && hasSerp(row))) return false;
+      const words = wordSets.get(row.keyword)!;
+      return sharedCount(seedWords, words) === seedWords.size || jaccard(seedWords, words) >= minSimilarity;
+    });
+
+    members.forEach(row => assigned.add(row.keyword));
+    groups.push({ rows: members, pillar: seed, method: 'lexical' });
+  }
+
+  return groups;
+}
+
+// serps maps a keyword to its ranking URLs (see rankingUrls); keywords missing from it are
+// clustered lexically. Every keyword ends up in exactly one cluster, largest volume first.
+export function clusterKeywords(
+  keywordRows: KeywordRow[],
+  serps: Map<string, string[]> = new Map(),
+  options: ClusterOptions = {}
+): KeywordCluster[] {
+  const minSharedUrls = options.minSharedUrls ?? DEFAULT_MIN_SHARED_URLS;
+  const minSimilarity = options.minLexicalSimilarity ?? DEFAULT_MIN_LEXICAL_SIMILARITY;
+
+  const unique = new Map<string, KeywordRow>();
+  keywordRows.forEach(row => {
+    const existing = unique.get(row.keyword.toLowerCase());
+    if (!existing || row.searchVolume > existing.searchVolume) unique.set(row.keyword.toLowerCase(), row);
+  });
+  const rows = Array.from(unique.values()).sort(byVolume);
+
+  const serpSets = new Map<string, Set<string>>();
+  rows.forEach(row => {
+    const urls = serps.get(row.keyword);
+    if (urls && urls.length > 0) serpSets.set(row.keyword, new Set(urls));
+  });
+
+  const hasSerp = (row: KeywordRow) => serpSets.has(row.keyword);
+  const bySerp = serpGroups(rows.filter(hasSerp), serpSets, minSharedUrls);
+  const clustered = new Set(bySerp.flatMap(group => group.rows.map(row => row.keyword)));
+
+  // Long-tail keywords without SERP data join the SERP cluster whose pillar they extend
+  rows.filter(row => !hasSerp(row)).forEach(row => {
+    const words = new Set(tokens(row.keyword));
+    const group = bySerp.find(item => tokens(item.pillar.keyword).every(word => words.has(word)));
+    if (group) {
+      group.rows.push(row);
+      clustered.add(row.keyword);
+    }
+  });
+
+  const byWords = lexicalGroups(rows.filter(row => !clustered.has(row.keyword)), hasSerp, minSimilarity);
+
+  return [...bySerp, ...byWords]
+    .map(group => ({
+      group,
+      totalVolume: group.rows.reduce((sum, row) => sum + row.searchVolume, 0)
+    }))
+    .sort((a, b) => b.totalVolume - a.totalVolume || a.group.pillar.keyword.localeCompare(b.group.pillar.keyword))
+    .map(({ group, totalVolume }, index) => ({
+      id: `c${index + 1}`,
+      name: clusterName(group.pillar, group.rows),
+      pillarKeyword: group.pillar.keyword,
+      keywords: group.rows.map(row => row.keyword),
+      keywordCount: group.rows.length,
+      totalVolume,
+      dominantIntent: dominantIntent(group.rows),
+      method: group.method
+    }));
+}
+
+export interface KeywordClusterGroup extends KeywordCluster {
+  rows: KeywordRow[];
+  matchingVolume: number;
+}
+
+// Stored clusters joined with their keyword rows. Rows are filtered and sorted like the rows
+// endpoint; clusters left without a matching row are dropped.
+export function groupKeywordRows(
+  clusters: KeywordCluster[],
+  rows: KeywordRow[],
+  filters: KeywordRowFilters & { sort?: KeywordRowSort[] }
+): KeywordClusterGroup[] {
+  const clusterOf = new Map<string, string>();
+  clusters.forEach(cluster => cluster.keywords.forEach(keyword => clusterOf.set(keyword.toLowerCase(), cluster.id)));
+
+  const members = new Map<string, KeywordRow[]>();
+  filterKeywordRows(rows, filters).forEach(row => {
+    const id = clusterOf.get(row.keyword.toLowerCase());
+    if (!id) return;
+    if (!members.has(id)) members.set(id, []);
+    members.get(id)!.push(row);
+  });
+
+  return clusters
+    .filter(cluster => members.has(cluster.id))
+    .map(cluster => {
+      const clusterRows = members.get(cluster.id)!;
+      return {
+        ...cluster,
+        rows: clusterRows,
+        matchingVolume: clusterRows.reduce((sum, row) => sum + row.searchVolume, 0)
+      };
+    });
+}
@@ -0,0 +1,262 @@
+// Keyword difficulty from a live SERP and the link strength of the pages ranking on it. Four
+// components are scored 0-100 and blended by weight: the ranking domains' authority, the
+// referring domains pointing at the ranking pages, how crowded the SERP is with features,
+// and what kind of pages rank. Components without data are left out of the blend, and the
+// share of weight that was available is reported as coverage.
+
+export type DifficultyLevel = 'easy' | 'medium' | 'hard' | 'very_hard';
+
+export type PageType = 'homepage' | 'product' | 'category' | 'article' | 'video' | 'forum';
+
+export interface DifficultyComponent {
+  // Null when the data behind the component wasn't available
+  score: number | null;
+  weight: number;
+  detail: string;
+}
+
+export interface RankingPage {
+  position: number;
+  domain: string;
+  url: string;
+  pageType: PageType;
+  domainRank: number | null;
+  referringDomains: number | null;
+}
+
+export interface KeywordDifficulty {
+  score: number;
+  level: DifficultyLevel;
+  components: {
+    authority: DifficultyComponent;
+    backlinks: DifficultyComponent;
+    serpCrowding: DifficultyComponent;
+    contentMix: DifficultyComponent;
+  };
+  // Share of the component weight backed by data, 0-1
+  coverage: number;
+  rankingPages: RankingPage[];
+}
+
+export interface DifficultySignals {
+  // Domain rank on a 0-100 scale, by domain
+  domainRanks?: Map<string, number>;
+  // Referring domains pointing at each ranking URL
+  pageReferringDomains?: Map<string, number>;
+}
+
+// Only the first page of organic results competes for the keyword
+const TOP_RESULTS = 10;
+
+const COMPONENT_WEIGHTS = {
+  authority: 0.35,
+  backlinks: 0.35,
+  serpCrowding: 0.15,
+  contentMix: 0.15
+};
+
+// Points per SERP feature type for how far it pushes organic results down or answers the query
+// without a click; related searches and similar footer features don't count
+const FEATURE_CROWDING: { [type: string]: number } = {
+  ai_overview: 25,
+  featured_snippet: 20,
+  answer_box: 20,
+  local_pack: 20,
+  map: 15,
+  shopping: 15,
+  paid: 12,
+  knowledge_graph: 12,
+  top_stories: 10,
+  video: 10,
+  people_also_ask: 8,
+  images: 8,
+  carousel: 8,
+  hotels_pack: 15,
+  jobs: 15,
+  events: 10,
+  twitter: 5
+};
+
+// How hard a page of each type is to displace. Homepages rank on the strength of the whole
+// domain; forum threads and videos ranking for a query signal room for a focused page.
+const PAGE_TYPE_DIFFICULTY: Record<PageType, number> = {
+  homepage: 90,
+  product: 70,
+  category: 65,
+  article: 50,
+  video: 40,
+  forum: 15
+};
+
+const FORUM_DOMAINS = ['reddit.com', 'quora.com', 'stackexchange.com', 'stackoverflow.com'];
+const VIDEO_DOMAINS = ['youtube.com', 'vimeo.com', 'tiktok.com'];
+
+const LEVEL_THRESHOLDS: Array<{ level: DifficultyLevel; below: number }> = [
+  { level: 'easy', below: 30 },
+  { level: 'medium', below: 50 },
+  { level: 'hard', below: 70 }
+];
+
+const round = (value: number) => Math.round(value);
+
+export function normalizeDomain(domain: string): string {
+  return domain.toLowerCase().replace(/^www\./, '');
+}
+
+// Results higher on the page weigh more: position 1 counts ten times position 10
+function weightedAverage(values: Array<{ position: number; value: number | null }>): number | null {
+  let total = 0;
+  let weights = 0;
+  for (const { position, value } of values) {
+    if (value === null) continue;
+    const weight = Math.max(1, TOP_RESULTS + 1 - position);
+    total += value * weight;
+    weights += weight;
+  }
+  return weights > 0 ? total / weights : null;
+}
+
+export function classifyPage(domain: string, url: string): PageType {
+  const host = normalizeDomain(domain);
+  let path = '/';
+  try {
+    path = new URL(url).pathname.toLowerCase();
+  } catch {
+    // Keep the homepage default for unparseable URLs
+  }
+
+  const onDomain = (domains: string[]) => domains.some(candidate => host === candidate || host.endsWith(`.${candidate}`));
+
+  if (onDomain(FORUM_DOMAINS) || /\/(forums?|community|discussions?|threads?)\//.test(path)) return 'forum';
+  if (onDomain(VIDEO_DOMAINS)) return 'video';
+  if (path === '/' || path === '') return 'homepage';
+  if (/\/(products?|dp|p|item|shop)\//.test(path)) return 'product';
+  if (/\/(category|categories|collections?|c)\//.test(path)) return 'category';
+  return 'article';
+}
+
+// The top organic results, with the link data found for each
+export function rankingPages(items: any[], signals: DifficultySignals = {}): RankingPage[] {
+  return (items || [])
+    .filter(item => item.type === 'organic' && item.domain && item.url)
+    .slice(0, TOP_RESULTS)
+    .map((item, index) => ({
+      position: item.rank_group ?? index + 1,
+      domain: normalizeDomain(item.domain),
+      url: item.url,
+      pageType: classifyPage(item.domain, item.url),
+      domainRank: signals.domainRanks?.get(normalizeDomain(item.domain)) ?? null,
+      referringDomains: signals.pageReferringDomains?.get(item.url) ?? null
+    }));
+}
+
+// Domains and URLs whose link data the model needs, across several SERPs
+export function difficultyTargets(serps: any[][]): { domains: string[]; urls: string[] } {
+  const pages = serps.flatMap(items => rankingPages(items));
+  return {
+    domains: Array.from(new Set(pages.map(page => page.domain))),
+    urls: Array.from(new Set(pages.map(page => page.url)))
+  };
+}
+
+// Backlinks bulk_ranks items, requested with rank_scale one_hundred
+export function readBulkRanks(items: any[]): Map<string, number> {
+  return new Map((items || [])
+    .filter(item => item.target && typeof item.rank === 'number')
+    .map(item => [normalizeDomain(item.target), item.rank]));
+}
+
+// Backlinks bulk_referring_domains items
+export function readBulkReferringDomains(items: any[]): Map<string, number> {
+  return new Map((items || [])
+    .filter(item => item.target && typeof item.referring_domains === 'number')
+    .map(item => [item.target, item.referring_domains]));
+}
+
+function authorityComponent(pages: RankingPage[]): DifficultyComponent {
+  const average = weightedAverage(pages.map(page => ({ position: page.position, value: page.domainRank })));
+  const strong = pages.filter(page => page.domainRank !== null && page.domainRank >= 70).length;
+  return {
+    score: average === null ? null : round(average),
+    weight: COMPONENT_WEIGHTS.authority,
+    detail: average === null
+      ? 'Domain ranks unavailable'
+      : `Weighted domain rank ${round(average)}; ${strong} of ${pages.length} ranking domains rank 70+`
+  };
+}
+
+// Referring domains on a log scale: 10 scores 25, 100 scores 50, 1,000 scores 75, 10,000+ scores 100
+function backlinksComponent(pages: RankingPage[]): DifficultyComponent {
+  const scored = pages.map(page => ({
+    position: page.position,
+    value: page.referringDomains === null ? null : Math.min(100, 25 * Math.log10(1 + page.referringDomains))
+  }));
+  const average = weightedAverage(scored);
+  const counts = pages.filter(page => page.referringDomains !== null).map(page => page.referringDomains!).sort((a, b) => a - b);
+  const median = counts.length > 0 ? counts[Math.floor(counts.length / 2)] : null;
+  return {
+    score: average === null ? null : round(average),
+    weight: COMPONENT_WEIGHTS.backlinks,
+    detail: median === null
+      ? 'Referring domains unavailable'
+      : `Ranking pages have a median of ${median.toLocaleString('en-US')} referring domains`
+  };
+}
+
+function serpCrowdingComponent(items: any[]): DifficultyComponent {
+  const features = Array.from(new Set((items || [])
+    .map(item => item.type)
+    .filter((type: string) => type in FEATURE_CROWDING)));
+  const score = Math.min(100, features.reduce((sum, type) => sum + FEATURE_CROWDING[type], 0));
+  const firstOrganic = (items || []).find(item => item.type === 'organic');
+  return {
+    score,
+    weight: COMPONENT_WEIGHTS.serpCrowding,
+    detail: features.length === 0
+      ? 'No SERP features compete with organic results'
+      : `${features.map(type => type.replace(/_/g, ' ')).join(', ')}; first organic result at position ${firstOrganic?.rank_absolute ?? 'n/a'}`
+  };
+}
+
+function contentMixComponent(pages: RankingPage[]): DifficultyComponent {
+  const average = weightedAverage(pages.map(page => ({ position: page.position, value: PAGE_TYPE_DIFFICULTY[page.pageType] })));
+  const counts = new Map<PageType, number>();
+  for (const page of pages) {
+    counts.set(page.pageType, (counts.get(page.pageType) || 0) + 1);
+  }
+  return {
+    score: average === null ? null : round(average),
+    weight: COMPONENT_WEIGHTS.contentMix,
+    detail: pages.length === 0
+      ? 'No organic results'
+      : Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([type, count]) => `${count} ${type}`).join(', ')
+  };
+}
+
+export function difficultyLevel(score: number): DifficultyLevel {
+  return LEVEL_THRESHOLDS.find(threshold => score < threshold.below)?.level ?? 'very_hard';
+}
+
+export function calculateKeywordDifficulty(items: any[], signals: DifficultySignals = {}): KeywordDifficulty {
+  const pages = rankingPages(items, signals);
+  const components = {
+    authority: authorityComponent(pages),
+    backlinks: backlinksComponent(pages),
+    serpCrowding: serpCrowdingComponent(items),
+    contentMix: contentMixComponent(pages)
+  };
+
+  const available = Object.values(components).filter(component => component.score !== null);
+  const availableWeight = available.reduce((sum, component) => sum + component.weight, 0);
+  const score = availableWeight > 0
+    ? round(available.reduce((sum, component) => sum + component.score! * component.weight, 0) / availableWeight)
+    : 0;
+
+  return {
+    score,
+    level: difficultyLevel(score),
+    components,
+    coverage: Math.round(availableWeight * 100) / 100,
+    rankingPages: pages
+  };
+}
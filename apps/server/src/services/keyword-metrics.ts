@@ -0,0 +1,70 @@
+// Derived keyword metrics stored with each row of a KEYWORDS dataset
+
+export function detectIntent(keyword: string): string {
+  const commercial = ['buy', 'purchase', 'price', 'cost', 'cheap', 'discount', 'deal'];
+  const transactional = ['order', 'shop', 'store', 'cart', 'checkout', 'payment'];
+  const navigational = ['login', 'account', 'dashboard', 'website', 'official'];
+
+  const lowerKeyword = keyword.toLowerCase();
+
+  if (commercial.some(word => lowerKeyword.includes(word))) return 'commercial';
+  if (transactional.some(word => lowerKeyword.includes(word))) return 'transactional';
+  if (navigational.some(word => lowerKeyword.includes(word))) return 'navigational';
+
+  return 'informational';
+}
+
+export function calculateTrend(monthlySearches?: Array<{ month: number; volume: number }>): string {
+  if (!monthlySearches || monthlySearches.length < 2) return 'stable';
+
+  const recent = monthlySearches.slice(-3);
+  const earlier = monthlySearches.slice(0, 3);
+
+  const recentAvg = recent.reduce((sum, m) => sum + m.volume, 0) / recent.length;
+  const earlierAvg = earlier.reduce((sum, m) => sum + m.volume, 0) / earlier.length;
+
+  const changePercent = (recentAvg - earlierAvg) / earlierAvg;
+
+  if (changePercent > 0.1) return 'up';
+  if (changePercent < -0.1) return 'down';
+  return 'stable';
+}
+
+export function calculateOpportunityScore(keyword: {
+  searchVolume: number;
+  competitionLevel?: string;
+  intent?: string;
+  trend?: string;
+}): number {
+  let score = 0;
+
+  // Search volume score (0-40 points)
+  if (keyword.searchVolume >= 10000) score += 40;
+  else if (keyword.searchVolume >= 5000) score += 30;
+  else if (keyword.searchVolume >= 1000) score += 20;
+  else if (keyword.searchVolume >= 100) score += 10;
+
+  // Competition score (0-30 points) - lower is better
+  if (keyword.competitionLevel === 'LOW') score += 30;
+  else if (keyword.competitionLevel === 'MEDIUM') score += 15;
+  else if (keyword.competitionLevel === 'HIGH') score += 5;
+
+  // Intent score (0-20 points)
+  if (keyword.intent === 'transactional') score += 20;
+  else if (keyword.intent === 'commercial') score += 15;
+  else if (keyword.intent === 'informational') score += 10;
+
+  // Trend score (0-10 points)
+  if (keyword.trend === 'up') score += 10;
+  else if (keyword.trend === 'stable') score += 5;
+
+  return Math.min(100, score);
+}
+
+// Crude stemming is enough to match "shoe" with "shoes" and "running" with "run"
+export function stemWord(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
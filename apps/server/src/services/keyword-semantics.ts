@@ -0,0 +1,118 @@
+import { normalizeEmbeddingText, cosineSimilarity } from '../integrations/openai/vectors.js';
+import { stemWord } from './keyword-metrics.js';
+
+// Merges near-duplicate keyword ideas ("seo tool", "seo tools", "tools for seo") into the
+// highest volume variant and labels semantically related keywords with a shared group.
+
+export interface SemanticOptions {
+  // Cosine similarity at which two keywords count as the same search
+  duplicateThreshold?: number;
+  // Cosine similarity to a group's head keyword for a keyword to join the group
+  groupThreshold?: number;
+}
+
+interface SemanticInput {
+  keyword: string;
+  searchVolume: number;
+  isSeedKeyword?: boolean;
+}
+
+export type SemanticRow<T> = T & {
+  // Near-duplicates merged into this keyword
+  variants?: string[];
+  // Head keyword of the semantic group this keyword belongs to
+  semanticGroup: string;
+};
+
+export interface SemanticResult<T> {
+  rows: Array<SemanticRow<T>>;
+  merged: number;
+  groups: number;
+}
+
+const DEFAULT_DUPLICATE_THRESHOLD = 0.9;
+const DEFAULT_GROUP_THRESHOLD = 0.75;
+
+const FILLER_WORDS = new Set(['a', 'an', 'for', 'in', 'of', 'on', 'the', 'to', 'with']);
+
+// Keywords with the same words in any order, give or take plurals and fillers, are
+// duplicates whatever their vectors say
+function wordKey(keyword: string): string {
+  return normalizeEmbeddingText(keyword)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word && !FILLER_WORDS.has(word))
+    .map(stemWord)
+    .sort()
+    .join(' ');
+}
+
+// Seed keywords are always kept; otherwise the highest volume variant wins
+function byPriority(a: SemanticInput, b: SemanticInput): number {
+  return Number(Boolean(b.isSeedKeyword)) - Number(Boolean(a.isSeedKeyword))
+    || b.searchVolume - a.searchVolume
+    || a.keyword.localeCompare(b.keyword);
+}
+
+// vectors is keyed by normalizeEmbeddingText(keyword); keywords without a vector are only
+// merged on identical words and form their own group
+export function dedupeKeywords<T extends SemanticInput>(
+  keywords: T[],
+  vectors: Map<string, number[]>,
+  options: SemanticOptions = {}
+): SemanticResult<T> {
+  const duplicateThreshold = options.duplicateThreshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+  const groupThreshold = options.groupThreshold ?? DEFAULT_GROUP_THRESHOLD;
+  const vectorFor = (row: T) => vectors.get(normalizeEmbeddingText(row.keyword));
+
+  const kept: Array<{ row: T; vector?: number[]; variants: string[] }> = [];
+  const byWords = new Map<string, typeof kept[number]>();
+  let merged = 0;
+
+  for (const row of [...keywords].sort(byPriority)) {
+    const key = wordKey(row.keyword);
+    const vector = vectorFor(row);
+    // Seeds sort first and are never merged away, even into each other
+    const canonical = row.isSeedKeyword ? undefined : byWords.get(key) || (vector
+      ? kept.find(item => item.vector && cosineSimilarity(item.vector, vector) >= duplicateThreshold)
+      : undefined);
+
+    if (canonical) {
+      if (normalizeEmbeddingText(canonical.row.keyword) !== normalizeEmbeddingText(row.keyword)) {
+        canonical.variants.push(row.keyword);
+      }
+      merged++;
+      continue;
+    }
+
+    const item = { row, vector, variants: [] };
+    kept.push(item);
+    if (!byWords.has(key)) byWords.set(key, item);
+  }
+
+  // Greedy grouping in priority order: each ungrouped keyword heads a group of the
+  // ungrouped keywords close enough to it
+  const groupOf = new Map<typeof kept[number], string>();
+  let groups = 0;
+  for (const head of kept) {
+    if (groupOf.has(head)) continue;
+    groups++;
+    groupOf.set(head, head.row.keyword);
+    if (!head.vector) continue;
+
+    for (const item of kept) {
+      if (!groupOf.has(item) && item.vector && cosineSimilarity(head.vector, item.vector) >= groupThreshold) {
+        groupOf.set(item, head.row.keyword);
+      }
+    }
+  }
+
+  return {
+    rows: kept.map(item => ({
+      ...item.row,
+      ...(item.variants.length > 0 && { variants: item.variants }),
+      semanticGroup: groupOf.get(item)!
+    })),
+    merged,
+    groups
+  };
+}
@@ -0,0 +1,385 @@
+// Local SEO analysis of Google Maps results. Each keyword is checked from several points (named
+// locations and/or a grid of coordinates around the business), and the business is found in
+// each result list by name or website so its local pack coverage can be compared with the
+// competitors that share those packs.
+
+export interface CheckPoint {
+  // Unique within a query; used in task steps and to key results
+  label: string;
+  locationName?: string;
+  // Grid points carry their coordinates and their cell, with row 0 at the north edge
+  latitude?: number;
+  longitude?: number;
+  row?: number;
+  col?: number;
+}
+
+export interface BusinessProfile {
+  name: string;
+  domain?: string;
+  phone?: string;
+  address?: string;
+}
+
+export interface MapsListing {
+  position: number;
+  title: string;
+  domain: string | null;
+  url: string | null;
+  rating: number | null;
+  reviews: number;
+  address: string | null;
+  phone: string | null;
+  category: string | null;
+  cid: string | null;
+  isClaimed: boolean | null;
+}
+
+export interface LocalCheck {
+  keyword: string;
+  point: string;
+  // Position of the business in the Maps results, null when it isn't listed
+  position: number | null;
+  localPack: Array<{ title: string; rating: number | null; reviews: number }>;
+}
+
+export interface LocalKeywordSummary {
+  keyword: string;
+  checks: number;
+  // Share of check points where the business is listed at all, and in the 3-pack
+  foundRate: number;
+  localPackRate: number;
+  averagePosition: number | null;
+}
+
+export interface ShareOfVoiceEntry {
+  name: string;
+  domain: string | null;
+  isTarget: boolean;
+  appearances: number;
+  // Share of all local pack slots across every check, in percent
+  share: number;
+  averagePosition: number;
+  rating: number | null;
+  reviews: number;
+}
+
+export interface NapHint {
+  field: 'name' | 'address' | 'phone' | 'website' | 'listing';
+  severity: 'warning' | 'info';
+  message: string;
+  values?: string[];
+}
+
+export interface LocalSeoResults {
+  business: BusinessProfile;
+  overview: {
+    keywords: number;
+    points: number;
+    checks: number;
+    foundRate: number;
+    localPackRate: number;
+    averagePosition: number | null;
+    shareOfVoice: number;
+    rating: number | null;
+    reviews: number;
+  };
+  points: CheckPoint[];
+  keywords: LocalKeywordSummary[];
+  checks: LocalCheck[];
+  shareOfVoice: ShareOfVoiceEntry[];
+  ratingComparison: {
+    target: { rating: number | null; reviews: number };
+    competitorAverage: { rating: number | null; reviews: number };
+    // Local pack competitors with more reviews, or a higher rating, than the business
+    competitorsWithMoreReviews: number;
+    competitorsRatedHigher: number;
+  };
+  listings: MapsListing[];
+  napHints: NapHint[];
+}
+
+const LOCAL_PACK_SIZE = 3;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+// Maps zoom level sent with grid coordinates; roughly a neighbourhood in view
+const GRID_ZOOM = 15;
+// Legal suffixes ignored when matching business names
+const NAME_SUFFIXES = /\b(llc|inc|ltd|limited|co|corp|company|gmbh|plc|pllc)\b/g;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+const percent = (part: number, total: number) => total > 0 ? round(part / total * 100) : 0;
+const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+export function normalizeBusinessName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9 ]+/g, ' ')
+    .replace(NAME_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const normalizeDomain = (domain: string) => domain.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0];
+const phoneDigits = (phone: string) => phone.replace(/\D/g, '').slice(-10);
+const addressTokens = (address: string) => normalizeBusinessName(address).split(' ').filter(Boolean);
+
+// A square grid of size x size points spacingKm apart, centred on the business
+export function buildGeoGrid(center: { latitude: number; longitude: number }, size: number, spacingKm: number): CheckPoint[] {
+  const half = Math.floor(size / 2);
+  const latitudeStep = spacingKm / KM_PER_DEGREE_LATITUDE;
+  const longitudeStep = spacingKm / (KM_PER_DEGREE_LATITUDE * Math.cos(center.latitude * Math.PI / 180));
+  const points: CheckPoint[] = [];
+
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      points.push({
+        label: row === half && col === half ? 'Center' : `Grid ${row + 1}-${col + 1}`,
+        latitude: Number((center.latitude + (half - row) * latitudeStep).toFixed(6)),
+        longitude: Number((center.longitude + (col - half) * longitudeStep).toFixed(6)),
+        row,
+        col
+      });
+    }
+  }
+
+  return points;
+}
+
+// DataForSEO location_coordinate for a grid point, "latitude,longitude,zoom"
+export function pointCoordinate(point: CheckPoint): string | undefined {
+  return point.latitude !== undefined && point.longitude !== undefined
+    ? `${point.latitude},${point.longitude},${GRID_ZOOM}z`
+    : undefined;
+}
+
+export function readMapsListings(items: any[]): MapsListing[] {
+  return (items || [])
+    .filter(item => item.type === 'maps_search' && item.title)
+    .map(item => ({
+      position: item.rank_group ?? item.rank_absolute,
+      title: item.title,
+      domain: item.domain || null,
+      url: item.url || null,
+      rating: typeof item.rating?.value === 'number' ? item.rating.value : null,
+      reviews: item.rating?.votes_count || 0,
+      address: item.address || null,
+      phone: item.phone || null,
+      category: item.category || null,
+      cid: item.cid || null,
+      isClaimed: typeof item.is_claimed === 'boolean' ? item.is_claimed : null
+    }))
+    .sort((a, b) => a.position - b.position);
+}
+
+// A listing belongs to the business when its website matches, or its name contains the business name
+export function matchesBusiness(listing: MapsListing, business: BusinessProfile): boolean {
+  if (business.domain && listing.domain && normalizeDomain(listing.domain) === normalizeDomain(business.domain)) {
+    return true;
+  }
+  const name = normalizeBusinessName(business.name);
+  return name.length > 0 && normalizeBusinessName(listing.title).includes(name);
+}
+
+// Listings are the same place when they share a Google CID, otherwise by name and address
+const listingKey = (listing: MapsListing) => listing.cid || `${normalizeBusinessName(listing.title)}|${normalizeBusinessName(listing.address || '')}`;
+
+// Checks between the business profile and its Maps listings: the name, address and phone
+// customers see should match everywhere the business is cited
+export function napConsistencyHints(business: BusinessProfile, listings: MapsListing[]): NapHint[] {
+  const hints: NapHint[] = [];
+
+  if (listings.length === 0) {
+    hints.push({
+      field: 'listing',
+      severity: 'warning',
+      message: `No Maps listing matching "${business.name}" was found at any check point; confirm the Business Profile exists and is verified`
+    });
+    return hints;
+  }
+
+  const distinct = (values: Array<string | null>) => Array.from(new Set(values.filter((value): value is string => Boolean(value))));
+
+  const titles = distinct(listings.map(listing => listing.title));
+  const offName = titles.filter(title => normalizeBusinessName(title) !== normalizeBusinessName(business.name));
+  if (offName.length > 0) {
+    hints.push({
+      field: 'name',
+      severity: 'info',
+      message: 'Listing names differ from the business name; extra keywords or locations in the name can trigger suspensions',
+      values: offName
+    });
+  }
+
+  const phones = distinct(listings.map(listing => listing.phone));
+  if (phones.length === 0) {
+    hints.push({ field: 'phone', severity: 'warning', message: 'No phone number is shown on the Maps listing' });
+  } else if (business.phone) {
+    const mismatched = phones.filter(phone => phoneDigits(phone) !== phoneDigits(business.phone!));
+    if (mismatched.length > 0) {
+      hints.push({
+        field: 'phone',
+        severity: 'warning',
+        message: `Listing phone numbers don't match ${business.phone}`,
+        values: mismatched
+      });
+    }
+  }
+
+  const addresses = distinct(listings.map(listing => listing.address));
+  if (business.address && addresses.length > 0) {
+    const expected = addressTokens(business.address);
+    // Street numbers and postcodes carry digits; a listing missing any of them is a different address
+    const keyTokens = expected.filter(token => /\d/.test(token));
+    const mismatched = addresses.filter(address => {
+      const tokens = new Set(addressTokens(address));
+      return keyTokens.some(token => !tokens.has(token));
+    });
+    if (mismatched.length > 0) {
+      hints.push({
+        field: 'address',
+        severity: 'warning',
+        message: `Listing addresses don't match ${business.address}`,
+        values: mismatched
+      });
+    }
+  }
+
+  const places = new Set(listings.map(listingKey));
+  if (places.size > 1 && (phones.length > 1 || addresses.length > 1)) {
+    hints.push({
+      field: 'listing',
+      severity: 'info',
+      message: `${places.size} different listings match the business; merge duplicates unless they are separate locations`,
+      values: addresses.length > 0 ? addresses : titles
+    });
+  }
+
+  if (listings.every(listing => !listing.domain)) {
+    hints.push({ field: 'website', severity: 'warning', message: 'The Maps listing has no website link' });
+  } else if (business.domain) {
+    const others = distinct(listings.map(listing => listing.domain))
+      .filter(domain => normalizeDomain(domain) !== normalizeDomain(business.domain!));
+    if (others.length > 0) {
+      hints.push({
+        field: 'website',
+        severity: 'info',
+        message: `Some listings link to a different website than ${business.domain}`,
+        values: others
+      });
+    }
+  }
+
+  if (listings.some(listing => listing.isClaimed === false)) {
+    hints.push({
+      field: 'listing',
+      severity: 'warning',
+      message: 'The listing is unclaimed; claim it to manage hours, photos and review replies'
+    });
+  }
+
+  return hints;
+}
+
+// Combine Maps results per keyword and check point into coverage, share of voice,
+// review comparisons and NAP hints
+export function analyzeLocalResults(
+  business: BusinessProfile,
+  points: CheckPoint[],
+  results: Array<{ keyword: string; point: string; listings: MapsListing[] }>
+): LocalSeoResults {
+  const checks: LocalCheck[] = [];
+  const targetListings = new Map<string, MapsListing>();
+  const packEntries = new Map<string, { listing: MapsListing; isTarget: boolean; positions: number[] }>();
+
+  for (const result of results) {
+    const target = result.listings.find(listing => matchesBusiness(listing, business));
+    if (target) {
+      targetListings.set(listingKey(target), target);
+    }
+
+    const pack = result.listings.slice(0, LOCAL_PACK_SIZE);
+    for (const listing of pack) {
+      const isTarget = matchesBusiness(listing, business);
+      // Every listing of the business counts towards one share of voice entry
+      const key = isTarget ? 'target' : listingKey(listing);
+      const entry = packEntries.get(key) || { listing, isTarget, positions: [] };
+      entry.positions.push(listing.position);
+      packEntries.set(key, entry);
+    }
+
+    checks.push({
+      keyword: result.keyword,
+      point: result.point,
+      position: target?.position ?? null,
+      localPack: pack.map(listing => ({ title: listing.title, rating: listing.rating, reviews: listing.reviews }))
+    });
+  }
+
+  const summarize = (group: LocalCheck[]) => {
+    const found = group.filter(check => check.position !== null);
+    return {
+      checks: group.length,
+      foundRate: percent(found.length, group.length),
+      localPackRate: percent(found.filter(check => check.position! <= LOCAL_PACK_SIZE).length, group.length),
+      averagePosition: found.length > 0 ? round(average(found.map(check => check.position!))) : null
+    };
+  };
+
+  const keywords = Array.from(new Set(results.map(result => result.keyword)))
+    .map(keyword => ({ keyword, ...summarize(checks.filter(check => check.keyword === keyword)) }));
+
+  const totalSlots = checks.reduce((sum, check) => sum + check.localPack.length, 0);
+  const listings = Array.from(targetListings.values());
+  const targetRating = {
+    rating: listings.some(listing => listing.rating !== null)
+      ? round(average(listings.filter(listing => listing.rating !== null).map(listing => listing.rating!)))
+      : null,
+    reviews: listings.reduce((max, listing) => Math.max(max, listing.reviews), 0)
+  };
+
+  const shareOfVoice: ShareOfVoiceEntry[] = Array.from(packEntries.values())
+    .map(({ listing, isTarget, positions }) => ({
+      name: isTarget ? business.name : listing.title,
+      domain: isTarget ? (business.domain || listing.domain) : listing.domain,
+      isTarget,
+      appearances: positions.length,
+      share: percent(positions.length, totalSlots),
+      averagePosition: round(average(positions)),
+      rating: isTarget ? targetRating.rating : listing.rating,
+      reviews: isTarget ? targetRating.reviews : listing.reviews
+    }))
+    .sort((a, b) => b.appearances - a.appearances || a.averagePosition - b.averagePosition);
+
+  const competitors = shareOfVoice.filter(entry => !entry.isTarget);
+  const rated = competitors.filter(entry => entry.rating !== null);
+  const overall = summarize(checks);
+
+  return {
+    business,
+    overview: {
+      keywords: keywords.length,
+      points: points.length,
+      ...overall,
+      shareOfVoice: shareOfVoice.find(entry => entry.isTarget)?.share ?? 0,
+      ...targetRating
+    },
+    points,
+    keywords,
+    checks,
+    shareOfVoice,
+    ratingComparison: {
+      target: targetRating,
+      competitorAverage: {
+        rating: rated.length > 0 ? round(average(rated.map(entry => entry.rating!))) : null,
+        reviews: Math.round(average(competitors.map(entry => entry.reviews)))
+      },
+      competitorsWithMoreReviews: competitors.filter(entry => entry.reviews > targetRating.reviews).length,
+      competitorsRatedHigher: targetRating.rating === null
+        ? rated.length
+        : rated.filter(entry => entry.rating! > targetRating.rating!).length
+    },
+    listings,
+    napHints: napConsistencyHints(business, listings)
+  };
+}
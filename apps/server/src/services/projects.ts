@@ -0,0 +1,63 @@
+import { PrismaClient, ProjectRole } from '@prisma/client';
+
+// Project roles from least to most privileged
+const ROLE_RANK: { [role in ProjectRole]: number } = {
+  VIEWER: 1,
+  EDITOR: 2,
+  OWNER: 3,
+};
+
+export interface ProjectAccess {
+  projectId: string;
+  ownerId: string;
+  role: ProjectRole;
+}
+
+export function hasProjectRole(role: ProjectRole, minimum: ProjectRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+export class ProjectService {
+  constructor(private prisma: PrismaClient) {}
+
+  // The user's role on a project, or null when the project does not exist or they are not a member.
+  // The owner always counts as OWNER, even if their member row is missing.
+  async getAccess(projectId: string, userId: string): Promise<ProjectAccess | null> {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: {
+        id: true,
+        ownerId: true,
+        members: {
+          where: { userId },
+          select: { role: true }
+        }
+      }
+    });
+
+    if (!project) {
+      return null;
+    }
+
+    const role = project.ownerId === userId ? ProjectRole.OWNER : project.members[0]?.role;
+    if (!role) {
+      return null;
+    }
+
+    return { projectId: project.id, ownerId: project.ownerId, role };
+  }
+
+  // Create a project and record its creator as the OWNER member
+  async createProject(userId: string, data: { name: string; description?: string }) {
+    return this.prisma.project.create({
+      data: {
+        name: data.name,
+        description: data.description,
+        ownerId: userId,
+        members: {
+          create: { userId, role: ProjectRole.OWNER }
+        }
+      }
+    });
+  }
+}
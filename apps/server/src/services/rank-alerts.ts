@@ -0,0 +1,152 @@
+import { RankAlertType } from '@prisma/client';
+import { isTargetDomain, normalizeDomain, TOP_RESULTS, type RankedResult } from './rank-tracking.js';
+
+// Alert rule evaluation for rank checks. Rules compare each keyword's position in a check
+// with the tracker's previous check; keywords without a previous position never alert, so
+// a new tracker or keyword starts from a baseline rather than a burst of alerts.
+
+// Keywords listed in one email or webhook message; the rest are summarized
+const MAX_LISTED_TRIGGERS = 20;
+
+export interface AlertRuleConfig {
+  type: RankAlertType;
+  threshold: number;
+  competitorDomain: string | null;
+  serpFeature: string | null;
+}
+
+export interface KeywordSnapshot {
+  trackedKeywordId: string;
+  keyword: string;
+  position: number | null;
+  url: string | null;
+  serpFeatures: string[];
+  topResults: RankedResult[];
+}
+
+export interface AlertTrigger {
+  trackedKeywordId: string;
+  keyword: string;
+  position: number | null;
+  previousPosition: number | null;
+  detail: string;
+}
+
+export interface AlertMessage {
+  title: string;
+  summary: string;
+  lines: string[];
+}
+
+// "featured_snippet" -> "featured snippet"
+function featureLabel(feature: string): string {
+  return feature.replace(/_/g, ' ');
+}
+
+function positionLabel(position: number | null): string {
+  return position === null ? 'not ranking' : `#${position}`;
+}
+
+// The competitor's best position among the stored top results; only the top 10 are kept,
+// so a competitor below that counts as absent
+function competitorPosition(topResults: RankedResult[], competitor: string): number | null {
+  const match = topResults.find(result => isTargetDomain(result.domain, competitor));
+  return match ? match.position : null;
+}
+
+function evaluateKeyword(
+  rule: AlertRuleConfig,
+  targetDomain: string,
+  current: KeywordSnapshot,
+  previous: KeywordSnapshot
+): string | null {
+  switch (rule.type) {
+    case RankAlertType.POSITION_DROP: {
+      const wasInside = previous.position !== null && previous.position <= rule.threshold;
+      const isOutside = current.position === null || current.position > rule.threshold;
+      return wasInside && isOutside
+        ? `dropped out of the top ${rule.threshold}: ${positionLabel(previous.position)} → ${positionLabel(current.position)}`
+        : null;
+    }
+
+    case RankAlertType.COMPETITOR_OVERTAKE: {
+      if (!rule.competitorDomain) return null;
+      const competitor = normalizeDomain(rule.competitorDomain);
+      const now = competitorPosition(current.topResults, competitor);
+      const before = competitorPosition(previous.topResults, competitor);
+      const isAbove = now !== null && (current.position === null || now < current.position);
+      // Only known when we were in the stored top results or the competitor was
+      const wasBelow = previous.position !== null && (before === null ? previous.position <= TOP_RESULTS : previous.position < before);
+      return isAbove && wasBelow
+        ? `${competitor} (#${now}) overtook ${targetDomain} (${positionLabel(current.position)})`
+        : null;
+    }
+
+    case RankAlertType.SERP_FEATURE: {
+      const appeared = current.serpFeatures.filter(feature =>
+        !previous.serpFeatures.includes(feature) && (!rule.serpFeature || feature === rule.serpFeature)
+      );
+      return appeared.length > 0
+        ? `new SERP feature: ${appeared.map(featureLabel).join(', ')}`
+        : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+export function evaluateAlertRule(
+  rule: AlertRuleConfig,
+  targetDomain: string,
+  current: KeywordSnapshot[],
+  previous: Map<string, KeywordSnapshot>
+): AlertTrigger[] {
+  return current.flatMap(snapshot => {
+    const before = previous.get(snapshot.trackedKeywordId);
+    const detail = before ? evaluateKeyword(rule, targetDomain, snapshot, before) : null;
+    return detail
+      ? [{
+        trackedKeywordId: snapshot.trackedKeywordId,
+        keyword: snapshot.keyword,
+        position: snapshot.position,
+        previousPosition: before!.position,
+        detail
+      }]
+      : [];
+  });
+}
+
+function describeRule(rule: AlertRuleConfig & { name: string }, count: number): string {
+  const keywords = count === 1 ? '1 keyword' : `${count} keywords`;
+  switch (rule.type) {
+    case RankAlertType.POSITION_DROP:
+      return `${keywords} dropped out of the top ${rule.threshold}`;
+    case RankAlertType.COMPETITOR_OVERTAKE:
+      return `${rule.competitorDomain} overtook you on ${keywords}`;
+    case RankAlertType.SERP_FEATURE:
+      return rule.serpFeature
+        ? `A ${featureLabel(rule.serpFeature)} appeared for ${keywords}`
+        : `New SERP features appeared for ${keywords}`;
+    default:
+      return `${rule.name} matched ${keywords}`;
+  }
+}
+
+// Title, one-line summary and per-keyword lines shared by every delivery channel
+export function formatAlertMessage(
+  rule: AlertRuleConfig & { name: string },
+  tracker: { name: string },
+  triggers: AlertTrigger[]
+): AlertMessage {
+  const lines = triggers.slice(0, MAX_LISTED_TRIGGERS).map(trigger => `"${trigger.keyword}" ${trigger.detail}`);
+  if (triggers.length > MAX_LISTED_TRIGGERS) {
+    lines.push(`…and ${triggers.length - MAX_LISTED_TRIGGERS} more`);
+  }
+
+  return {
+    title: `${tracker.name}: ${rule.name}`,
+    summary: describeRule(rule, triggers.length),
+    lines
+  };
+}
@@ -0,0 +1,405 @@
+import { PrismaClient, Prisma, QueryStatus, QueryType, RankCheckFrequency } from '@prisma/client';
+import DataForSEOService from '../integrations/dataforseo/index.js';
+import { AlertService } from './alerts.js';
+import { CtrModel, CtrDevice, CtrCurveService, ctrDevice, serpLayout } from './ctr-model.js';
+
+const prisma = new PrismaClient();
+const dataForSEOService = new DataForSEOService({ prisma });
+const alertService = new AlertService(prisma);
+const ctrCurveService = new CtrCurveService(prisma);
+
+// Position lookup and summaries for tracked keywords. Positions are organic ranks
+// (DataForSEO rank_group); a domain that isn't in the checked results has no position.
+
+export const MAX_TRACKED_KEYWORDS = 500;
+
+// Organic results in a tracked SERP snapshot
+export const TOP_RESULTS = 10;
+
+// Unranked keywords count as this position when comparing checks, so dropping out of
+// the results shows as a loss rather than no change
+const UNRANKED_POSITION = 101;
+
+const FREQUENCY_MS: { [frequency in RankCheckFrequency]: number } = {
+  DAILY: 24 * 60 * 60 * 1000,
+  WEEKLY: 7 * 24 * 60 * 60 * 1000,
+};
+
+export interface RankedResult {
+  position: number;
+  domain: string;
+  url: string;
+}
+
+export interface KeywordRank {
+  position: number | null;
+  url: string | null;
+  serpFeatures: string[];
+  topResults: RankedResult[];
+}
+
+export interface RankCheckSummary {
+  keywordCount: number;
+  rankedKeywords: number;
+  top3: number;
+  top10: number;
+  averagePosition: number | null;
+  visibility: number;
+  estimatedTraffic: number;
+}
+
+export interface RankChange {
+  trackedKeywordId: string;
+  keyword: string;
+  searchVolume: number | null;
+  position: number | null;
+  previousPosition: number | null;
+  // Positive when the keyword moved up; null when it is unranked in both checks or has no previous check
+  change: number | null;
+  url: string | null;
+}
+
+// "https://www.Example.com/path" -> "example.com"
+export function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[/?#:].*$/, '');
+}
+
+// Subdomains (blog.example.com) rank for the tracked site too
+export function isTargetDomain(domain: string, target: string): boolean {
+  const normalized = normalizeDomain(domain);
+  return normalized === target || normalized.endsWith(`.${target}`);
+}
+
+// Lowercased and trimmed, without duplicates
+export function normalizeTrackedKeywords(keywords: string[]): string[] {
+  return Array.from(new Set(keywords.map(keyword => keyword.trim().toLowerCase().replace(/\s+/g, ' ')).filter(Boolean)));
+}
+
+// The target domain's best organic position on a SERP, with the page's features and top results
+export function readKeywordRank(
+  items: Array<{ type?: string; rank_group?: number; domain?: string; url?: string }>,
+  targetDomain: string
+): KeywordRank {
+  const target = normalizeDomain(targetDomain);
+  const organic = items
+    .filter(item => item.type === 'organic' && item.rank_group && item.url)
+    .sort((a, b) => a.rank_group! - b.rank_group!);
+  const best = organic.find(item => isTargetDomain(item.domain || item.url!, target));
+
+  return {
+    position: best ? best.rank_group! : null,
+    url: best ? best.url! : null,
+    serpFeatures: Array.from(new Set(items.map(item => item.type).filter((type): type is string => !!type && type !== 'organic'))),
+    topResults: organic.slice(0, TOP_RESULTS).map(item => ({
+      position: item.rank_group!,
+      domain: normalizeDomain(item.domain || item.url!),
+      url: item.url!
+    }))
+  };
+}
+
+// Visibility weighs each keyword's expected clicks at its position against what position 1
+// would get on the same SERP layout; keywords without a known search volume count as one search
+export function summarizeCheck(
+  ranks: Array<{ position: number | null; searchVolume: number | null; serpFeatures?: string[] }>,
+  device: CtrDevice,
+  ctrModel: CtrModel = new CtrModel()
+): RankCheckSummary {
+  const ranked = ranks.filter(rank => rank.position !== null).map(rank => rank.position!);
+  const weight = (rank: { searchVolume: number | null }) => Math.max(rank.searchVolume ?? 0, 1);
+  const context = (rank: { serpFeatures?: string[] }) => ({ device, layout: serpLayout(rank.serpFeatures) });
+  const possible = ranks.reduce((sum, rank) => sum + weight(rank) * ctrModel.ctr(1, context(rank)), 0);
+  const earned = ranks.reduce((sum, rank) => rank.position === null ? sum : sum + weight(rank) * ctrModel.ctr(rank.position, context(rank)), 0);
+  const estimatedTraffic = ranks.reduce((sum, rank) => rank.position === null
+    ? sum
+    : sum + ctrModel.traffic(rank.searchVolume ?? 0, rank.position, context(rank)), 0);
+
+  return {
+    keywordCount: ranks.length,
+    rankedKeywords: ranked.length,
+    top3: ranked.filter(position => position <= 3).length,
+    top10: ranked.filter(position => position <= 10).length,
+    averagePosition: ranked.length > 0
+      ? Math.round(ranked.reduce((sum, position) => sum + position, 0) / ranked.length * 10) / 10
+      : null,
+    visibility: possible > 0 ? Math.round(earned / possible * 1000) / 10 : 0,
+    estimatedTraffic
+  };
+}
+
+export function compareRanks(
+  keywords: Array<{ id: string; keyword: string; searchVolume: number | null }>,
+  current: Map<string, { position: number | null; url: string | null }>,
+  previous?: Map<string, { position: number | null }>
+): RankChange[] {
+  return keywords
+    .filter(keyword => current.has(keyword.id))
+    .map(keyword => {
+      const { position, url } = current.get(keyword.id)!;
+      const before = previous?.get(keyword.id);
+      const previousPosition = before ? before.position : null;
+      const change = !before || (position === null && previousPosition === null)
+        ? null
+        : (previousPosition ?? UNRANKED_POSITION) - (position ?? UNRANKED_POSITION);
+
+      return {
+        trackedKeywordId: keyword.id,
+        keyword: keyword.keyword,
+        searchVolume: keyword.searchVolume,
+        position,
+        previousPosition,
+        change,
+        url
+      };
+    });
+}
+
+// Biggest gains and losses, ties broken by search volume
+export function rankMovers(changes: RankChange[], limit = 10): { winners: RankChange[]; losers: RankChange[] } {
+  const moved = changes.filter(change => change.change !== null && change.change !== 0);
+  const byMagnitude = (a: RankChange, b: RankChange) =>
+    Math.abs(b.change!) - Math.abs(a.change!) || (b.searchVolume ?? 0) - (a.searchVolume ?? 0);
+
+  return {
+    winners: moved.filter(change => change.change! > 0).sort(byMagnitude).slice(0, limit),
+    losers: moved.filter(change => change.change! < 0).sort(byMagnitude).slice(0, limit)
+  };
+}
+
+// The next slot after now on the tracker's cadence, keeping the time of day of the previous
+// slot so missed checks (e.g. while the server was down) run once rather than catching up
+export function nextCheckAfter(frequency: RankCheckFrequency, scheduledAt: Date, now: Date = new Date()): Date {
+  const interval = FREQUENCY_MS[frequency];
+  const missed = Math.max(0, Math.floor((now.getTime() - scheduledAt.getTime()) / interval) + 1);
+  return new Date(scheduledAt.getTime() + missed * interval);
+}
+
+interface RankCheckParameters {
+  trackerId: string;
+  // Started by the scheduler rather than a user
+  scheduled: boolean;
+  confirmOverBudget: boolean;
+}
+
+export class RankCheckInProgressError extends Error {
+  statusCode = 409;
+
+  constructor() {
+    super('A check for this tracker is already running');
+    this.name = 'RankCheckInProgressError';
+  }
+}
+
+// Prisma filter for the unfinished check of a tracker, if any
+export function activeCheckWhere(trackerId: string) {
+  return {
+    type: QueryType.RANK_CHECK,
+    status: { in: [QueryStatus.PENDING, QueryStatus.RUNNING] },
+    payload: { path: ['trackerId'], equals: trackerId }
+  };
+}
+
+// Create the query for one run over the tracker's keywords and start it. Checks are charged
+// to userId: the tracker's creator for scheduled runs, otherwise whoever asked for the check.
+export async function startRankCheck(
+  trackerId: string,
+  userId: string,
+  options: { scheduled?: boolean; confirmOverBudget?: boolean } = {}
+) {
+  const tracker = await prisma.rankTracker.findUnique({ where: { id: trackerId } });
+  if (!tracker) {
+    throw new Error('Rank tracker not found');
+  }
+
+  const running = await prisma.query.findFirst({ where: activeCheckWhere(trackerId), select: { id: true } });
+  if (running) {
+    throw new RankCheckInProgressError();
+  }
+
+  const parameters: RankCheckParameters = {
+    trackerId,
+    scheduled: options.scheduled || false,
+    confirmOverBudget: options.confirmOverBudget || false
+  };
+
+  const query = await prisma.query.create({
+    data: {
+      createdBy: userId,
+      projectId: tracker.projectId,
+      type: QueryType.RANK_CHECK,
+      payload: parameters as unknown as Prisma.InputJsonValue,
+      status: QueryStatus.PENDING,
+    }
+  });
+
+  processRankCheck(query.id).catch(error => {
+    console.error(`Rank check failed for query ${query.id}:`, error);
+    updateQueryStatus(query.id, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
+  });
+
+  return query;
+}
+
+// Process one rank check (re-entrant: completed steps are reused on resume)
+export async function processRankCheck(queryId: string) {
+  try {
+    const query = await prisma.query.findUnique({ where: { id: queryId } });
+    if (!query) {
+      throw new Error('Query not found');
+    }
+
+    const params = query.payload as unknown as RankCheckParameters;
+    const tracker = await prisma.rankTracker.findUnique({
+      where: { id: params.trackerId },
+      include: { keywords: true }
+    });
+    if (!tracker) {
+      throw new Error('Rank tracker not found');
+    }
+    if (tracker.keywords.length === 0) {
+      throw new Error('The tracker has no keywords');
+    }
+
+    // Scheduled checks never go over budget; nobody is there to confirm it
+    const taskOptions = {
+      userId: query.createdBy,
+      allowOverage: params.confirmOverBudget
+    };
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 10);
+
+    // Step 1: Search volumes for keywords no earlier check has seen, for visibility
+    const newKeywords = tracker.keywords.filter(keyword => keyword.searchVolume === null);
+    const volumeTaskId = newKeywords.length > 0
+      ? await dataForSEOService.submitTask('keywords_volume', [{
+        keywords: newKeywords.map(keyword => keyword.keyword),
+        location_name: tracker.location,
+        language_name: tracker.language
+      }], { queryId, step: 'SEARCH_VOLUME', ...taskOptions })
+      : null;
+
+    // Step 2: One SERP per keyword
+    const serpTaskIds = new Map<string, string>();
+    for (const keyword of tracker.keywords) {
+      const taskId = await dataForSEOService.submitTask('serp_organic', [{
+        keyword: keyword.keyword,
+        location_name: tracker.location,
+        language_name: tracker.language,
+        device: tracker.device,
+        os: tracker.device === 'mobile' ? 'android' : 'windows'
+      }], { queryId, step: `RANK_SERP:${keyword.id}`, ...taskOptions });
+      serpTaskIds.set(keyword.id, taskId);
+    }
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 40);
+
+    // Step 3: Wait for DataForSEO tasks to complete
+    const results = await dataForSEOService.waitForTasks(
+      [...(volumeTaskId ? [volumeTaskId] : []), ...serpTaskIds.values()],
+      {
+        timeout: 600000, // 10 minutes
+        checkInterval: 10000 // 10 seconds
+      }
+    );
+
+    await updateQueryStatus(queryId, QueryStatus.RUNNING, null, 80);
+
+    // A failed volume lookup is retried by the next check
+    const volumes = new Map<string, number>();
+    if (volumeTaskId && !results[volumeTaskId]?.error) {
+      const byKeyword = new Map<string, string>(newKeywords.map(keyword => [keyword.keyword, keyword.id]));
+      for (const item of results[volumeTaskId]?.tasks?.[0]?.result || []) {
+        for (const row of item.keywords || [item]) {
+          const id = byKeyword.get(String(row.keyword || '').toLowerCase());
+          if (id) volumes.set(id, row.search_volume || 0);
+        }
+      }
+
+      await prisma.$transaction(Array.from(volumes.entries()).map(([id, searchVolume]) =>
+        prisma.trackedKeyword.update({ where: { id }, data: { searchVolume } })
+      ));
+    }
+
+    // Step 4: Store positions (skipped when resuming after the check was already written).
+    // Keywords whose SERP task failed are left out rather than recorded as unranked.
+    let check = await prisma.rankCheck.findUnique({ where: { queryId } });
+    if (!check) {
+      const ranks = tracker.keywords
+        .filter(keyword => {
+          const result = results[serpTaskIds.get(keyword.id)!];
+          return result && !result.error && result.tasks?.[0]?.result?.[0];
+        })
+        .map(keyword => ({
+          keyword,
+          ...readKeywordRank(results[serpTaskIds.get(keyword.id)!].tasks[0].result[0].items || [], tracker.targetDomain)
+        }));
+
+      if (ranks.length === 0) {
+        throw new Error('No SERP results were returned for the tracked keywords');
+      }
+
+      const summary = summarizeCheck(ranks.map(rank => ({
+        position: rank.position,
+        searchVolume: volumes.get(rank.keyword.id) ?? rank.keyword.searchVolume,
+        serpFeatures: rank.serpFeatures
+      })), ctrDevice(tracker.device), await ctrCurveService.getModel());
+      const checkedAt = new Date();
+
+      [check] = await prisma.$transaction([
+        prisma.rankCheck.create({
+          data: {
+            trackerId: tracker.id,
+            queryId,
+            ...summary,
+            checkedAt,
+            positions: {
+              create: ranks.map(rank => ({
+                trackedKeywordId: rank.keyword.id,
+                position: rank.position,
+                url: rank.url,
+                serpFeatures: rank.serpFeatures,
+                topResults: rank.topResults as unknown as Prisma.InputJsonValue,
+                checkedAt
+              }))
+            }
+          }
+        }),
+        prisma.rankTracker.update({
+          where: { id: tracker.id },
+          data: { lastCheckedAt: checkedAt }
+        })
+      ]);
+    }
+
+    // Step 5: Alert rules. Positions are already stored, so a delivery problem doesn't fail the check.
+    try {
+      await alertService.evaluateCheck(check.id);
+    } catch (error) {
+      console.error(`Rank alert evaluation error for query ${queryId}:`, error);
+    }
+
+    // Complete the query
+    await updateQueryStatus(queryId, QueryStatus.COMPLETED, null, 100);
+
+  } catch (error) {
+    console.error(`Rank check processing error for query ${queryId}:`, error);
+    await updateQueryStatus(queryId, QueryStatus.FAILED, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+async function updateQueryStatus(queryId: string, status: QueryStatus, error?: string | null, progress?: number) {
+  await prisma.query.update({
+    where: { id: queryId },
+    data: {
+      status,
+      progress,
+      error,
+      completedAt: status === QueryStatus.COMPLETED || status === QueryStatus.FAILED ? new Date() : undefined
+    }
+  });
+}
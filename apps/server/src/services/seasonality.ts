@@ -0,0 +1,218 @@
+// Seasonality analysis of Google Trends interest. Trends values are relative (0-100 within one
+// request), so every figure here compares a keyword with itself: its calendar-month profile,
+// this year against last year, and the last few months against the year before them.
+
+export type SeasonalityLevel = 'high' | 'medium' | 'low';
+
+export interface TrendPoint {
+  // First day of the month, YYYY-MM-01
+  month: string;
+  value: number;
+}
+
+export interface KeywordTrend {
+  keyword: string;
+  series: TrendPoint[];
+  // Average interest per calendar month (January first), where 100 is the keyword's yearly average
+  monthlyProfile: number[];
+  seasonality: SeasonalityLevel;
+  // Calendar months (1-12) at least PEAK_THRESHOLD of the yearly average, strongest first
+  peakMonths: number[];
+  // Last 12 months against the 12 before them, in percent; null with less than two years of data
+  yoyGrowth: number | null;
+  // Last 3 months against the 12 before them, in percent
+  recentChange: number | null;
+  breakout: boolean;
+  averageInterest: number;
+  currentInterest: number | null;
+}
+
+export interface BreakoutTerm {
+  keyword: string;
+  query: string;
+  // Growth in percent; Google shows anything above BREAKOUT_GROWTH as "Breakout"
+  growth: number;
+}
+
+export interface CalendarEntry {
+  keyword: string;
+  // 'seasonal' entries lead into a peak; 'rising' entries have no peak but growing interest
+  type: 'seasonal' | 'rising';
+  season: string | null;
+  peakMonth: number | null;
+  seasonStart: string;
+  publishBy: string;
+  peakIndex: number | null;
+}
+
+// Google Trends compares at most this many keywords in one request
+export const TRENDS_KEYWORDS_PER_TASK = 5;
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// A calendar month this far above the keyword's average is a peak, as in extractSeasonalTrends
+const PEAK_THRESHOLD = 120;
+// Coefficient of variation of the monthly profile above which a keyword is seasonal
+const SEASONALITY_THRESHOLDS = { high: 0.5, medium: 0.25 };
+// Recent interest at least this much above the prior year marks a keyword as breaking out
+const BREAKOUT_CHANGE = 100;
+const BREAKOUT_GROWTH = 5000;
+// Year-over-year growth that puts a non-seasonal keyword on the calendar
+const RISING_GROWTH = 20;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+const isoDate = (date: Date) => date.toISOString().split('T')[0];
+
+export function monthName(month: number): string {
+  return MONTH_NAMES[month - 1];
+}
+
+// Weekly or daily graph points averaged into calendar months, oldest first. Points Google marks
+// as missing data are skipped.
+export function readTrendSeries(items: any[], keyword: string): TrendPoint[] {
+  const graph = (items || []).find(item => item.type === 'google_trends_graph');
+  const index = graph?.keywords?.indexOf(keyword) ?? -1;
+  if (!graph || index === -1) {
+    return [];
+  }
+
+  const months = new Map<string, number[]>();
+  for (const point of graph.data || []) {
+    const value = point.values?.[index];
+    if (point.missing_data || typeof value !== 'number' || !point.date_from) continue;
+    const month = `${point.date_from.slice(0, 7)}-01`;
+    months.set(month, [...(months.get(month) || []), value]);
+  }
+
+  return Array.from(months.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, values]) => ({ month, value: round(average(values)) }));
+}
+
+// Rising related queries Google reports as breakouts, per keyword
+export function readBreakoutTerms(items: any[]): BreakoutTerm[] {
+  return (items || [])
+    .filter(item => item.type === 'google_trends_queries_list')
+    .flatMap(item => (item.data?.rising || [])
+      .filter((query: any) => query.value >= BREAKOUT_GROWTH)
+      .map((query: any) => ({ keyword: item.keywords?.[0] ?? '', query: query.query, growth: query.value })))
+    .sort((a, b) => b.growth - a.growth);
+}
+
+export function analyzeKeywordTrend(keyword: string, series: TrendPoint[]): KeywordTrend {
+  const values = series.map(point => point.value);
+  const averageInterest = average(values);
+
+  const byMonth: number[][] = Array.from({ length: 12 }, () => []);
+  for (const point of series) {
+    byMonth[Number(point.month.slice(5, 7)) - 1].push(point.value);
+  }
+  const monthAverages = byMonth.map(average);
+  const yearlyAverage = average(monthAverages.filter((_, month) => byMonth[month].length > 0));
+  const monthlyProfile = monthAverages.map(value => yearlyAverage > 0 ? Math.round(value / yearlyAverage * 100) : 0);
+
+  const covered = monthlyProfile.filter((_, month) => byMonth[month].length > 0);
+  const deviation = Math.sqrt(average(covered.map(value => Math.pow(value - 100, 2)))) / 100;
+  let seasonality: SeasonalityLevel = 'low';
+  if (deviation > SEASONALITY_THRESHOLDS.high) seasonality = 'high';
+  else if (deviation > SEASONALITY_THRESHOLDS.medium) seasonality = 'medium';
+
+  const peakMonths = monthlyProfile
+    .map((value, month) => ({ month: month + 1, value }))
+    .filter(entry => entry.value >= PEAK_THRESHOLD)
+    .sort((a, b) => b.value - a.value)
+    .map(entry => entry.month);
+
+  const change = (recent: number[], before: number[]) => {
+    const baseline = average(before);
+    return baseline > 0 ? Math.round((average(recent) - baseline) / baseline * 100) : null;
+  };
+  const yoyGrowth = values.length >= 24 ? change(values.slice(-12), values.slice(-24, -12)) : null;
+  const recentChange = values.length >= 15 ? change(values.slice(-3), values.slice(-15, -3)) : null;
+
+  return {
+    keyword,
+    series,
+    monthlyProfile,
+    seasonality,
+    peakMonths,
+    yoyGrowth,
+    recentChange,
+    breakout: recentChange !== null && recentChange >= BREAKOUT_CHANGE,
+    averageInterest: round(averageInterest),
+    currentInterest: values.length > 0 ? values[values.length - 1] : null
+  };
+}
+
+// Consecutive peak months (wrapping December into January) as seasons, each starting at its first month
+function peakSeasons(trend: KeywordTrend): Array<{ months: number[]; peakMonth: number }> {
+  const peaks = new Set(trend.peakMonths);
+  const seasons: number[][] = [];
+
+  for (let month = 1; month <= 12; month++) {
+    if (!peaks.has(month) || peaks.has(month === 1 ? 12 : month - 1)) continue;
+    const season = [month];
+    let next = month === 12 ? 1 : month + 1;
+    while (peaks.has(next) && next !== month) {
+      season.push(next);
+      next = next === 12 ? 1 : next + 1;
+    }
+    seasons.push(season);
+  }
+
+  return seasons.map(months => ({
+    months,
+    peakMonth: months.reduce((best, month) => trend.monthlyProfile[month - 1] > trend.monthlyProfile[best - 1] ? month : best)
+  }));
+}
+
+// Publish-by dates for the next occurrence of each seasonal peak, plus rising non-seasonal
+// keywords to publish now. Content goes live leadTimeWeeks before a season starts so it can be
+// indexed and ranking by the time interest climbs.
+export function buildContentCalendar(trends: KeywordTrend[], leadTimeWeeks: number, today: Date = new Date()): CalendarEntry[] {
+  const start = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+  const entries: CalendarEntry[] = [];
+
+  for (const trend of trends) {
+    if (trend.seasonality === 'low') {
+      if ((trend.yoyGrowth !== null && trend.yoyGrowth >= RISING_GROWTH) || trend.breakout) {
+        entries.push({
+          keyword: trend.keyword,
+          type: 'rising',
+          season: null,
+          peakMonth: null,
+          seasonStart: isoDate(start),
+          publishBy: isoDate(start),
+          peakIndex: null
+        });
+      }
+      continue;
+    }
+
+    for (const season of peakSeasons(trend)) {
+      const firstMonth = season.months[0];
+      let seasonStart = new Date(Date.UTC(start.getUTCFullYear(), firstMonth - 1, 1));
+      // This year's season has already started: plan for next year's
+      if (seasonStart < start) {
+        seasonStart = new Date(Date.UTC(start.getUTCFullYear() + 1, firstMonth - 1, 1));
+      }
+      // Inside the lead time, publishing as soon as possible still catches most of the season
+      const leadTimeStart = new Date(seasonStart.getTime() - leadTimeWeeks * 7 * 24 * 60 * 60 * 1000);
+      const publishBy = leadTimeStart < start ? start : leadTimeStart;
+
+      const lastMonth = season.months[season.months.length - 1];
+      entries.push({
+        keyword: trend.keyword,
+        type: 'seasonal',
+        season: season.months.length > 1 ? `${monthName(firstMonth)}–${monthName(lastMonth)}` : monthName(firstMonth),
+        peakMonth: season.peakMonth,
+        seasonStart: isoDate(seasonStart),
+        publishBy: isoDate(publishBy),
+        peakIndex: trend.monthlyProfile[season.peakMonth - 1]
+      });
+    }
+  }
+
+  return entries.sort((a, b) => a.publishBy.localeCompare(b.publishBy) || a.keyword.localeCompare(b.keyword));
+}
@@ -0,0 +1,156 @@
+import { readKeywordRank, type RankedResult } from './rank-tracking.js';
+
+// Timelines of historical SERP snapshots for one keyword. Each snapshot is compared with the
+// one before it over the top 10 organic results: which URLs entered or left, how the rest
+// moved, and which SERP features came and went.
+
+export interface SerpHistorySnapshot {
+  date: string;
+  features: string[];
+  results: RankedResult[];
+  // The target domain's best organic position, when a target was given
+  targetPosition: number | null;
+  targetUrl: string | null;
+}
+
+export interface SerpSnapshotDiff {
+  entered: Array<{ url: string; domain: string; position: number }>;
+  exited: Array<{ url: string; domain: string; previousPosition: number }>;
+  // Positive change means the URL moved up
+  moved: Array<{ url: string; domain: string; position: number; previousPosition: number; change: number }>;
+  featuresAppeared: string[];
+  featuresDisappeared: string[];
+  // Share of the top results that are new since the previous snapshot, 0-100
+  turnover: number;
+  targetChange: number | null;
+}
+
+export interface SerpHistoryEntry extends SerpHistorySnapshot {
+  // Null for the first snapshot
+  diff: SerpSnapshotDiff | null;
+}
+
+export interface SerpHistory {
+  keyword: string;
+  targetDomain: string | null;
+  snapshots: SerpHistoryEntry[];
+  summary: {
+    snapshotCount: number;
+    firstDate: string | null;
+    lastDate: string | null;
+    averageTurnover: number;
+    mostVolatileDate: string | null;
+    targetBestPosition: number | null;
+    targetLatestPosition: number | null;
+    // The snapshot where the target lost the most positions (dropping out counts as position 101)
+    biggestTargetDrop: { date: string; from: number | null; to: number | null } | null;
+  };
+}
+
+// Unranked counts as this position when measuring the target's moves, as in rank tracking
+const UNRANKED_POSITION = 101;
+
+// URLs are compared without scheme, www or a trailing slash
+function urlKey(url: string): string {
+  return url.toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').replace(/\/$/, '');
+}
+
+// One DataForSEO historical SERP item: { datetime, items: [...] }
+export function readSerpSnapshot(snapshot: { datetime?: string; items?: any[] }, targetDomain: string | null): SerpHistorySnapshot {
+  const rank = readKeywordRank(snapshot.items || [], targetDomain || '');
+  const date = new Date(snapshot.datetime || '');
+  return {
+    date: isNaN(date.getTime()) ? '' : date.toISOString(),
+    features: rank.serpFeatures,
+    results: rank.topResults,
+    targetPosition: targetDomain ? rank.position : null,
+    targetUrl: targetDomain ? rank.url : null
+  };
+}
+
+export function diffSerpSnapshots(previous: SerpHistorySnapshot, current: SerpHistorySnapshot): SerpSnapshotDiff {
+  const before = new Map(previous.results.map(result => [urlKey(result.url), result]));
+  const after = new Map(current.results.map(result => [urlKey(result.url), result]));
+
+  const entered = current.results
+    .filter(result => !before.has(urlKey(result.url)))
+    .map(({ url, domain, position }) => ({ url, domain, position }));
+  const exited = previous.results
+    .filter(result => !after.has(urlKey(result.url)))
+    .map(({ url, domain, position }) => ({ url, domain, previousPosition: position }));
+  const moved = current.results
+    .filter(result => before.has(urlKey(result.url)) && before.get(urlKey(result.url))!.position !== result.position)
+    .map(({ url, domain, position }) => {
+      const previousPosition = before.get(urlKey(url))!.position;
+      return { url, domain, position, previousPosition, change: previousPosition - position };
+    })
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+  const hasTarget = previous.targetPosition !== null || current.targetPosition !== null;
+
+  return {
+    entered,
+    exited,
+    moved,
+    featuresAppeared: current.features.filter(feature => !previous.features.includes(feature)),
+    featuresDisappeared: previous.features.filter(feature => !current.features.includes(feature)),
+    turnover: current.results.length > 0 ? Math.round(entered.length / current.results.length * 100) : 0,
+    targetChange: hasTarget
+      ? (previous.targetPosition ?? UNRANKED_POSITION) - (current.targetPosition ?? UNRANKED_POSITION)
+      : null
+  };
+}
+
+// Snapshots oldest first, each diffed against the one before it. Snapshots without a date or
+// without organic results (failed crawls) are dropped rather than shown as a full turnover.
+export function buildSerpHistory(
+  keyword: string,
+  rawSnapshots: Array<{ datetime?: string; items?: any[] }>,
+  targetDomain: string | null = null
+): SerpHistory {
+  const snapshots = rawSnapshots
+    .map(snapshot => readSerpSnapshot(snapshot, targetDomain))
+    .filter(snapshot => snapshot.date && snapshot.results.length > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const entries: SerpHistoryEntry[] = snapshots.map((snapshot, index) => ({
+    ...snapshot,
+    diff: index > 0 ? diffSerpSnapshots(snapshots[index - 1], snapshot) : null
+  }));
+
+  const diffed = entries.filter(entry => entry.diff !== null);
+  const mostVolatile = diffed.reduce<SerpHistoryEntry | null>(
+    (best, entry) => !best || entry.diff!.turnover > best.diff!.turnover ? entry : best,
+    null
+  );
+  const biggestDrop = diffed.reduce<SerpHistoryEntry | null>(
+    (worst, entry) => entry.diff!.targetChange !== null && entry.diff!.targetChange < 0 &&
+      (!worst || entry.diff!.targetChange < worst.diff!.targetChange!) ? entry : worst,
+    null
+  );
+  const targetPositions = entries.map(entry => entry.targetPosition).filter((position): position is number => position !== null);
+
+  return {
+    keyword,
+    targetDomain,
+    snapshots: entries,
+    summary: {
+      snapshotCount: entries.length,
+      firstDate: entries[0]?.date ?? null,
+      lastDate: entries[entries.length - 1]?.date ?? null,
+      averageTurnover: diffed.length > 0
+        ? Math.round(diffed.reduce((sum, entry) => sum + entry.diff!.turnover, 0) / diffed.length)
+        : 0,
+      mostVolatileDate: mostVolatile && mostVolatile.diff!.turnover > 0 ? mostVolatile.date : null,
+      targetBestPosition: targetPositions.length > 0 ? Math.min(...targetPositions) : null,
+      targetLatestPosition: entries.length > 0 ? entries[entries.length - 1].targetPosition : null,
+      biggestTargetDrop: biggestDrop
+        ? {
+          date: biggestDrop.date,
+          from: entries[entries.indexOf(biggestDrop) - 1].targetPosition,
+          to: biggestDrop.targetPosition
+        }
+        : null
+    }
+  };
+}
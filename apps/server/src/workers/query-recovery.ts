@@ -0,0 +1,52 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { PrismaClient } from '@prisma/client';
+import { QueryStatus, QueryType } from '@prisma/client';
+import { processKeywordDiscovery } from '../routes/research/keyword-discovery.js';
+import { processSerpAnalysis } from '../routes/research/serp-analysis.js';
+import { processCompetitorResearch } from '../routes/research/competitor-research.js';
+import { processBacklinkCheck } from '../routes/research/backlinks.js';
+import { processOnPageAudit } from '../routes/research/onpage-audit.js';
+import { processTrendAnalysis } from '../routes/research/trend-analysis.js';
+import { processLocalSeo } from '../routes/research/local-seo.js';
+import { processContentBrief } from '../routes/briefs/index.js';
+import { processRankCheck } from '../services/rank-tracking.js';
+
+const WORKFLOWS: Partial<Record<QueryType, (queryId: string) => Promise<void>>> = {
+  [QueryType.KEYWORD_DISCOVERY]: processKeywordDiscovery,
+  [QueryType.SERP_SNAPSHOT]: processSerpAnalysis,
+  [QueryType.COMPETITOR_OVERVIEW]: processCompetitorResearch,
+  [QueryType.BACKLINK_CHECK]: processBacklinkCheck,
+  [QueryType.ONPAGE_AUDIT]: processOnPageAudit,
+  [QueryType.TREND_ANALYSIS]: processTrendAnalysis,
+  [QueryType.LOCAL_SEO]: processLocalSeo,
+  [QueryType.CONTENT_BRIEF]: processContentBrief,
+  [QueryType.RANK_CHECK]: processRankCheck,
+};
+
+// Restart research workflows that were interrupted by a shutdown. Each workflow
+// reuses the DataForSEO tasks it already submitted, so only unfinished steps run.
+export async function resumeInterruptedQueries(
+  prisma: PrismaClient,
+  logger: FastifyBaseLogger
+): Promise<number> {
+  const queries = await prisma.query.findMany({
+    where: {
+      status: { in: [QueryStatus.PENDING, QueryStatus.RUNNING] },
+      type: { in: Object.keys(WORKFLOWS) as QueryType[] },
+    },
+    select: { id: true, type: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  for (const query of queries) {
+    const workflow = WORKFLOWS[query.type]!;
+    logger.info(`♻️ Resuming ${query.type} query ${query.id}`);
+
+    // Workflows record their own failures on the query, so errors are only logged here
+    workflow(query.id).catch(error => {
+      logger.error(`Failed to resume query ${query.id}: ${error instanceof Error ? error.message : error}`);
+    });
+  }
+
+  return queries.length;
+}
@@ -0,0 +1,61 @@
+import type { PrismaClient } from '@prisma/client';
+import { startRankCheck, RankCheckInProgressError, nextCheckAfter } from '../services/rank-tracking.js';
+
+const SCHEDULE_INTERVAL = 5 * 60 * 1000; // every 5 minutes
+
+// Starts the checks of active rank trackers whose next check is due
+export class RankCheckScheduler {
+  private timer?: NodeJS.Timeout;
+
+  constructor(private prisma: PrismaClient) {}
+
+  async runDueChecks(now: Date = new Date()): Promise<number> {
+    const due = await this.prisma.rankTracker.findMany({
+      where: { active: true, nextCheckAt: { lte: now } },
+      select: { id: true, frequency: true, nextCheckAt: true, createdBy: true },
+      orderBy: { nextCheckAt: 'asc' }
+    });
+
+    let started = 0;
+    for (const tracker of due) {
+      // Moving nextCheckAt on claims the slot, so a second server process skips this tracker
+      const claimed = await this.prisma.rankTracker.updateMany({
+        where: { id: tracker.id, nextCheckAt: tracker.nextCheckAt },
+        data: { nextCheckAt: nextCheckAfter(tracker.frequency, tracker.nextCheckAt, now) }
+      });
+      if (claimed.count === 0) continue;
+
+      try {
+        await startRankCheck(tracker.id, tracker.createdBy, { scheduled: true });
+        started++;
+      } catch (error) {
+        // A manual check that is still running covers this slot
+        if (error instanceof RankCheckInProgressError) continue;
+        console.error(`Failed to start scheduled rank check for tracker ${tracker.id}:`, error);
+      }
+    }
+
+    return started;
+  }
+
+  // Checks that fell due while the server was down start straight away
+  start(): void {
+    if (this.timer) return;
+
+    const run = () => {
+      this.runDueChecks().catch(error => {
+        console.error('Rank check scheduling failed:', error);
+      });
+    };
+
+    run();
+    this.timer = setInterval(run, SCHEDULE_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
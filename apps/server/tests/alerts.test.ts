@@ -0,0 +1,290 @@
+import { readFileSync } from 'node:fs';
+import { AlertChannel, RankAlertType, type PrismaClient } from '@prisma/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+// rank-alerts first: through rank-tracking it loads alerts the way the server does
+import { evaluateAlertRule, type KeywordSnapshot } from '../src/services/rank-alerts.js';
+import { AlertService } from '../src/services/alerts.js';
+
+const { sendMail, post } = vi.hoisted(() => ({
+  sendMail: vi.fn(async () => ({})),
+  post: vi.fn(async () => ({ status: 200 }))
+}));
+
+vi.mock('../src/config/env.js', () => ({
+  default: () => ({
+    WEB_BASE_URL: 'http://localhost:3000',
+    SMTP_HOST: 'localhost',
+    SMTP_PORT: 1025,
+    SMTP_SECURE: false,
+    SMTP_FROM: 'SEO Research Portal <alerts@localhost>'
+  })
+}));
+
+// Stubbed SMTP transport and webhook endpoint; delivered messages are read from the mocks
+vi.mock('nodemailer', () => ({ default: { createTransport: () => ({ sendMail }) } }));
+// rank-tracking also builds a DataForSEO client through axios.create when imported
+vi.mock('axios', () => ({
+  default: {
+    post,
+    create: () => ({ interceptors: { request: { use: () => 0 }, response: { use: () => 0 } } })
+  }
+}));
+
+// Two recorded weekly checks of a "standing desk" tracker for deskly.com
+const checks = JSON.parse(readFileSync(new URL('./fixtures/rank-checks-standing-desk.json', import.meta.url), 'utf8'));
+const tracker = { id: 'tracker-1', projectId: 'project-1', name: 'Standing desks', targetDomain: 'deskly.com' };
+const rankingsUrl = 'http://localhost:3000/projects/project-1/rankings?tracker=tracker-1';
+
+function snapshots(check: any): KeywordSnapshot[] {
+  return check.positions.map((position: any) => ({
+    trackedKeywordId: position.trackedKeywordId,
+    keyword: position.trackedKeyword.keyword,
+    position: position.position,
+    url: position.url,
+    serpFeatures: position.serpFeatures,
+    topResults: position.topResults
+  }));
+}
+
+function rule(overrides: Record<string, unknown>) {
+  return {
+    id: 'rule-1',
+    trackerId: tracker.id,
+    name: 'Alert',
+    type: RankAlertType.POSITION_DROP,
+    threshold: 10,
+    competitorDomain: null,
+    serpFeature: null,
+    channels: [AlertChannel.IN_APP],
+    emailRecipients: [] as string[],
+    webhookUrl: null,
+    active: true,
+    ...overrides
+  };
+}
+
+// Just enough of Prisma for AlertService, backed by the recorded checks
+function recordedService(rules: ReturnType<typeof rule>[]) {
+  const events = new Map<string, any>();
+  const notifications: any[] = [];
+  const prisma = {
+    rankCheck: {
+      findUnique: async () => ({ ...checks.current, tracker: { ...tracker, alertRules: rules } }),
+      findFirst: async () => checks.previous
+    },
+    rankAlertEvent: {
+      // Events are unique per rule and check, as in the schema
+      createMany: async ({ data }: any) => {
+        const key = `${data[0].ruleId}:${data[0].checkId}`;
+        if (events.has(key)) return { count: 0 };
+        events.set(key, { id: `event-${events.size + 1}`, ...data[0] });
+        return { count: 1 };
+      },
+      findUniqueOrThrow: async ({ where }: any) => events.get(`${where.ruleId_checkId.ruleId}:${where.ruleId_checkId.checkId}`),
+      update: async ({ where, data }: any) => {
+        const event = Array.from(events.values()).find(entry => entry.id === where.id);
+        return Object.assign(event, data);
+      }
+    },
+    project: {
+      findUnique: async () => ({
+        owner: { id: 'user-1', email: 'owner@deskly.com' },
+        members: [{ user: { id: 'user-2', email: 'editor@deskly.com' } }, { user: { id: 'user-1', email: 'owner@deskly.com' } }]
+      })
+    },
+    notification: {
+      createMany: async ({ data }: any) => {
+        notifications.push(...data);
+        return { count: data.length };
+      }
+    }
+  };
+
+  return { service: new AlertService(prisma as unknown as PrismaClient), events, notifications };
+}
+
+beforeEach(() => {
+  sendMail.mockClear();
+  post.mockClear();
+});
+
+describe('evaluateAlertRule', () => {
+  const current = snapshots(checks.current);
+  const previous = new Map(snapshots(checks.previous).map(snapshot => [snapshot.trackedKeywordId, snapshot]));
+
+  it('alerts on keywords that leave the top N', () => {
+    expect(evaluateAlertRule(rule({ threshold: 10 }), tracker.targetDomain, current, previous)).toEqual([{
+      trackedKeywordId: 'keyword-1',
+      keyword: 'standing desk',
+      position: 12,
+      previousPosition: 8,
+      detail: 'dropped out of the top 10: #8 → #12'
+    }]);
+
+    expect(evaluateAlertRule(rule({ threshold: 20 }), tracker.targetDomain, current, previous).map(trigger => trigger.detail)).toEqual([
+      'dropped out of the top 20: #15 → not ranking'
+    ]);
+  });
+
+  it('alerts when a competitor moves above the domain', () => {
+    const triggers = evaluateAlertRule(
+      rule({ type: RankAlertType.COMPETITOR_OVERTAKE, competitorDomain: 'https://www.fully.com/' }),
+      tracker.targetDomain,
+      current,
+      previous
+    );
+
+    // On "standing desk" fully.com was already ahead, so only "adjustable desk" is an overtake
+    expect(triggers.map(trigger => [trigger.keyword, trigger.detail])).toEqual([
+      ['adjustable desk', 'fully.com (#2) overtook deskly.com (#3)']
+    ]);
+  });
+
+  it('alerts on SERP features that appeared since the previous check', () => {
+    const any = evaluateAlertRule(rule({ type: RankAlertType.SERP_FEATURE }), tracker.targetDomain, current, previous);
+    expect(any.map(trigger => [trigger.keyword, trigger.detail])).toEqual([
+      ['adjustable desk', 'new SERP feature: featured snippet'],
+      ['desk converter', 'new SERP feature: video']
+    ]);
+
+    const snippet = evaluateAlertRule(rule({ type: RankAlertType.SERP_FEATURE, serpFeature: 'featured_snippet' }), tracker.targetDomain, current, previous);
+    expect(snippet.map(trigger => trigger.keyword)).toEqual(['adjustable desk']);
+  });
+
+  it('never alerts on keywords without a previous position', () => {
+    const rules = [
+      rule({ threshold: 100 }),
+      rule({ type: RankAlertType.COMPETITOR_OVERTAKE, competitorDomain: 'fully.com' }),
+      rule({ type: RankAlertType.SERP_FEATURE })
+    ];
+
+    for (const entry of rules) {
+      const triggers = evaluateAlertRule(entry, tracker.targetDomain, current, previous);
+      expect(triggers.map(trigger => trigger.keyword)).not.toContain('desk chair');
+    }
+  });
+});
+
+describe('AlertService.evaluateCheck', () => {
+  const rules = [
+    rule({
+      id: 'rule-drop',
+      name: 'Top 10 drops',
+      channels: [AlertChannel.IN_APP, AlertChannel.EMAIL, AlertChannel.WEBHOOK],
+      webhookUrl: 'https://hooks.example.com/services/T000/B000'
+    }),
+    rule({ id: 'rule-overtake', name: 'Fully overtakes', type: RankAlertType.COMPETITOR_OVERTAKE, competitorDomain: 'fully.com' }),
+    rule({ id: 'rule-quiet', name: 'Top 3 drops', threshold: 3, channels: [AlertChannel.EMAIL] }),
+    rule({
+      id: 'rule-snippet',
+      name: 'Featured snippets',
+      type: RankAlertType.SERP_FEATURE,
+      serpFeature: 'featured_snippet',
+      channels: [AlertChannel.EMAIL],
+      emailRecipients: ['seo@deskly.com']
+    })
+  ];
+
+  it('delivers each matching rule to its channels and logs the outcome', async () => {
+    const { service, events, notifications } = recordedService(rules);
+
+    expect(await service.evaluateCheck('check-2')).toBe(3);
+    expect(Array.from(events.keys())).toEqual(['rule-drop:check-2', 'rule-overtake:check-2', 'rule-snippet:check-2']);
+    expect(events.get('rule-drop:check-2').deliveries).toEqual([
+      { channel: AlertChannel.IN_APP, status: 'sent', recipients: 2 },
+      { channel: AlertChannel.EMAIL, status: 'sent', recipients: 2 },
+      { channel: AlertChannel.WEBHOOK, status: 'sent' }
+    ]);
+
+    // In-app: one notification per project member, linked to the event
+    expect(notifications.filter(notification => notification.eventId === 'event-1')).toEqual([
+      {
+        userId: 'user-1',
+        projectId: 'project-1',
+        eventId: 'event-1',
+        title: 'Standing desks: Top 10 drops',
+        message: '1 keyword dropped out of the top 10\n"standing desk" dropped out of the top 10: #8 → #12',
+        link: '/projects/project-1/rankings?tracker=tracker-1'
+      },
+      expect.objectContaining({ userId: 'user-2', eventId: 'event-1' })
+    ]);
+    expect(notifications.filter(notification => notification.eventId === 'event-2').map(notification => notification.title)).toEqual([
+      'Standing desks: Fully overtakes',
+      'Standing desks: Fully overtakes'
+    ]);
+
+    // Email: the project's members by default, or the rule's own list
+    expect(sendMail).toHaveBeenCalledTimes(2);
+    expect(sendMail).toHaveBeenNthCalledWith(1, {
+      from: 'SEO Research Portal <alerts@localhost>',
+      to: 'owner@deskly.com, editor@deskly.com',
+      subject: 'Standing desks: Top 10 drops: 1 keyword dropped out of the top 10',
+      text: `1 keyword dropped out of the top 10\n\n- "standing desk" dropped out of the top 10: #8 → #12\n\nView rankings: ${rankingsUrl}`
+    });
+    expect(sendMail).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      to: 'seo@deskly.com',
+      subject: 'Standing desks: Featured snippets: A featured snippet appeared for 1 keyword'
+    }));
+
+    // Webhook: a Slack-style { text } payload
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post).toHaveBeenCalledWith(
+      'https://hooks.example.com/services/T000/B000',
+      { text: `*Standing desks: Top 10 drops*: 1 keyword dropped out of the top 10\n• "standing desk" dropped out of the top 10: #8 → #12\n<${rankingsUrl}|View rankings>` },
+      expect.objectContaining({ maxRedirects: 0 })
+    );
+  });
+
+  it('alerts once per rule and check when a check is evaluated again', async () => {
+    const { service, events, notifications } = recordedService(rules);
+
+    expect(await service.evaluateCheck('check-2')).toBe(3);
+    expect(await service.evaluateCheck('check-2')).toBe(0);
+
+    expect(events.size).toBe(3);
+    expect(notifications).toHaveLength(4);
+    expect(sendMail).toHaveBeenCalledTimes(2);
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('AlertService.sendTest', () => {
+  // Failed deliveries are logged; keep them out of the test output
+  let consoleError: ReturnType<typeof vi.spyOn>;
+  beforeEach(() => {
+    consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+  afterEach(() => consoleError.mockRestore());
+
+  const user = { id: 'user-1', email: 'owner@deskly.com' };
+  const testRule = (webhookUrl: string) => ({
+    name: 'Top 10 drops',
+    channels: [AlertChannel.WEBHOOK, AlertChannel.EMAIL, AlertChannel.IN_APP],
+    emailRecipients: [],
+    webhookUrl,
+    tracker
+  });
+
+  it('keeps delivering to the other channels when one fails', async () => {
+    const { service, notifications } = recordedService([]);
+
+    expect(await service.sendTest(testRule('http://hooks.example.com/services/T000/B000'), user)).toEqual([
+      { channel: AlertChannel.WEBHOOK, status: 'failed', error: 'Webhook URLs must use https' },
+      { channel: AlertChannel.EMAIL, status: 'sent', recipients: 1 },
+      { channel: AlertChannel.IN_APP, status: 'sent', recipients: 1 }
+    ]);
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'owner@deskly.com' }));
+    expect(notifications.map(notification => notification.userId)).toEqual(['user-1']);
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('refuses webhooks that point into the private network', async () => {
+    const { service } = recordedService([]);
+
+    for (const url of ['https://127.0.0.1/hook', 'https://10.1.2.3/hook', 'https://[::1]/hook']) {
+      const [webhook] = await service.sendTest(testRule(url), user);
+      expect(webhook).toEqual({ channel: AlertChannel.WEBHOOK, status: 'failed', error: 'Webhook URLs cannot point to a private address' });
+    }
+    expect(post).not.toHaveBeenCalled();
+  });
+});
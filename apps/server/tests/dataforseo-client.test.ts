@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DataForSEOClient } from '../src/integrations/dataforseo/client.js';
+
+// The client reads its credentials from the environment on import
+vi.mock('../src/config/env.js', () => ({
+  default: () => ({
+    DATAFORSEO_LOGIN: 'login',
+    DATAFORSEO_PASSWORD: 'password',
+    DATAFORSEO_BASE_URL: 'https://api.dataforseo.com'
+  })
+}));
+
+const client = new DataForSEOClient();
+const task = (status_code: number) => ({ status_code });
+
+describe('DataForSEO task status codes', () => {
+  it('treats 20000 as completed', () => {
+    expect(client.isTaskCompleted(task(20000))).toBe(true);
+    expect(client.hasTaskError(task(20000))).toBe(false);
+  });
+
+  it.each([
+    [20100, 'Task Created'],
+    [40601, 'Task Handed'],
+    [40602, 'Task In Queue']
+  ])('treats %i (%s) as still running', code => {
+    expect(client.isTaskPending(task(code))).toBe(true);
+    expect(client.isTaskCompleted(task(code))).toBe(false);
+    expect(client.hasTaskError(task(code))).toBe(false);
+  });
+
+  it.each([
+    [40102, 'No Search Results'],
+    [40401, 'Task Not Found'],
+    [40501, 'Invalid Field'],
+    [50000, 'Internal Error']
+  ])('treats %i (%s) as failed', code => {
+    expect(client.isTaskPending(task(code))).toBe(false);
+    expect(client.hasTaskError(task(code))).toBe(true);
+  });
+});
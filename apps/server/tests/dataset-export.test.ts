@@ -0,0 +1,36 @@
+import { DatasetKind } from '@prisma/client';
+import { describe, expect, it } from 'vitest';
+import { exportDataset } from '../src/services/dataset-export.js';
+
+function csvOf(data: unknown, columns: string[]): string[] {
+  const { body } = exportDataset(
+    { name: 'Trends', kind: DatasetKind.TRENDS, data },
+    { format: 'CSV', columns }
+  );
+  const text = Buffer.concat(Array.from(body as Iterable<Buffer>)).toString('utf8');
+  return text.replace(/^\uFEFF/, '').split('\r\n').filter(Boolean);
+}
+
+describe('CSV dataset export', () => {
+  it('writes negative numbers as numbers', () => {
+    const lines = csvOf({
+      keywords: [{ keyword: 'standing desk', yoyGrowth: -12.5, recentChange: -3 }]
+    }, ['keyword', 'yoyGrowth', 'recentChange']);
+
+    expect(lines).toEqual([
+      'Keyword,YoY growth %,Last 3 months change %',
+      'standing desk,-12.5,-3'
+    ]);
+  });
+
+  it('neutralises text a spreadsheet would run as a formula', () => {
+    const lines = csvOf({
+      keywords: [{ keyword: '=HYPERLINK("http://evil.example")', yoyGrowth: 4 }, { keyword: '-desk', yoyGrowth: 0 }]
+    }, ['keyword', 'yoyGrowth']);
+
+    expect(lines.slice(1)).toEqual([
+      `"'=HYPERLINK(""http://evil.example"")",4`,
+      `'-desk,0`
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { ExportProvider, type PrismaClient } from '@prisma/client';
+import { describe, expect, it, vi } from 'vitest';
+import { ExportCredentialService, verifyOAuthState } from '../src/services/export-credentials.js';
+
+vi.mock('../src/config/env.js', () => ({
+  default: () => ({
+    JWT_SECRET: 'test-secret',
+    API_BASE_URL: 'http://localhost:3001',
+    WEB_BASE_URL: 'http://localhost:3000'
+  })
+}));
+
+// Pending states kept in memory in place of the oauth_states table
+function pendingStates() {
+  const rows = new Map<string, { id: string; userId: string; provider: ExportProvider; expiresAt: Date }>();
+  const prisma = {
+    oAuthState: {
+      create: async ({ data }: any) => {
+        const row = { id: `state-${rows.size + 1}`, ...data };
+        rows.set(row.id, row);
+        return row;
+      },
+      deleteMany: async ({ where }: any) => {
+        let count = 0;
+        for (const row of Array.from(rows.values())) {
+          const matches = where.id
+            ? row.id === where.id && row.userId === where.userId && row.provider === where.provider && row.expiresAt > where.expiresAt.gt
+            : row.expiresAt < where.expiresAt.lt;
+          if (matches) {
+            rows.delete(row.id);
+            count++;
+          }
+        }
+        return { count };
+      }
+    }
+  };
+  return new ExportCredentialService(prisma as unknown as PrismaClient);
+}
+
+describe('OAuth state', () => {
+  it('is accepted once, from the browser that started the flow', async () => {
+    const service = pendingStates();
+    const { state, nonce } = await service.createOAuthState('user-1', ExportProvider.NOTION, '/briefs/abc');
+
+    const consumed = await service.consumeOAuthState(state, ExportProvider.NOTION, nonce);
+    expect(consumed).toMatchObject({ userId: 'user-1', provider: ExportProvider.NOTION, returnTo: '/briefs/abc' });
+
+    expect(await service.consumeOAuthState(state, ExportProvider.NOTION, nonce)).toBeNull();
+  });
+
+  it('is rejected without the nonce cookie or with another browser\'s nonce', async () => {
+    const service = pendingStates();
+    const attacker = await service.createOAuthState('attacker', ExportProvider.GOOGLE);
+    const victim = await service.createOAuthState('victim', ExportProvider.GOOGLE);
+
+    expect(verifyOAuthState(attacker.state, ExportProvider.GOOGLE)).toBeNull();
+    expect(verifyOAuthState(attacker.state, ExportProvider.GOOGLE, victim.nonce)).toBeNull();
+    expect(await service.consumeOAuthState(attacker.state, ExportProvider.GOOGLE, victim.nonce)).toBeNull();
+
+    // The rejected attempt leaves the attacker's own flow pending
+    expect(await service.consumeOAuthState(attacker.state, ExportProvider.GOOGLE, attacker.nonce)).not.toBeNull();
+  });
+
+  it('is rejected for another provider or when tampered with', async () => {
+    const service = pendingStates();
+    const { state, nonce } = await service.createOAuthState('user-1', ExportProvider.NOTION);
+
+    expect(verifyOAuthState(state, ExportProvider.GOOGLE, nonce)).toBeNull();
+
+    const [payload, signature] = state.split('.');
+    const forged = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    forged.userId = 'attacker';
+    const tampered = `${Buffer.from(JSON.stringify(forged)).toString('base64url')}.${signature}`;
+    expect(verifyOAuthState(tampered, ExportProvider.NOTION, nonce)).toBeNull();
+  });
+
+  it('keeps return addresses on the web app', async () => {
+    const service = pendingStates();
+    const { state, nonce } = await service.createOAuthState('user-1', ExportProvider.NOTION, '/\\evil.com');
+
+    expect(verifyOAuthState(state, ExportProvider.NOTION, nonce)?.returnTo).toBe('/');
+  });
+});
@@ -0,0 +1,144 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import {
+  calculateKeywordDifficulty,
+  classifyPage,
+  difficultyLevel,
+  difficultyTargets,
+  rankingPages,
+  readBulkRanks,
+  readBulkReferringDomains,
+  type DifficultySignals
+} from '../src/services/keyword-difficulty.js';
+
+// Recorded DataForSEO responses for "standing desk" (United States, desktop)
+function fixtureItems(name: string): any[] {
+  const response = JSON.parse(readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), 'utf8'));
+  return response.tasks[0].result[0].items;
+}
+
+const serp = fixtureItems('serp-standing-desk');
+const signals: DifficultySignals = {
+  domainRanks: readBulkRanks(fixtureItems('backlinks-bulk-ranks')),
+  pageReferringDomains: readBulkReferringDomains(fixtureItems('backlinks-bulk-referring-domains'))
+};
+
+describe('rankingPages', () => {
+  it('keeps the top 10 organic results with their link data', () => {
+    const pages = rankingPages(serp, signals);
+
+    expect(pages).toHaveLength(10);
+    expect(pages.map(page => page.position)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(pages[0]).toEqual({
+      position: 1,
+      domain: 'upliftdesk.com',
+      url: 'https://www.upliftdesk.com/',
+      pageType: 'homepage',
+      domainRank: 52,
+      referringDomains: 999
+    });
+    expect(pages.some(page => page.domain === 'vari.com')).toBe(false);
+  });
+
+  it('asks for link data on the ranking domains and URLs only', () => {
+    const { domains, urls } = difficultyTargets([serp, serp]);
+
+    expect(domains).toHaveLength(10);
+    expect(domains).toContain('ikea.com');
+    expect(domains).not.toContain('autonomous.ai');
+    expect(urls).toHaveLength(10);
+    expect(urls).toContain('https://www.reddit.com/r/StandingDesk/comments/17x2k9q/which_standing_desk_should_i_buy/');
+  });
+});
+
+describe('classifyPage', () => {
+  it('recognises the page types ranking in the SERP', () => {
+    expect(rankingPages(serp).map(page => page.pageType)).toEqual([
+      'homepage', 'category', 'product', 'article', 'forum', 'video', 'category', 'article', 'product', 'article'
+    ]);
+  });
+
+  it('treats forum paths on any domain as forums', () => {
+    expect(classifyPage('www.example.com', 'https://www.example.com/community/desks/')).toBe('forum');
+  });
+});
+
+describe('calculateKeywordDifficulty', () => {
+  const difficulty = calculateKeywordDifficulty(serp, signals);
+
+  it('scores authority from the position-weighted domain ranks', () => {
+    expect(difficulty.components.authority).toEqual({
+      score: 81,
+      weight: 0.35,
+      detail: 'Weighted domain rank 81; 8 of 10 ranking domains rank 70+'
+    });
+  });
+
+  it('scores backlinks from referring domains on a log scale', () => {
+    expect(difficulty.components.backlinks).toEqual({
+      score: 49,
+      weight: 0.35,
+      detail: 'Ranking pages have a median of 99 referring domains'
+    });
+  });
+
+  it('scores SERP crowding once per feature type', () => {
+    expect(difficulty.components.serpCrowding).toEqual({
+      score: 55,
+      weight: 0.15,
+      detail: 'ai overview, paid, people also ask, video; first organic result at position 3'
+    });
+  });
+
+  it('scores the content mix from the ranking page types', () => {
+    expect(difficulty.components.contentMix).toEqual({
+      score: 60,
+      weight: 0.15,
+      detail: '3 article, 2 category, 2 product, 1 homepage, 1 forum, 1 video'
+    });
+  });
+
+  it('blends the components by weight', () => {
+    expect(difficulty.score).toBe(63);
+    expect(difficulty.level).toBe('hard');
+    expect(difficulty.coverage).toBe(1);
+    expect(difficulty.rankingPages).toHaveLength(10);
+  });
+
+  it('scores from the SERP alone when backlink data is missing', () => {
+    const serpOnly = calculateKeywordDifficulty(serp);
+
+    expect(serpOnly.components.authority).toMatchObject({ score: null, detail: 'Domain ranks unavailable' });
+    expect(serpOnly.components.backlinks).toMatchObject({ score: null, detail: 'Referring domains unavailable' });
+    expect(serpOnly.coverage).toBe(0.3);
+    expect(serpOnly.score).toBe(58);
+  });
+
+  it('leaves out only the components whose data is missing', () => {
+    const ranksOnly = calculateKeywordDifficulty(serp, { domainRanks: signals.domainRanks });
+
+    expect(ranksOnly.components.authority.score).toBe(81);
+    expect(ranksOnly.components.backlinks.score).toBeNull();
+    expect(ranksOnly.coverage).toBe(0.65);
+    // (81 * 0.35 + 55 * 0.15 + 60 * 0.15) / 0.65
+    expect(ranksOnly.score).toBe(70);
+  });
+
+  it('scores an empty SERP as easy', () => {
+    const empty = calculateKeywordDifficulty([]);
+
+    expect(empty.score).toBe(0);
+    expect(empty.level).toBe('easy');
+    expect(empty.components.contentMix.detail).toBe('No organic results');
+  });
+});
+
+describe('difficultyLevel', () => {
+  it('maps scores to levels at the thresholds', () => {
+    expect(difficultyLevel(29)).toBe('easy');
+    expect(difficultyLevel(30)).toBe('medium');
+    expect(difficultyLevel(50)).toBe('hard');
+    expect(difficultyLevel(69)).toBe('hard');
+    expect(difficultyLevel(70)).toBe('very_hard');
+  });
+});
@@ -0,0 +1,104 @@
+import type { PrismaClient } from '@prisma/client';
+import { describe, expect, it, vi } from 'vitest';
+import { EmbeddingService } from '../src/integrations/openai/embeddings.js';
+import { dedupeKeywords, type SemanticResult } from '../src/services/keyword-semantics.js';
+
+// Local hashed vectors: deterministic, and the service never touches the cache or budget tables
+vi.mock('../src/config/env.js', () => ({
+  default: () => ({ EMBEDDINGS_PROVIDER: 'local' })
+}));
+
+interface Idea {
+  keyword: string;
+  searchVolume: number;
+  isSeedKeyword?: boolean;
+}
+
+const ideas: Idea[] = [
+  { keyword: 'standing desk', searchVolume: 40500, isSeedKeyword: true },
+  { keyword: 'standing desks', searchVolume: 22200 },
+  { keyword: 'desk standing', searchVolume: 300 },
+  { keyword: 'Standing Desk ', searchVolume: 100 },
+  { keyword: 'best standing desk', searchVolume: 9900 },
+  { keyword: 'standing desk for home', searchVolume: 1900 },
+  { keyword: 'adjustable standing desk', searchVolume: 8100 },
+  { keyword: 'standing desk converter', searchVolume: 6600 },
+  { keyword: 'desk converter', searchVolume: 2400 },
+  { keyword: 'ergonomic office chair', searchVolume: 12100 },
+  { keyword: 'office chair ergonomic', searchVolume: 500 },
+  { keyword: 'ergonomic office chairs', searchVolume: 450 },
+  { keyword: 'office chairs', searchVolume: 33100 },
+  { keyword: 'office chair', searchVolume: 33100 }
+];
+
+async function localVectors(keywords: Idea[]): Promise<Map<string, number[]>> {
+  const service = new EmbeddingService({ prisma: {} as PrismaClient });
+  expect(service.model).toBe('local-hash-256');
+  return service.embed('user-1', keywords.map(idea => idea.keyword));
+}
+
+function summary(result: SemanticResult<Idea>) {
+  return result.rows.map(row => [row.keyword, row.variants ?? [], row.semanticGroup]);
+}
+
+describe('dedupeKeywords with local embeddings', () => {
+  it('merges near-duplicates into the seed or highest volume variant and groups related keywords', async () => {
+    const result = dedupeKeywords(ideas, await localVectors(ideas));
+
+    expect(summary(result)).toEqual([
+      ['standing desk', ['standing desks', 'desk standing'], 'standing desk'],
+      // Equal volumes fall back to alphabetical order
+      ['office chair', ['office chairs'], 'office chair'],
+      ['ergonomic office chair', ['office chair ergonomic', 'ergonomic office chairs'], 'office chair'],
+      ['best standing desk', [], 'standing desk'],
+      ['adjustable standing desk', [], 'standing desk'],
+      ['standing desk converter', [], 'standing desk'],
+      ['desk converter', [], 'desk converter'],
+      ['standing desk for home', [], 'standing desk for home']
+    ]);
+    // "Standing Desk " is the seed written differently, so it merges without being listed as a variant
+    expect(result.merged).toBe(6);
+    expect(result.groups).toBe(4);
+  });
+
+  it('never merges seed keywords away', async () => {
+    const seeds = ideas.map(idea => idea.keyword === 'standing desks' ? { ...idea, isSeedKeyword: true } : idea);
+    const result = dedupeKeywords(seeds, await localVectors(seeds));
+
+    expect(summary(result).slice(0, 2)).toEqual([
+      ['standing desk', ['desk standing'], 'standing desk'],
+      ['standing desks', [], 'standing desk']
+    ]);
+    expect(result.merged).toBe(5);
+  });
+
+  it('follows the configured thresholds', async () => {
+    const vectors = await localVectors(ideas);
+
+    // Only identical words merge, and nothing is close enough to group
+    const strict = dedupeKeywords(ideas, vectors, { duplicateThreshold: 1.01, groupThreshold: 0.95 });
+    expect(strict.merged).toBe(6);
+    expect(strict.groups).toBe(strict.rows.length);
+
+    // At 0.8, "best standing desk" (0.82 from the seed) and "desk converter" (0.83 from
+    // "standing desk converter") count as duplicates; variants are listed by volume
+    const loose = dedupeKeywords(ideas, vectors, { duplicateThreshold: 0.8 });
+    expect(summary(loose).find(([keyword]) => keyword === 'standing desk')).toEqual([
+      'standing desk',
+      ['standing desks', 'best standing desk', 'desk standing'],
+      'standing desk'
+    ]);
+    expect(summary(loose).find(([keyword]) => keyword === 'standing desk converter')?.[1]).toEqual(['desk converter']);
+  });
+
+  it('merges keywords without a vector on identical words only, each in its own group', () => {
+    const result = dedupeKeywords(ideas.slice(0, 5), new Map());
+
+    expect(summary(result)).toEqual([
+      ['standing desk', ['standing desks', 'desk standing'], 'standing desk'],
+      ['best standing desk', [], 'best standing desk']
+    ]);
+    expect(result.merged).toBe(3);
+    expect(result.groups).toBe(2);
+  });
+});
@@ -0,0 +1,248 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Icons } from '@/components/ui/icons'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  CtrCurveEntry,
+  CtrDevice,
+  CTR_DEVICE_LABELS,
+  SERP_LAYOUT_LABELS,
+  formatCtr,
+  curveToCsv
+} from '@/lib/ctr-curves'
+import { cn } from '@/lib/utils'
+
+// Positions shown in the table; the editor lists the whole curve
+const PREVIEW_POSITIONS = 5
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+}
+
+export default function CtrCurvesPage() {
+  const { data: session } = useSession()
+  const [curves, setCurves] = useState<CtrCurveEntry[]>([])
+  const [device, setDevice] = useState<CtrDevice>('desktop')
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState<CtrCurveEntry | null>(null)
+  const [csv, setCsv] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const authHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.user?.accessToken}`
+  }), [session])
+
+  const fetchCurves = useCallback(async () => {
+    try {
+      const response = await fetch('/api/ctr-curves', { headers: authHeaders() })
+      if (response.ok) {
+        const data = await response.json()
+        setCurves(data.curves)
+      }
+    } catch (error) {
+      console.error('Failed to load CTR curves:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [authHeaders])
+
+  useEffect(() => {
+    if (session?.user?.accessToken) {
+      fetchCurves()
+    }
+  }, [session, fetchCurves])
+
+  const startEditing = (curve: CtrCurveEntry) => {
+    setEditing(curve)
+    setCsv(curveToCsv(curve))
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editing) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/ctr-curves/${editing.device}/${editing.layout}`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify({ csv })
+      })
+
+      if (!response.ok) {
+        const { error } = await response.json()
+        window.alert(error || 'Failed to save the curve')
+        return
+      }
+
+      setEditing(null)
+      await fetchCurves()
+    } catch (error) {
+      console.error('Save CTR curve error:', error)
+      window.alert('Failed to save the curve')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = async (curve: CtrCurveEntry) => {
+    const label = `${CTR_DEVICE_LABELS[curve.device]} / ${SERP_LAYOUT_LABELS[curve.layout]}`
+    if (!window.confirm(`Remove the custom curve for ${label}? The built-in curve applies again.`)) return
+
+    const response = await fetch(`/api/ctr-curves/${curve.device}/${curve.layout}`, {
+      method: 'DELETE',
+      headers: authHeaders()
+    })
+
+    if (!response.ok) {
+      window.alert('Failed to remove the curve')
+      return
+    }
+
+    if (editing?.device === curve.device && editing.layout === curve.layout) {
+      setEditing(null)
+    }
+    await fetchCurves()
+  }
+
+  const deviceCurves = curves.filter(curve => curve.device === device)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">CTR Curves</h1>
+          <p className="text-muted-foreground mt-1">
+            Click-through rate by position, used for every traffic estimate. Each device has a curve per SERP layout.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(Object.keys(CTR_DEVICE_LABELS) as CtrDevice[]).map((option) => (
+            <Button
+              key={option}
+              variant={device === option ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setDevice(option)}
+            >
+              {CTR_DEVICE_LABELS[option]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {editing && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              Replace {CTR_DEVICE_LABELS[editing.device]} / {SERP_LAYOUT_LABELS[editing.layout]}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">
+                  Curve CSV{' '}
+                  <span className="font-normal text-muted-foreground">
+                    (one &quot;position,ctr&quot; row per line, up to 20 positions; CTRs above 1 are read as percentages; a &quot;tail&quot; row sets the CTR past the last position)
+                  </span>
+                </label>
+                <textarea
+                  rows={12}
+                  value={csv}
+                  onChange={(e) => setCsv(e.target.value)}
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm font-mono"
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving ? <Icons.spinner className="mr-2 h-4 w-4 animate-spin" /> : <Icons.save className="mr-2 h-4 w-4" />}
+                  Save Curve
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Icons.spinner className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Layout</TableHead>
+                  {Array.from({ length: PREVIEW_POSITIONS }, (_, index) => (
+                    <TableHead key={index} className="text-right">#{index + 1}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Tail</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deviceCurves.map((curve) => (
+                  <TableRow
+                    key={curve.layout}
+                    className={cn(editing?.device === curve.device && editing.layout === curve.layout && 'bg-accent')}
+                  >
+                    <TableCell className="font-medium">{SERP_LAYOUT_LABELS[curve.layout]}</TableCell>
+                    {Array.from({ length: PREVIEW_POSITIONS }, (_, index) => (
+                      <TableCell key={index} className="text-right">
+                        {index < curve.positions.length ? formatCtr(curve.positions[index]) : '–'}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right text-muted-foreground">{formatCtr(curve.tail)}</TableCell>
+                    <TableCell>
+                      {curve.custom ? (
+                        <div className="space-y-1">
+                          <Badge variant="success">Custom</Badge>
+                          {curve.updatedAt && (
+                            <div className="text-xs text-muted-foreground">{formatDate(curve.updatedAt)}</div>
+                          )}
+                        </div>
+                      ) : (
+                        <Badge variant="secondary">Built-in</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => startEditing(curve)}>
+                          Replace
+                        </Button>
+                        {curve.custom && (
+                          <Button variant="outline" size="sm" onClick={() => handleReset(curve)}>
+                            <Icons.restore className="mr-1 h-3 w-3" />
+                            Reset
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,411 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Icons } from '@/components/ui/icons'
+import { SectionEditor } from '@/components/briefs/section-editor'
+import { VersionHistory } from '@/components/briefs/version-history'
+import { BriefDiffView } from '@/components/briefs/brief-diff'
+import { ExportPanel } from '@/components/briefs/export-panel'
+import { startResearchQuery } from '@/lib/research'
+import {
+  BriefSection,
+  BriefSectionType,
+  BriefVersion,
+  BriefDiff,
+  SECTION_TYPE_LABELS,
+  createSection,
+  waitForBriefJob
+} from '@/lib/briefs'
+
+interface Brief {
+  id: string
+  projectId: string
+  title: string
+  sections: BriefSection[]
+  version: number
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+interface BriefDetail {
+  brief: Brief
+  project: { id: string; name: string }
+  sourceDataset: { id: string; name: string; kind: string; queryId?: string | null } | null
+  canEdit: boolean
+}
+
+const sectionLabel = (section: BriefSection) =>
+  section.type === 'heading' ? section.content.text || 'Heading' : section.title || SECTION_TYPE_LABELS[section.type]
+
+const sortSections = (sections: BriefSection[]) =>
+  [...sections].sort((a, b) => a.order - b.order)
+
+export default function BriefEditorPage() {
+  const { data: session } = useSession()
+  const { briefId } = useParams<{ briefId: string }>()
+  const [detail, setDetail] = useState<BriefDetail | null>(null)
+  const [versions, setVersions] = useState<BriefVersion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [notFound, setNotFound] = useState(false)
+  const [title, setTitle] = useState('')
+  const [sections, setSections] = useState<BriefSection[]>([])
+  const [changes, setChanges] = useState<string[]>([])
+  // Bumped whenever the draft is replaced from the server so uncontrolled fields remount
+  const [draftKey, setDraftKey] = useState(0)
+  const [saving, setSaving] = useState(false)
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null)
+  const [diff, setDiff] = useState<BriefDiff | null>(null)
+  const [newSectionType, setNewSectionType] = useState<BriefSectionType>('paragraph')
+
+  const dirty = changes.length > 0
+
+  const authHeaders = useCallback(() => ({
+    'Authorization': `Bearer ${session?.user?.accessToken}`
+  }), [session])
+
+  const loadBrief = useCallback(async () => {
+    try {
+      const [briefResponse, versionsResponse] = await Promise.all([
+        fetch(`/api/briefs/${briefId}`, { headers: authHeaders() }),
+        fetch(`/api/briefs/${briefId}/versions`, { headers: authHeaders() })
+      ])
+
+      if (!briefResponse.ok) {
+        setNotFound(true)
+        return
+      }
+
+      const data: BriefDetail = await briefResponse.json()
+      setDetail(data)
+      setTitle(data.brief.title)
+      setSections(sortSections(data.brief.sections))
+      setChanges([])
+      setDraftKey(key => key + 1)
+
+      if (versionsResponse.ok) {
+        setVersions((await versionsResponse.json()).versions)
+      }
+    } catch (error) {
+      console.error('Brief fetch error:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [briefId, authHeaders])
+
+  useEffect(() => {
+    if (session?.user?.accessToken) {
+      loadBrief()
+    }
+  }, [session, loadBrief])
+
+  const recordChange = (change: string) => {
+    setChanges(current => current.includes(change) ? current : [...current, change])
+  }
+
+  const renumber = (items: BriefSection[]) => items.map((section, index) => ({ ...section, order: index }))
+
+  const updateSection = (index: number, section: BriefSection) => {
+    // Blurring an untouched field reports the same content back
+    if (JSON.stringify(sections[index]) === JSON.stringify(section)) return
+
+    setSections(current => current.map((item, i) => i === index ? section : item))
+    recordChange(`Edited "${sectionLabel(section)}"`)
+  }
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    setSections(current => {
+      const next = [...current]
+      const [moved] = next.splice(index, 1)
+      next.splice(index + direction, 0, moved)
+      return renumber(next)
+    })
+    recordChange('Reordered sections')
+  }
+
+  const removeSection = (index: number) => {
+    const section = sections[index]
+    if (!window.confirm(`Remove "${sectionLabel(section)}"?`)) return
+
+    setSections(current => renumber(current.filter((_, i) => i !== index)))
+    recordChange(`Removed "${sectionLabel(section)}"`)
+  }
+
+  const addSection = () => {
+    setSections(current => [...current, createSection(newSectionType, current.length)])
+    recordChange(`Added ${SECTION_TYPE_LABELS[newSectionType].toLowerCase()} section`)
+  }
+
+  const discardChanges = () => {
+    if (!detail) return
+    setTitle(detail.brief.title)
+    setSections(sortSections(detail.brief.sections))
+    setChanges([])
+    setDraftKey(key => key + 1)
+  }
+
+  // Someone else saved first; the user can reload (dropping their draft) or keep editing
+  const handleConflict = async (response: Response) => {
+    const { currentVersion } = await response.json()
+    if (window.confirm(`This brief was changed by someone else and is now at version ${currentVersion}. Reload it? Unsaved changes will be lost.`)) {
+      await loadBrief()
+    }
+  }
+
+  const saveBrief = async () => {
+    if (!detail) return
+
+    setSaving(true)
+
+    try {
+      const titleChanged = title.trim() !== detail.brief.title
+      const change = [...(titleChanged ? ['Renamed brief'] : []), ...changes].join('; ').slice(0, 200)
+
+      const response = await fetch(`/api/briefs/${briefId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders()
+        },
+        body: JSON.stringify({
+          baseVersion: detail.brief.version,
+          ...(titleChanged && { title: title.trim() }),
+          sections,
+          change
+        })
+      })
+
+      if (response.status === 409) {
+        await handleConflict(response)
+        return
+      }
+
+      if (!response.ok) {
+        const { error, message } = await response.json()
+        window.alert(message || error || 'Failed to save brief')
+        return
+      }
+
+      setDiff(null)
+      await loadBrief()
+
+    } catch (error) {
+      console.error('Save brief error:', error)
+      window.alert('Failed to save brief')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const regenerateSection = async (section: BriefSection) => {
+    if (!session?.user?.accessToken) return
+
+    const instructions = window.prompt(`Regenerate "${sectionLabel(section)}" with AI.\n\nOptional instructions (e.g. "focus on beginners"):`, '')
+    if (instructions === null) return
+
+    setRegeneratingId(section.id)
+
+    try {
+      const queryId = await startResearchQuery(
+        `/api/briefs/${briefId}/sections/${section.id}/regenerate`,
+        { ...(instructions.trim() && { instructions: instructions.trim() }) },
+        session.user.accessToken
+      )
+      if (!queryId) return
+
+      await waitForBriefJob(queryId, session.user.accessToken)
+      setDiff(null)
+      await loadBrief()
+
+    } catch (error) {
+      console.error('Regenerate section error:', error)
+      window.alert(error instanceof Error ? error.message : 'Failed to regenerate section')
+    } finally {
+      setRegeneratingId(null)
+    }
+  }
+
+  const compareWith = async (version: number) => {
+    if (!detail) return
+
+    try {
+      const response = await fetch(`/api/briefs/${briefId}/diff?from=${version}&to=${detail.brief.version}`, {
+        headers: authHeaders()
+      })
+
+      if (response.ok) {
+        setDiff((await response.json()).diff)
+      }
+    } catch (error) {
+      console.error('Brief diff error:', error)
+    }
+  }
+
+  const restoreVersion = async (version: number) => {
+    if (!detail) return
+    if (!window.confirm(`Restore version ${version}? It will be saved as a new version${dirty ? ' and your unsaved changes will be lost' : ''}.`)) return
+
+    try {
+      const response = await fetch(`/api/briefs/${briefId}/versions/${version}/restore`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders()
+        },
+        body: JSON.stringify({ baseVersion: detail.brief.version })
+      })
+
+      if (response.status === 409) {
+        await handleConflict(response)
+        return
+      }
+
+      if (!response.ok) {
+        const { error, message } = await response.json()
+        window.alert(message || error || 'Failed to restore version')
+        return
+      }
+
+      setDiff(null)
+      await loadBrief()
+
+    } catch (error) {
+      console.error('Restore version error:', error)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Icons.spinner className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading brief...</span>
+      </div>
+    )
+  }
+
+  if (notFound || !detail) {
+    return (
+      <Card>
+        <CardContent className="py-12">
+          <div className="text-center">
+            <Icons.alertCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">Brief not found</h3>
+            <p className="text-muted-foreground">
+              It may have been deleted, or you may not have access to its project
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { brief, project, sourceDataset, canEdit } = detail
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex-1 space-y-2">
+          <Link
+            href={`/projects/${project.id}`}
+            className="text-sm text-muted-foreground hover:underline flex items-center gap-1"
+          >
+            <Icons.folder className="h-3 w-3" />
+            {project.name}
+          </Link>
+          {canEdit ? (
+            <Input
+              value={title}
+              maxLength={200}
+              onChange={(e) => setTitle(e.target.value)}
+              className="text-2xl font-bold h-12"
+            />
+          ) : (
+            <h1 className="text-3xl font-bold">{brief.title}</h1>
+          )}
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Badge variant="secondary">v{brief.version}</Badge>
+            {sourceDataset && <span>From {sourceDataset.name}</span>}
+            {dirty && <Badge variant="warning">Unsaved changes</Badge>}
+          </div>
+        </div>
+        {canEdit && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={discardChanges} disabled={!dirty && title === brief.title}>
+              Discard
+            </Button>
+            <Button onClick={saveBrief} disabled={saving || (!dirty && title.trim() === brief.title) || !title.trim()}>
+              {saving
+                ? <Icons.spinner className="mr-2 h-4 w-4 animate-spin" />
+                : <Icons.save className="mr-2 h-4 w-4" />}
+              Save Version
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Sections */}
+        <div className="lg:col-span-3 space-y-4">
+          {diff && <BriefDiffView diff={diff} onClose={() => setDiff(null)} />}
+
+          {sections.map((section, index) => (
+            <SectionEditor
+              key={`${section.id}:${draftKey}`}
+              section={section}
+              isFirst={index === 0}
+              isLast={index === sections.length - 1}
+              editable={canEdit}
+              regenerating={regeneratingId === section.id}
+              canRegenerate={!dirty && title === brief.title && regeneratingId === null}
+              onChange={(updated) => updateSection(index, updated)}
+              onMove={(direction) => moveSection(index, direction)}
+              onRemove={() => removeSection(index)}
+              onRegenerate={() => regenerateSection(section)}
+            />
+          ))}
+
+          {canEdit && (
+            <div className="flex items-center gap-2">
+              <select
+                value={newSectionType}
+                onChange={(e) => setNewSectionType(e.target.value as BriefSectionType)}
+                className="px-3 py-2 border border-input rounded-md bg-background text-sm"
+              >
+                {Object.entries(SECTION_TYPE_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+              <Button variant="outline" onClick={addSection}>
+                <Icons.plus className="mr-2 h-4 w-4" />
+                Add Section
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Exports and history */}
+        <div className="space-y-6">
+          {session?.user?.accessToken && (
+            <ExportPanel briefId={brief.id} accessToken={session.user.accessToken} />
+          )}
+          <VersionHistory
+            versions={versions}
+            currentVersion={brief.version}
+            comparingVersion={diff?.fromVersion ?? null}
+            canRestore={canEdit}
+            onCompare={compareWith}
+            onRestore={restoreVersion}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,283 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Icons } from '@/components/ui/icons'
+import { startResearchQuery } from '@/lib/research'
+import { waitForBriefJob } from '@/lib/briefs'
+
+interface SourceKeyword {
+  keyword: string
+  searchVolume: number
+}
+
+interface BriefSource {
+  dataset: {
+    id: string
+    projectId: string
+    name: string
+    kind: 'KEYWORDS' | 'SERP'
+  }
+  keywords: SourceKeyword[]
+}
+
+// Keywords offered for the cluster; the API accepts up to 100
+const MAX_CLUSTER_KEYWORDS = 100
+
+export default function NewBriefPage() {
+  const { data: session } = useSession()
+  const router = useRouter()
+  const datasetId = useSearchParams().get('datasetId')
+  const [source, setSource] = useState<BriefSource | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState('')
+  const [keyword, setKeyword] = useState('')
+  const [cluster, setCluster] = useState<string[]>([])
+  const [title, setTitle] = useState('')
+  const [contentType, setContentType] = useState<'blog' | 'landing' | 'product' | 'guide'>('blog')
+  const [wordCount, setWordCount] = useState(1500)
+  const [targetAudience, setTargetAudience] = useState('')
+  const [generating, setGenerating] = useState(false)
+  const [generateError, setGenerateError] = useState('')
+
+  useEffect(() => {
+    const fetchSource = async () => {
+      try {
+        const response = await fetch(`/api/briefs/sources/${datasetId}`, {
+          headers: {
+            'Authorization': `Bearer ${session?.user?.accessToken}`
+          }
+        })
+
+        if (!response.ok) {
+          const { error } = await response.json()
+          setLoadError(error || 'Dataset not found')
+          return
+        }
+
+        const data: BriefSource = await response.json()
+        setSource(data)
+        setKeyword(data.keywords[0]?.keyword || '')
+
+      } catch (error) {
+        console.error('Brief source fetch error:', error)
+        setLoadError('Failed to load dataset')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    if (!datasetId) {
+      setLoadError('Choose a keyword or SERP dataset from a project to create a brief')
+      setLoading(false)
+    } else if (session?.user?.accessToken) {
+      fetchSource()
+    }
+  }, [session, datasetId])
+
+  const toggleClusterKeyword = (value: string) => {
+    setCluster(current => current.includes(value)
+      ? current.filter(item => item !== value)
+      : [...current, value])
+  }
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!session?.user?.accessToken || !source || !keyword) return
+
+    setGenerating(true)
+    setGenerateError('')
+
+    try {
+      // The target keyword leads the cluster so the brief is built around it
+      const keywords = cluster.length > 0 ? [keyword, ...cluster.filter(item => item !== keyword)].slice(0, MAX_CLUSTER_KEYWORDS) : undefined
+
+      const queryId = await startResearchQuery('/api/briefs', {
+        datasetId: source.dataset.id,
+        keyword,
+        ...(keywords && { keywords }),
+        ...(title.trim() && { title: title.trim() }),
+        options: {
+          contentType,
+          wordCount,
+          ...(targetAudience.trim() && { targetAudience: targetAudience.trim() })
+        }
+      }, session.user.accessToken)
+
+      if (!queryId) {
+        setGenerating(false)
+        return
+      }
+
+      const briefId = await waitForBriefJob(queryId, session.user.accessToken)
+      router.push(`/briefs/${briefId}`)
+
+    } catch (error) {
+      console.error('Generate brief error:', error)
+      setGenerateError(error instanceof Error ? error.message : 'Failed to generate brief')
+      setGenerating(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Icons.spinner className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading dataset...</span>
+      </div>
+    )
+  }
+
+  if (loadError || !source) {
+    return (
+      <Card>
+        <CardContent className="py-12">
+          <div className="text-center">
+            <Icons.alertCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">Cannot create a brief</h3>
+            <p className="text-muted-foreground">{loadError}</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const clusterOptions = source.keywords.slice(0, MAX_CLUSTER_KEYWORDS)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href={`/projects/${source.dataset.projectId}`}
+          className="text-sm text-muted-foreground hover:underline"
+        >
+          Back to project
+        </Link>
+        <h1 className="text-3xl font-bold mt-1">New Content Brief</h1>
+        <p className="text-muted-foreground mt-1">
+          Generate an editable brief from <span className="font-medium">{source.dataset.name}</span>{' '}
+          <Badge variant="outline">{source.dataset.kind.toLowerCase()}</Badge>
+        </p>
+      </div>
+
+      <form onSubmit={handleGenerate} className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle>Brief Settings</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Target keyword *</label>
+              <select
+                value={keyword}
+                onChange={(e) => setKeyword(e.target.value)}
+                className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+              >
+                {source.keywords.map((item) => (
+                  <option key={item.keyword} value={item.keyword}>{item.keyword}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Title</label>
+              <Input
+                placeholder="Generated from the keyword if left empty"
+                value={title}
+                maxLength={200}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Content type</label>
+              <select
+                value={contentType}
+                onChange={(e) => setContentType(e.target.value as typeof contentType)}
+                className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+              >
+                <option value="blog">Blog post</option>
+                <option value="guide">Guide</option>
+                <option value="landing">Landing page</option>
+                <option value="product">Product page</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Target word count</label>
+              <Input
+                type="number"
+                min={300}
+                max={10000}
+                step={100}
+                value={wordCount}
+                onChange={(e) => setWordCount(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Audience</label>
+              <Input
+                placeholder="e.g. small business owners"
+                value={targetAudience}
+                maxLength={200}
+                onChange={(e) => setTargetAudience(e.target.value)}
+              />
+            </div>
+            {generateError && (
+              <p className="text-xs text-red-500">{generateError}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={generating || !keyword}>
+              {generating
+                ? <Icons.spinner className="mr-2 h-4 w-4 animate-spin" />
+                : <Icons.brain className="mr-2 h-4 w-4" />}
+              {generating ? 'Generating...' : 'Generate Brief'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Keyword Cluster</CardTitle>
+              {cluster.length > 0 && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => setCluster([])}>
+                  Clear ({cluster.length})
+                </Button>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Pick the related keywords this page should cover. Leave empty to use the strongest keywords in the dataset.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-1 max-h-[480px] overflow-y-auto">
+              {clusterOptions.map((item) => (
+                <label
+                  key={item.keyword}
+                  className="flex items-center justify-between gap-2 px-2 py-1 rounded hover:bg-accent text-sm cursor-pointer"
+                >
+                  <span className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={cluster.includes(item.keyword) || item.keyword === keyword}
+                      disabled={item.keyword === keyword}
+                      onChange={() => toggleClusterKeyword(item.keyword)}
+                    />
+                    {item.keyword}
+                  </span>
+                  {item.searchVolume > 0 && (
+                    <span className="text-xs text-muted-foreground">{item.searchVolume.toLocaleString()}</span>
+                  )}
+                </label>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </form>
+    </div>
+  )
+}
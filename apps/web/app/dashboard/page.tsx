@@ -26,8 +26,8 @@ interface DashboardStats {
 
 interface Query {
   id: string
-  type: 'KEYWORD_DISCOVERY' | 'SERP_ANALYSIS' | 'COMPETITOR_RESEARCH'
-  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED'
+  type: 'KEYWORD_DISCOVERY' | 'SERP_SNAPSHOT' | 'COMPETITOR_OVERVIEW' | 'BACKLINK_CHECK' | 'ONPAGE_AUDIT' | 'TREND_ANALYSIS' | 'LOCAL_SEO'
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED'
   progress?: number
   createdAt: string
   completedAt?: string
@@ -36,7 +36,7 @@ interface Query {
     name: string
   }
   tasksCount: number
-  briefsCount: number
+  insightsCount: number
   parameters: any
 }
 
@@ -45,25 +45,56 @@ const QUERY_TYPE_CONFIG = {
     label: 'Keyword Discovery',
     icon: Icons.search,
     color: 'bg-blue-500',
-    description: 'Find high-potential keyword opportunities'
+    description: 'Find high-potential keyword opportunities',
+    route: '/research/keyword-discovery'
   },
-  SERP_ANALYSIS: {
+  SERP_SNAPSHOT: {
     label: 'SERP Analysis',
     icon: Icons.target,
     color: 'bg-green-500',
-    description: 'Analyze search results and competitors'
+    description: 'Analyze search results and competitors',
+    route: '/research/serp-analysis'
   },
-  COMPETITOR_RESEARCH: {
+  COMPETITOR_OVERVIEW: {
     label: 'Competitor Research',
     icon: Icons.users,
     color: 'bg-purple-500',
-    description: 'Identify gaps and opportunities vs competitors'
+    description: 'Identify gaps and opportunities vs competitors',
+    route: '/research/competitor-research'
+  },
+  BACKLINK_CHECK: {
+    label: 'Backlinks',
+    icon: Icons.link,
+    color: 'bg-orange-500',
+    description: 'Review referring domains and anchor text',
+    route: '/research/backlinks'
+  },
+  ONPAGE_AUDIT: {
+    label: 'On-Page Audit',
+    icon: Icons.zap,
+    color: 'bg-teal-500',
+    description: 'Find technical issues on your pages',
+    route: '/research/onpage-audit'
+  },
+  TREND_ANALYSIS: {
+    label: 'Trends & Seasonality',
+    icon: Icons.trending,
+    color: 'bg-pink-500',
+    description: 'Time content to seasonal demand',
+    route: '/research/trend-analysis'
+  },
+  LOCAL_SEO: {
+    label: 'Local SEO',
+    icon: Icons.globe,
+    color: 'bg-red-500',
+    description: 'Track Maps rankings and local pack share',
+    route: '/research/local-seo'
   }
 }
 
 const STATUS_CONFIG = {
   PENDING: { label: 'Pending', variant: 'secondary', icon: Icons.clock },
-  IN_PROGRESS: { label: 'In Progress', variant: 'warning', icon: Icons.refresh },
+  RUNNING: { label: 'In Progress', variant: 'warning', icon: Icons.refresh },
   COMPLETED: { label: 'Completed', variant: 'success', icon: Icons.checkCircle },
   FAILED: { label: 'Failed', variant: 'destructive', icon: Icons.alertCircle }
 }
@@ -227,7 +258,7 @@ export default function DashboardPage() {
             {Object.entries(QUERY_TYPE_CONFIG).map(([type, config]) => {
               const IconComponent = config.icon
               return (
-                <Link key={type} href={`/research/${type.toLowerCase().replace('_', '-')}`}>
+                <Link key={type} href={config.route}>
                   <Card className="cursor-pointer hover:bg-accent transition-colors">
                     <CardContent className="p-4">
                       <div className="flex items-start space-x-3">
@@ -299,14 +330,26 @@ export default function DashboardPage() {
                         {query.type === 'KEYWORD_DISCOVERY' && query.parameters.seedKeywords && (
                           <span>Keywords: {query.parameters.seedKeywords.join(', ')}</span>
                         )}
-                        {query.type === 'SERP_ANALYSIS' && query.parameters.keywords && (
+                        {query.type === 'SERP_SNAPSHOT' && query.parameters.keywords && (
                           <span>Analyzing: {query.parameters.keywords.join(', ')}</span>
                         )}
-                        {query.type === 'COMPETITOR_RESEARCH' && (
+                        {query.type === 'COMPETITOR_OVERVIEW' && (
                           <span>
                             {query.parameters.targetDomain} vs {query.parameters.competitorCount} competitors
                           </span>
                         )}
+                        {query.type === 'BACKLINK_CHECK' && (
+                          <span>Links to {query.parameters.target}</span>
+                        )}
+                        {query.type === 'ONPAGE_AUDIT' && (
+                          <span>Auditing {query.parameters.urlCount} pages</span>
+                        )}
+                        {query.type === 'TREND_ANALYSIS' && query.parameters.keywords && (
+                          <span>Trends: {query.parameters.keywords.join(', ')}</span>
+                        )}
+                        {query.type === 'LOCAL_SEO' && (
+                          <span>{query.parameters.businessName} from {query.parameters.pointCount} locations</span>
+                        )}
                       </div>
 
                       <div className="text-xs text-muted-foreground mt-1">
@@ -317,9 +360,9 @@ export default function DashboardPage() {
 
                     <div className="text-right">
                       <div className="text-sm font-medium">
-                        {query.tasksCount} tasks • {query.briefsCount} insights
+                        {query.tasksCount} tasks • {query.insightsCount} insights
                       </div>
-                      {query.status === 'IN_PROGRESS' && query.progress && (
+                      {query.status === 'RUNNING' && query.progress && (
                         <div className="text-xs text-muted-foreground">
                           {query.progress}% complete
                         </div>
@@ -0,0 +1,633 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Icons } from '@/components/ui/icons'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+
+type ProjectRole = 'OWNER' | 'EDITOR' | 'VIEWER'
+
+interface ProjectDetail {
+  project: {
+    id: string
+    name: string
+    description?: string | null
+    ownerId: string
+    createdAt: string
+    updatedAt: string
+    counts: {
+      queries: number
+      datasets: number
+      briefs: number
+    }
+  }
+  role: ProjectRole
+  members: Member[]
+}
+
+interface Member {
+  userId: string
+  email: string
+  name?: string | null
+  role: ProjectRole
+  createdAt: string
+}
+
+interface ProjectQuery {
+  id: string
+  type: string
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED'
+  progress?: number
+  createdAt: string
+  completedAt?: string
+  tasksCount: number
+  datasetsCount: number
+  parameters: any
+}
+
+interface ProjectDataset {
+  id: string
+  queryId?: string | null
+  name: string
+  kind: string
+  createdAt: string
+}
+
+interface ProjectBrief {
+  id: string
+  title: string
+  version: number
+  updatedAt: string
+  creator?: {
+    name?: string | null
+    email: string
+  }
+}
+
+type Tab = 'research' | 'datasets' | 'briefs' | 'members'
+
+const RESEARCH_TYPES = [
+  { label: 'Keyword Discovery', icon: Icons.search, route: '/research/keyword-discovery', color: 'bg-blue-500' },
+  { label: 'SERP Analysis', icon: Icons.target, route: '/research/serp-analysis', color: 'bg-green-500' },
+  { label: 'Competitor Research', icon: Icons.users, route: '/research/competitor-research', color: 'bg-purple-500' },
+  { label: 'Backlinks', icon: Icons.link, route: '/research/backlinks', color: 'bg-orange-500' },
+  { label: 'On-Page Audit', icon: Icons.zap, route: '/research/onpage-audit', color: 'bg-teal-500' },
+  { label: 'Trends & Seasonality', icon: Icons.trending, route: '/research/trend-analysis', color: 'bg-pink-500' },
+  { label: 'Local SEO', icon: Icons.globe, route: '/research/local-seo', color: 'bg-red-500' },
+]
+
+const QUERY_TYPE_LABELS: { [type: string]: string } = {
+  KEYWORD_DISCOVERY: 'Keyword Discovery',
+  SERP_SNAPSHOT: 'SERP Analysis',
+  COMPETITOR_OVERVIEW: 'Competitor Research',
+  BACKLINK_CHECK: 'Backlinks',
+  ONPAGE_AUDIT: 'On-Page Audit',
+  TREND_ANALYSIS: 'Trends & Seasonality',
+  LOCAL_SEO: 'Local SEO',
+  CONTENT_BRIEF: 'Content Brief',
+}
+
+// Dataset kinds a content brief can be generated from
+const BRIEF_SOURCE_KINDS = ['KEYWORDS', 'SERP']
+
+const STATUS_CONFIG = {
+  PENDING: { label: 'Pending', variant: 'secondary' },
+  RUNNING: { label: 'In Progress', variant: 'warning' },
+  COMPLETED: { label: 'Completed', variant: 'success' },
+  FAILED: { label: 'Failed', variant: 'destructive' }
+}
+
+const ROLE_CONFIG = {
+  OWNER: { label: 'Owner', variant: 'default' },
+  EDITOR: { label: 'Editor', variant: 'secondary' },
+  VIEWER: { label: 'Viewer', variant: 'outline' }
+}
+
+export default function ProjectPage({ params }: { params: { projectId: string } }) {
+  const { projectId } = params
+  const { data: session } = useSession()
+  const router = useRouter()
+  const [detail, setDetail] = useState<ProjectDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [notFound, setNotFound] = useState(false)
+  const [activeTab, setActiveTab] = useState<Tab>('research')
+  const [queries, setQueries] = useState<ProjectQuery[]>([])
+  const [datasets, setDatasets] = useState<ProjectDataset[]>([])
+  const [briefs, setBriefs] = useState<ProjectBrief[]>([])
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<ProjectRole>('VIEWER')
+  const [memberError, setMemberError] = useState('')
+
+  const authHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.user?.accessToken}`
+  }), [session])
+
+  const fetchProject = useCallback(async () => {
+    const response = await fetch(`/api/projects/${projectId}`, { headers: authHeaders() })
+    if (response.status === 404) {
+      setNotFound(true)
+      return
+    }
+
+    if (response.ok) {
+      setDetail(await response.json())
+    }
+  }, [projectId, authHeaders])
+
+  useEffect(() => {
+    const fetchAll = async () => {
+      try {
+        await fetchProject()
+
+        const [queriesResponse, datasetsResponse, briefsResponse] = await Promise.all([
+          fetch(`/api/projects/${projectId}/queries?limit=50`, { headers: authHeaders() }),
+          fetch(`/api/projects/${projectId}/datasets?limit=50`, { headers: authHeaders() }),
+          fetch(`/api/projects/${projectId}/briefs?limit=50`, { headers: authHeaders() })
+        ])
+
+        if (queriesResponse.ok) {
+          setQueries((await queriesResponse.json()).queries)
+        }
+        if (datasetsResponse.ok) {
+          setDatasets((await datasetsResponse.json()).datasets)
+        }
+        if (briefsResponse.ok) {
+          setBriefs((await briefsResponse.json()).briefs)
+        }
+
+      } catch (error) {
+        console.error('Project fetch error:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    if (session?.user?.accessToken) {
+      fetchAll()
+    }
+  }, [session, projectId, fetchProject, authHeaders])
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!inviteEmail.trim()) return
+
+    setMemberError('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ email: inviteEmail.trim(), role: inviteRole })
+      })
+
+      if (!response.ok) {
+        const { error, message } = await response.json()
+        setMemberError(message || error || 'Failed to invite member')
+        return
+      }
+
+      setInviteEmail('')
+      await fetchProject()
+
+    } catch (error) {
+      console.error('Invite member error:', error)
+      setMemberError('Failed to invite member')
+    }
+  }
+
+  const handleRoleChange = async (memberId: string, role: ProjectRole) => {
+    setMemberError('')
+
+    const response = await fetch(`/api/projects/${projectId}/members/${memberId}`, {
+      method: 'PATCH',
+      headers: authHeaders(),
+      body: JSON.stringify({ role })
+    })
+
+    if (!response.ok) {
+      const { error, message } = await response.json()
+      setMemberError(message || error || 'Failed to change role')
+      return
+    }
+
+    await fetchProject()
+  }
+
+  const handleRemoveMember = async (member: Member) => {
+    const isSelf = member.email === session?.user?.email
+    const confirmed = window.confirm(
+      isSelf ? 'Leave this project?' : `Remove ${member.name || member.email} from this project?`
+    )
+    if (!confirmed) return
+
+    setMemberError('')
+
+    const response = await fetch(`/api/projects/${projectId}/members/${member.userId}`, {
+      method: 'DELETE',
+      headers: authHeaders()
+    })
+
+    if (!response.ok) {
+      const { error, message } = await response.json()
+      setMemberError(message || error || 'Failed to remove member')
+      return
+    }
+
+    if (isSelf) {
+      router.push('/projects')
+      return
+    }
+
+    await fetchProject()
+  }
+
+  const handleDeleteProject = async () => {
+    const confirmed = window.confirm(
+      `Delete "${detail?.project.name}"? All of its research, datasets and briefs will be deleted too.`
+    )
+    if (!confirmed) return
+
+    const response = await fetch(`/api/projects/${projectId}`, {
+      method: 'DELETE',
+      headers: authHeaders()
+    })
+
+    if (response.ok) {
+      router.push('/projects')
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  const getQuerySummary = (query: ProjectQuery) => {
+    const params = query.parameters || {}
+    switch (query.type) {
+      case 'KEYWORD_DISCOVERY':
+        return (params.seedKeywords || []).join(', ')
+      case 'SERP_SNAPSHOT':
+        return (params.keywords || []).join(', ')
+      case 'COMPETITOR_OVERVIEW':
+        return `${params.targetDomain} vs ${params.competitorDomains?.length || 0} competitors`
+      case 'BACKLINK_CHECK':
+        return params.target
+      case 'ONPAGE_AUDIT':
+        return `${params.urls?.length || 0} pages`
+      case 'TREND_ANALYSIS':
+        return (params.keywords || []).join(', ')
+      case 'LOCAL_SEO':
+        return `${params.businessName}: ${(params.keywords || []).join(', ')}`
+      default:
+        return ''
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Icons.spinner className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading project...</span>
+      </div>
+    )
+  }
+
+  if (notFound || !detail) {
+    return (
+      <Card>
+        <CardContent className="py-12">
+          <div className="text-center">
+            <Icons.folder className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">Project not found</h3>
+            <p className="text-muted-foreground mb-4">
+              It may have been deleted, or you are not a member
+            </p>
+            <Link href="/projects">
+              <Button variant="outline">Back to Projects</Button>
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { project, role, members } = detail
+  const isOwner = role === 'OWNER'
+  const canRunResearch = role !== 'VIEWER'
+
+  const tabs: Array<{ id: Tab; label: string; count: number }> = [
+    { id: 'research', label: 'Research', count: queries.length },
+    { id: 'datasets', label: 'Datasets', count: datasets.length },
+    { id: 'briefs', label: 'Briefs', count: briefs.length },
+    { id: 'members', label: 'Members', count: members.length },
+  ]
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="flex items-center gap-2">
+            <h1 className="text-3xl font-bold">{project.name}</h1>
+            <Badge variant={ROLE_CONFIG[role].variant as any}>{ROLE_CONFIG[role].label}</Badge>
+          </div>
+          {project.description && (
+            <p className="text-muted-foreground mt-1">{project.description}</p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Link href={`/projects/${project.id}/rankings` as any}>
+            <Button variant="outline">
+              <Icons.trending className="mr-2 h-4 w-4" />
+              Rankings
+            </Button>
+          </Link>
+          <Link href="/projects">
+            <Button variant="outline">
+              <Icons.arrowRight className="mr-2 h-4 w-4 rotate-180" />
+              All Projects
+            </Button>
+          </Link>
+          {isOwner && (
+            <Button variant="outline" onClick={handleDeleteProject}>
+              <Icons.trash className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Start Research */}
+      {canRunResearch && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Start Research in this Project</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {RESEARCH_TYPES.map((type) => {
+                const IconComponent = type.icon
+                return (
+                  <Link key={type.route} href={`${type.route}?projectId=${project.id}` as any}>
+                    <div className="p-3 border rounded-lg hover:bg-accent cursor-pointer transition-colors flex items-center gap-2">
+                      <div className={cn("p-1.5 rounded-md", type.color)}>
+                        <IconComponent className="h-3 w-3 text-white" />
+                      </div>
+                      <span className="text-sm font-medium">{type.label}</span>
+                    </div>
+                  </Link>
+                )
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Tabs */}
+      <div className="flex gap-2 border-b">
+        {tabs.map((tab) => (
+          <button
+            key={tab.id}
+            type="button"
+            onClick={() => setActiveTab(tab.id)}
+            className={cn(
+              "px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors",
+              activeTab === tab.id
+                ? "border-primary text-primary"
+                : "border-transparent text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {tab.label} ({tab.count})
+          </button>
+        ))}
+      </div>
+
+      {/* Research */}
+      {activeTab === 'research' && (
+        <Card>
+          <CardContent className="p-0">
+            {queries.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No research has been run in this project yet
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Summary</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Datasets</TableHead>
+                    <TableHead>Started</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {queries.map((query) => {
+                    const statusConfig = STATUS_CONFIG[query.status] || STATUS_CONFIG.PENDING
+                    return (
+                      <TableRow key={query.id}>
+                        <TableCell className="font-medium">{QUERY_TYPE_LABELS[query.type] || query.type}</TableCell>
+                        <TableCell className="max-w-xs truncate">{getQuerySummary(query)}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusConfig.variant as any}>
+                            {statusConfig.label}
+                            {query.status === 'RUNNING' && query.progress ? ` ${query.progress}%` : ''}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{query.datasetsCount}</TableCell>
+                        <TableCell>{formatDate(query.createdAt)}</TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Datasets */}
+      {activeTab === 'datasets' && (
+        <Card>
+          <CardContent className="p-0">
+            {datasets.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Datasets appear here once research in this project completes
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Kind</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {datasets.map((dataset) => (
+                    <TableRow key={dataset.id}>
+                      <TableCell className="font-medium">{dataset.name}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{dataset.kind.replace(/_/g, ' ').toLowerCase()}</Badge>
+                      </TableCell>
+                      <TableCell>{formatDate(dataset.createdAt)}</TableCell>
+                      <TableCell className="text-right">
+                        {canRunResearch && BRIEF_SOURCE_KINDS.includes(dataset.kind) && (
+                          <Link href={`/briefs/new?datasetId=${dataset.id}` as any}>
+                            <Button variant="outline" size="sm">
+                              <Icons.fileText className="mr-1 h-3 w-3" />
+                              Create Brief
+                            </Button>
+                          </Link>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Briefs */}
+      {activeTab === 'briefs' && (
+        <Card>
+          <CardContent className="p-0">
+            {briefs.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No content briefs in this project yet. Create one from a keyword or SERP dataset.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Author</TableHead>
+                    <TableHead>Updated</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {briefs.map((brief) => (
+                    <TableRow key={brief.id}>
+                      <TableCell className="font-medium">
+                        <Link href={`/briefs/${brief.id}`} className="hover:underline">
+                          {brief.title}
+                        </Link>
+                      </TableCell>
+                      <TableCell>v{brief.version}</TableCell>
+                      <TableCell>{brief.creator?.name || brief.creator?.email || '—'}</TableCell>
+                      <TableCell>{formatDate(brief.updatedAt)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Members */}
+      {activeTab === 'members' && (
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            {isOwner && (
+              <form onSubmit={handleInvite} className="flex gap-2">
+                <Input
+                  type="email"
+                  placeholder="teammate@company.com"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  className="flex-1"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as ProjectRole)}
+                  className="px-3 py-2 border border-input rounded-md bg-background text-sm"
+                >
+                  <option value="VIEWER">Viewer</option>
+                  <option value="EDITOR">Editor</option>
+                </select>
+                <Button type="submit" disabled={!inviteEmail.trim()}>
+                  <Icons.plus className="mr-2 h-4 w-4" />
+                  Invite
+                </Button>
+              </form>
+            )}
+
+            {memberError && (
+              <p className="text-xs text-red-500">{memberError}</p>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => {
+                  const isProjectOwner = member.userId === project.ownerId
+                  const isSelf = member.email === session?.user?.email
+
+                  return (
+                    <TableRow key={member.userId}>
+                      <TableCell>
+                        <div className="font-medium">{member.name || member.email}</div>
+                        {member.name && (
+                          <div className="text-xs text-muted-foreground">{member.email}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {isOwner && !isProjectOwner ? (
+                          <select
+                            value={member.role}
+                            onChange={(e) => handleRoleChange(member.userId, e.target.value as ProjectRole)}
+                            className="px-2 py-1 border border-input rounded-md bg-background text-sm"
+                          >
+                            <option value="VIEWER">Viewer</option>
+                            <option value="EDITOR">Editor</option>
+                          </select>
+                        ) : (
+                          <Badge variant={ROLE_CONFIG[member.role].variant as any}>
+                            {ROLE_CONFIG[member.role].label}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatDate(member.createdAt)}</TableCell>
+                      <TableCell className="text-right">
+                        {!isProjectOwner && (isOwner || isSelf) && (
+                          <Button variant="ghost" size="sm" onClick={() => handleRemoveMember(member)}>
+                            {isSelf ? 'Leave' : <Icons.trash className="h-4 w-4" />}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
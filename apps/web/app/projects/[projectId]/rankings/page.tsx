@@ -0,0 +1,610 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Icons } from '@/components/ui/icons'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { LineChart } from '@/components/results/line-chart'
+import { RankTrackerForm, RankTrackerData } from '@/components/rankings/rank-tracker-form'
+import { AlertRules } from '@/components/rankings/alert-rules'
+import { startResearchQuery } from '@/lib/research'
+import { RankTracker, RankTrackerDetail, RankChange, KeywordRankHistory, RankCheckFrequency } from '@/lib/rank-tracking'
+import { cn } from '@/lib/utils'
+
+const COMPARE_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+]
+
+// How often the page refreshes while a check is running
+const CHECK_POLL_INTERVAL = 10000
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+const formatNumber = (num: number) => {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`
+  return num.toString()
+}
+
+function PositionChange({ change }: { change: number | null }) {
+  if (change === null || change === 0) {
+    return <span className="text-muted-foreground">–</span>
+  }
+
+  return (
+    <span className={cn("inline-flex items-center gap-0.5 font-medium", change > 0 ? "text-green-600" : "text-red-600")}>
+      {change > 0 ? <Icons.arrowUp className="h-3 w-3" /> : <Icons.arrowDown className="h-3 w-3" />}
+      {Math.abs(change)}
+    </span>
+  )
+}
+
+function MoversList({ title, movers }: { title: string; movers: RankChange[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {movers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes</p>
+        ) : (
+          <div className="space-y-2">
+            {movers.map((mover) => (
+              <div key={mover.trackedKeywordId} className="flex items-center justify-between text-sm">
+                <span className="truncate">{mover.keyword}</span>
+                <span className="flex items-center gap-3 shrink-0">
+                  <span className="text-muted-foreground">
+                    {mover.previousPosition ?? '>100'} → {mover.position ?? '>100'}
+                  </span>
+                  <PositionChange change={mover.change} />
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function RankingsPage({ params }: { params: { projectId: string } }) {
+  const { projectId } = params
+  const { data: session } = useSession()
+  const searchParams = useSearchParams()
+  const [projectName, setProjectName] = useState('')
+  const [trackers, setTrackers] = useState<RankTracker[]>([])
+  // Alert links open a specific tracker
+  const [selectedId, setSelectedId] = useState<string | null>(searchParams.get('tracker'))
+  const [detail, setDetail] = useState<RankTrackerDetail | null>(null)
+  const [compareDays, setCompareDays] = useState(7)
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [keywordInput, setKeywordInput] = useState('')
+  const [history, setHistory] = useState<KeywordRankHistory | null>(null)
+
+  const authHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.user?.accessToken}`
+  }), [session])
+
+  const fetchTrackers = useCallback(async () => {
+    const response = await fetch(`/api/projects/${projectId}/rank-trackers`, { headers: authHeaders() })
+    if (response.ok) {
+      const data = await response.json()
+      setTrackers(data.trackers)
+      setSelectedId(current => current && data.trackers.some((tracker: RankTracker) => tracker.id === current)
+        ? current
+        : data.trackers[data.trackers.length - 1]?.id || null)
+    }
+  }, [projectId, authHeaders])
+
+  const fetchDetail = useCallback(async () => {
+    if (!selectedId) {
+      setDetail(null)
+      return
+    }
+
+    const response = await fetch(`/api/projects/${projectId}/rank-trackers/${selectedId}?compareDays=${compareDays}`, {
+      headers: authHeaders()
+    })
+    if (response.ok) {
+      setDetail(await response.json())
+    }
+  }, [projectId, selectedId, compareDays, authHeaders])
+
+  useEffect(() => {
+    const fetchAll = async () => {
+      try {
+        const projectResponse = await fetch(`/api/projects/${projectId}`, { headers: authHeaders() })
+        if (projectResponse.ok) {
+          setProjectName((await projectResponse.json()).project.name)
+        }
+        await fetchTrackers()
+      } catch (error) {
+        console.error('Rank trackers fetch error:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    if (session?.user?.accessToken) {
+      fetchAll()
+    }
+  }, [session, projectId, fetchTrackers, authHeaders])
+
+  useEffect(() => {
+    setHistory(null)
+    if (session?.user?.accessToken) {
+      fetchDetail().catch(error => console.error('Rank tracker fetch error:', error))
+    }
+  }, [session, fetchDetail])
+
+  // Refresh while a check is running so new positions show up when it completes
+  useEffect(() => {
+    if (!detail?.activeCheck) return
+
+    const timer = setInterval(() => {
+      fetchDetail().catch(error => console.error('Rank tracker fetch error:', error))
+    }, CHECK_POLL_INTERVAL)
+
+    return () => clearInterval(timer)
+  }, [detail?.activeCheck, fetchDetail])
+
+  const handleCreate = async (data: RankTrackerData) => {
+    if (!session?.user?.accessToken) return
+
+    setCreating(true)
+    try {
+      const queryId = await startResearchQuery(`/api/projects/${projectId}/rank-trackers`, data, session.user.accessToken)
+      if (queryId) {
+        setShowForm(false)
+        setSelectedId(null)
+        await fetchTrackers()
+      }
+    } catch (error) {
+      console.error('Create rank tracker error:', error)
+      window.alert('Failed to create the rank tracker')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleCheckNow = async () => {
+    if (!session?.user?.accessToken || !selectedId) return
+
+    try {
+      const queryId = await startResearchQuery(
+        `/api/projects/${projectId}/rank-trackers/${selectedId}/check`,
+        {},
+        session.user.accessToken
+      )
+      if (queryId) {
+        await fetchDetail()
+      }
+    } catch (error) {
+      console.error('Rank check error:', error)
+      window.alert('Failed to start the check')
+    }
+  }
+
+  const updateTracker = async (changes: { active?: boolean; frequency?: RankCheckFrequency }) => {
+    const response = await fetch(`/api/projects/${projectId}/rank-trackers/${selectedId}`, {
+      method: 'PATCH',
+      headers: authHeaders(),
+      body: JSON.stringify(changes)
+    })
+
+    if (!response.ok) {
+      const { error, message } = await response.json()
+      window.alert(message || error || 'Failed to update the tracker')
+      return
+    }
+
+    await Promise.all([fetchTrackers(), fetchDetail()])
+  }
+
+  const handleDelete = async () => {
+    if (!detail || !window.confirm(`Stop tracking "${detail.tracker.name}" and delete its history?`)) return
+
+    const response = await fetch(`/api/projects/${projectId}/rank-trackers/${detail.tracker.id}`, {
+      method: 'DELETE',
+      headers: authHeaders()
+    })
+
+    if (!response.ok) {
+      window.alert('Failed to delete the tracker')
+      return
+    }
+
+    setSelectedId(null)
+    await fetchTrackers()
+  }
+
+  const handleAddKeywords = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const keywords = keywordInput.split(',').map(keyword => keyword.trim()).filter(Boolean)
+    if (keywords.length === 0) return
+
+    const response = await fetch(`/api/projects/${projectId}/rank-trackers/${selectedId}/keywords`, {
+      method: 'POST',
+      headers: authHeaders(),
+      body: JSON.stringify({ keywords })
+    })
+
+    if (!response.ok) {
+      const { error, message } = await response.json()
+      window.alert(message || error || 'Failed to add keywords')
+      return
+    }
+
+    setKeywordInput('')
+    await fetchDetail()
+  }
+
+  const handleRemoveKeyword = async (keywordId: string, keyword: string) => {
+    if (!window.confirm(`Stop tracking "${keyword}"? Its position history is deleted.`)) return
+
+    const response = await fetch(`/api/projects/${projectId}/rank-trackers/${selectedId}/keywords/${keywordId}`, {
+      method: 'DELETE',
+      headers: authHeaders()
+    })
+
+    if (response.ok) {
+      await fetchDetail()
+    }
+  }
+
+  const showHistory = async (keywordId: string) => {
+    if (history?.keyword.id === keywordId) {
+      setHistory(null)
+      return
+    }
+
+    const response = await fetch(`/api/projects/${projectId}/rank-trackers/${selectedId}/keywords/${keywordId}/history`, {
+      headers: authHeaders()
+    })
+    if (response.ok) {
+      setHistory(await response.json())
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Icons.spinner className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading rankings...</span>
+      </div>
+    )
+  }
+
+  const canEdit = detail ? detail.role !== 'VIEWER' : true
+  const latest = detail?.latestCheck
+  const previous = detail?.comparisonCheck
+  const summaryCards = latest ? [
+    { label: 'Visibility', value: `${latest.visibility}%`, change: previous ? Math.round((latest.visibility - previous.visibility) * 10) / 10 : null },
+    {
+      label: 'Est. traffic',
+      value: latest.estimatedTraffic.toLocaleString(),
+      change: previous ? latest.estimatedTraffic - previous.estimatedTraffic : null
+    },
+    // A lower average position is better, so the change is flipped
+    {
+      label: 'Avg. position',
+      value: latest.averagePosition ?? '–',
+      change: previous && latest.averagePosition !== null && previous.averagePosition !== null
+        ? Math.round((previous.averagePosition - latest.averagePosition) * 10) / 10
+        : null
+    },
+    { label: 'Top 3', value: latest.top3, change: previous ? latest.top3 - previous.top3 : null },
+    { label: 'Top 10', value: latest.top10, change: previous ? latest.top10 - previous.top10 : null },
+  ] : []
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Rankings</h1>
+          {projectName && <p className="text-muted-foreground mt-1">{projectName}</p>}
+        </div>
+        <div className="flex gap-2">
+          <Link href={`/projects/${projectId}` as any}>
+            <Button variant="outline">
+              <Icons.arrowRight className="mr-2 h-4 w-4 rotate-180" />
+              Project
+            </Button>
+          </Link>
+          {canEdit && !showForm && (
+            <Button onClick={() => setShowForm(true)}>
+              <Icons.plus className="mr-2 h-4 w-4" />
+              Track Keywords
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {showForm && (
+        <RankTrackerForm onSubmit={handleCreate} onCancel={() => setShowForm(false)} isLoading={creating} />
+      )}
+
+      {trackers.length === 0 && !showForm ? (
+        <Card>
+          <CardContent className="py-12">
+            <div className="text-center">
+              <Icons.trending className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">No keywords tracked yet</h3>
+              <p className="text-muted-foreground">
+                Track a set of keywords to see how your positions change over time
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {trackers.map((tracker) => (
+            <Button
+              key={tracker.id}
+              variant={tracker.id === selectedId ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setSelectedId(tracker.id)}
+            >
+              {tracker.name}
+              <span className="ml-2 text-xs opacity-70">{tracker.targetDomain}</span>
+              {!tracker.active && <Badge variant="secondary" className="ml-2 text-xs">Paused</Badge>}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {detail && (
+        <>
+          {/* Tracker actions */}
+          <Card>
+            <CardContent className="flex flex-wrap items-center justify-between gap-4 py-4">
+              <div className="text-sm text-muted-foreground">
+                {detail.tracker.keywordCount} keywords · {detail.tracker.location} · {detail.tracker.device}
+                {' · '}
+                {detail.tracker.active
+                  ? `next check ${formatDate(detail.tracker.nextCheckAt)}`
+                  : 'paused'}
+                {detail.activeCheck && (
+                  <span className="ml-2 inline-flex items-center gap-1 text-foreground">
+                    <Icons.spinner className="h-3 w-3 animate-spin" />
+                    Checking{detail.activeCheck.progress ? ` (${detail.activeCheck.progress}%)` : ''}
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={compareDays}
+                  onChange={(e) => setCompareDays(Number(e.target.value))}
+                  className="px-3 py-1.5 border border-input rounded-md bg-background text-sm"
+                >
+                  {COMPARE_OPTIONS.map((option) => (
+                    <option key={option.days} value={option.days}>Compare: {option.label}</option>
+                  ))}
+                </select>
+                {canEdit && (
+                  <>
+                    <select
+                      value={detail.tracker.frequency}
+                      onChange={(e) => updateTracker({ frequency: e.target.value as RankCheckFrequency })}
+                      className="px-3 py-1.5 border border-input rounded-md bg-background text-sm"
+                    >
+                      <option value="DAILY">Daily</option>
+                      <option value="WEEKLY">Weekly</option>
+                    </select>
+                    <Button variant="outline" size="sm" onClick={handleCheckNow} disabled={!!detail.activeCheck}>
+                      <Icons.refresh className="mr-1 h-4 w-4" />
+                      Check Now
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => updateTracker({ active: !detail.tracker.active })}>
+                      {detail.tracker.active ? 'Pause' : 'Resume'}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={handleDelete}>
+                      <Icons.trash className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {!latest ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                {detail.activeCheck ? 'The first check is running...' : 'No checks have completed yet'}
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {summaryCards.map((card) => (
+                  <Card key={card.label}>
+                    <CardContent className="pt-6">
+                      <div className="text-sm text-muted-foreground">{card.label}</div>
+                      <div className="mt-1 flex items-baseline gap-2">
+                        <span className="text-2xl font-bold">{card.value}</span>
+                        <PositionChange change={card.change} />
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+
+              {/* Trends */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Visibility</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <LineChart
+                      points={detail.trend.map(check => ({ label: formatDate(check.checkedAt), value: check.visibility }))}
+                      formatValue={(value) => `${value}%`}
+                    />
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Average Position</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <LineChart
+                      points={detail.trend.map(check => ({ label: formatDate(check.checkedAt), value: check.averagePosition }))}
+                      inverted
+                    />
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Movers */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <MoversList title="Winners" movers={detail.movers.winners} />
+                <MoversList title="Losers" movers={detail.movers.losers} />
+              </div>
+            </>
+          )}
+
+          {/* Keywords */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Keywords</CardTitle>
+              {canEdit && (
+                <form onSubmit={handleAddKeywords} className="flex gap-2">
+                  <Input
+                    placeholder="Add keywords, comma-separated"
+                    value={keywordInput}
+                    onChange={(e) => setKeywordInput(e.target.value)}
+                    className="w-64"
+                  />
+                  <Button type="submit" size="sm" disabled={!keywordInput.trim()}>
+                    <Icons.plus className="h-4 w-4" />
+                  </Button>
+                </form>
+              )}
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Keyword</TableHead>
+                    <TableHead>Volume</TableHead>
+                    <TableHead>Position</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>Best</TableHead>
+                    <TableHead>URL</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {detail.keywords.map((keyword) => (
+                    <TableRow
+                      key={keyword.trackedKeywordId}
+                      className={cn("cursor-pointer", history?.keyword.id === keyword.trackedKeywordId && "bg-muted/50")}
+                      onClick={() => showHistory(keyword.trackedKeywordId)}
+                    >
+                      <TableCell className="font-medium">
+                        {keyword.keyword}
+                        {keyword.serpFeatures.length > 0 && (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            {keyword.serpFeatures.map(feature => feature.replace(/_/g, ' ')).join(', ')}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{keyword.searchVolume !== null ? formatNumber(keyword.searchVolume) : '–'}</TableCell>
+                      <TableCell>
+                        {!keyword.checked
+                          ? <Badge variant="outline" className="text-xs">Pending</Badge>
+                          : keyword.position ?? <span className="text-muted-foreground">&gt;100</span>}
+                      </TableCell>
+                      <TableCell><PositionChange change={keyword.change} /></TableCell>
+                      <TableCell>{keyword.bestPosition ?? '–'}</TableCell>
+                      <TableCell className="max-w-xs truncate text-xs text-muted-foreground">
+                        {keyword.url && (
+                          <a
+                            href={keyword.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            onClick={(e) => e.stopPropagation()}
+                            className="hover:underline"
+                          >
+                            {keyword.url.replace(/^https?:\/\/(www\.)?/, '')}
+                          </a>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canEdit && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleRemoveKeyword(keyword.trackedKeywordId, keyword.keyword)
+                            }}
+                          >
+                            <Icons.x className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {history && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Position history: {history.keyword.keyword}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <LineChart
+                  points={history.history.map(point => ({ label: formatDate(point.checkedAt), value: point.position }))}
+                  inverted
+                />
+                {/* The ranking page changing is often the reason a position moved */}
+                <div className="space-y-1 text-xs text-muted-foreground">
+                  {history.history
+                    .filter((point, index) => point.url && point.url !== history.history[index - 1]?.url)
+                    .map((point) => (
+                      <div key={point.checkedAt}>
+                        {formatDate(point.checkedAt)}: {point.url}
+                      </div>
+                    ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {session?.user?.accessToken && (
+            <AlertRules
+              key={detail.tracker.id}
+              projectId={projectId}
+              trackerId={detail.tracker.id}
+              accessToken={session.user.accessToken}
+              canEdit={canEdit}
+            />
+          )}
+        </>
+      )}
+    </div>
+  )
+}
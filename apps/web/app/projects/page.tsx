@@ -0,0 +1,245 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Icons } from '@/components/ui/icons'
+
+interface Project {
+  id: string
+  name: string
+  description?: string | null
+  ownerId: string
+  role: 'OWNER' | 'EDITOR' | 'VIEWER'
+  createdAt: string
+  updatedAt: string
+  counts: {
+    members: number
+    queries: number
+    datasets: number
+    briefs: number
+  }
+}
+
+const ROLE_CONFIG = {
+  OWNER: { label: 'Owner', variant: 'default' },
+  EDITOR: { label: 'Editor', variant: 'secondary' },
+  VIEWER: { label: 'Viewer', variant: 'outline' }
+}
+
+export default function ProjectsPage() {
+  const { data: session } = useSession()
+  const router = useRouter()
+  const [projects, setProjects] = useState<Project[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showCreate, setShowCreate] = useState(false)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [createError, setCreateError] = useState('')
+
+  useEffect(() => {
+    const fetchProjects = async () => {
+      try {
+        const response = await fetch('/api/projects', {
+          headers: {
+            'Authorization': `Bearer ${session?.user?.accessToken}`
+          }
+        })
+
+        if (response.ok) {
+          const data = await response.json()
+          setProjects(data.projects)
+        }
+      } catch (error) {
+        console.error('Projects fetch error:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    if (session?.user?.accessToken) {
+      fetchProjects()
+    }
+  }, [session])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setCreating(true)
+    setCreateError('')
+
+    try {
+      const response = await fetch('/api/projects', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.user?.accessToken}`
+        },
+        body: JSON.stringify({
+          name: name.trim(),
+          ...(description.trim() && { description: description.trim() })
+        })
+      })
+
+      if (!response.ok) {
+        const { error, message } = await response.json()
+        setCreateError(message || error || 'Failed to create project')
+        return
+      }
+
+      const { project } = await response.json()
+      router.push(`/projects/${project.id}`)
+
+    } catch (error) {
+      console.error('Create project error:', error)
+      setCreateError('Failed to create project')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Icons.spinner className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading projects...</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Projects</h1>
+          <p className="text-muted-foreground mt-1">
+            Group research, datasets and briefs, and share them with your team
+          </p>
+        </div>
+        <Button onClick={() => setShowCreate(!showCreate)}>
+          <Icons.plus className="mr-2 h-4 w-4" />
+          New Project
+        </Button>
+      </div>
+
+      {/* Create Project */}
+      {showCreate && (
+        <Card>
+          <CardHeader>
+            <CardTitle>New Project</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Name *</label>
+                <Input
+                  placeholder="e.g. Acme Blog Relaunch"
+                  value={name}
+                  maxLength={100}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Description</label>
+                <Input
+                  placeholder="What is this project about?"
+                  value={description}
+                  maxLength={500}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+              {createError && (
+                <p className="text-xs text-red-500">{createError}</p>
+              )}
+              <div className="flex gap-2">
+                <Button type="submit" disabled={creating || !name.trim()}>
+                  {creating && <Icons.spinner className="mr-2 h-4 w-4 animate-spin" />}
+                  Create Project
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setShowCreate(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Project List */}
+      {projects.length === 0 ? (
+        <Card>
+          <CardContent className="py-12">
+            <div className="text-center">
+              <Icons.folder className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">No projects yet</h3>
+              <p className="text-muted-foreground">
+                Create a project to organize research and invite teammates
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {projects.map((project) => {
+            const roleConfig = ROLE_CONFIG[project.role]
+
+            return (
+              <Link key={project.id} href={`/projects/${project.id}`}>
+                <Card className="cursor-pointer hover:bg-accent transition-colors h-full">
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-2">
+                      <CardTitle className="text-lg">{project.name}</CardTitle>
+                      <Badge variant={roleConfig.variant as any}>{roleConfig.label}</Badge>
+                    </div>
+                    {project.description && (
+                      <p className="text-sm text-muted-foreground">{project.description}</p>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                      <div>
+                        <div className="text-xl font-bold">{project.counts.queries}</div>
+                        <div className="text-xs text-muted-foreground">Queries</div>
+                      </div>
+                      <div>
+                        <div className="text-xl font-bold">{project.counts.datasets}</div>
+                        <div className="text-xs text-muted-foreground">Datasets</div>
+                      </div>
+                      <div>
+                        <div className="text-xl font-bold">{project.counts.briefs}</div>
+                        <div className="text-xs text-muted-foreground">Briefs</div>
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between mt-4 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Icons.users className="h-3 w-3" />
+                        {project.counts.members} {project.counts.members === 1 ? 'member' : 'members'}
+                      </span>
+                      <span>Updated {formatDate(project.updatedAt)}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
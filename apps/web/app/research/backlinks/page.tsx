@@ -0,0 +1,525 @@
+'use client'
+
+import { useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { BacklinksForm, BacklinksData } from '@/components/research/backlinks-form'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Icons } from '@/components/ui/icons'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { startResearchQuery } from '@/lib/research'
+
+interface QueryStatus {
+  id: string
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED'
+  progress?: number
+  error?: any
+  tasks: Array<{
+    step: string | null
+    status: string
+  }>
+}
+
+interface Backlink {
+  urlFrom: string
+  urlTo: string
+  domainFrom: string
+  domainFromRank: number
+  anchor: string | null
+  dofollow: boolean
+  firstSeen: string
+  lastSeen: string
+}
+
+interface BacklinkAnalysisResult {
+  target: string
+  domainRank: number
+  summary: {
+    backlinks: number
+    referringDomains: number
+    referringMainDomains: number
+    referringDomainsNofollow: number
+    referringIps: number
+    brokenBacklinks: number
+    spamScore: number
+    firstSeen: string | null
+  } | null
+  referringDomains: Array<{
+    domain: string
+    rank: number
+    backlinks: number
+    firstSeen: string | null
+    spamScore: number
+    tier: string
+  }>
+  referringDomainTiers: { [tier: string]: number }
+  anchorDistribution: {
+    totalBacklinks: number
+    categories: { [category: string]: { backlinks: number; percentage: number } }
+    topAnchors: Array<{
+      anchor: string
+      category: string
+      backlinks: number
+      referringDomains: number
+      percentage: number
+    }>
+  } | null
+  newLost: {
+    dateFrom: string
+    newCount: number
+    lostCount: number
+    newBacklinks: Backlink[]
+    lostBacklinks: Backlink[]
+  } | null
+}
+
+interface QueryResult {
+  query: {
+    id: string
+    status: string
+    parameters: BacklinksData
+    createdAt: string
+    completedAt?: string
+    error?: any
+  }
+  tasks: Array<{
+    id: string
+    step: string
+    status: string
+    cacheHit: boolean
+  }>
+  datasets: Array<{
+    id: string
+    name: string
+    kind: string
+    meta: any
+    data: any
+  }>
+}
+
+const ANCHOR_CATEGORY_LABELS: { [category: string]: string } = {
+  branded: 'Branded',
+  url: 'Naked URL',
+  generic: 'Generic',
+  keyword: 'Keyword',
+  empty: 'No text',
+}
+
+export default function BacklinksPage() {
+  const { data: session } = useSession()
+  const router = useRouter()
+  const projectId = useSearchParams().get('projectId')
+  const [isLoading, setIsLoading] = useState(false)
+  const [currentQuery, setCurrentQuery] = useState<QueryStatus | null>(null)
+  const [results, setResults] = useState<QueryResult | null>(null)
+  const [analysisData, setAnalysisData] = useState<BacklinkAnalysisResult | null>(null)
+
+  const handleSubmit = async (data: BacklinksData) => {
+    if (!session?.user?.accessToken) {
+      router.push('/auth/signin')
+      return
+    }
+
+    setIsLoading(true)
+    setCurrentQuery(null)
+    setResults(null)
+    setAnalysisData(null)
+
+    try {
+      const queryId = await startResearchQuery('/api/research/backlinks', { ...data, ...(projectId && { projectId }) }, session.user.accessToken)
+      if (!queryId) {
+        setIsLoading(false)
+        return
+      }
+
+      pollQueryStatus(queryId)
+
+    } catch (error) {
+      console.error('Backlink research error:', error)
+      setIsLoading(false)
+    }
+  }
+
+  const pollQueryStatus = async (queryId: string) => {
+    const pollInterval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/research/backlinks/${queryId}/status`, {
+          headers: {
+            'Authorization': `Bearer ${session?.user?.accessToken}`
+          }
+        })
+
+        if (!response.ok) {
+          throw new Error('Failed to get query status')
+        }
+
+        const status: QueryStatus = await response.json()
+        setCurrentQuery(status)
+
+        if (status.status === 'COMPLETED') {
+          clearInterval(pollInterval)
+          setIsLoading(false)
+
+          const resultsResponse = await fetch(`/api/research/backlinks/${queryId}`, {
+            headers: {
+              'Authorization': `Bearer ${session?.user?.accessToken}`
+            }
+          })
+
+          if (resultsResponse.ok) {
+            const resultsData: QueryResult = await resultsResponse.json()
+            setResults(resultsData)
+
+            const backlinksDataset = resultsData.datasets.find(dataset => dataset.kind === 'BACKLINKS')
+            if (backlinksDataset?.data) {
+              setAnalysisData(backlinksDataset.data)
+            }
+          }
+        }
+
+        if (status.status === 'FAILED') {
+          clearInterval(pollInterval)
+          setIsLoading(false)
+        }
+
+      } catch (error) {
+        console.error('Status polling error:', error)
+        clearInterval(pollInterval)
+        setIsLoading(false)
+      }
+    }, 2000) // Backlink endpoints answer immediately, so poll quickly
+
+    setTimeout(() => {
+      clearInterval(pollInterval)
+      if (isLoading) setIsLoading(false)
+    }, 180000) // 3 minutes timeout
+  }
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'PENDING': return <Icons.clock className="h-4 w-4" />
+      case 'RUNNING': return <Icons.refresh className="h-4 w-4 animate-spin" />
+      case 'COMPLETED': return <Icons.checkCircle className="h-4 w-4 text-green-600" />
+      case 'FAILED': return <Icons.alertCircle className="h-4 w-4 text-red-600" />
+      default: return <Icons.clock className="h-4 w-4" />
+    }
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'PENDING': return 'secondary'
+      case 'RUNNING': return 'warning'
+      case 'COMPLETED': return 'success'
+      case 'FAILED': return 'destructive'
+      default: return 'secondary'
+    }
+  }
+
+  const getTierColor = (tier: string) => {
+    switch (tier.toLowerCase()) {
+      case 'high': return 'success'
+      case 'medium': return 'warning'
+      default: return 'secondary'
+    }
+  }
+
+  const formatDate = (date: string | null) => {
+    return date ? new Date(date).toLocaleDateString() : '—'
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Backlink Research</h1>
+          <p className="text-muted-foreground mt-1">
+            Review referring domains, anchor text and recently gained or lost links
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => router.back()}>
+          <Icons.arrowRight className="mr-2 h-4 w-4 rotate-180" />
+          Back to Dashboard
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-1">
+          <BacklinksForm
+            onSubmit={handleSubmit}
+            isLoading={isLoading}
+          />
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          {/* Status Display */}
+          {currentQuery && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {getStatusIcon(currentQuery.status)}
+                  Analysis Status
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">Overall Progress</span>
+                    <Badge variant={getStatusColor(currentQuery.status) as any}>
+                      {currentQuery.status.replace('_', ' ')}
+                    </Badge>
+                  </div>
+
+                  {currentQuery.progress && (
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <span>Progress</span>
+                        <span>{currentQuery.progress}%</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className="bg-primary h-2 rounded-full transition-all duration-300"
+                          style={{ width: `${currentQuery.progress}%` }}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {currentQuery.tasks && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">Tasks</h4>
+                      {currentQuery.tasks.map((task, index) => (
+                        <div key={index} className="flex items-center justify-between text-sm">
+                          <span className="capitalize">
+                            {(task.step ?? 'task').replace(/_/g, ' ').toLowerCase()}
+                          </span>
+                          <Badge variant={getStatusColor(task.status) as any} className="text-xs">
+                            {task.status.replace('_', ' ')}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Analysis Results */}
+          {results && analysisData && (
+            <div className="space-y-6">
+              {/* Link Profile Overview */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Icons.chart className="h-5 w-5" />
+                    Link Profile: {analysisData.target}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="text-center">
+                      <div className="text-2xl font-bold">{analysisData.domainRank}</div>
+                      <div className="text-sm text-muted-foreground">Domain Rank</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-2xl font-bold">{(analysisData.summary?.backlinks || 0).toLocaleString()}</div>
+                      <div className="text-sm text-muted-foreground">Backlinks</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-2xl font-bold">{(analysisData.summary?.referringDomains || 0).toLocaleString()}</div>
+                      <div className="text-sm text-muted-foreground">Referring Domains</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-2xl font-bold">{analysisData.summary?.spamScore ?? 0}</div>
+                      <div className="text-sm text-muted-foreground">Spam Score</div>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Referring Domains */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Icons.globe className="h-5 w-5" />
+                    Top Referring Domains
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex gap-2 mb-4">
+                    {Object.entries(analysisData.referringDomainTiers).map(([tier, count]) => (
+                      <Badge key={tier} variant={getTierColor(tier) as any}>
+                        {tier} rank: {count}
+                      </Badge>
+                    ))}
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Domain</TableHead>
+                        <TableHead>Rank</TableHead>
+                        <TableHead>Backlinks</TableHead>
+                        <TableHead>First Seen</TableHead>
+                        <TableHead>Spam Score</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {analysisData.referringDomains.slice(0, 20).map((domain, index) => (
+                        <TableRow key={index}>
+                          <TableCell className="font-medium">{domain.domain}</TableCell>
+                          <TableCell>
+                            <Badge variant={getTierColor(domain.tier) as any}>{domain.rank}</Badge>
+                          </TableCell>
+                          <TableCell>{domain.backlinks.toLocaleString()}</TableCell>
+                          <TableCell>{formatDate(domain.firstSeen)}</TableCell>
+                          <TableCell>{domain.spamScore}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              {/* Anchor Text Distribution */}
+              {analysisData.anchorDistribution && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Icons.fileText className="h-5 w-5" />
+                      Anchor Text Distribution
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3 mb-6">
+                      {Object.entries(analysisData.anchorDistribution.categories)
+                        .sort(([,a], [,b]) => b.backlinks - a.backlinks)
+                        .map(([category, data]) => (
+                          <div key={category} className="space-y-2">
+                            <div className="flex justify-between text-sm">
+                              <span className="font-medium">{ANCHOR_CATEGORY_LABELS[category] || category}</span>
+                              <span>{data.percentage.toFixed(1)}% ({data.backlinks.toLocaleString()} links)</span>
+                            </div>
+                            <div className="w-full bg-gray-200 rounded-full h-2">
+                              <div
+                                className="bg-primary h-2 rounded-full"
+                                style={{ width: `${Math.max(data.percentage, 1)}%` }}
+                              />
+                            </div>
+                          </div>
+                        ))}
+                    </div>
+
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Anchor</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead>Backlinks</TableHead>
+                          <TableHead>Referring Domains</TableHead>
+                          <TableHead>Share</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {analysisData.anchorDistribution.topAnchors.slice(0, 20).map((anchor, index) => (
+                          <TableRow key={index}>
+                            <TableCell className="font-medium">{anchor.anchor || <span className="text-muted-foreground">(no text)</span>}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{ANCHOR_CATEGORY_LABELS[anchor.category] || anchor.category}</Badge>
+                            </TableCell>
+                            <TableCell>{anchor.backlinks.toLocaleString()}</TableCell>
+                            <TableCell>{anchor.referringDomains.toLocaleString()}</TableCell>
+                            <TableCell>{anchor.percentage.toFixed(1)}%</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* New & Lost Links */}
+              {analysisData.newLost && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Icons.trending className="h-5 w-5" />
+                      New &amp; Lost Links
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center gap-4 mb-4 text-sm">
+                      <span className="text-muted-foreground">Since {formatDate(analysisData.newLost.dateFrom)}</span>
+                      <span className="flex items-center gap-1 text-green-600">
+                        <Icons.arrowUp className="h-4 w-4" />
+                        {analysisData.newLost.newCount} new
+                      </span>
+                      <span className="flex items-center gap-1 text-red-600">
+                        <Icons.arrowDown className="h-4 w-4" />
+                        {analysisData.newLost.lostCount} lost
+                      </span>
+                    </div>
+
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Linking Page</TableHead>
+                          <TableHead>Anchor</TableHead>
+                          <TableHead>Domain Rank</TableHead>
+                          <TableHead>Date</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {[
+                          ...analysisData.newLost.newBacklinks.slice(0, 10).map(link => ({ link, isNew: true })),
+                          ...analysisData.newLost.lostBacklinks.slice(0, 10).map(link => ({ link, isNew: false })),
+                        ].map(({ link, isNew }, index) => (
+                          <TableRow key={index}>
+                            <TableCell>
+                              <Badge variant={isNew ? 'success' : 'destructive'}>{isNew ? 'New' : 'Lost'}</Badge>
+                            </TableCell>
+                            <TableCell className="max-w-xs truncate">
+                              <a href={link.urlFrom} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                {link.domainFrom}
+                              </a>
+                              {!link.dofollow && <Badge variant="outline" className="ml-2 text-xs">nofollow</Badge>}
+                            </TableCell>
+                            <TableCell>{link.anchor || '—'}</TableCell>
+                            <TableCell>{link.domainFromRank}</TableCell>
+                            <TableCell>{formatDate(isNew ? link.firstSeen : link.lastSeen)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+
+          {/* Empty State */}
+          {!currentQuery && !results && (
+            <Card>
+              <CardContent className="py-12">
+                <div className="text-center">
+                  <Icons.link className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-medium mb-2">Start Backlink Research</h3>
+                  <p className="text-muted-foreground mb-4">
+                    Enter a domain or URL to analyze its link profile
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    See who links to the site, how those links are worded, and which links
+                    were gained or lost recently.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,23 +2,25 @@
 
 import { useState } from 'react'
 import { useSession } from 'next-auth/react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { CompetitorResearchForm, CompetitorResearchData } from '@/components/research/competitor-research-form'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Icons } from '@/components/ui/icons'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { DatasetExportButton } from '@/components/results/dataset-export-button'
+import { startResearchQuery } from '@/lib/research'
+import { Dataset } from '@/lib/datasets'
 
 interface QueryStatus {
   id: string
-  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED'
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED'
   progress?: number
   error?: any
   tasks: Array<{
-    type: string
+    step: string | null
     status: string
-    progress?: number
   }>
 }
 
@@ -79,15 +81,10 @@ interface QueryResult {
   }
   tasks: Array<{
     id: string
-    type: string
+    step: string | null
     status: string
-    datasets: Array<{
-      id: string
-      type: string
-      data: any
-      metadata: any
-    }>
   }>
+  datasets: Dataset[]
   insights: Array<{
     id: string
     type: string
@@ -99,6 +96,7 @@ interface QueryResult {
 export default function CompetitorResearchPage() {
   const { data: session } = useSession()
   const router = useRouter()
+  const projectId = useSearchParams().get('projectId')
   const [isLoading, setIsLoading] = useState(false)
   const [currentQuery, setCurrentQuery] = useState<QueryStatus | null>(null)
   const [results, setResults] = useState<QueryResult | null>(null)
@@ -116,20 +114,12 @@ export default function CompetitorResearchPage() {
     setAnalysisData(null)
 
     try {
-      const response = await fetch('/api/research/competitor-research', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session.user.accessToken}`
-        },
-        body: JSON.stringify(data)
-      })
-
-      if (!response.ok) {
-        throw new Error('Failed to start competitor research')
+      const queryId = await startResearchQuery('/api/research/competitor-research', { ...data, ...(projectId && { projectId }) }, session.user.accessToken)
+      if (!queryId) {
+        setIsLoading(false)
+        return
       }
 
-      const { queryId } = await response.json()
       pollQueryStatus(queryId)
 
     } catch (error) {
@@ -190,19 +180,19 @@ export default function CompetitorResearchPage() {
   }
 
   const processCompetitorResults = (resultsData: QueryResult) => {
-    const analysisDataset = resultsData.tasks
-      .flatMap(task => task.datasets)
-      .find(dataset => dataset.type === 'COMPETITOR_ANALYSIS')
+    const analysisDataset = resultsData.datasets.find(dataset => dataset.kind === 'COMPETITORS')
 
     if (analysisDataset?.data) {
       setAnalysisData(analysisDataset.data)
     }
   }
 
+  const competitorDataset = results?.datasets.find(dataset => dataset.kind === 'COMPETITORS')
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'PENDING': return <Icons.clock className="h-4 w-4" />
-      case 'IN_PROGRESS': return <Icons.refresh className="h-4 w-4 animate-spin" />
+      case 'RUNNING': return <Icons.refresh className="h-4 w-4 animate-spin" />
       case 'COMPLETED': return <Icons.checkCircle className="h-4 w-4 text-green-600" />
       case 'FAILED': return <Icons.alertCircle className="h-4 w-4 text-red-600" />
       default: return <Icons.clock className="h-4 w-4" />
@@ -212,7 +202,7 @@ export default function CompetitorResearchPage() {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'PENDING': return 'secondary'
-      case 'IN_PROGRESS': return 'warning'
+      case 'RUNNING': return 'warning'
       case 'COMPLETED': return 'success'
       case 'FAILED': return 'destructive'
       default: return 'secondary'
@@ -301,7 +291,7 @@ export default function CompetitorResearchPage() {
                       {currentQuery.tasks.map((task, index) => (
                         <div key={index} className="flex items-center justify-between text-sm">
                           <span className="capitalize">
-                            {task.type.replace('_', ' ').toLowerCase()}
+                            {(task.step ?? 'task').replace('_', ' ').toLowerCase()}
                           </span>
                           <Badge variant={getStatusColor(task.status) as any} className="text-xs">
                             {task.status.replace('_', ' ')}
@@ -311,7 +301,7 @@ export default function CompetitorResearchPage() {
                     </div>
                   )}
 
-                  {currentQuery.status === 'IN_PROGRESS' && (
+                  {currentQuery.status === 'RUNNING' && (
                     <div className="p-3 bg-blue-50 border border-blue-200 rounded-md">
                       <p className="text-sm text-blue-800">
                         This analysis may take 10-15 minutes as we analyze multiple domains and thousands of keywords.
@@ -438,11 +428,14 @@ export default function CompetitorResearchPage() {
 
               {/* Keyword Opportunities */}
               <Card>
-                <CardHeader>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
                   <CardTitle className="flex items-center gap-2">
                     <Icons.target className="h-5 w-5" />
                     Keyword Gap Opportunities
                   </CardTitle>
+                  {competitorDataset && session?.user?.accessToken && (
+                    <DatasetExportButton datasetId={competitorDataset.id} accessToken={session.user.accessToken} />
+                  )}
                 </CardHeader>
                 <CardContent>
                   <div className="mb-4">
@@ -13,8 +13,8 @@ import Link from 'next/link'
 
 interface Query {
   id: string
-  type: 'KEYWORD_DISCOVERY' | 'SERP_ANALYSIS' | 'COMPETITOR_RESEARCH'
-  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED'
+  type: 'KEYWORD_DISCOVERY' | 'SERP_SNAPSHOT' | 'COMPETITOR_OVERVIEW' | 'BACKLINK_CHECK' | 'ONPAGE_AUDIT' | 'TREND_ANALYSIS' | 'LOCAL_SEO'
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED'
   progress?: number
   createdAt: string
   completedAt?: string
@@ -23,7 +23,7 @@ interface Query {
     name: string
   }
   tasksCount: number
-  briefsCount: number
+  insightsCount: number
   parameters: any
 }
 
@@ -40,23 +40,47 @@ const QUERY_TYPE_CONFIG = {
     color: 'bg-blue-500',
     route: '/research/keyword-discovery'
   },
-  SERP_ANALYSIS: {
+  SERP_SNAPSHOT: {
     label: 'SERP Analysis',
     icon: Icons.target,
     color: 'bg-green-500',
     route: '/research/serp-analysis'
   },
-  COMPETITOR_RESEARCH: {
+  COMPETITOR_OVERVIEW: {
     label: 'Competitor Research',
     icon: Icons.users,
     color: 'bg-purple-500',
     route: '/research/competitor-research'
+  },
+  BACKLINK_CHECK: {
+    label: 'Backlinks',
+    icon: Icons.link,
+    color: 'bg-orange-500',
+    route: '/research/backlinks'
+  },
+  ONPAGE_AUDIT: {
+    label: 'On-Page Audit',
+    icon: Icons.zap,
+    color: 'bg-teal-500',
+    route: '/research/onpage-audit'
+  },
+  TREND_ANALYSIS: {
+    label: 'Trends & Seasonality',
+    icon: Icons.trending,
+    color: 'bg-pink-500',
+    route: '/research/trend-analysis'
+  },
+  LOCAL_SEO: {
+    label: 'Local SEO',
+    icon: Icons.globe,
+    color: 'bg-red-500',
+    route: '/research/local-seo'
   }
 }
 
 const STATUS_CONFIG = {
   PENDING: { label: 'Pending', variant: 'secondary', icon: Icons.clock },
-  IN_PROGRESS: { label: 'In Progress', variant: 'warning', icon: Icons.refresh },
+  RUNNING: { label: 'In Progress', variant: 'warning', icon: Icons.refresh },
   COMPLETED: { label: 'Completed', variant: 'success', icon: Icons.checkCircle },
   FAILED: { label: 'Failed', variant: 'destructive', icon: Icons.alertCircle }
 }
@@ -134,7 +158,8 @@ export default function ResearchHistoryPage() {
         // Refresh the list
         await fetchQueries()
       } else {
-        alert('Failed to delete analysis')
+        const { message } = await response.json()
+        alert(message || 'Failed to delete analysis')
       }
 
     } catch (error) {
@@ -155,19 +180,42 @@ export default function ResearchHistoryPage() {
       )
     }
 
-    if (query.type === 'SERP_ANALYSIS' && query.parameters.keywords) {
+    if (query.type === 'SERP_SNAPSHOT' && query.parameters.keywords) {
       return query.parameters.keywords.some((keyword: string) =>
         keyword.toLowerCase().includes(searchLower)
       )
     }
 
-    if (query.type === 'COMPETITOR_RESEARCH') {
+    if (query.type === 'COMPETITOR_OVERVIEW') {
       return query.parameters.targetDomain?.toLowerCase().includes(searchLower) ||
              query.parameters.competitorDomains?.some((domain: string) =>
                domain.toLowerCase().includes(searchLower)
              )
     }
 
+    if (query.type === 'BACKLINK_CHECK') {
+      return query.parameters.target?.toLowerCase().includes(searchLower)
+    }
+
+    if (query.type === 'ONPAGE_AUDIT') {
+      return query.parameters.urls?.some((url: string) =>
+        url.toLowerCase().includes(searchLower)
+      )
+    }
+
+    if (query.type === 'TREND_ANALYSIS' && query.parameters.keywords) {
+      return query.parameters.keywords.some((keyword: string) =>
+        keyword.toLowerCase().includes(searchLower)
+      )
+    }
+
+    if (query.type === 'LOCAL_SEO') {
+      return query.parameters.businessName?.toLowerCase().includes(searchLower) ||
+             query.parameters.keywords?.some((keyword: string) =>
+               keyword.toLowerCase().includes(searchLower)
+             )
+    }
+
     return false
   })
 
@@ -187,13 +235,29 @@ export default function ResearchHistoryPage() {
         const seedKeywords = query.parameters.seedKeywords || []
         return `Keywords: ${seedKeywords.slice(0, 2).join(', ')}${seedKeywords.length > 2 ? ` +${seedKeywords.length - 2}` : ''}`
 
-      case 'SERP_ANALYSIS':
+      case 'SERP_SNAPSHOT':
         const keywords = query.parameters.keywords || []
         return `Analyzing: ${keywords.slice(0, 2).join(', ')}${keywords.length > 2 ? ` +${keywords.length - 2}` : ''}`
 
-      case 'COMPETITOR_RESEARCH':
+      case 'COMPETITOR_OVERVIEW':
         return `${query.parameters.targetDomain} vs ${query.parameters.competitorDomains?.length || 0} competitors`
 
+      case 'BACKLINK_CHECK':
+        return `Links to ${query.parameters.target}`
+
+      case 'ONPAGE_AUDIT':
+        const urlCount = query.parameters.urlCount || query.parameters.urls?.length || 0
+        return `Auditing ${urlCount} page${urlCount === 1 ? '' : 's'}`
+
+      case 'TREND_ANALYSIS':
+        const trendKeywords = query.parameters.keywords || []
+        const keywordCount = query.parameters.keywordCount || trendKeywords.length
+        return `Trends: ${trendKeywords.slice(0, 2).join(', ')}${keywordCount > 2 ? ` +${keywordCount - 2}` : ''}`
+
+      case 'LOCAL_SEO':
+        const pointCount = query.parameters.pointCount || 0
+        return `${query.parameters.businessName} from ${pointCount} location${pointCount === 1 ? '' : 's'}`
+
       default:
         return 'Analysis'
     }
@@ -256,8 +320,12 @@ export default function ResearchHistoryPage() {
               >
                 <option value="ALL">All Types</option>
                 <option value="KEYWORD_DISCOVERY">Keyword Discovery</option>
-                <option value="SERP_ANALYSIS">SERP Analysis</option>
-                <option value="COMPETITOR_RESEARCH">Competitor Research</option>
+                <option value="SERP_SNAPSHOT">SERP Analysis</option>
+                <option value="COMPETITOR_OVERVIEW">Competitor Research</option>
+                <option value="BACKLINK_CHECK">Backlinks</option>
+                <option value="ONPAGE_AUDIT">On-Page Audit</option>
+                <option value="TREND_ANALYSIS">Trends &amp; Seasonality</option>
+                <option value="LOCAL_SEO">Local SEO</option>
               </select>
 
               <select
@@ -270,7 +338,7 @@ export default function ResearchHistoryPage() {
               >
                 <option value="ALL">All Status</option>
                 <option value="COMPLETED">Completed</option>
-                <option value="IN_PROGRESS">In Progress</option>
+                <option value="RUNNING">In Progress</option>
                 <option value="FAILED">Failed</option>
                 <option value="PENDING">Pending</option>
               </select>
@@ -354,7 +422,7 @@ export default function ResearchHistoryPage() {
                           <StatusIcon className="h-3 w-3" />
                           {statusConfig.label}
                         </Badge>
-                        {query.status === 'IN_PROGRESS' && query.progress && (
+                        {query.status === 'RUNNING' && query.progress && (
                           <div className="text-xs text-muted-foreground mt-1">
                             {query.progress}% complete
                           </div>
@@ -376,7 +444,7 @@ export default function ResearchHistoryPage() {
                         <div className="text-sm">
                           <div>{query.tasksCount} tasks</div>
                           <div className="text-xs text-muted-foreground">
-                            {query.briefsCount} insights
+                            {query.insightsCount} insights
                           </div>
                         </div>
                       </TableCell>
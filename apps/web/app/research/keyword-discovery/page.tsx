@@ -2,7 +2,7 @@
 
 import { useState } from 'react'
 import { useSession } from 'next-auth/react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { KeywordDiscoveryForm, KeywordDiscoveryData } from '@/components/research/keyword-discovery-form'
 import { KeywordResultsTable, KeywordResult } from '@/components/results/keyword-results-table'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -10,19 +10,26 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Icons } from '@/components/ui/icons'
 import { cn } from '@/lib/utils'
+import { startResearchQuery } from '@/lib/research'
 
 interface QueryStatus {
   id: string
-  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED'
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED'
   progress?: number
   error?: any
   tasks: Array<{
-    type: string
+    step: string | null
     status: string
-    progress?: number
   }>
 }
 
+interface KeywordDatasetMeta {
+  totalKeywords: number
+  averageSearchVolume?: number
+  lowCompetition?: number
+  commercialIntent?: number
+}
+
 interface QueryResult {
   query: {
     id: string
@@ -34,14 +41,15 @@ interface QueryResult {
   }
   tasks: Array<{
     id: string
-    type: string
+    step: string | null
     status: string
-    datasets: Array<{
-      id: string
-      type: string
-      data: any
-      metadata: any
-    }>
+  }>
+  // Dataset metadata only; rows are paged from /api/datasets/:datasetId/rows
+  datasets: Array<{
+    id: string
+    name: string
+    kind: string
+    meta: KeywordDatasetMeta
   }>
   insights: Array<{
     id: string
@@ -54,10 +62,10 @@ interface QueryResult {
 export default function KeywordDiscoveryPage() {
   const { data: session } = useSession()
   const router = useRouter()
+  const projectId = useSearchParams().get('projectId')
   const [isLoading, setIsLoading] = useState(false)
   const [currentQuery, setCurrentQuery] = useState<QueryStatus | null>(null)
   const [results, setResults] = useState<QueryResult | null>(null)
-  const [keywords, setKeywords] = useState<KeywordResult[]>([])
 
   const handleSubmit = async (data: KeywordDiscoveryData) => {
     if (!session?.user?.accessToken) {
@@ -68,25 +76,15 @@ export default function KeywordDiscoveryPage() {
     setIsLoading(true)
     setCurrentQuery(null)
     setResults(null)
-    setKeywords([])
 
     try {
       // Submit keyword discovery request
-      const response = await fetch('/api/research/keyword-discovery', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session.user.accessToken}`
-        },
-        body: JSON.stringify(data)
-      })
-
-      if (!response.ok) {
-        throw new Error('Failed to start keyword discovery')
+      const queryId = await startResearchQuery('/api/research/keyword-discovery', { ...data, ...(projectId && { projectId }) }, session.user.accessToken)
+      if (!queryId) {
+        setIsLoading(false)
+        return
       }
 
-      const { queryId } = await response.json()
-
       // Poll for status updates
       pollQueryStatus(queryId)
 
@@ -126,7 +124,6 @@ export default function KeywordDiscoveryPage() {
           if (resultsResponse.ok) {
             const resultsData: QueryResult = await resultsResponse.json()
             setResults(resultsData)
-            processKeywordResults(resultsData)
           }
         }
 
@@ -151,42 +148,17 @@ export default function KeywordDiscoveryPage() {
     }, 600000)
   }
 
-  const processKeywordResults = (resultsData: QueryResult) => {
-    // Find keyword dataset
-    const keywordDataset = resultsData.tasks
-      .flatMap(task => task.datasets)
-      .find(dataset => dataset.type === 'KEYWORD_LIST')
-
-    if (keywordDataset?.data) {
-      const processedKeywords: KeywordResult[] = keywordDataset.data.map((kw: any) => ({
-        keyword: kw.keyword,
-        searchVolume: kw.searchVolume || 0,
-        cpc: kw.cpc || 0,
-        competition: kw.competition || 0,
-        competitionLevel: kw.competitionLevel || 'UNKNOWN',
-        keywordDifficulty: kw.keywordDifficulty,
-        trend: kw.trend || 'stable',
-        intent: kw.intent || 'informational',
-        monthlySearches: kw.monthlySearches
-      }))
-
-      setKeywords(processedKeywords)
-    }
-  }
-
-  const handleExport = (format: 'csv' | 'xlsx') => {
-    // Implementation for exporting keywords
-    console.log('Exporting keywords as', format)
-  }
-
   const handleKeywordSelect = (selectedKeywords: KeywordResult[]) => {
     console.log('Selected keywords:', selectedKeywords)
   }
 
+  const keywordDataset = results?.datasets.find(dataset => dataset.kind === 'KEYWORDS')
+  const clusterDataset = results?.datasets.find(dataset => dataset.kind === 'KEYWORD_CLUSTERS')
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'PENDING': return <Icons.clock className="h-4 w-4" />
-      case 'IN_PROGRESS': return <Icons.refresh className="h-4 w-4 animate-spin" />
+      case 'RUNNING': return <Icons.refresh className="h-4 w-4 animate-spin" />
       case 'COMPLETED': return <Icons.checkCircle className="h-4 w-4 text-green-600" />
       case 'FAILED': return <Icons.alertCircle className="h-4 w-4 text-red-600" />
       default: return <Icons.clock className="h-4 w-4" />
@@ -196,7 +168,7 @@ export default function KeywordDiscoveryPage() {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'PENDING': return 'secondary'
-      case 'IN_PROGRESS': return 'warning'
+      case 'RUNNING': return 'warning'
       case 'COMPLETED': return 'success'
       case 'FAILED': return 'destructive'
       default: return 'secondary'
@@ -269,10 +241,9 @@ export default function KeywordDiscoveryPage() {
                       {currentQuery.tasks.map((task, index) => (
                         <div key={index} className="flex items-center justify-between text-sm">
                           <span className="capitalize">
-                            {task.type.replace('_', ' ').toLowerCase()}
+                            {(task.step ?? 'task').replace('_', ' ').toLowerCase()}
                           </span>
                           <div className="flex items-center gap-2">
-                            {task.progress && <span>{task.progress}%</span>}
                             <Badge variant={getStatusColor(task.status) as any} className="text-xs">
                               {task.status.replace('_', ' ')}
                             </Badge>
@@ -295,7 +266,7 @@ export default function KeywordDiscoveryPage() {
           )}
 
           {/* Results Display */}
-          {results && keywords.length > 0 && (
+          {results && keywordDataset && session?.user?.accessToken && keywordDataset.meta.totalKeywords > 0 && (
             <div className="space-y-6">
               {/* Results Summary */}
               <Card>
@@ -308,24 +279,24 @@ export default function KeywordDiscoveryPage() {
                 <CardContent>
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     <div className="text-center">
-                      <div className="text-2xl font-bold">{keywords.length}</div>
+                      <div className="text-2xl font-bold">{keywordDataset.meta.totalKeywords}</div>
                       <div className="text-sm text-muted-foreground">Keywords Found</div>
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold">
-                        {Math.round(keywords.reduce((sum, k) => sum + k.searchVolume, 0) / keywords.length).toLocaleString()}
+                        {(keywordDataset.meta.averageSearchVolume ?? 0).toLocaleString()}
                       </div>
                       <div className="text-sm text-muted-foreground">Avg. Volume</div>
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold">
-                        {keywords.filter(k => k.competitionLevel === 'LOW').length}
+                        {keywordDataset.meta.lowCompetition ?? 0}
                       </div>
                       <div className="text-sm text-muted-foreground">Low Competition</div>
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold">
-                        {keywords.filter(k => k.intent === 'commercial' || k.intent === 'transactional').length}
+                        {keywordDataset.meta.commercialIntent ?? 0}
                       </div>
                       <div className="text-sm text-muted-foreground">Commercial Intent</div>
                     </div>
@@ -381,8 +352,9 @@ export default function KeywordDiscoveryPage() {
                 </CardHeader>
                 <CardContent className="p-0">
                   <KeywordResultsTable
-                    keywords={keywords}
-                    onExport={handleExport}
+                    datasetId={keywordDataset.id}
+                    accessToken={session.user.accessToken}
+                    clusterDatasetId={clusterDataset?.id}
                     onKeywordSelect={handleKeywordSelect}
                   />
                 </CardContent>
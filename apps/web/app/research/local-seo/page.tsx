@@ -0,0 +1,608 @@
+'use client'
+
+import { useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { LocalSeoForm, LocalSeoData } from '@/components/research/local-seo-form'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Icons } from '@/components/ui/icons'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { DatasetExportButton } from '@/components/results/dataset-export-button'
+import { startResearchQuery } from '@/lib/research'
+import { Dataset } from '@/lib/datasets'
+import { LocalSeoResult, LocalCheck, LOCAL_PACK_SIZE } from '@/lib/local-seo'
+import { cn } from '@/lib/utils'
+
+interface QueryStatus {
+  id: string
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED'
+  progress?: number
+  error?: any
+  tasks: Array<{
+    step: string | null
+    status: string
+  }>
+}
+
+interface StrategyInsights {
+  summary?: string
+  insights?: string[]
+  recommendations?: Array<{
+    title: string
+    description: string
+    priority: 'high' | 'medium' | 'low'
+    effort: 'quick' | 'moderate' | 'significant'
+    impact: 'high' | 'medium' | 'low'
+  }>
+  nextSteps?: string[]
+}
+
+interface QueryResult {
+  query: {
+    id: string
+    status: string
+    parameters: LocalSeoData
+    createdAt: string
+    completedAt?: string
+    error?: any
+  }
+  tasks: Array<{
+    id: string
+    step: string
+    status: string
+    cacheHit: boolean
+  }>
+  datasets: Dataset[]
+}
+
+// Colour a Maps position: green in the local pack, yellow on the first page of the list, red beyond
+const positionClass = (position: number | null) => {
+  if (position === null) return 'bg-gray-200 text-gray-500'
+  if (position <= LOCAL_PACK_SIZE) return 'bg-green-500 text-white'
+  if (position <= 10) return 'bg-yellow-400 text-yellow-950'
+  return 'bg-red-500 text-white'
+}
+
+const formatPosition = (position: number | null) => position === null ? '20+' : `${position}`
+
+const formatRating = (rating: number | null) => rating === null ? '—' : rating.toFixed(1)
+
+export default function LocalSeoPage() {
+  const { data: session } = useSession()
+  const router = useRouter()
+  const projectId = useSearchParams().get('projectId')
+  const [isLoading, setIsLoading] = useState(false)
+  const [currentQuery, setCurrentQuery] = useState<QueryStatus | null>(null)
+  const [results, setResults] = useState<QueryResult | null>(null)
+  const [localData, setLocalData] = useState<LocalSeoResult | null>(null)
+  const [insights, setInsights] = useState<StrategyInsights | null>(null)
+  const [selectedKeyword, setSelectedKeyword] = useState<string | null>(null)
+
+  const handleSubmit = async (data: LocalSeoData) => {
+    if (!session?.user?.accessToken) {
+      router.push('/auth/signin')
+      return
+    }
+
+    setIsLoading(true)
+    setCurrentQuery(null)
+    setResults(null)
+    setLocalData(null)
+    setInsights(null)
+
+    try {
+      const queryId = await startResearchQuery('/api/research/local-seo', { ...data, ...(projectId && { projectId }) }, session.user.accessToken)
+      if (!queryId) {
+        setIsLoading(false)
+        return
+      }
+
+      pollQueryStatus(queryId)
+
+    } catch (error) {
+      console.error('Local SEO error:', error)
+      setIsLoading(false)
+    }
+  }
+
+  const pollQueryStatus = async (queryId: string) => {
+    const pollInterval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/research/local-seo/${queryId}/status`, {
+          headers: {
+            'Authorization': `Bearer ${session?.user?.accessToken}`
+          }
+        })
+
+        if (!response.ok) {
+          throw new Error('Failed to get query status')
+        }
+
+        const status: QueryStatus = await response.json()
+        setCurrentQuery(status)
+
+        if (status.status === 'COMPLETED') {
+          clearInterval(pollInterval)
+          setIsLoading(false)
+
+          const resultsResponse = await fetch(`/api/research/local-seo/${queryId}`, {
+            headers: {
+              'Authorization': `Bearer ${session?.user?.accessToken}`
+            }
+          })
+
+          if (resultsResponse.ok) {
+            const resultsData: QueryResult = await resultsResponse.json()
+            setResults(resultsData)
+
+            const localDataset = resultsData.datasets.find(dataset => dataset.kind === 'LOCAL_SEO')
+            if (localDataset?.data) {
+              setLocalData(localDataset.data)
+              setSelectedKeyword(localDataset.data.keywords[0]?.keyword ?? null)
+            }
+
+            const insightsDataset = resultsData.datasets.find(dataset => dataset.kind === 'AI_INSIGHTS')
+            if (insightsDataset?.data) {
+              setInsights(insightsDataset.data)
+            }
+          }
+        }
+
+        if (status.status === 'FAILED') {
+          clearInterval(pollInterval)
+          setIsLoading(false)
+        }
+
+      } catch (error) {
+        console.error('Status polling error:', error)
+        clearInterval(pollInterval)
+        setIsLoading(false)
+      }
+    }, 3000) // Poll every 3 seconds
+
+    setTimeout(() => {
+      clearInterval(pollInterval)
+      if (isLoading) setIsLoading(false)
+    }, 900000) // 15 minutes timeout
+  }
+
+  const localDataset = results?.datasets.find(dataset => dataset.kind === 'LOCAL_SEO')
+
+  // Checks for the selected keyword, by check point label
+  const keywordChecks = new Map<string, LocalCheck>(
+    (localData?.checks || [])
+      .filter(check => check.keyword === selectedKeyword)
+      .map(check => [check.point, check])
+  )
+  const gridPoints = localData?.points.filter(point => point.row !== undefined && point.col !== undefined) || []
+  const namedPoints = localData?.points.filter(point => point.row === undefined) || []
+  const gridSize = gridPoints.length > 0 ? Math.max(...gridPoints.map(point => point.col!)) + 1 : 0
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'PENDING': return <Icons.clock className="h-4 w-4" />
+      case 'RUNNING': return <Icons.refresh className="h-4 w-4 animate-spin" />
+      case 'COMPLETED': return <Icons.checkCircle className="h-4 w-4 text-green-600" />
+      case 'FAILED': return <Icons.alertCircle className="h-4 w-4 text-red-600" />
+      default: return <Icons.clock className="h-4 w-4" />
+    }
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'PENDING': return 'secondary'
+      case 'RUNNING': return 'warning'
+      case 'COMPLETED': return 'success'
+      case 'FAILED': return 'destructive'
+      default: return 'secondary'
+    }
+  }
+
+  const getPriorityColor = (priority: string) => {
+    switch (priority) {
+      case 'high': return 'destructive'
+      case 'medium': return 'warning'
+      default: return 'secondary'
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Local SEO</h1>
+          <p className="text-muted-foreground mt-1">
+            Check a business&apos;s Maps rankings across locations, its local pack share and how it compares with nearby competitors
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => router.back()}>
+          <Icons.arrowRight className="mr-2 h-4 w-4 rotate-180" />
+          Back to Dashboard
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-1">
+          <LocalSeoForm
+            onSubmit={handleSubmit}
+            isLoading={isLoading}
+          />
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          {/* Status Display */}
+          {currentQuery && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {getStatusIcon(currentQuery.status)}
+                  Analysis Status
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">Overall Progress</span>
+                    <Badge variant={getStatusColor(currentQuery.status) as any}>
+                      {currentQuery.status.replace('_', ' ')}
+                    </Badge>
+                  </div>
+
+                  {currentQuery.progress && (
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <span>Progress</span>
+                        <span>{currentQuery.progress}%</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className="bg-primary h-2 rounded-full transition-all duration-300"
+                          style={{ width: `${currentQuery.progress}%` }}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {currentQuery.tasks && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">Tasks</h4>
+                      <div className="text-sm text-muted-foreground">
+                        {currentQuery.tasks.filter(task => task.status === 'COMPLETED').length} of {currentQuery.tasks.length} checks complete
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Local Results */}
+          {results && localData && (
+            <div className="space-y-6">
+              {/* Overview */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Icons.chart className="h-5 w-5" />
+                    {localData.business.name}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="text-center">
+                      <div className="text-2xl font-bold text-green-600">{localData.overview.localPackRate}%</div>
+                      <div className="text-sm text-muted-foreground">In Local Pack</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-2xl font-bold">{localData.overview.foundRate}%</div>
+                      <div className="text-sm text-muted-foreground">Listed</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-2xl font-bold">{localData.overview.averagePosition ?? '—'}</div>
+                      <div className="text-sm text-muted-foreground">Avg. Position</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-2xl font-bold">{localData.overview.shareOfVoice}%</div>
+                      <div className="text-sm text-muted-foreground">Pack Share of Voice</div>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-4 text-center">
+                    {localData.overview.checks} Maps checks: {localData.overview.keywords} keywords from {localData.overview.points} locations
+                  </p>
+                </CardContent>
+              </Card>
+
+              {/* Rankings by Location */}
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle className="flex items-center gap-2">
+                    <Icons.target className="h-5 w-5" />
+                    Rankings by Location
+                  </CardTitle>
+                  {localDataset && session?.user?.accessToken && (
+                    <DatasetExportButton datasetId={localDataset.id} accessToken={session.user.accessToken} />
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-wrap gap-2">
+                    {localData.keywords.map(summary => (
+                      <Button
+                        key={summary.keyword}
+                        type="button"
+                        size="sm"
+                        variant={summary.keyword === selectedKeyword ? 'default' : 'outline'}
+                        onClick={() => setSelectedKeyword(summary.keyword)}
+                      >
+                        {summary.keyword}
+                        <span className="ml-2 text-xs opacity-75">{summary.localPackRate}%</span>
+                      </Button>
+                    ))}
+                  </div>
+
+                  {gridSize > 0 && (
+                    <div className="flex justify-center">
+                      <div
+                        className="grid gap-1"
+                        style={{ gridTemplateColumns: `repeat(${gridSize}, minmax(0, 2.5rem))` }}
+                      >
+                        {gridPoints.map(point => {
+                          const position = keywordChecks.get(point.label)?.position ?? null
+                          return (
+                            <div
+                              key={point.label}
+                              title={`${point.label} (${point.latitude}, ${point.longitude}): ${formatPosition(position)}`}
+                              className={cn(
+                                "h-10 w-10 rounded-full flex items-center justify-center text-sm font-medium",
+                                positionClass(position),
+                                point.label === 'Center' && "ring-2 ring-offset-2 ring-primary"
+                              )}
+                            >
+                              {formatPosition(position)}
+                            </div>
+                          )
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  {namedPoints.length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Location</TableHead>
+                          <TableHead>Position</TableHead>
+                          <TableHead>Local Pack</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {namedPoints.map(point => {
+                          const check = keywordChecks.get(point.label)
+                          return (
+                            <TableRow key={point.label}>
+                              <TableCell className="font-medium">{point.label}</TableCell>
+                              <TableCell>
+                                <span className={cn("inline-flex h-7 min-w-[2rem] px-2 items-center justify-center rounded-full text-xs font-medium", positionClass(check?.position ?? null))}>
+                                  {formatPosition(check?.position ?? null)}
+                                </span>
+                              </TableCell>
+                              <TableCell className="text-sm text-muted-foreground">
+                                {check?.localPack.map(listing => listing.title).join(' · ') || '—'}
+                              </TableCell>
+                            </TableRow>
+                          )
+                        })}
+                      </TableBody>
+                    </Table>
+                  )}
+
+                  <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-full bg-green-500" /> Local pack (1-3)</span>
+                    <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-full bg-yellow-400" /> 4-10</span>
+                    <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-full bg-red-500" /> 11+</span>
+                    <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-full bg-gray-200" /> Not listed</span>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Share of Voice */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Icons.users className="h-5 w-5" />
+                    Local Pack Share of Voice
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Business</TableHead>
+                        <TableHead>Share</TableHead>
+                        <TableHead>Avg. Position</TableHead>
+                        <TableHead>Rating</TableHead>
+                        <TableHead>Reviews</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {localData.shareOfVoice.slice(0, 10).map(entry => (
+                        <TableRow key={`${entry.name}-${entry.domain}`} className={cn(entry.isTarget && "bg-primary/5")}>
+                          <TableCell>
+                            <div className="font-medium">{entry.name}</div>
+                            {entry.domain && <div className="text-xs text-muted-foreground">{entry.domain}</div>}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <div className="w-20 bg-gray-200 rounded-full h-2">
+                                <div
+                                  className={cn("h-2 rounded-full", entry.isTarget ? "bg-primary" : "bg-gray-500")}
+                                  style={{ width: `${Math.min(entry.share * 3, 100)}%` }}
+                                />
+                              </div>
+                              <span className="text-sm">{entry.share}%</span>
+                            </div>
+                          </TableCell>
+                          <TableCell>{entry.averagePosition}</TableCell>
+                          <TableCell>
+                            <span className="inline-flex items-center gap-1">
+                              <Icons.star className="h-3 w-3 text-yellow-500" />
+                              {formatRating(entry.rating)}
+                            </span>
+                          </TableCell>
+                          <TableCell>{entry.reviews.toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {!localData.shareOfVoice.some(entry => entry.isTarget) && (
+                    <p className="text-sm text-muted-foreground mt-3">
+                      {localData.business.name} didn&apos;t appear in any local pack
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Reviews & NAP */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Icons.star className="h-5 w-5" />
+                      Ratings &amp; Reviews
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4 text-center">
+                      <div>
+                        <div className="text-2xl font-bold">{formatRating(localData.ratingComparison.target.rating)}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {localData.ratingComparison.target.reviews.toLocaleString()} reviews
+                        </div>
+                        <div className="text-xs text-muted-foreground">Your listing</div>
+                      </div>
+                      <div>
+                        <div className="text-2xl font-bold">{formatRating(localData.ratingComparison.competitorAverage.rating)}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {localData.ratingComparison.competitorAverage.reviews.toLocaleString()} reviews
+                        </div>
+                        <div className="text-xs text-muted-foreground">Local pack competitors</div>
+                      </div>
+                    </div>
+                    <div className="text-sm text-muted-foreground space-y-1">
+                      <div>{localData.ratingComparison.competitorsWithMoreReviews} competitors have more reviews</div>
+                      <div>{localData.ratingComparison.competitorsRatedHigher} competitors are rated higher</div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Icons.checkCircle className="h-5 w-5" />
+                      NAP Consistency
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {localData.napHints.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        Name, address and phone on the Maps listing match the business details
+                      </p>
+                    ) : (
+                      <div className="space-y-3">
+                        {localData.napHints.map((hint, index) => (
+                          <div key={index} className="flex items-start gap-2 text-sm">
+                            <Icons.alertCircle className={cn(
+                              "h-4 w-4 mt-0.5 flex-shrink-0",
+                              hint.severity === 'warning' ? "text-yellow-600" : "text-muted-foreground"
+                            )} />
+                            <div>
+                              <div>{hint.message}</div>
+                              {hint.values && hint.values.length > 0 && (
+                                <div className="text-xs text-muted-foreground mt-1">{hint.values.join(' · ')}</div>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Local Strategy */}
+              {insights && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Icons.brain className="h-5 w-5" />
+                      Local SEO Strategy
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      {insights.summary && (
+                        <p className="text-sm text-muted-foreground">{insights.summary}</p>
+                      )}
+
+                      {insights.recommendations && insights.recommendations.length > 0 && (
+                        <div className="space-y-3">
+                          {insights.recommendations.map((recommendation, index) => (
+                            <div key={index} className="p-3 border rounded-lg">
+                              <div className="flex items-center justify-between gap-2 mb-1">
+                                <span className="font-medium text-sm">{recommendation.title}</span>
+                                <div className="flex gap-1">
+                                  <Badge variant={getPriorityColor(recommendation.priority) as any} className="text-xs">
+                                    {recommendation.priority} priority
+                                  </Badge>
+                                  <Badge variant="outline" className="text-xs">
+                                    {recommendation.effort} effort
+                                  </Badge>
+                                </div>
+                              </div>
+                              <p className="text-sm text-muted-foreground">{recommendation.description}</p>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {insights.nextSteps && insights.nextSteps.length > 0 && (
+                        <div>
+                          <h4 className="font-medium text-sm mb-2">Next Steps</h4>
+                          <ul className="list-disc pl-5 space-y-1 text-sm text-muted-foreground">
+                            {insights.nextSteps.map((step, index) => (
+                              <li key={index}>{step}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+
+          {/* Empty State */}
+          {!currentQuery && !results && (
+            <Card>
+              <CardContent className="py-12">
+                <div className="text-center">
+                  <Icons.globe className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-medium mb-2">Check Local Visibility</h3>
+                  <p className="text-muted-foreground mb-4">
+                    Enter a business, its keywords and the places its customers search from
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Google Maps is checked from each location or grid point to show where the business makes the
+                    local pack, who takes its place, how its reviews compare and whether its listing details are consistent.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,546 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { OnPageAuditForm, OnPageAuditData } from '@/components/research/onpage-audit-form'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Icons } from '@/components/ui/icons'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { startResearchQuery } from '@/lib/research'
+
+interface QueryStatus {
+  id: string
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED'
+  progress?: number
+  error?: any
+  tasks: Array<{
+    step: string | null
+    status: string
+  }>
+}
+
+interface AuditIssue {
+  id: string
+  label: string
+  severity: 'critical' | 'high' | 'medium' | 'low'
+  category: string
+}
+
+interface AuditedPage {
+  url: string
+  statusCode: number
+  redirectTo: string | null
+  title: string | null
+  metaDescription: string | null
+  headings: { h1: string[]; h2: string[]; h3: string[] }
+  canonical: string | null
+  wordCount: number
+  speed: {
+    timeToInteractive: number | null
+    largestContentfulPaint: number | null
+    cumulativeLayoutShift: number | null
+    pageSize: number
+  }
+  schemaMarkup: { present: boolean; hasErrors: boolean }
+  score: number
+  issues: AuditIssue[]
+}
+
+interface OnPageAuditResult {
+  overview: {
+    pagesAudited: number
+    pagesFailed: number
+    averageScore: number
+    issues: { critical: number; high: number; medium: number; low: number }
+  }
+  pages: AuditedPage[]
+  issueSummary: Array<AuditIssue & {
+    affectedPages: number
+    urls: string[]
+  }>
+  failedUrls: Array<{ url: string; error: string }>
+}
+
+interface TechnicalInsights {
+  summary?: string
+  insights?: string[]
+  recommendations?: Array<{
+    title: string
+    description: string
+    priority: 'high' | 'medium' | 'low'
+    effort: 'quick' | 'moderate' | 'significant'
+    impact: 'high' | 'medium' | 'low'
+  }>
+}
+
+interface QueryResult {
+  query: {
+    id: string
+    status: string
+    parameters: OnPageAuditData
+    createdAt: string
+    completedAt?: string
+    error?: any
+  }
+  tasks: Array<{
+    id: string
+    step: string
+    status: string
+    cacheHit: boolean
+  }>
+  datasets: Array<{
+    id: string
+    name: string
+    kind: string
+    meta: any
+    data: any
+  }>
+}
+
+export default function OnPageAuditPage() {
+  const { data: session } = useSession()
+  const router = useRouter()
+  const projectId = useSearchParams().get('projectId')
+  const [isLoading, setIsLoading] = useState(false)
+  const [currentQuery, setCurrentQuery] = useState<QueryStatus | null>(null)
+  const [results, setResults] = useState<QueryResult | null>(null)
+  const [auditData, setAuditData] = useState<OnPageAuditResult | null>(null)
+  const [insights, setInsights] = useState<TechnicalInsights | null>(null)
+  const [expandedPage, setExpandedPage] = useState<string | null>(null)
+
+  const handleSubmit = async (data: OnPageAuditData) => {
+    if (!session?.user?.accessToken) {
+      router.push('/auth/signin')
+      return
+    }
+
+    setIsLoading(true)
+    setCurrentQuery(null)
+    setResults(null)
+    setAuditData(null)
+    setInsights(null)
+
+    try {
+      const queryId = await startResearchQuery('/api/research/onpage-audit', { ...data, ...(projectId && { projectId }) }, session.user.accessToken)
+      if (!queryId) {
+        setIsLoading(false)
+        return
+      }
+
+      pollQueryStatus(queryId)
+
+    } catch (error) {
+      console.error('On-page audit error:', error)
+      setIsLoading(false)
+    }
+  }
+
+  const pollQueryStatus = async (queryId: string) => {
+    const pollInterval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/research/onpage-audit/${queryId}/status`, {
+          headers: {
+            'Authorization': `Bearer ${session?.user?.accessToken}`
+          }
+        })
+
+        if (!response.ok) {
+          throw new Error('Failed to get query status')
+        }
+
+        const status: QueryStatus = await response.json()
+        setCurrentQuery(status)
+
+        if (status.status === 'COMPLETED') {
+          clearInterval(pollInterval)
+          setIsLoading(false)
+
+          const resultsResponse = await fetch(`/api/research/onpage-audit/${queryId}`, {
+            headers: {
+              'Authorization': `Bearer ${session?.user?.accessToken}`
+            }
+          })
+
+          if (resultsResponse.ok) {
+            const resultsData: QueryResult = await resultsResponse.json()
+            setResults(resultsData)
+
+            const auditDataset = resultsData.datasets.find(dataset => dataset.kind === 'ONPAGE')
+            if (auditDataset?.data) {
+              setAuditData(auditDataset.data)
+            }
+
+            const insightsDataset = resultsData.datasets.find(dataset => dataset.kind === 'AI_INSIGHTS')
+            if (insightsDataset?.data) {
+              setInsights(insightsDataset.data)
+            }
+          }
+        }
+
+        if (status.status === 'FAILED') {
+          clearInterval(pollInterval)
+          setIsLoading(false)
+        }
+
+      } catch (error) {
+        console.error('Status polling error:', error)
+        clearInterval(pollInterval)
+        setIsLoading(false)
+      }
+    }, 3000) // Poll every 3 seconds
+
+    setTimeout(() => {
+      clearInterval(pollInterval)
+      if (isLoading) setIsLoading(false)
+    }, 600000) // 10 minutes timeout
+  }
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'PENDING': return <Icons.clock className="h-4 w-4" />
+      case 'RUNNING': return <Icons.refresh className="h-4 w-4 animate-spin" />
+      case 'COMPLETED': return <Icons.checkCircle className="h-4 w-4 text-green-600" />
+      case 'FAILED': return <Icons.alertCircle className="h-4 w-4 text-red-600" />
+      default: return <Icons.clock className="h-4 w-4" />
+    }
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'PENDING': return 'secondary'
+      case 'RUNNING': return 'warning'
+      case 'COMPLETED': return 'success'
+      case 'FAILED': return 'destructive'
+      default: return 'secondary'
+    }
+  }
+
+  const getSeverityColor = (severity: string) => {
+    switch (severity) {
+      case 'critical': return 'destructive'
+      case 'high': return 'warning'
+      case 'medium': return 'secondary'
+      default: return 'outline'
+    }
+  }
+
+  const getScoreColor = (score: number) => {
+    if (score >= 80) return 'text-green-600'
+    if (score >= 50) return 'text-yellow-600'
+    return 'text-red-600'
+  }
+
+  const formatSeconds = (ms: number | null) => {
+    return ms === null ? '—' : `${(ms / 1000).toFixed(1)}s`
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">On-Page Audit</h1>
+          <p className="text-muted-foreground mt-1">
+            Check titles, headings, canonicals, speed and structured data, with prioritized fixes
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => router.back()}>
+          <Icons.arrowRight className="mr-2 h-4 w-4 rotate-180" />
+          Back to Dashboard
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-1">
+          <OnPageAuditForm
+            onSubmit={handleSubmit}
+            isLoading={isLoading}
+          />
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          {/* Status Display */}
+          {currentQuery && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {getStatusIcon(currentQuery.status)}
+                  Analysis Status
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">Overall Progress</span>
+                    <Badge variant={getStatusColor(currentQuery.status) as any}>
+                      {currentQuery.status.replace('_', ' ')}
+                    </Badge>
+                  </div>
+
+                  {currentQuery.progress && (
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <span>Progress</span>
+                        <span>{currentQuery.progress}%</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className="bg-primary h-2 rounded-full transition-all duration-300"
+                          style={{ width: `${currentQuery.progress}%` }}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {currentQuery.tasks && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">Tasks</h4>
+                      {currentQuery.tasks.map((task, index) => (
+                        <div key={index} className="flex items-center justify-between text-sm">
+                          <span className="capitalize">
+                            {(task.step ?? 'task').replace(/_/g, ' ').toLowerCase()}
+                          </span>
+                          <Badge variant={getStatusColor(task.status) as any} className="text-xs">
+                            {task.status.replace('_', ' ')}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Audit Results */}
+          {results && auditData && (
+            <div className="space-y-6">
+              {/* Score Overview */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Icons.chart className="h-5 w-5" />
+                    Audit Overview
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                    <div className="text-center">
+                      <div className={`text-2xl font-bold ${getScoreColor(auditData.overview.averageScore)}`}>
+                        {auditData.overview.averageScore}
+                      </div>
+                      <div className="text-sm text-muted-foreground">Average Score</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-2xl font-bold">{auditData.overview.pagesAudited}</div>
+                      <div className="text-sm text-muted-foreground">Pages Audited</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-2xl font-bold text-red-600">{auditData.overview.issues.critical}</div>
+                      <div className="text-sm text-muted-foreground">Critical</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-2xl font-bold text-yellow-600">{auditData.overview.issues.high}</div>
+                      <div className="text-sm text-muted-foreground">High</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-2xl font-bold">
+                        {auditData.overview.issues.medium + auditData.overview.issues.low}
+                      </div>
+                      <div className="text-sm text-muted-foreground">Medium &amp; Low</div>
+                    </div>
+                  </div>
+
+                  {auditData.failedUrls.length > 0 && (
+                    <div className="mt-4 space-y-1">
+                      {auditData.failedUrls.map((failed) => (
+                        <p key={failed.url} className="text-sm text-red-600 flex items-center gap-2">
+                          <Icons.alertCircle className="h-4 w-4" />
+                          {failed.url}: {failed.error}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Prioritized Fixes */}
+              {insights && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Icons.brain className="h-5 w-5" />
+                      Prioritized Fixes
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      {insights.summary && (
+                        <p className="text-sm text-muted-foreground">{insights.summary}</p>
+                      )}
+
+                      {insights.recommendations && insights.recommendations.length > 0 && (
+                        <div className="space-y-3">
+                          {insights.recommendations.map((recommendation, index) => (
+                            <div key={index} className="p-3 border rounded-lg">
+                              <div className="flex items-center justify-between gap-2 mb-1">
+                                <span className="font-medium text-sm">{recommendation.title}</span>
+                                <div className="flex gap-1">
+                                  <Badge variant={getSeverityColor(recommendation.priority) as any} className="text-xs">
+                                    {recommendation.priority} priority
+                                  </Badge>
+                                  <Badge variant="outline" className="text-xs">
+                                    {recommendation.effort} effort
+                                  </Badge>
+                                </div>
+                              </div>
+                              <p className="text-sm text-muted-foreground">{recommendation.description}</p>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Issues Summary */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Icons.alertCircle className="h-5 w-5" />
+                    Issues
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {auditData.issueSummary.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No issues found.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Issue</TableHead>
+                          <TableHead>Severity</TableHead>
+                          <TableHead>Category</TableHead>
+                          <TableHead>Affected Pages</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {auditData.issueSummary.map((issue) => (
+                          <TableRow key={issue.id}>
+                            <TableCell className="font-medium">{issue.label}</TableCell>
+                            <TableCell>
+                              <Badge variant={getSeverityColor(issue.severity) as any}>{issue.severity}</Badge>
+                            </TableCell>
+                            <TableCell className="capitalize">{issue.category}</TableCell>
+                            <TableCell>{issue.affectedPages}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Pages */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Icons.fileText className="h-5 w-5" />
+                    Pages
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>URL</TableHead>
+                        <TableHead>Score</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>LCP</TableHead>
+                        <TableHead>CLS</TableHead>
+                        <TableHead>Words</TableHead>
+                        <TableHead>Issues</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {auditData.pages.map((page) => (
+                        <Fragment key={page.url}>
+                          <TableRow
+                            className="cursor-pointer"
+                            onClick={() => setExpandedPage(expandedPage === page.url ? null : page.url)}
+                          >
+                            <TableCell className="max-w-xs truncate font-medium">
+                              <span className="inline-flex items-center gap-1">
+                                {expandedPage === page.url
+                                  ? <Icons.chevronDown className="h-3 w-3" />
+                                  : <Icons.chevronRight className="h-3 w-3" />}
+                                {page.url.replace(/^https?:\/\//, '')}
+                              </span>
+                            </TableCell>
+                            <TableCell className={`font-bold ${getScoreColor(page.score)}`}>{page.score}</TableCell>
+                            <TableCell>{page.statusCode}</TableCell>
+                            <TableCell>{formatSeconds(page.speed.largestContentfulPaint)}</TableCell>
+                            <TableCell>{page.speed.cumulativeLayoutShift?.toFixed(2) ?? '—'}</TableCell>
+                            <TableCell>{page.wordCount.toLocaleString()}</TableCell>
+                            <TableCell>{page.issues.length}</TableCell>
+                          </TableRow>
+                          {expandedPage === page.url && (
+                            <TableRow>
+                              <TableCell colSpan={7}>
+                                <div className="space-y-2 text-sm py-2">
+                                  <div><span className="font-medium">Title:</span> {page.title || '—'}</div>
+                                  <div><span className="font-medium">Meta description:</span> {page.metaDescription || '—'}</div>
+                                  <div><span className="font-medium">H1:</span> {page.headings.h1.join(' | ') || '—'}</div>
+                                  <div><span className="font-medium">Canonical:</span> {page.canonical || '—'}</div>
+                                  <div>
+                                    <span className="font-medium">Structured data:</span>{' '}
+                                    {page.schemaMarkup.present ? (page.schemaMarkup.hasErrors ? 'present, with errors' : 'present') : 'none'}
+                                  </div>
+                                  {page.issues.length > 0 && (
+                                    <div className="flex flex-wrap gap-1 pt-1">
+                                      {page.issues.map((issue) => (
+                                        <Badge key={issue.id} variant={getSeverityColor(issue.severity) as any} className="text-xs">
+                                          {issue.label}
+                                        </Badge>
+                                      ))}
+                                    </div>
+                                  )}
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          {/* Empty State */}
+          {!currentQuery && !results && (
+            <Card>
+              <CardContent className="py-12">
+                <div className="text-center">
+                  <Icons.zap className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-medium mb-2">Start an On-Page Audit</h3>
+                  <p className="text-muted-foreground mb-4">
+                    Add the pages you want to check
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Each page is crawled and rendered, scored against common technical SEO
+                    issues, and given a prioritized list of fixes.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,24 +1,28 @@
 'use client'
 
-import { useState } from 'react'
+import { Fragment, useState } from 'react'
 import { useSession } from 'next-auth/react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { SerpAnalysisForm, SerpAnalysisData } from '@/components/research/serp-analysis-form'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Icons } from '@/components/ui/icons'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { DatasetExportButton } from '@/components/results/dataset-export-button'
+import { SerpHistoryTimeline, SerpHistory } from '@/components/results/serp-history-timeline'
+import { KeywordDifficultyBreakdown, KeywordDifficulty } from '@/components/results/keyword-difficulty-breakdown'
+import { startResearchQuery } from '@/lib/research'
+import { Dataset } from '@/lib/datasets'
 
 interface QueryStatus {
   id: string
-  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED'
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED'
   progress?: number
   error?: any
   tasks: Array<{
-    type: string
+    step: string | null
     status: string
-    progress?: number
   }>
 }
 
@@ -38,6 +42,8 @@ interface SerpResult {
   serpFeatures: string[]
   contentTypes: { [key: string]: number }
   keywordDifficulty: number
+  // Organic results only
+  difficulty?: KeywordDifficulty
 }
 
 interface QueryResult {
@@ -51,15 +57,10 @@ interface QueryResult {
   }
   tasks: Array<{
     id: string
-    type: string
+    step: string | null
     status: string
-    datasets: Array<{
-      id: string
-      type: string
-      data: any
-      metadata: any
-    }>
   }>
+  datasets: Dataset[]
   insights: Array<{
     id: string
     type: string
@@ -71,10 +72,12 @@ interface QueryResult {
 export default function SerpAnalysisPage() {
   const { data: session } = useSession()
   const router = useRouter()
+  const projectId = useSearchParams().get('projectId')
   const [isLoading, setIsLoading] = useState(false)
   const [currentQuery, setCurrentQuery] = useState<QueryStatus | null>(null)
   const [results, setResults] = useState<QueryResult | null>(null)
   const [serpResults, setSerpResults] = useState<SerpResult[]>([])
+  const [expandedResult, setExpandedResult] = useState<number | null>(null)
 
   const handleSubmit = async (data: SerpAnalysisData) => {
     if (!session?.user?.accessToken) {
@@ -86,22 +89,15 @@ export default function SerpAnalysisPage() {
     setCurrentQuery(null)
     setResults(null)
     setSerpResults([])
+    setExpandedResult(null)
 
     try {
-      const response = await fetch('/api/research/serp-analysis', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session.user.accessToken}`
-        },
-        body: JSON.stringify(data)
-      })
-
-      if (!response.ok) {
-        throw new Error('Failed to start SERP analysis')
+      const queryId = await startResearchQuery('/api/research/serp-analysis', { ...data, ...(projectId && { projectId }) }, session.user.accessToken)
+      if (!queryId) {
+        setIsLoading(false)
+        return
       }
 
-      const { queryId } = await response.json()
       pollQueryStatus(queryId)
 
     } catch (error) {
@@ -162,19 +158,21 @@ export default function SerpAnalysisPage() {
   }
 
   const processSerpResults = (resultsData: QueryResult) => {
-    const serpDataset = resultsData.tasks
-      .flatMap(task => task.datasets)
-      .find(dataset => dataset.type === 'SERP_DATA')
+    const serpDataset = resultsData.datasets.find(dataset => dataset.kind === 'SERP')
 
     if (serpDataset?.data) {
       setSerpResults(serpDataset.data)
     }
   }
 
+  const serpDataset = results?.datasets.find(dataset => dataset.kind === 'SERP')
+  const historyDataset = results?.datasets.find(dataset => dataset.kind === 'SERP_HISTORY')
+  const histories: SerpHistory[] = historyDataset?.data || []
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'PENDING': return <Icons.clock className="h-4 w-4" />
-      case 'IN_PROGRESS': return <Icons.refresh className="h-4 w-4 animate-spin" />
+      case 'RUNNING': return <Icons.refresh className="h-4 w-4 animate-spin" />
       case 'COMPLETED': return <Icons.checkCircle className="h-4 w-4 text-green-600" />
       case 'FAILED': return <Icons.alertCircle className="h-4 w-4 text-red-600" />
       default: return <Icons.clock className="h-4 w-4" />
@@ -184,7 +182,7 @@ export default function SerpAnalysisPage() {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'PENDING': return 'secondary'
-      case 'IN_PROGRESS': return 'warning'
+      case 'RUNNING': return 'warning'
       case 'COMPLETED': return 'success'
       case 'FAILED': return 'destructive'
       default: return 'secondary'
@@ -266,7 +264,7 @@ export default function SerpAnalysisPage() {
                       {currentQuery.tasks.map((task, index) => (
                         <div key={index} className="flex items-center justify-between text-sm">
                           <span className="capitalize">
-                            {task.type.replace('_', ' ').toLowerCase()}
+                            {(task.step ?? 'task').replace('_', ' ').toLowerCase()}
                           </span>
                           <Badge variant={getStatusColor(task.status) as any} className="text-xs">
                             {task.status.replace('_', ' ')}
@@ -344,11 +342,14 @@ export default function SerpAnalysisPage() {
 
               {/* Detailed Results Table */}
               <Card>
-                <CardHeader>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
                   <CardTitle className="flex items-center gap-2">
                     <Icons.fileText className="h-5 w-5" />
                     Keyword Results
                   </CardTitle>
+                  {serpDataset && session?.user?.accessToken && (
+                    <DatasetExportButton datasetId={serpDataset.id} accessToken={session.user.accessToken} />
+                  )}
                 </CardHeader>
                 <CardContent>
                   <Table>
@@ -364,53 +365,72 @@ export default function SerpAnalysisPage() {
                     </TableHeader>
                     <TableBody>
                       {serpResults.map((result, index) => (
-                        <TableRow key={index}>
-                          <TableCell className="font-medium">{result.keyword}</TableCell>
-                          <TableCell>
-                            <Badge variant={result.type === 'organic' ? 'default' : 'secondary'}>
-                              {result.type}
-                            </Badge>
-                          </TableCell>
-                          <TableCell>{result.totalResults.toLocaleString()}</TableCell>
-                          <TableCell>
-                            <div className="flex items-center gap-2">
-                              <span className={`font-medium ${
-                                result.keywordDifficulty <= 30 ? 'text-green-600' :
-                                result.keywordDifficulty <= 60 ? 'text-yellow-600' :
-                                'text-red-600'
-                              }`}>
-                                {result.keywordDifficulty}
+                        <Fragment key={index}>
+                          <TableRow
+                            className={result.difficulty ? 'cursor-pointer' : undefined}
+                            onClick={() => result.difficulty && setExpandedResult(expandedResult === index ? null : index)}
+                          >
+                            <TableCell className="font-medium">
+                              <span className="inline-flex items-center gap-1">
+                                {result.difficulty && (expandedResult === index
+                                  ? <Icons.chevronDown className="h-3 w-3" />
+                                  : <Icons.chevronRight className="h-3 w-3" />)}
+                                {result.keyword}
                               </span>
-                              <div className="w-16 bg-gray-200 rounded-full h-1.5">
-                                <div
-                                  className={`h-1.5 rounded-full ${
-                                    result.keywordDifficulty <= 30 ? 'bg-green-500' :
-                                    result.keywordDifficulty <= 60 ? 'bg-yellow-500' :
-                                    'bg-red-500'
-                                  }`}
-                                  style={{ width: `${result.keywordDifficulty}%` }}
-                                />
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={result.type === 'organic' ? 'default' : 'secondary'}>
+                                {result.type}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>{result.totalResults.toLocaleString()}</TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <span className={`font-medium ${
+                                  result.keywordDifficulty <= 30 ? 'text-green-600' :
+                                  result.keywordDifficulty <= 60 ? 'text-yellow-600' :
+                                  'text-red-600'
+                                }`}>
+                                  {result.keywordDifficulty}
+                                </span>
+                                <div className="w-16 bg-gray-200 rounded-full h-1.5">
+                                  <div
+                                    className={`h-1.5 rounded-full ${
+                                      result.keywordDifficulty <= 30 ? 'bg-green-500' :
+                                      result.keywordDifficulty <= 60 ? 'bg-yellow-500' :
+                                      'bg-red-500'
+                                    }`}
+                                    style={{ width: `${result.keywordDifficulty}%` }}
+                                  />
+                                </div>
                               </div>
-                            </div>
-                          </TableCell>
-                          <TableCell>
-                            <div className="flex flex-wrap gap-1">
-                              {result.serpFeatures.slice(0, 3).map(feature => (
-                                <Badge key={feature} variant="outline" className="text-xs">
-                                  {feature.replace('_', ' ')}
-                                </Badge>
-                              ))}
-                              {result.serpFeatures.length > 3 && (
-                                <Badge variant="outline" className="text-xs">
-                                  +{result.serpFeatures.length - 3}
-                                </Badge>
-                              )}
-                            </div>
-                          </TableCell>
-                          <TableCell>
-                            {result.items.find(item => item.position === 1)?.domain || 'N/A'}
-                          </TableCell>
-                        </TableRow>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex flex-wrap gap-1">
+                                {result.serpFeatures.slice(0, 3).map(feature => (
+                                  <Badge key={feature} variant="outline" className="text-xs">
+                                    {feature.replace('_', ' ')}
+                                  </Badge>
+                                ))}
+                                {result.serpFeatures.length > 3 && (
+                                  <Badge variant="outline" className="text-xs">
+                                    +{result.serpFeatures.length - 3}
+                                  </Badge>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              {result.items.find(item => item.position === 1)?.domain || 'N/A'}
+                            </TableCell>
+                          </TableRow>
+                          {expandedResult === index && result.difficulty && (
+                            <TableRow>
+                              <TableCell colSpan={6}>
+                                <KeywordDifficultyBreakdown difficulty={result.difficulty} className="py-2" />
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
                       ))}
                     </TableBody>
                   </Table>
@@ -467,6 +487,32 @@ export default function SerpAnalysisPage() {
             </div>
           )}
 
+          {/* SERP History */}
+          {historyDataset && (
+            <div className="space-y-6">
+              {histories.map(history => (
+                <Card key={history.keyword}>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                    <CardTitle className="flex items-center gap-2">
+                      <Icons.clock className="h-5 w-5" />
+                      SERP History: {history.keyword}
+                    </CardTitle>
+                    {session?.user?.accessToken && (
+                      <DatasetExportButton
+                        datasetId={historyDataset.id}
+                        accessToken={session.user.accessToken}
+                        selectedKeywords={[history.keyword]}
+                      />
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    <SerpHistoryTimeline history={history} />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
           {/* Empty State */}
           {!currentQuery && !results && (
             <Card>
@@ -0,0 +1,567 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { TrendAnalysisForm, TrendAnalysisData } from '@/components/research/trend-analysis-form'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Icons } from '@/components/ui/icons'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { LineChart } from '@/components/results/line-chart'
+import { DatasetExportButton } from '@/components/results/dataset-export-button'
+import { startResearchQuery } from '@/lib/research'
+import { Dataset } from '@/lib/datasets'
+import { TrendAnalysisResult, MONTH_NAMES, SEASONALITY_LABELS } from '@/lib/trends'
+import { cn } from '@/lib/utils'
+
+interface QueryStatus {
+  id: string
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED'
+  progress?: number
+  error?: any
+  tasks: Array<{
+    step: string | null
+    status: string
+  }>
+}
+
+interface CalendarInsights {
+  summary?: string
+  insights?: string[]
+  recommendations?: Array<{
+    title: string
+    description: string
+    priority: 'high' | 'medium' | 'low'
+    effort: 'quick' | 'moderate' | 'significant'
+    impact: 'high' | 'medium' | 'low'
+  }>
+  nextSteps?: string[]
+}
+
+interface QueryResult {
+  query: {
+    id: string
+    status: string
+    parameters: TrendAnalysisData
+    createdAt: string
+    completedAt?: string
+    error?: any
+  }
+  tasks: Array<{
+    id: string
+    step: string
+    status: string
+    cacheHit: boolean
+  }>
+  datasets: Dataset[]
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC'
+  })
+}
+
+const formatPercent = (value: number | null) => {
+  if (value === null) return '—'
+  return `${value > 0 ? '+' : ''}${value}%`
+}
+
+// Shade a monthly index cell: 100 is the keyword's average month
+const profileCellClass = (value: number) => {
+  if (value >= 150) return 'bg-green-600 text-white'
+  if (value >= 120) return 'bg-green-400 text-white'
+  if (value >= 90) return 'bg-green-100 text-green-900'
+  if (value >= 70) return 'bg-gray-100 text-gray-700'
+  return 'bg-gray-50 text-gray-400'
+}
+
+export default function TrendAnalysisPage() {
+  const { data: session } = useSession()
+  const router = useRouter()
+  const projectId = useSearchParams().get('projectId')
+  const [isLoading, setIsLoading] = useState(false)
+  const [currentQuery, setCurrentQuery] = useState<QueryStatus | null>(null)
+  const [results, setResults] = useState<QueryResult | null>(null)
+  const [trendData, setTrendData] = useState<TrendAnalysisResult | null>(null)
+  const [insights, setInsights] = useState<CalendarInsights | null>(null)
+  const [expandedKeyword, setExpandedKeyword] = useState<string | null>(null)
+
+  const handleSubmit = async (data: TrendAnalysisData) => {
+    if (!session?.user?.accessToken) {
+      router.push('/auth/signin')
+      return
+    }
+
+    setIsLoading(true)
+    setCurrentQuery(null)
+    setResults(null)
+    setTrendData(null)
+    setInsights(null)
+
+    try {
+      const queryId = await startResearchQuery('/api/research/trend-analysis', { ...data, ...(projectId && { projectId }) }, session.user.accessToken)
+      if (!queryId) {
+        setIsLoading(false)
+        return
+      }
+
+      pollQueryStatus(queryId)
+
+    } catch (error) {
+      console.error('Trend analysis error:', error)
+      setIsLoading(false)
+    }
+  }
+
+  const pollQueryStatus = async (queryId: string) => {
+    const pollInterval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/research/trend-analysis/${queryId}/status`, {
+          headers: {
+            'Authorization': `Bearer ${session?.user?.accessToken}`
+          }
+        })
+
+        if (!response.ok) {
+          throw new Error('Failed to get query status')
+        }
+
+        const status: QueryStatus = await response.json()
+        setCurrentQuery(status)
+
+        if (status.status === 'COMPLETED') {
+          clearInterval(pollInterval)
+          setIsLoading(false)
+
+          const resultsResponse = await fetch(`/api/research/trend-analysis/${queryId}`, {
+            headers: {
+              'Authorization': `Bearer ${session?.user?.accessToken}`
+            }
+          })
+
+          if (resultsResponse.ok) {
+            const resultsData: QueryResult = await resultsResponse.json()
+            setResults(resultsData)
+
+            const trendsDataset = resultsData.datasets.find(dataset => dataset.kind === 'TRENDS')
+            if (trendsDataset?.data) {
+              setTrendData(trendsDataset.data)
+            }
+
+            const insightsDataset = resultsData.datasets.find(dataset => dataset.kind === 'AI_INSIGHTS')
+            if (insightsDataset?.data) {
+              setInsights(insightsDataset.data)
+            }
+          }
+        }
+
+        if (status.status === 'FAILED') {
+          clearInterval(pollInterval)
+          setIsLoading(false)
+        }
+
+      } catch (error) {
+        console.error('Status polling error:', error)
+        clearInterval(pollInterval)
+        setIsLoading(false)
+      }
+    }, 3000) // Poll every 3 seconds
+
+    setTimeout(() => {
+      clearInterval(pollInterval)
+      if (isLoading) setIsLoading(false)
+    }, 600000) // 10 minutes timeout
+  }
+
+  const trendsDataset = results?.datasets.find(dataset => dataset.kind === 'TRENDS')
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'PENDING': return <Icons.clock className="h-4 w-4" />
+      case 'RUNNING': return <Icons.refresh className="h-4 w-4 animate-spin" />
+      case 'COMPLETED': return <Icons.checkCircle className="h-4 w-4 text-green-600" />
+      case 'FAILED': return <Icons.alertCircle className="h-4 w-4 text-red-600" />
+      default: return <Icons.clock className="h-4 w-4" />
+    }
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'PENDING': return 'secondary'
+      case 'RUNNING': return 'warning'
+      case 'COMPLETED': return 'success'
+      case 'FAILED': return 'destructive'
+      default: return 'secondary'
+    }
+  }
+
+  const getPriorityColor = (priority: string) => {
+    switch (priority) {
+      case 'high': return 'destructive'
+      case 'medium': return 'warning'
+      default: return 'secondary'
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Trends &amp; Seasonality</h1>
+          <p className="text-muted-foreground mt-1">
+            Find seasonal peaks, year-over-year growth and breakout searches, and plan when to publish
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => router.back()}>
+          <Icons.arrowRight className="mr-2 h-4 w-4 rotate-180" />
+          Back to Dashboard
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-1">
+          <TrendAnalysisForm
+            onSubmit={handleSubmit}
+            isLoading={isLoading}
+          />
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          {/* Status Display */}
+          {currentQuery && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {getStatusIcon(currentQuery.status)}
+                  Analysis Status
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">Overall Progress</span>
+                    <Badge variant={getStatusColor(currentQuery.status) as any}>
+                      {currentQuery.status.replace('_', ' ')}
+                    </Badge>
+                  </div>
+
+                  {currentQuery.progress && (
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <span>Progress</span>
+                        <span>{currentQuery.progress}%</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className="bg-primary h-2 rounded-full transition-all duration-300"
+                          style={{ width: `${currentQuery.progress}%` }}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {currentQuery.tasks && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">Tasks</h4>
+                      {currentQuery.tasks.map((task, index) => (
+                        <div key={index} className="flex items-center justify-between text-sm">
+                          <span className="capitalize truncate">
+                            {(task.step ?? 'task').replace(/_/g, ' ').toLowerCase()}
+                          </span>
+                          <Badge variant={getStatusColor(task.status) as any} className="text-xs">
+                            {task.status.replace('_', ' ')}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Trend Results */}
+          {results && trendData && (
+            <div className="space-y-6">
+              {/* Overview */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Icons.chart className="h-5 w-5" />
+                    Trend Overview
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="text-center">
+                      <div className="text-2xl font-bold">{trendData.overview.keywordsAnalyzed}</div>
+                      <div className="text-sm text-muted-foreground">Keywords</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-2xl font-bold">{trendData.overview.seasonalKeywords}</div>
+                      <div className="text-sm text-muted-foreground">Seasonal</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-2xl font-bold text-green-600">{trendData.overview.risingKeywords}</div>
+                      <div className="text-sm text-muted-foreground">Growing YoY</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-2xl font-bold text-orange-600">{trendData.overview.breakoutKeywords}</div>
+                      <div className="text-sm text-muted-foreground">Breaking Out</div>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Content Calendar */}
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle className="flex items-center gap-2">
+                    <Icons.calendar className="h-5 w-5" />
+                    Content Calendar
+                  </CardTitle>
+                  {trendsDataset && session?.user?.accessToken && (
+                    <DatasetExportButton datasetId={trendsDataset.id} accessToken={session.user.accessToken} />
+                  )}
+                </CardHeader>
+                <CardContent>
+                  {trendData.calendar.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      None of these keywords has a seasonal peak or growing interest to plan around.
+                    </p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Publish By</TableHead>
+                          <TableHead>Keyword</TableHead>
+                          <TableHead>Season</TableHead>
+                          <TableHead>Season Starts</TableHead>
+                          <TableHead>Peak</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {trendData.calendar.map((entry) => (
+                          <TableRow key={`${entry.keyword}-${entry.seasonStart}`}>
+                            <TableCell className="font-medium whitespace-nowrap">{formatDate(entry.publishBy)}</TableCell>
+                            <TableCell>{entry.keyword}</TableCell>
+                            <TableCell>
+                              {entry.type === 'rising' ? (
+                                <Badge variant="success" className="text-xs">Rising now</Badge>
+                              ) : entry.season}
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {entry.type === 'seasonal' ? formatDate(entry.seasonStart) : '—'}
+                            </TableCell>
+                            <TableCell>
+                              {entry.peakMonth ? `${MONTH_NAMES[entry.peakMonth - 1]} (${entry.peakIndex})` : '—'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-3">
+                    Publish-by dates are {trendData.overview.leadTimeWeeks} weeks before each season starts.
+                    Peak values are interest indexes, where 100 is the keyword&apos;s average month.
+                  </p>
+                </CardContent>
+              </Card>
+
+              {/* Calendar Recommendations */}
+              {insights && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Icons.brain className="h-5 w-5" />
+                      Seasonal Strategy
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      {insights.summary && (
+                        <p className="text-sm text-muted-foreground">{insights.summary}</p>
+                      )}
+
+                      {insights.recommendations && insights.recommendations.length > 0 && (
+                        <div className="space-y-3">
+                          {insights.recommendations.map((recommendation, index) => (
+                            <div key={index} className="p-3 border rounded-lg">
+                              <div className="flex items-center justify-between gap-2 mb-1">
+                                <span className="font-medium text-sm">{recommendation.title}</span>
+                                <div className="flex gap-1">
+                                  <Badge variant={getPriorityColor(recommendation.priority) as any} className="text-xs">
+                                    {recommendation.priority} priority
+                                  </Badge>
+                                  <Badge variant="outline" className="text-xs">
+                                    {recommendation.effort} effort
+                                  </Badge>
+                                </div>
+                              </div>
+                              <p className="text-sm text-muted-foreground">{recommendation.description}</p>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {insights.nextSteps && insights.nextSteps.length > 0 && (
+                        <div>
+                          <h4 className="font-medium text-sm mb-2">Next Steps</h4>
+                          <ul className="list-disc pl-5 space-y-1 text-sm text-muted-foreground">
+                            {insights.nextSteps.map((step, index) => (
+                              <li key={index}>{step}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Seasonality by Keyword */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Icons.trending className="h-5 w-5" />
+                    Seasonality by Keyword
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Keyword</TableHead>
+                          {MONTH_NAMES.map(month => (
+                            <TableHead key={month} className="px-1 text-center text-xs">{month}</TableHead>
+                          ))}
+                          <TableHead>YoY</TableHead>
+                          <TableHead>Pattern</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {trendData.keywords.map((trend) => (
+                          <Fragment key={trend.keyword}>
+                            <TableRow
+                              className="cursor-pointer"
+                              onClick={() => setExpandedKeyword(expandedKeyword === trend.keyword ? null : trend.keyword)}
+                            >
+                              <TableCell className="font-medium">
+                                <span className="inline-flex items-center gap-1">
+                                  {expandedKeyword === trend.keyword
+                                    ? <Icons.chevronDown className="h-3 w-3" />
+                                    : <Icons.chevronRight className="h-3 w-3" />}
+                                  {trend.keyword}
+                                </span>
+                              </TableCell>
+                              {trend.monthlyProfile.map((value, month) => (
+                                <TableCell key={month} className="px-1 py-1">
+                                  <div
+                                    className={cn("rounded text-center text-[10px] leading-6", profileCellClass(value))}
+                                    title={`${MONTH_NAMES[month]}: ${value}`}
+                                  >
+                                    {value}
+                                  </div>
+                                </TableCell>
+                              ))}
+                              <TableCell className={cn(
+                                "whitespace-nowrap",
+                                trend.yoyGrowth !== null && trend.yoyGrowth > 0 && "text-green-600",
+                                trend.yoyGrowth !== null && trend.yoyGrowth < 0 && "text-red-600"
+                              )}>
+                                {formatPercent(trend.yoyGrowth)}
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex flex-wrap gap-1">
+                                  <Badge variant={trend.seasonality === 'low' ? 'outline' : 'secondary'} className="text-xs whitespace-nowrap">
+                                    {SEASONALITY_LABELS[trend.seasonality]}
+                                  </Badge>
+                                  {trend.breakout && (
+                                    <Badge variant="warning" className="text-xs">Breakout</Badge>
+                                  )}
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                            {expandedKeyword === trend.keyword && (
+                              <TableRow>
+                                <TableCell colSpan={15}>
+                                  <div className="space-y-2 py-2">
+                                    <LineChart
+                                      points={trend.series.map(point => ({
+                                        label: formatDate(point.month).replace(/ \d+,/, ''),
+                                        value: point.value
+                                      }))}
+                                    />
+                                    <div className="text-xs text-muted-foreground">
+                                      Last 3 months vs the year before: {formatPercent(trend.recentChange)} ·
+                                      Current interest {trend.currentInterest ?? '—'} (average {trend.averageInterest})
+                                    </div>
+                                  </div>
+                                </TableCell>
+                              </TableRow>
+                            )}
+                          </Fragment>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Breakout Searches */}
+              {trendData.breakoutTerms.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Icons.zap className="h-5 w-5" />
+                      Breakout Searches
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex flex-wrap gap-2">
+                      {trendData.breakoutTerms.map((term) => (
+                        <Badge key={`${term.keyword}-${term.query}`} variant="outline" className="gap-1">
+                          {term.query}
+                          <span className="text-muted-foreground">via {term.keyword}</span>
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-3">
+                      Related searches Google Trends reports as breakouts (growth above 5,000%)
+                    </p>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+
+          {/* Empty State */}
+          {!currentQuery && !results && (
+            <Card>
+              <CardContent className="py-12">
+                <div className="text-center">
+                  <Icons.trending className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-medium mb-2">Plan Around Seasonal Demand</h3>
+                  <p className="text-muted-foreground mb-4">
+                    Add the keywords you want to time content for
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Five years of Google Trends interest show when each keyword peaks, whether it is
+                    growing, and which related searches are breaking out, with publish-by dates for each season.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
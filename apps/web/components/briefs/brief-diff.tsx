@@ -0,0 +1,89 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Icons } from '@/components/ui/icons'
+import { cn } from '@/lib/utils'
+import { BriefDiff, BriefSection, SECTION_TYPE_LABELS } from '@/lib/briefs'
+
+interface BriefDiffViewProps {
+  diff: BriefDiff
+  onClose: () => void
+}
+
+const STATUS_CONFIG = {
+  added: { label: 'Added', variant: 'success' },
+  removed: { label: 'Removed', variant: 'destructive' },
+  modified: { label: 'Changed', variant: 'warning' },
+  moved: { label: 'Moved', variant: 'secondary' },
+  unchanged: { label: 'Unchanged', variant: 'outline' }
+}
+
+const LINE_CLASSES = {
+  added: 'bg-green-50 text-green-800 dark:bg-green-950 dark:text-green-300',
+  removed: 'bg-red-50 text-red-800 line-through dark:bg-red-950 dark:text-red-300',
+  unchanged: 'text-muted-foreground'
+}
+
+const sectionLabel = (section?: BriefSection) => {
+  if (!section) return 'Section'
+  if (section.type === 'heading') return section.content.text || 'Heading'
+  return section.title || SECTION_TYPE_LABELS[section.type]
+}
+
+export function BriefDiffView({ diff, onClose }: BriefDiffViewProps) {
+  const changed = diff.sections.filter(section => section.status !== 'unchanged')
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Icons.compare className="h-5 w-5" />
+            Changes from v{diff.fromVersion} to v{diff.toVersion}
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <Icons.x className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {diff.titleChanged && (
+          <p className="text-sm">The brief title was changed.</p>
+        )}
+
+        {changed.length === 0 && !diff.titleChanged && (
+          <p className="text-sm text-muted-foreground">No differences between these versions.</p>
+        )}
+
+        {changed.map((section) => {
+          const statusConfig = STATUS_CONFIG[section.status]
+
+          return (
+            <div key={section.sectionId} className="border rounded-lg">
+              <div className="flex items-center gap-2 px-3 py-2 border-b">
+                <Badge variant={statusConfig.variant as any}>{statusConfig.label}</Badge>
+                <span className="font-medium text-sm">{sectionLabel(section.after || section.before)}</span>
+              </div>
+              {section.lines ? (
+                <div className="font-mono text-xs p-2 space-y-0.5">
+                  {section.lines.map((line, index) => (
+                    <div key={index} className={cn('px-2 py-0.5 rounded whitespace-pre-wrap', LINE_CLASSES[line.kind])}>
+                      {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}
+                      {line.text}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground px-3 py-2">
+                  Moved from position {(section.before?.order ?? 0) + 1} to {(section.after?.order ?? 0) + 1}
+                </p>
+              )}
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,275 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Icons } from '@/components/ui/icons'
+import {
+  BriefExport,
+  BriefExportFormat,
+  ExportIntegration,
+  EXPORT_FORMAT_LABELS,
+  REMOTE_EXPORT_INTEGRATIONS
+} from '@/lib/briefs'
+
+interface ExportPanelProps {
+  briefId: string
+  accessToken: string
+}
+
+const STATUS_VARIANTS: { [status in BriefExport['status']]: 'default' | 'secondary' | 'destructive' | 'success' } = {
+  PENDING: 'secondary',
+  PROCESSING: 'default',
+  COMPLETED: 'success',
+  FAILED: 'destructive'
+}
+
+// Messages for the ?integration=...&status=... the OAuth callback redirects back with
+const CONNECT_MESSAGES: { [status: string]: string } = {
+  connected: 'connected',
+  denied: 'connection was cancelled',
+  error: 'connection failed, please try again'
+}
+
+export function ExportPanel({ briefId, accessToken }: ExportPanelProps) {
+  const searchParams = useSearchParams()
+  const [exports, setExports] = useState<BriefExport[]>([])
+  const [integrations, setIntegrations] = useState<ExportIntegration[]>([])
+  const [format, setFormat] = useState<BriefExportFormat>('PDF')
+  const [destination, setDestination] = useState('')
+  const [exporting, setExporting] = useState(false)
+
+  const authHeaders = { 'Authorization': `Bearer ${accessToken}` }
+
+  const loadExports = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/briefs/${briefId}/exports`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`
+        }
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setExports(data.exports)
+      }
+    } catch (error) {
+      console.error('Failed to load exports:', error)
+    }
+  }, [briefId, accessToken])
+
+  const loadIntegrations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/integrations', {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`
+        }
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setIntegrations(data.integrations)
+      }
+    } catch (error) {
+      console.error('Failed to load integrations:', error)
+    }
+  }, [accessToken])
+
+  useEffect(() => {
+    loadExports()
+    loadIntegrations()
+  }, [loadExports, loadIntegrations])
+
+  // Keep polling while any export is still running
+  const inProgress = exports.some(item => item.status === 'PENDING' || item.status === 'PROCESSING')
+  useEffect(() => {
+    if (!inProgress) return
+    const timer = setTimeout(loadExports, 2000)
+    return () => clearTimeout(timer)
+  }, [inProgress, exports, loadExports])
+
+  const integrationSlug = REMOTE_EXPORT_INTEGRATIONS[format]
+  const integration = integrationSlug ? integrations.find(item => item.provider === integrationSlug) : undefined
+  const canExport = !integrationSlug || integration?.connected
+
+  const returnedFrom = integrations.find(item => item.provider === searchParams.get('integration'))
+  const connectMessage = returnedFrom && CONNECT_MESSAGES[searchParams.get('status') || '']
+
+  const connect = async (slug: string) => {
+    try {
+      const response = await fetch(
+        `/api/integrations/${slug}/connect?returnTo=${encodeURIComponent(`/briefs/${briefId}`)}`,
+        { headers: authHeaders }
+      )
+      const data = await response.json()
+
+      if (!response.ok) {
+        window.alert(data.error || 'Failed to connect')
+        return
+      }
+
+      window.location.href = data.url
+
+    } catch (error) {
+      console.error('Connect integration error:', error)
+      window.alert('Failed to connect')
+    }
+  }
+
+  const disconnect = async (item: ExportIntegration) => {
+    if (!window.confirm(`Disconnect ${item.label}? Documents already exported are not affected.`)) return
+
+    try {
+      await fetch(`/api/integrations/${item.provider}`, { method: 'DELETE', headers: authHeaders })
+      await loadIntegrations()
+    } catch (error) {
+      console.error('Disconnect integration error:', error)
+    }
+  }
+
+  const createExport = async () => {
+    setExporting(true)
+
+    try {
+      const response = await fetch(`/api/briefs/${briefId}/exports`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders
+        },
+        body: JSON.stringify({
+          format,
+          ...(format === 'NOTION' && destination.trim() && { destination: destination.trim() })
+        })
+      })
+
+      if (!response.ok) {
+        const { error } = await response.json()
+        window.alert(error || 'Failed to start export')
+        return
+      }
+
+      await loadExports()
+
+    } catch (error) {
+      console.error('Create export error:', error)
+      window.alert('Failed to start export')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  const formatSize = (bytes: number) =>
+    bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Icons.download className="h-4 w-4" />
+          Export
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {connectMessage && (
+          <p className="text-xs text-muted-foreground">{returnedFrom.label} {connectMessage}</p>
+        )}
+
+        <div className="flex gap-2">
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as BriefExportFormat)}
+            className="flex-1 px-3 py-2 border border-input rounded-md bg-background text-sm"
+          >
+            {Object.entries(EXPORT_FORMAT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <Button size="sm" onClick={createExport} disabled={exporting || !canExport}>
+            {exporting && <Icons.spinner className="mr-1 h-3 w-3 animate-spin" />}
+            Export
+          </Button>
+        </div>
+
+        {integrationSlug && integration && !integration.configured && (
+          <p className="text-xs text-muted-foreground">{integration.label} exports are not set up on this server</p>
+        )}
+        {integrationSlug && integration?.configured && !integration.connected && (
+          <Button variant="outline" size="sm" className="w-full" onClick={() => connect(integration.provider)}>
+            Connect {integration.label}
+          </Button>
+        )}
+        {integration?.connected && (
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>Connected{integration.accountName ? ` to ${integration.accountName}` : ''}</span>
+            <button className="hover:underline" onClick={() => disconnect(integration)}>Disconnect</button>
+          </div>
+        )}
+        {format === 'NOTION' && integration?.connected && (
+          <Input
+            value={destination}
+            onChange={(e) => setDestination(e.target.value)}
+            placeholder="Parent page link (optional)"
+            className="text-sm"
+          />
+        )}
+        <p className="text-xs text-muted-foreground">Exports the last saved version</p>
+
+        {exports.map((item) => (
+          <div key={item.id} className="p-3 border rounded-lg space-y-1">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm">{EXPORT_FORMAT_LABELS[item.format] || item.format}</span>
+                <span className="text-xs text-muted-foreground">v{item.briefVersion}</span>
+              </div>
+              <Badge variant={STATUS_VARIANTS[item.status]}>{item.status.toLowerCase()}</Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {formatDate(item.createdAt)} · {item.creator?.name || item.creator?.email || 'Unknown'}
+            </p>
+            {item.status === 'FAILED' && item.error && (
+              <p className="text-xs text-red-600">{item.error}</p>
+            )}
+            {item.status === 'COMPLETED' && item.url && (
+              <a
+                href={item.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-primary hover:underline flex items-center gap-1"
+              >
+                <Icons.externalLink className="h-3 w-3" />
+                Open in {EXPORT_FORMAT_LABELS[item.format]}
+              </a>
+            )}
+            {item.status === 'COMPLETED' && !item.url && (
+              item.downloadUrl ? (
+                <a
+                  href={item.downloadUrl}
+                  className="text-sm text-primary hover:underline flex items-center gap-1"
+                >
+                  <Icons.download className="h-3 w-3" />
+                  {item.fileName}
+                  {item.size != null && <span className="text-xs text-muted-foreground">({formatSize(item.size)})</span>}
+                </a>
+              ) : (
+                <p className="text-xs text-muted-foreground">File expired</p>
+              )
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,215 @@
+'use client'
+
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Icons } from '@/components/ui/icons'
+import { BriefSection, SECTION_TYPE_LABELS } from '@/lib/briefs'
+
+interface SectionEditorProps {
+  section: BriefSection
+  isFirst: boolean
+  isLast: boolean
+  editable: boolean
+  regenerating: boolean
+  // Regenerating saves on the server, so it is only offered when there are no unsaved edits
+  canRegenerate: boolean
+  onChange: (section: BriefSection) => void
+  onMove: (direction: -1 | 1) => void
+  onRemove: () => void
+  onRegenerate: () => void
+}
+
+const textareaClass = 'w-full min-h-[96px] rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50'
+
+const splitLines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean)
+
+export function SectionEditor({
+  section,
+  isFirst,
+  isLast,
+  editable,
+  regenerating,
+  canRegenerate,
+  onChange,
+  onMove,
+  onRemove,
+  onRegenerate
+}: SectionEditorProps) {
+  const renderContent = () => {
+    switch (section.type) {
+      case 'heading':
+        return (
+          <div className="flex gap-2">
+            <select
+              value={section.content.level}
+              disabled={!editable}
+              onChange={(e) => onChange({ ...section, content: { ...section.content, level: Number(e.target.value) as 1 | 2 | 3 } })}
+              className="px-3 py-2 border border-input rounded-md bg-background text-sm"
+            >
+              <option value={1}>H1</option>
+              <option value={2}>H2</option>
+              <option value={3}>H3</option>
+            </select>
+            <Input
+              value={section.content.text}
+              disabled={!editable}
+              placeholder="Heading text"
+              onChange={(e) => onChange({ ...section, content: { ...section.content, text: e.target.value } })}
+            />
+          </div>
+        )
+
+      case 'paragraph':
+        return (
+          <textarea
+            className={textareaClass}
+            value={section.content.text}
+            disabled={!editable}
+            placeholder="Write the guidance for this part of the brief"
+            onChange={(e) => onChange({ ...section, content: { text: e.target.value } })}
+          />
+        )
+
+      case 'list':
+        return (
+          <div className="space-y-2">
+            <textarea
+              className={textareaClass}
+              defaultValue={section.content.items.join('\n')}
+              disabled={!editable}
+              placeholder="One item per line"
+              onBlur={(e) => onChange({ ...section, content: { ...section.content, items: splitLines(e.target.value) } })}
+            />
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={section.content.ordered || false}
+                disabled={!editable}
+                onChange={(e) => onChange({ ...section, content: { ...section.content, ordered: e.target.checked } })}
+              />
+              Numbered list
+            </label>
+          </div>
+        )
+
+      case 'table':
+        return (
+          <div className="space-y-2">
+            <Input
+              defaultValue={section.content.columns.join(' | ')}
+              disabled={!editable}
+              placeholder="Column headers separated by |"
+              onBlur={(e) => onChange({
+                ...section,
+                content: { ...section.content, columns: e.target.value.split('|').map(cell => cell.trim()).filter(Boolean) }
+              })}
+            />
+            <textarea
+              className={textareaClass}
+              defaultValue={section.content.rows.map(row => row.join(' | ')).join('\n')}
+              disabled={!editable}
+              placeholder="One row per line, cells separated by |"
+              onBlur={(e) => onChange({
+                ...section,
+                content: { ...section.content, rows: splitLines(e.target.value).map(line => line.split('|').map(cell => cell.trim())) }
+              })}
+            />
+          </div>
+        )
+
+      case 'chart': {
+        const max = Math.max(...section.content.values, 1)
+
+        return (
+          <div className="space-y-3">
+            {section.content.labels.length > 0 && (
+              <div className="space-y-1">
+                {section.content.labels.map((label, index) => (
+                  <div key={`${label}-${index}`} className="flex items-center gap-2 text-xs">
+                    <span className="w-40 truncate">{label}</span>
+                    <div className="flex-1 bg-muted rounded h-3">
+                      <div
+                        className="bg-primary rounded h-3"
+                        style={{ width: `${((section.content.values[index] || 0) / max) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-16 text-right">{(section.content.values[index] || 0).toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {editable && (
+              <textarea
+                className={textareaClass}
+                defaultValue={section.content.labels.map((label, index) => `${label}: ${section.content.values[index] ?? 0}`).join('\n')}
+                placeholder="One bar per line as label: value"
+                onBlur={(e) => {
+                  const points = splitLines(e.target.value).map(line => {
+                    const separator = line.lastIndexOf(':')
+                    return separator === -1
+                      ? { label: line, value: 0 }
+                      : { label: line.slice(0, separator).trim(), value: Number(line.slice(separator + 1)) || 0 }
+                  })
+                  onChange({
+                    ...section,
+                    content: { ...section.content, labels: points.map(point => point.label), values: points.map(point => point.value) }
+                  })
+                }}
+              />
+            )}
+          </div>
+        )
+      }
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">{SECTION_TYPE_LABELS[section.type]}</Badge>
+          {section.type !== 'heading' ? (
+            <Input
+              value={section.title || ''}
+              disabled={!editable}
+              placeholder="Section title"
+              className="font-medium"
+              onChange={(e) => onChange({ ...section, title: e.target.value })}
+            />
+          ) : (
+            <div className="flex-1" />
+          )}
+          {editable && (
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" disabled={isFirst} onClick={() => onMove(-1)} title="Move up">
+                <Icons.arrowUp className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" disabled={isLast} onClick={() => onMove(1)} title="Move down">
+                <Icons.arrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={!canRegenerate || regenerating}
+                onClick={onRegenerate}
+                title={canRegenerate ? 'Regenerate with AI' : 'Save your changes before regenerating'}
+              >
+                {regenerating
+                  ? <Icons.spinner className="h-4 w-4 animate-spin" />
+                  : <Icons.refresh className="h-4 w-4" />}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={onRemove} title="Remove section">
+                <Icons.trash className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {renderContent()}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,85 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Icons } from '@/components/ui/icons'
+import { BriefVersion } from '@/lib/briefs'
+
+interface VersionHistoryProps {
+  versions: BriefVersion[]
+  currentVersion: number
+  comparingVersion: number | null
+  canRestore: boolean
+  onCompare: (version: number) => void
+  onRestore: (version: number) => void
+}
+
+export function VersionHistory({
+  versions,
+  currentVersion,
+  comparingVersion,
+  canRestore,
+  onCompare,
+  onRestore
+}: VersionHistoryProps) {
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Icons.history className="h-4 w-4" />
+          Version History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {versions.map((version) => (
+          <div
+            key={version.version}
+            className={`p-3 border rounded-lg space-y-2 ${comparingVersion === version.version ? 'border-primary' : ''}`}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm">v{version.version}</span>
+                {version.version === currentVersion && <Badge variant="success">Current</Badge>}
+              </div>
+              <span className="text-xs text-muted-foreground">{formatDate(version.createdAt)}</span>
+            </div>
+            <p className="text-sm">{version.change}</p>
+            <p className="text-xs text-muted-foreground">
+              {version.creator?.name || version.creator?.email || 'Unknown'}
+            </p>
+            {version.version !== currentVersion && (
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => onCompare(version.version)}>
+                  <Icons.compare className="mr-1 h-3 w-3" />
+                  Compare
+                </Button>
+                {canRestore && (
+                  <Button variant="outline" size="sm" onClick={() => onRestore(version.version)}>
+                    <Icons.restore className="mr-1 h-3 w-3" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            )}
+            {version.version === currentVersion && version.version > 1 && (
+              <Button variant="outline" size="sm" onClick={() => onCompare(version.version - 1)}>
+                <Icons.compare className="mr-1 h-3 w-3" />
+                Show changes
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
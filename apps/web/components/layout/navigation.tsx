@@ -7,6 +7,7 @@ import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Icons } from '@/components/ui/icons'
+import { NotificationBell } from '@/components/layout/notification-bell'
 import { cn } from '@/lib/utils'
 
 const navigation = [
@@ -15,6 +16,11 @@ const navigation = [
     href: '/dashboard',
     icon: Icons.chart,
   },
+  {
+    name: 'Projects',
+    href: '/projects',
+    icon: Icons.folder,
+  },
   {
     name: 'Research',
     icon: Icons.search,
@@ -37,6 +43,30 @@ const navigation = [
         icon: Icons.users,
         description: 'Compare with competitors'
       },
+      {
+        name: 'Backlinks',
+        href: '/research/backlinks',
+        icon: Icons.link,
+        description: 'Analyze link profiles'
+      },
+      {
+        name: 'On-Page Audit',
+        href: '/research/onpage-audit',
+        icon: Icons.zap,
+        description: 'Audit pages for technical issues'
+      },
+      {
+        name: 'Trends & Seasonality',
+        href: '/research/trend-analysis',
+        icon: Icons.trending,
+        description: 'Time content to seasonal demand'
+      },
+      {
+        name: 'Local SEO',
+        href: '/research/local-seo',
+        icon: Icons.globe,
+        description: 'Maps rankings and local pack share'
+      },
     ],
   },
   {
@@ -46,6 +76,15 @@ const navigation = [
   },
 ]
 
+// Only shown to admins; the middleware keeps everyone else out of /admin
+const adminNavigation: typeof navigation = [
+  {
+    name: 'CTR Curves',
+    href: '/admin/ctr-curves',
+    icon: Icons.chart,
+  },
+]
+
 export function Navigation() {
   const { data: session, status } = useSession()
   const router = useRouter()
@@ -89,6 +128,8 @@ export function Navigation() {
     )
   }
 
+  const items = (session.user as any)?.role === 'ADMIN' ? [...navigation, ...adminNavigation] : navigation
+
   const handleSignOut = async () => {
     await signOut({ redirect: false })
     router.push('/auth/signin')
@@ -108,7 +149,7 @@ export function Navigation() {
 
           {/* Desktop Navigation */}
           <div className="hidden md:flex items-center gap-6">
-            {navigation.map((item) => {
+            {items.map((item) => {
               if (item.children) {
                 return (
                   <div key={item.name} className="relative">
@@ -176,6 +217,8 @@ export function Navigation() {
 
           {/* User Menu */}
           <div className="flex items-center gap-4">
+            <NotificationBell />
+
             <div className="hidden sm:flex items-center gap-2">
               <div className="text-right">
                 <div className="text-sm font-medium">{session.user?.name}</div>
@@ -207,7 +250,7 @@ export function Navigation() {
         {mobileMenuOpen && (
           <div className="md:hidden border-t py-4">
             <div className="space-y-2">
-              {navigation.map((item) => {
+              {items.map((item) => {
                 if (item.children) {
                   return (
                     <div key={item.name} className="space-y-2">
@@ -0,0 +1,142 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Icons } from '@/components/ui/icons'
+import { AppNotification, NotificationPage } from '@/lib/notifications'
+import { cn } from '@/lib/utils'
+
+// Alerts arrive after scheduled rank checks, so a slow poll is enough
+const POLL_INTERVAL = 60000
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+export function NotificationBell() {
+  const { data: session } = useSession()
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+
+  const authHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.user?.accessToken}`
+  }), [session])
+
+  const fetchNotifications = useCallback(async (cursor?: string) => {
+    const params = new URLSearchParams({ limit: '10' })
+    if (cursor) params.set('cursor', cursor)
+
+    const response = await fetch(`/api/notifications?${params}`, { headers: authHeaders() })
+    if (response.ok) {
+      const page: NotificationPage = await response.json()
+      setNotifications(current => cursor ? [...current, ...page.notifications] : page.notifications)
+      setUnreadCount(page.unreadCount)
+      setNextCursor(page.nextCursor)
+    }
+  }, [authHeaders])
+
+  useEffect(() => {
+    if (!session?.user?.accessToken) return
+
+    const refresh = () => fetchNotifications().catch(error => console.error('Notifications fetch error:', error))
+    refresh()
+    const timer = setInterval(refresh, POLL_INTERVAL)
+    return () => clearInterval(timer)
+  }, [session, fetchNotifications])
+
+  const markRead = async (notification: AppNotification) => {
+    if (!notification.read) {
+      await fetch(`/api/notifications/${notification.id}/read`, { method: 'POST', headers: authHeaders() })
+      setNotifications(current => current.map(item => item.id === notification.id ? { ...item, read: true } : item))
+      setUnreadCount(count => Math.max(0, count - 1))
+    }
+
+    if (notification.link) {
+      setOpen(false)
+      router.push(notification.link as any)
+    }
+  }
+
+  const markAllRead = async () => {
+    const response = await fetch('/api/notifications/read-all', { method: 'POST', headers: authHeaders() })
+    if (response.ok) {
+      setNotifications(current => current.map(item => ({ ...item, read: true })))
+      setUnreadCount(0)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <Button variant="ghost" size="sm" className="relative" onClick={() => setOpen(!open)}>
+        <Icons.bell className="h-4 w-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] rounded-full bg-destructive px-1 text-[10px] font-medium leading-5 text-destructive-foreground">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {open && (
+        <div className="absolute top-full right-0 mt-2 w-80 bg-popover border rounded-md shadow-md z-50">
+          <div className="flex items-center justify-between border-b px-3 py-2">
+            <span className="text-sm font-medium">Notifications</span>
+            {unreadCount > 0 && (
+              <button className="text-xs text-muted-foreground hover:text-primary" onClick={markAllRead}>
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="p-4 text-center text-sm text-muted-foreground">No notifications yet</p>
+            ) : (
+              notifications.map((notification) => {
+                const [summary, ...details] = notification.message.split('\n')
+                return (
+                  <button
+                    key={notification.id}
+                    className={cn(
+                      "block w-full border-b px-3 py-2 text-left transition-colors last:border-b-0 hover:bg-accent",
+                      !notification.read && "bg-accent/50"
+                    )}
+                    onClick={() => markRead(notification)}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <span className={cn("text-sm", !notification.read && "font-medium")}>{notification.title}</span>
+                      {!notification.read && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                    </div>
+                    <div className="text-xs text-muted-foreground">{summary}</div>
+                    {details.length > 0 && (
+                      <div className="mt-1 truncate text-xs text-muted-foreground">{details[0]}{details.length > 1 && ` (+${details.length - 1} more)`}</div>
+                    )}
+                    <div className="mt-1 text-[10px] text-muted-foreground">{formatDate(notification.createdAt)}</div>
+                  </button>
+                )
+              })
+            )}
+            {nextCursor && (
+              <button
+                className="w-full py-2 text-center text-xs text-muted-foreground hover:text-primary"
+                onClick={() => fetchNotifications(nextCursor)}
+              >
+                Load older
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
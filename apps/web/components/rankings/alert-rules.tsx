@@ -0,0 +1,387 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Icons } from '@/components/ui/icons'
+import {
+  RankAlertRule,
+  RankAlertEvent,
+  RankAlertType,
+  AlertChannel,
+  AlertDelivery,
+  ALERT_TYPE_LABELS,
+  ALERT_CHANNEL_LABELS,
+  SERP_FEATURE_OPTIONS
+} from '@/lib/rank-tracking'
+
+interface AlertRulesProps {
+  projectId: string
+  trackerId: string
+  accessToken: string
+  canEdit: boolean
+}
+
+interface RuleFormData {
+  name: string
+  type: RankAlertType
+  threshold: number
+  competitorDomain: string
+  serpFeature: string
+  channels: AlertChannel[]
+  emailRecipients: string
+  webhookUrl: string
+}
+
+const EMPTY_FORM: RuleFormData = {
+  name: '',
+  type: 'POSITION_DROP',
+  threshold: 10,
+  competitorDomain: '',
+  serpFeature: '',
+  channels: ['IN_APP'],
+  emailRecipients: '',
+  webhookUrl: '',
+}
+
+const DELIVERY_VARIANTS: { [status in AlertDelivery['status']]: 'success' | 'destructive' | 'secondary' } = {
+  sent: 'success',
+  failed: 'destructive',
+  skipped: 'secondary'
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+function describeRule(rule: RankAlertRule) {
+  switch (rule.type) {
+    case 'POSITION_DROP':
+      return `A keyword drops out of the top ${rule.threshold}`
+    case 'COMPETITOR_OVERTAKE':
+      return `${rule.competitorDomain} moves above us`
+    case 'SERP_FEATURE':
+      return rule.serpFeature ? `A ${rule.serpFeature.replace(/_/g, ' ')} appears` : 'Any new SERP feature appears'
+  }
+}
+
+export function AlertRules({ projectId, trackerId, accessToken, canEdit }: AlertRulesProps) {
+  const [rules, setRules] = useState<RankAlertRule[]>([])
+  const [events, setEvents] = useState<RankAlertEvent[]>([])
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState<RuleFormData>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  const baseUrl = `/api/projects/${projectId}/rank-trackers/${trackerId}/alerts`
+  const headers = {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${accessToken}`
+  }
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      const response = await fetch(baseUrl, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`
+        }
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setRules(data.rules)
+        setEvents(data.events)
+      }
+    } catch (error) {
+      console.error('Failed to load alerts:', error)
+    }
+  }, [baseUrl, accessToken])
+
+  useEffect(() => {
+    loadAlerts()
+  }, [loadAlerts])
+
+  const toggleChannel = (channel: AlertChannel) => {
+    setFormData(prev => ({
+      ...prev,
+      channels: prev.channels.includes(channel)
+        ? prev.channels.filter(item => item !== channel)
+        : [...prev.channels, channel]
+    }))
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch(baseUrl, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          name: formData.name,
+          type: formData.type,
+          threshold: formData.threshold,
+          competitorDomain: formData.type === 'COMPETITOR_OVERTAKE' ? formData.competitorDomain : null,
+          serpFeature: formData.type === 'SERP_FEATURE' && formData.serpFeature ? formData.serpFeature : null,
+          channels: formData.channels,
+          emailRecipients: formData.channels.includes('EMAIL')
+            ? formData.emailRecipients.split(',').map(email => email.trim()).filter(Boolean)
+            : [],
+          webhookUrl: formData.channels.includes('WEBHOOK') ? formData.webhookUrl : null
+        })
+      })
+
+      if (!response.ok) {
+        const { error } = await response.json()
+        window.alert(error || 'Failed to create the alert')
+        return
+      }
+
+      setFormData(EMPTY_FORM)
+      setShowForm(false)
+      await loadAlerts()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleActive = async (rule: RankAlertRule) => {
+    const response = await fetch(`${baseUrl}/${rule.id}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ active: !rule.active })
+    })
+
+    if (response.ok) {
+      await loadAlerts()
+    }
+  }
+
+  const handleTest = async (rule: RankAlertRule) => {
+    const response = await fetch(`${baseUrl}/${rule.id}/test`, { method: 'POST', headers })
+    if (!response.ok) {
+      window.alert('Failed to send the test alert')
+      return
+    }
+
+    const { deliveries } = await response.json() as { deliveries: AlertDelivery[] }
+    window.alert(deliveries
+      .map(delivery => `${ALERT_CHANNEL_LABELS[delivery.channel]}: ${delivery.status}${delivery.error ? ` (${delivery.error})` : ''}`)
+      .join('\n'))
+  }
+
+  const handleDelete = async (rule: RankAlertRule) => {
+    if (!window.confirm(`Delete the alert "${rule.name}"?`)) return
+
+    const response = await fetch(`${baseUrl}/${rule.id}`, { method: 'DELETE', headers })
+    if (response.ok) {
+      await loadAlerts()
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Icons.bell className="h-5 w-5" />
+          Alerts
+        </CardTitle>
+        {canEdit && !showForm && (
+          <Button variant="outline" size="sm" onClick={() => setShowForm(true)}>
+            <Icons.plus className="mr-1 h-4 w-4" />
+            New Alert
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <form onSubmit={handleCreate} className="space-y-4 rounded-md border p-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Name *</label>
+                <Input
+                  placeholder="e.g. Top 10 losses"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Alert when</label>
+                <select
+                  value={formData.type}
+                  onChange={(e) => setFormData(prev => ({ ...prev, type: e.target.value as RankAlertType }))}
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                >
+                  {(Object.keys(ALERT_TYPE_LABELS) as RankAlertType[]).map((type) => (
+                    <option key={type} value={type}>{ALERT_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {formData.type === 'POSITION_DROP' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Top N</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={formData.threshold}
+                    onChange={(e) => setFormData(prev => ({ ...prev, threshold: Number(e.target.value) }))}
+                  />
+                </div>
+              )}
+              {formData.type === 'COMPETITOR_OVERTAKE' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Competitor domain *</label>
+                  <Input
+                    placeholder="competitor.com"
+                    value={formData.competitorDomain}
+                    onChange={(e) => setFormData(prev => ({ ...prev, competitorDomain: e.target.value }))}
+                  />
+                </div>
+              )}
+              {formData.type === 'SERP_FEATURE' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Feature</label>
+                  <select
+                    value={formData.serpFeature}
+                    onChange={(e) => setFormData(prev => ({ ...prev, serpFeature: e.target.value }))}
+                    className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                  >
+                    <option value="">Any new feature</option>
+                    {SERP_FEATURE_OPTIONS.map((feature) => (
+                      <option key={feature} value={feature}>{feature.replace(/_/g, ' ')}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Notify by</label>
+              <div className="flex gap-4">
+                {(Object.keys(ALERT_CHANNEL_LABELS) as AlertChannel[]).map((channel) => (
+                  <label key={channel} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={formData.channels.includes(channel)}
+                      onChange={() => toggleChannel(channel)}
+                    />
+                    {ALERT_CHANNEL_LABELS[channel]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {formData.channels.includes('EMAIL') && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">
+                  Email recipients <span className="font-normal text-muted-foreground">(comma-separated; project members when empty)</span>
+                </label>
+                <Input
+                  placeholder="seo@example.com"
+                  value={formData.emailRecipients}
+                  onChange={(e) => setFormData(prev => ({ ...prev, emailRecipients: e.target.value }))}
+                />
+              </div>
+            )}
+            {formData.channels.includes('WEBHOOK') && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Webhook URL *</label>
+                <Input
+                  placeholder="https://hooks.slack.com/services/..."
+                  value={formData.webhookUrl}
+                  onChange={(e) => setFormData(prev => ({ ...prev, webhookUrl: e.target.value }))}
+                />
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving || !formData.name.trim() || formData.channels.length === 0}>
+                {saving && <Icons.spinner className="mr-2 h-4 w-4 animate-spin" />}
+                Create Alert
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {rules.length === 0 && !showForm ? (
+          <p className="text-sm text-muted-foreground">
+            No alerts yet. Alerts are checked after every run against the previous one.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+                <div>
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {rule.name}
+                    {!rule.active && <Badge variant="secondary" className="text-xs">Paused</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {describeRule(rule)} · {rule.channels.map(channel => ALERT_CHANNEL_LABELS[channel]).join(', ')}
+                    {rule.lastTriggeredAt && ` · last sent ${formatDate(rule.lastTriggeredAt)}`}
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleTest(rule)}>
+                      Test
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => toggleActive(rule)}>
+                      {rule.active ? 'Pause' : 'Resume'}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleDelete(rule)}>
+                      <Icons.trash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {events.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Recent alerts</div>
+            {events.map((event) => (
+              <div key={event.id} className="text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-muted-foreground">{formatDate(event.createdAt)}</span>
+                  <span className="font-medium">{event.ruleName}</span>
+                  <span className="text-muted-foreground">
+                    {event.triggers.length} keyword{event.triggers.length === 1 ? '' : 's'}
+                  </span>
+                  {event.deliveries.map((delivery) => (
+                    <Badge
+                      key={delivery.channel}
+                      variant={DELIVERY_VARIANTS[delivery.status] as any}
+                      className="text-xs"
+                      title={delivery.error}
+                    >
+                      {ALERT_CHANNEL_LABELS[delivery.channel]}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {event.triggers.slice(0, 3).map(trigger => `"${trigger.keyword}" ${trigger.detail}`).join(' · ')}
+                  {event.triggers.length > 3 && ` · +${event.triggers.length - 3} more`}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
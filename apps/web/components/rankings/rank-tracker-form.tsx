@@ -0,0 +1,139 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Icons } from '@/components/ui/icons'
+import { RankCheckFrequency } from '@/lib/rank-tracking'
+
+export interface RankTrackerData {
+  name: string
+  targetDomain: string
+  location: string
+  language: string
+  device: 'desktop' | 'mobile'
+  frequency: RankCheckFrequency
+  keywords: string[]
+}
+
+interface RankTrackerFormProps {
+  onSubmit: (data: RankTrackerData) => void
+  onCancel: () => void
+  isLoading?: boolean
+}
+
+// Keywords are entered one per line or comma-separated
+function parseKeywords(input: string) {
+  return Array.from(new Set(input.split(/[\n,]/).map(keyword => keyword.trim()).filter(Boolean)))
+}
+
+export function RankTrackerForm({ onSubmit, onCancel, isLoading }: RankTrackerFormProps) {
+  const [formData, setFormData] = useState<Omit<RankTrackerData, 'keywords'>>({
+    name: '',
+    targetDomain: '',
+    location: 'United States',
+    language: 'English',
+    device: 'desktop',
+    frequency: 'DAILY',
+  })
+  const [keywordInput, setKeywordInput] = useState('')
+
+  const keywords = parseKeywords(keywordInput)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.name.trim() || !formData.targetDomain.trim() || keywords.length === 0) return
+    onSubmit({ ...formData, keywords })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Icons.trending className="h-5 w-5" />
+          Track Keywords
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Name *</label>
+              <Input
+                placeholder="e.g. Blog keywords"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Domain *</label>
+              <Input
+                placeholder="example.com"
+                value={formData.targetDomain}
+                onChange={(e) => setFormData(prev => ({ ...prev, targetDomain: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Location</label>
+              <Input
+                value={formData.location}
+                onChange={(e) => setFormData(prev => ({ ...prev, location: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Device</label>
+                <select
+                  value={formData.device}
+                  onChange={(e) => setFormData(prev => ({ ...prev, device: e.target.value as RankTrackerData['device'] }))}
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                >
+                  <option value="desktop">Desktop</option>
+                  <option value="mobile">Mobile</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Check</label>
+                <select
+                  value={formData.frequency}
+                  onChange={(e) => setFormData(prev => ({ ...prev, frequency: e.target.value as RankCheckFrequency }))}
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                >
+                  <option value="DAILY">Daily</option>
+                  <option value="WEEKLY">Weekly</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">
+              Keywords * <span className="font-normal text-muted-foreground">(one per line, {keywords.length} entered)</span>
+            </label>
+            <textarea
+              rows={6}
+              placeholder={'seo tools\nkeyword research tool'}
+              value={keywordInput}
+              onChange={(e) => setKeywordInput(e.target.value)}
+              className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isLoading || !formData.name.trim() || !formData.targetDomain.trim() || keywords.length === 0}
+            >
+              {isLoading && <Icons.spinner className="mr-2 h-4 w-4 animate-spin" />}
+              Start Tracking
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,189 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Icons } from '@/components/ui/icons'
+import { cn } from '@/lib/utils'
+
+interface BacklinksFormProps {
+  onSubmit: (data: BacklinksData) => void
+  isLoading?: boolean
+  className?: string
+}
+
+export interface BacklinksData {
+  target: string
+  includeSubdomains: boolean
+  includeNewLost: boolean
+  newLostDays: 7 | 30 | 90
+  forceRefresh: boolean
+}
+
+const NEW_LOST_PERIODS = [
+  { value: 7, label: '7 days', desc: 'Last week' },
+  { value: 30, label: '30 days', desc: 'Last month' },
+  { value: 90, label: '90 days', desc: 'Last quarter' },
+] as const
+
+export function BacklinksForm({ onSubmit, isLoading, className }: BacklinksFormProps) {
+  const [formData, setFormData] = useState<BacklinksData>({
+    target: '',
+    includeSubdomains: true,
+    includeNewLost: true,
+    newLostDays: 30,
+    forceRefresh: false,
+  })
+
+  const [targetError, setTargetError] = useState('')
+
+  // Accepts a bare domain or a full page URL
+  const validateTarget = (target: string) => {
+    const targetRegex = /^[a-zA-Z0-9][a-zA-Z0-9-]{0,61}[a-zA-Z0-9](?:\.[a-zA-Z0-9-]+)*\.[a-zA-Z]{2,}(\/\S*)?$/
+    return targetRegex.test(target.replace(/^https?:\/\//, '').replace(/^www\./, ''))
+  }
+
+  const handleTargetChange = (value: string) => {
+    const target = value.trim()
+    setFormData(prev => ({ ...prev, target }))
+
+    if (target && !validateTarget(target)) {
+      setTargetError('Please enter a valid domain or URL')
+    } else {
+      setTargetError('')
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!formData.target || !validateTarget(formData.target)) {
+      setTargetError('Please enter a valid domain or URL')
+      return
+    }
+
+    onSubmit(formData)
+  }
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Icons.link className="h-5 w-5" />
+          Backlink Research
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Target */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">
+              Domain or URL *
+            </label>
+            <Input
+              placeholder="example.com or example.com/page"
+              value={formData.target}
+              onChange={(e) => handleTargetChange(e.target.value)}
+              className={cn(targetError ? "border-red-500" : "")}
+            />
+            {targetError ? (
+              <p className="text-xs text-red-500">{targetError}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                A domain analyzes the whole site; a URL analyzes links to that page only.
+              </p>
+            )}
+          </div>
+
+          {/* Options */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Link Options</h4>
+
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={formData.includeSubdomains}
+                  onChange={(e) => setFormData(prev => ({ ...prev, includeSubdomains: e.target.checked }))}
+                  className="rounded border-gray-300"
+                />
+                <span className="text-sm">Include links to subdomains</span>
+              </label>
+
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={formData.includeNewLost}
+                  onChange={(e) => setFormData(prev => ({ ...prev, includeNewLost: e.target.checked }))}
+                  className="rounded border-gray-300"
+                />
+                <span className="text-sm">Track new and lost links</span>
+              </label>
+            </div>
+          </div>
+
+          {/* New/Lost Period */}
+          {formData.includeNewLost && (
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">New &amp; Lost Period</h4>
+              <div className="flex gap-2">
+                {NEW_LOST_PERIODS.map((option) => (
+                  <label key={option.value} className="flex-1">
+                    <input
+                      type="radio"
+                      name="newLostDays"
+                      value={option.value}
+                      checked={formData.newLostDays === option.value}
+                      onChange={() => setFormData(prev => ({ ...prev, newLostDays: option.value }))}
+                      className="sr-only"
+                    />
+                    <div className={cn(
+                      "p-3 border rounded-lg cursor-pointer transition-all text-center",
+                      formData.newLostDays === option.value
+                        ? "border-primary bg-primary/5"
+                        : "border-border hover:border-primary/50"
+                    )}>
+                      <div className="font-medium text-sm">{option.label}</div>
+                      <div className="text-xs text-muted-foreground">{option.desc}</div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Cache */}
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={formData.forceRefresh}
+              onChange={(e) => setFormData(prev => ({ ...prev, forceRefresh: e.target.checked }))}
+              className="rounded border-gray-300"
+            />
+            <span className="text-sm">Force refresh (skip cached results)</span>
+          </label>
+
+          {/* Submit */}
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isLoading || !formData.target || !!targetError}
+          >
+            {isLoading ? (
+              <>
+                <Icons.spinner className="mr-2 h-4 w-4 animate-spin" />
+                Analyzing Backlinks...
+              </>
+            ) : (
+              <>
+                <Icons.link className="mr-2 h-4 w-4" />
+                Analyze Backlinks
+              </>
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -32,6 +32,7 @@ export interface CompetitorResearchData {
     includeGaps: boolean
   }
   reportDepth: 'overview' | 'detailed' | 'comprehensive'
+  forceRefresh: boolean
 }
 
 const ANALYSIS_TYPES = [
@@ -84,6 +85,7 @@ export function CompetitorResearchForm({ onSubmit, isLoading, className }: Compe
       includeGaps: true,
     },
     reportDepth: 'detailed',
+    forceRefresh: false,
   })
 
   const [competitorInput, setCompetitorInput] = useState('')
@@ -428,6 +430,17 @@ export function CompetitorResearchForm({ onSubmit, isLoading, className }: Compe
             </div>
           </div>
 
+          {/* Cache */}
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={formData.forceRefresh}
+              onChange={(e) => setFormData(prev => ({ ...prev, forceRefresh: e.target.checked }))}
+              className="rounded border-gray-300"
+            />
+            <span className="text-sm">Force refresh (skip cached results)</span>
+          </label>
+
           {/* Submit */}
           <Button
             type="submit"
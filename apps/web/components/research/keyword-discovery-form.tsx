@@ -22,6 +22,7 @@ export interface KeywordDiscoveryData {
   minSearchVolume: number
   maxKeywordDifficulty: number
   analysisDepth: 'quick' | 'standard' | 'comprehensive'
+  forceRefresh: boolean
 }
 
 const LOCATIONS = [
@@ -57,6 +58,7 @@ export function KeywordDiscoveryForm({ onSubmit, isLoading, className }: Keyword
     minSearchVolume: 100,
     maxKeywordDifficulty: 70,
     analysisDepth: 'standard',
+    forceRefresh: false,
   })
 
   const [keywordInput, setKeywordInput] = useState('')
@@ -271,6 +273,17 @@ export function KeywordDiscoveryForm({ onSubmit, isLoading, className }: Keyword
             </div>
           </div>
 
+          {/* Cache */}
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={formData.forceRefresh}
+              onChange={(e) => setFormData(prev => ({ ...prev, forceRefresh: e.target.checked }))}
+              className="rounded border-gray-300"
+            />
+            <span className="text-sm">Force refresh (skip cached results)</span>
+          </label>
+
           {/* Submit */}
           <Button
             type="submit"
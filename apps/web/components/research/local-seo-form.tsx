@@ -0,0 +1,343 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Icons } from '@/components/ui/icons'
+import { cn } from '@/lib/utils'
+
+interface LocalSeoFormProps {
+  onSubmit: (data: LocalSeoData) => void
+  isLoading?: boolean
+  className?: string
+}
+
+export interface LocalSeoData {
+  businessName: string
+  domain?: string
+  phone?: string
+  address?: string
+  businessType?: string
+  keywords: string[]
+  locations: string[]
+  grid?: {
+    latitude: number
+    longitude: number
+    size: number
+    spacingKm: number
+  }
+  language: string
+  device: 'desktop' | 'mobile'
+  forceRefresh: boolean
+}
+
+const MAX_KEYWORDS = 5
+const MAX_LOCATIONS = 10
+const MAX_CHECKS = 150
+
+const GRID_SIZES = [
+  { value: 3, label: '3 × 3' },
+  { value: 5, label: '5 × 5' },
+  { value: 7, label: '7 × 7' },
+]
+
+export function LocalSeoForm({ onSubmit, isLoading, className }: LocalSeoFormProps) {
+  const [formData, setFormData] = useState<LocalSeoData>({
+    businessName: '',
+    domain: '',
+    phone: '',
+    address: '',
+    businessType: '',
+    keywords: [],
+    locations: [],
+    language: 'English',
+    device: 'mobile',
+    forceRefresh: false,
+  })
+
+  const [keywordInput, setKeywordInput] = useState('')
+  const [locationInput, setLocationInput] = useState('')
+  const [useGrid, setUseGrid] = useState(false)
+  const [grid, setGrid] = useState({ latitude: '', longitude: '', size: 5, spacingKm: 1 })
+
+  const addToList = (field: 'keywords' | 'locations', input: string, max: number) => {
+    // Accepts one entry or several separated by new lines (and commas for keywords, since
+    // location names contain them)
+    const separator = field === 'keywords' ? /[,\n]+/ : /\n+/
+    const entries = input.split(separator).map(entry => entry.trim()).filter(Boolean)
+    if (entries.length === 0) return false
+
+    setFormData(prev => ({
+      ...prev,
+      [field]: Array.from(new Set([...prev[field], ...entries])).slice(0, max)
+    }))
+    return true
+  }
+
+  const removeFromList = (field: 'keywords' | 'locations', value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: prev[field].filter(entry => entry !== value)
+    }))
+  }
+
+  const latitude = parseFloat(grid.latitude)
+  const longitude = parseFloat(grid.longitude)
+  const gridValid = !useGrid || (!isNaN(latitude) && !isNaN(longitude))
+  const pointCount = formData.locations.length + (useGrid ? grid.size * grid.size : 0)
+  const checkCount = formData.keywords.length * pointCount
+
+  const canSubmit = formData.businessName.trim() && formData.keywords.length > 0 &&
+    pointCount > 0 && gridValid && checkCount <= MAX_CHECKS
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSubmit) return
+    onSubmit({
+      ...formData,
+      grid: useGrid ? { latitude, longitude, size: grid.size, spacingKm: grid.spacingKm } : undefined
+    })
+  }
+
+  const renderChips = (field: 'keywords' | 'locations') => formData[field].length > 0 && (
+    <div className="flex flex-wrap gap-2">
+      {formData[field].map((value) => (
+        <Badge key={value} variant="secondary" className="gap-1">
+          {value}
+          <button
+            type="button"
+            onClick={() => removeFromList(field, value)}
+            className="hover:text-destructive"
+          >
+            <Icons.x className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+    </div>
+  )
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Icons.globe className="h-5 w-5" />
+          Local SEO
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Business */}
+          <div className="space-y-3">
+            <label className="text-sm font-medium">
+              Business Name *
+            </label>
+            <Input
+              placeholder="e.g. Joe's Plumbing"
+              value={formData.businessName}
+              onChange={(e) => setFormData(prev => ({ ...prev, businessName: e.target.value }))}
+            />
+            <Input
+              placeholder="Website, e.g. joesplumbing.com (optional)"
+              value={formData.domain}
+              onChange={(e) => setFormData(prev => ({ ...prev, domain: e.target.value }))}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <Input
+                placeholder="Phone (optional)"
+                value={formData.phone}
+                onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
+              />
+              <Input
+                placeholder="Business type (optional)"
+                value={formData.businessType}
+                onChange={(e) => setFormData(prev => ({ ...prev, businessType: e.target.value }))}
+              />
+            </div>
+            <Input
+              placeholder="Address as it should appear (optional)"
+              value={formData.address}
+              onChange={(e) => setFormData(prev => ({ ...prev, address: e.target.value }))}
+            />
+            <p className="text-xs text-muted-foreground">
+              Phone and address are compared with the Maps listing for NAP consistency
+            </p>
+          </div>
+
+          {/* Keywords */}
+          <div className="space-y-3">
+            <label className="text-sm font-medium">
+              Keywords *
+            </label>
+            <div className="flex gap-2">
+              <Input
+                placeholder="e.g. plumber near me"
+                value={keywordInput}
+                onChange={(e) => setKeywordInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault()
+                    if (addToList('keywords', keywordInput, MAX_KEYWORDS)) setKeywordInput('')
+                  }
+                }}
+                className="flex-1"
+              />
+              <Button
+                type="button"
+                onClick={() => addToList('keywords', keywordInput, MAX_KEYWORDS) && setKeywordInput('')}
+                disabled={!keywordInput.trim() || formData.keywords.length >= MAX_KEYWORDS}
+              >
+                <Icons.plus className="h-4 w-4" />
+              </Button>
+            </div>
+            {renderChips('keywords')}
+          </div>
+
+          {/* Locations */}
+          <div className="space-y-3">
+            <label className="text-sm font-medium">
+              Check From
+            </label>
+            <div className="flex gap-2">
+              <Input
+                placeholder="e.g. Austin,Texas,United States"
+                value={locationInput}
+                onChange={(e) => setLocationInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault()
+                    if (addToList('locations', locationInput, MAX_LOCATIONS)) setLocationInput('')
+                  }
+                }}
+                className="flex-1"
+              />
+              <Button
+                type="button"
+                onClick={() => addToList('locations', locationInput, MAX_LOCATIONS) && setLocationInput('')}
+                disabled={!locationInput.trim() || formData.locations.length >= MAX_LOCATIONS}
+              >
+                <Icons.plus className="h-4 w-4" />
+              </Button>
+            </div>
+            {renderChips('locations')}
+
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={useGrid}
+                onChange={(e) => setUseGrid(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              <span className="text-sm">Grid around the business</span>
+            </label>
+
+            {useGrid && (
+              <div className="space-y-3 pl-6">
+                <div className="grid grid-cols-2 gap-3">
+                  <Input
+                    placeholder="Latitude"
+                    inputMode="decimal"
+                    value={grid.latitude}
+                    onChange={(e) => setGrid(prev => ({ ...prev, latitude: e.target.value }))}
+                  />
+                  <Input
+                    placeholder="Longitude"
+                    inputMode="decimal"
+                    value={grid.longitude}
+                    onChange={(e) => setGrid(prev => ({ ...prev, longitude: e.target.value }))}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <select
+                    className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                    value={grid.size}
+                    onChange={(e) => setGrid(prev => ({ ...prev, size: parseInt(e.target.value) }))}
+                  >
+                    {GRID_SIZES.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <select
+                    className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                    value={grid.spacingKm}
+                    onChange={(e) => setGrid(prev => ({ ...prev, spacingKm: parseFloat(e.target.value) }))}
+                  >
+                    <option value={0.5}>0.5 km apart</option>
+                    <option value={1}>1 km apart</option>
+                    <option value={2}>2 km apart</option>
+                    <option value={5}>5 km apart</option>
+                  </select>
+                </div>
+              </div>
+            )}
+
+            <p className={cn("text-xs", checkCount > MAX_CHECKS ? "text-destructive" : "text-muted-foreground")}>
+              {checkCount} of {MAX_CHECKS} Maps checks ({formData.keywords.length} keywords × {pointCount} locations)
+            </p>
+          </div>
+
+          {/* Language & Device */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Language</label>
+              <select
+                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                value={formData.language}
+                onChange={(e) => setFormData(prev => ({ ...prev, language: e.target.value }))}
+              >
+                <option value="English">English</option>
+                <option value="Spanish">Spanish</option>
+                <option value="French">French</option>
+                <option value="German">German</option>
+                <option value="Portuguese">Portuguese</option>
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Device</label>
+              <select
+                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                value={formData.device}
+                onChange={(e) => setFormData(prev => ({ ...prev, device: e.target.value as LocalSeoData['device'] }))}
+              >
+                <option value="mobile">Mobile</option>
+                <option value="desktop">Desktop</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Cache */}
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={formData.forceRefresh}
+              onChange={(e) => setFormData(prev => ({ ...prev, forceRefresh: e.target.checked }))}
+              className="rounded border-gray-300"
+            />
+            <span className="text-sm">Force refresh (skip cached results)</span>
+          </label>
+
+          {/* Submit */}
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isLoading || !canSubmit}
+          >
+            {isLoading ? (
+              <>
+                <Icons.spinner className="mr-2 h-4 w-4 animate-spin" />
+                Checking Maps...
+              </>
+            ) : (
+              <>
+                <Icons.globe className="mr-2 h-4 w-4" />
+                Run Local Check
+              </>
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
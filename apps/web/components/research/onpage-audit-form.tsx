@@ -0,0 +1,205 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Icons } from '@/components/ui/icons'
+import { cn } from '@/lib/utils'
+
+interface OnPageAuditFormProps {
+  onSubmit: (data: OnPageAuditData) => void
+  isLoading?: boolean
+  className?: string
+}
+
+export interface OnPageAuditData {
+  urls: string[]
+  device: 'desktop' | 'mobile'
+  forceRefresh: boolean
+}
+
+const MAX_URLS = 100
+
+const DEVICES = [
+  { value: 'desktop', label: 'Desktop', desc: 'Desktop browser' },
+  { value: 'mobile', label: 'Mobile', desc: 'Mobile browser' },
+] as const
+
+export function OnPageAuditForm({ onSubmit, isLoading, className }: OnPageAuditFormProps) {
+  const [formData, setFormData] = useState<OnPageAuditData>({
+    urls: [],
+    device: 'desktop',
+    forceRefresh: false,
+  })
+
+  const [urlInput, setUrlInput] = useState('')
+  const [urlError, setUrlError] = useState('')
+
+  const validateUrl = (url: string) => {
+    try {
+      const parsed = new URL(url)
+      return parsed.protocol === 'http:' || parsed.protocol === 'https:'
+    } catch {
+      return false
+    }
+  }
+
+  // Accepts one URL or several separated by whitespace or commas (e.g. pasted from a sheet)
+  const addUrls = () => {
+    const entries = urlInput.split(/[\s,]+/).map(url => url.trim()).filter(Boolean)
+    if (entries.length === 0) return
+
+    const invalid = entries.find(url => !validateUrl(url))
+    if (invalid) {
+      setUrlError(`Invalid URL: ${invalid}`)
+      return
+    }
+
+    const urls = Array.from(new Set([...formData.urls, ...entries]))
+    if (urls.length > MAX_URLS) {
+      setUrlError(`Maximum ${MAX_URLS} URLs allowed`)
+      return
+    }
+
+    setFormData(prev => ({ ...prev, urls }))
+    setUrlInput('')
+    setUrlError('')
+  }
+
+  const removeUrl = (url: string) => {
+    setFormData(prev => ({
+      ...prev,
+      urls: prev.urls.filter(u => u !== url)
+    }))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      addUrls()
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (formData.urls.length === 0) return
+    onSubmit(formData)
+  }
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Icons.zap className="h-5 w-5" />
+          On-Page Audit
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* URLs */}
+          <div className="space-y-3">
+            <label className="text-sm font-medium">
+              Page URLs *
+            </label>
+            <div className="flex gap-2">
+              <Input
+                placeholder="https://example.com/page"
+                value={urlInput}
+                onChange={(e) => setUrlInput(e.target.value)}
+                onKeyDown={handleKeyDown}
+                className={cn("flex-1", urlError ? "border-red-500" : "")}
+              />
+              <Button type="button" onClick={addUrls} disabled={!urlInput.trim()}>
+                <Icons.plus className="h-4 w-4" />
+              </Button>
+            </div>
+            {urlError && (
+              <p className="text-xs text-red-500">{urlError}</p>
+            )}
+            {formData.urls.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {formData.urls.map((url) => (
+                  <span
+                    key={url}
+                    className="inline-flex items-center gap-1 bg-primary/10 text-primary px-3 py-1 rounded-full text-sm max-w-full"
+                  >
+                    <span className="truncate">{url.replace(/^https?:\/\//, '')}</span>
+                    <button
+                      type="button"
+                      onClick={() => removeUrl(url)}
+                      className="hover:text-primary/70"
+                    >
+                      <Icons.x className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Add up to {MAX_URLS} pages; paste several at once separated by spaces or new lines
+            </p>
+          </div>
+
+          {/* Device */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Device</h4>
+            <div className="flex gap-2">
+              {DEVICES.map((option) => (
+                <label key={option.value} className="flex-1">
+                  <input
+                    type="radio"
+                    name="device"
+                    value={option.value}
+                    checked={formData.device === option.value}
+                    onChange={() => setFormData(prev => ({ ...prev, device: option.value }))}
+                    className="sr-only"
+                  />
+                  <div className={cn(
+                    "p-3 border rounded-lg cursor-pointer transition-all text-center",
+                    formData.device === option.value
+                      ? "border-primary bg-primary/5"
+                      : "border-border hover:border-primary/50"
+                  )}>
+                    <div className="font-medium text-sm">{option.label}</div>
+                    <div className="text-xs text-muted-foreground">{option.desc}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Cache */}
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={formData.forceRefresh}
+              onChange={(e) => setFormData(prev => ({ ...prev, forceRefresh: e.target.checked }))}
+              className="rounded border-gray-300"
+            />
+            <span className="text-sm">Force refresh (skip cached results)</span>
+          </label>
+
+          {/* Submit */}
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isLoading || formData.urls.length === 0}
+          >
+            {isLoading ? (
+              <>
+                <Icons.spinner className="mr-2 h-4 w-4 animate-spin" />
+                Auditing Pages...
+              </>
+            ) : (
+              <>
+                <Icons.zap className="mr-2 h-4 w-4" />
+                Audit {formData.urls.length || ''} {formData.urls.length === 1 ? 'Page' : 'Pages'}
+              </>
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
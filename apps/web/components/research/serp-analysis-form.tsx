@@ -22,8 +22,12 @@ export interface SerpAnalysisData {
   includeAds: boolean
   includeLocal: boolean
   includeFeatured: boolean
-  analysisType: 'snapshot' | 'competitor' | 'features' | 'comprehensive'
+  analysisType: 'snapshot' | 'competitor' | 'features' | 'comprehensive' | 'history'
   competitorDomains?: string[]
+  targetDomain?: string
+  dateFrom?: string
+  dateTo?: string
+  forceRefresh: boolean
 }
 
 const DEVICES = [
@@ -56,9 +60,18 @@ const ANALYSIS_TYPES = [
     label: 'Full Analysis',
     description: 'Complete SERP analysis with AI insights',
     features: ['All above features', 'AI recommendations', 'Content strategy']
+  },
+  {
+    value: 'history',
+    label: 'SERP History',
+    description: 'Compare archived SERPs over time',
+    features: ['Entered/exited URLs', 'Position changes', 'Feature changes']
   }
 ]
 
+// Each keyword's history is a separate paid task, so the server caps history requests lower
+const MAX_HISTORY_KEYWORDS = 5
+
 export function SerpAnalysisForm({ onSubmit, isLoading, className }: SerpAnalysisFormProps) {
   const [formData, setFormData] = useState<SerpAnalysisData>({
     keywords: [],
@@ -70,6 +83,10 @@ export function SerpAnalysisForm({ onSubmit, isLoading, className }: SerpAnalysi
     includeFeatured: true,
     analysisType: 'snapshot',
     competitorDomains: [],
+    targetDomain: '',
+    dateFrom: '',
+    dateTo: '',
+    forceRefresh: false,
   })
 
   const [keywordInput, setKeywordInput] = useState('')
@@ -116,6 +133,7 @@ export function SerpAnalysisForm({ onSubmit, isLoading, className }: SerpAnalysi
   }
 
   const isCompetitorAnalysis = formData.analysisType === 'competitor' || formData.analysisType === 'comprehensive'
+  const isHistory = formData.analysisType === 'history'
 
   return (
     <Card className={cn("w-full", className)}>
@@ -246,6 +264,43 @@ export function SerpAnalysisForm({ onSubmit, isLoading, className }: SerpAnalysi
             </div>
           )}
 
+          {/* Target domain and date range (for SERP history) */}
+          {isHistory && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Your Domain</label>
+                <Input
+                  placeholder="example.com (optional, followed through every snapshot)"
+                  value={formData.targetDomain}
+                  onChange={(e) => setFormData(prev => ({ ...prev, targetDomain: e.target.value }))}
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">From</label>
+                  <Input
+                    type="date"
+                    value={formData.dateFrom}
+                    onChange={(e) => setFormData(prev => ({ ...prev, dateFrom: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">To</label>
+                  <Input
+                    type="date"
+                    value={formData.dateTo}
+                    onChange={(e) => setFormData(prev => ({ ...prev, dateTo: e.target.value }))}
+                  />
+                </div>
+              </div>
+              {formData.keywords.length > MAX_HISTORY_KEYWORDS && (
+                <p className="text-xs text-destructive">
+                  SERP history supports up to {MAX_HISTORY_KEYWORDS} keywords
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Location & Language */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
@@ -346,6 +401,17 @@ export function SerpAnalysisForm({ onSubmit, isLoading, className }: SerpAnalysi
             </div>
           </div>
 
+          {/* Cache */}
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={formData.forceRefresh}
+              onChange={(e) => setFormData(prev => ({ ...prev, forceRefresh: e.target.checked }))}
+              className="rounded border-gray-300"
+            />
+            <span className="text-sm">Force refresh (skip cached results)</span>
+          </label>
+
           {/* Submit */}
           <Button
             type="submit"
@@ -353,7 +419,8 @@ export function SerpAnalysisForm({ onSubmit, isLoading, className }: SerpAnalysi
             disabled={
               isLoading ||
               formData.keywords.length === 0 ||
-              (formData.analysisType === 'competitor' && (formData.competitorDomains?.length || 0) === 0)
+              (formData.analysisType === 'competitor' && (formData.competitorDomains?.length || 0) === 0) ||
+              (isHistory && formData.keywords.length > MAX_HISTORY_KEYWORDS)
             }
           >
             {isLoading ? (
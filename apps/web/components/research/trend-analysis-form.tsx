@@ -0,0 +1,232 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Icons } from '@/components/ui/icons'
+import { cn } from '@/lib/utils'
+
+interface TrendAnalysisFormProps {
+  onSubmit: (data: TrendAnalysisData) => void
+  isLoading?: boolean
+  className?: string
+}
+
+export interface TrendAnalysisData {
+  keywords: string[]
+  location: string
+  language: string
+  leadTimeWeeks: number
+  industry?: string
+  forceRefresh: boolean
+}
+
+const MAX_KEYWORDS = 20
+
+const LEAD_TIMES = [
+  { value: 4, label: '4 weeks', desc: 'Refreshes and news' },
+  { value: 8, label: '8 weeks', desc: 'Most new pages' },
+  { value: 12, label: '12 weeks', desc: 'Competitive topics' },
+]
+
+export function TrendAnalysisForm({ onSubmit, isLoading, className }: TrendAnalysisFormProps) {
+  const [formData, setFormData] = useState<TrendAnalysisData>({
+    keywords: [],
+    location: 'United States',
+    language: 'English',
+    leadTimeWeeks: 8,
+    industry: '',
+    forceRefresh: false,
+  })
+
+  const [keywordInput, setKeywordInput] = useState('')
+
+  // Accepts one keyword or several separated by commas or new lines
+  const addKeywords = () => {
+    const entries = keywordInput.split(/[,\n]+/).map(keyword => keyword.trim()).filter(Boolean)
+    if (entries.length === 0) return
+
+    const keywords = Array.from(new Set([...formData.keywords, ...entries])).slice(0, MAX_KEYWORDS)
+    setFormData(prev => ({ ...prev, keywords }))
+    setKeywordInput('')
+  }
+
+  const removeKeyword = (keyword: string) => {
+    setFormData(prev => ({
+      ...prev,
+      keywords: prev.keywords.filter(k => k !== keyword)
+    }))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (formData.keywords.length === 0) return
+    onSubmit(formData)
+  }
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Icons.trending className="h-5 w-5" />
+          Trends &amp; Seasonality
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Keywords */}
+          <div className="space-y-3">
+            <label className="text-sm font-medium">
+              Keywords *
+            </label>
+            <div className="flex gap-2">
+              <Input
+                placeholder="e.g. ski jacket, halloween costume"
+                value={keywordInput}
+                onChange={(e) => setKeywordInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault()
+                    addKeywords()
+                  }
+                }}
+                className="flex-1"
+              />
+              <Button type="button" onClick={addKeywords} disabled={!keywordInput.trim() || formData.keywords.length >= MAX_KEYWORDS}>
+                <Icons.plus className="h-4 w-4" />
+              </Button>
+            </div>
+            {formData.keywords.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {formData.keywords.map((keyword) => (
+                  <Badge key={keyword} variant="secondary" className="gap-1">
+                    {keyword}
+                    <button
+                      type="button"
+                      onClick={() => removeKeyword(keyword)}
+                      className="hover:text-destructive"
+                    >
+                      <Icons.x className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Up to {MAX_KEYWORDS} keywords; each is compared with its own history over the last five years
+            </p>
+          </div>
+
+          {/* Location & Language */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Location</label>
+              <select
+                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                value={formData.location}
+                onChange={(e) => setFormData(prev => ({ ...prev, location: e.target.value }))}
+              >
+                <option value="United States">United States</option>
+                <option value="United Kingdom">United Kingdom</option>
+                <option value="Canada">Canada</option>
+                <option value="Australia">Australia</option>
+                <option value="Germany">Germany</option>
+                <option value="France">France</option>
+                <option value="Spain">Spain</option>
+                <option value="Brazil">Brazil</option>
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Language</label>
+              <select
+                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                value={formData.language}
+                onChange={(e) => setFormData(prev => ({ ...prev, language: e.target.value }))}
+              >
+                <option value="English">English</option>
+                <option value="Spanish">Spanish</option>
+                <option value="French">French</option>
+                <option value="German">German</option>
+                <option value="Portuguese">Portuguese</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Lead Time */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Publish Lead Time</h4>
+            <div className="flex gap-2">
+              {LEAD_TIMES.map((option) => (
+                <label key={option.value} className="flex-1">
+                  <input
+                    type="radio"
+                    name="leadTimeWeeks"
+                    value={option.value}
+                    checked={formData.leadTimeWeeks === option.value}
+                    onChange={() => setFormData(prev => ({ ...prev, leadTimeWeeks: option.value }))}
+                    className="sr-only"
+                  />
+                  <div className={cn(
+                    "p-3 border rounded-lg cursor-pointer transition-all text-center",
+                    formData.leadTimeWeeks === option.value
+                      ? "border-primary bg-primary/5"
+                      : "border-border hover:border-primary/50"
+                  )}>
+                    <div className="font-medium text-sm">{option.label}</div>
+                    <div className="text-xs text-muted-foreground">{option.desc}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              How long before a seasonal peak content should be live, so it is indexed and ranking in time
+            </p>
+          </div>
+
+          {/* Industry */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Industry</label>
+            <Input
+              placeholder="e.g. Outdoor apparel (optional)"
+              value={formData.industry}
+              onChange={(e) => setFormData(prev => ({ ...prev, industry: e.target.value }))}
+            />
+          </div>
+
+          {/* Cache */}
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={formData.forceRefresh}
+              onChange={(e) => setFormData(prev => ({ ...prev, forceRefresh: e.target.checked }))}
+              className="rounded border-gray-300"
+            />
+            <span className="text-sm">Force refresh (skip cached results)</span>
+          </label>
+
+          {/* Submit */}
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isLoading || formData.keywords.length === 0}
+          >
+            {isLoading ? (
+              <>
+                <Icons.spinner className="mr-2 h-4 w-4 animate-spin" />
+                Analyzing Trends...
+              </>
+            ) : (
+              <>
+                <Icons.trending className="mr-2 h-4 w-4" />
+                Analyze Trends
+              </>
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
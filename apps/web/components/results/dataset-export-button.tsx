@@ -0,0 +1,146 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Icons } from '@/components/ui/icons'
+import { DatasetColumn, DatasetExportFormat, DatasetExportRequest, downloadDatasetExport } from '@/lib/datasets'
+
+interface DatasetExportButtonProps {
+  datasetId: string
+  accessToken: string
+  // The view's current filters and sort, applied to the export
+  filters?: DatasetExportRequest['filters']
+  // Selected keywords; when given, the user can export just these rows
+  selectedKeywords?: string[]
+}
+
+// Export action for a dataset view: pick CSV or XLSX and the columns, then download
+export function DatasetExportButton({ datasetId, accessToken, filters, selectedKeywords = [] }: DatasetExportButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [format, setFormat] = useState<DatasetExportFormat>('CSV')
+  const [columns, setColumns] = useState<DatasetColumn[]>([])
+  const [included, setIncluded] = useState<Set<string>>(new Set())
+  const [selectedOnly, setSelectedOnly] = useState(false)
+  const [exporting, setExporting] = useState(false)
+
+  useEffect(() => {
+    if (!open || columns.length > 0) return
+
+    const loadColumns = async () => {
+      try {
+        const response = await fetch(`/api/datasets/${datasetId}/columns`, {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`
+          }
+        })
+
+        if (response.ok) {
+          const data = await response.json()
+          setColumns(data.columns)
+          setIncluded(new Set(data.columns.map((column: DatasetColumn) => column.key)))
+        }
+      } catch (error) {
+        console.error('Failed to load dataset columns:', error)
+      }
+    }
+
+    loadColumns()
+  }, [open, columns.length, datasetId, accessToken])
+
+  const toggleColumn = (key: string) => {
+    const next = new Set(included)
+    if (next.has(key)) {
+      next.delete(key)
+    } else {
+      next.add(key)
+    }
+    setIncluded(next)
+  }
+
+  const exportDataset = async () => {
+    setExporting(true)
+
+    try {
+      const error = await downloadDatasetExport(datasetId, accessToken, {
+        format,
+        columns: columns.filter(column => included.has(column.key)).map(column => column.key),
+        ...(filters && Object.keys(filters).length > 0 && { filters }),
+        ...(selectedOnly && selectedKeywords.length > 0 && { keywords: selectedKeywords })
+      })
+
+      if (error) {
+        window.alert(error)
+        return
+      }
+      setOpen(false)
+
+    } catch (error) {
+      console.error('Dataset export error:', error)
+      window.alert('Export failed')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <Button variant="outline" size="sm" onClick={() => setOpen(!open)}>
+        <Icons.download className="h-4 w-4 mr-1" />
+        Export
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 z-10 mt-2 w-64 space-y-3 rounded-md border bg-background p-3 shadow-md">
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as DatasetExportFormat)}
+            className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+          >
+            <option value="CSV">CSV</option>
+            <option value="XLSX">Excel (XLSX)</option>
+          </select>
+
+          {columns.length === 0 ? (
+            <div className="flex justify-center py-2">
+              <Icons.spinner className="h-4 w-4 animate-spin" />
+            </div>
+          ) : (
+            <div className="max-h-48 space-y-1 overflow-y-auto">
+              {columns.map((column) => (
+                <label key={column.key} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={included.has(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                    className="rounded border-gray-300"
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          )}
+
+          {selectedKeywords.length > 0 && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={selectedOnly}
+                onChange={(e) => setSelectedOnly(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Selected only ({selectedKeywords.length})
+            </label>
+          )}
+          {filters && Object.keys(filters).length > 0 && (
+            <p className="text-xs text-muted-foreground">Current filters and sort are applied</p>
+          )}
+
+          <Button size="sm" className="w-full" onClick={exportDataset} disabled={exporting || included.size === 0}>
+            {exporting && <Icons.spinner className="mr-1 h-3 w-3 animate-spin" />}
+            Download
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+
+export interface DifficultyComponent {
+  // Null when the data behind the component wasn't available
+  score: number | null
+  weight: number
+  detail: string
+}
+
+export interface KeywordDifficulty {
+  score: number
+  level: 'easy' | 'medium' | 'hard' | 'very_hard'
+  components: {
+    authority: DifficultyComponent
+    backlinks: DifficultyComponent
+    serpCrowding: DifficultyComponent
+    contentMix: DifficultyComponent
+  }
+  // Share of the component weight backed by data, 0-1
+  coverage: number
+  rankingPages: Array<{
+    position: number
+    domain: string
+    url: string
+    pageType: string
+    domainRank: number | null
+    referringDomains: number | null
+  }>
+}
+
+interface KeywordDifficultyBreakdownProps {
+  difficulty: KeywordDifficulty
+  className?: string
+}
+
+const COMPONENT_LABELS: Array<{ key: keyof KeywordDifficulty['components']; label: string }> = [
+  { key: 'authority', label: 'Domain authority' },
+  { key: 'backlinks', label: 'Page backlinks' },
+  { key: 'serpCrowding', label: 'SERP crowding' },
+  { key: 'contentMix', label: 'Content mix' },
+]
+
+export const difficultyColor = (score: number) =>
+  score <= 30 ? 'bg-green-500' : score <= 60 ? 'bg-yellow-500' : 'bg-red-500'
+
+export function KeywordDifficultyBreakdown({ difficulty, className }: KeywordDifficultyBreakdownProps) {
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {COMPONENT_LABELS.map(({ key, label }) => {
+          const component = difficulty.components[key]
+          return (
+            <div key={key} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{label}</span>
+                <span className="text-muted-foreground">
+                  {component.score ?? '—'} · {Math.round(component.weight * 100)}% weight
+                </span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-1.5">
+                {component.score !== null && (
+                  <div
+                    className={cn("h-1.5 rounded-full", difficultyColor(component.score))}
+                    style={{ width: `${component.score}%` }}
+                  />
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground">{component.detail}</div>
+            </div>
+          )
+        })}
+      </div>
+
+      {difficulty.coverage < 1 && (
+        <p className="text-xs text-muted-foreground">
+          Scored from {Math.round(difficulty.coverage * 100)}% of the model; components without data are left out
+        </p>
+      )}
+
+      {difficulty.rankingPages.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="py-1 pr-2 font-medium">#</th>
+              <th className="py-1 pr-2 font-medium">Domain</th>
+              <th className="py-1 pr-2 font-medium">Page</th>
+              <th className="py-1 pr-2 font-medium text-right">Domain Rank</th>
+              <th className="py-1 font-medium text-right">Ref. Domains</th>
+            </tr>
+          </thead>
+          <tbody>
+            {difficulty.rankingPages.map(page => (
+              <tr key={page.url} className="border-t">
+                <td className="py-1 pr-2">{page.position}</td>
+                <td className="py-1 pr-2 truncate max-w-[12rem]" title={page.url}>{page.domain}</td>
+                <td className="py-1 pr-2">
+                  <Badge variant="outline" className="text-xs">{page.pageType}</Badge>
+                </td>
+                <td className="py-1 pr-2 text-right">{page.domainRank ?? '—'}</td>
+                <td className="py-1 text-right">{page.referringDomains?.toLocaleString() ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect, Fragment } from 'react'
 import {
   Table,
   TableBody,
@@ -13,6 +13,7 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Icons } from '@/components/ui/icons'
+import { DatasetExportButton } from '@/components/results/dataset-export-button'
 import { cn } from '@/lib/utils'
 
 export interface KeywordResult {
@@ -20,105 +21,274 @@ export interface KeywordResult {
   searchVolume: number
   cpc: number
   competition: number
-  competitionLevel: 'LOW' | 'MEDIUM' | 'HIGH'
+  competitionLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'UNKNOWN'
   keywordDifficulty?: number
   trend: 'up' | 'down' | 'stable'
   intent: 'informational' | 'commercial' | 'transactional' | 'navigational'
+  opportunity: number
   monthlySearches?: Array<{ month: number; volume: number }>
+  // Near-duplicates merged into this keyword during discovery
+  variants?: string[]
+  semanticGroup?: string
+}
+
+export interface KeywordCluster {
+  id: string
+  name: string
+  pillarKeyword: string
+  keywordCount: number
+  totalVolume: number
+  dominantIntent: KeywordResult['intent']
+  method: 'serp' | 'lexical'
+  // Only the keywords matching the current filters, in the current sort order
+  rows: KeywordResult[]
+  matchingVolume: number
 }
 
 interface KeywordResultsTableProps {
-  keywords: KeywordResult[]
-  isLoading?: boolean
-  onExport?: (format: 'csv' | 'xlsx') => void
+  datasetId: string
+  accessToken: string
+  pageSize?: number
+  // KEYWORD_CLUSTERS dataset of the same keywords; enables grouping rows by cluster
+  clusterDatasetId?: string
   onKeywordSelect?: (keywords: KeywordResult[]) => void
   className?: string
 }
 
-type SortField = 'keyword' | 'searchVolume' | 'cpc' | 'competition' | 'keywordDifficulty'
+type SortField = 'keyword' | 'searchVolume' | 'cpc' | 'competition' | 'keywordDifficulty' | 'opportunity'
 type SortDirection = 'asc' | 'desc'
 
+interface SortOption {
+  field: SortField
+  direction: SortDirection
+}
+
+const SELECT_CLASS = "flex h-9 w-full sm:w-auto rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+
+// Rows are filtered, sorted and paged by /api/datasets/:datasetId/rows, so only the
+// current page is ever loaded. Shift-click a column to add it as a secondary sort.
+// Grouped by cluster, every matching row is loaded at once from /clusters instead.
 export function KeywordResultsTable({
-  keywords,
-  isLoading = false,
-  onExport,
+  datasetId,
+  accessToken,
+  pageSize = 50,
+  clusterDatasetId,
   onKeywordSelect,
   className
 }: KeywordResultsTableProps) {
   const [searchTerm, setSearchTerm] = useState('')
-  const [selectedKeywords, setSelectedKeywords] = useState<Set<string>>(new Set())
-  const [sortField, setSortField] = useState<SortField>('searchVolume')
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
+  const [search, setSearch] = useState('')
+  const [selectedKeywords, setSelectedKeywords] = useState<Map<string, KeywordResult>>(new Map())
+  const [sort, setSort] = useState<SortOption[]>([{ field: 'searchVolume', direction: 'desc' }])
   const [filterCompetition, setFilterCompetition] = useState<'ALL' | 'LOW' | 'MEDIUM' | 'HIGH'>('ALL')
   const [filterIntent, setFilterIntent] = useState<'ALL' | KeywordResult['intent']>('ALL')
+  const [filterTrend, setFilterTrend] = useState<'ALL' | KeywordResult['trend']>('ALL')
+  const [minVolume, setMinVolume] = useState('')
+  const [maxVolume, setMaxVolume] = useState('')
+  const [minOpportunity, setMinOpportunity] = useState('')
 
-  // Filter and sort keywords
-  const filteredAndSortedKeywords = useMemo(() => {
-    let filtered = keywords.filter(keyword => {
-      const matchesSearch = keyword.keyword.toLowerCase().includes(searchTerm.toLowerCase())
-      const matchesCompetition = filterCompetition === 'ALL' || keyword.competitionLevel === filterCompetition
-      const matchesIntent = filterIntent === 'ALL' || keyword.intent === filterIntent
+  const [rows, setRows] = useState<KeywordResult[]>([])
+  const [total, setTotal] = useState(0)
+  const [totalRows, setTotalRows] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  // Cursors of the pages visited under the current filters; the last one is the page shown
+  const [paging, setPaging] = useState<{ params: string; cursors: Array<string | undefined> }>({ params: '', cursors: [undefined] })
+  const [groupByCluster, setGroupByCluster] = useState(false)
+  const [clusters, setClusters] = useState<KeywordCluster[]>([])
+  const [expandedClusters, setExpandedClusters] = useState<Set<string>>(new Set())
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
 
-      return matchesSearch && matchesCompetition && matchesIntent
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchTerm.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [searchTerm])
+
+  const filterParams = useMemo(() => {
+    const params = new URLSearchParams({
+      limit: String(pageSize),
+      sort: sort.map(option => `${option.field}:${option.direction}`).join(',')
     })
+    if (search) params.set('search', search)
+    if (filterCompetition !== 'ALL') params.set('competition', filterCompetition)
+    if (filterIntent !== 'ALL') params.set('intent', filterIntent)
+    if (filterTrend !== 'ALL') params.set('trend', filterTrend)
+    if (minVolume) params.set('minVolume', minVolume)
+    if (maxVolume) params.set('maxVolume', maxVolume)
+    if (minOpportunity) params.set('minOpportunity', minOpportunity)
+    return params.toString()
+  }, [pageSize, sort, search, filterCompetition, filterIntent, filterTrend, minVolume, maxVolume, minOpportunity])
+
+  // Exports and the cluster view get the same filters and sort, without the page size
+  const rowFilters = useMemo(() => {
+    const { limit, ...filters } = Object.fromEntries(new URLSearchParams(filterParams))
+    return filters
+  }, [filterParams])
+  const grouped = groupByCluster && Boolean(clusterDatasetId)
 
-    return filtered.sort((a, b) => {
-      let aVal: any = a[sortField]
-      let bVal: any = b[sortField]
+  // Any change to the filters or sort starts again from the first page
+  const cursors = paging.params === filterParams ? paging.cursors : [undefined]
+  const cursor = cursors[cursors.length - 1]
 
-      if (typeof aVal === 'string') {
-        aVal = aVal.toLowerCase()
-        bVal = bVal.toLowerCase()
+  const goToNextPage = () => {
+    if (nextCursor) setPaging({ params: filterParams, cursors: [...cursors, nextCursor] })
+  }
+
+  const goToPreviousPage = () => {
+    setPaging({ params: filterParams, cursors: cursors.slice(0, -1) })
+  }
+
+  useEffect(() => {
+    if (grouped) return
+    let cancelled = false
+
+    const loadRows = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const params = new URLSearchParams(filterParams)
+        if (cursor) params.set('cursor', cursor)
+
+        const response = await fetch(`/api/datasets/${datasetId}/rows?${params}`, {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`
+          }
+        })
+        const data = await response.json()
+
+        if (cancelled) return
+
+        if (!response.ok) {
+          setError(data.error || 'Failed to load keywords')
+          return
+        }
+
+        setRows(data.rows)
+        setTotal(data.total)
+        setTotalRows(data.dataset.totalRows)
+        setNextCursor(data.nextCursor)
+
+      } catch (error) {
+        console.error('Failed to load keyword rows:', error)
+        if (!cancelled) setError('Failed to load keywords')
+      } finally {
+        if (!cancelled) setIsLoading(false)
       }
+    }
 
-      if (sortDirection === 'asc') {
-        return aVal < bVal ? -1 : aVal > bVal ? 1 : 0
-      } else {
-        return aVal > bVal ? -1 : aVal < bVal ? 1 : 0
+    loadRows()
+    return () => { cancelled = true }
+  }, [grouped, datasetId, accessToken, filterParams, cursor])
+
+  useEffect(() => {
+    if (!grouped) return
+    let cancelled = false
+
+    const loadClusters = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const response = await fetch(`/api/datasets/${clusterDatasetId}/clusters?${new URLSearchParams(rowFilters)}`, {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`
+          }
+        })
+        const data = await response.json()
+
+        if (cancelled) return
+
+        if (!response.ok) {
+          setError(data.error || 'Failed to load clusters')
+          return
+        }
+
+        setClusters(data.clusters)
+
+      } catch (error) {
+        console.error('Failed to load keyword clusters:', error)
+        if (!cancelled) setError('Failed to load clusters')
+      } finally {
+        if (!cancelled) setIsLoading(false)
       }
-    })
-  }, [keywords, searchTerm, sortField, sortDirection, filterCompetition, filterIntent])
+    }
 
-  const handleSort = (field: SortField) => {
-    if (sortField === field) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')
-    } else {
-      setSortField(field)
-      setSortDirection('desc')
+    loadClusters()
+    return () => { cancelled = true }
+  }, [grouped, clusterDatasetId, accessToken, rowFilters])
+
+  const handleSort = (field: SortField, addToSort: boolean) => {
+    const current = sort.find(option => option.field === field)
+    const toggled: SortOption = {
+      field,
+      direction: current ? (current.direction === 'asc' ? 'desc' : 'asc') : (field === 'keyword' ? 'asc' : 'desc')
     }
-  }
 
-  const toggleKeywordSelection = (keyword: string) => {
-    const newSelected = new Set(selectedKeywords)
-    if (newSelected.has(keyword)) {
-      newSelected.delete(keyword)
+    if (!addToSort) {
+      setSort([toggled])
+    } else if (current) {
+      setSort(sort.map(option => option.field === field ? toggled : option))
     } else {
-      newSelected.add(keyword)
+      setSort([...sort, toggled])
     }
-    setSelectedKeywords(newSelected)
+  }
 
+  const updateSelection = (selected: Map<string, KeywordResult>) => {
+    setSelectedKeywords(selected)
     if (onKeywordSelect) {
-      const selectedKeywordObjects = keywords.filter(k => newSelected.has(k.keyword))
-      onKeywordSelect(selectedKeywordObjects)
+      onKeywordSelect(Array.from(selected.values()))
     }
   }
 
+  const toggleKeywordSelection = (keyword: KeywordResult) => {
+    const newSelected = new Map(selectedKeywords)
+    if (newSelected.has(keyword.keyword)) {
+      newSelected.delete(keyword.keyword)
+    } else {
+      newSelected.set(keyword.keyword, keyword)
+    }
+    updateSelection(newSelected)
+  }
+
   const selectAllVisible = () => {
-    const visibleKeywords = filteredAndSortedKeywords.map(k => k.keyword)
-    setSelectedKeywords(new Set(visibleKeywords))
+    const newSelected = new Map(selectedKeywords)
+    visibleRows.forEach(row => newSelected.set(row.keyword, row))
+    updateSelection(newSelected)
+  }
 
-    if (onKeywordSelect) {
-      onKeywordSelect(filteredAndSortedKeywords)
+  const toggleClusterSelection = (cluster: KeywordCluster) => {
+    const newSelected = new Map(selectedKeywords)
+    const allSelected = cluster.rows.every(row => newSelected.has(row.keyword))
+    cluster.rows.forEach(row => allSelected ? newSelected.delete(row.keyword) : newSelected.set(row.keyword, row))
+    updateSelection(newSelected)
+  }
+
+  const toggleCluster = (id: string) => {
+    const expanded = new Set(expandedClusters)
+    if (expanded.has(id)) {
+      expanded.delete(id)
+    } else {
+      expanded.add(id)
     }
+    setExpandedClusters(expanded)
   }
 
   const clearSelection = () => {
-    setSelectedKeywords(new Set())
-    if (onKeywordSelect) {
-      onKeywordSelect([])
-    }
+    updateSelection(new Map())
   }
 
+  const visibleRows = grouped
+    ? clusters.filter(cluster => expandedClusters.has(cluster.id)).flatMap(cluster => cluster.rows)
+    : rows
+  const matchingKeywords = grouped ? clusters.reduce((sum, cluster) => sum + cluster.rows.length, 0) : total
+  const allVisibleSelected = visibleRows.length > 0 && visibleRows.every(row => selectedKeywords.has(row.keyword))
+  const hasDifficulty = visibleRows.some(k => k.keywordDifficulty !== undefined)
+  const hasFilters = Boolean(search || minVolume || maxVolume || minOpportunity) ||
+    filterCompetition !== 'ALL' || filterIntent !== 'ALL' || filterTrend !== 'ALL'
+  const firstRow = (cursors.length - 1) * pageSize + 1
+
   const formatNumber = (num: number) => {
     if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`
     if (num >= 1000) return `${(num / 1000).toFixed(1)}K`
@@ -152,7 +322,97 @@ export function KeywordResultsTable({
     }
   }
 
-  if (isLoading) {
+  const renderSortHeader = (field: SortField, label: string) => {
+    const index = sort.findIndex(option => option.field === field)
+    const option = sort[index]
+
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-auto p-0 font-medium"
+        onClick={(e) => handleSort(field, e.shiftKey)}
+      >
+        {label}
+        {option && (
+          option.direction === 'asc' ? <Icons.arrowUp className="ml-1 h-3 w-3" /> : <Icons.arrowDown className="ml-1 h-3 w-3" />
+        )}
+        {option && sort.length > 1 && (
+          <span className="ml-0.5 text-xs text-muted-foreground">{index + 1}</span>
+        )}
+      </Button>
+    )
+  }
+
+  const renderKeywordRow = (keyword: KeywordResult) => (
+    <TableRow
+      key={keyword.keyword}
+      className={cn(
+        "cursor-pointer",
+        selectedKeywords.has(keyword.keyword) && "bg-muted/50"
+      )}
+      onClick={() => toggleKeywordSelection(keyword)}
+    >
+      <TableCell>
+        <input
+          type="checkbox"
+          checked={selectedKeywords.has(keyword.keyword)}
+          onChange={() => toggleKeywordSelection(keyword)}
+          onClick={(e) => e.stopPropagation()}
+          className="rounded border-gray-300"
+        />
+      </TableCell>
+      <TableCell className="font-medium">
+        {keyword.keyword}
+        {keyword.variants && keyword.variants.length > 0 && (
+          <div className="text-xs font-normal text-muted-foreground" title={keyword.variants.join(', ')}>
+            +{keyword.variants.length} {keyword.variants.length === 1 ? 'variant' : 'variants'}: {keyword.variants.slice(0, 3).join(', ')}
+            {keyword.variants.length > 3 && '…'}
+          </div>
+        )}
+      </TableCell>
+      <TableCell>
+        {formatNumber(keyword.searchVolume)}
+      </TableCell>
+      <TableCell>
+        ${keyword.cpc.toFixed(2)}
+      </TableCell>
+      <TableCell>
+        <Badge variant={getCompetitionColor(keyword.competitionLevel) as any} className="text-xs">
+          {keyword.competitionLevel}
+        </Badge>
+      </TableCell>
+      <TableCell>
+        <Badge variant={getIntentColor(keyword.intent)} className="text-xs capitalize">
+          {keyword.intent}
+        </Badge>
+      </TableCell>
+      <TableCell>
+        {getTrendIcon(keyword.trend)}
+      </TableCell>
+      <TableCell>
+        {keyword.opportunity}
+      </TableCell>
+      {hasDifficulty && (
+        <TableCell>
+          {keyword.keywordDifficulty !== undefined ? (
+            <span className={cn(
+              "font-medium",
+              keyword.keywordDifficulty <= 30 ? "text-green-600" :
+              keyword.keywordDifficulty <= 60 ? "text-yellow-600" :
+              "text-red-600"
+            )}>
+              {keyword.keywordDifficulty}
+            </span>
+          ) : (
+            <span className="text-muted-foreground">—</span>
+          )}
+        </TableCell>
+      )}
+    </TableRow>
+  )
+
+  if (isLoading && rows.length === 0 && !error) {
     return (
       <div className="flex items-center justify-center py-12">
         <Icons.spinner className="h-8 w-8 animate-spin" />
@@ -176,7 +436,7 @@ export function KeywordResultsTable({
           <select
             value={filterCompetition}
             onChange={(e) => setFilterCompetition(e.target.value as any)}
-            className="flex h-9 w-full sm:w-auto rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            className={SELECT_CLASS}
           >
             <option value="ALL">All Competition</option>
             <option value="LOW">Low Competition</option>
@@ -187,7 +447,7 @@ export function KeywordResultsTable({
           <select
             value={filterIntent}
             onChange={(e) => setFilterIntent(e.target.value as any)}
-            className="flex h-9 w-full sm:w-auto rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            className={SELECT_CLASS}
           >
             <option value="ALL">All Intent</option>
             <option value="informational">Informational</option>
@@ -195,6 +455,17 @@ export function KeywordResultsTable({
             <option value="transactional">Transactional</option>
             <option value="navigational">Navigational</option>
           </select>
+
+          <select
+            value={filterTrend}
+            onChange={(e) => setFilterTrend(e.target.value as any)}
+            className={SELECT_CLASS}
+          >
+            <option value="ALL">All Trends</option>
+            <option value="up">Trending Up</option>
+            <option value="stable">Stable</option>
+            <option value="down">Trending Down</option>
+          </select>
         </div>
 
         <div className="flex gap-2">
@@ -205,166 +476,157 @@ export function KeywordResultsTable({
               </Button>
             </>
           )}
-          <Button variant="outline" size="sm" onClick={selectAllVisible}>
-            Select All
-          </Button>
-          {onExport && (
-            <Button variant="outline" size="sm" onClick={() => onExport('csv')}>
-              <Icons.download className="h-4 w-4 mr-1" />
-              Export
+          {clusterDatasetId && (
+            <Button variant={groupByCluster ? 'default' : 'outline'} size="sm" onClick={() => setGroupByCluster(!groupByCluster)}>
+              <Icons.folder className="h-4 w-4 mr-1" />
+              Group by Cluster
             </Button>
           )}
+          <Button variant="outline" size="sm" onClick={selectAllVisible}>
+            {grouped ? 'Select Expanded' : 'Select Page'}
+          </Button>
+          <DatasetExportButton
+            datasetId={datasetId}
+            accessToken={accessToken}
+            filters={rowFilters}
+            selectedKeywords={Array.from(selectedKeywords.keys())}
+          />
         </div>
       </div>
 
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          type="number"
+          min={0}
+          placeholder="Min volume"
+          value={minVolume}
+          onChange={(e) => setMinVolume(e.target.value)}
+          className="sm:max-w-[140px]"
+        />
+        <Input
+          type="number"
+          min={0}
+          placeholder="Max volume"
+          value={maxVolume}
+          onChange={(e) => setMaxVolume(e.target.value)}
+          className="sm:max-w-[140px]"
+        />
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          placeholder="Min opportunity"
+          value={minOpportunity}
+          onChange={(e) => setMinOpportunity(e.target.value)}
+          className="sm:max-w-[160px]"
+        />
+      </div>
+
       {/* Results Count */}
-      <div className="text-sm text-muted-foreground">
-        Showing {filteredAndSortedKeywords.length} of {keywords.length} keywords
-        {selectedKeywords.size > 0 && ` • ${selectedKeywords.size} selected`}
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>
+          {grouped
+            ? `${matchingKeywords} matching keywords in ${clusters.length} clusters`
+            : total > 0
+              ? `Showing ${firstRow}–${firstRow + rows.length - 1} of ${total} matching keywords`
+              : 'No matching keywords'}
+          {matchingKeywords !== totalRows && ` (${totalRows} in total)`}
+          {selectedKeywords.size > 0 && ` • ${selectedKeywords.size} selected`}
+        </span>
+        {isLoading && <Icons.spinner className="h-4 w-4 animate-spin" />}
       </div>
 
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
       {/* Table */}
-      <div className="border rounded-lg">
+      <div className={cn("border rounded-lg", isLoading && "opacity-60")}>
         <Table>
           <TableHeader>
             <TableRow>
               <TableHead className="w-8">
                 <input
                   type="checkbox"
-                  checked={selectedKeywords.size === filteredAndSortedKeywords.length && filteredAndSortedKeywords.length > 0}
-                  onChange={selectedKeywords.size === filteredAndSortedKeywords.length ? clearSelection : selectAllVisible}
+                  checked={allVisibleSelected}
+                  onChange={allVisibleSelected ? clearSelection : selectAllVisible}
                   className="rounded border-gray-300"
                 />
               </TableHead>
-              <TableHead>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="h-auto p-0 font-medium"
-                  onClick={() => handleSort('keyword')}
-                >
-                  Keyword
-                  {sortField === 'keyword' && (
-                    sortDirection === 'asc' ? <Icons.arrowUp className="ml-1 h-3 w-3" /> : <Icons.arrowDown className="ml-1 h-3 w-3" />
-                  )}
-                </Button>
-              </TableHead>
-              <TableHead>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="h-auto p-0 font-medium"
-                  onClick={() => handleSort('searchVolume')}
-                >
-                  Volume
-                  {sortField === 'searchVolume' && (
-                    sortDirection === 'asc' ? <Icons.arrowUp className="ml-1 h-3 w-3" /> : <Icons.arrowDown className="ml-1 h-3 w-3" />
-                  )}
-                </Button>
-              </TableHead>
-              <TableHead>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="h-auto p-0 font-medium"
-                  onClick={() => handleSort('cpc')}
-                >
-                  CPC
-                  {sortField === 'cpc' && (
-                    sortDirection === 'asc' ? <Icons.arrowUp className="ml-1 h-3 w-3" /> : <Icons.arrowDown className="ml-1 h-3 w-3" />
-                  )}
-                </Button>
-              </TableHead>
-              <TableHead>Competition</TableHead>
+              <TableHead>{renderSortHeader('keyword', 'Keyword')}</TableHead>
+              <TableHead>{renderSortHeader('searchVolume', 'Volume')}</TableHead>
+              <TableHead>{renderSortHeader('cpc', 'CPC')}</TableHead>
+              <TableHead>{renderSortHeader('competition', 'Competition')}</TableHead>
               <TableHead>Intent</TableHead>
               <TableHead>Trend</TableHead>
-              {keywords.some(k => k.keywordDifficulty !== undefined) && (
-                <TableHead>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="h-auto p-0 font-medium"
-                    onClick={() => handleSort('keywordDifficulty')}
-                  >
-                    Difficulty
-                    {sortField === 'keywordDifficulty' && (
-                      sortDirection === 'asc' ? <Icons.arrowUp className="ml-1 h-3 w-3" /> : <Icons.arrowDown className="ml-1 h-3 w-3" />
-                    )}
-                  </Button>
-                </TableHead>
+              <TableHead>{renderSortHeader('opportunity', 'Opportunity')}</TableHead>
+              {hasDifficulty && (
+                <TableHead>{renderSortHeader('keywordDifficulty', 'Difficulty')}</TableHead>
               )}
             </TableRow>
           </TableHeader>
           <TableBody>
-            {filteredAndSortedKeywords.map((keyword) => (
-              <TableRow
-                key={keyword.keyword}
-                className={cn(
-                  "cursor-pointer",
-                  selectedKeywords.has(keyword.keyword) && "bg-muted/50"
-                )}
-                onClick={() => toggleKeywordSelection(keyword.keyword)}
-              >
-                <TableCell>
-                  <input
-                    type="checkbox"
-                    checked={selectedKeywords.has(keyword.keyword)}
-                    onChange={() => toggleKeywordSelection(keyword.keyword)}
-                    className="rounded border-gray-300"
-                  />
-                </TableCell>
-                <TableCell className="font-medium">
-                  {keyword.keyword}
-                </TableCell>
-                <TableCell>
-                  {formatNumber(keyword.searchVolume)}
-                </TableCell>
-                <TableCell>
-                  ${keyword.cpc.toFixed(2)}
-                </TableCell>
-                <TableCell>
-                  <Badge variant={getCompetitionColor(keyword.competitionLevel) as any} className="text-xs">
-                    {keyword.competitionLevel}
-                  </Badge>
-                </TableCell>
-                <TableCell>
-                  <Badge variant={getIntentColor(keyword.intent)} className="text-xs capitalize">
-                    {keyword.intent}
-                  </Badge>
-                </TableCell>
-                <TableCell>
-                  {getTrendIcon(keyword.trend)}
-                </TableCell>
-                {keywords.some(k => k.keywordDifficulty !== undefined) && (
-                  <TableCell>
-                    {keyword.keywordDifficulty !== undefined ? (
-                      <span className={cn(
-                        "font-medium",
-                        keyword.keywordDifficulty <= 30 ? "text-green-600" :
-                        keyword.keywordDifficulty <= 60 ? "text-yellow-600" :
-                        "text-red-600"
-                      )}>
-                        {keyword.keywordDifficulty}
-                      </span>
-                    ) : (
-                      <span className="text-muted-foreground">—</span>
-                    )}
-                  </TableCell>
-                )}
-              </TableRow>
-            ))}
+            {grouped
+              ? clusters.map((cluster) => (
+                <Fragment key={cluster.id}>
+                  <TableRow className="cursor-pointer bg-muted/30 hover:bg-muted/50" onClick={() => toggleCluster(cluster.id)}>
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        checked={cluster.rows.every(row => selectedKeywords.has(row.keyword))}
+                        onChange={() => toggleClusterSelection(cluster)}
+                        onClick={(e) => e.stopPropagation()}
+                        className="rounded border-gray-300"
+                      />
+                    </TableCell>
+                    <TableCell colSpan={hasDifficulty ? 8 : 7}>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Icons.chevronRight className={cn("h-4 w-4 transition-transform", expandedClusters.has(cluster.id) && "rotate-90")} />
+                        <span className="font-medium capitalize">{cluster.name}</span>
+                        <span className="text-sm text-muted-foreground">
+                          {cluster.rows.length === cluster.keywordCount
+                            ? `${cluster.keywordCount} keywords`
+                            : `${cluster.rows.length} of ${cluster.keywordCount} keywords`}
+                          {' • '}{formatNumber(cluster.matchingVolume)} searches
+                        </span>
+                        <Badge variant="outline" className="text-xs">Pillar: {cluster.pillarKeyword}</Badge>
+                        <Badge variant={getIntentColor(cluster.dominantIntent)} className="text-xs capitalize">
+                          {cluster.dominantIntent}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {cluster.method === 'serp' ? 'Shared SERP results' : 'Shared words'}
+                        </span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                  {expandedClusters.has(cluster.id) && cluster.rows.map(renderKeywordRow)}
+                </Fragment>
+              ))
+              : rows.map(renderKeywordRow)}
           </TableBody>
         </Table>
 
-        {filteredAndSortedKeywords.length === 0 && (
+        {(grouped ? clusters.length === 0 : rows.length === 0) && !isLoading && (
           <div className="text-center py-12 text-muted-foreground">
-            {searchTerm || filterCompetition !== 'ALL' || filterIntent !== 'ALL'
+            {hasFilters
               ? 'No keywords match your filters'
               : 'No keywords found'
             }
           </div>
         )}
       </div>
+
+      {/* Pagination */}
+      {!grouped && (cursors.length > 1 || nextCursor) && (
+        <div className="flex items-center justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={goToPreviousPage} disabled={cursors.length <= 1 || isLoading}>
+            <Icons.chevronRight className="h-4 w-4 mr-1 rotate-180" />
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" onClick={goToNextPage} disabled={!nextCursor || isLoading}>
+            Next
+            <Icons.chevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
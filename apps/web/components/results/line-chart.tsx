@@ -0,0 +1,88 @@
+'use client'
+
+import { cn } from '@/lib/utils'
+
+export interface LineChartPoint {
+  label: string
+  // Null leaves a gap, e.g. a check where the keyword didn't rank
+  value: number | null
+}
+
+interface LineChartProps {
+  points: LineChartPoint[]
+  // Draw lower values higher, as for ranking positions
+  inverted?: boolean
+  formatValue?: (value: number) => string
+  height?: number
+  className?: string
+}
+
+const WIDTH = 600
+const PADDING = { top: 12, right: 12, bottom: 24, left: 40 }
+
+// Minimal SVG line chart for short time series; stretches to the container's width
+export function LineChart({ points, inverted = false, formatValue = String, height = 180, className }: LineChartProps) {
+  const values = points.map(point => point.value).filter((value): value is number => value !== null)
+
+  if (values.length === 0) {
+    return (
+      <div className={cn("flex items-center justify-center text-sm text-muted-foreground", className)} style={{ height }}>
+        No data yet
+      </div>
+    )
+  }
+
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const range = max - min || 1
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = height - PADDING.top - PADDING.bottom
+
+  const x = (index: number) => PADDING.left + (points.length === 1 ? plotWidth / 2 : index / (points.length - 1) * plotWidth)
+  const y = (value: number) => {
+    const share = (value - min) / range
+    return PADDING.top + (inverted ? share : 1 - share) * plotHeight
+  }
+
+  // One path segment per run of consecutive points with a value
+  const path = points.reduce((commands, point, index) => {
+    if (point.value === null) return commands
+    const previous = points[index - 1]
+    const command = index === 0 || previous?.value === null ? 'M' : 'L'
+    return `${commands} ${command}${x(index).toFixed(1)},${y(point.value).toFixed(1)}`
+  }, '')
+
+  const top = inverted ? min : max
+  const bottom = inverted ? max : min
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className={cn("w-full", className)} role="img">
+      <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={PADDING.top} y2={PADDING.top} className="stroke-muted" />
+      <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={height - PADDING.bottom} y2={height - PADDING.bottom} className="stroke-muted" />
+      <text x={PADDING.left - 6} y={PADDING.top + 4} textAnchor="end" className="fill-muted-foreground text-[10px]">
+        {formatValue(top)}
+      </text>
+      {bottom !== top && (
+        <text x={PADDING.left - 6} y={height - PADDING.bottom + 4} textAnchor="end" className="fill-muted-foreground text-[10px]">
+          {formatValue(bottom)}
+        </text>
+      )}
+
+      <path d={path} fill="none" strokeWidth={2} className="stroke-primary" />
+      {points.map((point, index) => point.value !== null && (
+        <circle key={index} cx={x(index)} cy={y(point.value)} r={3} className="fill-primary">
+          <title>{`${point.label}: ${formatValue(point.value)}`}</title>
+        </circle>
+      ))}
+
+      <text x={PADDING.left} y={height - 6} className="fill-muted-foreground text-[10px]">
+        {points[0].label}
+      </text>
+      {points.length > 1 && (
+        <text x={WIDTH - PADDING.right} y={height - 6} textAnchor="end" className="fill-muted-foreground text-[10px]">
+          {points[points.length - 1].label}
+        </text>
+      )}
+    </svg>
+  )
+}
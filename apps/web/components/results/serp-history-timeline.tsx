@@ -0,0 +1,207 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { LineChart } from '@/components/results/line-chart'
+import { cn } from '@/lib/utils'
+
+export interface SerpHistoryResult {
+  url: string
+  domain: string
+  position: number
+}
+
+export interface SerpHistorySnapshot {
+  date: string
+  features: string[]
+  results: SerpHistoryResult[]
+  targetPosition: number | null
+  targetUrl: string | null
+  // Null for the first snapshot
+  diff: {
+    entered: SerpHistoryResult[]
+    exited: Array<{ url: string; domain: string; previousPosition: number }>
+    moved: Array<SerpHistoryResult & { previousPosition: number; change: number }>
+    featuresAppeared: string[]
+    featuresDisappeared: string[]
+    turnover: number
+    targetChange: number | null
+  } | null
+}
+
+export interface SerpHistory {
+  keyword: string
+  targetDomain: string | null
+  snapshots: SerpHistorySnapshot[]
+  summary: {
+    snapshotCount: number
+    firstDate: string | null
+    lastDate: string | null
+    averageTurnover: number
+    mostVolatileDate: string | null
+    targetBestPosition: number | null
+    targetLatestPosition: number | null
+    biggestTargetDrop: { date: string; from: number | null; to: number | null } | null
+  }
+}
+
+interface SerpHistoryTimelineProps {
+  history: SerpHistory
+  className?: string
+}
+
+// Moves smaller than this are left out of the timeline to keep it readable
+const MIN_MOVE = 3
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+}
+
+const formatPosition = (position: number | null) => position === null ? 'not ranked' : `#${position}`
+
+const formatFeature = (feature: string) => feature.replace(/_/g, ' ')
+
+export function SerpHistoryTimeline({ history, className }: SerpHistoryTimelineProps) {
+  const { summary } = history
+  // Newest first, where a traffic drop is usually being investigated
+  const snapshots = [...history.snapshots].reverse()
+
+  if (summary.snapshotCount === 0) {
+    return (
+      <p className={cn("text-sm text-muted-foreground", className)}>
+        No historical SERPs were found for this keyword in the selected range
+      </p>
+    )
+  }
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="text-center">
+          <div className="text-2xl font-bold">{summary.snapshotCount}</div>
+          <div className="text-sm text-muted-foreground">Snapshots</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold">{summary.averageTurnover}%</div>
+          <div className="text-sm text-muted-foreground">Avg. Turnover</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold">
+            {summary.mostVolatileDate ? formatDate(summary.mostVolatileDate) : '—'}
+          </div>
+          <div className="text-sm text-muted-foreground">Most Volatile</div>
+        </div>
+        {history.targetDomain && (
+          <div className="text-center">
+            <div className="text-2xl font-bold">{formatPosition(summary.targetLatestPosition)}</div>
+            <div className="text-sm text-muted-foreground">
+              {history.targetDomain} (best {formatPosition(summary.targetBestPosition)})
+            </div>
+          </div>
+        )}
+      </div>
+
+      {history.targetDomain && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">{history.targetDomain} position</h4>
+          <LineChart
+            inverted
+            formatValue={value => `#${value}`}
+            points={history.snapshots.map(snapshot => ({
+              label: formatDate(snapshot.date),
+              value: snapshot.targetPosition
+            }))}
+          />
+          {summary.biggestTargetDrop && (
+            <p className="text-sm text-muted-foreground">
+              Biggest drop on {formatDate(summary.biggestTargetDrop.date)}: {formatPosition(summary.biggestTargetDrop.from)} → {formatPosition(summary.biggestTargetDrop.to)}
+            </p>
+          )}
+        </div>
+      )}
+
+      <ol className="relative space-y-4 border-l pl-6">
+        {snapshots.map(snapshot => {
+          const { diff } = snapshot
+          const moves = diff?.moved.filter(move => Math.abs(move.change) >= MIN_MOVE) || []
+
+          return (
+            <li key={snapshot.date} className="relative">
+              <span className={cn(
+                "absolute -left-[1.9rem] top-1 h-3 w-3 rounded-full border-2 border-background",
+                diff && diff.turnover >= 30 ? "bg-red-500" : diff && diff.turnover > 0 ? "bg-yellow-500" : "bg-muted-foreground"
+              )} />
+
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium text-sm">{formatDate(snapshot.date)}</span>
+                {diff ? (
+                  <Badge variant="outline" className="text-xs">{diff.turnover}% turnover</Badge>
+                ) : (
+                  <Badge variant="secondary" className="text-xs">First snapshot</Badge>
+                )}
+                {history.targetDomain && (
+                  <Badge
+                    variant={diff?.targetChange && diff.targetChange < 0 ? 'destructive' : 'secondary'}
+                    className="text-xs"
+                  >
+                    {history.targetDomain}: {formatPosition(snapshot.targetPosition)}
+                    {diff?.targetChange ? ` (${diff.targetChange > 0 ? '+' : ''}${diff.targetChange})` : ''}
+                  </Badge>
+                )}
+              </div>
+
+              {!diff ? (
+                <div className="mt-2 text-xs text-muted-foreground">
+                  Top result: {snapshot.results[0]?.domain || 'N/A'}
+                  {snapshot.features.length > 0 && ` · Features: ${snapshot.features.map(formatFeature).join(', ')}`}
+                </div>
+              ) : (
+                <div className="mt-2 space-y-1 text-xs">
+                  {diff.entered.length > 0 && (
+                    <div>
+                      <span className="text-green-600 font-medium">Entered: </span>
+                      {diff.entered.map(result => `${result.domain} (#${result.position})`).join(', ')}
+                    </div>
+                  )}
+                  {diff.exited.length > 0 && (
+                    <div>
+                      <span className="text-red-600 font-medium">Exited: </span>
+                      {diff.exited.map(result => `${result.domain} (was #${result.previousPosition})`).join(', ')}
+                    </div>
+                  )}
+                  {moves.length > 0 && (
+                    <div>
+                      <span className="font-medium">Moved: </span>
+                      {moves.map(move => `${move.domain} #${move.previousPosition} → #${move.position}`).join(', ')}
+                    </div>
+                  )}
+                  {(diff.featuresAppeared.length > 0 || diff.featuresDisappeared.length > 0) && (
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {diff.featuresAppeared.map(feature => (
+                        <Badge key={`+${feature}`} variant="outline" className="text-xs text-green-700">
+                          + {formatFeature(feature)}
+                        </Badge>
+                      ))}
+                      {diff.featuresDisappeared.map(feature => (
+                        <Badge key={`-${feature}`} variant="outline" className="text-xs text-red-700">
+                          − {formatFeature(feature)}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {diff.entered.length === 0 && diff.exited.length === 0 && moves.length === 0 &&
+                    diff.featuresAppeared.length === 0 && diff.featuresDisappeared.length === 0 && (
+                    <div className="text-muted-foreground">No significant changes</div>
+                  )}
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
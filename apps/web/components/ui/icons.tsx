@@ -26,7 +26,15 @@ import {
   ArrowRight,
   ArrowUp,
   ArrowDown,
-  ExternalLink
+  ExternalLink,
+  Link,
+  Folder,
+  Trash2,
+  History,
+  RotateCcw,
+  GitCompare,
+  Save,
+  Bell
 } from 'lucide-react';
 
 export const Icons = {
@@ -58,4 +66,12 @@ export const Icons = {
   arrowUp: ArrowUp,
   arrowDown: ArrowDown,
   externalLink: ExternalLink,
+  link: Link,
+  folder: Folder,
+  trash: Trash2,
+  history: History,
+  restore: RotateCcw,
+  compare: GitCompare,
+  save: Save,
+  bell: Bell,
 };
\ No newline at end of file
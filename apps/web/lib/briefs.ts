@@ -0,0 +1,152 @@
+interface BriefSectionBase {
+  id: string
+  title?: string
+  order: number
+}
+
+export type BriefSection =
+  | (BriefSectionBase & { type: 'heading'; content: { text: string; level: 1 | 2 | 3 } })
+  | (BriefSectionBase & { type: 'paragraph'; content: { text: string } })
+  | (BriefSectionBase & { type: 'list'; content: { items: string[]; ordered?: boolean } })
+  | (BriefSectionBase & { type: 'table'; content: { columns: string[]; rows: string[][] } })
+  | (BriefSectionBase & { type: 'chart'; content: { chartType: 'bar' | 'line'; labels: string[]; values: number[] } })
+
+export type BriefSectionType = BriefSection['type']
+
+export interface BriefVersion {
+  version: number
+  title: string
+  change: string
+  createdBy: string
+  createdAt: string
+  creator?: { id: string; name?: string | null; email: string }
+}
+
+export interface BriefDiffLine {
+  kind: 'added' | 'removed' | 'unchanged'
+  text: string
+}
+
+export interface BriefSectionDiff {
+  sectionId: string
+  status: 'added' | 'removed' | 'modified' | 'moved' | 'unchanged'
+  before?: BriefSection
+  after?: BriefSection
+  lines?: BriefDiffLine[]
+}
+
+export interface BriefDiff {
+  fromVersion: number
+  toVersion: number
+  titleChanged: boolean
+  sections: BriefSectionDiff[]
+}
+
+export type BriefExportFormat = 'MARKDOWN' | 'CSV' | 'PDF' | 'DOCX' | 'NOTION' | 'GOOGLE_DOCS'
+
+export interface BriefExport {
+  id: string
+  briefId: string
+  briefVersion: number
+  format: BriefExportFormat
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED'
+  fileName?: string | null
+  size?: number | null
+  error?: string | null
+  downloadUrl?: string | null
+  url?: string | null
+  destination?: string | null
+  expiresAt?: string | null
+  createdBy: string
+  createdAt: string
+  creator?: { id: string; name?: string | null; email: string }
+}
+
+export const EXPORT_FORMAT_LABELS: { [format in BriefExportFormat]: string } = {
+  PDF: 'PDF',
+  DOCX: 'Word (DOCX)',
+  MARKDOWN: 'Markdown',
+  CSV: 'CSV',
+  NOTION: 'Notion',
+  GOOGLE_DOCS: 'Google Docs'
+}
+
+// Formats that create a document in the user's connected account, by integration
+export const REMOTE_EXPORT_INTEGRATIONS: { [format in BriefExportFormat]?: string } = {
+  NOTION: 'notion',
+  GOOGLE_DOCS: 'google'
+}
+
+export interface ExportIntegration {
+  provider: string
+  label: string
+  configured: boolean
+  connected: boolean
+  accountName?: string | null
+  connectedAt?: string | null
+}
+
+export const SECTION_TYPE_LABELS: { [type in BriefSectionType]: string } = {
+  heading: 'Heading',
+  paragraph: 'Paragraph',
+  list: 'List',
+  table: 'Table',
+  chart: 'Chart'
+}
+
+// An empty section of the given type, appended after the existing sections
+export function createSection(type: BriefSectionType, order: number): BriefSection {
+  const base = { id: crypto.randomUUID(), order }
+
+  switch (type) {
+    case 'heading':
+      return { ...base, type, content: { text: '', level: 2 } }
+    case 'paragraph':
+      return { ...base, type, title: '', content: { text: '' } }
+    case 'list':
+      return { ...base, type, title: '', content: { items: [] } }
+    case 'table':
+      return { ...base, type, title: '', content: { columns: ['Column 1', 'Column 2'], rows: [] } }
+    case 'chart':
+      return { ...base, type, title: '', content: { chartType: 'bar', labels: [], values: [] } }
+  }
+}
+
+// Poll a brief generation or regeneration job until it finishes. Resolves with the
+// brief id on success and rejects with the job's error on failure.
+export function waitForBriefJob(queryId: string, accessToken: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now()
+
+    const poll = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/briefs/jobs/${queryId}`, {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`
+          }
+        })
+
+        if (!response.ok) {
+          throw new Error('Failed to get brief job status')
+        }
+
+        const job = await response.json()
+
+        if (job.status === 'COMPLETED') {
+          clearInterval(poll)
+          resolve(job.briefId)
+        } else if (job.status === 'FAILED') {
+          clearInterval(poll)
+          reject(new Error(job.error?.error || 'Brief job failed'))
+        } else if (Date.now() - startedAt > 300000) { // 5 minutes
+          clearInterval(poll)
+          reject(new Error('Timed out waiting for the brief'))
+        }
+
+      } catch (error) {
+        clearInterval(poll)
+        reject(error)
+      }
+    }, 3000) // Poll every 3 seconds
+  })
+}
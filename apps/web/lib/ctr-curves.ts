@@ -0,0 +1,39 @@
+export type CtrDevice = 'desktop' | 'mobile'
+export type SerpLayout = 'standard' | 'ai_overview' | 'local_pack' | 'featured_snippet' | 'shopping' | 'ads'
+
+export interface CtrCurveEntry {
+  device: CtrDevice
+  layout: SerpLayout
+  // Share of searches, 0-1, that click the result at positions 1, 2, 3...
+  positions: number[]
+  // Share of searches that click any result past the end of the list
+  tail: number
+  // False when the built-in curve applies
+  custom: boolean
+  updatedAt: string | null
+}
+
+export const CTR_DEVICE_LABELS: { [device in CtrDevice]: string } = {
+  desktop: 'Desktop',
+  mobile: 'Mobile',
+}
+
+export const SERP_LAYOUT_LABELS: { [layout in SerpLayout]: string } = {
+  standard: 'Standard results',
+  ai_overview: 'AI overview',
+  local_pack: 'Local pack',
+  featured_snippet: 'Featured snippet',
+  shopping: 'Shopping results',
+  ads: 'Ads',
+}
+
+export const formatCtr = (ctr: number) => `${(ctr * 100).toFixed(1)}%`
+
+// The upload format: one "position,ctr" row per line and a "tail" row, with CTRs as 0-1 shares
+export function curveToCsv(curve: { positions: number[]; tail: number }): string {
+  return [
+    'position,ctr',
+    ...curve.positions.map((ctr, index) => `${index + 1},${ctr}`),
+    `tail,${curve.tail}`,
+  ].join('\n')
+}
@@ -0,0 +1,67 @@
+export type DatasetKind = 'KEYWORDS' | 'SERP' | 'COMPETITORS' | 'BACKLINKS' | 'ONPAGE' | 'AI_INSIGHTS' | 'KEYWORD_CLUSTERS' | 'SERP_HISTORY' | 'TRENDS' | 'LOCAL_SEO'
+
+export interface Dataset<T = any> {
+  id: string
+  name: string
+  kind: DatasetKind
+  meta?: any
+  data?: T
+  createdAt?: string
+}
+
+export type DatasetExportFormat = 'CSV' | 'XLSX'
+
+export interface DatasetColumn {
+  key: string
+  label: string
+}
+
+export interface DatasetExportRequest {
+  format: DatasetExportFormat
+  columns?: string[]
+  keywords?: string[]
+  // Same values as the /rows query string, e.g. { competition: 'LOW,MEDIUM', sort: 'searchVolume:desc' }
+  filters?: { [param: string]: string }
+}
+
+function fileNameFrom(disposition: string | null, fallback: string) {
+  const match = disposition?.match(/filename="([^"]+)"/)
+  return match ? match[1] : fallback
+}
+
+// Download a dataset export and save it under the name the server chose. Returns an error
+// message when the export was refused, or null once the download has started.
+export async function downloadDatasetExport(
+  datasetId: string,
+  accessToken: string,
+  request: DatasetExportRequest
+): Promise<string | null> {
+  const response = await fetch(`/api/datasets/${datasetId}/export`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`
+    },
+    body: JSON.stringify(request)
+  })
+
+  if (!response.ok) {
+    const { error, message } = await response.json().catch(() => ({}))
+    if (response.status === 403) {
+      return message || 'You do not have permission to export datasets.'
+    }
+    return error || 'Export failed'
+  }
+
+  const blob = await response.blob()
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileNameFrom(response.headers.get('Content-Disposition'), `dataset.${request.format.toLowerCase()}`)
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+
+  return null
+}
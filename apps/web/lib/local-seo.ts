@@ -0,0 +1,92 @@
+export interface CheckPoint {
+  label: string
+  locationName?: string
+  latitude?: number
+  longitude?: number
+  // Grid cell, row 0 at the north edge
+  row?: number
+  col?: number
+}
+
+export interface MapsListing {
+  position: number
+  title: string
+  domain: string | null
+  url: string | null
+  rating: number | null
+  reviews: number
+  address: string | null
+  phone: string | null
+  category: string | null
+  cid: string | null
+  isClaimed: boolean | null
+}
+
+export interface LocalCheck {
+  keyword: string
+  point: string
+  // Null when the business isn't listed at this point
+  position: number | null
+  localPack: Array<{ title: string; rating: number | null; reviews: number }>
+}
+
+export interface LocalKeywordSummary {
+  keyword: string
+  checks: number
+  foundRate: number
+  localPackRate: number
+  averagePosition: number | null
+}
+
+export interface ShareOfVoiceEntry {
+  name: string
+  domain: string | null
+  isTarget: boolean
+  appearances: number
+  // Share of all local pack slots, in percent
+  share: number
+  averagePosition: number
+  rating: number | null
+  reviews: number
+}
+
+export interface NapHint {
+  field: 'name' | 'address' | 'phone' | 'website' | 'listing'
+  severity: 'warning' | 'info'
+  message: string
+  values?: string[]
+}
+
+export interface LocalSeoResult {
+  business: {
+    name: string
+    domain?: string
+    phone?: string
+    address?: string
+  }
+  overview: {
+    keywords: number
+    points: number
+    checks: number
+    foundRate: number
+    localPackRate: number
+    averagePosition: number | null
+    shareOfVoice: number
+    rating: number | null
+    reviews: number
+  }
+  points: CheckPoint[]
+  keywords: LocalKeywordSummary[]
+  checks: LocalCheck[]
+  shareOfVoice: ShareOfVoiceEntry[]
+  ratingComparison: {
+    target: { rating: number | null; reviews: number }
+    competitorAverage: { rating: number | null; reviews: number }
+    competitorsWithMoreReviews: number
+    competitorsRatedHigher: number
+  }
+  listings: MapsListing[]
+  napHints: NapHint[]
+}
+
+export const LOCAL_PACK_SIZE = 3
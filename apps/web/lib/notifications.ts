@@ -0,0 +1,16 @@
+export interface AppNotification {
+  id: string
+  projectId: string | null
+  title: string
+  // First line is the summary; one line per matched keyword follows
+  message: string
+  link: string | null
+  read: boolean
+  createdAt: string
+}
+
+export interface NotificationPage {
+  notifications: AppNotification[]
+  unreadCount: number
+  nextCursor: string | null
+}
@@ -0,0 +1,139 @@
+export type RankCheckFrequency = 'DAILY' | 'WEEKLY'
+
+export interface RankCheck {
+  id: string
+  checkedAt: string
+  keywordCount: number
+  rankedKeywords: number
+  top3: number
+  top10: number
+  averagePosition: number | null
+  // Estimated share of the tracked keywords' clicks, 0-100
+  visibility: number
+  // Estimated monthly clicks at the checked positions
+  estimatedTraffic: number
+}
+
+export interface RankTracker {
+  id: string
+  projectId: string
+  name: string
+  targetDomain: string
+  location: string
+  language: string
+  device: 'desktop' | 'mobile'
+  frequency: RankCheckFrequency
+  active: boolean
+  nextCheckAt: string
+  lastCheckedAt?: string | null
+  keywordCount: number
+  latestCheck?: RankCheck | null
+}
+
+export interface RankChange {
+  trackedKeywordId: string
+  keyword: string
+  searchVolume: number | null
+  position: number | null
+  previousPosition: number | null
+  // Positive when the keyword moved up since the comparison check
+  change: number | null
+  url: string | null
+}
+
+export interface KeywordRanking extends RankChange {
+  bestPosition: number | null
+  serpFeatures: string[]
+  // False until the first check after the keyword was added
+  checked: boolean
+}
+
+export interface RankTrackerDetail {
+  tracker: RankTracker
+  role: 'OWNER' | 'EDITOR' | 'VIEWER'
+  latestCheck: RankCheck | null
+  comparisonCheck: RankCheck | null
+  activeCheck: { queryId: string; status: string; progress?: number } | null
+  trend: RankCheck[]
+  keywords: KeywordRanking[]
+  movers: {
+    winners: RankChange[]
+    losers: RankChange[]
+  }
+}
+
+export interface KeywordRankHistory {
+  keyword: { id: string; keyword: string; searchVolume: number | null }
+  history: Array<{
+    checkedAt: string
+    position: number | null
+    url: string | null
+  }>
+}
+
+export type RankAlertType = 'POSITION_DROP' | 'COMPETITOR_OVERTAKE' | 'SERP_FEATURE'
+export type AlertChannel = 'IN_APP' | 'EMAIL' | 'WEBHOOK'
+
+export const ALERT_TYPE_LABELS: { [type in RankAlertType]: string } = {
+  POSITION_DROP: 'Drops out of the top N',
+  COMPETITOR_OVERTAKE: 'Competitor overtakes us',
+  SERP_FEATURE: 'SERP feature appears',
+}
+
+export const ALERT_CHANNEL_LABELS: { [channel in AlertChannel]: string } = {
+  IN_APP: 'In-app',
+  EMAIL: 'Email',
+  WEBHOOK: 'Webhook',
+}
+
+// DataForSEO result types worth alerting on; rules can also match any new feature
+export const SERP_FEATURE_OPTIONS = [
+  'featured_snippet',
+  'local_pack',
+  'people_also_ask',
+  'video',
+  'images',
+  'top_stories',
+  'shopping',
+  'knowledge_graph',
+]
+
+export interface RankAlertRule {
+  id: string
+  trackerId: string
+  name: string
+  type: RankAlertType
+  threshold: number
+  competitorDomain: string | null
+  serpFeature: string | null
+  channels: AlertChannel[]
+  emailRecipients: string[]
+  webhookUrl: string | null
+  active: boolean
+  lastTriggeredAt: string | null
+  createdAt: string
+}
+
+export interface AlertDelivery {
+  channel: AlertChannel
+  status: 'sent' | 'failed' | 'skipped'
+  recipients?: number
+  error?: string
+}
+
+export interface RankAlertEvent {
+  id: string
+  ruleId: string
+  ruleName: string
+  type: RankAlertType
+  checkId: string
+  triggers: Array<{
+    trackedKeywordId: string
+    keyword: string
+    position: number | null
+    previousPosition: number | null
+    detail: string
+  }>
+  deliveries: AlertDelivery[]
+  createdAt: string
+}
@@ -0,0 +1,70 @@
+interface BudgetOverrun {
+  scope: 'user' | 'role'
+  unit: 'USD' | 'API_CALLS' | 'TOKENS'
+  period: string
+  limit: number
+  spent: number
+}
+
+function describeOverruns(overruns: BudgetOverrun[] = []) {
+  return overruns
+    .map(o => `${o.scope === 'role' ? 'Team' : 'Your'} ${o.period.toLowerCase()} ${o.unit} budget: ${o.spent} of ${o.limit} used`)
+    .join('\n')
+}
+
+// Start a research query and return its id, or null if it was not started.
+// When the API reports the request may exceed a budget, the user is asked to
+// confirm and the request is resent with confirmOverBudget.
+export async function startResearchQuery(
+  endpoint: string,
+  data: object,
+  accessToken: string
+): Promise<string | null> {
+  const submit = (body: object) =>
+    fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`
+      },
+      body: JSON.stringify(body)
+    })
+
+  let response = await submit(data)
+
+  if (response.status === 409) {
+    const { error, estimate, overruns, requiresConfirmation } = await response.json()
+    // Other conflicts, e.g. a rank check that is already running, can't be confirmed past
+    if (!requiresConfirmation) {
+      window.alert(error)
+      return null
+    }
+
+    const cost = estimate ? `Estimated cost: $${estimate.totals.usd.toFixed(2)}\n` : ''
+    const confirmed = window.confirm(`${error}.\n\n${cost}${describeOverruns(overruns)}\n\nRun it anyway?`)
+    if (!confirmed) {
+      return null
+    }
+
+    response = await submit({ ...data, confirmOverBudget: true })
+  }
+
+  if (response.status === 403) {
+    const { message } = await response.json()
+    window.alert(message || 'You do not have permission to run this research.')
+    return null
+  }
+
+  if (response.status === 402) {
+    const { overruns } = await response.json()
+    window.alert(`Budget exceeded.\n\n${describeOverruns(overruns)}`)
+    return null
+  }
+
+  if (!response.ok) {
+    throw new Error(`Request to ${endpoint} failed`)
+  }
+
+  const { queryId } = await response.json()
+  return queryId
+}
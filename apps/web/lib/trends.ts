@@ -0,0 +1,61 @@
+export type SeasonalityLevel = 'high' | 'medium' | 'low'
+
+export interface TrendPoint {
+  // First day of the month, YYYY-MM-01
+  month: string
+  value: number
+}
+
+export interface KeywordTrend {
+  keyword: string
+  series: TrendPoint[]
+  // Interest per calendar month (January first), where 100 is the keyword's yearly average
+  monthlyProfile: number[]
+  seasonality: SeasonalityLevel
+  // Calendar months (1-12), strongest first
+  peakMonths: number[]
+  yoyGrowth: number | null
+  recentChange: number | null
+  breakout: boolean
+  averageInterest: number
+  currentInterest: number | null
+}
+
+export interface BreakoutTerm {
+  keyword: string
+  query: string
+  growth: number
+}
+
+export interface CalendarEntry {
+  keyword: string
+  type: 'seasonal' | 'rising'
+  season: string | null
+  peakMonth: number | null
+  seasonStart: string
+  publishBy: string
+  peakIndex: number | null
+}
+
+export interface TrendAnalysisResult {
+  overview: {
+    keywordsAnalyzed: number
+    seasonalKeywords: number
+    risingKeywords: number
+    breakoutKeywords: number
+    firstMonth: string | null
+    lastMonth: string | null
+    leadTimeWeeks: number
+  }
+  keywords: KeywordTrend[]
+  breakoutTerms: BreakoutTerm[]
+  calendar: CalendarEntry[]
+}
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+export const SEASONALITY_LABELS: Record<SeasonalityLevel, string> = {
+  high: 'Highly seasonal',
+  medium: 'Seasonal',
+  low: 'Steady'
+}
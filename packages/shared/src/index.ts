@@ -19,6 +19,38 @@ export {
   updateProjectSchema
 } from './schemas/project';
 
+export {
+  briefSectionSchema,
+  briefOptionsSchema,
+  generateBriefSchema,
+  updateBriefSchema,
+  regenerateBriefSectionSchema,
+  createBriefExportSchema
+} from './schemas/brief';
+
+export {
+  keywordRowsQuerySchema,
+  keywordRowFiltersSchema,
+  exportDatasetSchema
+} from './schemas/dataset';
+
+export {
+  rankCheckFrequencySchema,
+  createRankTrackerSchema,
+  updateRankTrackerSchema,
+  addTrackedKeywordsSchema,
+  runRankCheckSchema,
+  rankTrackerQuerySchema
+} from './schemas/rank-tracking';
+
+export {
+  rankAlertTypeSchema,
+  alertChannelSchema,
+  createRankAlertRuleSchema,
+  updateRankAlertRuleSchema,
+  notificationsQuerySchema
+} from './schemas/rank-alerts';
+
 export {
   queryTypeSchema,
   queryStatusSchema,
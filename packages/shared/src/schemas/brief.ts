@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+const sectionBase = {
+  id: z.string().min(1).max(64),
+  title: z.string().max(200).optional(),
+  order: z.number().int().min(0),
+};
+
+export const briefSectionSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...sectionBase,
+    type: z.literal('heading'),
+    content: z.object({
+      text: z.string().max(300),
+      level: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+    }),
+  }),
+  z.object({
+    ...sectionBase,
+    type: z.literal('paragraph'),
+    content: z.object({ text: z.string().max(10000) }),
+  }),
+  z.object({
+    ...sectionBase,
+    type: z.literal('list'),
+    content: z.object({
+      items: z.array(z.string().max(1000)).max(100),
+      ordered: z.boolean().optional(),
+    }),
+  }),
+  z.object({
+    ...sectionBase,
+    type: z.literal('table'),
+    content: z.object({
+      columns: z.array(z.string().max(200)).min(1).max(20),
+      rows: z.array(z.array(z.string().max(1000)).max(20)).max(200),
+    }),
+  }),
+  z.object({
+    ...sectionBase,
+    type: z.literal('chart'),
+    content: z.object({
+      chartType: z.enum(['bar', 'line']),
+      labels: z.array(z.string().max(200)).max(100),
+      values: z.array(z.number()).max(100),
+    }),
+  }),
+]);
+
+export const briefOptionsSchema = z.object({
+  wordCount: z.number().int().min(300).max(10000).optional(),
+  contentType: z.enum(['blog', 'landing', 'product', 'guide']).optional(),
+  targetAudience: z.string().max(200).optional(),
+});
+
+export const generateBriefSchema = z.object({
+  datasetId: z.string().min(1),
+  keyword: z.string().min(1).max(200).optional(),
+  keywords: z.array(z.string().min(1).max(200)).max(100).optional(),
+  title: z.string().min(1).max(200).optional(),
+  options: briefOptionsSchema.optional(),
+  confirmOverBudget: z.boolean().optional(),
+});
+
+// baseVersion is the version the editor started from; saving over a newer version is rejected
+export const updateBriefSchema = z.object({
+  baseVersion: z.number().int().min(1),
+  title: z.string().min(1).max(200).optional(),
+  sections: z.array(briefSectionSchema).max(100).optional(),
+  change: z.string().max(200).optional(),
+});
+
+// The regenerated section is saved on top of whatever version is current when the AI finishes
+export const regenerateBriefSectionSchema = z.object({
+  instructions: z.string().max(1000).optional(),
+  confirmOverBudget: z.boolean().optional(),
+});
+
+export const createBriefExportSchema = z.object({
+  format: z.enum(['MARKDOWN', 'CSV', 'PDF', 'DOCX', 'NOTION', 'GOOGLE_DOCS']),
+  // Notion parent page (link or ID); defaults to the most recently edited shared page
+  destination: z.string().max(500).optional(),
+});
+
+export type GenerateBrief = z.infer<typeof generateBriefSchema>;
+export type UpdateBrief = z.infer<typeof updateBriefSchema>;
+export type RegenerateBriefSection = z.infer<typeof regenerateBriefSectionSchema>;
+export type CreateBriefExport = z.infer<typeof createBriefExportSchema>;
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+const KEYWORD_ROW_SORT_FIELDS = [
+  'keyword',
+  'searchVolume',
+  'cpc',
+  'competition',
+  'keywordDifficulty',
+  'opportunity',
+] as const;
+
+// Comma-separated query string values, e.g. ?competition=LOW,MEDIUM
+const csvEnum = <T extends [string, ...string[]]>(values: T) =>
+  z.string()
+    .transform(value => value.split(',').map(item => item.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(values)).min(1));
+
+// sort=searchVolume:desc,keyword:asc; earlier fields take precedence
+const sortSchema = z.string()
+  .transform(value => value.split(',').map(item => item.trim()).filter(Boolean).map(item => {
+    const [field, direction = 'asc'] = item.split(':');
+    return { field, direction };
+  }))
+  .pipe(z.array(z.object({
+    field: z.enum(KEYWORD_ROW_SORT_FIELDS),
+    direction: z.enum(['asc', 'desc']),
+  })).min(1).max(KEYWORD_ROW_SORT_FIELDS.length));
+
+export const keywordRowsQuerySchema = z.object({
+  search: z.string().max(200).optional(),
+  minVolume: z.coerce.number().int().min(0).optional(),
+  maxVolume: z.coerce.number().int().min(0).optional(),
+  competition: csvEnum(['LOW', 'MEDIUM', 'HIGH', 'UNKNOWN']).optional(),
+  intent: csvEnum(['informational', 'navigational', 'commercial', 'transactional']).optional(),
+  trend: csvEnum(['up', 'down', 'stable']).optional(),
+  minOpportunity: z.coerce.number().min(0).max(100).optional(),
+  maxOpportunity: z.coerce.number().min(0).max(100).optional(),
+  sort: sortSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  // Opaque value from the previous page's nextCursor
+  cursor: z.string().max(2000).optional(),
+});
+
+export type KeywordRowsQuery = z.infer<typeof keywordRowsQuerySchema>;
+export type KeywordRowSort = NonNullable<KeywordRowsQuery['sort']>[number];
+
+// The rows query without paging, for applying the table's current filters and sort elsewhere
+export const keywordRowFiltersSchema = keywordRowsQuerySchema.omit({ limit: true, cursor: true });
+
+export const exportDatasetSchema = z.object({
+  format: z.enum(['CSV', 'XLSX']),
+  // Column keys from GET /datasets/:id/columns, in output order; defaults to every column
+  columns: z.array(z.string().min(1).max(50)).min(1).max(50).optional(),
+  // Only rows for these keywords, e.g. the rows selected in a table
+  keywords: z.array(z.string().min(1).max(500)).min(1).max(10000).optional(),
+  // Keyword datasets take the full rows filter; other kinds only use search
+  filters: keywordRowFiltersSchema.optional(),
+});
+
+export type ExportDataset = z.infer<typeof exportDatasetSchema>;
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+export const rankAlertTypeSchema = z.enum([
+  'POSITION_DROP', // a keyword falls out of the top N
+  'COMPETITOR_OVERTAKE', // a competitor moves above the tracked domain
+  'SERP_FEATURE', // a result type (featured snippet, local pack...) appears on the page
+]);
+
+export const alertChannelSchema = z.enum(['IN_APP', 'EMAIL', 'WEBHOOK']);
+
+const rankAlertRuleFields = {
+  name: z.string().trim().min(1).max(100),
+  // POSITION_DROP: alert when a keyword leaves the top `threshold` positions
+  threshold: z.number().int().min(1).max(100),
+  // COMPETITOR_OVERTAKE: the competitor's domain, e.g. competitor.com
+  competitorDomain: z.string().trim().min(3).max(255).nullable(),
+  // SERP_FEATURE: a DataForSEO item type such as featured_snippet; null alerts on any new feature
+  serpFeature: z.string().trim().min(1).max(50).nullable(),
+  channels: z.array(alertChannelSchema).min(1).max(3),
+  // EMAIL: addresses to notify; the project's members when empty
+  emailRecipients: z.array(z.string().trim().email()).max(20),
+  // WEBHOOK: a Slack-style incoming webhook URL that accepts { text }; https only
+  webhookUrl: z.string().trim().url().regex(/^https:\/\//, 'Webhook URLs must use https').nullable(),
+  active: z.boolean(),
+};
+
+export const createRankAlertRuleSchema = z.object({
+  ...rankAlertRuleFields,
+  type: rankAlertTypeSchema,
+  threshold: rankAlertRuleFields.threshold.default(10),
+  competitorDomain: rankAlertRuleFields.competitorDomain.optional(),
+  serpFeature: rankAlertRuleFields.serpFeature.optional(),
+  channels: rankAlertRuleFields.channels.default(['IN_APP']),
+  emailRecipients: rankAlertRuleFields.emailRecipients.default([]),
+  webhookUrl: rankAlertRuleFields.webhookUrl.optional(),
+  active: rankAlertRuleFields.active.default(true),
+});
+
+// The rule type can't change; create a new rule instead
+export const updateRankAlertRuleSchema = z.object(rankAlertRuleFields).partial();
+
+export const notificationsQuerySchema = z.object({
+  unreadOnly: z.enum(['true', 'false']).transform(value => value === 'true').default('false'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  // Notifications older than this one, from the previous page
+  cursor: z.string().optional(),
+});
+
+export type RankAlertType = z.infer<typeof rankAlertTypeSchema>;
+export type AlertChannel = z.infer<typeof alertChannelSchema>;
+export type CreateRankAlertRule = z.infer<typeof createRankAlertRuleSchema>;
+export type UpdateRankAlertRule = z.infer<typeof updateRankAlertRuleSchema>;
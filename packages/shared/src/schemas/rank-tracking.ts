@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+// Same limit as MAX_TRACKED_KEYWORDS on the server; a request may not add more at once
+const trackedKeywordsSchema = z.array(z.string().trim().min(1).max(200)).min(1).max(500);
+
+export const rankCheckFrequencySchema = z.enum(['DAILY', 'WEEKLY']);
+
+export const createRankTrackerSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  // A bare domain such as example.com; a pasted URL is reduced to its domain
+  targetDomain: z.string().trim().min(3).max(255),
+  location: z.string().min(1).max(100).default('United States'),
+  language: z.string().min(1).max(50).default('English'),
+  device: z.enum(['desktop', 'mobile']).default('desktop'),
+  frequency: rankCheckFrequencySchema.default('DAILY'),
+  keywords: trackedKeywordsSchema,
+  confirmOverBudget: z.boolean().optional(),
+});
+
+export const updateRankTrackerSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  frequency: rankCheckFrequencySchema,
+  // Paused trackers keep their history but are not checked
+  active: z.boolean(),
+}).partial();
+
+export const addTrackedKeywordsSchema = z.object({
+  keywords: trackedKeywordsSchema,
+});
+
+export const runRankCheckSchema = z.object({
+  confirmOverBudget: z.boolean().optional(),
+});
+
+export const rankTrackerQuerySchema = z.object({
+  // Movers compare the latest check with the last one at least this many days older
+  compareDays: z.coerce.number().int().min(1).max(365).default(7),
+  // Checks included in the trend series
+  days: z.coerce.number().int().min(7).max(730).default(90),
+});
+
+export type RankCheckFrequency = z.infer<typeof rankCheckFrequencySchema>;
+export type CreateRankTracker = z.infer<typeof createRankTrackerSchema>;
+export type UpdateRankTracker = z.infer<typeof updateRankTrackerSchema>;
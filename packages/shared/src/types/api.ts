@@ -50,20 +50,64 @@ export interface Brief {
   updatedAt: Date;
 }
 
-export interface BriefSection {
+interface BriefSectionBase {
   id: string;
-  type: 'heading' | 'paragraph' | 'list' | 'table' | 'chart';
   title?: string;
-  content: any;
   order: number;
 }
 
+export type BriefSection =
+  | (BriefSectionBase & { type: 'heading'; content: { text: string; level: 1 | 2 | 3 } })
+  | (BriefSectionBase & { type: 'paragraph'; content: { text: string } })
+  | (BriefSectionBase & { type: 'list'; content: { items: string[]; ordered?: boolean } })
+  | (BriefSectionBase & { type: 'table'; content: { columns: string[]; rows: string[][] } })
+  | (BriefSectionBase & { type: 'chart'; content: { chartType: 'bar' | 'line'; labels: string[]; values: number[] } });
+
+export type BriefSectionType = BriefSection['type'];
+
+export interface BriefVersionSummary {
+  version: number;
+  title: string;
+  change: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+// Section-level comparison of two brief versions; text lines are diffed within modified sections
+export interface BriefDiffLine {
+  kind: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+export interface BriefSectionDiff {
+  sectionId: string;
+  status: 'added' | 'removed' | 'modified' | 'moved' | 'unchanged';
+  before?: BriefSection;
+  after?: BriefSection;
+  lines?: BriefDiffLine[];
+}
+
+export interface BriefDiff {
+  fromVersion: number;
+  toVersion: number;
+  titleChanged: boolean;
+  sections: BriefSectionDiff[];
+}
+
 export interface BriefExport {
   id: string;
   brief_id: string;
-  format: 'pdf' | 'docx' | 'notion' | 'markdown';
-  url: string;
-  expires_at: Date;
+  brief_version: number;
+  format: 'pdf' | 'docx' | 'csv' | 'markdown' | 'notion' | 'google_docs';
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  url?: string;
+  destination?: string;
+  storage_key?: string;
+  file_name?: string;
+  size?: number;
+  error?: string;
+  expires_at?: Date;
   created_by: string;
   createdAt: Date;
+  updatedAt: Date;
 }
\ No newline at end of file
@@ -11,6 +11,6 @@ export interface ProjectMember {
   id: string;
   project_id: string;
   user_id: string;
-  role: 'viewer' | 'editor' | 'admin';
+  role: 'owner' | 'editor' | 'viewer';
   createdAt: Date;
 }
\ No newline at end of file
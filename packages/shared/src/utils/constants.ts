@@ -80,6 +80,10 @@ export const DATAFORSEO_ENDPOINTS = {
   LABS_COMPETITORS: '/v3/dataforseo_labs/serp_competitors/task_post',
   BACKLINKS_SUMMARY: '/v3/backlinks/summary/live',
   BACKLINKS_DOMAINS: '/v3/backlinks/referring_domains/live',
+  BACKLINKS_ANCHORS: '/v3/backlinks/anchors/live',
+  BACKLINKS_LIST: '/v3/backlinks/backlinks/live',
+  BACKLINKS_BULK_RANKS: '/v3/backlinks/bulk_ranks/live',
+  BACKLINKS_BULK_REFERRING_DOMAINS: '/v3/backlinks/bulk_referring_domains/live',
   ONPAGE_INSTANT: '/v3/on_page/instant_pages',
 } as const;
 
@@ -159,6 +163,7 @@ export const EXPORT_FORMATS = {
   CSV: 'csv',
   EXCEL: 'xlsx',
   PDF: 'pdf',
+  DOCX: 'docx',
   GOOGLE_SHEETS: 'google_sheets',
   NOTION: 'notion',
   MARKDOWN: 'markdown',